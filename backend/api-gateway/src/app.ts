@@ -1,6 +1,9 @@
 import Fastify from 'fastify';
 import { config } from './config.js';
+import { setupDashboard } from './dashboard.js';
+import { startModuleSettingsSync, stopModuleSettingsSync } from './config/module-settings.config.js';
 import { authenticateJWT } from './middleware/auth.middleware.js';
+import { enforceMaintenanceMode } from './middleware/maintenance.middleware.js';
 import { setupProxy } from './proxy.js';
 
 export async function createApp() {
@@ -21,6 +24,8 @@ export async function createApp() {
     disableRequestLogging: config.NODE_ENV === 'production',
     ignoreTrailingSlash: true,
     bodyLimit: 50 * 1024 * 1024, // 50MB limit for file uploads
+    // request.ip is the client address only through the configured number of proxies
+    trustProxy: config.TRUST_PROXY_HOPS > 0 ? config.TRUST_PROXY_HOPS : false,
   });
 
   // CORS
@@ -85,6 +90,7 @@ export async function createApp() {
       'X-RateLimit-Limit',
       'X-RateLimit-Remaining',
       'X-RateLimit-Reset',
+      'Retry-After',
     ],
     maxAge: 86400, // 24 hours
   });
@@ -174,6 +180,18 @@ export async function createApp() {
   // Global authentication middleware - AFTER CORS and proxy setup
   app.addHook('preHandler', authenticateJWT);
 
+  // Maintenance mode - AFTER authentication so admins are recognised
+  app.addHook('preHandler', enforceMaintenanceMode);
+
+  // Runtime module settings (rate limits) from the settings service
+  app.addHook('onReady', startModuleSettingsSync);
+  app.addHook('onClose', async () => {
+    stopModuleSettingsSync();
+  });
+
+  // Admin dashboard figures composed from several services
+  await setupDashboard(app);
+
   // Health check
   app.get('/health', async () => {
     return {
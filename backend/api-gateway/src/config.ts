@@ -2,6 +2,8 @@ export const config = {
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: parseInt(process.env.PORT || '8081'),
   HOST: process.env.HOST || '0.0.0.0',
+  // Reverse proxies in front of the gateway whose X-Forwarded-For entries are trusted (0 = none)
+  TRUST_PROXY_HOPS: parseInt(process.env.TRUST_PROXY_HOPS || '0'),
 
   // Services
   PROPERTIES_SERVICE_URL: process.env.PROPERTIES_SERVICE_URL || 'http://properties:8082',
@@ -11,6 +13,37 @@ export const config = {
   USERS_SERVICE_URL: process.env.USERS_SERVICE_URL || 'http://users:8086',
   MESSAGES_SERVICE_URL: process.env.MESSAGES_SERVICE_URL || 'http://messages:8090',
 
+  // Media buckets readable without a token (must match the media service's MEDIA_PUBLIC_BUCKETS)
+  MEDIA_PUBLIC_BUCKETS: (process.env.MEDIA_PUBLIC_BUCKETS || 'images')
+    .split(',').map(s => s.trim()).filter(Boolean),
+
+  // Service-to-service key (API key verification against the auth service)
+  INTERNAL_API_KEY: process.env.INTERNAL_API_KEY || '',
+  API_KEY_VERIFY_TIMEOUT: parseInt(process.env.API_KEY_VERIFY_TIMEOUT || '5000'),
+  API_KEY_CACHE_TTL: parseInt(process.env.API_KEY_CACHE_TTL || '30000'),
+
+  // Maintenance mode (flag read from the settings service)
+  MAINTENANCE_CACHE_TTL: parseInt(process.env.MAINTENANCE_CACHE_TTL || '15000'),
+  MAINTENANCE_CHECK_TIMEOUT: parseInt(process.env.MAINTENANCE_CHECK_TIMEOUT || '2000'),
+  MAINTENANCE_RETRY_AFTER: parseInt(process.env.MAINTENANCE_RETRY_AFTER || '1800'),
+  MAINTENANCE_BYPASS_ROLES: (process.env.MAINTENANCE_BYPASS_ROLES || 'admin,super_admin')
+    .split(',').map(s => s.trim()).filter(Boolean),
+  MAINTENANCE_ALLOWED_IPS: (process.env.MAINTENANCE_ALLOWED_IPS || '')
+    .split(',').map(s => s.trim()).filter(Boolean),
+
+  // Admin dashboard composition (GET /api/v1/dashboard/stats)
+  DASHBOARD_ROLES: (process.env.DASHBOARD_ROLES || 'admin,super_admin')
+    .split(',').map(s => s.trim()).filter(Boolean),
+  DASHBOARD_SERVICE_TIMEOUT: parseInt(process.env.DASHBOARD_SERVICE_TIMEOUT || '3000'),
+  DASHBOARD_CACHE_TTL: parseInt(process.env.DASHBOARD_CACHE_TTL || '30000'),
+
+  // Circuit breakers for the gateway's own calls to services
+  CIRCUIT_BREAKER_THRESHOLD: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5'),
+  CIRCUIT_BREAKER_TIMEOUT: parseInt(process.env.CIRCUIT_BREAKER_TIMEOUT || '30000'),
+
+  // Runtime module settings ("gateway" module in the settings service)
+  MODULE_SETTINGS_POLL_INTERVAL: parseInt(process.env.MODULE_SETTINGS_POLL_INTERVAL || '30000'),
+
   // CORS Origins (accept both CORS_ORIGINS and CORS_ORIGIN)
   CORS_ORIGINS: (() => {
     const raw = process.env.CORS_ORIGINS || process.env.CORS_ORIGIN || process.env.CORS || '';
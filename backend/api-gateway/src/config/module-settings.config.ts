@@ -0,0 +1,137 @@
+/**
+ * Module Settings Configuration
+ *
+ * Registers the "gateway" module schema (partner API key rate limit) with the settings service and
+ * polls it with If-None-Match, applying changes to the rate limiters without a restart.
+ */
+
+import { config } from '../config.js';
+import {
+  applyRateLimiterConfigs,
+  DEFAULT_RATE_LIMITER_CONFIGS,
+  type RateLimiterConfig,
+  type RateLimiterType,
+} from '../middleware/rate-limiter.js';
+
+const GATEWAY_MODULE_NAME = 'gateway';
+const SCHEMA_VERSION = '2';
+const REQUEST_TIMEOUT_MS = 3000;
+
+// Only the limits the gateway enforces are published: the per-route limiters (createRateLimiter)
+// are not registered in app.ts, so their settings would have no effect
+const RATE_LIMIT_TITLES = {
+  apiKey: 'Chaves de API de parceiros (sem limite próprio)',
+} satisfies Partial<Record<RateLimiterType, string>>;
+
+type PublishedRateLimiterType = keyof typeof RATE_LIMIT_TITLES;
+
+const PUBLISHED_TYPES = Object.keys(RATE_LIMIT_TITLES) as PublishedRateLimiterType[];
+
+const rateLimitSchema = (title: string) => ({
+  type: 'object',
+  title,
+  properties: {
+    points: { type: 'integer', title: 'Pedidos permitidos', minimum: 1, maximum: 100000 },
+    duration: { type: 'integer', title: 'Janela (segundos)', minimum: 1, maximum: 86400 },
+    blockDuration: { type: 'integer', title: 'Bloqueio após exceder (segundos)', minimum: 0, maximum: 86400 },
+  },
+  required: ['points', 'duration', 'blockDuration'],
+  additionalProperties: false,
+});
+
+const GATEWAY_MODULE_SCHEMA = {
+  type: 'object',
+  properties: Object.fromEntries(
+    PUBLISHED_TYPES.map((type) => [type, rateLimitSchema(RATE_LIMIT_TITLES[type])])
+  ),
+  additionalProperties: false,
+};
+
+const GATEWAY_MODULE_DEFAULTS = Object.fromEntries(
+  PUBLISHED_TYPES.map((type) => [type, DEFAULT_RATE_LIMITER_CONFIGS[type]])
+);
+
+let currentETag: string | null = null;
+let schemaRegistered = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Register the schema and start polling. Failures keep the current limits and are retried on the next poll.
+ */
+export async function startModuleSettingsSync(): Promise<void> {
+  if (pollTimer) {
+    return;
+  }
+
+  await syncModuleSettings();
+
+  pollTimer = setInterval(() => {
+    void syncModuleSettings();
+  }, config.MODULE_SETTINGS_POLL_INTERVAL);
+  pollTimer.unref();
+}
+
+export function stopModuleSettingsSync(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+async function syncModuleSettings(): Promise<void> {
+  const baseUrl = `${config.SETTINGS_SERVICE_URL}/api/v1/module-settings`;
+
+  try {
+    if (!schemaRegistered) {
+      await registerSchema(baseUrl);
+      schemaRegistered = true;
+    }
+
+    const response = await fetch(`${baseUrl}/${GATEWAY_MODULE_NAME}`, {
+      headers: currentETag ? { 'If-None-Match': currentETag } : {},
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 304) {
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(`Settings service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as { data?: Partial<Record<RateLimiterType, Partial<RateLimiterConfig>>> };
+    const isFirstLoad = currentETag === null;
+    currentETag = response.headers.get('etag');
+
+    // Values stored under the previous schema version (unpublished limiters) are ignored
+    const data = body.data ?? {};
+    applyRateLimiterConfigs(Object.fromEntries(PUBLISHED_TYPES.map((type) => [type, data[type]])));
+    console.log(`⚙️ Module settings: ${isFirstLoad ? 'loaded' : 'reloaded'} gateway rate limits`);
+  } catch (error) {
+    console.warn('⚠️ Module settings: unable to sync gateway settings:',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+async function registerSchema(baseUrl: string): Promise<void> {
+  // Schema registration is a service-to-service call: the settings service requires the internal key
+  const response = await fetch(`${baseUrl}/schemas/${GATEWAY_MODULE_NAME}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'X-Internal-API-Key': config.INTERNAL_API_KEY },
+    body: JSON.stringify({
+      service: 'api-gateway',
+      version: SCHEMA_VERSION,
+      description: 'Limites de pedidos (rate limiting) aplicados pelo API Gateway',
+      schema: GATEWAY_MODULE_SCHEMA,
+      defaults: GATEWAY_MODULE_DEFAULTS,
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Schema registration failed with ${response.status}`);
+  }
+
+  console.log(`📋 Module settings: registered "${GATEWAY_MODULE_NAME}" schema v${SCHEMA_VERSION}`);
+}
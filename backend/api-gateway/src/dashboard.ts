@@ -0,0 +1,216 @@
+import { FastifyInstance } from 'fastify';
+import { config } from './config.js';
+import { requireRole, type AuthenticatedRequest } from './middleware/auth.middleware.js';
+import { getCircuitBreaker } from './middleware/circuit-breaker.js';
+
+/**
+ * ADMIN DASHBOARD COMPOSITION
+ *
+ * Builds the admin dashboard figures from the users and properties services
+ * in a single request. Services are called in parallel, each behind its
+ * circuit breaker and with its own timeout; a failing service only marks its
+ * section as unavailable instead of turning it into zeros.
+ */
+
+export interface UserStatistics {
+  total: number;
+  active: number;
+  inactive: number;
+  verified: number;
+  unverified: number;
+  recentLogins: number;
+}
+
+export interface PropertyStatistics {
+  total: number;
+  byStatus: {
+    forSale: number;
+    forRent: number;
+    sold: number;
+  };
+  averagePrice: number;
+  medianPrice: number;
+}
+
+export interface ModerationStatistics {
+  pendingReview: number;       // SUBMITTED
+  awaitingPublication: number; // APPROVED
+  rejected: number;
+}
+
+export interface ViewStatistics {
+  days: number;
+  views: number;
+  uniqueVisitors: number;
+  contacts: number | null;
+  conversionRate: number | null;
+}
+
+export type DashboardSection<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'unavailable'; data: null; reason: string };
+
+export interface DashboardStats {
+  users: DashboardSection<UserStatistics>;
+  properties: DashboardSection<PropertyStatistics>;
+  moderation: DashboardSection<ModerationStatistics>;
+  views: DashboardSection<ViewStatistics>;
+  generatedAt: string;
+}
+
+const VIEW_WINDOW_DAYS = 30;
+
+let cachedStats: { stats: DashboardStats; expiresAt: number } | null = null;
+let pendingBuild: Promise<DashboardStats> | null = null;
+
+export async function setupDashboard(app: FastifyInstance) {
+  app.get('/api/v1/dashboard/stats', {
+    preHandler: requireRole(config.DASHBOARD_ROLES),
+  }, async (request) => {
+    const { stats, cached } = await getDashboardStats(request as unknown as AuthenticatedRequest);
+    const unavailable = (['users', 'properties', 'moderation', 'views'] as const)
+      .filter((section) => stats[section].status === 'unavailable');
+
+    return {
+      success: true,
+      data: stats,
+      meta: {
+        timestamp: new Date().toISOString(),
+        cached,
+        partial: unavailable.length > 0,
+        unavailable,
+      },
+    };
+  });
+}
+
+/**
+ * Returns the cached figures while fresh; concurrent requests share a single build.
+ * The figures are platform-wide, so the cache is shared by every administrator.
+ */
+async function getDashboardStats(request: AuthenticatedRequest): Promise<{ stats: DashboardStats; cached: boolean }> {
+  if (cachedStats && Date.now() < cachedStats.expiresAt) {
+    return { stats: cachedStats.stats, cached: true };
+  }
+
+  if (!pendingBuild) {
+    pendingBuild = buildDashboardStats(forwardedHeaders(request))
+      .then((stats) => {
+        // Partial results are cached for a shorter time so a recovered service shows up quickly
+        const partial = [stats.users, stats.properties, stats.moderation, stats.views]
+          .some((section) => section.status === 'unavailable');
+        const ttl = partial ? Math.min(config.DASHBOARD_CACHE_TTL, 5000) : config.DASHBOARD_CACHE_TTL;
+        cachedStats = { stats, expiresAt: Date.now() + ttl };
+        return stats;
+      })
+      .finally(() => {
+        pendingBuild = null;
+      });
+  }
+
+  return { stats: await pendingBuild, cached: false };
+}
+
+async function buildDashboardStats(headers: Record<string, string>): Promise<DashboardStats> {
+  const to = new Date();
+  const from = new Date(to.getTime() - VIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const viewsRange = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+
+  const [users, properties, moderation, views] = await Promise.all([
+    loadSection('users-service', `${config.USERS_SERVICE_URL}/api/v1/users/statistics`, headers, (data: any) => ({
+      total: requireNumber(data?.total),
+      active: requireNumber(data?.active),
+      inactive: requireNumber(data?.inactive),
+      verified: requireNumber(data?.verified),
+      unverified: requireNumber(data?.unverified),
+      recentLogins: requireNumber(data?.recentLogins),
+    })),
+    loadSection('properties-service', `${config.PROPERTIES_SERVICE_URL}/api/v1/properties-stats`, headers, (data: any) => ({
+      total: requireNumber(data?.total),
+      byStatus: {
+        forSale: requireNumber(data?.byStatus?.forSale),
+        forRent: requireNumber(data?.byStatus?.forRent),
+        sold: requireNumber(data?.byStatus?.sold),
+      },
+      averagePrice: requireNumber(data?.pricing?.average),
+      medianPrice: requireNumber(data?.pricing?.median),
+    })),
+    loadSection('properties-service', `${config.PROPERTIES_SERVICE_URL}/api/v1/moderation/queue?limit=1`, headers, (_data, body) => ({
+      pendingReview: requireNumber(body?.counts?.SUBMITTED),
+      awaitingPublication: requireNumber(body?.counts?.APPROVED),
+      rejected: requireNumber(body?.counts?.REJECTED),
+    })),
+    loadSection('properties-service', `${config.PROPERTIES_SERVICE_URL}/api/v1/property-analytics/views?${viewsRange}`, headers, (data: any) => ({
+      days: VIEW_WINDOW_DAYS,
+      views: requireNumber(data?.views),
+      uniqueVisitors: requireNumber(data?.uniqueVisitors),
+      contacts: typeof data?.contacts === 'number' ? data.contacts : null,
+      conversionRate: typeof data?.conversionRate === 'number' ? data.conversionRate : null,
+    })),
+  ]);
+
+  return { users, properties, moderation, views, generatedAt: new Date().toISOString() };
+}
+
+/**
+ * Calls one service through its circuit breaker; any failure (timeout, open circuit,
+ * error status, unexpected payload) marks the section as unavailable
+ */
+async function loadSection<T>(
+  serviceName: string,
+  url: string,
+  headers: Record<string, string>,
+  map: (data: any, body: any) => T
+): Promise<DashboardSection<T>> {
+  const breaker = getCircuitBreaker(serviceName, {
+    threshold: config.CIRCUIT_BREAKER_THRESHOLD,
+    timeout: config.CIRCUIT_BREAKER_TIMEOUT,
+  });
+
+  try {
+    const data = await breaker.execute(async () => {
+      const response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(config.DASHBOARD_SERVICE_TIMEOUT),
+      });
+      if (!response.ok) {
+        throw new Error(`${serviceName} responded with ${response.status}`);
+      }
+
+      const body = await response.json() as any;
+      return map(body?.data, body);
+    });
+
+    return { status: 'ok', data };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`⚠️ Dashboard: ${serviceName} unavailable (${url}):`, reason);
+    return { status: 'unavailable', data: null, reason };
+  }
+}
+
+// The admin endpoints behind the dashboard check the caller's identity headers
+function forwardedHeaders(request: AuthenticatedRequest): Record<string, string> {
+  const headers: Record<string, string> = {
+    'accept': 'application/json',
+    'x-forwarded-by': 'api-gateway',
+  };
+
+  if (request.user) {
+    headers['x-user-id'] = request.user.id;
+    headers['x-user-email'] = request.user.email;
+    headers['x-user-role'] = request.user.role;
+  }
+  if (request.headers.authorization) {
+    headers['authorization'] = request.headers.authorization;
+  }
+
+  return headers;
+}
+
+function requireNumber(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error('Unexpected response payload');
+  }
+  return value;
+}
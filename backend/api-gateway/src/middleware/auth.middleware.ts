@@ -1,5 +1,7 @@
+import { createHash } from 'crypto';
 import jwt from 'jsonwebtoken';
 import { config } from '../config.js';
+import { consumeApiKeyRateLimit } from './rate-limiter.js';
 const { verify: verifyJwt } = jwt as unknown as { verify: typeof jwt.verify };
 
 export interface JWTPayload {
@@ -29,9 +31,26 @@ export interface AuthenticatedRequest {
 
 export interface FastifyReply {
   status: (code: number) => FastifyReply;
+  header: (name: string, value: any) => FastifyReply;
   send: (payload?: any) => FastifyReply;
 }
 
+/**
+ * Partner API key identity returned by the auth service
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  permissions: string[];
+  scopes: string[];
+  rateLimit?: number;
+  expiresAt?: string | null;
+}
+
+// Successful verifications by key hash, so the auth service (and its database) is not hit on every request
+const verifiedApiKeys = new Map<string, { principal: ApiKeyPrincipal; expiresAt: number }>();
+const MAX_CACHED_API_KEYS = 1000;
+
 /**
  * JWT Authentication middleware for API Gateway
  * Validates JWT tokens and sets user context
@@ -46,6 +65,13 @@ export async function authenticateJWT(
       return;
     }
 
+    // Machine access for partners: API key instead of a user JWT (also on public routes)
+    const apiKey = request.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey && !request.headers.authorization) {
+      await authenticateApiKey(request, reply, apiKey);
+      return;
+    }
+
     // Debug logging for uploads routes
     if (request.url.startsWith('/uploads')) {
       console.log(`🔍 Auth Debug: Checking uploads route: ${request.method} ${request.url}`);
@@ -56,6 +82,8 @@ export async function authenticateJWT(
       if (request.url.startsWith('/uploads')) {
         console.log(`✅ Auth Debug: Uploads route is public, skipping auth`);
       }
+      // Identify logged-in callers anyway so services can personalise public data
+      attachOptionalUser(request);
       return;
     }
     
@@ -126,6 +154,227 @@ export async function authenticateJWT(
   }
 }
 
+// Permission action an API key needs for each HTTP method (scopes read/write/delete map onto these)
+const API_KEY_METHOD_PERMISSIONS: Record<string, string> = {
+  GET: 'read',
+  HEAD: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+/**
+ * Permission an API key needs for a request, "<resource>.<action>" with the resource
+ * taken from /api/v1/<resource>/... (e.g. GET /api/v1/properties -> properties.read).
+ * Null when the request is outside the versioned API.
+ */
+export function requiredApiKeyPermission(url: string, method: string): string | null {
+  const resource = /^\/api\/v1\/([a-z][a-z0-9-]*)/i.exec(url)?.[1];
+  const action = API_KEY_METHOD_PERMISSIONS[method.toUpperCase()];
+
+  if (!resource || !action) {
+    return null;
+  }
+
+  return `${resource.toLowerCase().replace(/-/g, '_')}.${action}`;
+}
+
+/**
+ * Authenticates a partner API key against the auth service and applies its rate limit.
+ * Scopes are already mapped to permissions by the auth service; requests outside them get a 403.
+ */
+async function authenticateApiKey(
+  request: AuthenticatedRequest,
+  reply: FastifyReply,
+  apiKey: string
+): Promise<void> {
+  const requestId = (request as any).requestContext?.requestId;
+
+  let principal: ApiKeyPrincipal | null;
+  try {
+    principal = await verifyApiKey(apiKey);
+  } catch (error) {
+    console.error(`❌ API key verification unavailable for ${request.method} ${request.url}:`,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+
+    reply.status(503).send({
+      success: false,
+      error: {
+        code: 'AUTH_SERVICE_UNAVAILABLE',
+        message: 'Unable to verify API key, please try again later'
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId,
+      }
+    });
+    return;
+  }
+
+  if (!principal) {
+    console.warn(`🚫 API key rejected for ${request.method} ${request.url}`);
+
+    reply.status(401).send({
+      success: false,
+      error: {
+        code: 'INVALID_API_KEY',
+        message: 'Invalid, revoked or expired API key'
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId,
+      }
+    });
+    return;
+  }
+
+  const rateLimit = await consumeApiKeyRateLimit(principal.id, principal.rateLimit);
+  const resetSeconds = Math.round(rateLimit.msBeforeNext / 1000);
+
+  reply.header('X-RateLimit-Limit', rateLimit.limit);
+  reply.header('X-RateLimit-Remaining', rateLimit.remaining);
+  reply.header('X-RateLimit-Reset', new Date(Date.now() + rateLimit.msBeforeNext).toISOString());
+
+  if (!rateLimit.allowed) {
+    reply.header('Retry-After', resetSeconds || 1);
+    reply.status(429).send({
+      error: 'Too many requests',
+      message: `Rate limit exceeded. Please try again in ${resetSeconds} seconds.`,
+      retryAfter: resetSeconds
+    });
+    return;
+  }
+
+  // Outside the versioned API keys only reach the public routes (health checks, uploads)
+  const requiredPermission = requiredApiKeyPermission(request.url, request.method);
+  const inScope = requiredPermission
+    ? principal.permissions.includes('*') || principal.permissions.includes(requiredPermission)
+    : isPublicRoute(request.url, request.method);
+
+  if (!inScope) {
+    console.warn(`🚫 API key ${principal.name} out of scope for ${request.method} ${request.url}`);
+
+    reply.status(403).send({
+      success: false,
+      error: {
+        code: 'INSUFFICIENT_SCOPE',
+        message: 'This API key is not allowed to access this resource'
+      },
+      meta: {
+        requiredPermissions: requiredPermission ? [requiredPermission] : [],
+        timestamp: new Date().toISOString(),
+        requestId,
+      }
+    });
+    return;
+  }
+
+  request.user = {
+    id: `api-key-${principal.id}`,
+    email: `api-key-${principal.name}`,
+    role: 'api_key',
+    permissions: principal.permissions,
+  };
+
+  if (config.ENABLE_DETAILED_LOGGING) {
+    console.log(`✅ API Key Auth: ${principal.name} authenticated for ${request.method} ${request.url}`);
+  }
+}
+
+/**
+ * Verifies an API key with the auth service (which also tracks its usage).
+ * Valid keys are cached for API_KEY_CACHE_TTL, so usage is recorded at most once per TTL
+ * and a revoked key keeps working for that long at most.
+ * Resolves to null for rejected keys and throws when the auth service is unreachable.
+ */
+async function verifyApiKey(apiKey: string): Promise<ApiKeyPrincipal | null> {
+  const cacheKey = createHash('sha256').update(apiKey).digest('hex');
+  const cached = verifiedApiKeys.get(cacheKey);
+
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.principal;
+  }
+  verifiedApiKeys.delete(cacheKey);
+
+  const principal = await fetchApiKeyPrincipal(apiKey);
+
+  if (principal && config.API_KEY_CACHE_TTL > 0) {
+    if (verifiedApiKeys.size >= MAX_CACHED_API_KEYS) {
+      verifiedApiKeys.delete(verifiedApiKeys.keys().next().value as string);
+    }
+
+    const keyExpiresAt = principal.expiresAt ? Date.parse(principal.expiresAt) : Infinity;
+    verifiedApiKeys.set(cacheKey, {
+      principal,
+      expiresAt: Math.min(Date.now() + config.API_KEY_CACHE_TTL, keyExpiresAt),
+    });
+  }
+
+  return principal;
+}
+
+/**
+ * Drops every cached API key verification
+ */
+export function clearApiKeyCache(): void {
+  verifiedApiKeys.clear();
+}
+
+async function fetchApiKeyPrincipal(apiKey: string): Promise<ApiKeyPrincipal | null> {
+  const response = await fetch(`${config.AUTH_SERVICE_URL}/internal/v1/api-keys/verify`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Internal-API-Key': config.INTERNAL_API_KEY,
+    },
+    body: JSON.stringify({ key: apiKey }),
+    signal: AbortSignal.timeout(config.API_KEY_VERIFY_TIMEOUT),
+  });
+
+  if (response.status === 400 || response.status === 401) {
+    return null;
+  }
+
+  // 403 means the gateway's own INTERNAL_API_KEY was refused (misconfiguration)
+  if (!response.ok) {
+    throw new Error(`Auth service responded with ${response.status}`);
+  }
+
+  const body = await response.json() as { data: ApiKeyPrincipal };
+  return body.data;
+}
+
+/**
+ * Sets request.user from a valid Bearer token on public routes.
+ * Missing or invalid tokens are ignored: the request stays anonymous.
+ */
+function attachOptionalUser(request: AuthenticatedRequest): void {
+  const authHeader = request.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return;
+  }
+
+  try {
+    const decoded = verifyJwt(authHeader.substring(7), getJWTSecret(), {
+      issuer: 'ribeirazul-auth-service',
+      audience: 'ribeirazul-api',
+    }) as JWTPayload;
+
+    if (decoded?.sub) {
+      request.user = {
+        id: decoded.sub,
+        email: decoded.email,
+        role: decoded.role,
+        permissions: decoded.permissions || [],
+      };
+    }
+  } catch {
+    // Anonymous access is allowed on public routes
+  }
+}
+
 /**
  * Check if the route is public (doesn't require authentication)
  */
@@ -141,19 +390,41 @@ function isPublicRoute(url: string, method: string): boolean {
   if (url.startsWith('/api/v1/auth/')) {
     return true;
   }
+
+  // Maintenance status (polled by the frontend while the platform is down)
+  if (url.startsWith('/api/v1/settings/maintenance') && method === 'GET') {
+    return true;
+  }
   
   // Public properties endpoints (including query parameters)
   if (url.startsWith('/api/v1/properties') && method === 'GET') {
     // Allow /api/v1/properties, /api/v1/properties?limit=12, /api/v1/properties/search, etc.
     return true;
   }
-  
+
+  // Listing view beacon (anonymous visitors are tracked by IP)
+  if (method === 'POST' && /^\/api\/v1\/properties\/[^/]+\/views\/?(\?.*)?$/.test(url)) {
+    return true;
+  }
+
+  // Public portfolio projects (mutations still require a token)
+  if (url.startsWith('/api/v1/projects') && method === 'GET') {
+    return true;
+  }
+
   // Public contact form endpoint (messages service)
   if (url.startsWith('/api/v1/messages') && method === 'POST') {
     // Allow public contact form submissions
     return true;
   }
   
+  // Media objects and transforms of the public buckets only; transform URLs carry their own HMAC signature
+  // (objects/signed-url and every other bucket stay private)
+  const mediaObject = /^\/api\/v1\/media\/(?!objects\/|signed-url\/)([a-z0-9][a-z0-9.-]*)\/[^?]+/.exec(url);
+  if (method === 'GET' && mediaObject && config.MEDIA_PUBLIC_BUCKETS.includes(mediaObject[1]!)) {
+    return true;
+  }
+
   // UPLOADS - Most important fix
   if (method === 'GET' && (url === '/uploads' || url.startsWith('/uploads/'))) {
     console.log(`✅ Auth: ${url} is a public upload route`);
@@ -0,0 +1,183 @@
+import { config } from '../config.js';
+import type { AuthenticatedRequest, FastifyReply } from './auth.middleware.js';
+
+/**
+ * Maintenance state published by the settings service
+ */
+export interface MaintenanceState {
+  maintenanceMode: boolean;
+  maintenanceMessage: string | null;
+  checkedAt: number;
+}
+
+const DEFAULT_MAINTENANCE_MESSAGE = 'The platform is temporarily unavailable for scheduled maintenance';
+
+// Routes that stay reachable during maintenance (admins still need to log in)
+const MAINTENANCE_EXEMPT_PREFIXES = ['/api/v1/auth/', '/api/v1/settings/maintenance'];
+
+let cachedState: MaintenanceState | null = null;
+let pendingRefresh: Promise<MaintenanceState | null> | null = null;
+
+/**
+ * Maintenance mode middleware for API Gateway
+ * Must run after authentication so admins can be recognised and let through
+ */
+export async function enforceMaintenanceMode(
+  request: AuthenticatedRequest,
+  reply: FastifyReply
+): Promise<void> {
+  // Preflight requests and requests already answered by authentication
+  if (request.method === 'OPTIONS' || (reply as any).sent) {
+    return;
+  }
+
+  if (isExemptRoute(request.url)) {
+    return;
+  }
+
+  const state = await getMaintenanceState();
+  if (!state?.maintenanceMode) {
+    return;
+  }
+
+  if (isMaintenanceBypassUser(request) || isAllowedIp((request as any).ip)) {
+    reply.header('X-Maintenance-Mode', 'bypass');
+    return;
+  }
+
+  if (config.ENABLE_DETAILED_LOGGING) {
+    console.log(`🚧 Maintenance: blocked ${request.method} ${request.url}`);
+  }
+
+  reply.header('Retry-After', config.MAINTENANCE_RETRY_AFTER);
+  reply.status(503).send({
+    success: false,
+    error: {
+      code: 'MAINTENANCE_MODE',
+      message: state.maintenanceMessage || DEFAULT_MAINTENANCE_MESSAGE,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+      requestId: (request as any).requestContext?.requestId,
+      retryAfter: config.MAINTENANCE_RETRY_AFTER,
+    }
+  });
+}
+
+/**
+ * Returns the cached maintenance state, refreshing it from the settings service when stale.
+ * If the settings service is unreachable the last known state is kept (open when never known).
+ */
+export async function getMaintenanceState(): Promise<MaintenanceState | null> {
+  if (cachedState && Date.now() - cachedState.checkedAt < config.MAINTENANCE_CACHE_TTL) {
+    return cachedState;
+  }
+
+  // Concurrent requests share a single lookup
+  if (!pendingRefresh) {
+    pendingRefresh = fetchMaintenanceState()
+      .then((state) => {
+        cachedState = state;
+        return state;
+      })
+      .catch((error) => {
+        console.warn('⚠️ Maintenance: unable to refresh state from settings service:',
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+        // Avoid hammering the settings service: retry after a full TTL
+        if (cachedState) {
+          cachedState = { ...cachedState, checkedAt: Date.now() };
+        }
+        return cachedState;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+
+  return pendingRefresh;
+}
+
+async function fetchMaintenanceState(): Promise<MaintenanceState> {
+  const response = await fetch(`${config.SETTINGS_SERVICE_URL}/api/v1/settings/maintenance`, {
+    headers: { 'Accept': 'application/json' },
+    signal: AbortSignal.timeout(config.MAINTENANCE_CHECK_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Settings service responded with ${response.status}`);
+  }
+
+  const body = await response.json() as {
+    data: { maintenanceMode: boolean; maintenanceMessage?: string | null };
+  };
+
+  return {
+    maintenanceMode: !!body.data?.maintenanceMode,
+    maintenanceMessage: body.data?.maintenanceMessage || null,
+    checkedAt: Date.now(),
+  };
+}
+
+function isExemptRoute(url: string): boolean {
+  if (url === '/health' || url === '/') {
+    return true;
+  }
+
+  return MAINTENANCE_EXEMPT_PREFIXES.some(prefix => url.startsWith(prefix));
+}
+
+function isMaintenanceBypassUser(request: AuthenticatedRequest): boolean {
+  if (!request.user) {
+    return false;
+  }
+
+  return config.MAINTENANCE_BYPASS_ROLES.includes(request.user.role)
+    || request.user.permissions.includes('*');
+}
+
+/**
+ * Matches the client IP against the allowlist (exact addresses or IPv4 CIDR ranges)
+ */
+function isAllowedIp(ip?: string): boolean {
+  if (!ip || config.MAINTENANCE_ALLOWED_IPS.length === 0) {
+    return false;
+  }
+
+  const address = ip.startsWith('::ffff:') ? ip.substring(7) : ip;
+
+  return config.MAINTENANCE_ALLOWED_IPS.some((entry) => {
+    if (!entry.includes('/')) {
+      return entry === address;
+    }
+
+    const [range, bitsRaw] = entry.split('/');
+    const bits = parseInt(bitsRaw || '', 10);
+    const rangeValue = ipv4ToNumber(range || '');
+    const addressValue = ipv4ToNumber(address);
+    if (rangeValue === null || addressValue === null || isNaN(bits) || bits < 0 || bits > 32) {
+      return false;
+    }
+
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((rangeValue & mask) >>> 0) === ((addressValue & mask) >>> 0);
+  });
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d+$/.test(part) || octet > 255) {
+      return null;
+    }
+    value = value * 256 + octet;
+  }
+
+  return value;
+}
@@ -2,8 +2,14 @@ import { FastifyReply, FastifyRequest } from 'fastify';
 import Redis from 'ioredis';
 import { RateLimiterMemory, RateLimiterRedis } from 'rate-limiter-flexible';
 
-// Rate limiter configurations for different endpoints
-const rateLimiterConfigs = {
+export interface RateLimiterConfig {
+  points: number;
+  duration: number;
+  blockDuration: number;
+}
+
+// Default rate limiter configurations for different endpoints
+export const DEFAULT_RATE_LIMITER_CONFIGS = {
   // General API endpoints
   general: {
     points: 100,        // Number of requests
@@ -33,12 +39,28 @@ const rateLimiterConfigs = {
     points: 200,
     duration: 60,
     blockDuration: 10,
+  },
+  // Partner API keys without their own limit
+  apiKey: {
+    points: 60,
+    duration: 60,
+    blockDuration: 0,
   }
-};
+} satisfies Record<string, RateLimiterConfig>;
+
+export type RateLimiterType = keyof typeof DEFAULT_RATE_LIMITER_CONFIGS;
+
+// Active configurations, overridable at runtime from the "gateway" module settings
+const rateLimiterConfigs: Record<RateLimiterType, RateLimiterConfig> = structuredClone(DEFAULT_RATE_LIMITER_CONFIGS);
 
 // Initialize rate limiters
 const rateLimiters: Map<string, RateLimiterMemory | RateLimiterRedis> = new Map();
 
+// Partner API keys with their own limit, one limiter per requests-per-minute value
+const apiKeyRateLimiters: Map<number, RateLimiterMemory | RateLimiterRedis> = new Map();
+let apiKeyStoreClient: Redis | null = null;
+let usingRedis = false;
+
 // Initialize Redis client if available
 let redisClient: Redis | null = null;
 if (process.env.REDIS_URL) {
@@ -70,6 +92,9 @@ function initMemoryRateLimiters() {
   Object.entries(rateLimiterConfigs).forEach(([key, config]) => {
     rateLimiters.set(key, new RateLimiterMemory(config));
   });
+  apiKeyStoreClient = null;
+  apiKeyRateLimiters.clear();
+  usingRedis = false;
   console.log('Using in-memory rate limiters');
 }
 
@@ -84,9 +109,28 @@ function initRedisRateLimiters() {
     };
     rateLimiters.set(key, new RateLimiterRedis(options));
   });
+  apiKeyStoreClient = redisClient;
+  apiKeyRateLimiters.clear();
+  usingRedis = true;
   console.log('Using Redis rate limiters');
 }
 
+/**
+ * Replace the active limits (hot reload from module settings).
+ * Limiters are rebuilt, so in-memory counters start over; Redis counters keep their keys.
+ */
+export function applyRateLimiterConfigs(overrides: Partial<Record<RateLimiterType, Partial<RateLimiterConfig>>>) {
+  (Object.keys(DEFAULT_RATE_LIMITER_CONFIGS) as RateLimiterType[]).forEach((type) => {
+    rateLimiterConfigs[type] = { ...DEFAULT_RATE_LIMITER_CONFIGS[type], ...overrides[type] };
+  });
+
+  if (usingRedis) {
+    initRedisRateLimiters();
+  } else {
+    initMemoryRateLimiters();
+  }
+}
+
 // Get client identifier (IP + user ID if authenticated)
 function getClientId(request: FastifyRequest): string {
   const ip = request.ip || (request.socket as any)?.remoteAddress || 'unknown';
@@ -95,7 +139,7 @@ function getClientId(request: FastifyRequest): string {
 }
 
 // Rate limiter middleware factory
-export function createRateLimiter(type: keyof typeof rateLimiterConfigs = 'general') {
+export function createRateLimiter(type: RateLimiterType = 'general') {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     const limiter = rateLimiters.get(type);
 
@@ -131,18 +175,67 @@ export function createRateLimiter(type: keyof typeof rateLimiterConfigs = 'gener
   };
 }
 
+export interface ApiKeyRateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  msBeforeNext: number;
+}
+
+function getApiKeyRateLimiter(points: number): RateLimiterMemory | RateLimiterRedis {
+  let limiter = apiKeyRateLimiters.get(points);
+
+  if (!limiter) {
+    const options = {
+      points,
+      duration: 60,
+      keyPrefix: `rl:apikey:${points}:`,
+    };
+    limiter = apiKeyStoreClient
+      ? new RateLimiterRedis({ ...options, storeClient: apiKeyStoreClient })
+      : new RateLimiterMemory(options);
+    apiKeyRateLimiters.set(points, limiter);
+  }
+
+  return limiter;
+}
+
+// Per-key rate limiting for partner API keys (limit in requests per minute)
+export async function consumeApiKeyRateLimit(apiKeyId: string, rateLimit?: number): Promise<ApiKeyRateLimitResult> {
+  const limit = rateLimit ?? rateLimiterConfigs.apiKey.points;
+  const limiter = rateLimit ? getApiKeyRateLimiter(rateLimit) : rateLimiters.get('apiKey');
+
+  if (!limiter) {
+    console.error('Rate limiter not found for type: apiKey');
+    return { allowed: true, limit, remaining: limit, msBeforeNext: 0 };
+  }
+
+  try {
+    const rateLimiterRes = await limiter.consume(apiKeyId);
+    return { allowed: true, limit, remaining: rateLimiterRes.remainingPoints, msBeforeNext: rateLimiterRes.msBeforeNext };
+  } catch (rateLimiterRes: any) {
+    if (rateLimiterRes instanceof Error) {
+      // Store failures should not lock partners out
+      console.error('API key rate limiter error:', rateLimiterRes);
+      return { allowed: true, limit, remaining: limit, msBeforeNext: 0 };
+    }
+
+    return { allowed: false, limit, remaining: rateLimiterRes.remainingPoints || 0, msBeforeNext: rateLimiterRes.msBeforeNext };
+  }
+}
+
 // Dynamic rate limiting based on user role
 export function createDynamicRateLimiter() {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     const user = (request as any).user;
-    let type: keyof typeof rateLimiterConfigs = 'general';
+    let type: RateLimiterType = 'general';
 
     // Determine rate limit type based on user role and endpoint
     if (request.url.startsWith('/api/auth')) {
       type = 'auth';
     } else if (request.url.startsWith('/api/admin') && user?.role === 'ADMIN') {
       type = 'admin';
-    } else if (request.url.includes('/upload') || request.url.includes('/media')) {
+    } else if (request.url.includes('/upload') || (request.url.includes('/media') && request.method !== 'GET')) {
       type = 'upload';
     } else if (request.url.includes('/search') || request.url.includes('/properties')) {
       type = 'search';
@@ -163,9 +256,9 @@ export async function getRateLimitStatus(request: FastifyRequest, reply: Fastify
     try {
       const result = await limiter.get(clientId);
       status[type] = {
-        points: rateLimiterConfigs[type as keyof typeof rateLimiterConfigs].points,
+        points: rateLimiterConfigs[type as RateLimiterType].points,
         consumed: result?.consumedPoints || 0,
-        remaining: (rateLimiterConfigs[type as keyof typeof rateLimiterConfigs].points - (result?.consumedPoints || 0)),
+        remaining: (rateLimiterConfigs[type as RateLimiterType].points - (result?.consumedPoints || 0)),
         resetTime: result?.msBeforeNext ? new Date(Date.now() + result.msBeforeNext).toISOString() : null
       };
     } catch (error) {
@@ -15,6 +15,26 @@ export async function setupProxy(app: FastifyInstance) {
     console.log('🔧 Setting up PRODUCTION-READY proxy...');
   }
 
+  // Identity headers are only trusted from the gateway: drop any the client sent
+  // and set them again from the verified token
+  const applyUserHeaders = (originalReq: any, headers: IncomingHttpHeaders) => {
+    for (const name of Object.keys(headers)) {
+      if (name.toLowerCase().startsWith('x-user-')) {
+        delete headers[name];
+      }
+    }
+
+    if (originalReq.user) {
+      headers['x-user-id'] = originalReq.user.id;
+      headers['x-user-email'] = originalReq.user.email;
+      headers['x-user-role'] = originalReq.user.role;
+      // Services authorise API keys by their permissions rather than by role
+      if (originalReq.user.role === 'api_key') {
+        headers['x-user-permissions'] = originalReq.user.permissions.join(',');
+      }
+    }
+  };
+
   // Standard header processing for all proxies
   const standardHeaderProcessor = (originalReq: any, headers: IncomingHttpHeaders) => {
     // Prefer any existing X-Forwarded-Proto header from the front proxy (may be lower/upper case)
@@ -28,11 +48,7 @@ export async function setupProxy(app: FastifyInstance) {
     };
     
     // Pass authenticated user information to backend services
-    if (originalReq.user) {
-      processedHeaders['x-user-id'] = originalReq.user.id;
-      processedHeaders['x-user-email'] = originalReq.user.email;
-      processedHeaders['x-user-role'] = originalReq.user.role;
-    }
+    applyUserHeaders(originalReq, processedHeaders);
     
     // CRITICAL: Preserve multipart/form-data Content-Type for file uploads
     const originalContentType = headers['content-type'];
@@ -62,6 +78,19 @@ export async function setupProxy(app: FastifyInstance) {
 
   // 2. USERS SERVICE PROXY (Admin Management)
   // Note: Register specific routes before wildcard routes to avoid conflicts
+  // Admin communications and bulk imports are handled by the auth service
+  for (const path of ['/api/v1/users/communication', '/api/v1/users/import-jobs', '/api/v1/users/bulk-import']) {
+    await app.register(import('@fastify/http-proxy'), {
+      upstream: config.AUTH_SERVICE_URL,
+      prefix: path,
+      websocket: false,
+      rewritePrefix: path,
+      replyOptions: {
+        rewriteRequestHeaders: standardHeaderProcessor,
+      }
+    });
+  }
+
   await app.register(import('@fastify/http-proxy'), {
     upstream: config.USERS_SERVICE_URL,
     prefix: '/api/v1/users',
@@ -109,14 +138,11 @@ export async function setupProxy(app: FastifyInstance) {
   const minimalAuthHeaderProcessor = (originalReq: any, headers: IncomingHttpHeaders) => {
     const processedHeaders: IncomingHttpHeaders = {
       ...headers, // Preserve ALL original headers including Content-Type
+      'x-forwarded-for': originalReq.ip, // Client address as resolved by the gateway, never the client's own header
     };
     
     // Only add auth headers
-    if (originalReq.user) {
-      processedHeaders['x-user-id'] = originalReq.user.id;
-      processedHeaders['x-user-email'] = originalReq.user.email;
-      processedHeaders['x-user-role'] = originalReq.user.role;
-    }
+    applyUserHeaders(originalReq, processedHeaders);
     
     // DO NOT remove any headers - preserve everything for multipart
     return processedHeaders;
@@ -143,6 +169,28 @@ export async function setupProxy(app: FastifyInstance) {
     }
   });
 
+  // 7b. PROPERTY ANALYTICS PROXY (admin view analytics)
+  await app.register(import('@fastify/http-proxy'), {
+    upstream: config.PROPERTIES_SERVICE_URL,
+    prefix: '/api/v1/property-analytics',
+    websocket: false,
+    rewritePrefix: '/api/v1/property-analytics',
+    replyOptions: {
+      rewriteRequestHeaders: standardHeaderProcessor,
+    }
+  });
+
+  // 7c. LISTING MODERATION PROXY (review queue)
+  await app.register(import('@fastify/http-proxy'), {
+    upstream: config.PROPERTIES_SERVICE_URL,
+    prefix: '/api/v1/moderation',
+    websocket: false,
+    rewritePrefix: '/api/v1/moderation',
+    replyOptions: {
+      rewriteRequestHeaders: standardHeaderProcessor,
+    }
+  });
+
   // 8. MEDIA SERVICE PROXY
   await app.register(import('@fastify/http-proxy'), {
     upstream: config.MEDIA_SERVICE_URL,
@@ -198,12 +246,12 @@ export async function setupProxy(app: FastifyInstance) {
     }
   });
 
-  // 13. SAVED PROPERTIES PROXY
+  // 13. FAVORITES PROXY (saved properties live in the properties service)
   await app.register(import('@fastify/http-proxy'), {
-    upstream: config.USERS_SERVICE_URL,
-    prefix: '/api/v1/saved-properties',
+    upstream: config.PROPERTIES_SERVICE_URL,
+    prefix: '/api/v1/favorites',
     websocket: false,
-    rewritePrefix: '/api/v1/saved-properties',
+    rewritePrefix: '/api/v1/favorites',
     replyOptions: {
       rewriteRequestHeaders: standardHeaderProcessor,
     }
@@ -273,9 +321,42 @@ export async function setupProxy(app: FastifyInstance) {
     }
   });
 
+  // 20. SAVED SEARCHES PROXY (property alerts)
+  await app.register(import('@fastify/http-proxy'), {
+    upstream: config.USERS_SERVICE_URL,
+    prefix: '/api/v1/saved-searches',
+    websocket: false,
+    rewritePrefix: '/api/v1/saved-searches',
+    replyOptions: {
+      rewriteRequestHeaders: standardHeaderProcessor,
+    }
+  });
+
+  // 21. API KEYS PROXY (partner key management lives in the auth service)
+  await app.register(import('@fastify/http-proxy'), {
+    upstream: config.AUTH_SERVICE_URL,
+    prefix: '/api/v1/api-keys',
+    websocket: false,
+    rewritePrefix: '/api/v1/api-keys',
+    replyOptions: {
+      rewriteRequestHeaders: standardHeaderProcessor,
+    }
+  });
+
+  // 22. CONVERSATIONS PROXY (staff replies to contacts; unlike the contact form, always authenticated)
+  await app.register(import('@fastify/http-proxy'), {
+    upstream: config.MESSAGES_SERVICE_URL,
+    prefix: '/api/v1/conversations',
+    websocket: false,
+    rewritePrefix: '/api/v1/conversations',
+    replyOptions: {
+      rewriteRequestHeaders: standardHeaderProcessor,
+    }
+  });
+
   if (config.ENABLE_DETAILED_LOGGING) {
     console.log('✅ PRODUCTION-READY proxy configured for ALL services');
-    console.log('📍 Total Proxies Configured: 19');
+    console.log('📍 Total Proxies Configured: 25');
     console.log(`📍 Auth Service: ${config.AUTH_SERVICE_URL}`);
     console.log(`📍 Users Service: ${config.USERS_SERVICE_URL}`);
     console.log(`📍 Properties Service: ${config.PROPERTIES_SERVICE_URL}`);
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../middleware/rate-limiter.js', () => ({
+  consumeApiKeyRateLimit: vi.fn(),
+}));
+
+import { authenticateJWT, clearApiKeyCache, requiredApiKeyPermission, type AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { consumeApiKeyRateLimit } from '../middleware/rate-limiter.js';
+
+const PRINCIPAL = {
+  id: 'key-1',
+  name: 'partner-portal',
+  permissions: ['properties.read', 'messages.create'],
+  scopes: ['read:properties'],
+  rateLimit: 60,
+};
+
+function createRequest(method: string, url: string, headers: Record<string, string> = {}): AuthenticatedRequest {
+  return { method, url, headers: { 'x-api-key': 'rk_live_test', ...headers } };
+}
+
+function createReply() {
+  const reply = {
+    statusCode: 200,
+    headers: {} as Record<string, unknown>,
+    payload: undefined as any,
+    status(code: number) {
+      reply.statusCode = code;
+      return reply;
+    },
+    header(name: string, value: unknown) {
+      reply.headers[name] = value;
+      return reply;
+    },
+    send(payload?: unknown) {
+      reply.payload = payload;
+      return reply;
+    },
+  };
+  return reply;
+}
+
+function mockVerifyResponse(status: number, body?: unknown) {
+  const fetchMock = vi.fn().mockImplementation(async () => new Response(body === undefined ? null : JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('API key authentication', () => {
+  beforeEach(() => {
+    vi.mocked(consumeApiKeyRateLimit).mockResolvedValue({ allowed: true, limit: 60, remaining: 59, msBeforeNext: 30000 });
+  });
+
+  afterEach(() => {
+    clearApiKeyCache();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should verify the key with the auth service and authenticate the partner', async () => {
+    const fetchMock = mockVerifyResponse(200, { data: PRINCIPAL });
+    const request = createRequest('GET', '/api/v1/properties?limit=10');
+    const reply = createReply();
+
+    await authenticateJWT(request, reply);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/internal\/v1\/api-keys\/verify$/);
+    expect(JSON.parse(init.body)).toEqual({ key: 'rk_live_test' });
+    expect(consumeApiKeyRateLimit).toHaveBeenCalledWith('key-1', 60);
+    expect(reply.payload).toBeUndefined();
+    expect(request.user).toEqual({
+      id: 'api-key-key-1',
+      email: 'api-key-partner-portal',
+      role: 'api_key',
+      permissions: PRINCIPAL.permissions,
+    });
+  });
+
+  it('should reuse a successful verification until it expires', async () => {
+    vi.useFakeTimers();
+    const fetchMock = mockVerifyResponse(200, { data: PRINCIPAL });
+
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), createReply());
+    const cachedRequest = createRequest('GET', '/api/v1/properties/abc');
+    await authenticateJWT(cachedRequest, createReply());
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cachedRequest.user?.id).toBe('api-key-key-1');
+    expect(consumeApiKeyRateLimit).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(30001);
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), createReply());
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache a key past its own expiry', async () => {
+    vi.useFakeTimers();
+    const fetchMock = mockVerifyResponse(200, { data: { ...PRINCIPAL, expiresAt: new Date(Date.now() + 5000).toISOString() } });
+
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), createReply());
+    vi.advanceTimersByTime(5001);
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), createReply());
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache rejected keys', async () => {
+    const fetchMock = mockVerifyResponse(401, { success: false });
+
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), createReply());
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), createReply());
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reply 401 for rejected keys', async () => {
+    mockVerifyResponse(401, { success: false });
+    const request = createRequest('GET', '/api/v1/properties');
+    const reply = createReply();
+
+    await authenticateJWT(request, reply);
+
+    expect(reply.statusCode).toBe(401);
+    expect(reply.payload.error.code).toBe('INVALID_API_KEY');
+    expect(request.user).toBeUndefined();
+    expect(consumeApiKeyRateLimit).not.toHaveBeenCalled();
+  });
+
+  it('should reply 503 when the auth service cannot verify the key', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')));
+    const request = createRequest('GET', '/api/v1/properties');
+    const reply = createReply();
+
+    await authenticateJWT(request, reply);
+
+    expect(reply.statusCode).toBe(503);
+    expect(reply.payload.error.code).toBe('AUTH_SERVICE_UNAVAILABLE');
+    expect(request.user).toBeUndefined();
+  });
+
+  it('should reply 503 when the auth service refuses the gateway', async () => {
+    mockVerifyResponse(403, { success: false });
+    const reply = createReply();
+
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), reply);
+
+    expect(reply.statusCode).toBe(503);
+  });
+
+  it('should set the rate limit headers on every authenticated request', async () => {
+    mockVerifyResponse(200, { data: PRINCIPAL });
+    const reply = createReply();
+
+    await authenticateJWT(createRequest('GET', '/api/v1/properties'), reply);
+
+    expect(reply.headers['X-RateLimit-Limit']).toBe(60);
+    expect(reply.headers['X-RateLimit-Remaining']).toBe(59);
+    expect(Date.parse(reply.headers['X-RateLimit-Reset'] as string)).toBeGreaterThan(Date.now());
+    expect(reply.headers['Retry-After']).toBeUndefined();
+  });
+
+  it('should reply 429 with Retry-After once the key exceeds its limit', async () => {
+    mockVerifyResponse(200, { data: PRINCIPAL });
+    vi.mocked(consumeApiKeyRateLimit).mockResolvedValue({ allowed: false, limit: 60, remaining: 0, msBeforeNext: 12000 });
+    const request = createRequest('GET', '/api/v1/properties');
+    const reply = createReply();
+
+    await authenticateJWT(request, reply);
+
+    expect(reply.statusCode).toBe(429);
+    expect(reply.headers['X-RateLimit-Remaining']).toBe(0);
+    expect(reply.headers['Retry-After']).toBe(12);
+    expect(request.user).toBeUndefined();
+  });
+
+  it('should reply 403 when the request is outside the key scopes', async () => {
+    mockVerifyResponse(200, { data: PRINCIPAL });
+    const request = createRequest('DELETE', '/api/v1/properties/abc');
+    const reply = createReply();
+
+    await authenticateJWT(request, reply);
+
+    expect(reply.statusCode).toBe(403);
+    expect(reply.payload.error.code).toBe('INSUFFICIENT_SCOPE');
+    expect(reply.payload.meta.requiredPermissions).toEqual(['properties.delete']);
+    expect(request.user).toBeUndefined();
+  });
+
+  it('should only let keys reach public routes outside the versioned API', async () => {
+    mockVerifyResponse(200, { data: PRINCIPAL });
+    const healthReply = createReply();
+    await authenticateJWT(createRequest('GET', '/health'), healthReply);
+    expect(healthReply.payload).toBeUndefined();
+
+    const otherReply = createReply();
+    await authenticateJWT(createRequest('POST', '/internal/v1/jobs'), otherReply);
+    expect(otherReply.statusCode).toBe(403);
+  });
+
+  it('should use the bearer token instead when both credentials are sent', async () => {
+    const fetchMock = mockVerifyResponse(200, { data: PRINCIPAL });
+    const reply = createReply();
+
+    await authenticateJWT(createRequest('GET', '/api/v1/properties', { authorization: 'Bearer invalid' }), reply);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('requiredApiKeyPermission', () => {
+  it('should map the method to the scope action of the resource', () => {
+    expect(requiredApiKeyPermission('/api/v1/properties?limit=5', 'GET')).toBe('properties.read');
+    expect(requiredApiKeyPermission('/api/v1/messages', 'POST')).toBe('messages.create');
+    expect(requiredApiKeyPermission('/api/v1/properties/abc', 'PATCH')).toBe('properties.update');
+    expect(requiredApiKeyPermission('/api/v1/saved-searches/1', 'DELETE')).toBe('saved_searches.delete');
+  });
+
+  it('should return null outside the versioned API', () => {
+    expect(requiredApiKeyPermission('/health', 'GET')).toBeNull();
+    expect(requiredApiKeyPermission('/uploads/a.jpg', 'GET')).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const ADMIN = { id: 'admin-1', email: 'admin@example.com', role: 'admin', permissions: ['*'] };
+
+const PAYLOADS: Record<string, unknown> = {
+  '/api/v1/users/statistics': {
+    data: { total: 1500, active: 1400, inactive: 100, verified: 1200, unverified: 300, recentLogins: 640 },
+  },
+  '/api/v1/properties-stats': {
+    data: { total: 320, byStatus: { forSale: 200, forRent: 90, sold: 30 }, pricing: { average: 250000, median: 210000 } },
+  },
+  '/api/v1/moderation/queue': {
+    data: [],
+    counts: { SUBMITTED: 4, APPROVED: 2, REJECTED: 1 },
+  },
+  '/api/v1/property-analytics/views': {
+    data: { views: 9000, uniqueVisitors: 4100, contacts: 82, conversionRate: 2 },
+  },
+};
+
+type Responder = (path: string, init: RequestInit) => Promise<Response> | undefined;
+
+/**
+ * Services answer with PAYLOADS unless `override` returns a response for the path
+ */
+function mockServices(override: Responder = () => undefined) {
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname;
+    return override(path, init) ?? new Response(JSON.stringify(PAYLOADS[path]), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function callsTo(fetchMock: ReturnType<typeof mockServices>, path: string) {
+  return fetchMock.mock.calls.filter(([url]) => new URL(url).pathname === path).length;
+}
+
+// Never settles on its own: rejects once the dashboard's per-service timeout aborts it
+function hang(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+  });
+}
+
+// The cache, in-flight build and circuit breakers are module state: every test gets fresh modules
+async function createApp(env: Record<string, string> = {}): Promise<FastifyInstance> {
+  vi.resetModules();
+  vi.stubEnv('DASHBOARD_SERVICE_TIMEOUT', '50');
+  vi.stubEnv('DASHBOARD_CACHE_TTL', '30000');
+  vi.stubEnv('CIRCUIT_BREAKER_THRESHOLD', '5');
+  vi.stubEnv('CIRCUIT_BREAKER_TIMEOUT', '60000');
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+
+  const { setupDashboard } = await import('../dashboard.js');
+  const app = Fastify();
+  app.addHook('onRequest', async (request) => {
+    (request as any).user = ADMIN;
+  });
+  await setupDashboard(app);
+  return app;
+}
+
+async function getStats(app: FastifyInstance) {
+  const response = await app.inject({ method: 'GET', url: '/api/v1/dashboard/stats' });
+  expect(response.statusCode).toBe(200);
+  return response.json();
+}
+
+describe('admin dashboard stats', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should compose every section when the services answer', async () => {
+    mockServices();
+    const app = await createApp();
+
+    const body = await getStats(app);
+
+    expect(body.data.users).toEqual({ status: 'ok', data: (PAYLOADS['/api/v1/users/statistics'] as any).data });
+    expect(body.data.properties.data).toMatchObject({ total: 320, averagePrice: 250000, medianPrice: 210000 });
+    expect(body.data.moderation.data).toEqual({ pendingReview: 4, awaitingPublication: 2, rejected: 1 });
+    expect(body.data.views.data).toMatchObject({ days: 30, views: 9000, contacts: 82 });
+    expect(body.meta).toMatchObject({ cached: false, partial: false, unavailable: [] });
+  });
+
+  it('should mark a section unavailable when its service times out', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockServices((path, init) => (path === '/api/v1/users/statistics' ? hang(init) : undefined));
+    const app = await createApp();
+
+    const body = await getStats(app);
+
+    expect(body.data.users).toMatchObject({ status: 'unavailable', data: null });
+    expect(body.data.users.reason).toMatch(/timeout/i);
+    expect(body.data.properties.status).toBe('ok');
+    expect(body.meta).toMatchObject({ partial: true, unavailable: ['users'] });
+  });
+
+  it('should not call a service whose circuit is open', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const fetchMock = mockServices((path) => (
+      path === '/api/v1/users/statistics' ? Promise.resolve(new Response(null, { status: 503 })) : undefined
+    ));
+    const app = await createApp({ CIRCUIT_BREAKER_THRESHOLD: '1' });
+
+    expect((await getStats(app)).data.users.reason).toBe('users-service responded with 503');
+
+    // Past the partial-result TTL, but well before the breaker lets a test request through
+    vi.setSystemTime(Date.now() + 10_000);
+    const body = await getStats(app);
+
+    expect(body.data.users).toMatchObject({ status: 'unavailable', reason: 'Circuit breaker is OPEN for service: users-service' });
+    expect(callsTo(fetchMock, '/api/v1/users/statistics')).toBe(1);
+    expect(body.data.properties.status).toBe('ok');
+  });
+
+  it('should mark a section unavailable instead of reporting zeros for an unexpected payload', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockServices((path) => (
+      path === '/api/v1/properties-stats'
+        ? Promise.resolve(new Response(JSON.stringify({ data: { total: '320' } }), { status: 200 }))
+        : undefined
+    ));
+    const app = await createApp();
+
+    const body = await getStats(app);
+
+    expect(body.data.properties).toEqual({ status: 'unavailable', data: null, reason: 'Unexpected response payload' });
+    expect(body.data.users.status).toBe('ok');
+    expect(body.meta.unavailable).toEqual(['properties']);
+  });
+
+  it('should share one build between concurrent requests and serve the cache afterwards', async () => {
+    const fetchMock = mockServices();
+    const app = await createApp();
+
+    const [first, second] = await Promise.all([getStats(app), getStats(app)]);
+    const third = await getStats(app);
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(first.meta.cached).toBe(false);
+    expect(second.meta.cached).toBe(false);
+    expect(second.data.generatedAt).toBe(first.data.generatedAt);
+    expect(third.meta.cached).toBe(true);
+    expect(third.data.generatedAt).toBe(first.data.generatedAt);
+  });
+
+  it('should cache partial results for a shorter time than complete ones', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+    let usersUp = false;
+    const fetchMock = mockServices((path) => (
+      path === '/api/v1/users/statistics' && !usersUp ? Promise.resolve(new Response(null, { status: 500 })) : undefined
+    ));
+    const app = await createApp();
+
+    expect((await getStats(app)).meta.partial).toBe(true);
+
+    vi.setSystemTime(Date.now() + 4_000);
+    expect((await getStats(app)).meta.cached).toBe(true);
+
+    // The partial result expires after 5s, so the recovered service shows up
+    usersUp = true;
+    vi.setSystemTime(Date.now() + 2_000);
+    const recovered = await getStats(app);
+    expect(recovered.meta).toMatchObject({ cached: false, partial: false });
+    expect(callsTo(fetchMock, '/api/v1/users/statistics')).toBe(2);
+
+    // Complete results stay cached for DASHBOARD_CACHE_TTL
+    vi.setSystemTime(Date.now() + 20_000);
+    expect((await getStats(app)).meta.cached).toBe(true);
+
+    vi.setSystemTime(Date.now() + 11_000);
+    expect((await getStats(app)).meta.cached).toBe(false);
+  });
+});
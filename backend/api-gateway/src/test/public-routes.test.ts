@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { authenticateJWT, type AuthenticatedRequest } from '../middleware/auth.middleware.js';
+
+function createReply() {
+  const reply = {
+    statusCode: 200,
+    payload: undefined as any,
+    status(code: number) {
+      reply.statusCode = code;
+      return reply;
+    },
+    header() {
+      return reply;
+    },
+    send(payload?: unknown) {
+      reply.payload = payload;
+      return reply;
+    },
+  };
+  return reply;
+}
+
+async function authenticateAnonymous(method: string, url: string) {
+  const request: AuthenticatedRequest = { method, url, headers: {} };
+  const reply = createReply();
+  await authenticateJWT(request, reply);
+  return reply;
+}
+
+describe('public media routes', () => {
+  it('should serve media objects and signed transforms without a token', async () => {
+    for (const url of [
+      '/api/v1/media/images/abc/photo.jpg',
+      '/api/v1/media/images/abc/photo.jpg?format=webp&w=640&sig=abc',
+    ]) {
+      expect((await authenticateAnonymous('GET', url)).payload).toBeUndefined();
+    }
+  });
+
+  it('should keep object listings, signed URLs and mutations private', async () => {
+    for (const [method, url] of [
+      ['GET', '/api/v1/media/objects/properties'],
+      ['GET', '/api/v1/media/objects/properties/abc/photo.jpg'],
+      ['GET', '/api/v1/media/signed-url/properties/abc/photo.jpg'],
+      ['GET', '/api/v1/media/%6fbjects/properties/abc/photo.jpg'],
+      ['DELETE', '/api/v1/media/objects/properties/abc/photo.jpg'],
+      ['POST', '/api/v1/media/upload'],
+    ]) {
+      expect((await authenticateAnonymous(method, url)).statusCode).toBe(401);
+    }
+  });
+
+  it('should keep buckets outside MEDIA_PUBLIC_BUCKETS private', async () => {
+    for (const url of [
+      '/api/v1/media/settings-backups/manifest.json',
+      '/api/v1/media/originals/abc/original.jpg',
+    ]) {
+      expect((await authenticateAnonymous('GET', url)).statusCode).toBe(401);
+    }
+  });
+});
@@ -0,0 +1,25 @@
+-- Password history
+CREATE TABLE IF NOT EXISTS "auth"."password_history" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "password" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "password_history_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "password_history_userId_createdAt_idx" ON "auth"."password_history"("userId", "createdAt");
+
+-- Per-email lookups when throttling password reset requests
+CREATE INDEX IF NOT EXISTS "password_resets_email_createdAt_idx" ON "auth"."password_resets"("email", "createdAt");
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint c
+    JOIN pg_namespace n ON n.oid = c.connamespace
+    WHERE c.conname = 'password_history_userId_fkey' AND n.nspname = 'auth'
+  ) THEN
+    ALTER TABLE "auth"."password_history"
+      ADD CONSTRAINT "password_history_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "auth"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
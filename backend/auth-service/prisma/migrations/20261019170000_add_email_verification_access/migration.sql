@@ -0,0 +1,36 @@
+-- Auth settings were not recreated when moving to the auth schema
+CREATE TABLE IF NOT EXISTS "auth"."auth_settings" (
+  "id" TEXT NOT NULL DEFAULT 'singleton',
+  "passwordMinLength" INTEGER NOT NULL DEFAULT 8,
+  "passwordRequireUpper" BOOLEAN NOT NULL DEFAULT true,
+  "passwordRequireLower" BOOLEAN NOT NULL DEFAULT true,
+  "passwordRequireNumber" BOOLEAN NOT NULL DEFAULT true,
+  "passwordRequireSymbol" BOOLEAN NOT NULL DEFAULT false,
+  "passwordHistoryCount" INTEGER NOT NULL DEFAULT 5,
+  "maxLoginAttempts" INTEGER NOT NULL DEFAULT 5,
+  "lockoutDuration" INTEGER NOT NULL DEFAULT 900,
+  "lockoutWindow" INTEGER NOT NULL DEFAULT 300,
+  "sessionTimeout" INTEGER NOT NULL DEFAULT 86400,
+  "maxConcurrentSessions" INTEGER NOT NULL DEFAULT 5,
+  "jwtAccessExpiry" INTEGER NOT NULL DEFAULT 3600,
+  "jwtRefreshExpiry" INTEGER NOT NULL DEFAULT 604800,
+  "twoFactorRequired" BOOLEAN NOT NULL DEFAULT false,
+  "twoFactorGracePeriod" INTEGER NOT NULL DEFAULT 86400,
+  "emailVerificationRequired" BOOLEAN NOT NULL DEFAULT true,
+  "emailVerificationExpiry" INTEGER NOT NULL DEFAULT 86400,
+  "passwordResetExpiry" INTEGER NOT NULL DEFAULT 3600,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  "updatedBy" TEXT,
+  CONSTRAINT "auth_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- What unverified users can do: "none" (cannot log in), "browse" (read-only) or "full"
+ALTER TABLE "auth"."auth_settings" ADD COLUMN IF NOT EXISTS "unverifiedUserAccess" TEXT NOT NULL DEFAULT 'none';
+
+-- Per-email lookups when throttling verification resends
+CREATE INDEX IF NOT EXISTS "email_verifications_email_createdAt_idx" ON "auth"."email_verifications"("email", "createdAt");
+
+-- Accounts that are already active predate email verification and keep their access
+UPDATE "auth"."users"
+SET "isEmailVerified" = true, "emailVerifiedAt" = CURRENT_TIMESTAMP
+WHERE "isActive" = true AND "isEmailVerified" = false;
@@ -0,0 +1,45 @@
+-- Admin communications (campaign history and per-recipient delivery status)
+CREATE TABLE IF NOT EXISTS "auth"."communication_campaigns" (
+  "id" TEXT NOT NULL,
+  "type" TEXT NOT NULL,
+  "template" TEXT,
+  "subject" TEXT NOT NULL,
+  "message" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'sending',
+  "recipientCount" INTEGER NOT NULL DEFAULT 0,
+  "sentCount" INTEGER NOT NULL DEFAULT 0,
+  "failedCount" INTEGER NOT NULL DEFAULT 0,
+  "skippedCount" INTEGER NOT NULL DEFAULT 0,
+  "sentBy" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "completedAt" TIMESTAMP(3),
+  CONSTRAINT "communication_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "communication_campaigns_createdAt_idx" ON "auth"."communication_campaigns"("createdAt");
+
+CREATE TABLE IF NOT EXISTS "auth"."communication_recipients" (
+  "id" TEXT NOT NULL,
+  "campaignId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "email" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "error" TEXT,
+  "sentAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "communication_recipients_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "communication_recipients_campaignId_status_idx" ON "auth"."communication_recipients"("campaignId", "status");
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint c
+    JOIN pg_namespace n ON n.oid = c.connamespace
+    WHERE c.conname = 'communication_recipients_campaignId_fkey' AND n.nspname = 'auth'
+  ) THEN
+    ALTER TABLE "auth"."communication_recipients"
+      ADD CONSTRAINT "communication_recipients_campaignId_fkey"
+      FOREIGN KEY ("campaignId") REFERENCES "auth"."communication_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,56 @@
+-- Bulk user imports (job progress and per-row report)
+CREATE TABLE IF NOT EXISTS "auth"."user_import_jobs" (
+  "id" TEXT NOT NULL,
+  "fileName" TEXT NOT NULL,
+  "fileType" TEXT NOT NULL,
+  "dryRun" BOOLEAN NOT NULL DEFAULT false,
+  "upsert" BOOLEAN NOT NULL DEFAULT false,
+  "sendInvitations" BOOLEAN NOT NULL DEFAULT true,
+  "defaultRole" TEXT,
+  "roleMapping" JSONB,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "totalRows" INTEGER NOT NULL DEFAULT 0,
+  "processedRows" INTEGER NOT NULL DEFAULT 0,
+  "createdCount" INTEGER NOT NULL DEFAULT 0,
+  "updatedCount" INTEGER NOT NULL DEFAULT 0,
+  "skippedCount" INTEGER NOT NULL DEFAULT 0,
+  "failedCount" INTEGER NOT NULL DEFAULT 0,
+  "invitedCount" INTEGER NOT NULL DEFAULT 0,
+  "error" TEXT,
+  "createdBy" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "startedAt" TIMESTAMP(3),
+  "completedAt" TIMESTAMP(3),
+  CONSTRAINT "user_import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "user_import_jobs_createdAt_idx" ON "auth"."user_import_jobs"("createdAt");
+
+CREATE TABLE IF NOT EXISTS "auth"."user_import_rows" (
+  "id" TEXT NOT NULL,
+  "jobId" TEXT NOT NULL,
+  "rowNumber" INTEGER NOT NULL,
+  "email" TEXT,
+  "data" JSONB NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "action" TEXT,
+  "message" TEXT,
+  "userId" TEXT,
+  "invited" BOOLEAN NOT NULL DEFAULT false,
+  "processedAt" TIMESTAMP(3),
+  CONSTRAINT "user_import_rows_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "user_import_rows_jobId_rowNumber_idx" ON "auth"."user_import_rows"("jobId", "rowNumber");
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint c
+    JOIN pg_namespace n ON n.oid = c.connamespace
+    WHERE c.conname = 'user_import_rows_jobId_fkey' AND n.nspname = 'auth'
+  ) THEN
+    ALTER TABLE "auth"."user_import_rows"
+      ADD CONSTRAINT "user_import_rows_jobId_fkey"
+      FOREIGN KEY ("jobId") REFERENCES "auth"."user_import_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
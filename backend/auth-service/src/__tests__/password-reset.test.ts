@@ -0,0 +1,236 @@
+import { PasswordHistoryRepository, PasswordResetRepository } from '@/repositories/password-reset.repository';
+import { AuthService } from '@/services/auth.service';
+import type { RequestContext } from '@/types/common';
+import { ValidationError } from '@/types/common';
+import { hashPassword, hashPasswordResetToken } from '@/utils/crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Password reset flow with in-memory reset/history tables - NO DATABASE
+ */
+
+const CONTEXT: RequestContext = {
+  requestId: 'req-1',
+  ipAddress: '203.0.113.10',
+  userAgent: 'vitest',
+  endpoint: '/api/v1/auth/reset-password',
+  method: 'POST',
+} as RequestContext;
+
+interface ResetRow {
+  id: string;
+  email: string;
+  token: string;
+  expiresAt: Date;
+  isUsed: boolean;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+interface HistoryRow {
+  id: string;
+  userId: string;
+  password: string;
+  createdAt: Date;
+}
+
+function createPrismaStub() {
+  const resets: ResetRow[] = [];
+  const history: HistoryRow[] = [];
+  let sequence = 0;
+
+  const matches = (row: ResetRow, where: any) =>
+    (where.id === undefined || row.id === where.id)
+    && (where.email === undefined || row.email === where.email)
+    && (where.isUsed === undefined || row.isUsed === where.isUsed)
+    && (where.createdAt?.gte === undefined || row.createdAt >= where.createdAt.gte);
+
+  const prisma = {
+    passwordReset: {
+      create: async ({ data }: any) => {
+        const row: ResetRow = { id: `reset-${++sequence}`, isUsed: false, usedAt: null, createdAt: new Date(), ...data };
+        resets.push(row);
+        return row;
+      },
+      findUnique: async ({ where }: any) => resets.find(row => row.token === where.token) ?? null,
+      count: async ({ where }: any) => resets.filter(row => matches(row, where)).length,
+      updateMany: async ({ where, data }: any) => {
+        const rows = resets.filter(row => matches(row, where));
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      },
+    },
+    passwordHistory: {
+      findMany: async ({ where, take, skip }: any) => history
+        .filter(row => row.userId === where.userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(skip ?? 0, take === undefined ? undefined : (skip ?? 0) + take),
+      create: async ({ data }: any) => {
+        const row = { id: `history-${++sequence}`, createdAt: new Date(), ...data };
+        history.push(row);
+        return row;
+      },
+      deleteMany: async () => ({ count: 0 }),
+    },
+    authSettings: {
+      findUnique: async () => null,
+    },
+    auditLog: {
+      create: vi.fn(async () => ({})),
+    },
+  };
+
+  return { prisma, resets, history };
+}
+
+describe('AuthService password reset', () => {
+  let service: AuthService;
+  let store: ReturnType<typeof createPrismaStub>;
+  let user: { id: string; email: string; firstName: string; isActive: boolean; isEmailVerified: boolean; password: string };
+  let users: { findByEmail: ReturnType<typeof vi.fn>; updatePassword: ReturnType<typeof vi.fn>; verifyEmail: ReturnType<typeof vi.fn> };
+  let emailSender: { send: ReturnType<typeof vi.fn> };
+  let sessions: { deactivateAllForUser: ReturnType<typeof vi.fn> };
+  let refreshTokens: { revokeAllForUser: ReturnType<typeof vi.fn> };
+
+  // Stores a reset link for the user, as requestPasswordReset would
+  async function issueToken(token: string): Promise<void> {
+    await store.prisma.passwordReset.create({
+      data: { email: user.email, token: hashPasswordResetToken(token), expiresAt: new Date(Date.now() + 60_000) },
+    });
+  }
+
+  beforeEach(async () => {
+    store = createPrismaStub();
+    user = {
+      id: 'user-1',
+      email: 'ana@example.com',
+      firstName: 'Ana',
+      isActive: true,
+      isEmailVerified: true,
+      password: await hashPassword('Current123'),
+    };
+    users = {
+      findByEmail: vi.fn(async (email: string) => (email === user.email ? user : null)),
+      updatePassword: vi.fn(async () => undefined),
+      verifyEmail: vi.fn(async () => undefined),
+    };
+    emailSender = { send: vi.fn(async () => undefined) };
+    sessions = { deactivateAllForUser: vi.fn(async () => 2) };
+    refreshTokens = { revokeAllForUser: vi.fn(async () => 1) };
+
+    service = new AuthService(store.prisma as any);
+    Object.assign(service, {
+      _userRepository: users,
+      _sessionRepository: sessions,
+      _refreshTokenRepository: refreshTokens,
+      _passwordResetRepository: new PasswordResetRepository(store.prisma as any),
+      _passwordHistoryRepository: new PasswordHistoryRepository(store.prisma as any),
+      _emailSender: emailSender,
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should resolve the same way for unknown and existing accounts', async () => {
+      await expect(service.requestPasswordReset({ email: 'nobody@example.com' }, CONTEXT)).resolves.toBeUndefined();
+      await expect(service.requestPasswordReset({ email: 'ANA@example.com' }, CONTEXT)).resolves.toBeUndefined();
+
+      expect(store.resets).toHaveLength(1);
+      expect(store.resets[0].email).toBe('ana@example.com');
+      expect(emailSender.send).toHaveBeenCalledTimes(1);
+      expect(emailSender.send.mock.calls[0][0].to).toBe('ana@example.com');
+    });
+
+    it('should store only the hash of the emailed token', async () => {
+      await service.requestPasswordReset({ email: user.email }, CONTEXT);
+
+      const link = /token=([\w-]+)/.exec(emailSender.send.mock.calls[0][0].text)?.[1];
+      expect(link).toBeDefined();
+      expect(store.resets[0].token).toBe(hashPasswordResetToken(link!));
+    });
+
+    it('should stop issuing links once the per-email limit is reached', async () => {
+      for (let i = 0; i < 5; i++) {
+        await service.requestPasswordReset({ email: user.email }, CONTEXT);
+      }
+
+      expect(store.resets).toHaveLength(3);
+      expect(emailSender.send).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should change the password, remember the old one and revoke sessions', async () => {
+      await issueToken('token-1');
+      const previousHash = user.password;
+
+      await service.resetPassword({ token: 'token-1', password: 'Brandnew123', confirmPassword: 'Brandnew123' }, CONTEXT);
+
+      expect(users.updatePassword).toHaveBeenCalledWith('user-1', expect.any(String));
+      expect(store.history).toEqual([expect.objectContaining({ userId: 'user-1', password: previousHash })]);
+      expect(store.resets[0].isUsed).toBe(true);
+      expect(sessions.deactivateAllForUser).toHaveBeenCalledWith('user-1');
+      expect(refreshTokens.revokeAllForUser).toHaveBeenCalledWith('user-1');
+      expect(users.verifyEmail).not.toHaveBeenCalled();
+    });
+
+    it('should verify the email of an unverified account', async () => {
+      user.isEmailVerified = false;
+      await issueToken('token-1');
+
+      await service.resetPassword({ token: 'token-1', password: 'Brandnew123', confirmPassword: 'Brandnew123' }, CONTEXT);
+
+      expect(users.verifyEmail).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should reject the current and remembered passwords without consuming the token', async () => {
+      await issueToken('token-1');
+      store.history.push({ id: 'old', userId: 'user-1', password: await hashPassword('Previous123'), createdAt: new Date() });
+
+      for (const password of ['Current123', 'Previous123']) {
+        await expect(service.resetPassword({ token: 'token-1', password, confirmPassword: password }, CONTEXT))
+          .rejects.toThrow('Password must differ from the last 5 passwords');
+      }
+
+      expect(users.updatePassword).not.toHaveBeenCalled();
+      expect(store.resets[0].isUsed).toBe(false);
+    });
+
+    it('should reject unknown, used and expired tokens', async () => {
+      await issueToken('used');
+      store.resets[0].isUsed = true;
+      await store.prisma.passwordReset.create({
+        data: { email: user.email, token: hashPasswordResetToken('expired'), expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      for (const token of ['unknown', 'used', 'expired']) {
+        await expect(service.resetPassword({ token, password: 'Brandnew123', confirmPassword: 'Brandnew123' }, CONTEXT))
+          .rejects.toBeInstanceOf(ValidationError);
+      }
+      expect(users.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should let only one of two concurrent requests use the same token', async () => {
+      await issueToken('token-1');
+      const request = { token: 'token-1', password: 'Brandnew123', confirmPassword: 'Brandnew123' };
+
+      const results = await Promise.allSettled([
+        service.resetPassword(request, CONTEXT),
+        service.resetPassword(request, CONTEXT),
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(users.updatePassword).toHaveBeenCalledTimes(1);
+      expect(sessions.deactivateAllForUser).toHaveBeenCalledTimes(1);
+    });
+
+    it('should invalidate the other outstanding links of the account', async () => {
+      await issueToken('token-1');
+      await issueToken('token-2');
+
+      await service.resetPassword({ token: 'token-1', password: 'Brandnew123', confirmPassword: 'Brandnew123' }, CONTEXT);
+
+      await expect(service.resetPassword({ token: 'token-2', password: 'Another123', confirmPassword: 'Another123' }, CONTEXT))
+        .rejects.toThrow('Invalid or expired reset token');
+    });
+  });
+});
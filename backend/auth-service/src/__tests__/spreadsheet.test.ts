@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import {
+  detectSpreadsheetType,
+  MAX_XLSX_ENTRY_SIZE,
+  parseCsv,
+  parseSpreadsheet,
+  SpreadsheetError,
+} from '../utils/spreadsheet';
+
+/**
+ * Minimal ZIP writer (deflated entries, no CRC checks on read) for XLSX fixtures
+ */
+function zip(files: Record<string, Buffer | string>, options: { declaredSize?: number } = {}): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+    const data = deflateRawSync(raw);
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const size = options.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, data);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function worksheet(rows: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><worksheet><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+describe('spreadsheet', () => {
+  describe('parseCsv', () => {
+    it('should keep commas and line breaks inside quoted fields', () => {
+      const csv = 'email,notes\n"ana@example.com","Rua A, 12\nLisboa"\n"rui@example.com","Diz ""olá"""';
+
+      expect(parseCsv(csv)).toEqual([
+        ['email', 'notes'],
+        ['ana@example.com', 'Rua A, 12\nLisboa'],
+        ['rui@example.com', 'Diz "olá"'],
+      ]);
+    });
+
+    it('should strip the UTF-8 BOM from the first header', () => {
+      expect(parseCsv('\uFEFFemail,role\r\nana@example.com,agent\r\n')).toEqual([
+        ['email', 'role'],
+        ['ana@example.com', 'agent'],
+      ]);
+    });
+
+    it('should detect the ";" delimiter of Portuguese spreadsheet exports', () => {
+      expect(parseCsv('email;nome;notas\nana@example.com;Ana;"1,5 T2"')).toEqual([
+        ['email', 'nome', 'notas'],
+        ['ana@example.com', 'Ana', '1,5 T2'],
+      ]);
+    });
+
+    it('should reject unterminated quoted fields', () => {
+      expect(() => parseCsv('email\n"ana@example.com')).toThrow(SpreadsheetError);
+    });
+  });
+
+  describe('parseSpreadsheet (xlsx)', () => {
+    it('should read shared and inline strings from the first worksheet', () => {
+      const buffer = zip({
+        'xl/sharedStrings.xml': '<sst><si><t>email</t></si><si><r><t>ro</t></r><r><t>le</t></r></si></sst>',
+        'xl/worksheets/sheet1.xml': worksheet(
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>'
+          + '<row r="2"><c r="A2" t="inlineStr"><is><t>ana@example.com</t></is></c>'
+          + '<c r="C2" t="inlineStr"><is><t>Tom &amp; Co</t></is></c></row>'
+          + '<row r="3"/>'
+        ),
+      });
+
+      expect(detectSpreadsheetType('users.xlsx', buffer)).toBe('xlsx');
+      expect(parseSpreadsheet(buffer, 'xlsx')).toEqual([
+        ['email', 'role'],
+        ['ana@example.com', '', 'Tom & Co'],
+      ]);
+    });
+
+    it('should reject files named .xlsx that are not ZIP archives', () => {
+      expect(() => detectSpreadsheetType('users.xlsx', Buffer.from('email\n'))).toThrow(SpreadsheetError);
+    });
+
+    it('should reject malformed archives', () => {
+      const truncated = zip({ 'xl/worksheets/sheet1.xml': worksheet('') }).subarray(0, 40);
+
+      expect(() => parseSpreadsheet(truncated, 'xlsx')).toThrow('Invalid XLSX file');
+    });
+
+    it('should reject corrupt compressed entries', () => {
+      const buffer = zip({ 'xl/worksheets/sheet1.xml': worksheet('<row r="1"></row>') });
+      // Overwrite the deflate stream right after the local header and file name
+      buffer.fill(0xff, 30 + 'xl/worksheets/sheet1.xml'.length, 40 + 'xl/worksheets/sheet1.xml'.length);
+
+      expect(() => parseSpreadsheet(buffer, 'xlsx')).toThrow('Invalid XLSX file');
+    });
+
+    it('should stop inflating entries larger than the limit', () => {
+      const bomb = zip(
+        { 'xl/worksheets/sheet1.xml': Buffer.alloc(MAX_XLSX_ENTRY_SIZE + 1, 0x20) },
+        { declaredSize: 1024 }
+      );
+
+      expect(() => parseSpreadsheet(bomb, 'xlsx')).toThrow('XLSX file is too large');
+    });
+
+    it('should reject entries that declare a size above the limit', () => {
+      const buffer = zip(
+        { 'xl/worksheets/sheet1.xml': worksheet('') },
+        { declaredSize: MAX_XLSX_ENTRY_SIZE + 1 }
+      );
+
+      expect(() => parseSpreadsheet(buffer, 'xlsx')).toThrow('XLSX file is too large');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { AuthService } from '@/services/auth.service';
+import type { UnverifiedUserAccess } from '@/types/auth';
+import type { RequestContext } from '@/types/common';
+import { UnauthorizedError } from '@/types/common';
+import { hashPassword } from '@/utils/crypto';
+import * as jwt from 'jsonwebtoken';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Login of users who have not verified their email (AuthSettings.unverifiedUserAccess) - NO DATABASE
+ */
+
+const CONTEXT: RequestContext = {
+  requestId: 'req-1',
+  ipAddress: '203.0.113.10',
+  userAgent: 'vitest',
+  endpoint: '/api/v1/auth/login',
+  method: 'POST',
+} as RequestContext;
+
+const PERMISSIONS = ['properties.read', 'properties.create', 'favorites.read', 'favorites.delete'];
+
+describe('AuthService unverified email access', () => {
+  let passwordHash: string;
+  let settings: { emailVerificationRequired: boolean; unverifiedUserAccess: UnverifiedUserAccess } | null;
+  let sessions: { create: ReturnType<typeof vi.fn> };
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword('Secret123');
+  });
+
+  beforeEach(() => {
+    settings = null;
+    sessions = { create: vi.fn(async () => ({ id: 'session-1' })) };
+  });
+
+  function createService(isEmailVerified: boolean): AuthService {
+    const user = {
+      id: 'user-1',
+      email: 'ana@example.com',
+      password: passwordHash,
+      isActive: true,
+      isEmailVerified,
+      twoFactorEnabled: false,
+      role: { name: 'user', permissions: PERMISSIONS },
+    };
+
+    const prisma = {
+      authSettings: { findUnique: async () => settings },
+      loginAttempt: { create: async () => ({}) },
+      auditLog: { create: async () => ({}) },
+    };
+
+    const service = new AuthService(prisma as any);
+    Object.assign(service, {
+      _userRepository: {
+        findByEmail: async () => user,
+        updateLastLogin: async () => undefined,
+      },
+      _sessionRepository: sessions,
+      _refreshTokenRepository: { create: async () => ({}) },
+    });
+    return service;
+  }
+
+  async function loginPermissions(service: AuthService): Promise<string[]> {
+    const { tokens } = await service.login({ email: 'ana@example.com', password: 'Secret123' } as any, CONTEXT);
+    return (jwt.decode(tokens.accessToken) as any).permissions;
+  }
+
+  it('should reject unverified users by default', async () => {
+    const error = await createService(false)
+      .login({ email: 'ana@example.com', password: 'Secret123' } as any, CONTEXT)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error).toMatchObject({ message: 'Email verification required', details: { reason: 'email_not_verified' } });
+    expect(sessions.create).not.toHaveBeenCalled();
+  });
+
+  it('should only grant read permissions to unverified users with browse access', async () => {
+    settings = { emailVerificationRequired: true, unverifiedUserAccess: 'browse' };
+
+    expect(await loginPermissions(createService(false))).toEqual(['properties.read', 'favorites.read']);
+  });
+
+  it('should grant every permission to unverified users with full access', async () => {
+    settings = { emailVerificationRequired: true, unverifiedUserAccess: 'full' };
+
+    expect(await loginPermissions(createService(false))).toEqual(PERMISSIONS);
+  });
+
+  it('should ignore the access level when verification is not required', async () => {
+    settings = { emailVerificationRequired: false, unverifiedUserAccess: 'none' };
+
+    expect(await loginPermissions(createService(false))).toEqual(PERMISSIONS);
+  });
+
+  it('should not restrict verified users', async () => {
+    settings = { emailVerificationRequired: true, unverifiedUserAccess: 'none' };
+
+    expect(await loginPermissions(createService(true))).toEqual(PERMISSIONS);
+  });
+});
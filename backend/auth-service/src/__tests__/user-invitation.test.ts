@@ -0,0 +1,164 @@
+import { PasswordHistoryRepository, PasswordResetRepository } from '@/repositories/password-reset.repository';
+import { AuthService } from '@/services/auth.service';
+import { UserImportService } from '@/services/user-import.service';
+import type { RequestContext } from '@/types/common';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Imported users set their password through the invitation link and can log in - NO DATABASE
+ */
+
+const CONTEXT: RequestContext = {
+  requestId: 'req-1',
+  ipAddress: '203.0.113.10',
+  userAgent: 'vitest',
+  endpoint: '/api/v1/users/import',
+  method: 'POST',
+} as RequestContext;
+
+const ADMIN = { id: 'admin-1', role: 'admin' };
+const AGENT_ROLE = { id: 'role-agent', name: 'agent', permissions: ['properties.read', 'properties.create'] };
+
+function createPrismaStub() {
+  const resets: any[] = [];
+  const history: any[] = [];
+  let sequence = 0;
+
+  const matches = (row: any, where: any) =>
+    (where.id === undefined || row.id === where.id)
+    && (where.email === undefined || row.email === where.email)
+    && (where.isUsed === undefined || row.isUsed === where.isUsed);
+
+  return {
+    passwordReset: {
+      create: async ({ data }: any) => {
+        const row = { id: `reset-${++sequence}`, isUsed: false, usedAt: null, createdAt: new Date(), ...data };
+        resets.push(row);
+        return row;
+      },
+      findUnique: async ({ where }: any) => resets.find(row => row.token === where.token) ?? null,
+      count: async ({ where }: any) => resets.filter(row => matches(row, where)).length,
+      updateMany: async ({ where, data }: any) => {
+        const rows = resets.filter(row => matches(row, where));
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      },
+    },
+    passwordHistory: {
+      findMany: async ({ where }: any) => history.filter(row => row.userId === where.userId),
+      create: async ({ data }: any) => {
+        history.push({ id: `history-${++sequence}`, createdAt: new Date(), ...data });
+        return data;
+      },
+      deleteMany: async () => ({ count: 0 }),
+    },
+    authSettings: { findUnique: async () => null },
+    loginAttempt: { create: async () => ({}) },
+    auditLog: { create: async () => ({}) },
+  };
+}
+
+// Users table shared by the import and the auth service
+function createUserStore() {
+  const users = new Map<string, any>();
+
+  return {
+    users,
+    findByEmail: vi.fn(async (email: string) => users.get(email.toLowerCase()) ?? null),
+    create: vi.fn(async ({ roleId, sendWelcomeEmail, ...data }: any) => {
+      const user = { id: `user-${users.size + 1}`, twoFactorEnabled: false, role: AGENT_ROLE, roleId, ...data };
+      users.set(user.email, user);
+      return user;
+    }),
+    updatePassword: vi.fn(async (id: string, password: string) => {
+      [...users.values()].find(user => user.id === id).password = password;
+    }),
+    verifyEmail: vi.fn(async (id: string) => {
+      [...users.values()].find(user => user.id === id).isEmailVerified = true;
+    }),
+    updateLastLogin: vi.fn(async () => undefined),
+  };
+}
+
+function createImportJobStore() {
+  let job: any = null;
+
+  return {
+    get rows(): any[] {
+      return job?.rows ?? [];
+    },
+    createJob: async ({ rows, ...data }: any) => {
+      job = {
+        id: 'job-1',
+        ...data,
+        rows: rows.map((row: any, index: number) => ({ id: `row-${index + 1}`, jobId: 'job-1', ...row })),
+      };
+      return job;
+    },
+    markStarted: async () => true,
+    findById: async () => job,
+    findRows: async () => job.rows,
+    updateRow: async (id: string, outcome: any) => {
+      Object.assign(job.rows.find((row: any) => row.id === id), outcome);
+    },
+    updateProgress: async () => undefined,
+    completeJob: async () => job,
+  };
+}
+
+describe('user import invitations', () => {
+  let prisma: ReturnType<typeof createPrismaStub>;
+  let userStore: ReturnType<typeof createUserStore>;
+  let importJobs: ReturnType<typeof createImportJobStore>;
+  let emailSender: { send: ReturnType<typeof vi.fn> };
+  let importService: UserImportService;
+  let authService: AuthService;
+
+  beforeEach(() => {
+    prisma = createPrismaStub();
+    userStore = createUserStore();
+    importJobs = createImportJobStore();
+    emailSender = { send: vi.fn(async () => undefined) };
+    const passwordResets = new PasswordResetRepository(prisma as any);
+
+    importService = new UserImportService(prisma as any);
+    Object.assign(importService, {
+      _userImportRepository: importJobs,
+      _userRepository: userStore,
+      _roleRepository: { findByName: async (name: string) => (name === AGENT_ROLE.name ? AGENT_ROLE : null) },
+      _passwordResetRepository: passwordResets,
+      _emailSender: emailSender,
+    });
+
+    authService = new AuthService(prisma as any);
+    Object.assign(authService, {
+      _userRepository: userStore,
+      _sessionRepository: { create: async () => ({ id: 'session-1' }), deactivateAllForUser: async () => 0 },
+      _refreshTokenRepository: { create: async () => ({}), revokeAllForUser: async () => 0 },
+      _passwordResetRepository: passwordResets,
+      _passwordHistoryRepository: new PasswordHistoryRepository(prisma as any),
+    });
+  });
+
+  it('should let an invited user set a password and log in', async () => {
+    await importService.importRecords({
+      users: [{ email: 'Rui@Example.com', firstName: 'Rui', lastName: 'Costa', role: 'agent' }],
+      dryRun: false,
+      upsert: false,
+      sendInvitations: true,
+    }, ADMIN, CONTEXT);
+
+    expect(importJobs.rows).toEqual([expect.objectContaining({ status: 'created', invited: true })]);
+    expect(userStore.users.get('rui@example.com').isEmailVerified).toBe(false);
+
+    const token = /token=([\w-]+)/.exec(emailSender.send.mock.calls[0][0].text)?.[1];
+    expect(token).toBeDefined();
+
+    await authService.resetPassword({ token: token!, password: 'Brandnew123', confirmPassword: 'Brandnew123' }, CONTEXT);
+
+    const { user, tokens } = await authService.login({ email: 'rui@example.com', password: 'Brandnew123' } as any, CONTEXT);
+
+    expect(user).toMatchObject({ email: 'rui@example.com', isEmailVerified: true });
+    expect(tokens.accessToken).toEqual(expect.any(String));
+  });
+});
@@ -105,6 +105,17 @@ export async function createApp() {
     },
   });
 
+  // File uploads (bulk user import)
+  await app.register(import('@fastify/multipart'), {
+    limits: {
+      fileSize: config.userImportConfig.maxFileSize,
+      files: 1,
+      fields: 10,
+      fieldSize: 64 * 1024,
+    },
+    throwFileSizeLimit: true,
+  });
+
   // JWT authentication
   const { default: jwtPlugin } = await import('@fastify/jwt');
   await app.register(jwtPlugin as any, {
@@ -159,6 +170,8 @@ export async function createApp() {
           { name: 'Users', description: 'User management endpoints' },
           { name: 'Roles', description: 'Role management endpoints' },
           { name: 'Sessions', description: 'Session management endpoints' },
+          { name: 'API Keys', description: 'Partner API key management endpoints' },
+          { name: 'Internal', description: 'Service-to-service endpoints' },
           { name: 'Health', description: 'Health check endpoints' },
         ],
       },
@@ -305,12 +318,14 @@ export async function createApp() {
   });
 
   // Register route modules
-  const { authRoutes, userRoutes, roleRoutes, sessionRoutes } = await import('./routes');
+  const { authRoutes, userRoutes, roleRoutes, sessionRoutes, apiKeyRoutes, internalRoutes } = await import('./routes');
   
   await app.register(authRoutes, { prefix: '/api/v1/auth' });
   await app.register(userRoutes, { prefix: '/api/v1/users' });
   await app.register(roleRoutes, { prefix: '/api/v1/roles' });
   await app.register(sessionRoutes, { prefix: '/api/v1/sessions' });
+  await app.register(apiKeyRoutes, { prefix: '/api/v1/api-keys' });
+  await app.register(internalRoutes, { prefix: '/internal/v1' });
 
   // Graceful shutdown
   const gracefulShutdown = async (signal: string) => {
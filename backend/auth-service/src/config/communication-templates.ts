@@ -0,0 +1,72 @@
+import type { CommunicationTemplate } from '@/types/auth';
+
+/**
+ * Templates das comunicações enviadas pela administração
+ * O assunto e a mensagem enviados no pedido têm prioridade sobre os do template
+ */
+export const COMMUNICATION_TEMPLATES: CommunicationTemplate[] = [
+  {
+    id: 'welcome',
+    name: 'Boas-vindas',
+    subject: 'Bem-vindo ao Portal Imobiliário',
+    message: 'Olá {name}, bem-vindo ao nosso portal!\n\nPode consultar os imóveis disponíveis em {siteUrl}.',
+    notificationType: 'WELCOME',
+  },
+  {
+    id: 'announcement',
+    name: 'Anúncio',
+    subject: 'Novidades do Portal Imobiliário',
+    message: 'Olá {firstName},\n\nTemos novidades para partilhar consigo em {siteUrl}.\n\nCumprimentos,\nEquipa Ribeira Azul',
+    notificationType: 'SYSTEM_ANNOUNCEMENT',
+  },
+  {
+    id: 'market_update',
+    name: 'Atualização de mercado',
+    subject: 'Atualização do mercado imobiliário',
+    message: 'Olá {firstName},\n\nPreparámos um resumo das novidades do mercado para si em {siteUrl}.',
+    notificationType: 'MARKET_UPDATE',
+  },
+  {
+    id: 'password_reset',
+    name: 'Reset de Password',
+    subject: 'Reset da sua palavra-passe',
+    message: 'Olá {name},\n\nPara redefinir a sua palavra-passe aceda a {siteUrl} e escolha "Esqueci-me da palavra-passe" na página de entrada.',
+    notificationType: 'REMINDER',
+  },
+  {
+    id: 'account_activation',
+    name: 'Ativação de Conta',
+    subject: 'Ative a sua conta',
+    message: 'Olá {name},\n\nA sua conta ({email}) ainda não está ativa. Entre em {siteUrl} para concluir a ativação.',
+    notificationType: 'REMINDER',
+  },
+  {
+    id: 'custom',
+    name: 'Personalizado',
+    subject: '',
+    message: '',
+    notificationType: 'SYSTEM_ANNOUNCEMENT',
+  },
+];
+
+/**
+ * Placeholders suportados nas comunicações
+ */
+export const COMMUNICATION_PLACEHOLDERS = ['name', 'firstName', 'lastName', 'email', 'siteUrl', 'date'] as const;
+
+export type CommunicationPlaceholderValues = Record<(typeof COMMUNICATION_PLACEHOLDERS)[number], string>;
+
+export function findCommunicationTemplate(id: string): CommunicationTemplate | undefined {
+  return COMMUNICATION_TEMPLATES.find(template => template.id === id);
+}
+
+/**
+ * Substitui todos os placeholders conhecidos; os desconhecidos ficam intactos
+ */
+export function renderPlaceholders(text: string, values: CommunicationPlaceholderValues): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key)
+      ? values[key as keyof CommunicationPlaceholderValues]
+      : match
+  );
+}
@@ -66,6 +66,28 @@ const configSchema = z.object({
   SMTP_PASS: z.string().optional(),
   EMAIL_FROM: z.string().default('noreply@ribeirazul.com'),
   
+  // Password Reset
+  PASSWORD_RESET_URL: z.string().url().default('http://localhost:3000/reset-password'),
+  PASSWORD_RESET_RATE_LIMIT_MAX: z.coerce.number().default(5),
+  PASSWORD_RESET_RATE_LIMIT_WINDOW: z.string().default('15 minutes'),
+  PASSWORD_RESET_MAX_PER_EMAIL: z.coerce.number().default(3), // Requests per email per hour
+  
+  // Email Verification
+  EMAIL_VERIFICATION_URL: z.string().url().default('http://localhost:3000/verify-email'),
+  EMAIL_VERIFICATION_RATE_LIMIT_MAX: z.coerce.number().default(5),
+  EMAIL_VERIFICATION_RATE_LIMIT_WINDOW: z.string().default('15 minutes'),
+  EMAIL_VERIFICATION_MAX_PER_EMAIL: z.coerce.number().default(3), // Resends per email per hour
+  
+  // Admin communications
+  SITE_URL: z.string().url().default(process.env.API_URL || 'http://localhost:3000'), // {siteUrl} placeholder
+  COMMUNICATION_SEND_CONCURRENCY: z.coerce.number().default(5), // Emails sent in parallel per campaign
+  
+  // Bulk user import
+  USER_IMPORT_MAX_FILE_SIZE: z.coerce.number().default(5 * 1024 * 1024), // 5MB
+  USER_IMPORT_MAX_ROWS: z.coerce.number().default(5000),
+  USER_INVITATION_EXPIRY: z.coerce.number().default(7 * 24 * 60 * 60), // Set-password link lifetime in seconds
+  USER_INVITATION_URL: z.string().url().default('http://localhost:3000/reset-password?invite=1'), // Frontend set-password page
+  
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
   LOG_AUDIT_ENABLED: z.coerce.boolean().default(true),
@@ -87,6 +109,10 @@ const configSchema = z.object({
   // External Services
   PROPERTIES_SERVICE_URL: z.string().url().optional(),
   MEDIA_SERVICE_URL: z.string().url().optional(),
+  MESSAGES_SERVICE_URL: z.string().url().optional(),
+  USERS_SERVICE_URL: z.string().url().optional(),
+  INTERNAL_API_KEY: z.string().optional(),
+  EXTERNAL_REQUEST_TIMEOUT: z.coerce.number().default(5000),
   
   // Development/Debug
   DEBUG_ENABLED: z.coerce.boolean().default(false),
@@ -255,6 +281,49 @@ class ConfigService {
       from: this._config.EMAIL_FROM,
     };
   }
+
+  get passwordResetConfig() {
+    return {
+      url: this._config.PASSWORD_RESET_URL,
+      rateLimitMax: this._config.PASSWORD_RESET_RATE_LIMIT_MAX,
+      rateLimitWindow: this._config.PASSWORD_RESET_RATE_LIMIT_WINDOW,
+      maxRequestsPerEmail: this._config.PASSWORD_RESET_MAX_PER_EMAIL,
+    };
+  }
+
+  get emailVerificationConfig() {
+    return {
+      url: this._config.EMAIL_VERIFICATION_URL,
+      rateLimitMax: this._config.EMAIL_VERIFICATION_RATE_LIMIT_MAX,
+      rateLimitWindow: this._config.EMAIL_VERIFICATION_RATE_LIMIT_WINDOW,
+      maxRequestsPerEmail: this._config.EMAIL_VERIFICATION_MAX_PER_EMAIL,
+    };
+  }
+
+  get messagesServiceConfig() {
+    return {
+      baseUrl: this._config.MESSAGES_SERVICE_URL || '',
+      apiKey: this._config.INTERNAL_API_KEY || '',
+      timeoutMs: this._config.EXTERNAL_REQUEST_TIMEOUT,
+    };
+  }
+
+  get userImportConfig() {
+    return {
+      maxFileSize: this._config.USER_IMPORT_MAX_FILE_SIZE,
+      maxRows: this._config.USER_IMPORT_MAX_ROWS,
+      invitationExpiry: this._config.USER_INVITATION_EXPIRY,
+      invitationUrl: this._config.USER_INVITATION_URL,
+    };
+  }
+
+  get usersServiceConfig() {
+    return {
+      baseUrl: this._config.USERS_SERVICE_URL || '',
+      apiKey: this._config.INTERNAL_API_KEY || '',
+      timeoutMs: this._config.EXTERNAL_REQUEST_TIMEOUT,
+    };
+  }
 }
 
 export const configService = ConfigService.getInstance();
@@ -270,6 +339,11 @@ export const config = {
   argon2Config: configService.argon2Config,
   securityConfig: configService.securityConfig,
   emailConfig: configService.emailConfig,
+  passwordResetConfig: configService.passwordResetConfig,
+  emailVerificationConfig: configService.emailVerificationConfig,
+  messagesServiceConfig: configService.messagesServiceConfig,
+  usersServiceConfig: configService.usersServiceConfig,
+  userImportConfig: configService.userImportConfig,
   
   // Additional properties for compatibility
   TRUST_PROXY: true,
@@ -0,0 +1,146 @@
+import { createSuccessResponse } from '@/middlewares/error-handler';
+import { ApiKeyService } from '@/services/api-key.service';
+import type {
+    ApiKeyListQuery,
+    CreateApiKeyRequest,
+    UpdateApiKeyRequest,
+} from '@/types/auth';
+import {
+    CreateApiKeySchema,
+    UpdateApiKeySchema,
+    VerifyApiKeySchema,
+} from '@/types/auth';
+import { getRequestContext } from '@/utils/request-context';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  /**
+   * List API keys
+   * GET /api/v1/api-keys
+   */
+  async listApiKeys(
+    request: FastifyRequest<{ Querystring: ApiKeyListQuery }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const { page = 1, limit = 20, isActive, sortBy, sortOrder = 'desc' } = request.query;
+
+    const result = await this.apiKeyService.findMany(
+      { page, limit, sortBy, sortOrder },
+      { isActive }
+    );
+
+    return reply.code(200).send(
+      createSuccessResponse(result.data, context.requestId, {
+        pagination: result.pagination,
+      })
+    );
+  }
+
+  /**
+   * Get API key by ID
+   * GET /api/v1/api-keys/:keyId
+   */
+  async getApiKey(
+    request: FastifyRequest<{ Params: { keyId: string } }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+
+    const apiKey = await this.apiKeyService.findById(request.params.keyId);
+
+    return reply.code(200).send(
+      createSuccessResponse(apiKey, context.requestId)
+    );
+  }
+
+  /**
+   * Create API key (the secret is only shown in this response)
+   * POST /api/v1/api-keys
+   */
+  async createApiKey(
+    request: FastifyRequest<{ Body: CreateApiKeyRequest }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const data = CreateApiKeySchema.parse(request.body);
+
+    const apiKey = await this.apiKeyService.create(data, request.user.id, context);
+
+    return reply.code(201).send(
+      createSuccessResponse(apiKey, context.requestId)
+    );
+  }
+
+  /**
+   * Update API key
+   * PATCH /api/v1/api-keys/:keyId
+   */
+  async updateApiKey(
+    request: FastifyRequest<{ Params: { keyId: string }; Body: UpdateApiKeyRequest }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const data = UpdateApiKeySchema.parse(request.body);
+
+    const apiKey = await this.apiKeyService.update(request.params.keyId, data, request.user.id, context);
+
+    return reply.code(200).send(
+      createSuccessResponse(apiKey, context.requestId)
+    );
+  }
+
+  /**
+   * Rotate API key secret (the new secret is only shown in this response)
+   * POST /api/v1/api-keys/:keyId/rotate
+   */
+  async rotateApiKey(
+    request: FastifyRequest<{ Params: { keyId: string } }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+
+    const apiKey = await this.apiKeyService.rotate(request.params.keyId, request.user.id, context);
+
+    return reply.code(200).send(
+      createSuccessResponse(apiKey, context.requestId)
+    );
+  }
+
+  /**
+   * Revoke API key
+   * DELETE /api/v1/api-keys/:keyId
+   */
+  async revokeApiKey(
+    request: FastifyRequest<{ Params: { keyId: string } }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+
+    await this.apiKeyService.revoke(request.params.keyId, request.user.id, context);
+
+    return reply.code(200).send(
+      createSuccessResponse({ message: 'API key revoked successfully' }, context.requestId)
+    );
+  }
+
+  /**
+   * Verify API key on behalf of the api-gateway
+   * POST /internal/v1/api-keys/verify
+   */
+  async verifyApiKey(
+    request: FastifyRequest<{ Body: { key: string } }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const { key } = VerifyApiKeySchema.parse(request.body);
+
+    const principal = await this.apiKeyService.verify(key);
+
+    return reply.code(200).send(
+      createSuccessResponse(principal, context.requestId)
+    );
+  }
+}
@@ -2,15 +2,23 @@ import { createSuccessResponse } from '@/middlewares/error-handler';
 import { AuthService } from '@/services/auth.service';
 import type {
   ChangePasswordRequest,
+  ForgotPasswordRequest,
   LoginRequest,
   RefreshTokenRequest,
-  RegisterRequest
+  RegisterRequest,
+  ResendVerificationRequest,
+  ResetPasswordRequest,
+  VerifyEmailRequest
 } from '@/types/auth';
 import {
   changePasswordSchema,
+  ForgotPasswordSchema,
   loginSchema,
   refreshTokenSchema,
-  RegisterSchema
+  RegisterSchema,
+  ResendVerificationSchema,
+  ResetPasswordSchema,
+  VerifyEmailSchema
 } from '@/types/auth';
 import { getRequestContext } from '@/utils/request-context';
 import type { FastifyReply, FastifyRequest } from 'fastify';
@@ -140,6 +148,104 @@ export class AuthController {
     );
   }
 
+  /**
+   * Request password reset email
+   * POST /api/v1/auth/forgot-password
+   */
+  async forgotPassword(
+    request: FastifyRequest<{ Body: ForgotPasswordRequest }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const data = ForgotPasswordSchema.parse(request.body);
+
+    await this.authService.requestPasswordReset(data, context);
+
+    // Same response whether or not the email belongs to an account
+    return reply.code(200).send(
+      createSuccessResponse(
+        { message: 'If an account exists for this email, a password reset link has been sent' },
+        context.requestId
+      )
+    );
+  }
+
+  /**
+   * Reset password with emailed token
+   * POST /api/v1/auth/reset-password
+   */
+  async resetPassword(
+    request: FastifyRequest<{ Body: ResetPasswordRequest }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const data = ResetPasswordSchema.parse(request.body);
+
+    await this.authService.resetPassword(data, context);
+
+    return reply.code(200).send(
+      createSuccessResponse({ message: 'Password reset successfully' }, context.requestId)
+    );
+  }
+
+  /**
+   * Verify email from the emailed link
+   * GET /api/v1/auth/verify-email?token=...
+   */
+  async verifyEmailFromLink(
+    request: FastifyRequest<{ Querystring: VerifyEmailRequest }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const data = VerifyEmailSchema.parse(request.query);
+
+    await this.authService.verifyEmail(data, context);
+
+    return reply.code(200).send(
+      createSuccessResponse({ message: 'Email verified successfully' }, context.requestId)
+    );
+  }
+
+  /**
+   * Verify email with emailed token
+   * POST /api/v1/auth/verify-email
+   */
+  async verifyEmail(
+    request: FastifyRequest<{ Body: VerifyEmailRequest }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const data = VerifyEmailSchema.parse(request.body);
+
+    await this.authService.verifyEmail(data, context);
+
+    return reply.code(200).send(
+      createSuccessResponse({ message: 'Email verified successfully' }, context.requestId)
+    );
+  }
+
+  /**
+   * Resend verification email
+   * POST /api/v1/auth/resend-verification
+   */
+  async resendVerification(
+    request: FastifyRequest<{ Body: ResendVerificationRequest }>,
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const data = ResendVerificationSchema.parse(request.body);
+
+    await this.authService.resendEmailVerification(data, context);
+
+    // Same response whether or not the email belongs to an unverified account
+    return reply.code(200).send(
+      createSuccessResponse(
+        { message: 'If this email needs verification, a new link has been sent' },
+        context.requestId
+      )
+    );
+  }
+
   /**
    * Enable two-factor authentication
    * POST /api/v1/auth/2fa/enable
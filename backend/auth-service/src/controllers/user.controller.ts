@@ -1,10 +1,23 @@
 import { createSuccessResponse } from '@/middlewares/error-handler';
 import { UserService } from '@/services/user.service';
+import {
+    BulkImportUsersSchema,
+    CommunicationListQuerySchema,
+    SendCommunicationSchema,
+    UserImportJobListQuerySchema,
+    UserImportOptionsSchema,
+} from '@/types/auth';
 import type {
+    BulkImportUsersRequest,
+    CommunicationListQuery,
     CreateUserRequest,
+    SendCommunicationRequest,
     UpdateUserRequest,
+    UserImportJobListQuery,
+    UserImportRowStatus,
     UserListQuery,
 } from '@/types/auth';
+import { ValidationError } from '@/types/common';
 import { getRequestContext } from '@/utils/request-context';
 import type { FastifyReply, FastifyRequest } from 'fastify';
 
@@ -261,29 +274,14 @@ export class UserController {
    * POST /api/v1/users/communication/send
    */
   async sendCommunication(
-    request: FastifyRequest<{ 
-      Body: { 
-        type: 'email' | 'notification' | 'bulk_email'; 
-        subject: string; 
-        message: string; 
-        userIds: string[]; 
-        template?: string 
-      } 
-    }>, 
+    request: FastifyRequest<{ Body: SendCommunicationRequest }>, 
     reply: FastifyReply
   ) {
     const context = getRequestContext(request)!;
-    const { type, subject, message, userIds, template } = request.body;
+    const data = SendCommunicationSchema.parse(request.body);
     const sentBy = request.user?.id!;
     
-    const result = await this.userService.sendCommunication({
-      type,
-      subject,
-      message,
-      userIds,
-      template,
-      sentBy
-    }, context);
+    const result = await this.userService.sendCommunication({ ...data, sentBy }, context);
     
     return reply.code(200).send(
       createSuccessResponse(result, context.requestId)
@@ -291,36 +289,186 @@ export class UserController {
   }
 
   /**
-   * Bulk import users (admin only)
+   * Get communication templates (admin only)
+   * GET /api/v1/users/communication/templates
+   */
+  async getCommunicationTemplates(request: FastifyRequest, reply: FastifyReply) {
+    const context = getRequestContext(request)!;
+    
+    const templates = this.userService.getCommunicationTemplates();
+    
+    return reply.code(200).send(
+      createSuccessResponse(templates, context.requestId)
+    );
+  }
+
+  /**
+   * Get communication history (admin only)
+   * GET /api/v1/users/communication/campaigns
+   */
+  async getCommunicationHistory(
+    request: FastifyRequest<{ Querystring: CommunicationListQuery }>, 
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const query = CommunicationListQuerySchema.parse(request.query);
+    
+    const result = await this.userService.getCommunicationHistory(query);
+    
+    return reply.code(200).send(
+      createSuccessResponse(result.data, context.requestId, {
+        pagination: result.pagination,
+      })
+    );
+  }
+
+  /**
+   * Get communication campaign with delivery status per recipient (admin only)
+   * GET /api/v1/users/communication/campaigns/:campaignId
+   */
+  async getCommunicationCampaign(
+    request: FastifyRequest<{ Params: { campaignId: string } }>, 
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    
+    const campaign = await this.userService.getCommunicationCampaign(request.params.campaignId);
+    
+    return reply.code(200).send(
+      createSuccessResponse(campaign, context.requestId)
+    );
+  }
+
+  /**
+   * Bulk import users from JSON (admin only)
    * POST /api/v1/users/bulk-import
    */
   async bulkImportUsers(
-    request: FastifyRequest<{ 
-      Body: { 
-        users: Array<{ 
-          email: string; 
-          firstName: string; 
-          lastName: string; 
-          phone?: string; 
-          role: string; 
-          isActive: boolean; 
-          isVerified: boolean 
-        }> 
-      } 
-    }>, 
+    request: FastifyRequest<{ Body: BulkImportUsersRequest }>, 
     reply: FastifyReply
   ) {
     const context = getRequestContext(request)!;
-    const { users } = request.body;
-    const importedBy = request.user?.id!;
+    const data = BulkImportUsersSchema.parse(request.body);
     
-    const result = await this.userService.bulkImportUsers(users, importedBy, context);
+    const result = await this.userService.bulkImportUsers(data, this.getImporter(request), context);
     
     return reply.code(200).send(
       createSuccessResponse(result, context.requestId)
     );
   }
 
+  /**
+   * Start bulk import from a CSV or XLSX upload (admin only)
+   * POST /api/v1/users/import-jobs
+   * Option fields must precede the file in the multipart body
+   */
+  async createUserImportJob(request: FastifyRequest, reply: FastifyReply) {
+    const context = getRequestContext(request)!;
+    
+    const file = await request.file();
+    if (!file) {
+      throw new ValidationError('File is required');
+    }
+    
+    const fields: Record<string, unknown> = {};
+    for (const [name, field] of Object.entries(file.fields)) {
+      if (field && !Array.isArray(field) && field.type === 'field') {
+        fields[name] = field.value;
+      }
+    }
+    const options = UserImportOptionsSchema.parse(fields);
+    const content = await file.toBuffer();
+    
+    const job = await this.userService.startUserImport(
+      { fileName: file.filename, content },
+      options,
+      this.getImporter(request),
+      context
+    );
+    
+    return reply.code(202).send(
+      createSuccessResponse(job, context.requestId)
+    );
+  }
+
+  /**
+   * Get bulk import jobs (admin only)
+   * GET /api/v1/users/import-jobs
+   */
+  async getUserImportJobs(
+    request: FastifyRequest<{ Querystring: UserImportJobListQuery }>, 
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    const query = UserImportJobListQuerySchema.parse(request.query);
+    
+    const result = await this.userService.getUserImportJobs(query);
+    
+    return reply.code(200).send(
+      createSuccessResponse(result.data, context.requestId, {
+        pagination: result.pagination,
+      })
+    );
+  }
+
+  /**
+   * Get bulk import job progress (admin only)
+   * GET /api/v1/users/import-jobs/:jobId
+   */
+  async getUserImportJob(
+    request: FastifyRequest<{ Params: { jobId: string } }>, 
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    
+    const job = await this.userService.getUserImportJob(request.params.jobId);
+    
+    return reply.code(200).send(
+      createSuccessResponse(job, context.requestId)
+    );
+  }
+
+  /**
+   * Get bulk import per-row results (admin only)
+   * GET /api/v1/users/import-jobs/:jobId/rows
+   */
+  async getUserImportRows(
+    request: FastifyRequest<{ Params: { jobId: string }; Querystring: { status?: UserImportRowStatus } }>, 
+    reply: FastifyReply
+  ) {
+    const context = getRequestContext(request)!;
+    
+    const rows = await this.userService.getUserImportRows(request.params.jobId, request.query.status);
+    
+    return reply.code(200).send(
+      createSuccessResponse(rows, context.requestId)
+    );
+  }
+
+  /**
+   * Download bulk import report as CSV (admin only)
+   * GET /api/v1/users/import-jobs/:jobId/report
+   */
+  async downloadUserImportReport(
+    request: FastifyRequest<{ Params: { jobId: string } }>, 
+    reply: FastifyReply
+  ) {
+    const report = await this.userService.getUserImportReport(request.params.jobId);
+    
+    return reply
+      .code(200)
+      .header('Content-Type', 'text/csv; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${report.fileName.replace(/"/g, '')}"`)
+      .send(report.content);
+  }
+
+  private getImporter(request: FastifyRequest) {
+    return {
+      id: request.user?.id!,
+      role: request.user?.role ?? '',
+    };
+  }
+
   /**
    * Get user audit logs (admin only)
    * GET /api/v1/users/:userId/audit
@@ -0,0 +1,28 @@
+import { EmailMessage, EmailSender, EmailSenderConfig } from '@/interfaces/email-sender.interface';
+
+/**
+ * Implementação da interface EmailSender usando a rota interna do messages-service
+ */
+export class HttpEmailSender implements EmailSender {
+  constructor(private config: EmailSenderConfig) {}
+
+  async send(email: EmailMessage): Promise<void> {
+    if (!this.config.baseUrl || !this.config.apiKey) {
+      throw new Error('MESSAGES_SERVICE_URL and INTERNAL_API_KEY must be configured to send emails');
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/internal/v1/emails`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey,
+      },
+      body: JSON.stringify(email),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Messages service responded with ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  DirectoryProfile,
+  NotificationBatch,
+  NotificationDeliveryResult,
+  UserDirectory,
+  UserDirectoryConfig,
+} from '@/interfaces/user-directory.interface';
+
+/**
+ * Implementação da interface UserDirectory usando as rotas internas do user-service
+ */
+export class HttpUserDirectory implements UserDirectory {
+  constructor(private config: UserDirectoryConfig) {}
+
+  async findProfiles(ids: string[]): Promise<DirectoryProfile[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return this.post<DirectoryProfile[]>('/internal/v1/users/lookup', { ids });
+  }
+
+  async createNotifications(notification: NotificationBatch): Promise<NotificationDeliveryResult[]> {
+    return this.post<NotificationDeliveryResult[]>('/internal/v1/notifications', notification);
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    if (!this.config.baseUrl || !this.config.apiKey) {
+      throw new Error('USERS_SERVICE_URL and INTERNAL_API_KEY must be configured to reach the users service');
+    }
+
+    const response = await fetch(`${this.config.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Internal-API-Key': this.config.apiKey,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Users service responded with ${response.status}`);
+    }
+
+    const result = await response.json() as { data: T };
+    return result.data;
+  }
+}
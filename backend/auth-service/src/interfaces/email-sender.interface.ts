@@ -0,0 +1,29 @@
+/**
+ * Interface para envio de emails transacionais
+ * Permite trocar o transporte (messages-service, SMTP, etc.) sem afetar o código de negócio
+ */
+export interface EmailSender {
+  /**
+   * Envia um email
+   */
+  send(email: EmailMessage): Promise<void>;
+}
+
+/**
+ * Interface para mensagem de email
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+/**
+ * Interface para configuração do EmailSender
+ */
+export interface EmailSenderConfig {
+  baseUrl: string;
+  apiKey: string;
+  timeoutMs: number;
+}
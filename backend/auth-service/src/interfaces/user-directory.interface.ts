@@ -0,0 +1,61 @@
+/**
+ * Interface para o user-service (perfis e notificações na aplicação)
+ * Os IDs dos perfis nem sempre coincidem com os utilizadores do auth-service
+ */
+export interface UserDirectory {
+  /**
+   * Obtém perfis pelo ID (os IDs desconhecidos são ignorados)
+   */
+  findProfiles(ids: string[]): Promise<DirectoryProfile[]>;
+
+  /**
+   * Cria uma notificação por destinatário e devolve o estado de cada um
+   */
+  createNotifications(notification: NotificationBatch): Promise<NotificationDeliveryResult[]>;
+}
+
+/**
+ * Interface para perfil do user-service
+ */
+export interface DirectoryProfile {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+  allowMarketing: boolean;
+  allowNotifications: boolean;
+}
+
+/**
+ * Interface para lote de notificações (mensagem já personalizada por destinatário)
+ */
+export interface NotificationBatch {
+  type: 'SYSTEM_ANNOUNCEMENT' | 'MARKET_UPDATE' | 'REMINDER' | 'WELCOME';
+  title: string;
+  data?: Record<string, any>;
+  recipients: Array<{
+    userId: string;
+    email?: string;
+    message: string;
+  }>;
+}
+
+/**
+ * Interface para estado de entrega de uma notificação
+ */
+export interface NotificationDeliveryResult {
+  userId: string;
+  status: 'sent' | 'failed' | 'skipped';
+  notificationId?: string;
+  error?: string;
+}
+
+/**
+ * Interface para configuração do UserDirectory
+ */
+export interface UserDirectoryConfig {
+  baseUrl: string;
+  apiKey: string;
+  timeoutMs: number;
+}
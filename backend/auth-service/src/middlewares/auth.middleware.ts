@@ -1,3 +1,4 @@
+import { ApiKeyService } from '@/services/api-key.service';
 import type { Permission } from '@/types/common';
 import { ForbiddenError, UnauthorizedError } from '@/types/common';
 import { logger } from '@/utils/logger';
@@ -200,94 +201,47 @@ export async function optionalAuthenticate(request: FastifyRequest, reply: Fasti
 
 /**
  * API Key authentication middleware
- * Verifies API key from header
+ * Verifies API key from header; scopes are mapped to permissions by ApiKeyService
  */
 export async function authenticateApiKey(request: FastifyRequest, reply: FastifyReply) {
-  const apiKey = request.headers['x-api-key'] as string;
+  const apiKey = request.headers['x-api-key'];
   
-  if (!apiKey) {
+  if (typeof apiKey !== 'string' || !apiKey) {
     throw new UnauthorizedError('API key required');
   }
 
   try {
-    // Get Prisma instance from Fastify
-    const prisma = (request.server as any).prisma;
-    
-    // Hash the provided API key
-    const crypto = await import('crypto');
-    const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-    
-    // Look up the key in the database
-    const apiKeyRecord = await prisma.apiKey.findUnique({
-      where: { keyHash },
-      include: {
-        // Include any related data if needed
-      }
-    });
-
-    if (!apiKeyRecord) {
-      logger.warn({
-        requestId: request.requestContext?.requestId,
-        keyPreview: apiKey.substring(0, 8) + '...',
-        ipAddress: request.ip,
-      }, 'Invalid API key provided');
-
-      throw new UnauthorizedError('Invalid API key');
-    }
-
-    // Verify it's active and not expired
-    if (!apiKeyRecord.isActive) {
-      logger.warn({
-        requestId: request.requestContext?.requestId,
-        keyId: apiKeyRecord.id,
-        ipAddress: request.ip,
-      }, 'Inactive API key used');
-
-      throw new UnauthorizedError('API key is inactive');
-    }
-
-    if (apiKeyRecord.expiresAt && apiKeyRecord.expiresAt < new Date()) {
-      logger.warn({
-        requestId: request.requestContext?.requestId,
-        keyId: apiKeyRecord.id,
-        expiresAt: apiKeyRecord.expiresAt,
-        ipAddress: request.ip,
-      }, 'Expired API key used');
-
-      throw new UnauthorizedError('API key has expired');
-    }
-
-    // Update usage tracking
-    await prisma.apiKey.update({
-      where: { id: apiKeyRecord.id },
-      data: {
-        lastUsedAt: new Date(),
-        usageCount: { increment: 1 }
-      }
-    });
+    const apiKeyService = new ApiKeyService(request.server.prisma);
+    const principal = await apiKeyService.verify(apiKey);
 
     // Set permissions based on the API key's scope
     request.user = {
-      id: `api-key-${apiKeyRecord.id}`,
-      email: `api-key-${apiKeyRecord.name}`,
+      id: `api-key-${principal.id}`,
+      email: `api-key-${principal.name}`,
       role: 'api_key',
-      permissions: apiKeyRecord.permissions,
-      scopes: apiKeyRecord.scopes,
-      apiKeyId: apiKeyRecord.id,
+      permissions: principal.permissions,
+      scopes: principal.scopes,
+      apiKeyId: principal.id,
     };
 
     // Update request context
-    updateRequestContextWithUser(request, `api-key-${apiKeyRecord.id}`, 'api_key');
+    updateRequestContextWithUser(request, `api-key-${principal.id}`, 'api_key');
 
     logger.debug({
       requestId: request.requestContext?.requestId,
-      keyId: apiKeyRecord.id,
-      permissions: apiKeyRecord.permissions,
-      scopes: apiKeyRecord.scopes,
+      keyId: principal.id,
+      permissions: principal.permissions,
+      scopes: principal.scopes,
     }, 'API key authentication successful');
 
   } catch (error) {
     if (error instanceof UnauthorizedError) {
+      logger.warn({
+        requestId: request.requestContext?.requestId,
+        error: error.message,
+        ipAddress: request.ip,
+      }, 'API key rejected');
+
       throw error;
     }
 
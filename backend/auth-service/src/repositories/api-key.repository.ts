@@ -0,0 +1,189 @@
+import type { PaginatedResponse, Pagination } from '@/types/common';
+import { PrismaClient } from '@prisma/client';
+import { ApiKey } from '@/types/auth';
+
+/**
+ * Public projection of an API key (never exposes the hash)
+ */
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  keyPreview: true,
+  permissions: true,
+  scopes: true,
+  lastUsedAt: true,
+  usageCount: true,
+  isActive: true,
+  expiresAt: true,
+  rateLimit: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: true,
+} as const;
+
+type ApiKeyRecord = {
+  id: string;
+  name: string;
+  keyPreview: string;
+  permissions: string[];
+  scopes: string[];
+  lastUsedAt: Date | null;
+  usageCount: number;
+  isActive: boolean;
+  expiresAt: Date | null;
+  rateLimit: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string | null;
+};
+
+function toApiKey(record: ApiKeyRecord): ApiKey {
+  return {
+    ...record,
+    lastUsedAt: record.lastUsedAt ?? undefined,
+    expiresAt: record.expiresAt ?? undefined,
+    rateLimit: record.rateLimit ?? undefined,
+    createdBy: record.createdBy ?? undefined,
+  };
+}
+
+/**
+ * API Key Repository
+ */
+export class ApiKeyRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Find API key by ID
+   */
+  async findById(id: string): Promise<ApiKey | null> {
+    const record = await this.prisma.apiKey.findUnique({
+      where: { id },
+      select: API_KEY_SELECT,
+    });
+
+    return record ? toApiKey(record) : null;
+  }
+
+  /**
+   * Find API key by key hash
+   */
+  async findByKeyHash(keyHash: string): Promise<ApiKey | null> {
+    const record = await this.prisma.apiKey.findUnique({
+      where: { keyHash },
+      select: API_KEY_SELECT,
+    });
+
+    return record ? toApiKey(record) : null;
+  }
+
+  /**
+   * Find API key by name
+   */
+  async findByName(name: string): Promise<ApiKey | null> {
+    const record = await this.prisma.apiKey.findFirst({
+      where: { name },
+      select: API_KEY_SELECT,
+    });
+
+    return record ? toApiKey(record) : null;
+  }
+
+  /**
+   * Create API key (key must already be hashed)
+   */
+  async create(data: {
+    name: string;
+    keyHash: string;
+    keyPreview: string;
+    permissions: string[];
+    scopes: string[];
+    expiresAt?: Date;
+    rateLimit?: number;
+    createdBy?: string;
+  }): Promise<ApiKey> {
+    const record = await this.prisma.apiKey.create({
+      data,
+      select: API_KEY_SELECT,
+    });
+
+    return toApiKey(record);
+  }
+
+  /**
+   * Update API key
+   */
+  async update(id: string, data: Partial<{
+    name: string;
+    keyHash: string;
+    keyPreview: string;
+    permissions: string[];
+    scopes: string[];
+    isActive: boolean;
+    expiresAt: Date | null;
+    rateLimit: number | null;
+  }>): Promise<ApiKey> {
+    const record = await this.prisma.apiKey.update({
+      where: { id },
+      data,
+      select: API_KEY_SELECT,
+    });
+
+    return toApiKey(record);
+  }
+
+  /**
+   * Record a successful use of an API key
+   */
+  async recordUsage(id: string): Promise<void> {
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: {
+        lastUsedAt: new Date(),
+        usageCount: { increment: 1 },
+      },
+    });
+  }
+
+  /**
+   * Get paginated API keys list
+   */
+  async findMany(
+    pagination: Pagination,
+    filters?: {
+      isActive?: boolean;
+    }
+  ): Promise<PaginatedResponse<ApiKey>> {
+    const { page, limit, sortBy = 'createdAt', sortOrder = 'desc' } = pagination;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (filters?.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    const [total, records] = await Promise.all([
+      this.prisma.apiKey.count({ where }),
+      this.prisma.apiKey.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { [sortBy]: sortOrder },
+        select: API_KEY_SELECT,
+      }),
+    ]);
+
+    return {
+      data: records.map(toApiKey),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import type { PaginatedResponse } from '@/types/common';
+import { PrismaClient } from '@prisma/client';
+import {
+    CommunicationCampaign,
+    CommunicationRecipient,
+    CommunicationRecipientStatus,
+    CommunicationStatus,
+    CommunicationType,
+} from '@/types/auth';
+
+/**
+ * Communication Repository (campaign history and per-recipient delivery status)
+ */
+export class CommunicationRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create campaign together with its recipients
+   */
+  async createCampaign(data: {
+    type: CommunicationType;
+    template?: string;
+    subject: string;
+    message: string;
+    sentBy: string;
+    recipients: Array<{
+      userId: string;
+      email?: string;
+      status: CommunicationRecipientStatus;
+      error?: string;
+    }>;
+  }): Promise<CommunicationCampaign & { recipients: CommunicationRecipient[] }> {
+    return this.prisma.communicationCampaign.create({
+      data: {
+        type: data.type,
+        template: data.template,
+        subject: data.subject,
+        message: data.message,
+        sentBy: data.sentBy,
+        recipientCount: data.recipients.length,
+        recipients: {
+          create: data.recipients,
+        },
+      },
+      include: { recipients: true },
+    });
+  }
+
+  /**
+   * Record the delivery outcome of a recipient
+   */
+  async updateRecipient(
+    id: string,
+    status: CommunicationRecipientStatus,
+    error?: string
+  ): Promise<void> {
+    await this.prisma.communicationRecipient.update({
+      where: { id },
+      data: {
+        status,
+        error: error ?? null,
+        sentAt: status === 'sent' ? new Date() : null,
+      },
+    });
+  }
+
+  /**
+   * Recompute campaign counters from its recipients and close it
+   */
+  async completeCampaign(id: string): Promise<CommunicationCampaign> {
+    const groups = await this.prisma.communicationRecipient.groupBy({
+      by: ['status'],
+      where: { campaignId: id },
+      _count: { _all: true },
+    });
+    const counts = new Map(groups.map(group => [group.status, group._count._all]));
+
+    const sentCount = counts.get('sent') ?? 0;
+    const failedCount = (counts.get('failed') ?? 0) + (counts.get('pending') ?? 0);
+    const skippedCount = counts.get('skipped') ?? 0;
+
+    let status: CommunicationStatus = 'completed';
+    if (sentCount === 0 && failedCount > 0) {
+      status = 'failed';
+    } else if (failedCount > 0) {
+      status = 'partial';
+    }
+
+    return this.prisma.communicationCampaign.update({
+      where: { id },
+      data: {
+        status,
+        sentCount,
+        failedCount,
+        skippedCount,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Find campaign with its recipients
+   */
+  async findById(id: string): Promise<(CommunicationCampaign & { recipients: CommunicationRecipient[] }) | null> {
+    return this.prisma.communicationCampaign.findUnique({
+      where: { id },
+      include: {
+        recipients: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+  }
+
+  /**
+   * Get paginated campaign history, most recent first
+   */
+  async findMany(
+    pagination: { page: number; limit: number },
+    filters?: {
+      type?: CommunicationType;
+    }
+  ): Promise<PaginatedResponse<CommunicationCampaign>> {
+    const { page, limit } = pagination;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (filters?.type) {
+      where.type = filters.type;
+    }
+
+    const [total, campaigns] = await Promise.all([
+      this.prisma.communicationCampaign.count({ where }),
+      this.prisma.communicationCampaign.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      data: campaigns,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
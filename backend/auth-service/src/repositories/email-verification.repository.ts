@@ -0,0 +1,94 @@
+import { PrismaClient } from '@prisma/client';
+import { EmailVerification } from '@/types/auth';
+
+/**
+ * Email Verification Repository
+ */
+export class EmailVerificationRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create email verification (token must already be hashed)
+   */
+  async create(data: {
+    email: string;
+    token: string;
+    expiresAt: Date;
+  }): Promise<EmailVerification> {
+    return this.prisma.emailVerification.create({
+      data: {
+        email: data.email.toLowerCase(),
+        token: data.token,
+        expiresAt: data.expiresAt,
+      },
+    });
+  }
+
+  /**
+   * Find email verification by token hash
+   */
+  async findByToken(token: string): Promise<EmailVerification | null> {
+    return this.prisma.emailVerification.findUnique({
+      where: { token },
+    });
+  }
+
+  /**
+   * Count verifications issued for an email since a given date
+   */
+  async countRecentByEmail(email: string, since: Date): Promise<number> {
+    return this.prisma.emailVerification.count({
+      where: {
+        email: email.toLowerCase(),
+        createdAt: { gte: since },
+      },
+    });
+  }
+
+  /**
+   * Mark a verification as used
+   * Returns false when it was already used (concurrent requests with the same token)
+   */
+  async markUsed(id: string): Promise<boolean> {
+    const result = await this.prisma.emailVerification.updateMany({
+      where: { id, isUsed: false },
+      data: {
+        isUsed: true,
+        usedAt: new Date(),
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Invalidate all pending verifications for an email
+   */
+  async invalidateAllForEmail(email: string): Promise<number> {
+    const result = await this.prisma.emailVerification.updateMany({
+      where: {
+        email: email.toLowerCase(),
+        isUsed: false,
+      },
+      data: {
+        isUsed: true,
+        usedAt: new Date(),
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Delete expired verifications
+   */
+  async deleteExpired(): Promise<number> {
+    const result = await this.prisma.emailVerification.deleteMany({
+      where: {
+        expiresAt: { lt: new Date() },
+      },
+    });
+
+    return result.count;
+  }
+}
@@ -0,0 +1,156 @@
+import { PrismaClient } from '@prisma/client';
+import { PasswordHistoryEntry, PasswordReset } from '@/types/auth';
+
+/**
+ * Password Reset Repository
+ */
+export class PasswordResetRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create password reset request (token must already be hashed)
+   */
+  async create(data: {
+    email: string;
+    token: string;
+    expiresAt: Date;
+    ipAddress?: string;
+    userAgent?: string;
+  }): Promise<PasswordReset> {
+    return this.prisma.passwordReset.create({
+      data: {
+        email: data.email.toLowerCase(),
+        token: data.token,
+        expiresAt: data.expiresAt,
+        ipAddress: data.ipAddress,
+        userAgent: data.userAgent,
+      },
+    });
+  }
+
+  /**
+   * Find password reset by token hash
+   */
+  async findByToken(token: string): Promise<PasswordReset | null> {
+    return this.prisma.passwordReset.findUnique({
+      where: { token },
+    });
+  }
+
+  /**
+   * Count reset requests for an email since a given date
+   */
+  async countRecentByEmail(email: string, since: Date): Promise<number> {
+    return this.prisma.passwordReset.count({
+      where: {
+        email: email.toLowerCase(),
+        createdAt: { gte: since },
+      },
+    });
+  }
+
+  /**
+   * Mark a reset as used
+   * Returns false when it was already used (concurrent requests with the same token)
+   */
+  async markUsed(id: string): Promise<boolean> {
+    const result = await this.prisma.passwordReset.updateMany({
+      where: { id, isUsed: false },
+      data: {
+        isUsed: true,
+        usedAt: new Date(),
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Invalidate all pending resets for an email
+   */
+  async invalidateAllForEmail(email: string): Promise<number> {
+    const result = await this.prisma.passwordReset.updateMany({
+      where: {
+        email: email.toLowerCase(),
+        isUsed: false,
+      },
+      data: {
+        isUsed: true,
+        usedAt: new Date(),
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Delete expired resets
+   */
+  async deleteExpired(): Promise<number> {
+    const result = await this.prisma.passwordReset.deleteMany({
+      where: {
+        expiresAt: { lt: new Date() },
+      },
+    });
+
+    return result.count;
+  }
+}
+
+/**
+ * Password History Repository
+ */
+export class PasswordHistoryRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Get the most recent previous passwords for user
+   */
+  async findRecent(userId: string, limit: number): Promise<PasswordHistoryEntry[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    return this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Store a previous password hash
+   */
+  async create(userId: string, hashedPassword: string): Promise<PasswordHistoryEntry> {
+    return this.prisma.passwordHistory.create({
+      data: {
+        userId,
+        password: hashedPassword,
+      },
+    });
+  }
+
+  /**
+   * Keep only the most recent entries for user
+   */
+  async prune(userId: string, keep: number): Promise<number> {
+    const stale = await this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: Math.max(keep, 0),
+      select: { id: true },
+    });
+
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.passwordHistory.deleteMany({
+      where: {
+        id: { in: stale.map((entry) => entry.id) },
+      },
+    });
+
+    return result.count;
+  }
+}
@@ -0,0 +1,212 @@
+import type { PaginatedResponse } from '@/types/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+    UserImportJob,
+    UserImportJobStatus,
+    UserImportRow,
+    UserImportRowAction,
+    UserImportRowStatus,
+} from '@/types/auth';
+
+export interface UserImportCounts {
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  invitedCount: number;
+}
+
+/**
+ * User Import Repository (import jobs and per-row results)
+ */
+export class UserImportRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create job together with its parsed rows
+   */
+  async createJob(data: {
+    fileName: string;
+    fileType: string;
+    dryRun: boolean;
+    upsert: boolean;
+    sendInvitations: boolean;
+    defaultRole?: string;
+    roleMapping?: Record<string, string>;
+    createdBy: string;
+    rows: Array<{
+      rowNumber: number;
+      email?: string;
+      data: Record<string, unknown>;
+    }>;
+  }): Promise<UserImportJob> {
+    return this.prisma.$transaction(async (tx) => {
+      const job = await tx.userImportJob.create({
+        data: {
+          fileName: data.fileName,
+          fileType: data.fileType,
+          dryRun: data.dryRun,
+          upsert: data.upsert,
+          sendInvitations: data.sendInvitations,
+          defaultRole: data.defaultRole,
+          roleMapping: data.roleMapping,
+          createdBy: data.createdBy,
+          totalRows: data.rows.length,
+        },
+      });
+
+      await tx.userImportRow.createMany({
+        data: data.rows.map(row => ({
+          jobId: job.id,
+          rowNumber: row.rowNumber,
+          email: row.email,
+          data: row.data as Prisma.InputJsonValue,
+        })),
+      });
+
+      return job;
+    });
+  }
+
+  /**
+   * Find job by ID
+   */
+  async findById(id: string): Promise<UserImportJob | null> {
+    return this.prisma.userImportJob.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Get paginated jobs, most recent first
+   */
+  async findMany(
+    pagination: { page: number; limit: number },
+    filters?: {
+      status?: UserImportJobStatus;
+    }
+  ): Promise<PaginatedResponse<UserImportJob>> {
+    const { page, limit } = pagination;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (filters?.status) {
+      where.status = filters.status;
+    }
+
+    const [total, jobs] = await Promise.all([
+      this.prisma.userImportJob.count({ where }),
+      this.prisma.userImportJob.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      data: jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get job rows in file order
+   */
+  async findRows(jobId: string, status?: UserImportRowStatus): Promise<UserImportRow[]> {
+    return this.prisma.userImportRow.findMany({
+      where: {
+        jobId,
+        ...(status ? { status } : {}),
+      },
+      orderBy: { rowNumber: 'asc' },
+    });
+  }
+
+  /**
+   * Move a pending job to processing
+   * Returns false when another worker already claimed it
+   */
+  async markStarted(id: string): Promise<boolean> {
+    const result = await this.prisma.userImportJob.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'processing',
+        startedAt: new Date(),
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Record the outcome of a row
+   */
+  async updateRow(id: string, data: {
+    status: UserImportRowStatus;
+    action?: UserImportRowAction;
+    message?: string;
+    userId?: string;
+    invited?: boolean;
+  }): Promise<void> {
+    await this.prisma.userImportRow.update({
+      where: { id },
+      data: {
+        status: data.status,
+        action: data.action,
+        message: data.message,
+        userId: data.userId,
+        invited: data.invited ?? false,
+        processedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Store progress counters
+   */
+  async updateProgress(id: string, counts: UserImportCounts): Promise<void> {
+    await this.prisma.userImportJob.update({
+      where: { id },
+      data: counts,
+    });
+  }
+
+  /**
+   * Close job with its final counters
+   */
+  async completeJob(id: string, counts: UserImportCounts): Promise<UserImportJob> {
+    return this.prisma.userImportJob.update({
+      where: { id },
+      data: {
+        ...counts,
+        status: 'completed',
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Close job after an unexpected error
+   */
+  async failJob(id: string, error: string, counts?: UserImportCounts): Promise<void> {
+    await this.prisma.userImportJob.update({
+      where: { id },
+      data: {
+        ...counts,
+        status: 'failed',
+        error,
+        completedAt: new Date(),
+      },
+    });
+  }
+}
@@ -40,7 +40,7 @@ export class UserRepository {
   /**
    * Create new user
    */
-  async create(data: CreateUserRequest & { password: string }): Promise<User & { role: Role }> {
+  async create(data: CreateUserRequest & { password: string; isEmailVerified?: boolean }): Promise<User & { role: Role }> {
     return this.prisma.user.create({
       data: {
         email: data.email.toLowerCase(),
@@ -51,6 +51,8 @@ export class UserRepository {
         phone: data.phone,
         roleId: data.roleId,
         isActive: data.isActive,
+        isEmailVerified: data.isEmailVerified ?? false,
+        emailVerifiedAt: data.isEmailVerified ? new Date() : null,
       },
       include: { role: true },
     });
@@ -0,0 +1,267 @@
+import { ApiKeyController } from '@/controllers/api-key.controller';
+import { authenticate, authorize } from '@/middlewares/auth.middleware';
+import { ApiKeyService } from '@/services/api-key.service';
+import {
+    type ApiKeyListQuery,
+    type CreateApiKeyRequest,
+    type UpdateApiKeyRequest,
+} from '@/types/auth';
+import { PermissionEnum } from '@/types/common';
+import { PrismaClient } from '@prisma/client';
+import type { FastifyInstance } from 'fastify';
+
+const apiKeyProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  keyPreview: { type: 'string' },
+  permissions: { type: 'array', items: { type: 'string' } },
+  scopes: { type: 'array', items: { type: 'string' } },
+  lastUsedAt: { type: 'string', format: 'date-time' },
+  usageCount: { type: 'number' },
+  isActive: { type: 'boolean' },
+  expiresAt: { type: 'string', format: 'date-time' },
+  rateLimit: { type: 'number' },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+  createdBy: { type: 'string' },
+};
+
+// Response with the secret; it cannot be retrieved again afterwards
+const apiKeySecretResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        key: { type: 'string' },
+        keyPreview: { type: 'string' },
+        permissions: { type: 'array', items: { type: 'string' } },
+        scopes: { type: 'array', items: { type: 'string' } },
+        expiresAt: { type: 'string', format: 'date-time' },
+        rateLimit: { type: 'number' },
+        createdAt: { type: 'string', format: 'date-time' },
+      },
+    },
+    meta: { type: 'object' },
+  },
+};
+
+const keyIdParams = {
+  type: 'object',
+  required: ['keyId'],
+  properties: {
+    keyId: { type: 'string' },
+  },
+};
+
+export async function apiKeyRoutes(fastify: FastifyInstance) {
+  const prisma = fastify.prisma as PrismaClient;
+  const apiKeyService = new ApiKeyService(prisma);
+  const apiKeyController = new ApiKeyController(apiKeyService);
+
+  // All routes require authentication
+  fastify.addHook('onRequest', authenticate);
+
+  // List API keys
+  fastify.get<{ Querystring: ApiKeyListQuery }>('/', {
+    preHandler: authorize([PermissionEnum.API_KEYS_READ]),
+    schema: {
+      tags: ['API Keys'],
+      summary: 'List API keys',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          sortBy: { type: 'string', enum: ['createdAt', 'name', 'lastUsedAt', 'usageCount'] },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'] },
+          isActive: { type: 'boolean' },
+        },
+      },
+      response: {
+        200: {
+          description: 'API key list',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: { type: 'object', properties: apiKeyProperties },
+            },
+            meta: {
+              type: 'object',
+              properties: {
+                pagination: {
+                  type: 'object',
+                  properties: {
+                    page: { type: 'number' },
+                    limit: { type: 'number' },
+                    total: { type: 'number' },
+                    totalPages: { type: 'number' },
+                    hasNext: { type: 'boolean' },
+                    hasPrev: { type: 'boolean' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, apiKeyController.listApiKeys.bind(apiKeyController));
+
+  // Get API key
+  fastify.get<{ Params: { keyId: string } }>('/:keyId', {
+    preHandler: authorize([PermissionEnum.API_KEYS_READ]),
+    schema: {
+      tags: ['API Keys'],
+      summary: 'Get API key by ID',
+      security: [{ bearerAuth: [] }],
+      params: keyIdParams,
+      response: {
+        200: {
+          description: 'API key details',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object', properties: apiKeyProperties },
+            meta: { type: 'object' },
+          },
+        },
+        404: {
+          description: 'API key not found',
+          type: 'object',
+        },
+      },
+    },
+  }, apiKeyController.getApiKey.bind(apiKeyController));
+
+  // Create API key
+  fastify.post<{ Body: CreateApiKeyRequest }>('/', {
+    preHandler: authorize([PermissionEnum.API_KEYS_CREATE]),
+    schema: {
+      tags: ['API Keys'],
+      summary: 'Create API key',
+      description: 'The generated key is only returned in this response',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100 },
+          permissions: { type: 'array', items: { type: 'string' } },
+          scopes: { type: 'array', items: { type: 'string' } },
+          expiresAt: { type: 'string', format: 'date-time' },
+          rateLimit: { type: 'integer', minimum: 1 },
+        },
+      },
+      response: {
+        201: {
+          description: 'API key created',
+          ...apiKeySecretResponse,
+        },
+        409: {
+          description: 'API key name already exists',
+          type: 'object',
+        },
+      },
+    },
+  }, apiKeyController.createApiKey.bind(apiKeyController));
+
+  // Update API key
+  fastify.patch<{ Params: { keyId: string }; Body: UpdateApiKeyRequest }>('/:keyId', {
+    preHandler: authorize([PermissionEnum.API_KEYS_CREATE]),
+    schema: {
+      tags: ['API Keys'],
+      summary: 'Update API key',
+      security: [{ bearerAuth: [] }],
+      params: keyIdParams,
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100 },
+          permissions: { type: 'array', items: { type: 'string' } },
+          scopes: { type: 'array', items: { type: 'string' } },
+          expiresAt: { type: ['string', 'null'], format: 'date-time' },
+          rateLimit: { type: ['integer', 'null'], minimum: 1 },
+        },
+      },
+      response: {
+        200: {
+          description: 'API key updated',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object', properties: apiKeyProperties },
+            meta: { type: 'object' },
+          },
+        },
+        404: {
+          description: 'API key not found',
+          type: 'object',
+        },
+      },
+    },
+  }, apiKeyController.updateApiKey.bind(apiKeyController));
+
+  // Rotate API key secret
+  fastify.post<{ Params: { keyId: string } }>('/:keyId/rotate', {
+    preHandler: authorize([PermissionEnum.API_KEYS_CREATE]),
+    schema: {
+      tags: ['API Keys'],
+      summary: 'Rotate API key secret',
+      description: 'The previous key stops working immediately; the new key is only returned in this response',
+      security: [{ bearerAuth: [] }],
+      params: keyIdParams,
+      response: {
+        200: {
+          description: 'API key rotated',
+          ...apiKeySecretResponse,
+        },
+        404: {
+          description: 'API key not found',
+          type: 'object',
+        },
+        409: {
+          description: 'API key is revoked',
+          type: 'object',
+        },
+      },
+    },
+  }, apiKeyController.rotateApiKey.bind(apiKeyController));
+
+  // Revoke API key
+  fastify.delete<{ Params: { keyId: string } }>('/:keyId', {
+    preHandler: authorize([PermissionEnum.API_KEYS_REVOKE]),
+    schema: {
+      tags: ['API Keys'],
+      summary: 'Revoke API key',
+      security: [{ bearerAuth: [] }],
+      params: keyIdParams,
+      response: {
+        200: {
+          description: 'API key revoked',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+              },
+            },
+            meta: { type: 'object' },
+          },
+        },
+        404: {
+          description: 'API key not found',
+          type: 'object',
+        },
+      },
+    },
+  }, apiKeyController.revokeApiKey.bind(apiKeyController));
+}
@@ -1,11 +1,16 @@
+import { config } from '@/config';
 import { AuthController } from '@/controllers/auth.controller';
 import { authenticate } from '@/middlewares/auth.middleware';
 import { AuthService } from '@/services/auth.service';
 import {
   type ChangePasswordRequest,
+  type ForgotPasswordRequest,
   type LoginRequest,
   type RefreshTokenRequest,
-  type RegisterRequest
+  type RegisterRequest,
+  type ResendVerificationRequest,
+  type ResetPasswordRequest,
+  type VerifyEmailRequest
 } from '@/types/auth';
 import { PrismaClient } from '@prisma/client';
 import type { FastifyInstance } from 'fastify';
@@ -175,6 +180,184 @@ export async function authRoutes(fastify: FastifyInstance) {
     },
   }, authController.refreshToken.bind(authController));
 
+  const passwordResetRateLimit = {
+    rateLimit: {
+      max: config.passwordResetConfig.rateLimitMax,
+      timeWindow: config.passwordResetConfig.rateLimitWindow,
+    },
+  };
+
+  fastify.post<{ Body: ForgotPasswordRequest }>('/forgot-password', {
+    config: passwordResetRateLimit,
+    schema: {
+      tags: ['Authentication'],
+      summary: 'Request password reset email',
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Reset email sent if the account exists',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+              },
+            },
+            meta: { type: 'object' },
+          },
+        },
+        429: {
+          description: 'Too many requests',
+          type: 'object',
+        },
+      },
+    },
+  }, authController.forgotPassword.bind(authController));
+
+  fastify.post<{ Body: ResetPasswordRequest }>('/reset-password', {
+    config: passwordResetRateLimit,
+    schema: {
+      tags: ['Authentication'],
+      summary: 'Reset password with emailed token',
+      body: {
+        type: 'object',
+        required: ['token', 'password', 'confirmPassword'],
+        properties: {
+          token: { type: 'string', minLength: 1 },
+          password: { type: 'string', minLength: 8 },
+          confirmPassword: { type: 'string', minLength: 1 },
+        },
+      },
+      response: {
+        200: {
+          description: 'Password reset',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+              },
+            },
+            meta: { type: 'object' },
+          },
+        },
+        400: {
+          description: 'Invalid or expired token, or password policy not met',
+          type: 'object',
+        },
+        429: {
+          description: 'Too many requests',
+          type: 'object',
+        },
+      },
+    },
+  }, authController.resetPassword.bind(authController));
+
+  const emailVerificationRateLimit = {
+    rateLimit: {
+      max: config.emailVerificationConfig.rateLimitMax,
+      timeWindow: config.emailVerificationConfig.rateLimitWindow,
+    },
+  };
+
+  const verifyEmailResponse = {
+    200: {
+      description: 'Email verified',
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+          },
+        },
+        meta: { type: 'object' },
+      },
+    },
+    400: {
+      description: 'Invalid or expired token',
+      type: 'object',
+    },
+  };
+
+  fastify.get<{ Querystring: VerifyEmailRequest }>('/verify-email', {
+    config: emailVerificationRateLimit,
+    schema: {
+      tags: ['Authentication'],
+      summary: 'Verify email from the emailed link',
+      querystring: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', minLength: 1 },
+        },
+      },
+      response: verifyEmailResponse,
+    },
+  }, authController.verifyEmailFromLink.bind(authController));
+
+  fastify.post<{ Body: VerifyEmailRequest }>('/verify-email', {
+    config: emailVerificationRateLimit,
+    schema: {
+      tags: ['Authentication'],
+      summary: 'Verify email with emailed token',
+      body: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', minLength: 1 },
+        },
+      },
+      response: verifyEmailResponse,
+    },
+  }, authController.verifyEmail.bind(authController));
+
+  fastify.post<{ Body: ResendVerificationRequest }>('/resend-verification', {
+    config: emailVerificationRateLimit,
+    schema: {
+      tags: ['Authentication'],
+      summary: 'Resend verification email',
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Verification email sent if the account needs it',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+              },
+            },
+            meta: { type: 'object' },
+          },
+        },
+        429: {
+          description: 'Too many requests',
+          type: 'object',
+        },
+      },
+    },
+  }, authController.resendVerification.bind(authController));
+
   // Protected routes
   fastify.register(async function authenticatedRoutes(fastify) {
     fastify.addHook('onRequest', authenticate);
@@ -1,4 +1,6 @@
+export { apiKeyRoutes } from './api-key.routes';
 export { authRoutes } from './auth.routes';
+export { internalRoutes } from './internal.routes';
 export { roleRoutes } from './role.routes';
 export { sessionRoutes } from './session.routes';
 export { userRoutes } from './user.routes';
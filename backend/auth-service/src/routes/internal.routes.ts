@@ -0,0 +1,77 @@
+import { config } from '@/config';
+import { ApiKeyController } from '@/controllers/api-key.controller';
+import { ApiKeyService } from '@/services/api-key.service';
+import { ForbiddenError } from '@/types/common';
+import { timingSafeEqual } from '@/utils/crypto';
+import { PrismaClient } from '@prisma/client';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+
+// Internal routes fail closed when no key is configured
+function isInternalRequest(request: FastifyRequest): boolean {
+  const expected = config.INTERNAL_API_KEY;
+  const provided = request.headers['x-internal-api-key'];
+
+  if (!expected || typeof provided !== 'string') {
+    return false;
+  }
+
+  return timingSafeEqual(expected, provided);
+}
+
+/**
+ * Service-to-service routes (not exposed through the api-gateway)
+ */
+export async function internalRoutes(fastify: FastifyInstance) {
+  const prisma = fastify.prisma as PrismaClient;
+  const apiKeyController = new ApiKeyController(new ApiKeyService(prisma));
+
+  fastify.addHook('onRequest', async (request) => {
+    if (!isInternalRequest(request)) {
+      throw new ForbiddenError('Valid internal API key required');
+    }
+  });
+
+  // Verify partner API key (used by the api-gateway on X-API-Key requests)
+  fastify.post<{ Body: { key: string } }>('/api-keys/verify', {
+    schema: {
+      tags: ['Internal'],
+      summary: 'Verify API key',
+      body: {
+        type: 'object',
+        required: ['key'],
+        properties: {
+          key: { type: 'string', minLength: 1 },
+        },
+      },
+      response: {
+        200: {
+          description: 'API key is valid',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                permissions: { type: 'array', items: { type: 'string' } },
+                scopes: { type: 'array', items: { type: 'string' } },
+                rateLimit: { type: 'number' },
+                expiresAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            meta: { type: 'object' },
+          },
+        },
+        401: {
+          description: 'Invalid, revoked or expired API key',
+          type: 'object',
+        },
+        403: {
+          description: 'Missing or invalid internal API key',
+          type: 'object',
+        },
+      },
+    },
+  }, apiKeyController.verifyApiKey.bind(apiKeyController));
+}
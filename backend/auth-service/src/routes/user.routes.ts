@@ -2,8 +2,13 @@ import { UserController } from '@/controllers/user.controller';
 import { authenticate, requireRole } from '@/middlewares/auth.middleware';
 import { UserService } from '@/services/user.service';
 import {
+    type BulkImportUsersRequest,
+    type CommunicationListQuery,
     type CreateUserRequest,
+    type SendCommunicationRequest,
     type UpdateUserRequest,
+    type UserImportJobListQuery,
+    type UserImportRowStatus,
     type UserListQuery,
 } from '@/types/auth';
 import { PrismaClient } from '@prisma/client';
@@ -443,19 +448,20 @@ export async function userRoutes(fastify: FastifyInstance) {
     }, userController.verifyUserEmail.bind(userController));
 
     // Communication routes
-    fastify.post<{ Body: { type: 'email' | 'notification' | 'bulk_email'; subject: string; message: string; userIds: string[]; template?: string } }>('/communication/send', {
+    fastify.post<{ Body: SendCommunicationRequest }>('/communication/send', {
       schema: {
         tags: ['Users'],
         summary: 'Send communication to users',
+        description: 'Subject and message default to the selected template; emails and notifications are delivered before responding, bulk emails in the background',
         security: [{ bearerAuth: [] }],
         body: {
           type: 'object',
-          required: ['type', 'subject', 'message', 'userIds'],
+          required: ['type', 'userIds'],
           properties: {
             type: { type: 'string', enum: ['email', 'notification', 'bulk_email'] },
-            subject: { type: 'string', minLength: 1 },
-            message: { type: 'string', minLength: 1 },
-            userIds: { type: 'array', items: { type: 'string', format: 'uuid' } },
+            subject: { type: 'string', maxLength: 200 },
+            message: { type: 'string', maxLength: 20000 },
+            userIds: { type: 'array', minItems: 1, maxItems: 1000, items: { type: 'string', minLength: 1 } },
             template: { type: 'string' },
           },
         },
@@ -468,8 +474,14 @@ export async function userRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
+                  campaignId: { type: 'string' },
                   message: { type: 'string' },
+                  status: { type: 'string' },
+                  recipientCount: { type: 'number' },
                   sentCount: { type: 'number' },
+                  failedCount: { type: 'number' },
+                  skippedCount: { type: 'number' },
+                  errors: { type: 'array', items: { type: 'string' } },
                 },
               },
               meta: { type: 'object' },
@@ -479,11 +491,83 @@ export async function userRoutes(fastify: FastifyInstance) {
       },
     }, userController.sendCommunication.bind(userController));
 
+    fastify.get('/communication/templates', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Get communication templates and placeholders',
+        security: [{ bearerAuth: [] }],
+      },
+    }, userController.getCommunicationTemplates.bind(userController));
+
+    fastify.get<{ Querystring: CommunicationListQuery }>('/communication/campaigns', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Get communication history',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'number', minimum: 1, default: 1 },
+            limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+            type: { type: 'string', enum: ['email', 'notification', 'bulk_email'] },
+          },
+        },
+      },
+    }, userController.getCommunicationHistory.bind(userController));
+
+    fastify.get<{ Params: { campaignId: string } }>('/communication/campaigns/:campaignId', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Get communication campaign with delivery status per recipient',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['campaignId'],
+          properties: {
+            campaignId: { type: 'string' },
+          },
+        },
+      },
+    }, userController.getCommunicationCampaign.bind(userController));
+
     // Bulk import routes
-    fastify.post<{ Body: { users: Array<{ email: string; firstName: string; lastName: string; phone?: string; role: string; isActive: boolean; isVerified: boolean }> } }>('/bulk-import', {
+    const importJobProperties = {
+      id: { type: 'string' },
+      fileName: { type: 'string' },
+      fileType: { type: 'string' },
+      dryRun: { type: 'boolean' },
+      upsert: { type: 'boolean' },
+      sendInvitations: { type: 'boolean' },
+      defaultRole: { type: 'string', nullable: true },
+      roleMapping: { type: 'object', nullable: true, additionalProperties: { type: 'string' } },
+      status: { type: 'string' },
+      totalRows: { type: 'number' },
+      processedRows: { type: 'number' },
+      createdCount: { type: 'number' },
+      updatedCount: { type: 'number' },
+      skippedCount: { type: 'number' },
+      failedCount: { type: 'number' },
+      invitedCount: { type: 'number' },
+      error: { type: 'string', nullable: true },
+      createdBy: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      startedAt: { type: 'string', format: 'date-time', nullable: true },
+      completedAt: { type: 'string', format: 'date-time', nullable: true },
+    };
+
+    const importJobParams = {
+      type: 'object',
+      required: ['jobId'],
+      properties: {
+        jobId: { type: 'string' },
+      },
+    };
+
+    fastify.post<{ Body: BulkImportUsersRequest }>('/bulk-import', {
       schema: {
         tags: ['Users'],
         summary: 'Bulk import users',
+        description: 'Imports users sent as JSON and waits for the result; use /import-jobs for CSV/XLSX files',
         security: [{ bearerAuth: [] }],
         body: {
           type: 'object',
@@ -491,20 +575,26 @@ export async function userRoutes(fastify: FastifyInstance) {
           properties: {
             users: {
               type: 'array',
+              minItems: 1,
               items: {
                 type: 'object',
-                required: ['email', 'firstName', 'lastName', 'role'],
+                required: ['email'],
                 properties: {
-                  email: { type: 'string', format: 'email' },
-                  firstName: { type: 'string', minLength: 1 },
-                  lastName: { type: 'string', minLength: 1 },
+                  email: { type: 'string' },
+                  firstName: { type: 'string' },
+                  lastName: { type: 'string' },
                   phone: { type: 'string' },
-                  role: { type: 'string', enum: ['client', 'agent', 'admin', 'super_admin'] },
-                  isActive: { type: 'boolean', default: true },
-                  isVerified: { type: 'boolean', default: false },
+                  role: { type: 'string' },
+                  isActive: { type: 'boolean' },
+                  isVerified: { type: 'boolean' },
                 },
               },
             },
+            dryRun: { type: 'boolean', default: false },
+            upsert: { type: 'boolean', default: false },
+            sendInvitations: { type: 'boolean', default: true },
+            defaultRole: { type: 'string' },
+            roleMapping: { type: 'object', additionalProperties: { type: 'string' } },
           },
         },
         response: {
@@ -516,8 +606,10 @@ export async function userRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
+                  jobId: { type: 'string' },
                   imported: { type: 'number' },
                   failed: { type: 'number' },
+                  skipped: { type: 'number' },
                   errors: { type: 'array', items: { type: 'string' } },
                 },
               },
@@ -528,6 +620,101 @@ export async function userRoutes(fastify: FastifyInstance) {
       },
     }, userController.bulkImportUsers.bind(userController));
 
+    fastify.post('/import-jobs', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Start bulk user import from a CSV or XLSX file',
+        description: 'Multipart upload with a "file" field; dryRun, upsert, sendInvitations, defaultRole and roleMapping (JSON) fields must come before the file',
+        security: [{ bearerAuth: [] }],
+        consumes: ['multipart/form-data'],
+        response: {
+          202: {
+            description: 'Import job started',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'object', properties: importJobProperties },
+              meta: { type: 'object' },
+            },
+          },
+        },
+      },
+    }, userController.createUserImportJob.bind(userController));
+
+    fastify.get<{ Querystring: UserImportJobListQuery }>('/import-jobs', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Get bulk import jobs',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'number', minimum: 1, default: 1 },
+            limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+            status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed'] },
+          },
+        },
+        response: {
+          200: {
+            description: 'Import jobs',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'array',
+                items: { type: 'object', properties: importJobProperties },
+              },
+              meta: { type: 'object', additionalProperties: true },
+            },
+          },
+        },
+      },
+    }, userController.getUserImportJobs.bind(userController));
+
+    fastify.get<{ Params: { jobId: string } }>('/import-jobs/:jobId', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Get bulk import job progress',
+        security: [{ bearerAuth: [] }],
+        params: importJobParams,
+        response: {
+          200: {
+            description: 'Import job',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'object', properties: importJobProperties },
+              meta: { type: 'object' },
+            },
+          },
+        },
+      },
+    }, userController.getUserImportJob.bind(userController));
+
+    fastify.get<{ Params: { jobId: string }; Querystring: { status?: UserImportRowStatus } }>('/import-jobs/:jobId/rows', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Get bulk import per-row results',
+        security: [{ bearerAuth: [] }],
+        params: importJobParams,
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['pending', 'valid', 'created', 'updated', 'skipped', 'failed'] },
+          },
+        },
+      },
+    }, userController.getUserImportRows.bind(userController));
+
+    fastify.get<{ Params: { jobId: string } }>('/import-jobs/:jobId/report', {
+      schema: {
+        tags: ['Users'],
+        summary: 'Download bulk import report (CSV)',
+        security: [{ bearerAuth: [] }],
+        params: importJobParams,
+      },
+    }, userController.downloadUserImportReport.bind(userController));
+
     // Audit routes
     fastify.get<{ Params: { userId: string }; Querystring: { period?: string; limit?: number } }>('/:userId/audit', {
       schema: {
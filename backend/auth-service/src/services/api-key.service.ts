@@ -0,0 +1,291 @@
+import { ApiKeyRepository } from '@/repositories/api-key.repository';
+import type {
+    ApiKey,
+    ApiKeyPrincipal,
+    CreateApiKeyRequest,
+    CreateApiKeyResponse,
+    UpdateApiKeyRequest,
+} from '@/types/auth';
+import type { AuditLogEntry, PaginatedResponse, Pagination, RequestContext } from '@/types/common';
+import { AuditAction, ConflictError, NotFoundError, UnauthorizedError } from '@/types/common';
+import { generateApiKey, getApiKeyPreview, hashApiKey } from '@/utils/crypto';
+import { logger } from '@/utils/logger';
+import { PrismaClient } from '@prisma/client';
+
+// Permissions granted by each scope action, e.g. "write:properties" -> properties.create/update
+const SCOPE_ACTION_PERMISSIONS: Record<string, string[]> = {
+  read: ['read'],
+  write: ['create', 'update'],
+  delete: ['delete'],
+};
+
+/**
+ * Map API key scopes ("<action>:<resource>") to permissions ("<resource>.<permission>")
+ */
+export function scopesToPermissions(scopes: string[]): string[] {
+  const permissions = new Set<string>();
+
+  for (const scope of scopes) {
+    const [action, resource] = scope.split(':');
+    const actions = action ? SCOPE_ACTION_PERMISSIONS[action] : undefined;
+
+    if (!actions || !resource) {
+      continue;
+    }
+
+    actions.forEach(permission => permissions.add(`${resource}.${permission}`));
+  }
+
+  return Array.from(permissions);
+}
+
+export class ApiKeyService {
+  private _apiKeyRepository?: ApiKeyRepository;
+
+  constructor(private prisma: PrismaClient) {
+    // Dependencies are initialized lazily
+  }
+
+  private get apiKeyRepository(): ApiKeyRepository {
+    if (!this._apiKeyRepository) {
+      this._apiKeyRepository = new ApiKeyRepository(this.prisma);
+    }
+    return this._apiKeyRepository;
+  }
+
+  /**
+   * Find API key by ID
+   */
+  async findById(id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findById(id);
+
+    if (!apiKey) {
+      throw new NotFoundError('API key not found');
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Get paginated API keys list
+   */
+  async findMany(
+    pagination: Pagination,
+    filters?: {
+      isActive?: boolean;
+    }
+  ): Promise<PaginatedResponse<ApiKey>> {
+    return this.apiKeyRepository.findMany(pagination, filters);
+  }
+
+  /**
+   * Create new API key
+   * The secret is only returned here; the database keeps its SHA256 hash
+   */
+  async create(
+    data: CreateApiKeyRequest,
+    createdBy: string,
+    context: RequestContext
+  ): Promise<CreateApiKeyResponse> {
+    await this.ensureNameAvailable(data.name);
+
+    const key = generateApiKey();
+    const apiKey = await this.apiKeyRepository.create({
+      name: data.name,
+      keyHash: hashApiKey(key),
+      keyPreview: getApiKeyPreview(key),
+      permissions: data.permissions,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+      rateLimit: data.rateLimit,
+      createdBy,
+    });
+
+    await this.recordAudit({
+      action: AuditAction.API_KEY_CREATED,
+      userId: createdBy,
+      resource: 'api_key',
+      resourceId: apiKey.id,
+      newValues: {
+        name: apiKey.name,
+        permissions: apiKey.permissions,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt,
+        rateLimit: apiKey.rateLimit,
+      },
+      success: true,
+    }, context);
+
+    return this.toCreateResponse(apiKey, key);
+  }
+
+  /**
+   * Update API key name, permissions, scopes, expiry or rate limit
+   */
+  async update(
+    id: string,
+    data: UpdateApiKeyRequest,
+    updatedBy: string,
+    context: RequestContext
+  ): Promise<ApiKey> {
+    const existing = await this.findById(id);
+
+    if (data.name && data.name !== existing.name) {
+      await this.ensureNameAvailable(data.name);
+    }
+
+    const apiKey = await this.apiKeyRepository.update(id, {
+      name: data.name,
+      permissions: data.permissions,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt === undefined ? undefined : data.expiresAt ? new Date(data.expiresAt) : null,
+      rateLimit: data.rateLimit,
+    });
+
+    await this.recordAudit({
+      action: AuditAction.API_KEY_UPDATED,
+      userId: updatedBy,
+      resource: 'api_key',
+      resourceId: id,
+      oldValues: {
+        name: existing.name,
+        permissions: existing.permissions,
+        scopes: existing.scopes,
+        expiresAt: existing.expiresAt,
+        rateLimit: existing.rateLimit,
+      },
+      newValues: data,
+      success: true,
+    }, context);
+
+    return apiKey;
+  }
+
+  /**
+   * Replace the secret of an API key, invalidating the previous one immediately
+   */
+  async rotate(id: string, rotatedBy: string, context: RequestContext): Promise<CreateApiKeyResponse> {
+    const existing = await this.findById(id);
+
+    if (!existing.isActive) {
+      throw new ConflictError('Revoked API keys cannot be rotated');
+    }
+
+    const key = generateApiKey();
+    const apiKey = await this.apiKeyRepository.update(id, {
+      keyHash: hashApiKey(key),
+      keyPreview: getApiKeyPreview(key),
+    });
+
+    await this.recordAudit({
+      action: AuditAction.API_KEY_ROTATED,
+      userId: rotatedBy,
+      resource: 'api_key',
+      resourceId: id,
+      oldValues: { keyPreview: existing.keyPreview },
+      newValues: { keyPreview: apiKey.keyPreview },
+      success: true,
+    }, context);
+
+    return this.toCreateResponse(apiKey, key);
+  }
+
+  /**
+   * Revoke API key
+   * Keys are deactivated rather than deleted to keep their usage history
+   */
+  async revoke(id: string, revokedBy: string, context: RequestContext): Promise<void> {
+    const existing = await this.findById(id);
+
+    if (!existing.isActive) {
+      return;
+    }
+
+    await this.apiKeyRepository.update(id, { isActive: false });
+
+    await this.recordAudit({
+      action: AuditAction.API_KEY_DELETED,
+      userId: revokedBy,
+      resource: 'api_key',
+      resourceId: id,
+      oldValues: { name: existing.name, isActive: true },
+      newValues: { isActive: false },
+      success: true,
+    }, context);
+  }
+
+  /**
+   * Validate a raw API key and track its usage
+   * Returns the key identity with scopes already mapped to permissions
+   */
+  async verify(key: string): Promise<ApiKeyPrincipal> {
+    const apiKey = await this.apiKeyRepository.findByKeyHash(hashApiKey(key));
+
+    if (!apiKey) {
+      logger.warn({ keyPreview: getApiKeyPreview(key) }, 'Invalid API key provided');
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    if (!apiKey.isActive) {
+      logger.warn({ keyId: apiKey.id }, 'Inactive API key used');
+      throw new UnauthorizedError('API key is inactive');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      logger.warn({ keyId: apiKey.id, expiresAt: apiKey.expiresAt }, 'Expired API key used');
+      throw new UnauthorizedError('API key has expired');
+    }
+
+    await this.apiKeyRepository.recordUsage(apiKey.id);
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      permissions: Array.from(new Set([...apiKey.permissions, ...scopesToPermissions(apiKey.scopes)])),
+      scopes: apiKey.scopes,
+      rateLimit: apiKey.rateLimit,
+      expiresAt: apiKey.expiresAt,
+    };
+  }
+
+  private async ensureNameAvailable(name: string): Promise<void> {
+    const existing = await this.apiKeyRepository.findByName(name);
+    if (existing) {
+      throw new ConflictError('API key name already exists');
+    }
+  }
+
+  private toCreateResponse(apiKey: ApiKey, key: string): CreateApiKeyResponse {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      key,
+      keyPreview: apiKey.keyPreview,
+      permissions: apiKey.permissions,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      rateLimit: apiKey.rateLimit,
+      createdAt: apiKey.createdAt,
+    };
+  }
+
+  private async recordAudit(entry: AuditLogEntry, context: RequestContext): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          ...entry,
+          ipAddress: entry.ipAddress ?? context.ipAddress,
+          userAgent: entry.userAgent ?? context.userAgent,
+          endpoint: entry.endpoint ?? context.endpoint,
+          method: entry.method ?? context.method,
+        },
+      });
+    } catch (error) {
+      logger.error({
+        requestId: context.requestId,
+        action: entry.action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to record audit log');
+    }
+  }
+}
@@ -1,19 +1,30 @@
 import { config } from '@/config';
+import { HttpEmailSender } from '@/implementations/http-email-sender';
+import type { EmailSender } from '@/interfaces/email-sender.interface';
+import { EmailVerificationRepository } from '@/repositories/email-verification.repository';
+import { PasswordHistoryRepository, PasswordResetRepository } from '@/repositories/password-reset.repository';
 import { RefreshTokenRepository, SessionRepository } from '@/repositories/session.repository';
 import { UserRepository } from '@/repositories/user.repository';
 import type {
+  AuthSettings,
   ChangePasswordRequest,
+  ForgotPasswordRequest,
   JWTPayload,
   LoginRequest,
   LoginResponse,
   RefreshResponse,
   RefreshTokenRequest,
   RegisterRequest,
+  ResendVerificationRequest,
+  ResetPasswordRequest,
   TokenPair,
-  TwoFactorSetup
+  TwoFactorSetup,
+  UnverifiedUserAccess,
+  VerifyEmailRequest
 } from '@/types/auth';
-import type { RequestContext } from '@/types/common';
+import type { AuditLogEntry, RequestContext } from '@/types/common';
 import {
+  AuditAction,
   ConflictError,
   NotFoundError,
   UnauthorizedError,
@@ -21,23 +32,68 @@ import {
 } from '@/types/common';
 import {
   generateBackupCodes,
+  generateEmailVerificationToken,
   generateJTI,
+  generatePasswordResetToken,
   generateSecureToken,
   generateSessionToken,
   generateTOTPQRCode,
   generateTOTPSecret,
+  hashEmailVerificationToken,
   hashPassword,
+  hashPasswordResetToken,
+  validatePasswordPolicy,
   verifyPassword,
-  verifyTOTP
+  verifyTOTP,
+  type PasswordPolicy
 } from '@/utils/crypto';
 import { logger, logHelpers } from '@/utils/logger';
 import { PrismaClient } from '@prisma/client';
 import * as jwt from 'jsonwebtoken';
 
+/**
+ * Used when the AuthSettings row was never saved (same defaults as the schema)
+ */
+const DEFAULT_AUTH_SETTINGS: AuthSettings = {
+  passwordMinLength: 8,
+  passwordRequireUpper: true,
+  passwordRequireLower: true,
+  passwordRequireNumber: true,
+  passwordRequireSymbol: false,
+  passwordHistoryCount: 5,
+  maxLoginAttempts: 5,
+  lockoutDuration: 900,
+  lockoutWindow: 300,
+  sessionTimeout: 86400,
+  maxConcurrentSessions: 5,
+  jwtAccessExpiry: 3600,
+  jwtRefreshExpiry: 604800,
+  twoFactorRequired: false,
+  twoFactorGracePeriod: 86400,
+  emailVerificationRequired: true,
+  emailVerificationExpiry: 86400,
+  unverifiedUserAccess: 'none',
+  passwordResetExpiry: 3600,
+};
+
+const UNVERIFIED_USER_ACCESS: UnverifiedUserAccess[] = ['none', 'browse', 'full'];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 export class AuthService {
   private _userRepository?: UserRepository;
   private _sessionRepository?: SessionRepository;
   private _refreshTokenRepository?: RefreshTokenRepository;
+  private _passwordResetRepository?: PasswordResetRepository;
+  private _passwordHistoryRepository?: PasswordHistoryRepository;
+  private _emailVerificationRepository?: EmailVerificationRepository;
+  private _emailSender?: EmailSender;
 
   constructor(private prisma: PrismaClient) {
     // Dependencies are initialized lazily
@@ -64,6 +120,34 @@ export class AuthService {
     return this._refreshTokenRepository;
   }
 
+  private get passwordResetRepository(): PasswordResetRepository {
+    if (!this._passwordResetRepository) {
+      this._passwordResetRepository = new PasswordResetRepository(this.prisma);
+    }
+    return this._passwordResetRepository;
+  }
+
+  private get passwordHistoryRepository(): PasswordHistoryRepository {
+    if (!this._passwordHistoryRepository) {
+      this._passwordHistoryRepository = new PasswordHistoryRepository(this.prisma);
+    }
+    return this._passwordHistoryRepository;
+  }
+
+  private get emailVerificationRepository(): EmailVerificationRepository {
+    if (!this._emailVerificationRepository) {
+      this._emailVerificationRepository = new EmailVerificationRepository(this.prisma);
+    }
+    return this._emailVerificationRepository;
+  }
+
+  private get emailSender(): EmailSender {
+    if (!this._emailSender) {
+      this._emailSender = new HttpEmailSender(config.messagesServiceConfig);
+    }
+    return this._emailSender;
+  }
+
   /**
    * User login with email/password
    */
@@ -95,9 +179,9 @@ export class AuthService {
       }
 
       // Check if email verification is required
-      if (config.emailConfig && !user.isEmailVerified) {
+      if (await this.getUnverifiedAccess(user) === 'none') {
         logHelpers.loginFailed(email, 'email_not_verified', context);
-        throw new UnauthorizedError('Email verification required');
+        throw new UnauthorizedError('Email verification required', { reason: 'email_not_verified' });
       }
 
       // Handle two-factor authentication
@@ -211,13 +295,32 @@ export class AuthService {
         username: username || undefined,
         phone,
         roleId: defaultRole.id,
-        isActive: false, // New users start inactive until email verification
+        isActive: true, // Access until the email is verified is governed by AuthSettings
         sendWelcomeEmail: false, // Don't send welcome email for now
       });
 
       // Log user registration
       logHelpers.userCreated(user.id, 'system', context);
 
+      const settings = await this.getAuthSettings();
+      if (!settings.emailVerificationRequired) {
+        return {
+          user: this.sanitizeUser(user),
+          message: 'User registered successfully.'
+        };
+      }
+
+      try {
+        await this.issueEmailVerification(user, settings, context);
+      } catch (error) {
+        // The account exists either way; the user can ask for a new link
+        logger.error({
+          requestId: context.requestId,
+          userId: user.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Failed to issue email verification');
+      }
+
       return {
         user: this.sanitizeUser(user),
         message: 'User registered successfully. Please check your email for verification.'
@@ -263,6 +366,12 @@ export class AuthService {
         throw new UnauthorizedError('Invalid two-factor authentication code');
       }
 
+      // Check if email verification is required
+      if (await this.getUnverifiedAccess(user) === 'none') {
+        logHelpers.loginFailed(user.email, 'email_not_verified', context);
+        throw new UnauthorizedError('Email verification required', { reason: 'email_not_verified' });
+      }
+
       // Create session
       const sessionToken = generateSessionToken();
       const expiresAt = new Date(Date.now() + config.securityConfig.sessionTimeout * 1000);
@@ -420,6 +529,247 @@ export class AuthService {
     }
   }
 
+  /**
+   * Request a password reset email
+   * Resolves the same way whether or not the account exists, so callers cannot enumerate emails
+   */
+  async requestPasswordReset(
+    request: ForgotPasswordRequest,
+    context: RequestContext
+  ): Promise<void> {
+    const email = request.email.toLowerCase();
+
+    const user = await this.userRepository.findByEmail(email);
+    if (!user || !user.isActive) {
+      await this.recordAudit({
+        action: AuditAction.PASSWORD_RESET_REQUESTED,
+        resource: 'user',
+        metadata: { email },
+        success: false,
+        errorMessage: user ? 'account_disabled' : 'user_not_found',
+      }, context);
+      return;
+    }
+
+    // Per-account throttle on top of the per-IP route limit
+    const since = new Date(Date.now() - 60 * 60 * 1000);
+    const recentRequests = await this.passwordResetRepository.countRecentByEmail(email, since);
+    if (recentRequests >= config.passwordResetConfig.maxRequestsPerEmail) {
+      logHelpers.suspiciousActivity(user.id, 'password_reset_flood', context, { recentRequests });
+      await this.recordAudit({
+        action: AuditAction.PASSWORD_RESET_REQUESTED,
+        userId: user.id,
+        resource: 'user',
+        resourceId: user.id,
+        success: false,
+        errorMessage: 'too_many_requests',
+      }, context);
+      return;
+    }
+
+    const settings = await this.getPasswordSettings();
+    const token = generatePasswordResetToken();
+    const expiresAt = new Date(Date.now() + settings.resetExpiry * 1000);
+
+    const reset = await this.passwordResetRepository.create({
+      email,
+      token: hashPasswordResetToken(token),
+      expiresAt,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+
+    await this.recordAudit({
+      action: AuditAction.PASSWORD_RESET_REQUESTED,
+      userId: user.id,
+      resource: 'password_reset',
+      resourceId: reset.id,
+      metadata: { expiresAt: expiresAt.toISOString() },
+      success: true,
+    }, context);
+
+    // Not awaited: the response time must not depend on whether the account exists
+    this.sendPasswordResetEmail(user, token, settings.resetExpiry).catch((error) => {
+      logger.error({
+        requestId: context.requestId,
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to send password reset email');
+    });
+  }
+
+  /**
+   * Reset password with an emailed token
+   * Enforces the password policy and history, then revokes all sessions and refresh tokens
+   */
+  async resetPassword(
+    request: ResetPasswordRequest,
+    context: RequestContext
+  ): Promise<void> {
+    const { token, password } = request;
+
+    const reset = await this.passwordResetRepository.findByToken(hashPasswordResetToken(token));
+    const user = reset && !reset.isUsed && reset.expiresAt > new Date()
+      ? await this.userRepository.findByEmail(reset.email)
+      : null;
+
+    if (!reset || !user || !user.isActive) {
+      await this.recordAudit({
+        action: AuditAction.PASSWORD_RESET_COMPLETED,
+        userId: user?.id,
+        resource: 'password_reset',
+        resourceId: reset?.id,
+        success: false,
+        errorMessage: 'invalid_or_expired_token',
+      }, context);
+      throw new ValidationError('Invalid or expired reset token');
+    }
+
+    const settings = await this.getPasswordSettings();
+
+    const policyErrors = validatePasswordPolicy(password, settings.policy);
+    if (policyErrors.length > 0) {
+      throw new ValidationError('Password does not meet the password policy', policyErrors);
+    }
+
+    if (await this.isRecentPassword(user.id, (user as any).password, password, settings.historyCount)) {
+      throw new ValidationError(
+        `Password must differ from the last ${settings.historyCount} passwords`
+      );
+    }
+
+    // Consume the token before changing anything so concurrent requests cannot both succeed
+    const consumed = await this.passwordResetRepository.markUsed(reset.id);
+    if (!consumed) {
+      throw new ValidationError('Invalid or expired reset token');
+    }
+
+    const hashedPassword = await hashPassword(password);
+    await this.userRepository.updatePassword(user.id, hashedPassword);
+
+    // The link was only delivered to this address, so using it proves ownership (imported users are invited this way)
+    if (!user.isEmailVerified) {
+      await this.userRepository.verifyEmail(user.id);
+    }
+
+    if (settings.historyCount > 1) {
+      await this.passwordHistoryRepository.create(user.id, (user as any).password);
+      await this.passwordHistoryRepository.prune(user.id, settings.historyCount - 1);
+    }
+
+    // Any other outstanding links for this account stop working
+    await this.passwordResetRepository.invalidateAllForEmail(reset.email);
+
+    const revokedSessions = await this.sessionRepository.deactivateAllForUser(user.id);
+    await this.refreshTokenRepository.revokeAllForUser(user.id);
+
+    await this.recordAudit({
+      action: AuditAction.PASSWORD_RESET_COMPLETED,
+      userId: user.id,
+      resource: 'user',
+      resourceId: user.id,
+      metadata: { passwordResetId: reset.id, revokedSessions },
+      success: true,
+    }, context);
+
+    logger.info({
+      requestId: context.requestId,
+      userId: user.id,
+      revokedSessions,
+    }, 'Password reset completed');
+  }
+
+  /**
+   * Verify email with an emailed token
+   */
+  async verifyEmail(
+    request: VerifyEmailRequest,
+    context: RequestContext
+  ): Promise<void> {
+    const verification = await this.emailVerificationRepository.findByToken(
+      hashEmailVerificationToken(request.token)
+    );
+    const user = verification && !verification.isUsed && verification.expiresAt > new Date()
+      ? await this.userRepository.findByEmail(verification.email)
+      : null;
+
+    if (!verification || !user) {
+      await this.recordAudit({
+        action: AuditAction.EMAIL_VERIFIED,
+        resource: 'email_verification',
+        resourceId: verification?.id,
+        success: false,
+        errorMessage: 'invalid_or_expired_token',
+      }, context);
+      throw new ValidationError('Invalid or expired verification token');
+    }
+
+    const consumed = await this.emailVerificationRepository.markUsed(verification.id);
+    if (!consumed) {
+      throw new ValidationError('Invalid or expired verification token');
+    }
+
+    if (!user.isEmailVerified) {
+      await this.userRepository.verifyEmail(user.id);
+    }
+
+    // Older links sent to this address stop working
+    await this.emailVerificationRepository.invalidateAllForEmail(verification.email);
+
+    await this.recordAudit({
+      action: AuditAction.EMAIL_VERIFIED,
+      userId: user.id,
+      resource: 'user',
+      resourceId: user.id,
+      metadata: { emailVerificationId: verification.id },
+      success: true,
+    }, context);
+
+    logHelpers.userUpdated(user.id, user.id, { isEmailVerified: true }, context);
+  }
+
+  /**
+   * Send a new verification email
+   * Resolves the same way whether or not the account exists, so callers cannot enumerate emails
+   */
+  async resendEmailVerification(
+    request: ResendVerificationRequest,
+    context: RequestContext
+  ): Promise<void> {
+    const email = request.email.toLowerCase();
+
+    const user = await this.userRepository.findByEmail(email);
+    if (!user || !user.isActive || user.isEmailVerified) {
+      await this.recordAudit({
+        action: AuditAction.EMAIL_VERIFICATION_SENT,
+        userId: user?.id,
+        resource: 'user',
+        resourceId: user?.id,
+        metadata: { email },
+        success: false,
+        errorMessage: !user ? 'user_not_found' : !user.isActive ? 'account_disabled' : 'already_verified',
+      }, context);
+      return;
+    }
+
+    // Per-account throttle on top of the per-IP route limit
+    const since = new Date(Date.now() - 60 * 60 * 1000);
+    const recentRequests = await this.emailVerificationRepository.countRecentByEmail(email, since);
+    if (recentRequests >= config.emailVerificationConfig.maxRequestsPerEmail) {
+      await this.recordAudit({
+        action: AuditAction.EMAIL_VERIFICATION_SENT,
+        userId: user.id,
+        resource: 'user',
+        resourceId: user.id,
+        success: false,
+        errorMessage: 'too_many_requests',
+      }, context);
+      return;
+    }
+
+    await this.issueEmailVerification(user, await this.getAuthSettings(), context);
+  }
+
   /**
    * Enable two-factor authentication
    */
@@ -570,12 +920,23 @@ export class AuthService {
       ? '30d' 
       : config.jwtConfig.refreshExpiry;
 
+    // Unverified users may be limited to read permissions (AuthSettings.unverifiedUserAccess)
+    const access = await this.getUnverifiedAccess(user);
+    if (access === 'none') {
+      throw new UnauthorizedError('Email verification required', { reason: 'email_not_verified' });
+    }
+
+    const permissions: string[] = access === 'browse'
+      ? user.role.permissions.filter((permission: string) => permission.endsWith('.read'))
+      : user.role.permissions;
+
     // Access token payload
     const accessPayload: JWTPayload = {
       sub: user.id,
       email: user.email,
       role: user.role.name,
-      permissions: user.role.permissions,
+      permissions,
+      emailVerified: user.isEmailVerified,
       sessionId,
       iat: now,
       iss: config.jwtConfig.issuer,
@@ -673,6 +1034,216 @@ export class AuthService {
     }
   }
 
+  /**
+   * AuthSettings singleton, falling back to the defaults when it was never saved
+   */
+  private async getAuthSettings(): Promise<AuthSettings> {
+    const settings = await this.prisma.authSettings.findUnique({
+      where: { id: 'singleton' },
+    });
+
+    if (!settings) {
+      return DEFAULT_AUTH_SETTINGS;
+    }
+
+    const unverifiedUserAccess = UNVERIFIED_USER_ACCESS.find((value) => value === settings.unverifiedUserAccess);
+
+    return {
+      ...settings,
+      unverifiedUserAccess: unverifiedUserAccess ?? DEFAULT_AUTH_SETTINGS.unverifiedUserAccess,
+    };
+  }
+
+  /**
+   * What an unverified user may do; verified users always get full access
+   */
+  private async getUnverifiedAccess(user: { isEmailVerified: boolean }): Promise<UnverifiedUserAccess> {
+    if (user.isEmailVerified) {
+      return 'full';
+    }
+
+    const settings = await this.getAuthSettings();
+    return settings.emailVerificationRequired ? settings.unverifiedUserAccess : 'full';
+  }
+
+  /**
+   * Password policy from AuthSettings
+   */
+  private async getPasswordSettings(): Promise<{
+    policy: PasswordPolicy;
+    historyCount: number;
+    resetExpiry: number;
+  }> {
+    const settings = await this.getAuthSettings();
+
+    return {
+      policy: {
+        minLength: settings.passwordMinLength,
+        requireUppercase: settings.passwordRequireUpper,
+        requireLowercase: settings.passwordRequireLower,
+        requireNumbers: settings.passwordRequireNumber,
+        requireSymbols: settings.passwordRequireSymbol,
+      },
+      historyCount: settings.passwordHistoryCount,
+      resetExpiry: settings.passwordResetExpiry,
+    };
+  }
+
+  /**
+   * Check a new password against the current one and the remembered previous ones
+   * historyCount includes the current password
+   */
+  private async isRecentPassword(
+    userId: string,
+    currentHash: string,
+    password: string,
+    historyCount: number
+  ): Promise<boolean> {
+    if (historyCount <= 0) {
+      return false;
+    }
+
+    if (await verifyPassword(currentHash, password)) {
+      return true;
+    }
+
+    const previous = await this.passwordHistoryRepository.findRecent(userId, historyCount - 1);
+    for (const entry of previous) {
+      if (await verifyPassword(entry.password, password)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Send the password reset link
+   */
+  private async sendPasswordResetEmail(
+    user: { email: string; firstName: string | null },
+    token: string,
+    expiresInSeconds: number
+  ): Promise<void> {
+    const resetUrl = new URL(config.passwordResetConfig.url);
+    resetUrl.searchParams.set('token', token);
+
+    const minutes = Math.round(expiresInSeconds / 60);
+    const greeting = user.firstName ? `Olá ${escapeHtml(user.firstName)},` : 'Olá,';
+
+    await this.emailSender.send({
+      to: user.email,
+      subject: 'Redefinição da palavra-passe',
+      html: `
+        <p>${greeting}</p>
+        <p>Recebemos um pedido para redefinir a palavra-passe da sua conta.</p>
+        <p><a href="${escapeHtml(resetUrl.toString())}">Redefinir palavra-passe</a></p>
+        <p>Este link é válido durante ${minutes} minutos e só pode ser usado uma vez.</p>
+        <p>Se não fez este pedido, ignore este email. A sua palavra-passe não será alterada.</p>
+      `,
+      text: [
+        user.firstName ? `Olá ${user.firstName},` : 'Olá,',
+        'Recebemos um pedido para redefinir a palavra-passe da sua conta.',
+        `Redefinir palavra-passe: ${resetUrl.toString()}`,
+        `Este link é válido durante ${minutes} minutos e só pode ser usado uma vez.`,
+        'Se não fez este pedido, ignore este email. A sua palavra-passe não será alterada.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Create a verification token and email it
+   */
+  private async issueEmailVerification(
+    user: { id: string; email: string; firstName: string | null },
+    settings: AuthSettings,
+    context: RequestContext
+  ): Promise<void> {
+    const token = generateEmailVerificationToken();
+    const expiresAt = new Date(Date.now() + settings.emailVerificationExpiry * 1000);
+
+    const verification = await this.emailVerificationRepository.create({
+      email: user.email,
+      token: hashEmailVerificationToken(token),
+      expiresAt,
+    });
+
+    await this.recordAudit({
+      action: AuditAction.EMAIL_VERIFICATION_SENT,
+      userId: user.id,
+      resource: 'email_verification',
+      resourceId: verification.id,
+      metadata: { expiresAt: expiresAt.toISOString() },
+      success: true,
+    }, context);
+
+    // Not awaited: resends must respond like unknown emails, and registration must not wait on the mail service
+    this.sendVerificationEmail(user, token, settings.emailVerificationExpiry).catch((error) => {
+      logger.error({
+        requestId: context.requestId,
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to send verification email');
+    });
+  }
+
+  /**
+   * Send the email verification link
+   */
+  private async sendVerificationEmail(
+    user: { email: string; firstName: string | null },
+    token: string,
+    expiresInSeconds: number
+  ): Promise<void> {
+    const verifyUrl = new URL(config.emailVerificationConfig.url);
+    verifyUrl.searchParams.set('token', token);
+
+    const hours = Math.max(1, Math.round(expiresInSeconds / 3600));
+    const greeting = user.firstName ? `Olá ${escapeHtml(user.firstName)},` : 'Olá,';
+
+    await this.emailSender.send({
+      to: user.email,
+      subject: 'Confirme o seu email',
+      html: `
+        <p>${greeting}</p>
+        <p>Obrigado pelo seu registo. Confirme o seu endereço de email para ativar a sua conta.</p>
+        <p><a href="${escapeHtml(verifyUrl.toString())}">Confirmar email</a></p>
+        <p>Este link é válido durante ${hours} ${hours === 1 ? 'hora' : 'horas'}.</p>
+        <p>Se não criou esta conta, ignore este email.</p>
+      `,
+      text: [
+        user.firstName ? `Olá ${user.firstName},` : 'Olá,',
+        'Obrigado pelo seu registo. Confirme o seu endereço de email para ativar a sua conta.',
+        `Confirmar email: ${verifyUrl.toString()}`,
+        `Este link é válido durante ${hours} ${hours === 1 ? 'hora' : 'horas'}.`,
+        'Se não criou esta conta, ignore este email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Record audit log entry
+   */
+  private async recordAudit(entry: AuditLogEntry, context: RequestContext): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          ...entry,
+          ipAddress: entry.ipAddress ?? context.ipAddress,
+          userAgent: entry.userAgent ?? context.userAgent,
+          endpoint: entry.endpoint ?? context.endpoint,
+          method: entry.method ?? context.method,
+        },
+      });
+    } catch (error) {
+      logger.error({
+        requestId: context.requestId,
+        action: entry.action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to record audit log');
+    }
+  }
+
   /**
    * Sanitize user data for public consumption
    */
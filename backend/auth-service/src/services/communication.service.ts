@@ -0,0 +1,443 @@
+import { config } from '@/config';
+import {
+    COMMUNICATION_PLACEHOLDERS,
+    COMMUNICATION_TEMPLATES,
+    CommunicationPlaceholderValues,
+    findCommunicationTemplate,
+    renderPlaceholders,
+} from '@/config/communication-templates';
+import { HttpEmailSender } from '@/implementations/http-email-sender';
+import { HttpUserDirectory } from '@/implementations/http-user-directory';
+import type { EmailMessage, EmailSender } from '@/interfaces/email-sender.interface';
+import type { DirectoryProfile, UserDirectory } from '@/interfaces/user-directory.interface';
+import { CommunicationRepository } from '@/repositories/communication.repository';
+import { UserRepository } from '@/repositories/user.repository';
+import type {
+    CommunicationCampaign,
+    CommunicationListQuery,
+    CommunicationRecipient,
+    CommunicationRecipientStatus,
+    CommunicationResult,
+    CommunicationTemplate,
+    SendCommunicationRequest,
+} from '@/types/auth';
+import type { AuditLogEntry, PaginatedResponse, RequestContext } from '@/types/common';
+import { AuditAction, NotFoundError, ValidationError } from '@/types/common';
+import { logger } from '@/utils/logger';
+import { PrismaClient } from '@prisma/client';
+
+// Failed recipients listed in the send response (the full list is in the campaign history)
+const MAX_REPORTED_ERRORS = 20;
+
+interface ResolvedRecipient {
+  userId: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  status: CommunicationRecipientStatus;
+  error?: string;
+}
+
+interface RenderedCommunication {
+  subject: string;
+  message: string;
+  template?: CommunicationTemplate;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Admin communications: emails through messages-service and in-app notifications
+ * through the users service, with a per-recipient delivery record for each campaign
+ */
+export class CommunicationService {
+  private _communicationRepository?: CommunicationRepository;
+  private _userRepository?: UserRepository;
+  private _emailSender?: EmailSender;
+  private _userDirectory?: UserDirectory;
+
+  constructor(private prisma: PrismaClient) {
+    // Dependencies are initialized lazily
+  }
+
+  private get communicationRepository(): CommunicationRepository {
+    if (!this._communicationRepository) {
+      this._communicationRepository = new CommunicationRepository(this.prisma);
+    }
+    return this._communicationRepository;
+  }
+
+  private get userRepository(): UserRepository {
+    if (!this._userRepository) {
+      this._userRepository = new UserRepository(this.prisma);
+    }
+    return this._userRepository;
+  }
+
+  private get emailSender(): EmailSender {
+    if (!this._emailSender) {
+      this._emailSender = new HttpEmailSender(config.messagesServiceConfig);
+    }
+    return this._emailSender;
+  }
+
+  private get userDirectory(): UserDirectory {
+    if (!this._userDirectory) {
+      this._userDirectory = new HttpUserDirectory(config.usersServiceConfig);
+    }
+    return this._userDirectory;
+  }
+
+  /**
+   * Available templates and placeholders
+   */
+  getTemplates() {
+    return {
+      templates: COMMUNICATION_TEMPLATES,
+      placeholders: COMMUNICATION_PLACEHOLDERS.map(placeholder => `{${placeholder}}`),
+    };
+  }
+
+  /**
+   * Send a communication to users
+   * Emails and notifications are delivered before responding; bulk emails are
+   * delivered in the background and tracked through the campaign history
+   */
+  async send(
+    data: SendCommunicationRequest & { sentBy: string },
+    context: RequestContext
+  ): Promise<CommunicationResult> {
+    const content = this.resolveContent(data);
+    const recipients = await this.resolveRecipients([...new Set(data.userIds)], data.type);
+
+    if (recipients.every(recipient => !recipient.email && recipient.status === 'failed')) {
+      throw new NotFoundError('No users found');
+    }
+
+    const campaign = await this.communicationRepository.createCampaign({
+      type: data.type,
+      template: content.template?.id,
+      subject: content.subject,
+      message: content.message,
+      sentBy: data.sentBy,
+      recipients: recipients.map(({ userId, email, status, error }) => ({ userId, email, status, error })),
+    });
+
+    await this.recordAudit({
+      action: AuditAction.USER_COMMUNICATION_SENT,
+      userId: data.sentBy,
+      resource: 'communication_campaign',
+      resourceId: campaign.id,
+      metadata: {
+        type: data.type,
+        template: content.template?.id,
+        recipientCount: recipients.length,
+      },
+      success: true,
+    }, context);
+
+    const byUserId = new Map(recipients.map(recipient => [recipient.userId, recipient]));
+
+    if (data.type === 'bulk_email') {
+      this.deliver(campaign, data.type, content, byUserId).catch((error) => {
+        logger.error({
+          campaignId: campaign.id,
+          error: errorMessage(error),
+        }, 'Bulk email delivery failed');
+      });
+
+      const queued = campaign.recipients.filter(recipient => recipient.status === 'pending').length;
+      return this.toResult(campaign, `Bulk email queued for ${queued} users`);
+    }
+
+    const completed = await this.deliver(campaign, data.type, content, byUserId);
+    return this.toResult(
+      await this.findCampaignById(campaign.id),
+      `Communication sent to ${completed.sentCount} users`
+    );
+  }
+
+  /**
+   * Get paginated campaign history
+   */
+  async findCampaigns(query: CommunicationListQuery): Promise<PaginatedResponse<CommunicationCampaign>> {
+    return this.communicationRepository.findMany(
+      { page: query.page, limit: query.limit },
+      { type: query.type }
+    );
+  }
+
+  /**
+   * Get campaign with per-recipient delivery status
+   */
+  async findCampaignById(id: string) {
+    const campaign = await this.communicationRepository.findById(id);
+
+    if (!campaign) {
+      throw new NotFoundError('Communication campaign not found');
+    }
+
+    return campaign;
+  }
+
+  private resolveContent(data: SendCommunicationRequest): RenderedCommunication {
+    const template = data.template ? findCommunicationTemplate(data.template) : undefined;
+
+    if (data.template && !template) {
+      throw new ValidationError(`Unknown communication template: ${data.template}`);
+    }
+
+    const subject = data.subject?.trim() || template?.subject;
+    const message = data.message?.trim() || template?.message;
+
+    if (!subject || !message) {
+      throw new ValidationError('Subject and message are required');
+    }
+
+    return { subject, message, template };
+  }
+
+  /**
+   * Resolve recipients by auth-service user ID, falling back to users service profiles
+   * (the admin user list is served by the users service, whose IDs may differ)
+   */
+  private async resolveRecipients(userIds: string[], type: SendCommunicationRequest['type']): Promise<ResolvedRecipient[]> {
+    const users = await this.userRepository.findByIds(userIds);
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const missingIds = userIds.filter(id => !usersById.has(id));
+    let profilesById = new Map<string, DirectoryProfile>();
+
+    if (missingIds.length > 0) {
+      try {
+        const profiles = await this.userDirectory.findProfiles(missingIds);
+        profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+      } catch (error) {
+        logger.warn({ error: errorMessage(error) }, 'Unable to look up user profiles for communication');
+      }
+    }
+
+    return userIds.map((userId): ResolvedRecipient => {
+      const user = usersById.get(userId);
+      if (user) {
+        if (type === 'bulk_email' && !user.isActive) {
+          return { userId, email: user.email, status: 'skipped', error: 'User is inactive' };
+        }
+        return {
+          userId,
+          email: user.email,
+          firstName: user.firstName ?? undefined,
+          lastName: user.lastName ?? undefined,
+          status: 'pending',
+        };
+      }
+
+      const profile = profilesById.get(userId);
+      if (profile) {
+        if (type === 'bulk_email' && !profile.isActive) {
+          return { userId, email: profile.email, status: 'skipped', error: 'User is inactive' };
+        }
+        if (type === 'bulk_email' && !profile.allowMarketing) {
+          return { userId, email: profile.email, status: 'skipped', error: 'User opted out of marketing emails' };
+        }
+        return {
+          userId,
+          email: profile.email,
+          firstName: profile.firstName,
+          lastName: profile.lastName,
+          status: 'pending',
+        };
+      }
+
+      return { userId, status: 'failed', error: 'User not found' };
+    });
+  }
+
+  private async deliver(
+    campaign: CommunicationCampaign & { recipients: CommunicationRecipient[] },
+    type: SendCommunicationRequest['type'],
+    content: RenderedCommunication,
+    recipients: Map<string, ResolvedRecipient>
+  ): Promise<CommunicationCampaign> {
+    const pending = campaign.recipients.filter(recipient => recipient.status === 'pending');
+
+    if (type === 'notification') {
+      await this.deliverNotifications(campaign.id, pending, content, recipients);
+    } else {
+      await this.deliverEmails(pending, type, content, recipients);
+    }
+
+    const completed = await this.communicationRepository.completeCampaign(campaign.id);
+
+    logger.info({
+      campaignId: campaign.id,
+      type,
+      status: completed.status,
+      sentCount: completed.sentCount,
+      failedCount: completed.failedCount,
+      skippedCount: completed.skippedCount,
+    }, '📨 Communication delivered');
+
+    return completed;
+  }
+
+  private async deliverNotifications(
+    campaignId: string,
+    pending: CommunicationRecipient[],
+    content: RenderedCommunication,
+    recipients: Map<string, ResolvedRecipient>
+  ): Promise<void> {
+    if (pending.length === 0) {
+      return;
+    }
+
+    let results;
+    try {
+      results = await this.userDirectory.createNotifications({
+        type: content.template?.notificationType ?? 'SYSTEM_ANNOUNCEMENT',
+        title: content.subject,
+        data: { campaignId },
+        recipients: pending.map(recipient => {
+          const values = this.placeholderValues(recipients.get(recipient.userId)!);
+          return {
+            userId: recipient.userId,
+            email: recipient.email ?? undefined,
+            message: renderPlaceholders(content.message, values),
+          };
+        }),
+      });
+    } catch (error) {
+      for (const recipient of pending) {
+        await this.communicationRepository.updateRecipient(recipient.id, 'failed', errorMessage(error));
+      }
+      return;
+    }
+
+    const resultsByUserId = new Map(results.map(result => [result.userId, result]));
+    for (const recipient of pending) {
+      const result = resultsByUserId.get(recipient.userId);
+      await this.communicationRepository.updateRecipient(
+        recipient.id,
+        result?.status ?? 'failed',
+        result ? result.error : 'No delivery result returned'
+      );
+    }
+  }
+
+  private async deliverEmails(
+    pending: CommunicationRecipient[],
+    type: SendCommunicationRequest['type'],
+    content: RenderedCommunication,
+    recipients: Map<string, ResolvedRecipient>
+  ): Promise<void> {
+    const concurrency = Math.max(1, config.COMMUNICATION_SEND_CONCURRENCY);
+
+    for (let i = 0; i < pending.length; i += concurrency) {
+      const batch = pending.slice(i, i + concurrency);
+
+      await Promise.all(batch.map(async (recipient) => {
+        const resolved = recipients.get(recipient.userId)!;
+        try {
+          await this.emailSender.send(this.buildEmail(resolved, type, content));
+          await this.communicationRepository.updateRecipient(recipient.id, 'sent');
+        } catch (error) {
+          await this.communicationRepository.updateRecipient(recipient.id, 'failed', errorMessage(error));
+        }
+      }));
+    }
+  }
+
+  private placeholderValues(recipient: ResolvedRecipient): CommunicationPlaceholderValues {
+    const email = recipient.email ?? '';
+    const firstName = recipient.firstName || email.split('@')[0] || '';
+    const lastName = recipient.lastName ?? '';
+
+    return {
+      name: [recipient.firstName, recipient.lastName].filter(Boolean).join(' ') || firstName,
+      firstName,
+      lastName,
+      email,
+      siteUrl: config.SITE_URL,
+      date: new Date().toLocaleDateString('pt-PT'),
+    };
+  }
+
+  private buildEmail(
+    recipient: ResolvedRecipient,
+    type: SendCommunicationRequest['type'],
+    content: RenderedCommunication
+  ): EmailMessage {
+    const values = this.placeholderValues(recipient);
+    const subject = renderPlaceholders(content.subject, values);
+    const message = renderPlaceholders(content.message, values);
+
+    const footer = type === 'bulk_email'
+      ? 'Recebeu este email porque aceitou receber comunicações da Ribeira Azul. Pode alterar esta opção no seu perfil.'
+      : undefined;
+
+    const paragraphs = message
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+    const html = `
+      ${paragraphs}
+      ${footer ? `<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)}</p>` : ''}
+    `;
+
+    return {
+      to: recipient.email!,
+      subject,
+      html,
+      text: footer ? `${message}\n\n${footer}` : message,
+    };
+  }
+
+  private toResult(campaign: CommunicationCampaign & { recipients?: CommunicationRecipient[] }, message: string): CommunicationResult {
+    const errors = (campaign.recipients ?? [])
+      .filter(recipient => recipient.status === 'failed')
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map(recipient => `Failed to send to ${recipient.email ?? recipient.userId}: ${recipient.error}`);
+
+    return {
+      campaignId: campaign.id,
+      message,
+      status: campaign.status,
+      recipientCount: campaign.recipientCount,
+      sentCount: campaign.sentCount,
+      failedCount: campaign.failedCount,
+      skippedCount: campaign.skippedCount,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  private async recordAudit(entry: AuditLogEntry, context: RequestContext): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          ...entry,
+          ipAddress: entry.ipAddress ?? context.ipAddress,
+          userAgent: entry.userAgent ?? context.userAgent,
+          endpoint: entry.endpoint ?? context.endpoint,
+          method: entry.method ?? context.method,
+        },
+      });
+    } catch (error) {
+      logger.error({
+        requestId: context.requestId,
+        action: entry.action,
+        error: errorMessage(error),
+      }, 'Failed to record audit log');
+    }
+  }
+}
@@ -0,0 +1,688 @@
+import { config } from '@/config';
+import { HttpEmailSender } from '@/implementations/http-email-sender';
+import type { EmailSender } from '@/interfaces/email-sender.interface';
+import { PasswordResetRepository } from '@/repositories/password-reset.repository';
+import { RoleRepository } from '@/repositories/role.repository';
+import { UserImportCounts, UserImportRepository } from '@/repositories/user-import.repository';
+import { UserRepository } from '@/repositories/user.repository';
+import type {
+    BulkImportUsersRequest,
+    Role,
+    UserImportJob,
+    UserImportJobListQuery,
+    UserImportOptions,
+    UserImportRow,
+    UserImportRowAction,
+    UserImportRowData,
+    UserImportRowStatus,
+} from '@/types/auth';
+import { UserImportRowSchema } from '@/types/auth';
+import type { AuditLogEntry, PaginatedResponse, RequestContext } from '@/types/common';
+import { AuditAction, NotFoundError, ValidationError } from '@/types/common';
+import {
+    generatePasswordResetToken,
+    generateSecureToken,
+    hashPassword,
+    hashPasswordResetToken,
+} from '@/utils/crypto';
+import { logHelpers, logger } from '@/utils/logger';
+import { detectSpreadsheetType, parseSpreadsheet, SpreadsheetError } from '@/utils/spreadsheet';
+import { PrismaClient } from '@prisma/client';
+
+// Progress is persisted every N rows so polling clients see it move
+const PROGRESS_INTERVAL = 25;
+
+type ImportField = keyof UserImportRowData;
+
+// Normalized header (lowercase, no accents or separators) -> field
+const HEADER_ALIASES: Record<string, ImportField> = {
+  email: 'email',
+  mail: 'email',
+  correioeletronico: 'email',
+  firstname: 'firstName',
+  nome: 'firstName',
+  primeironome: 'firstName',
+  lastname: 'lastName',
+  apelido: 'lastName',
+  sobrenome: 'lastName',
+  ultimonome: 'lastName',
+  phone: 'phone',
+  telefone: 'phone',
+  telemovel: 'phone',
+  contacto: 'phone',
+  role: 'role',
+  perfil: 'role',
+  funcao: 'role',
+  isactive: 'isActive',
+  active: 'isActive',
+  ativo: 'isActive',
+  isverified: 'isVerified',
+  verified: 'isVerified',
+  verificado: 'isVerified',
+};
+
+// Role names as commonly written in agency spreadsheets
+const ROLE_ALIASES: Record<string, string> = {
+  cliente: 'client',
+  agente: 'agent',
+  consultor: 'agent',
+  administrador: 'admin',
+  gestor: 'manager',
+  operador: 'operator',
+  superadmin: 'super_admin',
+  super_administrador: 'super_admin',
+};
+
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'y', 'sim', 's', 'x', 'verdadeiro']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'n', 'nao', 'falso']);
+
+const REQUIRED_FIELDS: ImportField[] = ['email', 'firstName', 'lastName'];
+
+interface Importer {
+  id: string;
+  role: string;
+}
+
+interface ImportRecord {
+  rowNumber: number;
+  email?: string;
+  data: Partial<Record<ImportField, string>>;
+}
+
+interface RowOutcome {
+  status: UserImportRowStatus;
+  action?: UserImportRowAction;
+  message?: string;
+  userId?: string;
+  invited?: boolean;
+}
+
+function normalizeKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeRole(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const normalized = normalizeKey(value);
+  if (TRUE_VALUES.has(normalized)) return true;
+  if (FALSE_VALUES.has(normalized)) return false;
+  return null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeCsv(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Bulk user import jobs
+ * Files are parsed and validated up front; rows are then processed in the background
+ * and each row keeps its outcome for the downloadable report
+ */
+export class UserImportService {
+  private _userImportRepository?: UserImportRepository;
+  private _userRepository?: UserRepository;
+  private _roleRepository?: RoleRepository;
+  private _passwordResetRepository?: PasswordResetRepository;
+  private _emailSender?: EmailSender;
+
+  constructor(private prisma: PrismaClient) {
+    // Dependencies are initialized lazily
+  }
+
+  private get userImportRepository(): UserImportRepository {
+    if (!this._userImportRepository) {
+      this._userImportRepository = new UserImportRepository(this.prisma);
+    }
+    return this._userImportRepository;
+  }
+
+  private get userRepository(): UserRepository {
+    if (!this._userRepository) {
+      this._userRepository = new UserRepository(this.prisma);
+    }
+    return this._userRepository;
+  }
+
+  private get roleRepository(): RoleRepository {
+    if (!this._roleRepository) {
+      this._roleRepository = new RoleRepository(this.prisma);
+    }
+    return this._roleRepository;
+  }
+
+  private get passwordResetRepository(): PasswordResetRepository {
+    if (!this._passwordResetRepository) {
+      this._passwordResetRepository = new PasswordResetRepository(this.prisma);
+    }
+    return this._passwordResetRepository;
+  }
+
+  private get emailSender(): EmailSender {
+    if (!this._emailSender) {
+      this._emailSender = new HttpEmailSender(config.messagesServiceConfig);
+    }
+    return this._emailSender;
+  }
+
+  /**
+   * Start an import from an uploaded CSV or XLSX file
+   * Returns as soon as the file is validated; poll the job for progress
+   */
+  async importFile(
+    file: { fileName: string; content: Buffer },
+    options: UserImportOptions,
+    importer: Importer,
+    context: RequestContext
+  ): Promise<UserImportJob> {
+    let fileType;
+    let rows: string[][];
+
+    try {
+      fileType = detectSpreadsheetType(file.fileName, file.content);
+      rows = parseSpreadsheet(file.content, fileType);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+
+    if (rows.length < 2) {
+      throw new ValidationError('File must have a header row and at least one data row');
+    }
+
+    const [header, ...dataRows] = rows;
+    const columns = header.map(name => HEADER_ALIASES[normalizeKey(name)]);
+
+    const missing = REQUIRED_FIELDS.filter(field => !columns.includes(field));
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing required columns: ${missing.join(', ')}`);
+    }
+    if (!columns.includes('role') && !options.defaultRole) {
+      throw new ValidationError('A role column or a default role is required');
+    }
+
+    const records = dataRows.map((row, index): ImportRecord => {
+      const data: Partial<Record<ImportField, string>> = {};
+      columns.forEach((field, column) => {
+        if (field && row[column] !== undefined && row[column] !== '') {
+          data[field] = row[column];
+        }
+      });
+
+      return {
+        rowNumber: index + 2, // Header is row 1
+        email: data.email?.toLowerCase(),
+        data,
+      };
+    });
+
+    const job = await this.createJob(file.fileName, fileType, records, options, importer, context);
+
+    this.runJob(job.id, importer, context).catch((error) => {
+      logger.error({
+        jobId: job.id,
+        error: errorMessage(error),
+      }, 'User import job failed');
+    });
+
+    return job;
+  }
+
+  /**
+   * Import users sent as JSON and wait for the result (small batches from API clients)
+   */
+  async importRecords(
+    request: BulkImportUsersRequest,
+    importer: Importer,
+    context: RequestContext
+  ): Promise<UserImportJob> {
+    const { users, ...options } = request;
+
+    const records = users.map((user, index): ImportRecord => ({
+      rowNumber: index + 1,
+      email: user.email.toLowerCase(),
+      data: {
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        phone: user.phone || undefined,
+        role: user.role,
+        isActive: user.isActive === undefined ? undefined : String(user.isActive),
+        isVerified: user.isVerified === undefined ? undefined : String(user.isVerified),
+      },
+    }));
+
+    const job = await this.createJob('request.json', 'json', records, options, importer, context);
+    await this.runJob(job.id, importer, context);
+
+    return this.findJobById(job.id);
+  }
+
+  /**
+   * Get job with its progress counters
+   */
+  async findJobById(id: string): Promise<UserImportJob> {
+    const job = await this.userImportRepository.findById(id);
+
+    if (!job) {
+      throw new NotFoundError('Import job not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Get paginated import history
+   */
+  async findJobs(query: UserImportJobListQuery): Promise<PaginatedResponse<UserImportJob>> {
+    return this.userImportRepository.findMany(
+      { page: query.page, limit: query.limit },
+      { status: query.status }
+    );
+  }
+
+  /**
+   * Get per-row results
+   */
+  async findJobRows(id: string, status?: UserImportRowStatus): Promise<UserImportRow[]> {
+    await this.findJobById(id);
+    return this.userImportRepository.findRows(id, status);
+  }
+
+  /**
+   * Build the per-row report as CSV
+   */
+  async getReport(id: string): Promise<{ fileName: string; content: string }> {
+    const job = await this.findJobById(id);
+    const rows = await this.userImportRepository.findRows(id);
+
+    const lines = [
+      ['row', 'email', 'status', 'action', 'message', 'userId', 'invited'].join(','),
+      ...rows.map(row => [
+        row.rowNumber,
+        row.email,
+        row.status,
+        row.action,
+        row.message,
+        row.userId,
+        row.invited,
+      ].map(escapeCsv).join(',')),
+    ];
+
+    const baseName = job.fileName.replace(/\.[^.]+$/, '');
+
+    return {
+      fileName: `${baseName}-report-${job.id}.csv`,
+      // BOM so spreadsheet applications read accented names as UTF-8
+      content: `\uFEFF${lines.join('\r\n')}\r\n`,
+    };
+  }
+
+  private async createJob(
+    fileName: string,
+    fileType: string,
+    records: ImportRecord[],
+    options: UserImportOptions,
+    importer: Importer,
+    context: RequestContext
+  ): Promise<UserImportJob> {
+    const { maxRows } = config.userImportConfig;
+    if (records.length > maxRows) {
+      throw new ValidationError(`Imports are limited to ${maxRows} rows per file`);
+    }
+
+    const roleMapping = options.roleMapping
+      ? Object.fromEntries(
+          Object.entries(options.roleMapping).map(([from, to]) => [normalizeRole(from), to])
+        )
+      : undefined;
+
+    // Fail fast on configuration mistakes instead of failing every row
+    const configuredRoles = [options.defaultRole, ...Object.values(roleMapping ?? {})]
+      .filter((role): role is string => !!role);
+    for (const roleName of new Set(configuredRoles)) {
+      if (!(await this.roleRepository.findByName(roleName))) {
+        throw new ValidationError(`Unknown role: ${roleName}`);
+      }
+    }
+
+    const job = await this.userImportRepository.createJob({
+      fileName,
+      fileType,
+      dryRun: options.dryRun,
+      upsert: options.upsert,
+      sendInvitations: options.sendInvitations,
+      defaultRole: options.defaultRole,
+      roleMapping,
+      createdBy: importer.id,
+      rows: records,
+    });
+
+    await this.recordAudit({
+      action: AuditAction.USER_IMPORT_STARTED,
+      userId: importer.id,
+      resource: 'user_import_job',
+      resourceId: job.id,
+      metadata: {
+        fileName,
+        totalRows: records.length,
+        dryRun: options.dryRun,
+        upsert: options.upsert,
+      },
+      success: true,
+    }, context);
+
+    return job;
+  }
+
+  /**
+   * Process the pending rows of a job, one at a time
+   */
+  private async runJob(jobId: string, importer: Importer, context: RequestContext): Promise<void> {
+    if (!(await this.userImportRepository.markStarted(jobId))) {
+      return;
+    }
+
+    const job = await this.findJobById(jobId);
+    const counts: UserImportCounts = {
+      processedRows: 0,
+      createdCount: 0,
+      updatedCount: 0,
+      skippedCount: 0,
+      failedCount: 0,
+      invitedCount: 0,
+    };
+
+    try {
+      const rows = await this.userImportRepository.findRows(jobId, 'pending');
+      const roles = new Map<string, Role | null>();
+      const seenEmails = new Map<string, number>();
+
+      for (const row of rows) {
+        const outcome = await this.processRow(row, job, importer, roles, seenEmails, context)
+          .catch((error): RowOutcome => ({ status: 'failed', message: errorMessage(error) }));
+
+        await this.userImportRepository.updateRow(row.id, outcome);
+
+        counts.processedRows++;
+        if (outcome.status === 'created' || (outcome.status === 'valid' && outcome.action === 'create')) {
+          counts.createdCount++;
+        } else if (outcome.status === 'updated' || (outcome.status === 'valid' && outcome.action === 'update')) {
+          counts.updatedCount++;
+        } else if (outcome.status === 'skipped') {
+          counts.skippedCount++;
+        } else if (outcome.status === 'failed') {
+          counts.failedCount++;
+        }
+        if (outcome.invited) {
+          counts.invitedCount++;
+        }
+
+        if (counts.processedRows % PROGRESS_INTERVAL === 0) {
+          await this.userImportRepository.updateProgress(jobId, counts);
+        }
+      }
+
+      await this.userImportRepository.completeJob(jobId, counts);
+
+      await this.recordAudit({
+        action: AuditAction.USER_IMPORT_COMPLETED,
+        userId: importer.id,
+        resource: 'user_import_job',
+        resourceId: jobId,
+        metadata: { dryRun: job.dryRun, ...counts },
+        success: true,
+      }, context);
+    } catch (error) {
+      await this.userImportRepository.failJob(jobId, errorMessage(error), counts);
+
+      await this.recordAudit({
+        action: AuditAction.USER_IMPORT_COMPLETED,
+        userId: importer.id,
+        resource: 'user_import_job',
+        resourceId: jobId,
+        metadata: counts,
+        success: false,
+        errorMessage: errorMessage(error),
+      }, context);
+
+      throw error;
+    }
+  }
+
+  private async processRow(
+    row: UserImportRow,
+    job: UserImportJob,
+    importer: Importer,
+    roles: Map<string, Role | null>,
+    seenEmails: Map<string, number>,
+    context: RequestContext
+  ): Promise<RowOutcome> {
+    const raw = (row.data ?? {}) as Partial<Record<ImportField, string>>;
+
+    const isActive = parseBoolean(raw.isActive);
+    const isVerified = parseBoolean(raw.isVerified);
+    if (isActive === null || isVerified === null) {
+      return {
+        status: 'failed',
+        message: `Invalid ${isActive === null ? 'isActive' : 'isVerified'} value (use true/false)`,
+      };
+    }
+
+    const parsed = UserImportRowSchema.safeParse({
+      ...raw,
+      isActive,
+      isVerified,
+    });
+    if (!parsed.success) {
+      return {
+        status: 'failed',
+        message: parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '),
+      };
+    }
+
+    const data = parsed.data;
+    const email = data.email.toLowerCase();
+
+    const firstRow = seenEmails.get(email);
+    if (firstRow !== undefined) {
+      return { status: 'failed', message: `Duplicate email (first seen in row ${firstRow})` };
+    }
+    seenEmails.set(email, row.rowNumber);
+
+    const roleName = this.resolveRoleName(data.role || job.defaultRole || '', job.roleMapping);
+    if (!roleName) {
+      return { status: 'failed', message: 'Role is required' };
+    }
+
+    if (!roles.has(roleName)) {
+      roles.set(roleName, await this.roleRepository.findByName(roleName));
+    }
+    const role = roles.get(roleName);
+    if (!role) {
+      return { status: 'failed', message: `Unknown role: ${data.role ?? roleName}` };
+    }
+
+    if (role.name === 'super_admin' && importer.role !== 'super_admin') {
+      return { status: 'failed', message: 'Only super admins can assign the super_admin role' };
+    }
+
+    const existing = await this.userRepository.findByEmail(email);
+
+    if (existing) {
+      if (!job.upsert) {
+        return { status: 'skipped', action: 'skip', message: 'User already exists', userId: existing.id };
+      }
+
+      if (existing.role.name === 'super_admin' && importer.role !== 'super_admin') {
+        return { status: 'failed', action: 'update', message: 'Only super admins can update super admin users' };
+      }
+
+      if (job.dryRun) {
+        return { status: 'valid', action: 'update', userId: existing.id };
+      }
+
+      const changes = {
+        firstName: data.firstName,
+        lastName: data.lastName,
+        roleId: role.id,
+        ...(data.phone ? { phone: data.phone } : {}),
+        ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      };
+
+      await this.userRepository.update(existing.id, changes);
+      if (data.isVerified && !existing.isEmailVerified) {
+        await this.userRepository.verifyEmail(existing.id);
+      }
+
+      logHelpers.userUpdated(existing.id, importer.id, changes, context);
+
+      return { status: 'updated', action: 'update', userId: existing.id };
+    }
+
+    if (job.dryRun) {
+      return { status: 'valid', action: 'create' };
+    }
+
+    // Imported users choose their own password through the invitation link
+    const user = await this.userRepository.create({
+      email,
+      password: await hashPassword(generateSecureToken(32)),
+      firstName: data.firstName,
+      lastName: data.lastName,
+      phone: data.phone || '',
+      roleId: role.id,
+      isActive: data.isActive ?? true,
+      isEmailVerified: data.isVerified ?? false,
+      sendWelcomeEmail: false,
+    });
+
+    logHelpers.userCreated(user.id, importer.id, context);
+
+    if (!job.sendInvitations) {
+      return { status: 'created', action: 'create', userId: user.id };
+    }
+
+    if (!user.isActive) {
+      return { status: 'created', action: 'create', userId: user.id, message: 'Invitation not sent: user is inactive' };
+    }
+
+    try {
+      await this.sendInvitation(user, context);
+      return { status: 'created', action: 'create', userId: user.id, invited: true };
+    } catch (error) {
+      logger.error({
+        requestId: context.requestId,
+        userId: user.id,
+        error: errorMessage(error),
+      }, 'Failed to send import invitation email');
+
+      return { status: 'created', action: 'create', userId: user.id, message: 'Invitation email failed' };
+    }
+  }
+
+  /**
+   * Apply the job role mapping, then the built-in aliases
+   */
+  private resolveRoleName(value: string, roleMapping: unknown): string {
+    const normalized = normalizeRole(value);
+    if (!normalized) {
+      return '';
+    }
+
+    const mapping = (roleMapping ?? {}) as Record<string, string>;
+    return mapping[normalized] ?? ROLE_ALIASES[normalized] ?? normalized;
+  }
+
+  /**
+   * Email a single-use set-password link (same token flow as password reset)
+   */
+  private async sendInvitation(
+    user: { email: string; firstName: string | null },
+    context: RequestContext
+  ): Promise<void> {
+    const { invitationExpiry, invitationUrl } = config.userImportConfig;
+    const token = generatePasswordResetToken();
+
+    await this.passwordResetRepository.create({
+      email: user.email,
+      token: hashPasswordResetToken(token),
+      expiresAt: new Date(Date.now() + invitationExpiry * 1000),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+
+    const url = new URL(invitationUrl);
+    url.searchParams.set('token', token);
+
+    const days = Math.max(1, Math.round(invitationExpiry / 86400));
+    const greeting = user.firstName ? `Olá ${escapeHtml(user.firstName)},` : 'Olá,';
+
+    await this.emailSender.send({
+      to: user.email,
+      subject: 'Convite para o Portal Imobiliário',
+      html: `
+        <p>${greeting}</p>
+        <p>Foi criada uma conta para si no Portal Imobiliário com o email ${escapeHtml(user.email)}.</p>
+        <p><a href="${escapeHtml(url.toString())}">Definir palavra-passe</a></p>
+        <p>Este link é válido durante ${days} dias e só pode ser usado uma vez.</p>
+      `,
+      text: [
+        user.firstName ? `Olá ${user.firstName},` : 'Olá,',
+        `Foi criada uma conta para si no Portal Imobiliário com o email ${user.email}.`,
+        `Definir palavra-passe: ${url.toString()}`,
+        `Este link é válido durante ${days} dias e só pode ser usado uma vez.`,
+      ].join('\n'),
+    });
+  }
+
+  private async recordAudit(entry: AuditLogEntry, context: RequestContext): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          ...entry,
+          ipAddress: entry.ipAddress ?? context.ipAddress,
+          userAgent: entry.userAgent ?? context.userAgent,
+          endpoint: entry.endpoint ?? context.endpoint,
+          method: entry.method ?? context.method,
+        },
+      });
+    } catch (error) {
+      logger.error({
+        requestId: context.requestId,
+        action: entry.action,
+        error: errorMessage(error),
+      }, 'Failed to record audit log');
+    }
+  }
+}
@@ -1,6 +1,17 @@
 import { RoleRepository } from '@/repositories/role.repository';
 import { UserRepository } from '@/repositories/user.repository';
-import type { CreateUserRequest, UpdateUserRequest } from '@/types/auth';
+import { CommunicationService } from '@/services/communication.service';
+import { UserImportService } from '@/services/user-import.service';
+import type {
+  BulkImportUsersRequest,
+  CommunicationListQuery,
+  CreateUserRequest,
+  SendCommunicationRequest,
+  UpdateUserRequest,
+  UserImportJobListQuery,
+  UserImportOptions,
+  UserImportRowStatus,
+} from '@/types/auth';
 import type { PaginatedResponse, Pagination, RequestContext } from '@/types/common';
 import { ConflictError, NotFoundError, ValidationError } from '@/types/common';
 import { hashPassword } from '@/utils/crypto';
@@ -10,6 +21,8 @@ import { PrismaClient } from '@prisma/client';
 export class UserService {
   private _userRepository?: UserRepository;
   private _roleRepository?: RoleRepository;
+  private _communicationService?: CommunicationService;
+  private _userImportService?: UserImportService;
 
   constructor(private prisma: PrismaClient) {
     // Dependencies are initialized lazily
@@ -29,6 +42,20 @@ export class UserService {
     return this._roleRepository;
   }
 
+  private get userImportService(): UserImportService {
+    if (!this._userImportService) {
+      this._userImportService = new UserImportService(this.prisma);
+    }
+    return this._userImportService;
+  }
+
+  private get communicationService(): CommunicationService {
+    if (!this._communicationService) {
+      this._communicationService = new CommunicationService(this.prisma);
+    }
+    return this._communicationService;
+  }
+
   /**
    * Find user by ID
    */
@@ -95,9 +122,11 @@ export class UserService {
     const hashedPassword = await hashPassword(data.password);
 
     // Create user
+    // Accounts provisioned by an admin do not go through email verification
     const user = await this.userRepository.create({
       ...data,
       password: hashedPassword,
+      isEmailVerified: true,
     });
 
     // Log user creation
@@ -274,133 +303,95 @@ export class UserService {
    * Send communication to users
    */
   async sendCommunication(
-    data: {
-      type: 'email' | 'notification' | 'bulk_email';
-      subject: string;
-      message: string;
-      userIds: string[];
-      template?: string;
-      sentBy: string;
-    },
+    data: SendCommunicationRequest & { sentBy: string },
     context: RequestContext
   ) {
-    const { type, subject, message, userIds, template, sentBy } = data;
-    
-    // Get users to send communication to
-    const users = await this.userRepository.findByIds(userIds);
-    
-    if (users.length === 0) {
-      throw new NotFoundError('No users found');
-    }
+    return this.communicationService.send(data, context);
+  }
 
-    let sentCount = 0;
-    const errors: string[] = [];
-
-    for (const user of users) {
-      try {
-        // Personalize message with user data
-        const personalizedMessage = message.replace(
-          '{name}', 
-          user.firstName && user.lastName 
-            ? `${user.firstName} ${user.lastName}` 
-            : user.email.split('@')[0]
-        );
-
-        // Log communication attempt
-        logHelpers.userUpdated(user.id, sentBy, {
-          action: 'COMMUNICATION_SENT',
-          type,
-          subject,
-          template,
-          messageLength: personalizedMessage.length
-        }, context);
-
-        // TODO: Implement actual email/notification sending
-        // For now, we'll just log the communication
-        console.log(`📧 Sending ${type} to ${user.email}: ${subject}`);
-        
-        sentCount++;
-      } catch (error) {
-        errors.push(`Failed to send to ${user.email}: ${error}`);
-      }
-    }
+  /**
+   * Get communication templates and placeholders
+   */
+  getCommunicationTemplates() {
+    return this.communicationService.getTemplates();
+  }
 
-    return {
-      message: `Communication sent to ${sentCount} users`,
-      sentCount,
-      errors: errors.length > 0 ? errors : undefined
-    };
+  /**
+   * Get communication campaign history
+   */
+  async getCommunicationHistory(query: CommunicationListQuery) {
+    return this.communicationService.findCampaigns(query);
+  }
+
+  /**
+   * Get communication campaign with per-recipient delivery status
+   */
+  async getCommunicationCampaign(campaignId: string) {
+    return this.communicationService.findCampaignById(campaignId);
   }
 
   /**
-   * Bulk import users
+   * Bulk import users sent as JSON (waits for the import to finish)
    */
   async bulkImportUsers(
-    users: Array<{
-      email: string;
-      firstName: string;
-      lastName: string;
-      phone?: string;
-      role: string;
-      isActive: boolean;
-      isVerified: boolean;
-    }>,
-    importedBy: string,
+    request: BulkImportUsersRequest,
+    importer: { id: string; role: string },
     context: RequestContext
   ) {
-    let imported = 0;
-    let failed = 0;
-    const errors: string[] = [];
-
-    for (const userData of users) {
-      try {
-        // Check if user already exists
-        const existingUser = await this.userRepository.findByEmail(userData.email);
-        if (existingUser) {
-          errors.push(`User with email ${userData.email} already exists`);
-          failed++;
-          continue;
-        }
-
-        // Get role ID based on role name
-        const role = await this.roleRepository.findByName(userData.role);
-        if (!role) {
-          errors.push(`Invalid role ${userData.role} for user ${userData.email}`);
-          failed++;
-          continue;
-        }
-
-        // Create user
-        const hashedPassword = await hashPassword('TempPassword123!'); // Default password for imported users
-        
-        await this.userRepository.create({
-          email: userData.email,
-          password: hashedPassword,
-          firstName: userData.firstName,
-          lastName: userData.lastName,
-          phone: userData.phone || '',
-          roleId: role.id,
-          isActive: userData.isActive,
-          sendWelcomeEmail: false, // Don't send welcome email for imported users
-        });
-
-        // Log user creation
-        logHelpers.userCreated(userData.email, importedBy, context);
-
-        imported++;
-      } catch (error) {
-        errors.push(`Failed to import user ${userData.email}: ${error}`);
-        failed++;
-      }
-    }
+    const job = await this.userImportService.importRecords(request, importer, context);
+    const failedRows = await this.userImportService.findJobRows(job.id, 'failed');
 
     return {
-      imported,
-      failed,
-      errors: errors.length > 0 ? errors : undefined
+      jobId: job.id,
+      imported: job.createdCount + job.updatedCount,
+      failed: job.failedCount,
+      skipped: job.skippedCount,
+      errors: failedRows.length > 0
+        ? failedRows.map(row => `Row ${row.rowNumber} (${row.email ?? 'no email'}): ${row.message}`)
+        : undefined,
     };
   }
 
+  /**
+   * Start a bulk import job from a CSV or XLSX file
+   */
+  async startUserImport(
+    file: { fileName: string; content: Buffer },
+    options: UserImportOptions,
+    importer: { id: string; role: string },
+    context: RequestContext
+  ) {
+    return this.userImportService.importFile(file, options, importer, context);
+  }
+
+  /**
+   * Get bulk import jobs
+   */
+  async getUserImportJobs(query: UserImportJobListQuery) {
+    return this.userImportService.findJobs(query);
+  }
+
+  /**
+   * Get bulk import job progress
+   */
+  async getUserImportJob(jobId: string) {
+    return this.userImportService.findJobById(jobId);
+  }
+
+  /**
+   * Get bulk import per-row results
+   */
+  async getUserImportRows(jobId: string, status?: UserImportRowStatus) {
+    return this.userImportService.findJobRows(jobId, status);
+  }
+
+  /**
+   * Get bulk import report as CSV
+   */
+  async getUserImportReport(jobId: string) {
+    return this.userImportService.getReport(jobId);
+  }
+
   /**
    * Get user audit logs
    */
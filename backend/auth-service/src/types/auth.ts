@@ -111,6 +111,35 @@ export interface RefreshToken {
   revokedAt: Date | null;
 }
 
+export interface PasswordReset {
+  id: string;
+  email: string;
+  token: string;    // SHA256 hash of the emailed token
+  isUsed: boolean;
+  expiresAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  usedAt: Date | null;
+}
+
+export interface EmailVerification {
+  id: string;
+  email: string;
+  token: string;    // SHA256 hash of the emailed token
+  isUsed: boolean;
+  expiresAt: Date;
+  createdAt: Date;
+  usedAt: Date | null;
+}
+
+export interface PasswordHistoryEntry {
+  id: string;
+  userId: string;
+  password: string; // Previous Argon2 hash
+  createdAt: Date;
+}
+
 export interface JWTPayload {
   sub: string;      // User ID
   email: string;
@@ -122,6 +151,7 @@ export interface JWTPayload {
   iss: string;      // Issuer
   aud: string;      // Audience
   jti: string;      // JWT ID
+  emailVerified?: boolean;
 }
 
 export interface TokenPair {
@@ -183,6 +213,18 @@ export const ForgotPasswordSchema = z.object({
 
 export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordSchema>;
 
+export const VerifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+export type VerifyEmailRequest = z.infer<typeof VerifyEmailSchema>;
+
+export const ResendVerificationSchema = z.object({
+  email: EmailSchema,
+});
+
+export type ResendVerificationRequest = z.infer<typeof ResendVerificationSchema>;
+
 export const RefreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
@@ -303,16 +345,56 @@ export interface ApiKey {
   createdBy?: string;
 }
 
+// Scopes follow the "<action>:<resource>" format (e.g. "read:properties")
+const apiKeyScopeSchema = z.string().regex(/^(read|write|delete):[a-z_]+$/, 'Invalid scope format');
+
 export const CreateApiKeySchema = z.object({
   name: z.string().min(1, 'API key name is required').max(100),
-  permissions: z.array(z.string()).min(1, 'At least one permission is required'),
-  scopes: z.array(z.string()).optional().default([]),
+  permissions: z.array(z.string()).optional().default([]),
+  scopes: z.array(apiKeyScopeSchema).optional().default([]),
   expiresAt: z.string().datetime().optional(),
-  rateLimit: z.number().positive().optional(),
+  rateLimit: z.number().int().positive().optional(),
+}).refine(data => data.permissions.length > 0 || data.scopes.length > 0, {
+  message: 'At least one permission or scope is required',
+  path: ['permissions'],
 });
 
 export type CreateApiKeyRequest = z.infer<typeof CreateApiKeySchema>;
 
+export const UpdateApiKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  permissions: z.array(z.string()).optional(),
+  scopes: z.array(apiKeyScopeSchema).optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  rateLimit: z.number().int().positive().nullable().optional(),
+});
+
+export type UpdateApiKeyRequest = z.infer<typeof UpdateApiKeySchema>;
+
+export const VerifyApiKeySchema = z.object({
+  key: z.string().min(1, 'API key is required'),
+});
+
+export interface ApiKeyListQuery {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  isActive?: boolean;
+}
+
+/**
+ * Identidade de uma API key validada (usada pelo api-gateway)
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  permissions: string[];
+  scopes: string[];
+  rateLimit?: number;
+  expiresAt?: Date;
+}
+
 export interface CreateApiKeyResponse {
   id: string;
   name: string;
@@ -417,6 +499,9 @@ export interface AccountLockInfo {
 // SETTINGS TYPES
 // =====================================================
 
+// What users who have not verified their email can do
+export type UnverifiedUserAccess = 'none' | 'browse' | 'full';
+
 export interface AuthSettings {
   passwordMinLength: number;
   passwordRequireUpper: boolean;
@@ -435,6 +520,7 @@ export interface AuthSettings {
   twoFactorGracePeriod: number;
   emailVerificationRequired: boolean;
   emailVerificationExpiry: number;
+  unverifiedUserAccess: UnverifiedUserAccess;
   passwordResetExpiry: number;
 }
 
@@ -456,6 +542,7 @@ export const UpdateAuthSettingsSchema = z.object({
   twoFactorGracePeriod: z.number().min(0).max(604800).optional(), // 0 to 7 days
   emailVerificationRequired: z.boolean().optional(),
   emailVerificationExpiry: z.number().min(300).max(604800).optional(), // 5 minutes to 7 days
+  unverifiedUserAccess: z.enum(['none', 'browse', 'full']).optional(),
   passwordResetExpiry: z.number().min(300).max(86400).optional(), // 5 minutes to 24 hours
 });
 
@@ -508,6 +595,187 @@ export interface AuditLog {
   createdAt: Date;
 }
 
+// =====================================================
+// COMMUNICATION TYPES
+// =====================================================
+
+export type CommunicationType = 'email' | 'notification' | 'bulk_email';
+export type CommunicationStatus = 'sending' | 'completed' | 'partial' | 'failed';
+export type CommunicationRecipientStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+// Subject and message may be omitted when a named template provides them
+export const SendCommunicationSchema = z.object({
+  type: z.enum(['email', 'notification', 'bulk_email']),
+  subject: z.string().max(200).optional(),
+  message: z.string().max(20000).optional(),
+  userIds: z.array(z.string().min(1)).min(1, 'At least one recipient is required').max(1000),
+  template: z.string().optional(),
+});
+
+export type SendCommunicationRequest = z.infer<typeof SendCommunicationSchema>;
+
+export interface CommunicationTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  message: string;
+  notificationType: 'SYSTEM_ANNOUNCEMENT' | 'MARKET_UPDATE' | 'REMINDER' | 'WELCOME';
+}
+
+export interface CommunicationRecipient {
+  id: string;
+  campaignId: string;
+  userId: string;
+  email: string | null;
+  status: string;
+  error: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CommunicationCampaign {
+  id: string;
+  type: string;
+  template: string | null;
+  subject: string;
+  message: string;
+  status: string;
+  recipientCount: number;
+  sentCount: number;
+  failedCount: number;
+  skippedCount: number;
+  sentBy: string;
+  createdAt: Date;
+  completedAt: Date | null;
+  recipients?: CommunicationRecipient[];
+}
+
+export interface CommunicationResult {
+  campaignId: string;
+  message: string;
+  status: string;
+  recipientCount: number;
+  sentCount: number;
+  failedCount: number;
+  skippedCount: number;
+  errors?: string[];
+}
+
+export const CommunicationListQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  type: z.enum(['email', 'notification', 'bulk_email']).optional(),
+});
+
+export type CommunicationListQuery = z.infer<typeof CommunicationListQuerySchema>;
+
+// =====================================================
+// USER IMPORT TYPES
+// =====================================================
+
+export type UserImportJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type UserImportRowStatus = 'pending' | 'valid' | 'created' | 'updated' | 'skipped' | 'failed';
+export type UserImportRowAction = 'create' | 'update' | 'skip';
+
+// Multipart fields arrive as strings
+const FormBooleanSchema = z.preprocess(
+  (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+export const UserImportOptionsSchema = z.object({
+  dryRun: FormBooleanSchema.default(false),
+  upsert: FormBooleanSchema.default(false),
+  sendInvitations: FormBooleanSchema.default(true),
+  defaultRole: z.string().min(1).max(50).optional(),
+  roleMapping: z.preprocess(
+    (value) => {
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    },
+    z.record(z.string().min(1).max(50))
+  ).optional(),
+});
+
+export type UserImportOptions = z.infer<typeof UserImportOptionsSchema>;
+
+// Row values after header mapping, before role resolution
+export const UserImportRowSchema = z.object({
+  email: EmailSchema,
+  firstName: z.string().min(1, 'First name is required').max(50),
+  lastName: z.string().min(1, 'Last name is required').max(50),
+  phone: PhoneSchema.optional(),
+  role: z.string().max(50).optional(),
+  isActive: z.boolean().optional(),
+  isVerified: z.boolean().optional(),
+});
+
+export type UserImportRowData = z.infer<typeof UserImportRowSchema>;
+
+export const BulkImportUsersSchema = UserImportOptionsSchema.extend({
+  users: z.array(z.object({
+    email: z.string(),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    phone: z.string().optional(),
+    role: z.string().optional(),
+    isActive: z.boolean().optional(),
+    isVerified: z.boolean().optional(),
+  })).min(1, 'At least one user is required'),
+});
+
+export type BulkImportUsersRequest = z.infer<typeof BulkImportUsersSchema>;
+
+export interface UserImportRow {
+  id: string;
+  jobId: string;
+  rowNumber: number;
+  email: string | null;
+  data: unknown;
+  status: string;
+  action: string | null;
+  message: string | null;
+  userId: string | null;
+  invited: boolean;
+  processedAt: Date | null;
+}
+
+export interface UserImportJob {
+  id: string;
+  fileName: string;
+  fileType: string;
+  dryRun: boolean;
+  upsert: boolean;
+  sendInvitations: boolean;
+  defaultRole: string | null;
+  roleMapping: unknown;
+  status: string;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  invitedCount: number;
+  error: string | null;
+  createdBy: string;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+export const UserImportJobListQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
+});
+
+export type UserImportJobListQuery = z.infer<typeof UserImportJobListQuerySchema>;
+
 // Export lowercase versions for compatibility
 export const loginSchema = LoginSchema;
 export const refreshTokenSchema = RefreshTokenSchema;
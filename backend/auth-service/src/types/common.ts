@@ -156,6 +156,8 @@ export enum AuditAction {
   PASSWORD_CHANGED = 'auth.password_changed',
   PASSWORD_RESET_REQUESTED = 'auth.password_reset_requested',
   PASSWORD_RESET_COMPLETED = 'auth.password_reset_completed',
+  EMAIL_VERIFICATION_SENT = 'auth.email_verification_sent',
+  EMAIL_VERIFIED = 'auth.email_verified',
   
   // Two-factor authentication
   TWO_FACTOR_ENABLED = 'auth.2fa_enabled',
@@ -170,6 +172,9 @@ export enum AuditAction {
   USER_ACTIVATED = 'user.activated',
   USER_DEACTIVATED = 'user.deactivated',
   USER_ROLE_CHANGED = 'user.role_changed',
+  USER_COMMUNICATION_SENT = 'user.communication_sent',
+  USER_IMPORT_STARTED = 'user.import_started',
+  USER_IMPORT_COMPLETED = 'user.import_completed',
   
   // Role management
   ROLE_CREATED = 'role.created',
@@ -189,6 +194,8 @@ export enum AuditAction {
   
   // API Key management
   API_KEY_CREATED = 'api_key.created',
+  API_KEY_UPDATED = 'api_key.updated',
+  API_KEY_ROTATED = 'api_key.rotated',
   API_KEY_DELETED = 'api_key.deleted',
   API_KEY_USED = 'api_key.used',
   
@@ -250,6 +257,7 @@ export enum PermissionEnum {
   API_KEYS_READ = 'api_keys.read',
   API_KEYS_CREATE = 'api_keys.create',
   API_KEYS_DELETE = 'api_keys.delete',
+  API_KEYS_REVOKE = 'api_keys.revoke',
   
   // Analytics and monitoring
   ANALYTICS_READ = 'analytics.read',
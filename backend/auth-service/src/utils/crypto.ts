@@ -82,6 +82,20 @@ export function generateSessionToken(): string {
   return generateSecureToken(48); // 96 character hex string
 }
 
+/**
+ * Generate a password reset token (sent by email, only its hash is stored)
+ */
+export function generatePasswordResetToken(): string {
+  return generateSecureToken(32); // 64 character hex string
+}
+
+/**
+ * Generate an email verification token (sent by email, only its hash is stored)
+ */
+export function generateEmailVerificationToken(): string {
+  return generateSecureToken(32); // 64 character hex string
+}
+
 /**
  * Generate an API key
  */
@@ -131,6 +145,20 @@ export function hashApiKey(apiKey: string): string {
   return sha256(apiKey);
 }
 
+/**
+ * Hash a password reset token for storage
+ */
+export function hashPasswordResetToken(token: string): string {
+  return sha256(token);
+}
+
+/**
+ * Hash an email verification token for storage
+ */
+export function hashEmailVerificationToken(token: string): string {
+  return sha256(token);
+}
+
 /**
  * Get API key preview (first 8 characters for identification)
  */
@@ -317,6 +345,40 @@ export function analyzePasswordStrength(password: string): PasswordStrengthResul
   };
 }
 
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSymbols: boolean;
+}
+
+/**
+ * Validate a password against the configured password policy
+ * Returns the list of unmet requirements (empty when valid)
+ */
+export function validatePasswordPolicy(password: string, policy: PasswordPolicy): string[] {
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters long`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireNumbers && !/\d/.test(password)) {
+    errors.push('Password must contain a number');
+  }
+  if (policy.requireSymbols && !/[^a-zA-Z0-9]/.test(password)) {
+    errors.push('Password must contain a special character');
+  }
+
+  return errors;
+}
+
 // =====================================================
 // TIMING SAFE COMPARISON
 // =====================================================
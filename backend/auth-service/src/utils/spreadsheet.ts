@@ -0,0 +1,329 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Spreadsheet parsing for bulk imports
+ * Both formats are returned as rows of trimmed cell strings, header row included
+ */
+
+export type SpreadsheetType = 'csv' | 'xlsx';
+
+// Largest decompressed XLSX part; guards against ZIP bombs small enough to pass the upload limit
+export const MAX_XLSX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+/**
+ * Detect spreadsheet type from file name and content
+ */
+export function detectSpreadsheetType(fileName: string, buffer: Buffer): SpreadsheetType {
+  // XLSX files are ZIP archives ("PK\x03\x04")
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50) {
+    return 'xlsx';
+  }
+
+  if (fileName.toLowerCase().endsWith('.xlsx')) {
+    throw new SpreadsheetError('Invalid XLSX file');
+  }
+
+  return 'csv';
+}
+
+/**
+ * Parse CSV or XLSX content into rows
+ */
+export function parseSpreadsheet(buffer: Buffer, type: SpreadsheetType): string[][] {
+  const rows = type === 'xlsx'
+    ? parseXlsx(buffer)
+    : parseCsv(buffer.toString('utf8'));
+
+  // Drop fully empty rows (trailing lines, spacer rows in spreadsheets)
+  return rows.filter(row => row.some(cell => cell !== ''));
+}
+
+/**
+ * Parse CSV text (RFC 4180)
+ * Supports quoted fields with commas, line breaks and escaped quotes, and detects
+ * the ";" delimiter used by spreadsheet exports in Portuguese locales
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(content);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new SpreadsheetError('Unterminated quoted field in CSV file');
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Use ";" when the header line has more semicolons than commas (outside quotes)
+ */
+function detectDelimiter(text: string): string {
+  let commas = 0;
+  let semicolons = 0;
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && char === ',') {
+      commas++;
+    } else if (!inQuotes && char === ';') {
+      semicolons++;
+    }
+  }
+
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook
+ */
+export function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const read = (name: string): string | undefined => {
+    const entry = entries.get(name);
+    return entry ? entry().toString('utf8') : undefined;
+  };
+
+  const sheetXml = read(findFirstSheetPath(read));
+  if (!sheetXml) {
+    throw new SpreadsheetError('XLSX file has no worksheet');
+  }
+
+  const sharedStrings = parseSharedStrings(read('xl/sharedStrings.xml'));
+  const rows: string[][] = [];
+
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    const cells = rowMatch[1] ?? '';
+
+    for (const cellMatch of cells.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const reference = /\br="([A-Z]+)\d+"/.exec(attributes)?.[1];
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = cellValue(type, body, sharedStrings).trim();
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function cellValue(type: string | undefined, body: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return textContent(body);
+  }
+
+  const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+  if (value === undefined) {
+    return '';
+  }
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'b':
+      return value === '1' ? 'true' : 'false';
+    default:
+      return decodeXml(value);
+  }
+}
+
+/**
+ * Resolve the first sheet through the workbook relationships
+ */
+function findFirstSheetPath(read: (name: string) => string | undefined): string {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const relationId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(read('xl/workbook.xml') ?? '')?.[1];
+  const relations = read('xl/_rels/workbook.xml.rels');
+
+  if (!relationId || !relations) {
+    return fallback;
+  }
+
+  for (const match of relations.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (match[0].includes(`Id="${relationId}"`)) {
+      const target = /\bTarget="([^"]+)"/.exec(match[0])?.[1];
+      if (target) {
+        return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      }
+    }
+  }
+
+  return fallback;
+}
+
+function parseSharedStrings(xml: string | undefined): string[] {
+  if (!xml) {
+    return [];
+  }
+
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => textContent(match[1]));
+}
+
+/**
+ * Concatenate text runs, ignoring phonetic hints
+ */
+function textContent(xml: string): string {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(text.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the ZIP central directory; entries are decompressed on demand
+ */
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+  const endOfDirectory = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(endOfDirectory + 10);
+  let offset = buffer.readUInt32LE(endOfDirectory + 16);
+
+  const entries = new Map<string, () => Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new SpreadsheetError('Invalid XLSX file');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (buffer.readUInt32LE(localHeaderOffset) !== 0x04034b50) {
+        throw new SpreadsheetError('Invalid XLSX file');
+      }
+
+      const dataStart = localHeaderOffset + 30
+        + buffer.readUInt16LE(localHeaderOffset + 26)
+        + buffer.readUInt16LE(localHeaderOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      if (uncompressedSize > MAX_XLSX_ENTRY_SIZE) {
+        throw new SpreadsheetError('XLSX file is too large');
+      }
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        return inflateEntry(data);
+      }
+      throw new SpreadsheetError(`Unsupported XLSX compression method: ${method}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Inflate a ZIP entry without trusting its declared size
+ */
+function inflateEntry(data: Buffer): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_SIZE });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new SpreadsheetError('XLSX file is too large');
+    }
+    throw new SpreadsheetError('Invalid XLSX file');
+  }
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is at least 22 bytes and may be followed by a comment of up to 64KB
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      return offset;
+    }
+  }
+
+  throw new SpreadsheetError('Invalid XLSX file');
+}
@@ -0,0 +1,59 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const storage = vi.hoisted(() => ({
+  getObject: vi.fn(async () => ({ body: Buffer.from('jpeg'), contentType: 'image/jpeg' })),
+  uploadStream: vi.fn(),
+}));
+
+vi.mock('../storage/storage.factory', () => ({ storage, contentTypeFromKey: () => 'image/jpeg' }));
+
+import { mediaRoutes } from '../routes/media.routes';
+
+/**
+ * Public object reads are limited to MEDIA_PUBLIC_BUCKETS - NO STORAGE
+ */
+
+describe('mediaRoutes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    await app.register(mediaRoutes, { prefix: '/api/v1/media' });
+  });
+
+  beforeEach(() => {
+    storage.getObject.mockClear();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should serve objects of a public bucket', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/media/images/abc/photo.jpg' });
+
+    expect(response.statusCode).toBe(200);
+    expect(storage.getObject).toHaveBeenCalledWith('images', 'abc/photo.jpg');
+  });
+
+  it('should reply 404 for buckets outside MEDIA_PUBLIC_BUCKETS', async () => {
+    for (const url of [
+      '/api/v1/media/settings-backups/manifest.json',
+      '/api/v1/media/originals/abc/original.jpg',
+    ]) {
+      const response = await app.inject({ method: 'GET', url });
+
+      expect(response.statusCode).toBe(404);
+    }
+    expect(storage.getObject).not.toHaveBeenCalled();
+  });
+
+  it('should refuse uploads into a private bucket', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/v1/media/upload?bucket=settings-backups' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toEqual({ error: 'Invalid bucket' });
+    expect(storage.uploadStream).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const storage = vi.hoisted(() => ({
+  list: vi.fn(async () => ({ objects: [] })),
+  exists: vi.fn(async () => true),
+  getSignedUrl: vi.fn(async () => 'https://storage.example.com/signed'),
+}));
+
+vi.mock('../storage/storage.factory', () => ({ storage, DEFAULT_LIST_LIMIT: 1000 }));
+
+import { objectRoutes } from '../routes/objects.routes';
+
+/**
+ * Input validation of the object management routes - NO STORAGE
+ */
+
+const ADMIN = { 'x-user-role': 'admin' };
+
+describe('objectRoutes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    await app.register(objectRoutes, { prefix: '/api/v1/media' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should reply 400 to invalid list queries', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/media/objects/images?limit=5000', headers: ADMIN });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ error: 'Invalid query', details: { limit: expect.any(Array) } });
+    expect(storage.list).not.toHaveBeenCalled();
+  });
+
+  it('should reply 400 to signed URL lifetimes out of range', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/media/signed-url/images/a.jpg?expiresIn=10', headers: ADMIN });
+
+    expect(response.statusCode).toBe(400);
+    expect(storage.getSignedUrl).not.toHaveBeenCalled();
+  });
+
+  it('should reply 400 to invalid reconcile bodies', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/v1/media/reconcile', headers: ADMIN, payload: { dryRun: 'no' } });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ error: 'Invalid body', details: { dryRun: expect.any(Array) } });
+  });
+
+  it('should still serve valid requests', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/media/objects/images?limit=10&prefix=a/', headers: ADMIN });
+
+    expect(response.statusCode).toBe(200);
+    expect(storage.list).toHaveBeenCalledWith('images', { limit: 10, prefix: 'a/' });
+  });
+});
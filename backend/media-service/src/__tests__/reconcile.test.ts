@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const storage = vi.hoisted(() => ({
+  list: vi.fn(),
+  deleteObject: vi.fn(),
+}));
+
+vi.mock('../storage/storage.factory', () => ({ storage }));
+
+import { reconcileBucket } from '../jobs/reconcile';
+
+/**
+ * Orphan reconciliation against stubbed reference endpoints - NO STORAGE, NO NETWORK
+ */
+
+const HOUR = 60 * 60 * 1000;
+const log = { info: vi.fn() } as any;
+
+function object(key: string, ageHours: number) {
+  return { key, size: 1, lastModified: new Date(Date.now() - ageHours * HOUR) };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+// Serves the reference pages of each properties-service source and the settings logo/favicon
+function stubReferences(references: Record<string, string[][]>, settings: Record<string, unknown>) {
+  const fetchMock = vi.fn(async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.pathname === '/api/v1/settings') {
+      return json({ data: settings });
+    }
+
+    const pages = references[url.searchParams.get('source')!] ?? [[]];
+    const index = Number(url.searchParams.get('cursor') ?? 0);
+    return json({ data: pages[index], pagination: { nextCursor: index + 1 < pages.length ? String(index + 1) : null } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('reconcileBucket', () => {
+  beforeEach(() => {
+    storage.list.mockResolvedValue({
+      objects: [
+        object('uploads/kept.jpg', 48),
+        object('a/paged.webp', 48),
+        object('property.jpg', 48),
+        object('project.png', 48),
+        object('logo.png', 48),
+        object('favicon.png', 48),
+        object('orphan.jpg', 48),
+        object('fresh.jpg', 1),
+      ],
+    });
+    storage.deleteObject.mockResolvedValue(true);
+
+    stubReferences(
+      {
+        images: [['https://cdn.example.com/images/uploads/kept.jpg'], ['/api/v1/media/images/a/paged.webp?w=640&sig=x']],
+        properties: [['http://minio:9000/images/property.jpg']],
+        projects: [['project.png']],
+      },
+      { logoUrl: '/api/v1/media/images/logo.png', faviconUrl: 'https://www.example.com/favicon.png' }
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('should report unreferenced objects without deleting them on a dry run', async () => {
+    const report = await reconcileBucket({ bucket: 'images', dryRun: true }, log);
+
+    expect(report).toEqual({
+      bucket: 'images',
+      dryRun: true,
+      scanned: 8,
+      referenced: 6,
+      skippedRecent: 1,
+      orphaned: ['orphan.jpg'],
+      deleted: 0,
+    });
+    expect(storage.deleteObject).not.toHaveBeenCalled();
+  });
+
+  it('should delete only old orphans when dryRun is off', async () => {
+    const report = await reconcileBucket({ bucket: 'images', dryRun: false }, log);
+
+    expect(storage.deleteObject).toHaveBeenCalledTimes(1);
+    expect(storage.deleteObject).toHaveBeenCalledWith('images', 'orphan.jpg');
+    expect(report.deleted).toBe(1);
+  });
+
+  it('should keep recent unreferenced objects, as their record may not be saved yet', async () => {
+    await reconcileBucket({ bucket: 'images', dryRun: false }, log);
+
+    expect(storage.deleteObject).not.toHaveBeenCalledWith('images', 'fresh.jpg');
+  });
+
+  it('should follow the storage listing cursor', async () => {
+    storage.list
+      .mockResolvedValueOnce({ objects: [object('orphan-1.jpg', 48)], nextCursor: 'page-2' })
+      .mockResolvedValueOnce({ objects: [object('orphan-2.jpg', 48)] });
+
+    const report = await reconcileBucket({ bucket: 'images', dryRun: true }, log);
+
+    expect(storage.list).toHaveBeenLastCalledWith('images', { cursor: 'page-2' });
+    expect(report.orphaned).toEqual(['orphan-1.jpg', 'orphan-2.jpg']);
+  });
+
+  it('should delete nothing when a reference source is unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => json({ error: 'Unavailable' }, 503)));
+
+    await expect(reconcileBucket({ bucket: 'images', dryRun: false }, log)).rejects.toThrow('responded with 503');
+    expect(storage.list).not.toHaveBeenCalled();
+    expect(storage.deleteObject).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { NoSuchKey, NotFound } from '@aws-sdk/client-s3';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GCSStorage } from '../storage/storage.gcs';
+import { LocalStorage } from '../storage/storage.local';
+import { S3Storage } from '../storage/storage.s3';
+
+/**
+ * delete/exists/list of the storage adapters; S3 and GCS run against stubbed clients - NO NETWORK
+ */
+
+describe('storage adapters', () => {
+  describe('LocalStorage', () => {
+    let rootDir: string;
+    let storage: LocalStorage;
+
+    beforeEach(async () => {
+      rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-storage-test-'));
+      vi.stubEnv('MEDIA_LOCAL_DIR', rootDir);
+      storage = new LocalStorage();
+
+      for (const key of ['a/1.jpg', 'a/2.jpg', 'b/3.webp', 'c.png']) {
+        await fs.mkdir(path.dirname(path.join(rootDir, 'images', key)), { recursive: true });
+        await fs.writeFile(path.join(rootDir, 'images', key), 'x');
+      }
+    });
+
+    afterEach(async () => {
+      vi.unstubAllEnvs();
+      await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('should report whether objects exist', async () => {
+      expect(await storage.exists('images', 'a/1.jpg')).toBe(true);
+      expect(await storage.exists('images', 'a/9.jpg')).toBe(false);
+      expect(await storage.exists('images', 'a')).toBe(false);
+      expect(await storage.exists('other', 'a/1.jpg')).toBe(false);
+    });
+
+    it('should delete objects and report missing ones', async () => {
+      expect(await storage.deleteObject('images', 'a/1.jpg')).toBe(true);
+      expect(await storage.deleteObject('images', 'a/1.jpg')).toBe(false);
+      expect(await storage.exists('images', 'a/1.jpg')).toBe(false);
+    });
+
+    it('should refuse keys outside the bucket directory', async () => {
+      await expect(storage.deleteObject('images', '../../outside.jpg')).rejects.toThrow('Invalid object path');
+    });
+
+    it('should page through keys in lexical order', async () => {
+      const first = await storage.list('images', { limit: 3 });
+      expect(first.objects.map((object) => object.key)).toEqual(['a/1.jpg', 'a/2.jpg', 'b/3.webp']);
+      expect(first.objects[0]).toMatchObject({ size: 1, contentType: 'image/jpeg' });
+      expect(first.nextCursor).toBe('b/3.webp');
+
+      const second = await storage.list('images', { limit: 3, cursor: first.nextCursor });
+      expect(second).toEqual({ objects: [expect.objectContaining({ key: 'c.png' })], nextCursor: undefined });
+    });
+
+    it('should filter by prefix and list missing buckets as empty', async () => {
+      expect((await storage.list('images', { prefix: 'a/' })).objects.map((object) => object.key)).toEqual(['a/1.jpg', 'a/2.jpg']);
+      expect(await storage.list('missing')).toEqual({ objects: [], nextCursor: undefined });
+    });
+  });
+
+  describe('S3Storage', () => {
+    let storage: S3Storage;
+    let send: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      storage = new S3Storage();
+      send = vi.fn();
+      Object.assign(storage, { client: { send } });
+    });
+
+    const notFound = () => new NotFound({ message: 'Not Found', $metadata: {} });
+
+    it('should map HEAD 404 to a missing object', async () => {
+      send.mockRejectedValueOnce(notFound()).mockResolvedValueOnce({ ContentLength: 3 });
+
+      expect(await storage.exists('images', 'a.jpg')).toBe(false);
+      expect(await storage.exists('images', 'b.jpg')).toBe(true);
+      expect(send.mock.calls[1][0].input).toEqual({ Bucket: 'images', Key: 'b.jpg' });
+    });
+
+    it('should rethrow other errors instead of reporting a missing object', async () => {
+      send.mockRejectedValueOnce(new Error('AccessDenied'));
+
+      await expect(storage.exists('images', 'a.jpg')).rejects.toThrow('AccessDenied');
+    });
+
+    it('should only delete objects that exist', async () => {
+      send.mockRejectedValueOnce(notFound());
+      expect(await storage.deleteObject('images', 'a.jpg')).toBe(false);
+      expect(send).toHaveBeenCalledTimes(1);
+
+      send.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+      expect(await storage.deleteObject('images', 'b.jpg')).toBe(true);
+      expect(send.mock.calls[2][0].constructor.name).toBe('DeleteObjectCommand');
+    });
+
+    it('should pass the cursor as continuation token and return the next one', async () => {
+      const lastModified = new Date('2024-01-01T00:00:00Z');
+      send.mockResolvedValueOnce({
+        Contents: [{ Key: 'a.jpg', Size: 4, LastModified: lastModified, ETag: '"e"' }, { Size: 1 }],
+        IsTruncated: true,
+        NextContinuationToken: 'next',
+      });
+
+      const result = await storage.list('images', { prefix: 'a', cursor: 'token', limit: 10 });
+
+      expect(send.mock.calls[0][0].input).toEqual({ Bucket: 'images', Prefix: 'a', ContinuationToken: 'token', MaxKeys: 10 });
+      expect(result).toEqual({ objects: [{ key: 'a.jpg', size: 4, lastModified, etag: '"e"' }], nextCursor: 'next' });
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      send.mockResolvedValueOnce({ Contents: [], IsTruncated: false, NextContinuationToken: 'ignored' });
+
+      expect(await storage.list('images')).toEqual({ objects: [], nextCursor: undefined });
+      expect(send.mock.calls[0][0].input.MaxKeys).toBe(1000);
+    });
+
+    it('should map GET NoSuchKey to a missing object', async () => {
+      send.mockRejectedValueOnce(new NoSuchKey({ message: 'NoSuchKey', $metadata: {} }));
+
+      expect(await storage.getObject('images', 'a.jpg')).toBeNull();
+    });
+  });
+
+  describe('GCSStorage', () => {
+    let storage: GCSStorage;
+    let files: Record<string, { exists: ReturnType<typeof vi.fn>; delete: ReturnType<typeof vi.fn> }>;
+    let getFiles: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      files = {};
+      getFiles = vi.fn();
+      const file = (key: string) => {
+        files[key] ??= { exists: vi.fn(async () => [key.startsWith('present')]), delete: vi.fn(async () => [{}]) };
+        return files[key];
+      };
+
+      storage = new GCSStorage();
+      Object.assign(storage, { storage: { bucket: () => ({ file, getFiles }) } });
+    });
+
+    it('should report whether objects exist', async () => {
+      expect(await storage.exists('images', 'present.jpg')).toBe(true);
+      expect(await storage.exists('images', 'absent.jpg')).toBe(false);
+    });
+
+    it('should only delete objects that exist', async () => {
+      expect(await storage.deleteObject('images', 'absent.jpg')).toBe(false);
+      expect(files['absent.jpg'].delete).not.toHaveBeenCalled();
+
+      expect(await storage.deleteObject('images', 'present.jpg')).toBe(true);
+      expect(files['present.jpg'].delete).toHaveBeenCalledWith({ ignoreNotFound: true });
+    });
+
+    it('should request a single page and return its page token', async () => {
+      getFiles.mockResolvedValueOnce([
+        [{ name: 'a.jpg', metadata: { size: '4', contentType: 'image/jpeg', updated: '2024-01-01T00:00:00Z', etag: 'e' } }],
+        { pageToken: 'next' },
+      ]);
+
+      const result = await storage.list('images', { prefix: 'a', cursor: 'token', limit: 10 });
+
+      expect(getFiles).toHaveBeenCalledWith({ prefix: 'a', pageToken: 'token', maxResults: 10, autoPaginate: false });
+      expect(result).toEqual({
+        objects: [{ key: 'a.jpg', size: 4, contentType: 'image/jpeg', lastModified: new Date('2024-01-01T00:00:00Z'), etag: 'e' }],
+        nextCursor: 'next',
+      });
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      getFiles.mockResolvedValueOnce([[], null]);
+
+      expect(await storage.list('images')).toEqual({ objects: [], nextCursor: undefined });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TransformCache } from '../images/transform-cache';
+
+/**
+ * Signed transform URLs, transform parameter bounds and the derivative cache - NO STORAGE
+ */
+
+// Directory of the module-level cache, which loads in the background on import
+const MODULE_CACHE_DIR = path.join(os.tmpdir(), `media-transform-test-${process.pid}`);
+
+// The signing secret and dev flag are read when the module loads
+async function loadTransform(env: Record<string, string>) {
+  vi.resetModules();
+  vi.stubEnv('MEDIA_CACHE_DIR', MODULE_CACHE_DIR);
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  return import('../images/transform');
+}
+
+function signatureOf(url: string): string {
+  return new URL(url, 'http://media').searchParams.get('sig') || '';
+}
+
+describe('transform', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterAll(async () => {
+    await fs.rm(MODULE_CACHE_DIR, { recursive: true, force: true });
+  });
+
+  describe('signatures', () => {
+    it('should accept the signature of URLs it built', async () => {
+      const { buildTransformUrl, verifySignature } = await loadTransform({ MEDIA_SIGNING_SECRET: 'secret' });
+      const url = buildTransformUrl('properties', 'abc/photo.jpg', { w: 640, format: 'webp' });
+
+      expect(url).toMatch(/^\/api\/v1\/media\/properties\/abc\/photo\.jpg\?format=webp&w=640&sig=/);
+      expect(verifySignature('properties', 'abc/photo.jpg', { format: 'webp', w: 640 }, signatureOf(url))).toBe(true);
+    });
+
+    it('should reject missing, forged and reused signatures', async () => {
+      const { buildTransformUrl, verifySignature } = await loadTransform({ MEDIA_SIGNING_SECRET: 'secret' });
+      const sig = signatureOf(buildTransformUrl('properties', 'abc/photo.jpg', { w: 640 }));
+
+      expect(verifySignature('properties', 'abc/photo.jpg', { w: 640 })).toBe(false);
+      expect(verifySignature('properties', 'abc/photo.jpg', { w: 640 }, 'forged')).toBe(false);
+      expect(verifySignature('properties', 'abc/photo.jpg', { w: 1920 }, sig)).toBe(false);
+      expect(verifySignature('properties', 'abc/other.jpg', { w: 640 }, sig)).toBe(false);
+      expect(verifySignature('settings', 'abc/photo.jpg', { w: 640 }, sig)).toBe(false);
+    });
+
+    it('should refuse every transform when no secret is configured', async () => {
+      const { buildTransformUrl, verifySignature } = await loadTransform({ MEDIA_SIGNING_SECRET: '', NODE_ENV: 'development' });
+
+      expect(buildTransformUrl('properties', 'abc/photo.jpg', { w: 640 })).not.toContain('sig=');
+      expect(verifySignature('properties', 'abc/photo.jpg', { w: 640 })).toBe(false);
+    });
+
+    it('should only serve unsigned transforms with the dev flag outside production', async () => {
+      const dev = await loadTransform({ MEDIA_SIGNING_SECRET: '', MEDIA_ALLOW_UNSIGNED_TRANSFORMS: 'true', NODE_ENV: 'development' });
+      expect(dev.verifySignature('properties', 'abc/photo.jpg', { w: 640 })).toBe(true);
+
+      const production = await loadTransform({ MEDIA_SIGNING_SECRET: '', MEDIA_ALLOW_UNSIGNED_TRANSFORMS: 'true', NODE_ENV: 'production' });
+      expect(production.verifySignature('properties', 'abc/photo.jpg', { w: 640 })).toBe(false);
+    });
+  });
+
+  describe('transformParamsSchema', () => {
+    it('should coerce query string values', async () => {
+      const { transformParamsSchema } = await loadTransform({});
+
+      expect(transformParamsSchema.parse({ w: '640', h: '480', q: '75', fit: 'cover', format: 'auto' }))
+        .toEqual({ w: 640, h: 480, q: 75, fit: 'cover', format: 'auto' });
+    });
+
+    it('should reject sizes and qualities out of bounds', async () => {
+      const { transformParamsSchema } = await loadTransform({});
+
+      for (const query of [{ w: '0' }, { w: '4001' }, { h: '-10' }, { w: '12.5' }, { q: '0' }, { q: '101' }, { fit: 'fill' }, { format: 'png' }]) {
+        expect(transformParamsSchema.safeParse(query).success).toBe(false);
+      }
+      expect(transformParamsSchema.safeParse({ w: '4000', h: '4000', q: '100' }).success).toBe(true);
+    });
+  });
+
+  describe('TransformCache', () => {
+    let cacheDir: string;
+    const jpeg = (size: number) => Buffer.alloc(size, 1);
+
+    beforeEach(async () => {
+      cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-transform-cache-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should evict the least recently used entries once over the limit', async () => {
+      const cache = new TransformCache(cacheDir, 10);
+      await cache.set('a', jpeg(4), 'image/jpeg');
+      await cache.set('b', jpeg(4), 'image/jpeg');
+      expect(await cache.get('a')).not.toBeNull();
+
+      await cache.set('c', jpeg(4), 'image/jpeg');
+
+      expect(await cache.get('b')).toBeNull();
+      expect((await cache.get('a'))?.body).toEqual(jpeg(4));
+      expect((await cache.get('c'))?.contentType).toBe('image/jpeg');
+      await vi.waitFor(async () => expect((await fs.readdir(cacheDir)).sort()).toEqual(['a.jpg', 'c.jpg']));
+    });
+
+    it('should not store derivatives larger than the whole cache', async () => {
+      const cache = new TransformCache(cacheDir, 10);
+      await cache.set('big', jpeg(11), 'image/jpeg');
+
+      expect(await cache.get('big')).toBeNull();
+      expect(await fs.readdir(cacheDir)).toEqual([]);
+    });
+
+    it('should rebuild the index from disk, oldest files first', async () => {
+      await fs.writeFile(path.join(cacheDir, 'old.webp'), jpeg(6));
+      await fs.utimes(path.join(cacheDir, 'old.webp'), new Date(1000), new Date(1000));
+      await fs.writeFile(path.join(cacheDir, 'new.webp'), jpeg(6));
+
+      const cache = new TransformCache(cacheDir, 10);
+
+      expect(await cache.get('old')).toBeNull();
+      expect((await cache.get('new'))?.contentType).toBe('image/webp');
+    });
+  });
+});
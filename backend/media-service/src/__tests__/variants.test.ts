@@ -0,0 +1,129 @@
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const uploads = vi.hoisted(() => {
+  process.env.IMAGE_VARIANTS = 'card:200x150:cover';
+  process.env.IMAGE_VARIANT_FORMATS = 'webp';
+  process.env.SETTINGS_SERVICE_URL = 'http://settings.test';
+  return [] as Array<{ bucket: string; key: string; contentType: string; body: Buffer }>;
+});
+
+vi.mock('../storage/storage.factory', () => ({
+  storage: {
+    uploadStream: vi.fn(async ({ bucket, key, contentType, body }: { bucket: string; key: string; contentType: string; body: Readable }) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of body) chunks.push(Buffer.from(chunk));
+      uploads.push({ bucket, key, contentType, body: Buffer.concat(chunks) });
+      return { bucket, key, contentType, url: `/api/v1/media/${bucket}/${key}` };
+    }),
+  },
+}));
+
+/**
+ * ?variants=true upload pipeline: metadata stripping, watermark and the archived original - NO STORAGE
+ */
+
+const BLUE = { r: 0, g: 0, b: 255 };
+
+// 400x300 blue camera photo carrying GPS coordinates and a camera model
+async function cameraPhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 400, height: 300, channels: 3, background: BLUE } })
+    .withExif({
+      IFD0: { Make: 'Camera', Model: 'X100' },
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '38/1 42/1 0/1', GPSLongitudeRef: 'W', GPSLongitude: '9/1 8/1 0/1' },
+    })
+    .jpeg()
+    .toBuffer();
+}
+
+async function redLogo(): Promise<Buffer> {
+  return sharp({ create: { width: 100, height: 100, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } }).png().toBuffer();
+}
+
+function stubSettings(watermarkEnabled: boolean, logo: Buffer) {
+  vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+    if (input.endsWith('/api/v1/module-settings/properties')) {
+      return Response.json({ data: { watermarkEnabled, watermarkPosition: 'bottom-right', watermarkOpacity: 1 } });
+    }
+    if (input.endsWith('/api/v1/settings')) {
+      return Response.json({ data: { logoUrl: 'http://cdn.test/logo.png' } });
+    }
+    return new Response(new Uint8Array(logo));
+  }));
+}
+
+async function pixel(image: Buffer, x: number, y: number) {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return { r: data[offset], g: data[offset + 1], b: data[offset + 2] };
+}
+
+// Lossy encodings shift the colours slightly
+const isRed = ({ r, b }: { r: number; b: number }) => r > 200 && b < 60;
+const isBlue = ({ r, b }: { r: number; b: number }) => r < 60 && b > 200;
+
+async function loadVariants() {
+  vi.resetModules();
+  return import('../images/variants');
+}
+
+describe('generateVariants', () => {
+  beforeEach(() => {
+    uploads.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should strip camera metadata from every variant and from the archived original', async () => {
+    const photo = await cameraPhoto();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+    stubSettings(false, await redLogo());
+    const { generateVariants } = await loadVariants();
+
+    await generateVariants(photo, 'images', 'image/jpeg');
+
+    expect(uploads.map(({ bucket, key, contentType }) => ({ bucket, key, contentType }))).toEqual([
+      { bucket: 'images', key: expect.stringMatching(/\/card$/), contentType: 'image/webp' },
+      { bucket: 'images', key: expect.stringMatching(/\/card$/), contentType: 'image/jpeg' },
+      { bucket: 'originals', key: expect.stringMatching(/\/original$/), contentType: 'image/jpeg' },
+    ]);
+    for (const upload of uploads) {
+      const metadata = await sharp(upload.body).metadata();
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.xmp).toBeUndefined();
+      expect(metadata.iptc).toBeUndefined();
+    }
+  });
+
+  it('should watermark the variants but not the archived original', async () => {
+    stubSettings(true, await redLogo());
+    const { generateVariants } = await loadVariants();
+
+    const generated = await generateVariants(await cameraPhoto(), 'images', 'image/jpeg');
+
+    expect(generated.variants.card).toMatchObject({ width: 200, height: 150 });
+    const variants = uploads.filter((upload) => upload.bucket === 'images');
+    for (const variant of variants) {
+      // Logo box is 20% of the variant, anchored bottom-right inside its margin
+      expect(isRed(await pixel(variant.body, 180, 130))).toBe(true);
+      expect(isBlue(await pixel(variant.body, 20, 20))).toBe(true);
+    }
+
+    const original = uploads.find((upload) => upload.bucket === 'originals')!;
+    expect(await sharp(original.body).metadata()).toMatchObject({ width: 400, height: 300 });
+    expect(isBlue(await pixel(original.body, 360, 260))).toBe(true);
+  });
+
+  it('should upload without watermark when settings-service is unreachable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('connect ECONNREFUSED'); }));
+    const { generateVariants } = await loadVariants();
+
+    await generateVariants(await cameraPhoto(), 'images', 'image/jpeg');
+
+    const variant = uploads.find((upload) => upload.bucket === 'images')!;
+    expect(isBlue(await pixel(variant.body, 180, 130))).toBe(true);
+  });
+});
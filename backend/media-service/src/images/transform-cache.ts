@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { contentTypeFromKey } from '../storage/storage.factory';
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  contentType: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+};
+
+/**
+ * Disk cache for derived images with least-recently-used eviction once `maxBytes` is exceeded.
+ * The index is rebuilt from the directory on startup (oldest modification first).
+ */
+export class TransformCache {
+  // Map iteration order doubles as the LRU order: first entry is the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private ready: Promise<void>;
+
+  constructor(private dir: string, private maxBytes: number) {
+    this.ready = this.load();
+  }
+
+  async get(hash: string): Promise<{ body: Buffer; contentType: string } | null> {
+    await this.ready;
+    const entry = this.entries.get(hash);
+    if (!entry) return null;
+
+    try {
+      const body = await fs.readFile(path.join(this.dir, entry.file));
+      this.entries.delete(hash);
+      this.entries.set(hash, entry);
+      return { body, contentType: entry.contentType };
+    } catch {
+      this.remove(hash, entry);
+      return null;
+    }
+  }
+
+  async set(hash: string, body: Buffer, contentType: string): Promise<void> {
+    await this.ready;
+    if (body.length > this.maxBytes) return;
+
+    const file = `${hash}${EXTENSIONS[contentType] || ''}`;
+    const tmpPath = path.join(this.dir, `${file}.tmp`);
+    await fs.writeFile(tmpPath, body);
+    await fs.rename(tmpPath, path.join(this.dir, file));
+
+    const previous = this.entries.get(hash);
+    if (previous) this.remove(hash, previous, false);
+    this.entries.set(hash, { file, size: body.length, contentType });
+    this.totalBytes += body.length;
+
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    for (const [hash, entry] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.remove(hash, entry);
+    }
+  }
+
+  private remove(hash: string, entry: CacheEntry, unlink = true): void {
+    this.entries.delete(hash);
+    this.totalBytes -= entry.size;
+    if (unlink) {
+      fs.unlink(path.join(this.dir, entry.file)).catch(() => undefined);
+    }
+  }
+
+  private async load(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const files = (await fs.readdir(this.dir)).filter((file) => !file.endsWith('.tmp'));
+
+    const stats = await Promise.all(files.map(async (file) => ({ file, stat: await fs.stat(path.join(this.dir, file)) })));
+    stats.sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs);
+
+    for (const { file, stat } of stats) {
+      const hash = path.parse(file).name;
+      this.entries.set(hash, { file, size: stat.size, contentType: contentTypeFromKey(file) });
+      this.totalBytes += stat.size;
+    }
+
+    await this.evict();
+  }
+}
@@ -0,0 +1,103 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { z } from 'zod';
+import { StoredObject } from '../storage/storage.factory';
+import { TransformCache } from './transform-cache';
+import { encode, FORMAT_OPTIONS, VariantFormat } from './variants';
+
+export const transformParamsSchema = z.object({
+  w: z.coerce.number().int().positive().max(4000).optional(),
+  h: z.coerce.number().int().positive().max(4000).optional(),
+  fit: z.enum(['cover', 'inside', 'contain']).optional(),
+  format: z.enum(['jpeg', 'webp', 'avif', 'auto']).optional(),
+  q: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type TransformParams = z.infer<typeof transformParamsSchema>;
+
+const PARAM_NAMES = ['fit', 'format', 'h', 'q', 'w'] as const;
+
+const signingSecret = process.env.MEDIA_SIGNING_SECRET || '';
+
+// Local development only: serve unsigned transforms when no secret is configured
+const allowUnsigned = process.env.MEDIA_ALLOW_UNSIGNED_TRANSFORMS === 'true' && process.env.NODE_ENV !== 'production';
+
+// Sizes the public /sign endpoint accepts, so unsigned callers cannot fill the cache with arbitrary sizes
+export const SIGNABLE_SIZES = (process.env.MEDIA_TRANSFORM_SIZES || '160,320,480,640,960,1280,1600,1920')
+  .split(',')
+  .map((size) => Number(size.trim()))
+  .filter((size) => Number.isInteger(size) && size > 0);
+
+export const transformCache = new TransformCache(
+  path.resolve(process.env.MEDIA_CACHE_DIR || path.join(os.tmpdir(), 'media-transform-cache')),
+  Number(process.env.MEDIA_CACHE_MAX_BYTES || 512 * 1024 * 1024)
+);
+
+export function hasTransform(params: TransformParams): boolean {
+  return PARAM_NAMES.some((name) => params[name] !== undefined);
+}
+
+function canonicalQuery(params: TransformParams): string {
+  return PARAM_NAMES
+    .filter((name) => params[name] !== undefined)
+    .map((name) => `${name}=${params[name]}`)
+    .join('&');
+}
+
+function sign(bucket: string, key: string, params: TransformParams): string {
+  return createHmac('sha256', signingSecret)
+    .update(`${bucket}/${key}?${canonicalQuery(params)}`)
+    .digest('base64url');
+}
+
+/**
+ * Without MEDIA_SIGNING_SECRET every transformation is refused, unless MEDIA_ALLOW_UNSIGNED_TRANSFORMS
+ * is set outside production.
+ */
+export function verifySignature(bucket: string, key: string, params: TransformParams, signature?: string): boolean {
+  if (!signingSecret) {
+    return allowUnsigned;
+  }
+  if (!signature) return false;
+
+  const expected = Buffer.from(sign(bucket, key, params));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+export function buildTransformUrl(bucket: string, key: string, params: TransformParams): string {
+  const query = canonicalQuery(params);
+  const signature = signingSecret ? `${query ? '&' : ''}sig=${sign(bucket, key, params)}` : '';
+  const publicUrl = (process.env.MEDIA_PUBLIC_URL || '').replace(/\/+$/, '');
+  return `${publicUrl}/api/v1/media/${bucket}/${key}${query || signature ? '?' : ''}${query}${signature}`;
+}
+
+/**
+ * `auto` picks the best format the client accepts; otherwise the source format is kept when it is encodable
+ */
+export function resolveFormat(params: TransformParams, sourceContentType: string | undefined, accept = ''): VariantFormat {
+  if (params.format === 'auto') {
+    if (accept.includes('image/avif')) return 'avif';
+    if (accept.includes('image/webp')) return 'webp';
+    return 'jpeg';
+  }
+  if (params.format) return params.format;
+
+  const sourceFormat = (Object.keys(FORMAT_OPTIONS) as VariantFormat[])
+    .find((format) => FORMAT_OPTIONS[format].contentType === sourceContentType);
+  return sourceFormat || 'jpeg';
+}
+
+export function cacheKey(bucket: string, key: string, params: TransformParams, format: VariantFormat): string {
+  return createHash('sha256').update(`${bucket}/${key}?${canonicalQuery({ ...params, format })}`).digest('hex');
+}
+
+export async function renderTransform(source: StoredObject, params: TransformParams, format: VariantFormat): Promise<Buffer> {
+  let pipeline = sharp(source.body, { failOnError: false }).rotate();
+  if (params.w || params.h) {
+    pipeline = pipeline.resize(params.w, params.h, { fit: params.fit || 'inside', withoutEnlargement: true });
+  }
+  return encode(pipeline, format, params.q).toBuffer();
+}
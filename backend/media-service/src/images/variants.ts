@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { storage } from '../storage/storage.factory';
+import { applyWatermark, getWatermark } from './watermark';
+
+export type VariantFormat = 'avif' | 'webp' | 'jpeg';
+
+export interface VariantDefinition {
+  name: string;
+  width: number;
+  height: number;
+  fit: 'cover' | 'inside';
+}
+
+export interface GeneratedVariant {
+  width: number;
+  height: number;
+  sources: Partial<Record<VariantFormat, string>>;
+}
+
+export interface GeneratedVariants {
+  width: number;
+  height: number;
+  dominantColor: string;
+  variants: Record<string, GeneratedVariant>;
+}
+
+export const FORMAT_OPTIONS: Record<VariantFormat, { contentType: string; quality: number }> = {
+  avif: { contentType: 'image/avif', quality: 55 },
+  webp: { contentType: 'image/webp', quality: 80 },
+  jpeg: { contentType: 'image/jpeg', quality: 82 },
+};
+
+// Same syntax as properties-service: name:WIDTHxHEIGHT[:cover|inside], comma-separated
+const DEFAULT_VARIANTS = 'thumb:320x240:cover,card:640x480:cover,detail:1280x960:inside,full:1920x1080:inside';
+const DEFAULT_FORMATS = 'avif,webp,jpeg';
+
+function parseVariants(raw: string): VariantDefinition[] {
+  return raw.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const match = /^([a-z][a-z0-9-]*):(\d+)x(\d+)(?::(cover|inside))?$/.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid IMAGE_VARIANTS entry "${entry}"`);
+    }
+    return {
+      name: match[1],
+      width: Number(match[2]),
+      height: Number(match[3]),
+      fit: (match[4] as VariantDefinition['fit'] | undefined) ?? 'inside',
+    };
+  });
+}
+
+function parseFormats(raw: string): VariantFormat[] {
+  const formats = raw.split(',').map((format) => format.trim().toLowerCase()).filter(Boolean);
+  const invalid = formats.find((format) => !(format in FORMAT_OPTIONS));
+  if (invalid) {
+    throw new Error(`Invalid IMAGE_VARIANT_FORMATS entry "${invalid}"`);
+  }
+  // JPEG fallback is always generated
+  return [...new Set([...(formats as VariantFormat[]), 'jpeg' as const])];
+}
+
+export const VARIANTS = parseVariants(process.env.IMAGE_VARIANTS || DEFAULT_VARIANTS);
+export const VARIANT_FORMATS = parseFormats(process.env.IMAGE_VARIANT_FORMATS || DEFAULT_FORMATS);
+
+// Unwatermarked full-resolution copies; GET /api/v1/media/:bucket/* refuses this bucket
+export const ORIGINALS_BUCKET = process.env.MEDIA_ORIGINALS_BUCKET || 'originals';
+
+// Archived originals keep their input format, re-encoded at high quality without metadata
+const ORIGINAL_FORMATS: Record<string, (pipeline: sharp.Sharp) => sharp.Sharp> = {
+  'image/jpeg': (pipeline) => pipeline.jpeg({ quality: 95, mozjpeg: true }),
+  'image/png': (pipeline) => pipeline.png(),
+  'image/webp': (pipeline) => pipeline.webp({ quality: 95 }),
+  'image/avif': (pipeline) => pipeline.avif({ quality: 90 }),
+};
+
+export function encode(pipeline: sharp.Sharp, format: VariantFormat, quality = FORMAT_OPTIONS[format].quality): sharp.Sharp {
+  if (format === 'avif') return pipeline.avif({ quality, effort: 4 });
+  if (format === 'webp') return pipeline.webp({ quality });
+  return pipeline.jpeg({ quality, progressive: true, mozjpeg: true });
+}
+
+/**
+ * Encode every variant in every format and upload them under `<id>/<variant>.<ext>`, and archive the
+ * original without watermark as `<id>/original.<ext>` in ORIGINALS_BUCKET. Same pipeline as the
+ * properties-service uploads: each variant is resized once to raw pixels and encoded from those, so no
+ * EXIF/GPS/XMP metadata from the camera reaches the published files; the watermark, if enabled, is
+ * composited at that size.
+ */
+export async function generateVariants(
+  input: Buffer,
+  bucket: string,
+  contentType: string,
+  log?: { warn(obj: object, msg: string): void }
+): Promise<GeneratedVariants> {
+  const id = randomUUID();
+  const source = sharp(input, { failOnError: false }).rotate();
+  const variants: Record<string, GeneratedVariant> = {};
+  const watermark = await getWatermark(log);
+
+  for (const variant of VARIANTS) {
+    const { data, info } = await source.clone()
+      .resize(variant.width, variant.height, { fit: variant.fit, withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    let resized = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+    if (watermark) {
+      resized = await applyWatermark(resized, info.width, info.height, watermark);
+    }
+
+    const generated: GeneratedVariant = { width: info.width, height: info.height, sources: {} };
+    for (const format of VARIANT_FORMATS) {
+      const uploaded = await storage.uploadStream({
+        bucket,
+        key: `${id}/${variant.name}`,
+        contentType: FORMAT_OPTIONS[format].contentType,
+        body: Readable.from(await encode(resized.clone(), format).toBuffer()),
+      });
+      generated.sources[format] = uploaded.url;
+    }
+
+    variants[variant.name] = generated;
+  }
+
+  const originalType = contentType in ORIGINAL_FORMATS ? contentType : 'image/jpeg';
+  await storage.uploadStream({
+    bucket: ORIGINALS_BUCKET,
+    key: `${id}/original`,
+    contentType: originalType,
+    body: Readable.from(await ORIGINAL_FORMATS[originalType](source.clone()).toBuffer()),
+  });
+
+  const { dominant } = await source.clone().stats();
+  const largest = Object.values(variants).reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+
+  return {
+    width: largest.width,
+    height: largest.height,
+    dominantColor: `#${[dominant.r, dominant.g, dominant.b].map((c) => c.toString(16).padStart(2, '0')).join('')}`,
+    variants,
+  };
+}
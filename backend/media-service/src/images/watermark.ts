@@ -0,0 +1,124 @@
+import sharp from 'sharp';
+
+// Same settings as properties-service uploads: the "properties" module (enabled, position, opacity) and the site logo
+const settingsServiceUrl = (process.env.SETTINGS_SERVICE_URL || 'http://settings:8085').replace(/\/+$/, '');
+
+const SETTINGS_CACHE_TTL_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 5 * 1024 * 1024;
+
+// Logo box relative to the photo, and the margin around it relative to the logo
+const WATERMARK_SIZE_RATIO = 0.2;
+const WATERMARK_MARGIN_RATIO = 0.15;
+const MIN_WATERMARK_PX = 16;
+
+const GRAVITY: Record<string, string> = {
+  'top-left': 'northwest',
+  'top-right': 'northeast',
+  'bottom-left': 'southwest',
+  'bottom-right': 'southeast',
+  center: 'centre',
+};
+
+export interface Watermark {
+  logo: Buffer;
+  position: string;
+  opacity: number;
+}
+
+interface Logger {
+  warn(obj: object, msg: string): void;
+}
+
+let cached: { logoUrl: string | null; watermark: Watermark | null; loadedAt: number } | null = null;
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`GET ${url} responded with ${response.status}`);
+  }
+  return response.json();
+}
+
+async function downloadLogo(logoUrl: string): Promise<Buffer> {
+  const response = await fetch(logoUrl, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Logo download responded with ${response.status}`);
+  }
+
+  const logo = Buffer.from(await response.arrayBuffer());
+  if (logo.length > MAX_LOGO_BYTES) {
+    throw new Error(`Logo is larger than ${MAX_LOGO_BYTES / (1024 * 1024)}MB`);
+  }
+
+  // Fails early on anything sharp cannot decode (e.g. an HTML error page)
+  await sharp(logo).metadata();
+  return logo;
+}
+
+/**
+ * Watermark to apply to new uploads, or null when disabled in the module settings or no logo is available.
+ * Never throws: uploads go through unbranded if settings-service or the logo cannot be reached.
+ */
+export async function getWatermark(log?: Logger): Promise<Watermark | null> {
+  if (cached && Date.now() - cached.loadedAt < SETTINGS_CACHE_TTL_MS) {
+    return cached.watermark;
+  }
+
+  try {
+    const [moduleSettings, settings] = await Promise.all([
+      fetchJson(`${settingsServiceUrl}/api/v1/module-settings/properties`),
+      fetchJson(`${settingsServiceUrl}/api/v1/settings`),
+    ]);
+    const { watermarkEnabled, watermarkPosition, watermarkOpacity } = moduleSettings.data ?? {};
+    const logoUrl: string | null = settings.data?.logoUrl || null;
+
+    let watermark: Watermark | null = null;
+    if (watermarkEnabled === true && logoUrl) {
+      const logo = logoUrl === cached?.logoUrl && cached.watermark ? cached.watermark.logo : await downloadLogo(logoUrl);
+      watermark = {
+        logo,
+        position: watermarkPosition in GRAVITY ? watermarkPosition : 'bottom-right',
+        opacity: typeof watermarkOpacity === 'number' ? Math.min(Math.max(watermarkOpacity, 0.05), 1) : 0.5,
+      };
+    }
+
+    cached = { logoUrl, watermark, loadedAt: Date.now() };
+    return watermark;
+  } catch (error) {
+    log?.warn({ err: error }, 'Watermark settings unavailable, uploading without watermark');
+    return cached?.watermark ?? null;
+  }
+}
+
+/**
+ * Composite the watermark onto a photo already resized to `width` x `height`
+ */
+export async function applyWatermark(image: sharp.Sharp, width: number, height: number, watermark: Watermark): Promise<sharp.Sharp> {
+  const boxWidth = Math.round(width * WATERMARK_SIZE_RATIO);
+  const boxHeight = Math.round(height * WATERMARK_SIZE_RATIO);
+  if (boxWidth < MIN_WATERMARK_PX || boxHeight < MIN_WATERMARK_PX) {
+    return image;
+  }
+
+  const margin = Math.round(Math.min(boxWidth, boxHeight) * WATERMARK_MARGIN_RATIO);
+  const overlay = await sharp(watermark.logo)
+    .resize(boxWidth, boxHeight, { fit: 'inside' })
+    .ensureAlpha()
+    // Scale the logo's own alpha channel by the configured opacity
+    .composite([{
+      input: Buffer.from([255, 255, 255, Math.round(watermark.opacity * 255)]),
+      raw: { width: 1, height: 1, channels: 4 },
+      tile: true,
+      blend: 'dest-in',
+    }])
+    .png()
+    .toBuffer();
+
+  const padded = await sharp(overlay)
+    .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+
+  return image.composite([{ input: padded, gravity: GRAVITY[watermark.position] }]);
+}
@@ -0,0 +1,148 @@
+import { FastifyBaseLogger } from 'fastify';
+import { storage } from '../storage/storage.factory';
+
+export interface ReconcileOptions {
+  bucket: string;
+  dryRun: boolean;
+}
+
+export interface ReconcileReport {
+  bucket: string;
+  dryRun: boolean;
+  scanned: number;
+  referenced: number;
+  skippedRecent: number;
+  orphaned: string[];
+  deleted: number;
+}
+
+const REFERENCE_SOURCES = ['images', 'properties', 'projects'] as const;
+
+const propertiesServiceUrl = (process.env.PROPERTIES_SERVICE_URL || 'http://properties:8082').replace(/\/+$/, '');
+const settingsServiceUrl = (process.env.SETTINGS_SERVICE_URL || 'http://settings:8085').replace(/\/+$/, '');
+const minAgeMs = Number(process.env.MEDIA_RECONCILE_MIN_AGE_HOURS || 24) * 60 * 60 * 1000;
+const intervalMs = Number(process.env.MEDIA_RECONCILE_INTERVAL_HOURS || 0) * 60 * 60 * 1000;
+
+export const RECONCILE_BUCKETS = (process.env.MEDIA_RECONCILE_BUCKETS || 'images')
+  .split(',')
+  .map((bucket) => bucket.trim())
+  .filter(Boolean);
+
+async function fetchJson(url: string): Promise<any> {
+  const headers: Record<string, string> = { accept: 'application/json' };
+  if (process.env.INTERNAL_API_KEY) {
+    headers['x-internal-api-key'] = process.env.INTERNAL_API_KEY;
+  }
+
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(30000) });
+  if (!response.ok) {
+    throw new Error(`GET ${url} responded with ${response.status}`);
+  }
+  return response.json();
+}
+
+async function loadReferencedUrls(): Promise<string[]> {
+  const urls: string[] = [];
+
+  for (const source of REFERENCE_SOURCES) {
+    let cursor: string | null = null;
+    do {
+      const query: string = new URLSearchParams({ source, limit: '1000', ...(cursor ? { cursor } : {}) }).toString();
+      const page = await fetchJson(`${propertiesServiceUrl}/api/v1/media-references?${query}`);
+      urls.push(...page.data);
+      cursor = page.pagination?.nextCursor ?? null;
+    } while (cursor);
+  }
+
+  const settings = await fetchJson(`${settingsServiceUrl}/api/v1/settings`);
+  urls.push(...[settings.data?.logoUrl, settings.data?.faviconUrl].filter(Boolean));
+
+  return urls;
+}
+
+// Every trailing path of every URL, so an object matches whatever host or route prefix its URL was built with
+function referencedPaths(urls: string[]): Set<string> {
+  const paths = new Set<string>();
+  for (const url of urls) {
+    let pathname: string;
+    try {
+      pathname = new URL(url, 'http://localhost').pathname;
+    } catch {
+      continue;
+    }
+    const segments = decodeURIComponent(pathname).split('/').filter(Boolean);
+    for (let i = 0; i < segments.length; i++) {
+      paths.add(segments.slice(i).join('/'));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Lists the bucket and reports (or deletes) objects not referenced by any property image,
+ * property, project or the settings logo/favicon. Objects younger than MEDIA_RECONCILE_MIN_AGE_HOURS
+ * are kept, as they may belong to an upload whose record has not been saved yet.
+ * Throws without deleting anything when the references cannot be loaded.
+ */
+export async function reconcileBucket({ bucket, dryRun }: ReconcileOptions, log: FastifyBaseLogger): Promise<ReconcileReport> {
+  const referenced = referencedPaths(await loadReferencedUrls());
+  const report: ReconcileReport = { bucket, dryRun, scanned: 0, referenced: 0, skippedRecent: 0, orphaned: [], deleted: 0 };
+  const cutoff = Date.now() - minAgeMs;
+
+  let cursor: string | undefined;
+  do {
+    const page = await storage.list(bucket, { cursor });
+    for (const object of page.objects) {
+      report.scanned++;
+      if (referenced.has(object.key)) {
+        report.referenced++;
+      } else if (object.lastModified && object.lastModified.getTime() > cutoff) {
+        report.skippedRecent++;
+      } else {
+        report.orphaned.push(object.key);
+      }
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  if (!dryRun) {
+    for (const key of report.orphaned) {
+      if (await storage.deleteObject(bucket, key)) {
+        report.deleted++;
+      }
+    }
+  }
+
+  log.info({ ...report, orphaned: report.orphaned.length }, 'Media reconciliation finished');
+  return report;
+}
+
+/**
+ * Runs the reconciliation every MEDIA_RECONCILE_INTERVAL_HOURS (disabled when 0).
+ * Scheduled runs only delete when MEDIA_RECONCILE_DELETE=true. Returns a function that stops the schedule.
+ */
+export function scheduleReconciliation(log: FastifyBaseLogger): () => void {
+  if (intervalMs <= 0) {
+    return () => undefined;
+  }
+
+  const dryRun = process.env.MEDIA_RECONCILE_DELETE !== 'true';
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const bucket of RECONCILE_BUCKETS) {
+        await reconcileBucket({ bucket, dryRun }, log);
+      }
+    } catch (error) {
+      log.error({ err: error }, 'Media reconciliation failed');
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
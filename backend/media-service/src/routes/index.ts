@@ -1,8 +1,10 @@
 import { FastifyInstance } from 'fastify';
 import { mediaRoutes } from './media.routes';
+import { objectRoutes } from './objects.routes';
 
 export async function registerRoutes(fastify: FastifyInstance) {
   await fastify.register(mediaRoutes, { prefix: '/api/v1/media' });
+  await fastify.register(objectRoutes, { prefix: '/api/v1/media' });
 }
 
 
@@ -2,7 +2,39 @@ import '@fastify/multipart';
 import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import sharp from 'sharp';
 import { z } from 'zod';
-import { storage } from '../storage/storage.factory';
+import {
+  buildTransformUrl,
+  cacheKey,
+  hasTransform,
+  renderTransform,
+  resolveFormat,
+  SIGNABLE_SIZES,
+  transformCache,
+  transformParamsSchema,
+  verifySignature,
+} from '../images/transform';
+import { encode, FORMAT_OPTIONS, generateVariants, ORIGINALS_BUCKET } from '../images/variants';
+import { contentTypeFromKey, storage } from '../storage/storage.factory';
+
+const BUCKET_PATTERN = /^[a-z0-9][a-z0-9.-]{1,62}$/;
+
+// Buckets served without authentication and accepted for uploads. The storage credentials reach
+// other buckets too (settings backups, unwatermarked originals), which must never be served here.
+export const PUBLIC_BUCKETS = (process.env.MEDIA_PUBLIC_BUCKETS || 'images')
+  .split(',')
+  .map((bucket) => bucket.trim())
+  .filter((bucket) => bucket && bucket !== ORIGINALS_BUCKET);
+
+const signBodySchema = z.object({
+  items: z.array(transformParamsSchema.extend({
+    bucket: z.string().regex(BUCKET_PATTERN),
+    key: z.string().min(1),
+    q: z.number().int().min(1).max(90).optional(),
+  })).max(100),
+});
+
+// Renders in progress, keyed by cache hash
+const inFlight = new Map<string, Promise<Buffer | null>>();
 
 const uploadQuerySchema = z.object({
   bucket: z.string().default('images'),
@@ -10,6 +42,8 @@ const uploadQuerySchema = z.object({
   width: z.coerce.number().int().positive().max(4000).default(1920),
   height: z.coerce.number().int().positive().max(4000).default(1080),
   quality: z.coerce.number().int().min(1).max(100).default(85),
+  format: z.enum(['jpeg', 'webp', 'avif']).default('jpeg'),
+  variants: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
 });
 
 export async function mediaRoutes(fastify: FastifyInstance) {
@@ -26,12 +60,17 @@ export async function mediaRoutes(fastify: FastifyInstance) {
           transform: { type: 'string', enum: ['original', 'resize', 'cover'] },
           width: { type: 'number' },
           height: { type: 'number' },
-          quality: { type: 'number' }
+          quality: { type: 'number' },
+          format: { type: 'string', enum: ['jpeg', 'webp', 'avif'] },
+          variants: { type: 'string', enum: ['true', 'false'] }
         }
       }
     }
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     const query = uploadQuerySchema.parse(request.query);
+    if (!PUBLIC_BUCKETS.includes(query.bucket)) {
+      return reply.code(400).send({ error: 'Invalid bucket' });
+    }
     const file = await getFile(request as any);
     if (!file) return reply.code(400).send({ error: 'No file' });
 
@@ -40,18 +79,31 @@ export async function mediaRoutes(fastify: FastifyInstance) {
       return reply.code(400).send({ error: 'Unsupported image type' });
     }
 
+    // Named responsive variants (IMAGE_VARIANTS) in every IMAGE_VARIANT_FORMATS format
+    if (query.variants) {
+      const generated = await generateVariants(await file.toBuffer(), query.bucket, file.mimetype, request.log);
+      return reply.code(201).send({
+        success: true,
+        data: generated,
+      });
+    }
+
     let stream = file.file;
+    let contentType = file.mimetype;
     if (query.transform !== 'original') {
       const fit = query.transform === 'cover' ? 'cover' : 'inside';
-      const transformer = sharp()
-        .resize(query.width, query.height, { fit, withoutEnlargement: true })
-        .jpeg({ quality: query.quality });
+      const transformer = encode(
+        sharp().rotate().resize(query.width, query.height, { fit, withoutEnlargement: true }),
+        query.format,
+        query.quality
+      );
       stream = stream.pipe(transformer as any);
+      contentType = FORMAT_OPTIONS[query.format].contentType;
     }
 
     const uploaded = await storage.uploadStream({
       bucket: query.bucket,
-      contentType: 'image/jpeg',
+      contentType,
       body: stream,
     });
 
@@ -60,5 +112,143 @@ export async function mediaRoutes(fastify: FastifyInstance) {
       data: uploaded,
     });
   });
-}
 
+  // Original object, or a resized/format-converted derivative when transform params are present (signed)
+  fastify.get('/:bucket/*', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string' },
+          '*': { type: 'string' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          w: { type: 'number' },
+          h: { type: 'number' },
+          fit: { type: 'string', enum: ['cover', 'inside', 'contain'] },
+          format: { type: 'string', enum: ['jpeg', 'webp', 'avif', 'auto'] },
+          q: { type: 'number' },
+          sig: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { bucket, '*': key } = request.params as { bucket: string; '*': string };
+    if (!BUCKET_PATTERN.test(bucket) || !key || key.split('/').some((segment) => !segment || segment === '..')) {
+      return reply.code(400).send({ error: 'Invalid object path' });
+    }
+    // Private buckets (originals, backups) are only reachable through the admin signed URLs
+    if (!PUBLIC_BUCKETS.includes(bucket)) {
+      return reply.code(404).send({ error: 'Not found' });
+    }
+
+    const { sig, ...query } = request.query as Record<string, unknown>;
+    const parsed = transformParamsSchema.safeParse(query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid transform parameters', details: parsed.error.flatten().fieldErrors });
+    }
+
+    const params = parsed.data;
+    const transform = hasTransform(params);
+    if (transform && !verifySignature(bucket, key, params, typeof sig === 'string' ? sig : undefined)) {
+      return reply.code(403).send({ error: 'Invalid signature' });
+    }
+
+    const format = resolveFormat(params, contentTypeFromKey(key), request.headers.accept);
+    const hash = cacheKey(bucket, key, transform ? params : {}, format);
+    const etag = `"${hash}"`;
+
+    // Object keys are never rewritten, so every URL is immutable
+    reply.header('Cache-Control', 'public, max-age=31536000, immutable');
+    reply.header('ETag', etag);
+    if (params.format === 'auto') {
+      reply.header('Vary', 'Accept');
+    }
+
+    if (request.headers['if-none-match'] === etag) {
+      return reply.code(304).send();
+    }
+
+    if (!transform) {
+      const source = await storage.getObject(bucket, key);
+      if (!source) return reply.code(404).send({ error: 'Not found' });
+      return reply.type(source.contentType).send(source.body);
+    }
+
+    const contentType = FORMAT_OPTIONS[format].contentType;
+    const cached = await transformCache.get(hash);
+    if (cached) {
+      reply.header('X-Cache', 'HIT');
+      return reply.type(cached.contentType).send(cached.body);
+    }
+
+    // Concurrent requests for the same derivative share one render
+    let rendering = inFlight.get(hash);
+    if (!rendering) {
+      rendering = (async () => {
+        const source = await storage.getObject(bucket, key);
+        if (!source) return null;
+        const body = await renderTransform(source, params, format);
+        await transformCache.set(hash, body, contentType);
+        return body;
+      })().finally(() => inFlight.delete(hash));
+      inFlight.set(hash, rendering);
+    }
+
+    const body = await rendering;
+    if (!body) return reply.code(404).send({ error: 'Not found' });
+
+    reply.header('X-Cache', 'MISS');
+    return reply.type(contentType).send(body);
+  });
+
+  // Signed transform URLs for the frontend, limited to MEDIA_TRANSFORM_SIZES
+  fastify.post('/sign', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['items'],
+        properties: {
+          items: {
+            type: 'array',
+            maxItems: 100,
+            items: {
+              type: 'object',
+              required: ['bucket', 'key'],
+              properties: {
+                bucket: { type: 'string' },
+                key: { type: 'string' },
+                w: { type: 'number' },
+                h: { type: 'number' },
+                fit: { type: 'string', enum: ['cover', 'inside', 'contain'] },
+                format: { type: 'string', enum: ['jpeg', 'webp', 'avif', 'auto'] },
+                q: { type: 'number' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { items } = signBodySchema.parse(request.body);
+
+    const invalid = items.find((item) =>
+      (item.w !== undefined && !SIGNABLE_SIZES.includes(item.w)) ||
+      (item.h !== undefined && !SIGNABLE_SIZES.includes(item.h))
+    );
+    if (invalid) {
+      return reply.code(400).send({
+        error: 'Unsupported size',
+        message: `Width and height must be one of: ${SIGNABLE_SIZES.join(', ')}`,
+      });
+    }
+
+    return reply.send({
+      success: true,
+      data: items.map(({ bucket, key, ...params }) => ({ bucket, key, url: buildTransformUrl(bucket, key, params) })),
+    });
+  });
+}
@@ -0,0 +1,131 @@
+import { timingSafeEqual } from 'crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { RECONCILE_BUCKETS, reconcileBucket } from '../jobs/reconcile';
+import { DEFAULT_LIST_LIMIT, storage } from '../storage/storage.factory';
+
+const BUCKET_PATTERN = /^[a-z0-9][a-z0-9.-]{1,62}$/;
+const ADMIN_ROLES = ['admin', 'super_admin'];
+
+const listQuerySchema = z.object({
+  prefix: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(DEFAULT_LIST_LIMIT).default(100),
+});
+
+const signedUrlQuerySchema = z.object({
+  expiresIn: z.coerce.number().int().min(60).max(7 * 24 * 60 * 60).default(3600),
+});
+
+const reconcileBodySchema = z.object({
+  bucket: z.string().regex(BUCKET_PATTERN).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+// Backend services send INTERNAL_API_KEY (fails closed when unset); people need an admin role forwarded by the gateway
+function isAuthorized(request: FastifyRequest): boolean {
+  const expected = process.env.INTERNAL_API_KEY;
+  const provided = request.headers['x-internal-api-key'];
+  if (expected && typeof provided === 'string') {
+    const expectedBuffer = Buffer.from(expected);
+    const providedBuffer = Buffer.from(provided);
+    if (expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer)) {
+      return true;
+    }
+  }
+
+  const role = request.headers['x-user-role'];
+  return typeof role === 'string' && ADMIN_ROLES.includes(role.toLowerCase());
+}
+
+function parseObjectPath(request: FastifyRequest): { bucket: string; key: string } | null {
+  const { bucket, '*': key } = request.params as { bucket: string; '*'?: string };
+  if (!BUCKET_PATTERN.test(bucket)) return null;
+  if (key !== undefined && (!key || key.split('/').some((segment) => !segment || segment === '..'))) return null;
+  return { bucket, key: key ?? '' };
+}
+
+/**
+ * Object management for administrators and other services: list, metadata, delete, signed URLs
+ * and orphan reconciliation against the URLs stored by properties-service and settings-service.
+ */
+export async function objectRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!isAuthorized(request)) {
+      return reply.code(403).send({ error: 'Forbidden' });
+    }
+  });
+
+  fastify.get('/objects/:bucket', async (request: FastifyRequest, reply: FastifyReply) => {
+    const path = parseObjectPath(request);
+    if (!path) return reply.code(400).send({ error: 'Invalid bucket' });
+
+    const parsed = listQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten().fieldErrors });
+    }
+
+    const result = await storage.list(path.bucket, parsed.data);
+    return reply.send({ success: true, data: result.objects, nextCursor: result.nextCursor ?? null });
+  });
+
+  fastify.get('/objects/:bucket/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    const path = parseObjectPath(request);
+    if (!path) return reply.code(400).send({ error: 'Invalid object path' });
+
+    const object = await storage.headObject(path.bucket, path.key);
+    if (!object) return reply.code(404).send({ error: 'Not found' });
+    return reply.send({ success: true, data: object });
+  });
+
+  fastify.delete('/objects/:bucket/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    const path = parseObjectPath(request);
+    if (!path) return reply.code(400).send({ error: 'Invalid object path' });
+
+    if (!(await storage.deleteObject(path.bucket, path.key))) {
+      return reply.code(404).send({ error: 'Not found' });
+    }
+    request.log.info(path, 'Media object deleted');
+    return reply.code(204).send();
+  });
+
+  // Temporary direct URL to the stored object (bypasses transforms and the CDN)
+  fastify.get('/signed-url/:bucket/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    const path = parseObjectPath(request);
+    if (!path) return reply.code(400).send({ error: 'Invalid object path' });
+
+    const parsed = signedUrlQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten().fieldErrors });
+    }
+
+    const { expiresIn } = parsed.data;
+    if (!(await storage.exists(path.bucket, path.key))) {
+      return reply.code(404).send({ error: 'Not found' });
+    }
+
+    const url = await storage.getSignedUrl(path.bucket, path.key, expiresIn);
+    return reply.send({ success: true, data: { url, expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() } });
+  });
+
+  // Dry run by default; pass dryRun=false to delete the orphaned objects
+  fastify.post('/reconcile', async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = reconcileBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid body', details: parsed.error.flatten().fieldErrors });
+    }
+
+    const { bucket, dryRun } = parsed.data;
+
+    try {
+      const reports = [];
+      for (const name of bucket ? [bucket] : RECONCILE_BUCKETS) {
+        reports.push(await reconcileBucket({ bucket: name, dryRun }, request.log));
+      }
+      return reply.send({ success: true, data: reports });
+    } catch (error) {
+      request.log.error({ err: error }, 'Media reconciliation failed');
+      return reply.code(502).send({ error: 'Could not load media references; nothing was deleted' });
+    }
+  });
+}
@@ -1,10 +1,13 @@
 import { buildApp } from './app';
+import { scheduleReconciliation } from './jobs/reconcile';
 
 const port = Number(process.env.PORT || 8083);
 const host = process.env.HOST || '0.0.0.0';
 
 async function start() {
   const app = await buildApp();
+  const stopReconciliation = scheduleReconciliation(app.log);
+  app.addHook('onClose', async () => stopReconciliation());
   try {
     await app.listen({ port, host });
     app.log.info({ port, host }, 'Media service started');
@@ -1,4 +1,6 @@
+import { randomUUID } from 'crypto';
 import { GCSStorage } from './storage.gcs';
+import { LocalStorage } from './storage.local';
 import { S3Storage } from './storage.s3';
 
 export interface UploadResult {
@@ -13,15 +15,68 @@ export interface UploadParams {
   bucket: string;
   contentType: string;
   body: NodeJS.ReadableStream;
+  key?: string; // object key without extension (random UUID by default)
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+};
+
+export function objectKey(params: UploadParams): string {
+  return `${params.key || randomUUID()}${EXTENSIONS[params.contentType] || ''}`;
+}
+
+export function contentTypeFromKey(key: string): string {
+  const extension = key.slice(key.lastIndexOf('.')).toLowerCase();
+  if (extension === '.jpeg') return 'image/jpeg';
+  return Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === extension) || 'application/octet-stream';
+}
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+  etag?: string;
+}
+
+export interface ListParams {
+  prefix?: string;
+  cursor?: string; // opaque continuation token from the previous page
+  limit?: number;
+}
+
+export interface ListResult {
+  objects: ObjectInfo[];
+  nextCursor?: string;
 }
 
 export interface StorageAdapter {
   uploadStream(params: UploadParams): Promise<UploadResult>;
+  // Resolves to null when the object does not exist
+  getObject(bucket: string, key: string): Promise<StoredObject | null>;
+  headObject(bucket: string, key: string): Promise<ObjectInfo | null>;
+  exists(bucket: string, key: string): Promise<boolean>;
+  list(bucket: string, params?: ListParams): Promise<ListResult>;
+  // Resolves to false when there was nothing to delete
+  deleteObject(bucket: string, key: string): Promise<boolean>;
+  getSignedUrl(bucket: string, key: string, expiresInSeconds: number): Promise<string>;
 }
 
+export const DEFAULT_LIST_LIMIT = 1000;
+
 function createStorage(): StorageAdapter {
   const provider = (process.env.MEDIA_STORAGE_PROVIDER || 's3').toLowerCase();
   if (provider === 'gcs') return new GCSStorage();
+  if (provider === 'local') return new LocalStorage();
   return new S3Storage();
 }
 
@@ -1,6 +1,16 @@
 import { Storage } from '@google-cloud/storage';
-import { randomUUID } from 'crypto';
-import { StorageAdapter, UploadParams, UploadResult } from './storage.factory';
+import {
+  contentTypeFromKey,
+  DEFAULT_LIST_LIMIT,
+  ListParams,
+  ListResult,
+  ObjectInfo,
+  objectKey,
+  StorageAdapter,
+  StoredObject,
+  UploadParams,
+  UploadResult,
+} from './storage.factory';
 
 export class GCSStorage implements StorageAdapter {
   private storage: Storage;
@@ -15,7 +25,7 @@ export class GCSStorage implements StorageAdapter {
   }
 
   async uploadStream(params: UploadParams): Promise<UploadResult> {
-    const key = `${randomUUID()}.jpg`;
+    const key = objectKey(params);
     const bucket = this.storage.bucket(params.bucket);
     const file = bucket.file(key);
     await new Promise((resolve, reject) => {
@@ -37,7 +47,71 @@ export class GCSStorage implements StorageAdapter {
 
     return { key, bucket: params.bucket, url, contentType: params.contentType };
   }
-}
 
+  async getObject(bucket: string, key: string): Promise<StoredObject | null> {
+    const file = this.storage.bucket(bucket).file(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+
+    const [[body], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+    return { body, contentType: metadata.contentType || contentTypeFromKey(key) };
+  }
 
+  async headObject(bucket: string, key: string): Promise<ObjectInfo | null> {
+    const file = this.storage.bucket(bucket).file(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+
+    const [metadata] = await file.getMetadata();
+    return {
+      key,
+      size: Number(metadata.size ?? 0),
+      contentType: metadata.contentType,
+      lastModified: metadata.updated ? new Date(metadata.updated) : undefined,
+      etag: metadata.etag,
+    };
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    const [exists] = await this.storage.bucket(bucket).file(key).exists();
+    return exists;
+  }
+
+  async list(bucket: string, params: ListParams = {}): Promise<ListResult> {
+    const [files, nextQuery] = await this.storage.bucket(bucket).getFiles({
+      prefix: params.prefix,
+      pageToken: params.cursor,
+      maxResults: params.limit ?? DEFAULT_LIST_LIMIT,
+      autoPaginate: false,
+    });
 
+    return {
+      objects: files.map((file) => ({
+        key: file.name,
+        size: Number(file.metadata.size ?? 0),
+        contentType: file.metadata.contentType,
+        lastModified: file.metadata.updated ? new Date(file.metadata.updated) : undefined,
+        etag: file.metadata.etag,
+      })),
+      nextCursor: (nextQuery as { pageToken?: string } | null)?.pageToken,
+    };
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<boolean> {
+    const file = this.storage.bucket(bucket).file(key);
+    const [exists] = await file.exists();
+    if (!exists) return false;
+
+    await file.delete({ ignoreNotFound: true });
+    return true;
+  }
+
+  async getSignedUrl(bucket: string, key: string, expiresInSeconds: number): Promise<string> {
+    const [url] = await this.storage.bucket(bucket).file(key).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: Date.now() + expiresInSeconds * 1000,
+    });
+    return url;
+  }
+}
@@ -0,0 +1,127 @@
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import {
+  contentTypeFromKey,
+  DEFAULT_LIST_LIMIT,
+  ListParams,
+  ListResult,
+  ObjectInfo,
+  objectKey,
+  StorageAdapter,
+  StoredObject,
+  UploadParams,
+  UploadResult,
+} from './storage.factory';
+
+/**
+ * Filesystem storage for development (MEDIA_STORAGE_PROVIDER=local).
+ * Objects live under MEDIA_LOCAL_DIR/<bucket>/<key> and are served by GET /api/v1/media/:bucket/*.
+ */
+export class LocalStorage implements StorageAdapter {
+  private rootDir: string;
+  private publicUrl: string;
+
+  constructor() {
+    this.rootDir = path.resolve(process.env.MEDIA_LOCAL_DIR || './data/media');
+    this.publicUrl = (process.env.MEDIA_PUBLIC_URL || '').replace(/\/+$/, '');
+  }
+
+  async uploadStream(params: UploadParams): Promise<UploadResult> {
+    const key = objectKey(params);
+    const filePath = this.resolve(params.bucket, key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(params.body, createWriteStream(filePath));
+    const { size } = await fs.stat(filePath);
+
+    return { key, bucket: params.bucket, url: this.publicObjectUrl(params.bucket, key), contentType: params.contentType, size };
+  }
+
+  async getObject(bucket: string, key: string): Promise<StoredObject | null> {
+    try {
+      const body = await fs.readFile(this.resolve(bucket, key));
+      return { body, contentType: contentTypeFromKey(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async headObject(bucket: string, key: string): Promise<ObjectInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolve(bucket, key));
+      if (!stats.isFile()) return null;
+      return { key, size: stats.size, contentType: contentTypeFromKey(key), lastModified: stats.mtime };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    return (await this.headObject(bucket, key)) !== null;
+  }
+
+  // Keys are returned in lexical order; the cursor is the last key of the previous page
+  async list(bucket: string, params: ListParams = {}): Promise<ListResult> {
+    const limit = params.limit ?? DEFAULT_LIST_LIMIT;
+    const keys = (await this.walk(this.resolve(bucket, '.'), ''))
+      .filter((key) => (!params.prefix || key.startsWith(params.prefix)) && (!params.cursor || key > params.cursor))
+      .sort();
+
+    const page = keys.slice(0, limit);
+    const objects = (await Promise.all(page.map((key) => this.headObject(bucket, key))))
+      .filter((object): object is ObjectInfo => object !== null);
+
+    return { objects, nextCursor: keys.length > limit ? page[page.length - 1] : undefined };
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.resolve(bucket, key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  // Local objects are served without authentication, so the public URL is returned as is
+  async getSignedUrl(bucket: string, key: string): Promise<string> {
+    return this.publicObjectUrl(bucket, key);
+  }
+
+  private async walk(dir: string, prefix: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const entry of entries) {
+      const key = `${prefix}${entry.name}`;
+      if (entry.isDirectory()) {
+        keys.push(...await this.walk(path.join(dir, entry.name), `${key}/`));
+      } else if (entry.isFile()) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  private publicObjectUrl(bucket: string, key: string): string {
+    return `${this.publicUrl}/api/v1/media/${bucket}/${key}`;
+  }
+
+  private resolve(bucket: string, key: string): string {
+    const filePath = path.resolve(this.rootDir, bucket, key);
+    if (!filePath.startsWith(`${this.rootDir}${path.sep}`)) {
+      throw new Error('Invalid object path');
+    }
+    return filePath;
+  }
+}
@@ -1,7 +1,26 @@
-import { S3Client } from '@aws-sdk/client-s3';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  NotFound,
+  S3Client,
+} from '@aws-sdk/client-s3';
 import { Upload } from '@aws-sdk/lib-storage';
-import { randomUUID } from 'crypto';
-import { StorageAdapter, UploadParams, UploadResult } from './storage.factory';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  contentTypeFromKey,
+  DEFAULT_LIST_LIMIT,
+  ListParams,
+  ListResult,
+  ObjectInfo,
+  objectKey,
+  StorageAdapter,
+  StoredObject,
+  UploadParams,
+  UploadResult,
+} from './storage.factory';
 
 export class S3Storage implements StorageAdapter {
   private client: S3Client;
@@ -21,7 +40,7 @@ export class S3Storage implements StorageAdapter {
   }
 
   async uploadStream(params: UploadParams): Promise<UploadResult> {
-    const key = `${randomUUID()}.jpg`;
+    const key = objectKey(params);
     const uploader = new Upload({
       client: this.client,
       params: {
@@ -41,7 +60,68 @@ export class S3Storage implements StorageAdapter {
 
     return { key, bucket: params.bucket, url, contentType: params.contentType };
   }
-}
 
+  async getObject(bucket: string, key: string): Promise<StoredObject | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      if (!response.Body) return null;
+      return {
+        body: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType || contentTypeFromKey(key),
+      };
+    } catch (error) {
+      if (error instanceof NoSuchKey || (error as { name?: string }).name === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async headObject(bucket: string, key: string): Promise<ObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType,
+        lastModified: response.LastModified,
+        etag: response.ETag,
+      };
+    } catch (error) {
+      if (error instanceof NotFound || (error as { name?: string }).name === 'NotFound') return null;
+      throw error;
+    }
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    return (await this.headObject(bucket, key)) !== null;
+  }
+
+  async list(bucket: string, params: ListParams = {}): Promise<ListResult> {
+    const response = await this.client.send(new ListObjectsV2Command({
+      Bucket: bucket,
+      Prefix: params.prefix,
+      ContinuationToken: params.cursor,
+      MaxKeys: params.limit ?? DEFAULT_LIST_LIMIT,
+    }));
+
+    return {
+      objects: (response.Contents ?? []).filter((object) => object.Key).map((object) => ({
+        key: object.Key!,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified,
+        etag: object.ETag,
+      })),
+      nextCursor: response.IsTruncated ? response.NextContinuationToken : undefined,
+    };
+  }
 
+  async deleteObject(bucket: string, key: string): Promise<boolean> {
+    // S3 deletes are idempotent, so check first to report whether anything was removed
+    if (!(await this.exists(bucket, key))) return false;
+    await this.client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    return true;
+  }
 
+  async getSignedUrl(bucket: string, key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: bucket, Key: key }), { expiresIn: expiresInSeconds });
+  }
+}
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "messages"."MessageDirection" AS ENUM ('INBOUND', 'OUTBOUND');
+
+-- CreateEnum
+CREATE TYPE "messages"."ConversationStatus" AS ENUM ('OPEN', 'ANSWERED');
+
+-- CreateTable
+CREATE TABLE "messages"."Conversation" (
+    "id" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "contactName" TEXT NOT NULL,
+    "contactEmail" TEXT NOT NULL,
+    "status" "messages"."ConversationStatus" NOT NULL DEFAULT 'OPEN',
+    "lastMessageAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Conversation_pkey" PRIMARY KEY ("id")
+);
+
+-- DropIndex
+DROP INDEX "messages"."Message_conversationId_key";
+
+-- AlterTable
+ALTER TABLE "messages"."Message" ADD COLUMN "direction" "messages"."MessageDirection" NOT NULL DEFAULT 'INBOUND',
+ADD COLUMN "emailMessageId" TEXT,
+ADD COLUMN "inReplyTo" TEXT,
+ADD COLUMN "references" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "authorId" TEXT;
+
+-- Backfill: every existing message starts its own conversation
+INSERT INTO "messages"."Conversation" ("id", "subject", "contactName", "contactEmail", "status", "lastMessageAt", "createdAt", "updatedAt")
+SELECT "id", COALESCE("context"->>'subject', 'Novo contacto: ' || "fromName"), "fromName", "fromEmail", 'OPEN', "createdAt", "createdAt", "updatedAt"
+FROM "messages"."Message";
+
+UPDATE "messages"."Message" SET "conversationId" = "id";
+
+ALTER TABLE "messages"."Message" ALTER COLUMN "conversationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Conversation_status_lastMessageAt_idx" ON "messages"."Conversation"("status", "lastMessageAt");
+
+-- CreateIndex
+CREATE INDEX "Conversation_contactEmail_idx" ON "messages"."Conversation"("contactEmail");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Message_emailMessageId_key" ON "messages"."Message"("emailMessageId");
+
+-- CreateIndex
+CREATE INDEX "Message_conversationId_createdAt_idx" ON "messages"."Message"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "messages"."Message" ADD CONSTRAINT "Message_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "messages"."Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
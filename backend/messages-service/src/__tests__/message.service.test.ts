@@ -0,0 +1,211 @@
+import { MessageService } from '@/services/message.service';
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Conversation threading of inbound emails and staff replies - NO DATABASE, SMTP OR IMAP
+ */
+
+const NEW_MESSAGE_ID = '<new-reply@ribeirazul.com>';
+
+function createPrisma() {
+  const prisma = {
+    message: {
+      findUnique: vi.fn(async (): Promise<unknown> => null),
+      findMany: vi.fn(async (): Promise<Array<{ emailMessageId: string; conversationId: string }>> => []),
+      create: vi.fn(async ({ data }: any) => ({ id: 'message-1', conversationId: data.conversation.connect?.id ?? 'conversation-new', ...data })),
+      update: vi.fn(async ({ where, data }: any) => ({ id: where.id, status: data.status })),
+    },
+    conversation: {
+      findUnique: vi.fn(async (): Promise<unknown> => null),
+      update: vi.fn(async () => ({})),
+    },
+    $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+  return prisma;
+}
+
+function inboundEmail(headers: { emailMessageId?: string; inReplyTo?: string; references?: string[] }) {
+  return {
+    fromName: 'Ana Silva',
+    fromEmail: 'ana@example.com',
+    subject: 'Re: Pedido de contacto - Ribeira Azul',
+    body: 'Obrigada, pode ser amanhã.',
+    emailMessageId: '<inbound@example.com>',
+    ...headers,
+  };
+}
+
+describe('MessageService conversations', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let emailService: { createMessageId: ReturnType<typeof vi.fn>; sendReplyEmail: ReturnType<typeof vi.fn> };
+  let service: MessageService;
+
+  beforeEach(() => {
+    prisma = createPrisma();
+    emailService = {
+      createMessageId: vi.fn(() => NEW_MESSAGE_ID),
+      sendReplyEmail: vi.fn(async () => undefined),
+    };
+    const metricsService = { incrementCounter: vi.fn(), recordHistogram: vi.fn() };
+    const cacheService = { get: vi.fn(async () => null), set: vi.fn(), delete: vi.fn() };
+
+    service = new MessageService(prisma as any, metricsService as any, cacheService as any, emailService as any);
+  });
+
+  describe('receiveInboundEmail', () => {
+    it('should thread on In-Reply-To before any References entry', async () => {
+      prisma.message.findMany.mockResolvedValue([
+        { emailMessageId: '<first@ribeirazul.com>', conversationId: 'conversation-a' },
+        { emailMessageId: '<second@ribeirazul.com>', conversationId: 'conversation-b' },
+      ]);
+
+      const message = await service.receiveInboundEmail(inboundEmail({
+        inReplyTo: '<first@ribeirazul.com>',
+        references: ['<first@ribeirazul.com>', '<second@ribeirazul.com>'],
+      }));
+
+      expect(message?.conversationId).toBe('conversation-a');
+      expect(prisma.message.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { emailMessageId: { in: ['<first@ribeirazul.com>', '<second@ribeirazul.com>'] } },
+      }));
+    });
+
+    it('should fall back to the newest known References entry', async () => {
+      prisma.message.findMany.mockResolvedValue([
+        { emailMessageId: '<first@ribeirazul.com>', conversationId: 'conversation-a' },
+        { emailMessageId: '<second@ribeirazul.com>', conversationId: 'conversation-b' },
+      ]);
+
+      const message = await service.receiveInboundEmail(inboundEmail({
+        inReplyTo: '<unknown@mail.example.com>',
+        references: ['<first@ribeirazul.com>', '<second@ribeirazul.com>', '<forwarded@mail.example.com>'],
+      }));
+
+      expect(message?.conversationId).toBe('conversation-b');
+    });
+
+    it('should reopen an answered conversation when the contact replies', async () => {
+      prisma.message.findMany.mockResolvedValue([
+        { emailMessageId: '<staff-reply@ribeirazul.com>', conversationId: 'conversation-a' },
+      ]);
+
+      await service.receiveInboundEmail(inboundEmail({ inReplyTo: '<staff-reply@ribeirazul.com>' }));
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.conversation.update).toHaveBeenCalledWith({
+        where: { id: 'conversation-a' },
+        data: { status: 'OPEN', lastMessageAt: expect.any(Date) },
+      });
+      expect(prisma.message.create.mock.calls[0]![0].data).toMatchObject({
+        status: 'RECEIVED',
+        direction: 'INBOUND',
+        inReplyTo: '<staff-reply@ribeirazul.com>',
+        conversation: { connect: { id: 'conversation-a' } },
+      });
+    });
+
+    it('should start a new conversation for unmatched emails', async () => {
+      await service.receiveInboundEmail(inboundEmail({ inReplyTo: '<unknown@mail.example.com>' }));
+
+      expect(prisma.conversation.update).not.toHaveBeenCalled();
+      expect(prisma.message.create.mock.calls[0]![0].data.conversation).toEqual({
+        create: {
+          subject: 'Re: Pedido de contacto - Ribeira Azul',
+          contactName: 'Ana Silva',
+          contactEmail: 'ana@example.com',
+        },
+      });
+    });
+
+    it('should skip emails whose Message-ID is already stored', async () => {
+      prisma.message.findUnique.mockResolvedValue({ id: 'message-0' });
+
+      expect(await service.receiveInboundEmail(inboundEmail({}))).toBeNull();
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip an email stored concurrently by another poll', async () => {
+      prisma.message.create.mockRejectedValue(new Prisma.PrismaClientKnownRequestError(
+        'Unique constraint failed on the fields: (`emailMessageId`)',
+        { code: 'P2002', clientVersion: '6.14.0' }
+      ));
+
+      expect(await service.receiveInboundEmail(inboundEmail({}))).toBeNull();
+    });
+
+    it('should rethrow other database errors', async () => {
+      prisma.message.create.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(service.receiveInboundEmail(inboundEmail({}))).rejects.toThrow('Connection lost');
+    });
+  });
+
+  describe('replyToConversation', () => {
+    function conversation(subject: string, threadLength: number) {
+      return {
+        id: 'conversation-a',
+        subject,
+        contactName: 'Ana Silva',
+        contactEmail: 'ana@example.com',
+        status: 'OPEN',
+        messages: Array.from({ length: threadLength }, (_, i) => ({ emailMessageId: `<m${i + 1}@ribeirazul.com>` })),
+      };
+    }
+
+    it('should reply after the latest message with the most recent References', async () => {
+      prisma.conversation.findUnique.mockResolvedValue(conversation('Pedido de contacto - Ribeira Azul', 25));
+
+      const reply = await service.replyToConversation('conversation-a', { body: 'Bom dia Ana', authorId: 'agent-1' });
+
+      const expectedReferences = Array.from({ length: 20 }, (_, i) => `<m${i + 6}@ribeirazul.com>`);
+      expect(emailService.sendReplyEmail).toHaveBeenCalledWith({
+        to: 'ana@example.com',
+        toName: 'Ana Silva',
+        subject: 'Re: Pedido de contacto - Ribeira Azul',
+        body: 'Bom dia Ana',
+        messageId: NEW_MESSAGE_ID,
+        inReplyTo: '<m25@ribeirazul.com>',
+        references: expectedReferences,
+      });
+      expect(prisma.message.create.mock.calls[0]![0].data).toMatchObject({
+        direction: 'OUTBOUND',
+        emailMessageId: NEW_MESSAGE_ID,
+        inReplyTo: '<m25@ribeirazul.com>',
+        references: expectedReferences,
+      });
+      expect(reply?.status).toBe('SENT');
+      expect(prisma.conversation.update).toHaveBeenCalledWith({
+        where: { id: 'conversation-a' },
+        data: { status: 'ANSWERED', lastMessageAt: expect.any(Date) },
+      });
+    });
+
+    it('should not prefix the subject twice', async () => {
+      prisma.conversation.findUnique.mockResolvedValue(conversation('RE: Visita ao T2', 1));
+
+      await service.replyToConversation('conversation-a', { body: 'Confirmado', authorId: 'agent-1' });
+
+      expect(emailService.sendReplyEmail).toHaveBeenCalledWith(expect.objectContaining({
+        subject: 'RE: Visita ao T2',
+        inReplyTo: '<m1@ribeirazul.com>',
+        references: ['<m1@ribeirazul.com>'],
+      }));
+    });
+
+    it('should keep a reply that could not be delivered as FAILED', async () => {
+      prisma.conversation.findUnique.mockResolvedValue(conversation('Visita ao T2', 1));
+      emailService.sendReplyEmail.mockRejectedValue(new Error('SMTP unavailable'));
+
+      const reply = await service.replyToConversation('conversation-a', { body: 'Confirmado', authorId: 'agent-1' });
+
+      expect(reply?.status).toBe('FAILED');
+      expect(prisma.conversation.update).not.toHaveBeenCalled();
+    });
+
+    it('should return null for an unknown conversation', async () => {
+      expect(await service.replyToConversation('missing', { body: 'Olá', authorId: 'agent-1' })).toBeNull();
+      expect(emailService.sendReplyEmail).not.toHaveBeenCalled();
+    });
+  });
+});
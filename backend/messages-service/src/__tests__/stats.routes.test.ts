@@ -0,0 +1,51 @@
+import { registerMessageRoutes } from '@/routes/messages';
+import Fastify, { FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Aggregate stats read by properties-service - NO DATABASE
+ */
+
+describe('message stats routes', () => {
+  let app: FastifyInstance;
+  let messageService: { getPropertyContactCounts: ReturnType<typeof vi.fn>; getLeadCounts: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    messageService = {
+      getPropertyContactCounts: vi.fn(async () => [{ propertyId: 'property-1', contacts: 3 }]),
+      getLeadCounts: vi.fn(async () => [{ period: '2026-09-01', leads: 12 }]),
+    };
+
+    app = Fastify();
+    app.decorate('diContainer', { messageService, metricsService: { incrementCounter: vi.fn() } } as any);
+    await registerMessageRoutes(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should reject requests without the internal API key', async () => {
+    for (const headers of [{}, { 'x-api-key': 'wrong-key' }]) {
+      for (const url of ['/api/v1/messages/stats/properties', '/api/v1/messages/stats/leads']) {
+        const response = await app.inject({ method: 'GET', url, headers });
+
+        expect(response.statusCode).toBe(401);
+      }
+    }
+
+    expect(messageService.getPropertyContactCounts).not.toHaveBeenCalled();
+    expect(messageService.getLeadCounts).not.toHaveBeenCalled();
+  });
+
+  it('should serve the stats to backend services', async () => {
+    const headers = { 'x-api-key': 'test-internal-key' };
+
+    const contacts = await app.inject({ method: 'GET', url: '/api/v1/messages/stats/properties', headers });
+    const leads = await app.inject({ method: 'GET', url: '/api/v1/messages/stats/leads?granularity=week', headers });
+
+    expect(contacts.json().data).toEqual([{ propertyId: 'property-1', contacts: 3 }]);
+    expect(leads.json().data).toEqual([{ period: '2026-09-01', leads: 12 }]);
+    expect(messageService.getLeadCounts).toHaveBeenCalledWith(expect.any(Date), expect.any(Date), 'week');
+  });
+});
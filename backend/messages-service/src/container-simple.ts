@@ -2,6 +2,7 @@ import { CacheService } from '@/services/cache.service';
 import { CircuitBreakerService } from '@/services/circuit-breaker.service';
 import { EmailService } from '@/services/email.service';
 import { HealthService } from '@/services/health.service';
+import { ImapService } from '@/services/imap.service';
 import { MessageService } from '@/services/message.service';
 import { MetricsService } from '@/services/metrics.service';
 import { config, configService } from '@/utils/config';
@@ -15,6 +16,7 @@ export class SimpleContainer {
   private _redis?: Redis;
   private _messageService?: MessageService;
   private _emailService?: EmailService;
+  private _imapService?: ImapService;
   private _metricsService?: MetricsService;
   private _healthService?: HealthService;
   private _cacheService?: CacheService;
@@ -115,6 +117,17 @@ export class SimpleContainer {
     return this._messageService;
   }
 
+  get imapService(): ImapService {
+    if (!this._imapService) {
+      this._imapService = new ImapService(
+        this.messageService,
+        this.metricsService,
+        this.circuitBreakerService
+      );
+    }
+    return this._imapService;
+  }
+
   get healthService(): HealthService {
     if (!this._healthService) {
       this._healthService = new HealthService(
@@ -131,6 +144,12 @@ export class SimpleContainer {
     logger.info('Shutting down container...');
     
     try {
+      // Stop IMAP polling before closing the database
+      if (this._imapService && config.IMAP_ENABLED) {
+        logger.info('Stopping IMAP service...');
+        await this._imapService.stop();
+      }
+
       // Close Redis connection
       if (this._redis) {
         logger.info('Closing Redis connection...');
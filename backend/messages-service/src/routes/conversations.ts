@@ -0,0 +1,180 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+
+// Roles (forwarded by the API Gateway) that handle contact conversations
+const STAFF_ROLES = ['admin', 'super_admin'];
+
+// Validation schemas
+const listConversationsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['OPEN', 'ANSWERED']).optional(),
+  contactEmail: z.string().min(1).max(254).optional(),
+});
+
+const replySchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+});
+
+// JSON Schema for Fastify
+const replyJsonSchema = {
+  type: 'object',
+  required: ['body'],
+  properties: {
+    body: { type: 'string', minLength: 1, maxLength: 10000 },
+  },
+  additionalProperties: false,
+};
+
+async function requireStaff(request: FastifyRequest, reply: FastifyReply) {
+  const role = request.headers['x-user-role'];
+  const userId = request.headers['x-user-id'];
+
+  if (typeof userId !== 'string' || !userId || typeof role !== 'string' || !STAFF_ROLES.includes(role.toLowerCase())) {
+    request.server.diContainer.metricsService.incrementCounter('unauthorized_requests_total');
+    return reply.code(403).send({
+      success: false,
+      error: 'FORBIDDEN',
+      message: 'Staff access required',
+    });
+  }
+}
+
+export async function registerConversationRoutes(app: FastifyInstance) {
+  const { messageService } = app.diContainer;
+
+  // List conversations, most recent activity first
+  app.get('/api/v1/conversations', { preHandler: requireStaff }, async (request, reply) => {
+    const parsed = listConversationsQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: parsed.error.issues[0]?.message ?? 'Invalid query',
+      });
+    }
+
+    const { page, limit, status, contactEmail } = parsed.data;
+
+    try {
+      const result = await messageService.getConversations(page, limit, { status, contactEmail });
+      request.log.info(`Conversations retrieved: ${result.data.length}/${result.total}`);
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error: any) {
+      request.log.error(`Failed to get conversations: ${error.message}`);
+
+      return reply.code(500).send({
+        success: false,
+        error: 'FETCH_FAILED',
+        message: 'Failed to fetch conversations',
+      });
+    }
+  });
+
+  // Conversation with all its messages
+  app.get<{
+    Params: { id: string };
+  }>('/api/v1/conversations/:id', { preHandler: requireStaff }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const conversation = await messageService.getConversationById(id);
+
+      if (!conversation) {
+        return reply.code(404).send({
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'Conversation not found',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: conversation,
+      });
+    } catch (error: any) {
+      request.log.error(`Failed to get conversation ${id}: ${error.message}`);
+
+      return reply.code(500).send({
+        success: false,
+        error: 'FETCH_FAILED',
+        message: 'Failed to fetch conversation',
+      });
+    }
+  });
+
+  // Staff reply, emailed to the contact in the same thread
+  app.post<{
+    Params: { id: string };
+    Body: z.infer<typeof replySchema>;
+  }>('/api/v1/conversations/:id/reply', {
+    schema: {
+      body: replyJsonSchema,
+    },
+    preHandler: requireStaff,
+  }, async (request, reply) => {
+    const { id } = request.params;
+    const parsed = replySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Reply body cannot be empty',
+      });
+    }
+
+    const authorEmail = request.headers['x-user-email'];
+
+    try {
+      const message = await messageService.replyToConversation(id, {
+        body: parsed.data.body,
+        authorId: request.headers['x-user-id'] as string,
+        authorEmail: typeof authorEmail === 'string' ? authorEmail : undefined,
+        correlationId: request.correlationId,
+      });
+
+      if (!message) {
+        return reply.code(404).send({
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'Conversation not found',
+        });
+      }
+
+      // The reply is kept as FAILED so staff can see it was not delivered
+      if (message.status === 'FAILED') {
+        return reply.code(502).send({
+          success: false,
+          error: 'EMAIL_SEND_FAILED',
+          message: 'Failed to send reply',
+          data: message,
+        });
+      }
+
+      request.log.info(`Conversation ${id} replied: ${message.id}`);
+
+      return reply.code(201).send({
+        success: true,
+        data: message,
+      });
+    } catch (error: any) {
+      request.log.error(`Failed to reply to conversation ${id}: ${error.message}`);
+
+      return reply.code(500).send({
+        success: false,
+        error: 'REPLY_FAILED',
+        message: 'Failed to reply to conversation',
+      });
+    }
+  });
+}
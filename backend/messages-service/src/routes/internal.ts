@@ -0,0 +1,88 @@
+import { config } from '@/utils/config';
+import { timingSafeEqual } from 'crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+
+// Emails sent on behalf of other backend services (e.g. saved search alerts)
+const sendEmailSchema = z.object({
+  to: z.string().email(),
+  subject: z.string().min(1).max(200),
+  html: z.string().min(1).max(200000),
+  text: z.string().max(100000).optional(),
+});
+
+const sendEmailJsonSchema = {
+  type: 'object',
+  required: ['to', 'subject', 'html'],
+  properties: {
+    to: { type: 'string', format: 'email' },
+    subject: { type: 'string', minLength: 1, maxLength: 200 },
+    html: { type: 'string', minLength: 1, maxLength: 200000 },
+    text: { type: 'string', maxLength: 100000 },
+  },
+  additionalProperties: false,
+};
+
+// Unlike the public contact form, internal routes fail closed when no key is configured
+function isInternalRequest(request: FastifyRequest): boolean {
+  const expected = config.INTERNAL_API_KEY;
+  const provided = request.headers[config.API_KEY_HEADER];
+
+  if (!expected || typeof provided !== 'string') {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Restricts a route to other backend services (internal routes and the
+ * aggregate stats read by properties-service)
+ */
+export async function requireInternalKey(request: FastifyRequest, reply: FastifyReply) {
+  if (!isInternalRequest(request)) {
+    request.server.diContainer.metricsService.incrementCounter('unauthorized_requests_total');
+    return reply.code(401).send({
+      success: false,
+      error: 'UNAUTHORIZED',
+      message: 'Valid internal API key required',
+    });
+  }
+}
+
+export async function registerInternalRoutes(app: FastifyInstance) {
+  const { emailService } = app.diContainer;
+
+  app.post<{
+    Body: z.infer<typeof sendEmailSchema>;
+  }>('/internal/v1/emails', {
+    schema: {
+      body: sendEmailJsonSchema,
+    },
+    preHandler: requireInternalKey,
+  }, async (request, reply) => {
+    const { to, subject, html, text } = request.body;
+
+    try {
+      const result = await emailService.sendCustomEmail(to, subject, html, text);
+      request.log.info(`Internal email sent: ${result.messageId}`);
+
+      return reply.code(202).send({
+        success: true,
+        data: {
+          messageId: result.messageId,
+        },
+      });
+    } catch (error: any) {
+      request.log.error(`Failed to send internal email: ${error.message}`);
+
+      return reply.code(502).send({
+        success: false,
+        error: 'EMAIL_SEND_FAILED',
+        message: 'Failed to send email',
+      });
+    }
+  });
+}
@@ -1,3 +1,4 @@
+import { requireInternalKey } from '@/routes/internal';
 import { config, configService } from '@/utils/config';
 import { createCorrelationId } from '@/utils/logger';
 import { FastifyInstance, FastifyRequest } from 'fastify';
@@ -208,6 +209,81 @@ export async function registerMessageRoutes(app: FastifyInstance) {
     }
   });
 
+  // Contact messages per property (listing conversion analytics, read by properties-service)
+  app.get('/api/v1/messages/stats/properties', { preHandler: requireInternalKey }, async (request, reply) => {
+    const query = request.query as any;
+    const dateTo = query.dateTo ? new Date(query.dateTo) : new Date();
+    const dateFrom = query.dateFrom ? new Date(query.dateFrom) : new Date(dateTo.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(dateFrom.getTime()) || isNaN(dateTo.getTime())) {
+      return reply.code(400).send({
+        success: false,
+        error: 'INVALID_DATE_RANGE',
+        message: 'dateFrom and dateTo must be valid dates',
+      });
+    }
+
+    try {
+      const counts = await messageService.getPropertyContactCounts(dateFrom, dateTo);
+      request.log.info(`Property contact counts retrieved: ${counts.length} properties`);
+
+      return reply.send({
+        success: true,
+        data: counts,
+      });
+    } catch (error: any) {
+      request.log.error(`Failed to get property contact counts: ${error.message}`);
+
+      return reply.code(500).send({
+        success: false,
+        error: 'STATS_FAILED',
+        message: 'Failed to fetch property contact counts',
+      });
+    }
+  });
+
+  // Leads per day/week/month (management report, read by properties-service)
+  app.get('/api/v1/messages/stats/leads', { preHandler: requireInternalKey }, async (request, reply) => {
+    const query = request.query as any;
+    const dateTo = query.dateTo ? new Date(query.dateTo) : new Date();
+    const dateFrom = query.dateFrom ? new Date(query.dateFrom) : new Date(dateTo.getTime() - 365 * 24 * 60 * 60 * 1000);
+    const granularity = query.granularity ?? 'month';
+
+    if (isNaN(dateFrom.getTime()) || isNaN(dateTo.getTime())) {
+      return reply.code(400).send({
+        success: false,
+        error: 'INVALID_DATE_RANGE',
+        message: 'dateFrom and dateTo must be valid dates',
+      });
+    }
+
+    if (!['day', 'week', 'month'].includes(granularity)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'INVALID_GRANULARITY',
+        message: 'granularity must be one of: day, week, month',
+      });
+    }
+
+    try {
+      const counts = await messageService.getLeadCounts(dateFrom, dateTo, granularity);
+      request.log.info(`Lead counts retrieved: ${counts.length} periods`);
+
+      return reply.send({
+        success: true,
+        data: counts,
+      });
+    } catch (error: any) {
+      request.log.error(`Failed to get lead counts: ${error.message}`);
+
+      return reply.code(500).send({
+        success: false,
+        error: 'STATS_FAILED',
+        message: 'Failed to fetch lead counts',
+      });
+    }
+  });
+
   // Retry failed messages
   app.post('/api/v1/messages/retry', async (request, reply) => {
     try {
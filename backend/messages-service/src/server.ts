@@ -1,5 +1,7 @@
 import { container, shutdownContainer } from '@/container-simple';
+import { registerConversationRoutes } from '@/routes/conversations';
 import { registerHealthRoutes } from '@/routes/health';
+import { registerInternalRoutes } from '@/routes/internal';
 import { registerMessageRoutes } from '@/routes/messages';
 import { registerMetricsRoutes } from '@/routes/metrics';
 import { config, configService } from '@/utils/config';
@@ -205,6 +207,8 @@ export async function buildServer(): Promise<FastifyInstance> {
   await registerHealthRoutes(app);
   await registerMetricsRoutes(app);
   await registerMessageRoutes(app);
+  await registerConversationRoutes(app);
+  await registerInternalRoutes(app);
 
   // Root endpoint
   app.get('/', async () => ({
@@ -225,8 +229,14 @@ export async function buildServer(): Promise<FastifyInstance> {
       tracingEnabled: config.TRACING_ENABLED,
     });
 
-    // Background services can be started here if needed
-    logger.info('Background services initialization skipped for now');
+    // Inbound emails are threaded into conversations; a failing mailbox must not stop the API
+    if (config.IMAP_ENABLED) {
+      container.imapService.start().catch((error: any) => {
+        logger.error('Failed to start IMAP service', { error: error.message });
+      });
+    } else {
+      logger.info('IMAP ingestion disabled (IMAP_ENABLED is not true)');
+    }
   });
 
   return app;
@@ -1,6 +1,7 @@
 import { config } from '@/utils/config';
 import { createLogger } from '@/utils/logger';
 import nodemailer, { Transporter } from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
 import { CircuitBreakerService } from './circuit-breaker.service';
 import { MetricsService } from './metrics.service';
 
@@ -11,6 +12,21 @@ export interface EmailData {
   body: string;
   subject?: string;
   to?: string;
+  messageId?: string;
+}
+
+// RFC 5322 threading headers, so replies stay in the same thread on both ends
+export interface EmailThreadHeaders {
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+export interface ReplyEmailData extends EmailThreadHeaders {
+  to: string;
+  toName?: string;
+  subject: string;
+  body: string;
 }
 
 export interface EmailResult {
@@ -231,6 +247,7 @@ export class EmailService {
       subject,
       html,
       replyTo: data.fromEmail,
+      messageId: data.messageId,
       headers: {
         'X-Message-Source': 'ribeirazul-messages-service',
         'X-Priority': '3',
@@ -399,7 +416,8 @@ export class EmailService {
     to: string,
     subject: string,
     htmlContent: string,
-    textContent?: string
+    textContent?: string,
+    thread: EmailThreadHeaders = {}
   ): Promise<EmailResult> {
     const startTime = Date.now();
     const emailLogger = this.logger.child({ 
@@ -415,6 +433,9 @@ export class EmailService {
         subject,
         html: htmlContent,
         text: textContent,
+        messageId: thread.messageId,
+        inReplyTo: thread.inReplyTo,
+        references: thread.references?.length ? thread.references : undefined,
         headers: {
           'X-Message-Source': 'ribeirazul-messages-service',
           'X-Priority': '3',
@@ -456,6 +477,55 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send a staff reply to a conversation contact
+   */
+  async sendReplyEmail(data: ReplyEmailData): Promise<EmailResult> {
+    const html = this.generateReplyTemplate(data);
+
+    return this.sendCustomEmail(
+      data.toName ? `"${data.toName.replace(/["\\\r\n]/g, '')}" <${data.to}>` : data.to,
+      data.subject,
+      html,
+      data.body,
+      {
+        messageId: data.messageId,
+        inReplyTo: data.inReplyTo,
+        references: data.references,
+      }
+    );
+  }
+
+  /**
+   * Generate a Message-ID on our domain, known before sending so it can be stored
+   * and matched against the In-Reply-To/References of the contact's answer
+   */
+  createMessageId(): string {
+    const domain = config.EMAIL_FROM.split('@')[1];
+    return `<${uuidv4()}@${domain}>`;
+  }
+
+  /**
+   * Generate HTML for a staff reply
+   */
+  private generateReplyTemplate(data: ReplyEmailData): string {
+    return `
+    <!DOCTYPE html>
+    <html lang="pt">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${this.escapeHtml(data.subject)}</title>
+    </head>
+    <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      ${data.toName ? `<p>Olá ${this.escapeHtml(data.toName)},</p>` : ''}
+      <div style="white-space: pre-wrap;">${this.escapeHtml(data.body)}</div>
+      <p style="margin-top: 30px; font-size: 12px; color: #6c757d;">Ribeira Azul</p>
+    </body>
+    </html>
+    `;
+  }
+
   /**
    * Test email configuration
    */
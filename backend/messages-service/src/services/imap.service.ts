@@ -1,10 +1,15 @@
 import { config } from '@/utils/config';
 import { createLogger } from '@/utils/logger';
-import { PrismaClient } from '@prisma/client';
 import { ImapFlow } from 'imapflow';
 import { CircuitBreakerService } from './circuit-breaker.service';
+import { MessageService } from './message.service';
 import { MetricsService } from './metrics.service';
 
+// Message-IDs in a header value, e.g. "<a@x> <b@y>"
+function parseMessageIds(value?: string): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
 export class ImapService {
   private client?: ImapFlow;
   private isRunning = false;
@@ -15,7 +20,7 @@ export class ImapService {
   private circuitBreaker: any;
 
   constructor(
-    private prisma: PrismaClient,
+    private messageService: MessageService,
     private metricsService: MetricsService,
     private circuitBreakerService: CircuitBreakerService
   ) {
@@ -272,6 +277,7 @@ export class ImapService {
       const message = await this.client.fetchOne(uid, {
         envelope: true,
         bodyParts: ['text'],
+        headers: ['references'],
         flags: true,
       });
 
@@ -283,35 +289,29 @@ export class ImapService {
       const from = envelope?.from?.[0];
       const subject = envelope?.subject || 'No Subject';
       const body = message.bodyParts?.get('text') || '';
+      // Folded header lines are joined before extracting the ids
+      const references = parseMessageIds(message.headers?.toString().replace(/\r?\n[ \t]+/g, ' '));
+      const [inReplyTo] = parseMessageIds(envelope?.inReplyTo);
 
       if (!from?.address) {
         throw new Error('Message has no sender address');
       }
 
-      // Store message in database
-      const savedMessage = await this.prisma.message.create({
-        data: {
-          fromName: from.name || 'Unknown',
-          fromEmail: from.address,
-          body: String(body).trim(),
-          status: 'RECEIVED',
-          context: {
-            subject,
-            uid,
-            messageId: envelope?.messageId,
-            date: envelope?.date?.toISOString(),
-            source: 'imap',
-          },
-          events: {
-            create: {
-              type: 'INBOUND_RECEIVED',
-              details: {
-                uid,
-                subject,
-                messageId: envelope?.messageId,
-              },
-            },
-          },
+      // Store message in database, threaded into its conversation
+      const savedMessage = await this.messageService.receiveInboundEmail({
+        fromName: from.name || 'Unknown',
+        fromEmail: from.address,
+        subject,
+        body: String(body).trim(),
+        emailMessageId: envelope?.messageId,
+        inReplyTo,
+        references,
+        context: {
+          subject,
+          uid,
+          messageId: envelope?.messageId,
+          date: envelope?.date?.toISOString(),
+          source: 'imap',
         },
       });
 
@@ -319,8 +319,18 @@ export class ImapService {
       await this.client.messageFlagsAdd(uid, ['\\Seen']);
 
       const duration = Date.now() - startTime;
+      if (!savedMessage) {
+        this.logger.debug('Skipped email already stored', {
+          emailMessageId: envelope?.messageId,
+          uid,
+          duration,
+        });
+        return;
+      }
+
       this.logger.info('Message processed successfully', {
         messageId: savedMessage.id,
+        conversationId: savedMessage.conversationId,
         fromEmail: from.address,
         subject,
         uid,
@@ -330,6 +340,7 @@ export class ImapService {
       // Business event
       this.logger.business('inbound_message_received', {
         messageId: savedMessage.id,
+        conversationId: savedMessage.conversationId,
         fromEmail: from.address,
         subject,
         source: 'imap',
@@ -1,5 +1,6 @@
+import { config } from '@/utils/config';
 import { createLogger } from '@/utils/logger';
-import { EventType, Message, MessageStatus, PrismaClient } from '@prisma/client';
+import { Conversation, ConversationStatus, EventType, Message, MessageStatus, Prisma, PrismaClient } from '@prisma/client';
 import { Queue } from 'bullmq';
 import { v4 as uuidv4 } from 'uuid';
 import { CacheService } from './cache.service';
@@ -15,6 +16,24 @@ export interface CreateMessageDto {
   correlationId?: string;
 }
 
+export interface InboundEmailDto {
+  fromName: string;
+  fromEmail: string;
+  subject: string;
+  body: string;
+  emailMessageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  context?: any;
+}
+
+export interface ConversationReplyDto {
+  body: string;
+  authorId: string;
+  authorEmail?: string;
+  correlationId?: string;
+}
+
 export interface MessageWithEvents extends Message {
   events: Array<{
     id: string;
@@ -32,6 +51,29 @@ export interface PaginatedMessages {
   totalPages: number;
 }
 
+export interface ConversationSummary extends Conversation {
+  messageCount: number;
+  lastMessage: Pick<Message, 'id' | 'fromName' | 'body' | 'direction' | 'status' | 'createdAt'> | null;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: Message[];
+}
+
+export interface PaginatedConversations {
+  data: ConversationSummary[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Subject of the thread the contact sees once staff reply to a contact form message
+const CONTACT_FORM_SUBJECT = 'Pedido de contacto - Ribeira Azul';
+
+// Only the most recent ids go into References, keeping the header short on long threads
+const MAX_REFERENCES = 20;
+
 export class MessageService {
   private logger = createLogger({ service: 'MessageService' });
 
@@ -59,7 +101,10 @@ export class MessageService {
         bodyLength: data.body.length,
       });
 
-      // Create message in database
+      // Known before sending so replies to the notification thread back to this conversation
+      const emailMessageId = this.emailService.createMessageId();
+
+      // Create message in database, starting its conversation
       const message = await this.prisma.message.create({
         data: {
           fromName: data.fromName,
@@ -68,6 +113,15 @@ export class MessageService {
           body: data.body,
           context: data.context,
           status: 'QUEUED',
+          direction: 'INBOUND',
+          emailMessageId,
+          conversation: {
+            create: {
+              subject: CONTACT_FORM_SUBJECT,
+              contactName: data.fromName,
+              contactEmail: data.fromEmail,
+            },
+          },
           events: {
             create: {
               type: 'OUTBOUND_QUEUED',
@@ -94,6 +148,7 @@ export class MessageService {
             fromEmail: data.fromEmail,
             phone: data.phone,
             body: data.body,
+            emailMessageId,
             correlationId,
           },
           {
@@ -113,6 +168,7 @@ export class MessageService {
             fromEmail: data.fromEmail,
             phone: data.phone,
             body: data.body,
+            messageId: emailMessageId,
           });
 
           await this.updateMessageStatus(message.id, 'SENT', correlationId);
@@ -420,6 +476,385 @@ export class MessageService {
     }
   }
 
+  /**
+   * Count contact messages per property (context.propertyId), used by the
+   * listing conversion analytics in properties-service
+   */
+  async getPropertyContactCounts(dateFrom: Date, dateTo: Date): Promise<Array<{ propertyId: string; contacts: number }>> {
+    const startTime = Date.now();
+
+    try {
+      const rows = await this.prisma.$queryRaw<Array<{ propertyId: string; contacts: bigint }>>`
+        SELECT context->>'propertyId' AS "propertyId", COUNT(*) AS contacts
+        FROM "Message"
+        WHERE context->>'propertyId' IS NOT NULL
+          AND "createdAt" >= ${dateFrom}
+          AND "createdAt" < ${dateTo}
+        GROUP BY 1
+      `;
+
+      const duration = Date.now() - startTime;
+      this.logger.database('aggregate', 'Message', duration, { properties: rows.length });
+
+      return rows.map((row) => ({ propertyId: row.propertyId, contacts: Number(row.contacts) }));
+    } catch (error: any) {
+      this.logger.error('Failed to count contacts per property', {
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Count leads (contact form messages) per day, week or month, used by the
+   * management report in properties-service. Inbound emails stay RECEIVED
+   * and staff replies are outbound, so neither are leads.
+   */
+  async getLeadCounts(
+    dateFrom: Date,
+    dateTo: Date,
+    granularity: 'day' | 'week' | 'month'
+  ): Promise<Array<{ period: string; leads: number }>> {
+    const startTime = Date.now();
+
+    try {
+      const rows = await this.prisma.$queryRaw<Array<{ period: string; leads: bigint }>>`
+        SELECT to_char(date_trunc(${granularity}, "createdAt"), 'YYYY-MM-DD') AS period, COUNT(*) AS leads
+        FROM "Message"
+        WHERE status <> 'RECEIVED'
+          AND direction = 'INBOUND'
+          AND "createdAt" >= ${dateFrom}
+          AND "createdAt" < ${dateTo}
+        GROUP BY 1
+        ORDER BY 1
+      `;
+
+      const duration = Date.now() - startTime;
+      this.logger.database('aggregate', 'Message', duration, { periods: rows.length });
+
+      return rows.map((row) => ({ period: row.period, leads: Number(row.leads) }));
+    } catch (error: any) {
+      this.logger.error('Failed to count leads per period', {
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store an inbound email, threading it into the conversation whose messages it
+   * answers (In-Reply-To first, then References, newest first). Unmatched emails
+   * start a new conversation. Returns null for emails already stored, such as our
+   * own notifications landing in the same mailbox.
+   */
+  async receiveInboundEmail(data: InboundEmailDto): Promise<Message | null> {
+    const startTime = Date.now();
+
+    try {
+      if (data.emailMessageId) {
+        const existing = await this.prisma.message.findUnique({
+          where: { emailMessageId: data.emailMessageId },
+          select: { id: true },
+        });
+        if (existing) {
+          return null;
+        }
+      }
+
+      const conversationId = await this.findConversationForReply(data.inReplyTo, data.references ?? []);
+      const messageData = {
+        fromName: data.fromName,
+        fromEmail: data.fromEmail,
+        body: data.body,
+        status: 'RECEIVED' as const,
+        direction: 'INBOUND' as const,
+        emailMessageId: data.emailMessageId,
+        inReplyTo: data.inReplyTo,
+        references: data.references ?? [],
+        context: data.context,
+        events: {
+          create: {
+            type: 'INBOUND_RECEIVED' as const,
+            details: {
+              subject: data.subject,
+              messageId: data.emailMessageId,
+              inReplyTo: data.inReplyTo,
+            },
+          },
+        },
+      };
+
+      let message: Message;
+      if (conversationId) {
+        // The contact answered, so the conversation waits on staff again
+        const [created] = await this.prisma.$transaction([
+          this.prisma.message.create({
+            data: { ...messageData, conversation: { connect: { id: conversationId } } },
+          }),
+          this.prisma.conversation.update({
+            where: { id: conversationId },
+            data: { status: 'OPEN', lastMessageAt: new Date() },
+          }),
+        ]);
+        message = created;
+      } else {
+        message = await this.prisma.message.create({
+          data: {
+            ...messageData,
+            conversation: {
+              create: {
+                subject: data.subject,
+                contactName: data.fromName,
+                contactEmail: data.fromEmail,
+              },
+            },
+          },
+        });
+      }
+
+      const duration = Date.now() - startTime;
+      this.logger.database('create', 'Message', duration, {
+        messageId: message.id,
+        conversationId: message.conversationId,
+        threaded: !!conversationId,
+      });
+
+      this.metricsService.incrementCounter(conversationId ? 'inbound_replies_threaded_total' : 'conversations_created_total');
+
+      return message;
+    } catch (error: any) {
+      // Another poll stored the same email first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+
+      this.logger.error('Failed to store inbound email', {
+        error: error.message,
+        fromEmail: data.fromEmail,
+        emailMessageId: data.emailMessageId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get paginated conversations, most recent activity first
+   */
+  async getConversations(
+    page = 1,
+    limit = 20,
+    filters: {
+      status?: ConversationStatus;
+      contactEmail?: string;
+    } = {}
+  ): Promise<PaginatedConversations> {
+    const startTime = Date.now();
+    const offset = (page - 1) * limit;
+
+    try {
+      const where: Prisma.ConversationWhereInput = {};
+
+      if (filters.status) {
+        where.status = filters.status;
+      }
+
+      if (filters.contactEmail) {
+        where.contactEmail = {
+          contains: filters.contactEmail,
+          mode: 'insensitive',
+        };
+      }
+
+      const [conversations, total] = await Promise.all([
+        this.prisma.conversation.findMany({
+          where,
+          orderBy: { lastMessageAt: 'desc' },
+          skip: offset,
+          take: limit,
+          include: {
+            _count: { select: { messages: true } },
+            messages: {
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+              select: { id: true, fromName: true, body: true, direction: true, status: true, createdAt: true },
+            },
+          },
+        }),
+        this.prisma.conversation.count({ where }),
+      ]);
+
+      const duration = Date.now() - startTime;
+      this.logger.database('findMany', 'Conversation', duration, {
+        count: conversations.length,
+        total,
+        page,
+        limit,
+      });
+
+      return {
+        data: conversations.map(({ _count, messages, ...conversation }) => ({
+          ...conversation,
+          messageCount: _count.messages,
+          lastMessage: messages[0] ?? null,
+        })),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get conversations', {
+        error: error.message,
+        page,
+        limit,
+        filters,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a conversation with all its messages, oldest first
+   */
+  async getConversationById(id: string): Promise<ConversationWithMessages | null> {
+    const startTime = Date.now();
+
+    try {
+      const conversation = await this.prisma.conversation.findUnique({
+        where: { id },
+        include: {
+          messages: {
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      const duration = Date.now() - startTime;
+      this.logger.database('findUnique', 'Conversation', duration, { conversationId: id });
+
+      return conversation;
+    } catch (error: any) {
+      this.logger.error('Failed to get conversation by ID', {
+        error: error.message,
+        conversationId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a staff reply to the conversation contact, threaded after the latest
+   * message. The reply is stored either way; a delivery failure leaves it FAILED.
+   * Returns null when the conversation does not exist.
+   */
+  async replyToConversation(conversationId: string, data: ConversationReplyDto): Promise<Message | null> {
+    const correlationId = data.correlationId || uuidv4();
+    const replyLogger = this.logger.child({ correlationId, conversationId, operation: 'replyToConversation' });
+
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: {
+        messages: {
+          where: { emailMessageId: { not: null } },
+          orderBy: { createdAt: 'asc' },
+          select: { emailMessageId: true },
+        },
+      },
+    });
+
+    if (!conversation) {
+      return null;
+    }
+
+    const threadIds = conversation.messages.map((message) => message.emailMessageId!);
+    const references = threadIds.slice(-MAX_REFERENCES);
+    const inReplyTo = threadIds[threadIds.length - 1];
+    const emailMessageId = this.emailService.createMessageId();
+    const subject = /^re:/i.test(conversation.subject) ? conversation.subject : `Re: ${conversation.subject}`;
+
+    const reply = await this.prisma.message.create({
+      data: {
+        fromName: 'Ribeira Azul',
+        fromEmail: config.EMAIL_FROM,
+        body: data.body,
+        status: 'QUEUED',
+        direction: 'OUTBOUND',
+        emailMessageId,
+        inReplyTo,
+        references,
+        authorId: data.authorId,
+        context: { authorEmail: data.authorEmail, correlationId },
+        conversation: { connect: { id: conversationId } },
+        events: {
+          create: {
+            type: 'OUTBOUND_QUEUED',
+            details: { correlationId, authorId: data.authorId },
+          },
+        },
+      },
+    });
+
+    try {
+      await this.emailService.sendReplyEmail({
+        to: conversation.contactEmail,
+        toName: conversation.contactName,
+        subject,
+        body: data.body,
+        messageId: emailMessageId,
+        inReplyTo,
+        references,
+      });
+    } catch (error: any) {
+      replyLogger.error('Failed to send conversation reply', {
+        error: error.message,
+        messageId: reply.id,
+      });
+
+      return this.updateMessageStatus(reply.id, 'FAILED', correlationId, error.message);
+    }
+
+    const [sent] = await Promise.all([
+      this.updateMessageStatus(reply.id, 'SENT', correlationId),
+      this.prisma.conversation.update({
+        where: { id: conversationId },
+        data: { status: 'ANSWERED', lastMessageAt: new Date() },
+      }),
+    ]);
+
+    this.metricsService.incrementCounter('conversation_replies_total');
+
+    replyLogger.audit('conversation_replied', {
+      messageId: reply.id,
+      authorId: data.authorId,
+      authorEmail: data.authorEmail,
+    });
+
+    return sent;
+  }
+
+  // Message-IDs of a reply, most specific first
+  private async findConversationForReply(inReplyTo: string | undefined, references: string[]): Promise<string | null> {
+    const candidates = [...new Set([inReplyTo, ...[...references].reverse()].filter((id): id is string => !!id))];
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const matches = await this.prisma.message.findMany({
+      where: { emailMessageId: { in: candidates } },
+      select: { emailMessageId: true, conversationId: true },
+    });
+    const byMessageId = new Map(matches.map((match) => [match.emailMessageId, match.conversationId]));
+
+    for (const candidate of candidates) {
+      const conversationId = byMessageId.get(candidate);
+      if (conversationId) {
+        return conversationId;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Retry failed messages
    */
@@ -430,6 +865,7 @@ export class MessageService {
       const failedMessages = await this.prisma.message.findMany({
         where: {
           status: 'FAILED',
+          direction: 'INBOUND', // Failed staff replies are resent from the conversation, not as contact emails
           retries: { lt: 3 }, // Max 3 retries
         },
         take: limit,
@@ -453,6 +889,7 @@ export class MessageService {
                 fromEmail: message.fromEmail,
                 phone: message.phone,
                 body: message.body,
+                emailMessageId: message.emailMessageId,
                 retry: true,
               },
               {
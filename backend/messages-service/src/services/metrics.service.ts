@@ -26,6 +26,9 @@ export class MetricsService {
     this.createCounter('messages_failed_total', 'Total messages failed');
     this.createCounter('messages_queued_total', 'Total messages queued');
     this.createCounter('messages_retried_total', 'Total messages retried');
+    this.createCounter('conversations_created_total', 'Total conversations started by inbound emails');
+    this.createCounter('inbound_replies_threaded_total', 'Total inbound emails threaded into a conversation');
+    this.createCounter('conversation_replies_total', 'Total staff replies sent from the admin panel');
 
     // Email metrics
     this.createCounter('emails_sent_total', 'Total emails sent');
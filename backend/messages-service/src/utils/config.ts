@@ -37,6 +37,7 @@ const schema = z.object({
   SMTP_VERIFY_CONNECTION: z.coerce.boolean().default(false),
   
   // IMAP Configuration
+  IMAP_ENABLED: z.string().default('false').transform((value) => value === 'true'), // Inbound replies are threaded into conversations
   IMAP_HOST: z.string().min(1),
   IMAP_PORT: z.coerce.number().default(993),
   IMAP_SECURE: z.coerce.boolean().default(true),
@@ -59,6 +60,7 @@ const schema = z.object({
   JWT_SECRET: z.string().min(32).optional(),
   API_KEY_HEADER: z.string().default('x-api-key'),
   ALLOWED_API_KEYS: z.string().optional(),
+  INTERNAL_API_KEY: z.string().optional(), // Service-to-service calls; internal routes and the per-property/lead stats are disabled without it
   CORS_ORIGINS: z.string().optional(),
   TRUST_PROXY: z.coerce.boolean().default(false),
   
@@ -114,6 +116,7 @@ class ConfigService {
       SMTP_PORT: this._config.SMTP_PORT,
       SMTP_SECURE: this._config.SMTP_SECURE,
       SMTP_VERIFY_CONNECTION: this._config.SMTP_VERIFY_CONNECTION,
+      IMAP_ENABLED: this._config.IMAP_ENABLED,
     });
   }
 
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ProjectType" AS ENUM ('renovation', 'construction', 'design');
+
+-- CreateEnum
+CREATE TYPE "ProjectStatus" AS ENUM ('planned', 'in_progress', 'completed', 'on_hold');
+
+-- CreateTable
+CREATE TABLE "projects" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "type" "ProjectType" NOT NULL,
+    "status" "ProjectStatus" NOT NULL DEFAULT 'planned',
+    "description" TEXT,
+    "imageUrl" VARCHAR(2048),
+    "gallery" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "projects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ProjectProperties" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ProjectProperties_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "projects_type_idx" ON "projects"("type");
+
+-- CreateIndex
+CREATE INDEX "projects_status_idx" ON "projects"("status");
+
+-- CreateIndex
+CREATE INDEX "projects_createdAt_idx" ON "projects"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "projects_type_status_idx" ON "projects"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "_ProjectProperties_B_index" ON "_ProjectProperties"("B");
+
+-- AddForeignKey
+ALTER TABLE "_ProjectProperties" ADD CONSTRAINT "_ProjectProperties_A_fkey" FOREIGN KEY ("A") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ProjectProperties" ADD CONSTRAINT "_ProjectProperties_B_fkey" FOREIGN KEY ("B") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- Enable PostGIS (shared by all service schemas)
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA public;
+
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "geoPoint" public.geography(Point, 4326);
+
+-- CreateIndex
+CREATE INDEX "properties_geoPoint_idx" ON "properties" USING GIST ("geoPoint");
+
+-- Keep "geoPoint" in sync with the "coordinates" JSON ({ latitude, longitude }).
+-- Older rows may hold the JSON serialized as a string, so unwrap it first.
+CREATE OR REPLACE FUNCTION properties_sync_geo_point() RETURNS trigger AS $$
+DECLARE
+    coords JSONB;
+BEGIN
+    NEW."geoPoint" := NULL;
+
+    IF NEW."coordinates" IS NOT NULL THEN
+        coords := NEW."coordinates";
+        IF jsonb_typeof(coords) = 'string' THEN
+            BEGIN
+                coords := (coords #>> '{}')::jsonb;
+            EXCEPTION WHEN others THEN
+                coords := NULL;
+            END;
+        END IF;
+
+        IF jsonb_typeof(coords) = 'object'
+            AND jsonb_typeof(coords -> 'latitude') = 'number'
+            AND jsonb_typeof(coords -> 'longitude') = 'number'
+            AND (coords ->> 'latitude')::float8 BETWEEN -90 AND 90
+            AND (coords ->> 'longitude')::float8 BETWEEN -180 AND 180 THEN
+            NEW."geoPoint" := public.ST_SetSRID(
+                public.ST_MakePoint((coords ->> 'longitude')::float8, (coords ->> 'latitude')::float8),
+                4326
+            )::public.geography;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "properties_sync_geo_point"
+    BEFORE INSERT OR UPDATE OF "coordinates" ON "properties"
+    FOR EACH ROW EXECUTE FUNCTION properties_sync_geo_point();
+
+-- Backfill existing rows
+UPDATE "properties" SET "coordinates" = "coordinates" WHERE "coordinates" IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Accent-insensitive Portuguese full-text search
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA public;
+
+-- Portuguese stemming on top of unaccent ("Ribeirão" and "ribeirao" produce the same lexeme)
+CREATE TEXT SEARCH CONFIGURATION portuguese_unaccent (COPY = pg_catalog.portuguese);
+ALTER TEXT SEARCH CONFIGURATION portuguese_unaccent
+    ALTER MAPPING FOR hword, hword_part, word
+    WITH public.unaccent, pg_catalog.portuguese_stem;
+
+-- AlterTable: weighted document (title > location > description)
+ALTER TABLE "properties" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('portuguese_unaccent'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('portuguese_unaccent'::regconfig, coalesce("location", '')), 'B') ||
+    setweight(to_tsvector('portuguese_unaccent'::regconfig, coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "properties_searchVector_idx" ON "properties" USING GIN ("searchVector");
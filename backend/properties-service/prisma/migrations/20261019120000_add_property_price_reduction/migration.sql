@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "previousPrice" DECIMAL(12,2),
+ADD COLUMN "priceReducedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "properties_priceReducedAt_idx" ON "properties"("priceReducedAt");
+
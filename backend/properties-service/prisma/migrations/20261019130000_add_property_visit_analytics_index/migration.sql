@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "property_visits_visitedAt_idx" ON "property_visits"("visitedAt");
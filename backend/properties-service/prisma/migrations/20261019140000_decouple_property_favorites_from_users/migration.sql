@@ -0,0 +1,3 @@
+-- Favorites belong to auth-service users, which are not mirrored in "users"
+-- DropForeignKey
+ALTER TABLE "property_favorites" DROP CONSTRAINT "property_favorites_userId_fkey";
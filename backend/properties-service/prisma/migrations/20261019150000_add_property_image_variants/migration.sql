@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "property_images" ADD COLUMN "width" INTEGER,
+ADD COLUMN "height" INTEGER,
+ADD COLUMN "dominantColor" VARCHAR(7),
+ADD COLUMN "variants" JSONB;
@@ -0,0 +1,12 @@
+-- Owners and agents are auth-service users, which are not mirrored in "users"/"agents"
+-- DropForeignKey
+ALTER TABLE "properties" DROP CONSTRAINT "properties_ownerId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "properties" DROP CONSTRAINT "properties_agentId_fkey";
+
+-- CreateIndex
+CREATE INDEX "properties_ownerId_idx" ON "properties"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "properties_agentId_idx" ON "properties"("agentId");
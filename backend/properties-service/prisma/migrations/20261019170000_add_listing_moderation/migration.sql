@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "ModerationStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "moderationStatus" "ModerationStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "submittedAt" TIMESTAMP(3),
+ADD COLUMN "submittedBy" TEXT,
+ADD COLUMN "reviewedAt" TIMESTAMP(3),
+ADD COLUMN "reviewedBy" TEXT,
+ADD COLUMN "rejectionReason" TEXT;
+
+-- Existing pending listings enter the review queue; inactive ones are archived
+UPDATE "properties" SET "moderationStatus" = 'SUBMITTED', "submittedAt" = "updatedAt" WHERE "adminStatus" = 'PENDING';
+UPDATE "properties" SET "moderationStatus" = 'ARCHIVED' WHERE "adminStatus" = 'INACTIVE';
+
+-- CreateTable
+CREATE TABLE "property_moderation_events" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "action" VARCHAR(20) NOT NULL,
+    "fromStatus" "ModerationStatus" NOT NULL,
+    "toStatus" "ModerationStatus" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "property_moderation_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "properties_moderationStatus_submittedAt_idx" ON "properties"("moderationStatus", "submittedAt");
+
+-- CreateIndex
+CREATE INDEX "property_moderation_events_propertyId_createdAt_idx" ON "property_moderation_events"("propertyId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "property_moderation_events" ADD CONSTRAINT "property_moderation_events_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "closedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "properties_closedAt_idx" ON "properties"("closedAt");
+
+-- Stamp "closedAt" when a listing is sold or rented and clear it when it goes back on the market,
+-- so days on market (createdAt -> closedAt) can be reported without a status history.
+CREATE OR REPLACE FUNCTION properties_sync_closed_at() RETURNS trigger AS $$
+BEGIN
+    IF NEW."status" IN ('sold', 'rented') THEN
+        NEW."closedAt" := COALESCE(NEW."closedAt", CURRENT_TIMESTAMP);
+    ELSE
+        NEW."closedAt" := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "properties_sync_closed_at"
+    BEFORE INSERT OR UPDATE OF "status" ON "properties"
+    FOR EACH ROW EXECUTE FUNCTION properties_sync_closed_at();
+
+-- Backfill: the last update is the best estimate for listings that are already closed
+UPDATE "properties" SET "closedAt" = "updatedAt" WHERE "status" IN ('sold', 'rented');
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "publishedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "properties_publishedAt_idx" ON "properties"("publishedAt");
+
+-- Backfill: the last publication recorded by the review workflow, else the creation date
+UPDATE "properties" p SET "publishedAt" = COALESCE(
+    (SELECT MAX(e."createdAt") FROM "property_moderation_events" e WHERE e."propertyId" = p."id" AND e."toStatus" = 'PUBLISHED'),
+    p."createdAt"
+)
+WHERE p."adminStatus" = 'ACTIVE';
@@ -10,6 +10,8 @@
 import { PropertyCore, PropertyNotFoundError, PropertyValidationError } from '../core/property-core';
 import {
     PaginatedPropertyData,
+    PriceHistoryEntry,
+    PropertyChangeContext,
     PropertyCreateData,
     PropertyFilterData,
     PropertyId,
@@ -91,15 +93,28 @@ export class PropertiesAPIImpl implements PropertiesAPI {
     }
   }
 
-  async updateProperty(id: PropertyId, data: PropertyUpdateData): Promise<ApiResponse<PropertyWithComputedFields>> {
+  async updateProperty(
+    id: PropertyId,
+    data: PropertyUpdateData,
+    context?: PropertyChangeContext
+  ): Promise<ApiResponse<PropertyWithComputedFields>> {
     try {
-      const property = await this.core.updateProperty(id, data);
+      const property = await this.core.updateProperty(id, data, context);
       return this.successResponse(property);
     } catch (error) {
       return this.errorResponse(error);
     }
   }
 
+  async getPriceHistory(id: PropertyId): Promise<ApiResponse<PriceHistoryEntry[]>> {
+    try {
+      const history = await this.core.getPriceHistory(id);
+      return this.successResponse(history);
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
   async deleteProperty(id: PropertyId): Promise<ApiResponse<void>> {
     try {
       await this.core.deleteProperty(id);
@@ -3,6 +3,7 @@ import Fastify from 'fastify';
 import path from 'path';
 import { prisma } from './config/database';
 import { config } from './config/index';
+import { IMAGE_SIZE_CEILING_MB, stopModuleSettingsSync } from './config/module-settings';
 import { ServiceFactory } from './factories/service.factory';
 import { registerRoutes } from './routes/index.js';
 import { serviceLogger } from './utils/logger';
@@ -27,7 +28,8 @@ export async function buildApp() {
             ignore: 'pid,hostname',
           }
         } : undefined
-      }
+      },
+      trustProxy: config.TRUST_PROXY_HOPS > 0 ? config.TRUST_PROXY_HOPS : false,
     });
 
     // Register CORS (normalize www / non-www variants)
@@ -63,7 +65,7 @@ export async function buildApp() {
     // Register multipart for file uploads with enhanced security
     await app.register(import('@fastify/multipart'), {
       limits: {
-        fileSize: 20 * 1024 * 1024, // 20MB max per file
+        fileSize: IMAGE_SIZE_CEILING_MB * 1024 * 1024, // Hard ceiling, the maxImageSizeMb module setting applies below it
         files: 10, // Max 5 files per request
         fields: 10, // Max 10 text fields
         fieldSize: 1024 * 1024, // 5MB max per field
@@ -80,6 +82,9 @@ export async function buildApp() {
     await app.register(import('@fastify/static'), {
       root: uploadsPath,
       prefix: '/uploads/',
+      // Upload paths are UUID-based and never rewritten
+      maxAge: '365d',
+      immutable: true,
     });
     
     serviceLogger.info(`Static files configured: ${uploadsPath} -> /uploads/`);
@@ -92,6 +97,7 @@ export async function buildApp() {
     // Graceful shutdown
     app.addHook('onClose', async () => {
       serviceLogger.info('Application shutting down, cleaning up services...');
+      stopModuleSettingsSync();
       try {
         await serviceFactory.shutdown();
         serviceLogger.info('Services cleanup completed');
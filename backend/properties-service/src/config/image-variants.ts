@@ -0,0 +1,74 @@
+/**
+ * Image Variants
+ *
+ * Named sizes generated for every property photo (IMAGE_VARIANTS) and the formats each one
+ * is encoded in (IMAGE_VARIANT_FORMATS). JPEG is always produced as the fallback for browsers
+ * without AVIF/WebP support and as the `url` kept on PropertyImage/Property for older clients.
+ */
+
+import { config } from './index';
+
+export type ImageVariantFormat = 'avif' | 'webp' | 'jpeg';
+export type ImageVariantFit = 'cover' | 'inside';
+
+export interface ImageVariantDefinition {
+  name: string;
+  width: number;
+  height: number;
+  fit: ImageVariantFit;
+}
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  sources: Partial<Record<ImageVariantFormat, string>>;
+}
+
+export type ImageVariants = Record<string, ImageVariant>;
+
+export const IMAGE_VARIANT_FORMAT_OPTIONS: Record<ImageVariantFormat, { extension: string; mimeType: string; quality: number }> = {
+  avif: { extension: '.avif', mimeType: 'image/avif', quality: 55 },
+  webp: { extension: '.webp', mimeType: 'image/webp', quality: 80 },
+  jpeg: { extension: '.jpg', mimeType: 'image/jpeg', quality: 82 },
+};
+
+// Variant whose JPEG becomes the image `url` (largest one when not configured)
+export const FALLBACK_VARIANT_NAME = 'full';
+
+const VARIANT_PATTERN = /^([a-z][a-z0-9-]*):(\d+)x(\d+)(?::(cover|inside))?$/;
+
+function parseVariants(raw: string): ImageVariantDefinition[] {
+  const variants = raw.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const match = VARIANT_PATTERN.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid IMAGE_VARIANTS entry "${entry}" (expected name:WIDTHxHEIGHT[:cover|inside])`);
+    }
+    const [, name, width, height, fit] = match;
+    return {
+      name: name!,
+      width: Number(width),
+      height: Number(height),
+      fit: (fit as ImageVariantFit | undefined) ?? 'inside',
+    };
+  });
+
+  if (variants.length === 0) {
+    throw new Error('IMAGE_VARIANTS must define at least one variant');
+  }
+  return variants;
+}
+
+function parseFormats(raw: string): ImageVariantFormat[] {
+  const formats = raw.split(',').map((format) => format.trim().toLowerCase()).filter(Boolean);
+  for (const format of formats) {
+    if (!(format in IMAGE_VARIANT_FORMAT_OPTIONS)) {
+      throw new Error(`Invalid IMAGE_VARIANT_FORMATS entry "${format}" (expected avif, webp or jpeg)`);
+    }
+  }
+
+  // JPEG fallback is always generated
+  return [...new Set([...formats as ImageVariantFormat[], 'jpeg' as const])];
+}
+
+export const IMAGE_VARIANTS = parseVariants(config.IMAGE_VARIANTS);
+export const IMAGE_VARIANT_FORMATS = parseFormats(config.IMAGE_VARIANT_FORMATS);
@@ -9,6 +9,9 @@ const configSchema = z.object({
   PORT: z.coerce.number().default(8082),
   HOST: z.string().default('0.0.0.0'),
   
+  // Proxies in front of the service whose X-Forwarded-For entries are trusted (the API gateway)
+  TRUST_PROXY_HOPS: z.coerce.number().int().min(0).default(1),
+  
   // CORS
   CORS_ORIGIN: z.string().default(process.env.API_URL || 'http://localhost:3001'),
   
@@ -27,6 +30,25 @@ const configSchema = z.object({
   JWT_SECRET: z.string().optional(),
   JWT_EXPIRY: z.string().default('24h'),
   
+  // Messages service (contact and lead counts for the analytics, only when INTERNAL_API_KEY is set)
+  MESSAGES_SERVICE_URL: z.string().default('http://messages:8090'),
+  
+  // Service-to-service calls (e.g. media reconciliation); internal routes are disabled without it
+  INTERNAL_API_KEY: z.string().optional(),
+  
+  // Users service (listing review notifications and search/sign-up analytics, only when INTERNAL_API_KEY is set)
+  USERS_SERVICE_URL: z.string().default('http://users:8086'),
+  
+  // Settings service (runtime module settings, polled with If-None-Match)
+  SETTINGS_SERVICE_URL: z.string().default('http://settings:8085'),
+  MODULE_SETTINGS_POLL_INTERVAL: z.coerce.number().default(30000), // 30 seconds
+  
+  // Image variants generated on upload: name:WIDTHxHEIGHT:fit, and output formats (preferred first)
+  IMAGE_VARIANTS: z.string().default('thumb:320x240:cover,card:640x480:cover,detail:1280x960:inside,full:1920x1080:inside'),
+  IMAGE_VARIANT_FORMATS: z.string().default('avif,webp,jpeg'),
+  // Unwatermarked full-resolution copies, kept outside the publicly served uploads directory
+  IMAGE_ORIGINALS_DIR: z.string().default('/app/originals'),
+  
   // Rate limiting
   RATE_LIMIT_MAX: z.coerce.number().default(100),
   RATE_LIMIT_WINDOW: z.string().default('1 minute'),
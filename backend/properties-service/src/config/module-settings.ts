@@ -0,0 +1,211 @@
+/**
+ * Runtime Module Settings
+ *
+ * Registers the "properties" module schema and defaults with settings-service and
+ * keeps a local copy in sync by polling with If-None-Match, so limits such as the
+ * search radius, the image upload size or the photo watermark can be tuned from the admin panel without a deploy.
+ */
+
+import { serviceLogger } from '../utils/logger';
+import { config } from './index';
+
+export const PROPERTIES_MODULE_NAME = 'properties';
+
+// Hard ceilings enforced by the route schemas and the multipart limits
+export const SEARCH_RADIUS_CEILING_KM = 500;
+export const IMAGE_SIZE_CEILING_MB = 20;
+
+const REQUEST_TIMEOUT_MS = 3000;
+const SCHEMA_VERSION = '2';
+
+export const WATERMARK_POSITIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'] as const;
+export type WatermarkPosition = typeof WATERMARK_POSITIONS[number];
+
+export interface PropertiesModuleSettings {
+  maxSearchRadius: number;
+  defaultSearchRadius: number;
+  maxImageSizeMb: number;
+  watermarkEnabled: boolean;
+  watermarkPosition: WatermarkPosition;
+  watermarkOpacity: number;
+}
+
+export const PROPERTIES_MODULE_DEFAULTS: PropertiesModuleSettings = {
+  maxSearchRadius: 100, // km
+  defaultSearchRadius: 5, // km
+  maxImageSizeMb: 20,
+  watermarkEnabled: false,
+  watermarkPosition: 'bottom-right',
+  watermarkOpacity: 0.5,
+};
+
+const NUMERIC_SETTINGS = ['maxSearchRadius', 'defaultSearchRadius', 'maxImageSizeMb'] as const;
+
+const PROPERTIES_MODULE_SCHEMA = {
+  type: 'object',
+  properties: {
+    maxSearchRadius: {
+      type: 'number',
+      title: 'Raio máximo de pesquisa (km)',
+      description: 'Limite para pesquisas por proximidade no mapa',
+      minimum: 1,
+      maximum: SEARCH_RADIUS_CEILING_KM,
+    },
+    defaultSearchRadius: {
+      type: 'number',
+      title: 'Raio de pesquisa por omissão (km)',
+      description: 'Usado quando o pedido não indica um raio',
+      minimum: 0.1,
+      maximum: SEARCH_RADIUS_CEILING_KM,
+    },
+    maxImageSizeMb: {
+      type: 'integer',
+      title: 'Tamanho máximo por imagem (MB)',
+      description: `Limite de upload de imagens de imóveis (máximo ${IMAGE_SIZE_CEILING_MB}MB)`,
+      minimum: 1,
+      maximum: IMAGE_SIZE_CEILING_MB,
+    },
+    watermarkEnabled: {
+      type: 'boolean',
+      title: 'Marca de água nas fotografias',
+      description: 'Aplica o logótipo das configurações gerais às novas fotografias de imóveis (o original arquivado não é alterado)',
+    },
+    watermarkPosition: {
+      type: 'string',
+      title: 'Posição da marca de água',
+      enum: [...WATERMARK_POSITIONS],
+    },
+    watermarkOpacity: {
+      type: 'number',
+      title: 'Opacidade da marca de água',
+      description: 'De 0.05 (quase transparente) a 1 (opaca)',
+      minimum: 0.05,
+      maximum: 1,
+    },
+  },
+  required: ['maxSearchRadius', 'defaultSearchRadius', 'maxImageSizeMb', 'watermarkEnabled', 'watermarkPosition', 'watermarkOpacity'],
+  additionalProperties: false,
+};
+
+let currentSettings: PropertiesModuleSettings = { ...PROPERTIES_MODULE_DEFAULTS };
+let currentETag: string | null = null;
+let schemaRegistered = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Current module settings (defaults until the first successful sync)
+ */
+export function getModuleSettings(): PropertiesModuleSettings {
+  return currentSettings;
+}
+
+/**
+ * Register the schema and start polling settings-service.
+ * Never throws: if settings-service is unreachable the defaults stay in place and the next poll retries.
+ */
+export async function startModuleSettingsSync(): Promise<void> {
+  if (pollTimer) {
+    return;
+  }
+
+  await syncModuleSettings();
+
+  pollTimer = setInterval(() => {
+    void syncModuleSettings();
+  }, config.MODULE_SETTINGS_POLL_INTERVAL);
+  pollTimer.unref();
+}
+
+export function stopModuleSettingsSync(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+async function syncModuleSettings(): Promise<void> {
+  const baseUrl = `${config.SETTINGS_SERVICE_URL.replace(/\/+$/, '')}/api/v1/module-settings`;
+
+  try {
+    if (!schemaRegistered) {
+      await registerSchema(baseUrl);
+      schemaRegistered = true;
+    }
+
+    const response = await fetch(`${baseUrl}/${PROPERTIES_MODULE_NAME}`, {
+      headers: currentETag ? { 'If-None-Match': currentETag } : {},
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 304) {
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(`Settings service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as { data?: Record<string, unknown> };
+    currentETag = response.headers.get('etag');
+    applySettings(body.data ?? {});
+  } catch (error) {
+    serviceLogger.warn({
+      operation: 'syncModuleSettings',
+      error: error instanceof Error ? error.message : String(error),
+    }, 'Module settings sync failed, keeping current values');
+  }
+}
+
+async function registerSchema(baseUrl: string): Promise<void> {
+  // Schema registration is a service-to-service call: the settings service requires the internal key
+  const response = await fetch(`${baseUrl}/schemas/${PROPERTIES_MODULE_NAME}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'X-Internal-API-Key': config.INTERNAL_API_KEY ?? '' },
+    body: JSON.stringify({
+      service: 'properties-service',
+      version: SCHEMA_VERSION,
+      description: 'Limites de pesquisa geográfica, upload de imagens e marca de água',
+      schema: PROPERTIES_MODULE_SCHEMA,
+      defaults: PROPERTIES_MODULE_DEFAULTS,
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Schema registration failed with ${response.status}`);
+  }
+
+  serviceLogger.info({ module: PROPERTIES_MODULE_NAME, version: SCHEMA_VERSION }, 'Module settings schema registered');
+}
+
+function applySettings(raw: Record<string, unknown>): void {
+  const next = { ...PROPERTIES_MODULE_DEFAULTS };
+  for (const key of NUMERIC_SETTINGS) {
+    const value = raw[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      next[key] = value;
+    }
+  }
+
+  if (typeof raw.watermarkEnabled === 'boolean') {
+    next.watermarkEnabled = raw.watermarkEnabled;
+  }
+  if (WATERMARK_POSITIONS.includes(raw.watermarkPosition as WatermarkPosition)) {
+    next.watermarkPosition = raw.watermarkPosition as WatermarkPosition;
+  }
+  if (typeof raw.watermarkOpacity === 'number' && Number.isFinite(raw.watermarkOpacity)) {
+    next.watermarkOpacity = Math.min(Math.max(raw.watermarkOpacity, 0.05), 1);
+  }
+
+  next.maxSearchRadius = Math.min(next.maxSearchRadius, SEARCH_RADIUS_CEILING_KM);
+  next.defaultSearchRadius = Math.min(next.defaultSearchRadius, next.maxSearchRadius);
+  next.maxImageSizeMb = Math.min(next.maxImageSizeMb, IMAGE_SIZE_CEILING_MB);
+
+  const changed = (Object.keys(next) as Array<keyof PropertiesModuleSettings>)
+    .some((key) => next[key] !== currentSettings[key]);
+  if (!changed) {
+    return;
+  }
+
+  currentSettings = next;
+  serviceLogger.info({ module: PROPERTIES_MODULE_NAME, settings: next }, 'Module settings reloaded');
+}
@@ -1,9 +1,21 @@
 import { FastifyReply, FastifyRequest } from 'fastify';
+import { getModuleSettings } from '../config/module-settings';
 import { ServiceFactory } from '../factories/service.factory';
-import { AppError } from '../types/common';
+import { getRequestUser, isAdminRole, RequestUser } from '../middlewares/auth';
 import {
+    assertCanManageProperty,
+    canViewProperty,
+    getPropertyVisibility,
+    resolveCreateAssignment
+} from '../middlewares/property-policy';
+import { AppError, ForbiddenError, NotFoundError, ValidationError } from '../types/common';
+import {
+    agentReassignmentSchema,
+    propertyAssignmentSchema,
+    propertyChangesQuerySchema,
     propertyCreateSchema,
     propertyFiltersSchema,
+    propertySpatialFiltersSchema,
     propertyUpdateSchema
 } from '../types/property';
 import { httpLogger } from '../utils/logger';
@@ -22,15 +34,23 @@ export class PropertyController {
     try {
       httpLogger.info({ operation: 'createProperty' }, 'Creating new property');
       
-      const validatedData = validateInput(propertyCreateSchema, request.body);
+      const { ownerId, agentId, ...validatedData } = validateInput(propertyCreateSchema, request.body);
+      // requirePropertyCreator guarantees an authenticated agent, administrator or API key allowed to create
+      const user = getRequestUser(request)!;
+      assertCanSetAdminStatus(user, validatedData.adminStatus);
+
+      // Administrators publish directly; agents start a draft that goes through review
       const dataWithDefaults = {
         ...validatedData,
         status: validatedData.status || 'for_sale' as const,
-        adminStatus: validatedData.adminStatus ?? 'ACTIVE' as const,
+        adminStatus: validatedData.adminStatus ?? (isAdminRole(user.role) ? 'ACTIVE' as const : 'PENDING' as const),
       };
 
       const propertyService = this.serviceFactory.createCompletePropertyService();
-      const property = await propertyService.createProperty(dataWithDefaults);
+      const property = await propertyService.createProperty(
+        dataWithDefaults,
+        resolveCreateAssignment(user, { ownerId, agentId })
+      );
       
       const responseTime = Date.now() - startTime;
       httpLogger.info({ 
@@ -64,8 +84,17 @@ export class PropertyController {
       
       httpLogger.debug({ operation: 'getPropertyById', id }, 'Fetching property by ID');
       
+      const user = getRequestUser(request);
       const propertyService = this.serviceFactory.createCompletePropertyService();
-      const property = await propertyService.getPropertyById(id);
+      const property = await propertyService.getPropertyById(id, user?.id);
+
+      // Drafts only exist for the people working on them
+      if (property.adminStatus !== 'ACTIVE') {
+        const assignment = await propertyService.getPropertyAssignment(id);
+        if (!canViewProperty(user, assignment)) {
+          throw new NotFoundError('Property', id);
+        }
+      }
       
       const responseTime = Date.now() - startTime;
       httpLogger.debug({ 
@@ -101,7 +130,7 @@ export class PropertyController {
       if (rawQuery?.lat !== undefined && rawQuery?.lng !== undefined) {
         const latitude = parseFloat(String(rawQuery.lat));
         const longitude = parseFloat(String(rawQuery.lng));
-        const radiusKm = rawQuery.radius !== undefined ? parseFloat(String(rawQuery.radius)) : 5;
+        const radiusKm = rawQuery.radius !== undefined ? parseFloat(String(rawQuery.radius)) : getModuleSettings().defaultSearchRadius;
         if (!Number.isNaN(latitude) && !Number.isNaN(longitude) && !Number.isNaN(radiusKm)) {
           enrichedQuery.nearbySearch = { latitude, longitude, radiusKm };
         }
@@ -117,12 +146,16 @@ export class PropertyController {
         sortOrder: validatedFilters.sortOrder || 'desc',
         nearbySearch: validatedFilters.nearbySearch ? {
           ...validatedFilters.nearbySearch,
-          radiusKm: validatedFilters.nearbySearch.radiusKm || 5,
+          radiusKm: validatedFilters.nearbySearch.radiusKm || getModuleSettings().defaultSearchRadius,
         } : undefined,
       };
       
+      const user = getRequestUser(request);
       const propertyService = this.serviceFactory.createCompletePropertyService();
-      const result = await propertyService.getProperties(filtersWithDefaults);
+      const result = await propertyService.getProperties(
+        { ...filtersWithDefaults, visibility: getPropertyVisibility(user) },
+        user?.id
+      );
       
       const responseTime = Date.now() - startTime;
       httpLogger.info({ 
@@ -164,12 +197,16 @@ export class PropertyController {
         sortOrder: validatedFilters.sortOrder || 'desc',
         nearbySearch: validatedFilters.nearbySearch ? {
           ...validatedFilters.nearbySearch,
-          radiusKm: validatedFilters.nearbySearch.radiusKm || 5,
+          radiusKm: validatedFilters.nearbySearch.radiusKm || getModuleSettings().defaultSearchRadius,
         } : undefined,
       };
       
+      const user = getRequestUser(request);
       const propertyService = this.serviceFactory.createCompletePropertyService();
-      const result = await propertyService.getProperties(filtersWithDefaults);
+      const result = await propertyService.getProperties(
+        { ...filtersWithDefaults, visibility: getPropertyVisibility(user) },
+        user?.id
+      );
       
       const responseTime = Date.now() - startTime;
       httpLogger.info({ 
@@ -205,9 +242,12 @@ export class PropertyController {
       httpLogger.info({ operation: 'updateProperty', id }, 'Updating property');
       
       const validatedData = validateInput(propertyUpdateSchema, request.body);
+      const user = getRequestUser(request);
+      assertCanSetAdminStatus(user, validatedData.adminStatus);
       
       const propertyService = this.serviceFactory.createCompletePropertyService();
-      const property = await propertyService.updateProperty(id, validatedData);
+      await this.authorizeChange(user, id);
+      const property = await propertyService.updateProperty(id, validatedData, user?.id);
       
       const responseTime = Date.now() - startTime;
       httpLogger.info({ 
@@ -232,6 +272,82 @@ export class PropertyController {
     }
   }
 
+  async getPriceHistory(request: FastifyRequest, reply: FastifyReply) {
+    const startTime = Date.now();
+    
+    try {
+      const { id } = request.params as { id: string };
+      validateUUID(id);
+      
+      httpLogger.info({ operation: 'getPriceHistory', id }, 'Fetching price history');
+      
+      const propertyService = this.serviceFactory.createCompletePropertyService();
+      const result = await propertyService.getPriceHistory(id);
+      
+      // Who changed the price is back-office information
+      const showChangedBy = isAdminRole(getRequestUser(request)?.role);
+      const history = showChangedBy
+        ? result.history
+        : result.history.map(({ changedBy, ...entry }) => entry);
+      
+      const responseTime = Date.now() - startTime;
+      httpLogger.info({ 
+        operation: 'getPriceHistory', 
+        propertyId: id,
+        count: history.length,
+        responseTime 
+      }, 'Price history fetched successfully');
+      
+      return reply.send({
+        data: { ...result, history },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      httpLogger.error({ 
+        error, 
+        operation: 'getPriceHistory', 
+        responseTime 
+      }, 'Failed to fetch price history');
+      throw error;
+    }
+  }
+
+  async getPropertyChanges(request: FastifyRequest, reply: FastifyReply) {
+    const startTime = Date.now();
+    
+    try {
+      const query = validateInput(propertyChangesQuerySchema, request.query);
+      
+      httpLogger.info({ operation: 'getPropertyChanges', since: query.since }, 'Fetching property changes');
+      
+      const propertyService = this.serviceFactory.createCompletePropertyService();
+      const result = await propertyService.getPropertyChanges({ ...query, limit: query.limit || 100 });
+      
+      const responseTime = Date.now() - startTime;
+      httpLogger.info({ 
+        operation: 'getPropertyChanges', 
+        count: result.data.length,
+        hasMore: result.pagination.hasMore,
+        responseTime 
+      }, 'Property changes fetched successfully');
+      
+      return reply.send({
+        data: result.data,
+        pagination: result.pagination,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      httpLogger.error({ 
+        error, 
+        operation: 'getPropertyChanges', 
+        responseTime 
+      }, 'Failed to fetch property changes');
+      throw error;
+    }
+  }
+
   async deleteProperty(request: FastifyRequest, reply: FastifyReply) {
     const startTime = Date.now();
     
@@ -242,6 +358,7 @@ export class PropertyController {
       httpLogger.info({ operation: 'deleteProperty', id }, 'Deleting property');
       
       const propertyService = this.serviceFactory.createCompletePropertyService();
+      await this.authorizeChange(getRequestUser(request), id);
       await propertyService.deleteProperty(id);
       
       const responseTime = Date.now() - startTime;
@@ -306,7 +423,7 @@ export class PropertyController {
       httpLogger.info({ operation: 'searchProperties', query: q, limit }, 'Searching properties');
       
       const propertyService = this.serviceFactory.createCompletePropertyService();
-      const result = await propertyService.searchProperties(q, limit);
+      const result = await propertyService.searchProperties(q, limit, getPropertyVisibility(getRequestUser(request)));
       
       const responseTime = Date.now() - startTime;
       httpLogger.info({ 
@@ -332,11 +449,12 @@ export class PropertyController {
     const startTime = Date.now();
     
     try {
-      const { lat, lng, radius = '5', limit = '20' } = request.query as { 
+      const { lat, lng, radius = String(getModuleSettings().defaultSearchRadius), limit = '20', cursor } = request.query as { 
         lat: string; 
         lng: string; 
         radius?: string; 
         limit?: string; 
+        cursor?: string;
       };
       
       const latitude = parseFloat(lat);
@@ -356,7 +474,14 @@ export class PropertyController {
       }, 'Finding nearby properties');
       
       const propertyService = this.serviceFactory.createCompletePropertyService();
-      const result = await propertyService.getNearbyProperties(latitude, longitude, radiusKm, limitNum);
+      const result = await propertyService.getNearbyProperties(
+        latitude,
+        longitude,
+        radiusKm,
+        limitNum,
+        cursor,
+        getPropertyVisibility(getRequestUser(request))
+      );
       
       const responseTime = Date.now() - startTime;
       httpLogger.info({ 
@@ -378,6 +503,59 @@ export class PropertyController {
     }
   }
 
+  async getPropertiesInArea(request: FastifyRequest, reply: FastifyReply) {
+    const startTime = Date.now();
+    
+    try {
+      const { north, south, east, west, polygon, lat, lng, ...filters } = request.query as Record<string, any>;
+
+      const query: Record<string, any> = { ...filters };
+      if (north !== undefined || south !== undefined || east !== undefined || west !== undefined) {
+        query.boundingBox = { north, south, east, west };
+      }
+      if (polygon !== undefined) {
+        query.polygon = parsePolygon(String(polygon));
+      }
+      if (lat !== undefined && lng !== undefined) {
+        query.origin = { latitude: lat, longitude: lng };
+      }
+
+      // Radius searches go through /nearby
+      const { nearbySearch, ...validatedFilters } = validateInput(propertySpatialFiltersSchema, query);
+      
+      httpLogger.info({ 
+        operation: 'getPropertiesInArea', 
+        boundingBox: validatedFilters.boundingBox,
+        polygonVertices: validatedFilters.polygon?.length,
+        limit: validatedFilters.limit 
+      }, 'Finding properties in area');
+      
+      const propertyService = this.serviceFactory.createCompletePropertyService();
+      const result = await propertyService.getPropertiesInArea({
+        ...validatedFilters,
+        limit: validatedFilters.limit || 20,
+        visibility: getPropertyVisibility(getRequestUser(request)),
+      });
+      
+      const responseTime = Date.now() - startTime;
+      httpLogger.info({ 
+        operation: 'getPropertiesInArea', 
+        count: result.count,
+        responseTime 
+      }, 'Area search completed successfully');
+      
+      return reply.send(result);
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      httpLogger.error({ 
+        error, 
+        operation: 'getPropertiesInArea', 
+        responseTime 
+      }, 'Failed to find properties in area');
+      throw error;
+    }
+  }
+
   async updateAdminStatus(request: FastifyRequest, reply: FastifyReply) {
     const startTime = Date.now();
     
@@ -422,7 +600,105 @@ export class PropertyController {
       throw error;
     }
   }
+
+  async updateAssignment(request: FastifyRequest, reply: FastifyReply) {
+    const startTime = Date.now();
+    
+    try {
+      const { id } = request.params as { id: string };
+      validateUUID(id);
+      
+      const assignment = validateInput(propertyAssignmentSchema, request.body);
+
+      httpLogger.info({ operation: 'updateAssignment', id, assignment }, 'Updating property assignment');
+      
+      const propertyService = this.serviceFactory.createCompletePropertyService();
+      const updated = await propertyService.assignProperty(id, assignment);
+      
+      const responseTime = Date.now() - startTime;
+      httpLogger.info({ 
+        operation: 'updateAssignment', 
+        propertyId: id,
+        responseTime 
+      }, 'Property assignment updated successfully');
+
+      return reply.send({
+        success: true,
+        data: { id, ...updated },
+        message: 'Property assignment updated successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      httpLogger.error({ 
+        error, 
+        operation: 'updateAssignment', 
+        responseTime 
+      }, 'Failed to update property assignment');
+      throw error;
+    }
+  }
+
+  async reassignAgentProperties(request: FastifyRequest, reply: FastifyReply) {
+    const startTime = Date.now();
+    
+    try {
+      const { fromAgentId, toAgentId } = validateInput(agentReassignmentSchema, request.body);
+
+      httpLogger.info({ operation: 'reassignAgentProperties', fromAgentId, toAgentId }, 'Reassigning agent properties');
+      
+      const propertyService = this.serviceFactory.createCompletePropertyService();
+      const count = await propertyService.reassignAgentProperties(fromAgentId, toAgentId);
+      
+      const responseTime = Date.now() - startTime;
+      httpLogger.info({ 
+        operation: 'reassignAgentProperties', 
+        count,
+        responseTime 
+      }, 'Agent properties reassigned successfully');
+
+      return reply.send({
+        success: true,
+        data: { fromAgentId, toAgentId, count },
+        message: `${count} properties reassigned`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      httpLogger.error({ 
+        error, 
+        operation: 'reassignAgentProperties', 
+        responseTime 
+      }, 'Failed to reassign agent properties');
+      throw error;
+    }
+  }
+
+  // 404 for unknown properties, 403 when the caller may not change this one
+  private async authorizeChange(user: RequestUser | null, id: string): Promise<void> {
+    const propertyService = this.serviceFactory.createCompletePropertyService();
+    const assignment = await propertyService.getPropertyAssignment(id);
+    assertCanManageProperty(user, assignment, id);
+  }
 }
 
 // Export singleton instance
 export const propertyController = new PropertyController();
+
+// Publishing and moderation stay with administrators
+function assertCanSetAdminStatus(user: RequestUser | null, adminStatus?: string): void {
+  if (adminStatus !== undefined && !isAdminRole(user?.role)) {
+    throw new ForbiddenError('Only administrators can change the admin status', { field: 'adminStatus' });
+  }
+}
+
+// Parses "lat,lng;lat,lng;..." into polygon vertices
+function parsePolygon(raw: string): Array<{ latitude: number; longitude: number }> {
+  return raw.split(';').filter(Boolean).map((pair) => {
+    const [latitude, longitude] = pair.split(',').map((value) => parseFloat(value));
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      throw new ValidationError('Polygon must be a list of "lat,lng" pairs separated by ";"', { field: 'polygon' });
+    }
+    return { latitude, longitude };
+  });
+}
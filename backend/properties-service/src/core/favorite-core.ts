@@ -0,0 +1,135 @@
+/**
+ * Favorite Core - Business Logic Layer
+ *
+ * Contains the business rules for users saving properties as favorites
+ * Zero dependencies on external frameworks, databases, or HTTP
+ */
+
+import {
+    FavoriteListFilterData,
+    FavoriteStatus,
+    FavoriteUserId,
+    PaginatedFavoriteData
+} from '../domain/favorite-types';
+import { PropertyId } from '../domain/property-types';
+import { FavoriteDataGateway } from '../gateways/favorite-data-gateway';
+import { PropertyNotFoundError } from './property-core';
+
+/**
+ * Business rule validation errors
+ */
+export class FavoriteValidationError extends Error {
+  constructor(message: string, public readonly field?: string) {
+    super(message);
+    this.name = 'FavoriteValidationError';
+  }
+}
+
+/**
+ * Business configuration
+ */
+export interface FavoriteBusinessConfig {
+  defaultListLimit: number;
+  maxListLimit: number;
+}
+
+/**
+ * Default business configuration
+ */
+export const DEFAULT_FAVORITE_CONFIG: FavoriteBusinessConfig = {
+  defaultListLimit: 20,
+  maxListLimit: 100,
+};
+
+/**
+ * Favorite Core - Pure Business Logic
+ */
+export class FavoriteCore {
+  constructor(
+    private readonly gateway: FavoriteDataGateway,
+    private readonly config: FavoriteBusinessConfig = DEFAULT_FAVORITE_CONFIG
+  ) {}
+
+  /**
+   * Save a property as favorite (idempotent)
+   */
+  async addFavorite(propertyId: PropertyId, userId: FavoriteUserId): Promise<FavoriteStatus> {
+    await this.ensurePropertyExists(propertyId, userId);
+
+    await this.gateway.add(propertyId, userId);
+    return this.getFavoriteStatus(propertyId, userId);
+  }
+
+  /**
+   * Remove a property from the user's favorites (idempotent)
+   */
+  async removeFavorite(propertyId: PropertyId, userId: FavoriteUserId): Promise<FavoriteStatus> {
+    await this.ensurePropertyExists(propertyId, userId);
+
+    await this.gateway.remove(propertyId, userId);
+    return this.getFavoriteStatus(propertyId, userId);
+  }
+
+  /**
+   * List the user's favorites, most recently saved first
+   */
+  async listFavorites(
+    userId: FavoriteUserId,
+    filters: Partial<FavoriteListFilterData> = {}
+  ): Promise<PaginatedFavoriteData> {
+    this.validateUserId(userId);
+
+    const limit = filters.limit ?? this.config.defaultListLimit;
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.config.maxListLimit) {
+      throw new FavoriteValidationError(`Limit must be between 1 and ${this.config.maxListLimit}`, 'limit');
+    }
+    if (filters.cursor !== undefined) {
+      this.validateUuid(filters.cursor, 'cursor', 'Cursor');
+    }
+
+    return await this.gateway.findByUser(userId, { limit, cursor: filters.cursor });
+  }
+
+  private async getFavoriteStatus(propertyId: PropertyId, userId: FavoriteUserId): Promise<FavoriteStatus> {
+    const stats = await this.gateway.getStats([propertyId], userId);
+
+    return {
+      propertyId,
+      isFavorite: stats.favoritedIds.has(propertyId),
+      favoriteCount: stats.counts.get(propertyId) ?? 0,
+    };
+  }
+
+  private async ensurePropertyExists(propertyId: PropertyId, userId: FavoriteUserId): Promise<void> {
+    this.validateUuid(propertyId, 'propertyId', 'Property ID');
+    this.validateUserId(userId);
+
+    if (!(await this.gateway.propertyExists(propertyId))) {
+      throw new PropertyNotFoundError(propertyId);
+    }
+  }
+
+  private validateUserId(userId: FavoriteUserId): void {
+    if (!userId || !userId.trim()) {
+      throw new FavoriteValidationError('User ID is required', 'userId');
+    }
+  }
+
+  private validateUuid(id: string, field: string, label: string): void {
+    // UUID validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!id || !uuidRegex.test(id)) {
+      throw new FavoriteValidationError(`${label} must be a valid UUID`, field);
+    }
+  }
+}
+
+/**
+ * Factory function for FavoriteCore
+ */
+export function createFavoriteCore(
+  gateway: FavoriteDataGateway,
+  config?: FavoriteBusinessConfig
+): FavoriteCore {
+  return new FavoriteCore(gateway, config);
+}
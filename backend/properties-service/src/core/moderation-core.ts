@@ -0,0 +1,398 @@
+/**
+ * Moderation Core - Business Logic Layer
+ *
+ * State machine for the listing review workflow: who may move a listing
+ * between statuses, what a listing needs before it can be submitted, and
+ * which review outcomes are reported back to the submitting agent
+ * Zero dependencies on external frameworks, databases, or HTTP
+ */
+
+import {
+    ChecklistItem,
+    MODERATION_ACTIONS,
+    MODERATION_STATUSES,
+    ModerationAction,
+    ModerationActor,
+    ModerationChecklist,
+    ModerationDetails,
+    ModerationListingData,
+    ModerationQueueFilterData,
+    ModerationQueueResult,
+    ModerationRecord,
+    ModerationStatus,
+    ModerationTransitionData
+} from '../domain/moderation-types';
+import { AdminStatus, PropertyId } from '../domain/property-types';
+import { ModerationDataGateway, ModerationNotifier } from '../gateways/moderation-data-gateway';
+import { PropertyNotFoundError } from './property-core';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Business rule validation errors
+ */
+export class ModerationValidationError extends Error {
+  constructor(message: string, public readonly field?: string, public readonly details?: unknown) {
+    super(message);
+    this.name = 'ModerationValidationError';
+  }
+}
+
+/**
+ * The actor may not perform this action on this listing
+ */
+export class ModerationForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModerationForbiddenError';
+  }
+}
+
+/**
+ * The action is not allowed from the listing's current status
+ */
+export class ModerationTransitionError extends Error {
+  constructor(message: string, public readonly status: ModerationStatus) {
+    super(message);
+    this.name = 'ModerationTransitionError';
+  }
+}
+
+/**
+ * Business configuration
+ */
+export interface ModerationBusinessConfig {
+  minDescriptionLength: number;
+  minImages: number;
+  maxReasonLength: number;
+  defaultQueueLimit: number;
+  maxQueueLimit: number;
+}
+
+/**
+ * Default business configuration
+ */
+export const DEFAULT_MODERATION_CONFIG: ModerationBusinessConfig = {
+  minDescriptionLength: 50,
+  minImages: 1,
+  maxReasonLength: 2000,
+  defaultQueueLimit: 20,
+  maxQueueLimit: 100,
+};
+
+interface TransitionRule {
+  from: ModerationStatus[];
+  to: ModerationStatus;
+  reviewerOnly: boolean;
+}
+
+/**
+ * Allowed transitions. Agents move their own listings in and out of review;
+ * approving, rejecting and publishing are for reviewers
+ */
+export const MODERATION_TRANSITIONS: Record<ModerationAction, TransitionRule> = {
+  submit: { from: ['DRAFT', 'REJECTED'], to: 'SUBMITTED', reviewerOnly: false },
+  withdraw: { from: ['SUBMITTED'], to: 'DRAFT', reviewerOnly: false },
+  approve: { from: ['SUBMITTED'], to: 'APPROVED', reviewerOnly: true },
+  reject: { from: ['SUBMITTED', 'APPROVED'], to: 'REJECTED', reviewerOnly: true },
+  publish: { from: ['APPROVED'], to: 'PUBLISHED', reviewerOnly: true },
+  archive: { from: ['APPROVED', 'PUBLISHED'], to: 'ARCHIVED', reviewerOnly: false },
+  reopen: { from: ['REJECTED', 'ARCHIVED'], to: 'DRAFT', reviewerOnly: false },
+};
+
+// Outcomes the submitting agent is told about
+const NOTIFIED_ACTIONS: ModerationAction[] = ['approve', 'reject', 'publish'];
+
+/**
+ * Public visibility that goes with each moderation status
+ */
+export function adminStatusFor(status: ModerationStatus): AdminStatus {
+  if (status === 'PUBLISHED') return 'ACTIVE';
+  if (status === 'ARCHIVED') return 'INACTIVE';
+  return 'PENDING';
+}
+
+/**
+ * Moderation status that goes with an admin status set directly (legacy admin-status endpoint, create)
+ */
+export function moderationStatusFor(adminStatus: AdminStatus, initial: ModerationStatus = 'DRAFT'): ModerationStatus {
+  if (adminStatus === 'ACTIVE') return 'PUBLISHED';
+  if (adminStatus === 'INACTIVE') return 'ARCHIVED';
+  return initial;
+}
+
+/**
+ * Moderation Core - Pure Business Logic
+ */
+export class ModerationCore {
+  constructor(
+    private readonly gateway: ModerationDataGateway,
+    private readonly notifier: ModerationNotifier | null = null,
+    private readonly config: ModerationBusinessConfig = DEFAULT_MODERATION_CONFIG
+  ) {}
+
+  /**
+   * Required-field checklist a listing must pass before it can be submitted
+   */
+  getChecklist(listing: ModerationListingData): ModerationChecklist {
+    const description = listing.description?.trim() ?? '';
+    const imageCount = Math.max(listing.imageCount, listing.imageUrl ? 1 : 0);
+
+    const items: ChecklistItem[] = [
+      { field: 'title', label: 'Title', passed: listing.title.trim().length > 0 },
+      { field: 'location', label: 'Location', passed: listing.location.trim().length > 0 },
+      { field: 'price', label: 'Price', passed: listing.price > 0 },
+      { field: 'type', label: 'Property type', passed: listing.type !== null },
+      {
+        field: 'description',
+        label: `Description with at least ${this.config.minDescriptionLength} characters`,
+        passed: description.length >= this.config.minDescriptionLength,
+      },
+      { field: 'area', label: 'Area', passed: listing.area !== null && listing.area > 0 },
+      { field: 'coordinates', label: 'Map location', passed: listing.coordinates !== null },
+      {
+        field: 'images',
+        label: this.config.minImages === 1 ? 'At least one photo' : `At least ${this.config.minImages} photos`,
+        passed: imageCount >= this.config.minImages,
+      },
+    ];
+
+    return { complete: items.every((item) => item.passed), items };
+  }
+
+  /**
+   * Moderation state, checklist and history of a listing (reviewers, its owner and its agent)
+   */
+  async getDetails(propertyId: PropertyId, actor: ModerationActor): Promise<ModerationDetails> {
+    const record = await this.loadRecord(propertyId);
+    if (!actor.isReviewer && actor.userId !== record.ownerId && actor.userId !== record.agentId) {
+      throw new ModerationForbiddenError('You are not allowed to see the review of this listing');
+    }
+
+    const [listing, history] = await Promise.all([
+      this.gateway.findListing(propertyId),
+      this.gateway.getHistory(propertyId),
+    ]);
+    if (!listing) {
+      throw new PropertyNotFoundError(propertyId);
+    }
+
+    return { ...record, checklist: this.getChecklist(listing), history };
+  }
+
+  /**
+   * Apply a workflow action to a listing and notify the submitting agent of review outcomes
+   */
+  async transition(
+    propertyId: PropertyId,
+    action: ModerationAction,
+    actor: ModerationActor,
+    reason?: string | null,
+    now: Date = new Date()
+  ): Promise<ModerationRecord> {
+    if (!MODERATION_ACTIONS.includes(action)) {
+      throw new ModerationValidationError(`Unknown moderation action: ${action}`, 'action');
+    }
+
+    const record = await this.loadRecord(propertyId);
+    const rule = MODERATION_TRANSITIONS[action];
+
+    if (rule.reviewerOnly && !actor.isReviewer) {
+      throw new ModerationForbiddenError(`Only reviewers can ${action} listings`);
+    }
+    // Same rule as for editing: agents only work on the listings assigned to them
+    if (!actor.isReviewer && record.agentId !== actor.userId) {
+      throw new ModerationForbiddenError('You are not allowed to change the review of this listing');
+    }
+    if (!rule.from.includes(record.status)) {
+      throw new ModerationTransitionError(`Cannot ${action} a listing that is ${record.status}`, record.status);
+    }
+
+    const normalizedReason = this.validateReason(action, reason);
+    const listing = await this.gateway.findListing(propertyId);
+    if (!listing) {
+      throw new PropertyNotFoundError(propertyId);
+    }
+
+    if (action === 'submit') {
+      const checklist = this.getChecklist(listing);
+      if (!checklist.complete) {
+        throw new ModerationValidationError(
+          'The listing is missing required information',
+          'checklist',
+          checklist.items.filter((item) => !item.passed)
+        );
+      }
+    }
+
+    const updated = await this.gateway.applyTransition(
+      propertyId,
+      this.buildTransition(action, record.status, rule.to, actor, normalizedReason, now)
+    );
+    if (!updated) {
+      throw new ModerationTransitionError('The listing was changed by someone else, reload and try again', record.status);
+    }
+
+    await this.notifySubmitter(record, updated, action, listing.title, normalizedReason, actor);
+    return updated;
+  }
+
+  /**
+   * Review queue, oldest submission first by default. Agents only see their own listings
+   */
+  async getQueue(
+    filters: Partial<ModerationQueueFilterData> & { minWaitingHours?: number },
+    actor: ModerationActor,
+    now: Date = new Date()
+  ): Promise<ModerationQueueResult> {
+    const limit = filters.limit ?? this.config.defaultQueueLimit;
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.config.maxQueueLimit) {
+      throw new ModerationValidationError(`Limit must be between 1 and ${this.config.maxQueueLimit}`, 'limit');
+    }
+
+    const status = filters.status && filters.status.length > 0 ? filters.status : ['SUBMITTED' as const];
+    const unknown = status.filter((value) => !MODERATION_STATUSES.includes(value));
+    if (unknown.length > 0) {
+      throw new ModerationValidationError(`Unknown moderation status: ${unknown.join(', ')}`, 'status');
+    }
+
+    if (filters.minWaitingHours !== undefined && (!Number.isFinite(filters.minWaitingHours) || filters.minWaitingHours < 0)) {
+      throw new ModerationValidationError('Minimum waiting time must be a positive number of hours', 'minWaitingHours');
+    }
+
+    const agentId = actor.isReviewer ? filters.agentId : actor.userId;
+    const queueFilters: ModerationQueueFilterData = {
+      status,
+      agentId,
+      submittedBefore: filters.minWaitingHours !== undefined
+        ? new Date(now.getTime() - filters.minWaitingHours * HOUR_MS)
+        : filters.submittedBefore,
+      sortOrder: filters.sortOrder ?? 'asc',
+      limit,
+      cursor: filters.cursor,
+    };
+
+    const [page, counts] = await Promise.all([
+      this.gateway.findQueue(queueFilters),
+      this.gateway.countByStatus(agentId),
+    ]);
+
+    return {
+      items: page.items.map((item) => ({
+        ...item,
+        waitingHours: item.submittedAt
+          ? Math.floor((now.getTime() - item.submittedAt.getTime()) / HOUR_MS)
+          : null,
+        checklist: this.getChecklist(item.listing),
+      })),
+      pagination: page.pagination,
+      counts: Object.fromEntries(
+        MODERATION_STATUSES.map((value) => [value, counts[value] ?? 0])
+      ) as Record<ModerationStatus, number>,
+    };
+  }
+
+  private async loadRecord(propertyId: PropertyId): Promise<ModerationRecord> {
+    this.validatePropertyId(propertyId);
+
+    const record = await this.gateway.findRecord(propertyId);
+    if (!record) {
+      throw new PropertyNotFoundError(propertyId);
+    }
+    return record;
+  }
+
+  private buildTransition(
+    action: ModerationAction,
+    fromStatus: ModerationStatus,
+    toStatus: ModerationStatus,
+    actor: ModerationActor,
+    reason: string | null,
+    now: Date
+  ): ModerationTransitionData {
+    const transition: ModerationTransitionData = {
+      action,
+      fromStatus,
+      toStatus,
+      adminStatus: adminStatusFor(toStatus),
+      actorId: actor.userId,
+      reason,
+    };
+
+    switch (action) {
+      case 'submit':
+        // A new submission starts a new review
+        return { ...transition, submittedAt: now, submittedBy: actor.userId, reviewedAt: null, reviewedBy: null, rejectionReason: null };
+      case 'approve':
+        return { ...transition, reviewedAt: now, reviewedBy: actor.userId, rejectionReason: null };
+      case 'reject':
+        return { ...transition, reviewedAt: now, reviewedBy: actor.userId, rejectionReason: reason };
+      case 'publish':
+        return { ...transition, publishedAt: now };
+      default:
+        return transition;
+    }
+  }
+
+  private validateReason(action: ModerationAction, reason?: string | null): string | null {
+    const trimmed = reason?.trim() || null;
+
+    if (action === 'reject' && !trimmed) {
+      throw new ModerationValidationError('A reason is required to reject a listing', 'reason');
+    }
+    if (trimmed && trimmed.length > this.config.maxReasonLength) {
+      throw new ModerationValidationError(`Reason must not exceed ${this.config.maxReasonLength} characters`, 'reason');
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * A failed notification does not undo the review; the outcome is still in the listing's history
+   */
+  private async notifySubmitter(
+    before: ModerationRecord,
+    after: ModerationRecord,
+    action: ModerationAction,
+    title: string,
+    reason: string | null,
+    actor: ModerationActor
+  ): Promise<void> {
+    const recipientId = before.submittedBy ?? before.agentId;
+    if (!this.notifier || !NOTIFIED_ACTIONS.includes(action) || !recipientId || recipientId === actor.userId) {
+      return;
+    }
+
+    try {
+      await this.notifier.notify({
+        recipientId,
+        propertyId: after.propertyId,
+        propertyTitle: title,
+        action,
+        status: after.status,
+        reason,
+      });
+    } catch {
+      return;
+    }
+  }
+
+  private validatePropertyId(id: string): void {
+    // UUID validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!id || !uuidRegex.test(id)) {
+      throw new ModerationValidationError('Property ID must be a valid UUID', 'propertyId');
+    }
+  }
+}
+
+/**
+ * Factory function for ModerationCore
+ */
+export function createModerationCore(
+  gateway: ModerationDataGateway,
+  notifier?: ModerationNotifier | null,
+  config?: ModerationBusinessConfig
+): ModerationCore {
+  return new ModerationCore(gateway, notifier ?? null, config);
+}
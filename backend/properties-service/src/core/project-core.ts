@@ -0,0 +1,287 @@
+/**
+ * Project Core - Business Logic Layer
+ *
+ * Contains all business rules and validations for portfolio projects
+ * Zero dependencies on external frameworks, databases, or HTTP
+ */
+
+import {
+    PaginatedProjectData,
+    ProjectCreateData,
+    ProjectData,
+    ProjectFilterData,
+    ProjectId,
+    ProjectStatus,
+    ProjectType,
+    ProjectUpdateData
+} from '../domain/project-types';
+import { ProjectDataGateway } from '../gateways/project-data-gateway';
+
+/**
+ * Business rule validation errors
+ */
+export class ProjectValidationError extends Error {
+  constructor(message: string, public readonly field?: string, public readonly code?: string) {
+    super(message);
+    this.name = 'ProjectValidationError';
+  }
+}
+
+export class ProjectNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Project with ID ${id} not found`);
+    this.name = 'ProjectNotFoundError';
+  }
+}
+
+/**
+ * Business configuration
+ */
+export interface ProjectBusinessConfig {
+  maxNameLength: number;
+  maxDescriptionLength: number;
+  maxGalleryImages: number;
+  maxLinkedProperties: number;
+}
+
+/**
+ * Default business configuration
+ */
+export const DEFAULT_PROJECT_CONFIG: ProjectBusinessConfig = {
+  maxNameLength: 200,
+  maxDescriptionLength: 5000,
+  maxGalleryImages: 30,
+  maxLinkedProperties: 50,
+};
+
+const PROJECT_TYPES: ProjectType[] = ['renovation', 'construction', 'design'];
+const PROJECT_STATUSES: ProjectStatus[] = ['planned', 'in_progress', 'completed', 'on_hold'];
+
+/**
+ * Project Core - Pure Business Logic
+ */
+export class ProjectCore {
+  constructor(
+    private readonly gateway: ProjectDataGateway,
+    private readonly config: ProjectBusinessConfig = DEFAULT_PROJECT_CONFIG
+  ) {}
+
+  /**
+   * Create a new project with full business validation
+   */
+  async createProject(data: ProjectCreateData): Promise<ProjectData> {
+    this.validateProjectData(data);
+
+    if (data.propertyIds) {
+      await this.ensurePropertiesExist(data.propertyIds);
+    }
+
+    return await this.gateway.create({
+      ...data,
+      name: data.name.trim(),
+      propertyIds: data.propertyIds ? Array.from(new Set(data.propertyIds)) : undefined,
+    });
+  }
+
+  /**
+   * Get project by ID
+   */
+  async getProject(id: ProjectId): Promise<ProjectData> {
+    this.validateProjectId(id);
+
+    const project = await this.gateway.findById(id);
+    if (!project) {
+      throw new ProjectNotFoundError(id);
+    }
+
+    return project;
+  }
+
+  /**
+   * List projects with filters and pagination
+   */
+  async listProjects(filters: ProjectFilterData): Promise<PaginatedProjectData> {
+    const validatedFilters = this.validateAndNormalizeFilters(filters);
+    return await this.gateway.findMany(validatedFilters);
+  }
+
+  /**
+   * Update existing project
+   */
+  async updateProject(id: ProjectId, data: ProjectUpdateData): Promise<ProjectData> {
+    this.validateProjectId(id);
+
+    const existing = await this.gateway.findById(id);
+    if (!existing) {
+      throw new ProjectNotFoundError(id);
+    }
+
+    this.validateProjectUpdateData(data, existing);
+
+    if (data.propertyIds) {
+      await this.ensurePropertiesExist(data.propertyIds);
+    }
+
+    try {
+      return await this.gateway.update(id, {
+        ...data,
+        name: data.name !== undefined ? data.name.trim() : undefined,
+        propertyIds: data.propertyIds ? Array.from(new Set(data.propertyIds)) : undefined,
+      });
+    } catch (error: any) {
+      if (error.message?.includes('not found') || error.code === 'P2025') {
+        throw new ProjectNotFoundError(id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete project
+   */
+  async deleteProject(id: ProjectId): Promise<ProjectData> {
+    const project = await this.getProject(id);
+
+    try {
+      await this.gateway.delete(id);
+    } catch (error: any) {
+      if (error.message?.includes('not found') || error.code === 'P2025') {
+        throw new ProjectNotFoundError(id);
+      }
+      throw error;
+    }
+
+    return project;
+  }
+
+  /**
+   * Health check
+   */
+  async isHealthy(): Promise<boolean> {
+    return await this.gateway.isHealthy();
+  }
+
+  // ==================== PRIVATE VALIDATION METHODS ====================
+
+  private validateProjectId(id: string): void {
+    if (!id || typeof id !== 'string') {
+      throw new ProjectValidationError('Project ID is required', 'id');
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      throw new ProjectValidationError('Project ID must be a valid UUID', 'id');
+    }
+  }
+
+  private validateProjectData(data: ProjectCreateData): void {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new ProjectValidationError('Name is required', 'name');
+    }
+
+    this.validateCommonFields(data);
+    this.validateDateRange(data.startDate ?? null, data.endDate ?? null);
+  }
+
+  private validateProjectUpdateData(data: ProjectUpdateData, existing: ProjectData): void {
+    if (data.name !== undefined && data.name.trim().length === 0) {
+      throw new ProjectValidationError('Name cannot be empty', 'name');
+    }
+
+    this.validateCommonFields(data);
+
+    // Validate the resulting range, so moving only one end is still checked
+    const startDate = data.startDate !== undefined ? data.startDate : existing.startDate;
+    const endDate = data.endDate !== undefined ? data.endDate : existing.endDate;
+    this.validateDateRange(startDate, endDate);
+  }
+
+  private validateCommonFields(data: ProjectUpdateData): void {
+    if (data.name !== undefined && data.name.length > this.config.maxNameLength) {
+      throw new ProjectValidationError(
+        `Name must not exceed ${this.config.maxNameLength} characters`,
+        'name'
+      );
+    }
+
+    if (data.type !== undefined && !PROJECT_TYPES.includes(data.type)) {
+      throw new ProjectValidationError(
+        `Type must be one of: ${PROJECT_TYPES.join(', ')}`,
+        'type'
+      );
+    }
+
+    if (data.status !== undefined && !PROJECT_STATUSES.includes(data.status)) {
+      throw new ProjectValidationError(
+        `Status must be one of: ${PROJECT_STATUSES.join(', ')}`,
+        'status'
+      );
+    }
+
+    if (data.description && data.description.length > this.config.maxDescriptionLength) {
+      throw new ProjectValidationError(
+        `Description must not exceed ${this.config.maxDescriptionLength} characters`,
+        'description'
+      );
+    }
+
+    if (data.gallery && data.gallery.length > this.config.maxGalleryImages) {
+      throw new ProjectValidationError(
+        `Cannot have more than ${this.config.maxGalleryImages} gallery images`,
+        'gallery'
+      );
+    }
+
+    if (data.propertyIds && data.propertyIds.length > this.config.maxLinkedProperties) {
+      throw new ProjectValidationError(
+        `Cannot link more than ${this.config.maxLinkedProperties} properties`,
+        'propertyIds'
+      );
+    }
+  }
+
+  private validateDateRange(startDate: Date | null, endDate: Date | null): void {
+    if (startDate && endDate && endDate.getTime() < startDate.getTime()) {
+      throw new ProjectValidationError('End date cannot be before start date', 'endDate');
+    }
+  }
+
+  private async ensurePropertiesExist(propertyIds: string[]): Promise<void> {
+    const missing = await this.gateway.findMissingPropertyIds(Array.from(new Set(propertyIds)));
+    if (missing.length > 0) {
+      throw new ProjectValidationError(
+        `Linked properties not found: ${missing.join(', ')}`,
+        'propertyIds',
+        'PROPERTY_NOT_FOUND'
+      );
+    }
+  }
+
+  private validateAndNormalizeFilters(filters: ProjectFilterData): ProjectFilterData {
+    const normalized: ProjectFilterData = { ...filters };
+
+    if (normalized.limit === undefined) {
+      normalized.limit = 20;
+    }
+    normalized.limit = Math.max(1, Math.min(normalized.limit, 100)); // Between 1 and 100
+
+    if (normalized.textQuery !== undefined) {
+      normalized.textQuery = normalized.textQuery.trim() || undefined;
+    }
+
+    if (!normalized.sortBy) normalized.sortBy = 'createdAt';
+    if (!normalized.sortOrder) normalized.sortOrder = 'desc';
+
+    return normalized;
+  }
+}
+
+/**
+ * Factory function for ProjectCore
+ */
+export function createProjectCore(
+  gateway: ProjectDataGateway,
+  config?: ProjectBusinessConfig
+): ProjectCore {
+  return new ProjectCore(gateway, config);
+}
@@ -9,6 +9,8 @@
 
 import {
     PaginatedPropertyData,
+    PriceHistoryEntry,
+    PropertyChangeContext,
     PropertyCreateData,
     PropertyData,
     PropertyFilterData,
@@ -48,6 +50,8 @@ export interface PropertyBusinessConfig {
   maxFeatures: number;
   minSearchQueryLength: number;
   maxSearchRadius: number;
+  maxPolygonVertices: number;
+  maxReducedWithinDays: number;
 }
 
 /**
@@ -61,6 +65,8 @@ export const DEFAULT_BUSINESS_CONFIG: PropertyBusinessConfig = {
   maxFeatures: 20,
   minSearchQueryLength: 3,
   maxSearchRadius: 100, // 100km
+  maxPolygonVertices: 500,
+  maxReducedWithinDays: 365,
 };
 
 /**
@@ -116,12 +122,16 @@ export class PropertyCore {
   /**
    * Update existing property
    */
-  async updateProperty(id: PropertyId, data: PropertyUpdateData): Promise<PropertyWithComputedFields> {
+  async updateProperty(
+    id: PropertyId,
+    data: PropertyUpdateData,
+    context?: PropertyChangeContext
+  ): Promise<PropertyWithComputedFields> {
     this.validatePropertyId(id);
     this.validatePropertyUpdateData(data);
     
     try {
-      const property = await this.gateway.update(id, data);
+      const property = await this.gateway.update(id, data, context);
       return this.addComputedFields(property);
     } catch (error: any) {
       if (error.message?.includes('not found') || error.code === 'P2025') {
@@ -131,6 +141,20 @@ export class PropertyCore {
     }
   }
 
+  /**
+   * Get the price changes of a property, oldest first
+   */
+  async getPriceHistory(id: PropertyId): Promise<PriceHistoryEntry[]> {
+    this.validatePropertyId(id);
+
+    const property = await this.gateway.findById(id);
+    if (!property) {
+      throw new PropertyNotFoundError(id);
+    }
+
+    return this.gateway.getPriceHistory(id);
+  }
+
   /**
    * Delete property
    */
@@ -168,7 +192,7 @@ export class PropertyCore {
     const filters: PropertyFilterData = {
       textQuery: query.trim(),
       limit: Math.min(limit, 100), // Cap at 100
-      sortBy: 'createdAt',
+      sortBy: 'relevance',
       sortOrder: 'desc',
     };
 
@@ -396,8 +420,52 @@ export class PropertyCore {
       }
     }
 
-    // Normalize sorting
-    if (!normalized.sortBy) normalized.sortBy = 'createdAt';
+    // Validate map viewport
+    if (normalized.boundingBox) {
+      const { north, south, east, west } = normalized.boundingBox;
+      this.validateCoordinates(north, east);
+      this.validateCoordinates(south, west);
+
+      if (south >= north || west >= east) {
+        throw new PropertyValidationError(
+          'Bounding box must have south < north and west < east',
+          'boundingBox'
+        );
+      }
+    }
+
+    // Validate polygon search
+    if (normalized.polygon) {
+      const distinctVertices = new Set(normalized.polygon.map(point => `${point.latitude},${point.longitude}`));
+      if (distinctVertices.size < 3) {
+        throw new PropertyValidationError('Polygon must have at least 3 distinct vertices', 'polygon');
+      }
+      if (normalized.polygon.length > this.config.maxPolygonVertices) {
+        throw new PropertyValidationError(
+          `Polygon cannot have more than ${this.config.maxPolygonVertices} vertices`,
+          'polygon'
+        );
+      }
+      normalized.polygon.forEach(point => this.validateCoordinates(point.latitude, point.longitude));
+    }
+
+    if (normalized.origin) {
+      this.validateCoordinates(normalized.origin.latitude, normalized.origin.longitude);
+    }
+
+    if (normalized.reducedWithinDays !== undefined) {
+      if (normalized.reducedWithinDays < 1 || normalized.reducedWithinDays > this.config.maxReducedWithinDays) {
+        throw new PropertyValidationError(
+          `Reduced within days must be between 1 and ${this.config.maxReducedWithinDays}`,
+          'reducedWithinDays'
+        );
+      }
+    }
+
+    // Normalize sorting (relevance only makes sense for text searches)
+    if (!normalized.sortBy || (normalized.sortBy === 'relevance' && !normalized.textQuery)) {
+      normalized.sortBy = 'createdAt';
+    }
     if (!normalized.sortOrder) normalized.sortOrder = 'desc';
 
     return normalized;
@@ -0,0 +1,293 @@
+/**
+ * Report Core - Business Logic Layer
+ *
+ * Builds the management report: listing distribution, most searched regions,
+ * new listings/users/views/leads per period, days on market and price per m².
+ * Figures owned by other services are optional so the report still renders
+ * when one of them is down.
+ * Zero dependencies on external frameworks, databases, or HTTP
+ */
+
+import { PropertyType } from '../domain/property-types';
+import {
+    DistributionEntry,
+    MarketMetrics,
+    MarketReport,
+    PeriodCount,
+    PropertyDistribution,
+    REPORT_GRANULARITIES,
+    RegionSearchCount,
+    ReportGranularity,
+    ReportQueryData,
+    ReportTrends,
+    TrendPoint
+} from '../domain/report-types';
+import { AnalyticsDateRange } from '../domain/visit-types';
+import { LeadStatsGateway, ReportDataGateway, UserStatsGateway } from '../gateways/report-data-gateway';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Business rule validation errors
+ */
+export class ReportValidationError extends Error {
+  constructor(message: string, public readonly field?: string) {
+    super(message);
+    this.name = 'ReportValidationError';
+  }
+}
+
+/**
+ * Business configuration
+ */
+export interface ReportBusinessConfig {
+  defaultRangeDays: number;
+  maxRangeDays: number;
+  maxPeriods: number;
+  defaultLimit: number;
+  maxLimit: number;
+}
+
+/**
+ * Default business configuration
+ */
+export const DEFAULT_REPORT_CONFIG: ReportBusinessConfig = {
+  defaultRangeDays: 365,
+  maxRangeDays: 5 * 366,
+  maxPeriods: 400,
+  defaultLimit: 10,
+  maxLimit: 50,
+};
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Start of the period containing `date` (UTC; weeks start on Monday, as in Postgres date_trunc)
+ */
+export function periodStart(date: Date, granularity: ReportGranularity): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (granularity === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (granularity === 'month') {
+    start.setUTCDate(1);
+  }
+
+  return start;
+}
+
+function nextPeriod(start: Date, granularity: ReportGranularity): Date {
+  const next = new Date(start);
+
+  if (granularity === 'day') {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (granularity === 'week') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+
+  return next;
+}
+
+function toPercentage(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Report Core - Pure Business Logic
+ */
+export class ReportCore {
+  constructor(
+    private readonly gateway: ReportDataGateway,
+    private readonly userStats: UserStatsGateway | null = null,
+    private readonly leadStats: LeadStatsGateway | null = null,
+    private readonly config: ReportBusinessConfig = DEFAULT_REPORT_CONFIG
+  ) {}
+
+  /**
+   * Everything management asks for, in one response
+   */
+  async getReport(query: Partial<ReportQueryData> = {}): Promise<MarketReport> {
+    const resolved = this.resolveQuery(query);
+
+    const [distribution, topRegions, trends, market] = await Promise.all([
+      this.getDistribution(),
+      this.getTopRegions(resolved),
+      this.getTrends(resolved),
+      this.getMarketMetrics(resolved),
+    ]);
+
+    return {
+      range: { from: resolved.from, to: resolved.to },
+      distribution,
+      topRegions,
+      trends,
+      ...market,
+    };
+  }
+
+  /**
+   * Current listings by type and status
+   */
+  async getDistribution(): Promise<PropertyDistribution> {
+    const [byType, byStatus] = await Promise.all([
+      this.gateway.countByType(),
+      this.gateway.countByStatus(),
+    ]);
+
+    const total = byStatus.reduce((sum, entry) => sum + entry.count, 0);
+    const toEntries = <K>(entries: Array<{ key: K; count: number }>): DistributionEntry<K>[] =>
+      entries
+        .filter((entry) => entry.count > 0)
+        .sort((a, b) => b.count - a.count)
+        .map((entry) => ({ ...entry, percentage: toPercentage(entry.count, total) }));
+
+    return {
+      total,
+      byType: toEntries<PropertyType | null>(byType.map(({ type, count }) => ({ key: type, count }))),
+      byStatus: toEntries<string>(byStatus.map(({ status, count }) => ({ key: status, count }))),
+    };
+  }
+
+  /**
+   * Most searched regions; null when users-service is unavailable
+   */
+  async getTopRegions(query: Partial<ReportQueryData> = {}): Promise<RegionSearchCount[] | null> {
+    const resolved = this.resolveQuery(query);
+    if (!this.userStats) return null;
+
+    try {
+      return await this.userStats.getTopSearchedRegions(resolved, resolved.limit);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * New listings, users, views and leads per period
+   */
+  async getTrends(query: Partial<ReportQueryData> = {}): Promise<ReportTrends> {
+    const resolved = this.resolveQuery(query);
+    const { granularity } = resolved;
+
+    const [properties, views, users, leads] = await Promise.all([
+      this.gateway.countNewPropertiesPerPeriod(resolved, granularity),
+      this.gateway.countViewsPerPeriod(resolved, granularity),
+      this.loadOptional(this.userStats && (() => this.userStats!.countNewUsersPerPeriod(resolved, granularity))),
+      this.loadOptional(this.leadStats && (() => this.leadStats!.countLeadsPerPeriod(resolved, granularity))),
+    ]);
+
+    const propertiesByPeriod = this.byPeriod(properties);
+    const viewsByPeriod = this.byPeriod(views);
+    const usersByPeriod = users && this.byPeriod(users);
+    const leadsByPeriod = leads && this.byPeriod(leads);
+
+    const series: TrendPoint[] = this.listPeriods(resolved, granularity).map((period) => ({
+      period,
+      properties: propertiesByPeriod.get(period) ?? 0,
+      views: viewsByPeriod.get(period) ?? 0,
+      users: usersByPeriod ? usersByPeriod.get(period) ?? 0 : null,
+      leads: leadsByPeriod ? leadsByPeriod.get(period) ?? 0 : null,
+    }));
+
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    return {
+      granularity,
+      series,
+      totals: {
+        properties: sum(series.map((point) => point.properties)),
+        views: sum(series.map((point) => point.views)),
+        users: usersByPeriod ? sum(series.map((point) => point.users ?? 0)) : null,
+        leads: leadsByPeriod ? sum(series.map((point) => point.leads ?? 0)) : null,
+      },
+    };
+  }
+
+  /**
+   * Days on market and price per m² by location
+   */
+  async getMarketMetrics(query: Partial<ReportQueryData> = {}): Promise<MarketMetrics> {
+    const resolved = this.resolveQuery(query);
+
+    const [daysOnMarket, pricePerSqm] = await Promise.all([
+      this.gateway.getDaysOnMarket(resolved),
+      this.gateway.getPricePerSqmByLocation(resolved.limit),
+    ]);
+
+    return { daysOnMarket, pricePerSqm };
+  }
+
+  private resolveQuery(query: Partial<ReportQueryData>): ReportQueryData {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - this.config.defaultRangeDays * DAY_MS);
+    const granularity = query.granularity ?? 'month';
+    const limit = query.limit ?? this.config.defaultLimit;
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new ReportValidationError('Invalid date range', 'from');
+    }
+    if (from >= to) {
+      throw new ReportValidationError('Range start must be before its end', 'from');
+    }
+    if (to.getTime() - from.getTime() > this.config.maxRangeDays * DAY_MS) {
+      throw new ReportValidationError(`Range cannot exceed ${this.config.maxRangeDays} days`, 'from');
+    }
+    if (!REPORT_GRANULARITIES.includes(granularity)) {
+      throw new ReportValidationError(`Granularity must be one of: ${REPORT_GRANULARITIES.join(', ')}`, 'granularity');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.config.maxLimit) {
+      throw new ReportValidationError(`Limit must be between 1 and ${this.config.maxLimit}`, 'limit');
+    }
+
+    const range = { from, to };
+    if (this.listPeriods(range, granularity).length > this.config.maxPeriods) {
+      throw new ReportValidationError(
+        `Range is too long for ${granularity} granularity (max ${this.config.maxPeriods} periods)`,
+        'granularity'
+      );
+    }
+
+    return { ...range, granularity, limit };
+  }
+
+  // Charts need a continuous series, so every period in the range is listed
+  private listPeriods(range: AnalyticsDateRange, granularity: ReportGranularity): string[] {
+    const periods: string[] = [];
+
+    for (let cursor = periodStart(range.from, granularity); cursor < range.to; cursor = nextPeriod(cursor, granularity)) {
+      periods.push(toDay(cursor));
+      if (periods.length > this.config.maxPeriods) break;
+    }
+
+    return periods;
+  }
+
+  private byPeriod(counts: PeriodCount[]): Map<string, number> {
+    return new Map(counts.map((entry) => [entry.period, entry.count]));
+  }
+
+  private async loadOptional(load: (() => Promise<PeriodCount[]>) | null): Promise<PeriodCount[] | null> {
+    if (!load) return null;
+
+    try {
+      return await load();
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Factory function for ReportCore
+ */
+export function createReportCore(
+  gateway: ReportDataGateway,
+  userStats?: UserStatsGateway | null,
+  leadStats?: LeadStatsGateway | null,
+  config?: ReportBusinessConfig
+): ReportCore {
+  return new ReportCore(gateway, userStats ?? null, leadStats ?? null, config);
+}
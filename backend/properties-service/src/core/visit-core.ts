@@ -0,0 +1,251 @@
+/**
+ * Visit Core - Business Logic Layer
+ *
+ * Decides which listing views count as visits (no bots, one visit per
+ * visitor within the deduplication window) and builds the view analytics
+ * Zero dependencies on external frameworks, databases, or HTTP
+ */
+
+import { PropertyId } from '../domain/property-types';
+import {
+    AnalyticsDateRange,
+    ContactCounts,
+    ConversionData,
+    DailyViews,
+    PropertyAnalytics,
+    TopPropertyAnalytics,
+    VisitRecordData,
+    VisitRecordResult,
+    ViewsSummary
+} from '../domain/visit-types';
+import { ContactStatsGateway, VisitDataGateway } from '../gateways/visit-data-gateway';
+import { PropertyNotFoundError } from './property-core';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Crawlers, link previews and scripted clients
+const BOT_USER_AGENT_REGEX =
+  /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|headless|lighthouse|curl|wget|python-requests|axios|node-fetch|go-http-client|java\/|okhttp|postman/i;
+
+/**
+ * Business rule validation errors
+ */
+export class VisitValidationError extends Error {
+  constructor(message: string, public readonly field?: string) {
+    super(message);
+    this.name = 'VisitValidationError';
+  }
+}
+
+/**
+ * Business configuration
+ */
+export interface VisitBusinessConfig {
+  dedupeWindowMinutes: number;
+  defaultRangeDays: number;
+  maxRangeDays: number;
+  maxTopProperties: number;
+}
+
+/**
+ * Default business configuration
+ */
+export const DEFAULT_VISIT_CONFIG: VisitBusinessConfig = {
+  dedupeWindowMinutes: 30,
+  defaultRangeDays: 30,
+  maxRangeDays: 366,
+  maxTopProperties: 50,
+};
+
+/**
+ * Requests without a user agent are treated as bots as well
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT_REGEX.test(userAgent);
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Visit Core - Pure Business Logic
+ */
+export class VisitCore {
+  constructor(
+    private readonly gateway: VisitDataGateway,
+    private readonly contactStats: ContactStatsGateway | null = null,
+    private readonly config: VisitBusinessConfig = DEFAULT_VISIT_CONFIG
+  ) {}
+
+  /**
+   * Record a listing view, skipping bots and repeated views
+   */
+  async recordVisit(data: VisitRecordData, now: Date = new Date()): Promise<VisitRecordResult> {
+    this.validatePropertyId(data.propertyId);
+
+    if (!(await this.gateway.propertyExists(data.propertyId))) {
+      throw new PropertyNotFoundError(data.propertyId);
+    }
+
+    if (isBotUserAgent(data.userAgent)) {
+      return { recorded: false, reason: 'bot' };
+    }
+
+    const windowStart = new Date(now.getTime() - this.config.dedupeWindowMinutes * 60 * 1000);
+    if (await this.gateway.hasVisitSince(data, windowStart)) {
+      return { recorded: false, reason: 'duplicate' };
+    }
+
+    await this.gateway.create(data);
+    return { recorded: true };
+  }
+
+  /**
+   * Views across all properties
+   */
+  async getViewsSummary(range: Partial<AnalyticsDateRange> = {}): Promise<ViewsSummary> {
+    const resolved = this.resolveRange(range);
+
+    const [totals, viewsPerDay, contacts] = await Promise.all([
+      this.gateway.countViews(resolved),
+      this.gateway.getViewsPerDay(resolved),
+      this.loadContactCounts(resolved),
+    ]);
+
+    const totalContacts = contacts
+      ? Array.from(contacts.values()).reduce((sum, count) => sum + count, 0)
+      : null;
+
+    return {
+      range: resolved,
+      ...totals,
+      viewsPerDay: this.fillMissingDays(resolved, viewsPerDay),
+      ...this.buildConversion(totals.views, totalContacts),
+    };
+  }
+
+  /**
+   * Views of a single property
+   */
+  async getPropertyAnalytics(
+    propertyId: PropertyId,
+    range: Partial<AnalyticsDateRange> = {}
+  ): Promise<PropertyAnalytics> {
+    this.validatePropertyId(propertyId);
+    const resolved = this.resolveRange(range);
+
+    if (!(await this.gateway.propertyExists(propertyId))) {
+      throw new PropertyNotFoundError(propertyId);
+    }
+
+    const [totals, viewsPerDay, contacts] = await Promise.all([
+      this.gateway.countViews(resolved, propertyId),
+      this.gateway.getViewsPerDay(resolved, propertyId),
+      this.loadContactCounts(resolved),
+    ]);
+
+    return {
+      propertyId,
+      range: resolved,
+      ...totals,
+      viewsPerDay: this.fillMissingDays(resolved, viewsPerDay),
+      ...this.buildConversion(totals.views, contacts ? contacts.get(propertyId) ?? 0 : null),
+    };
+  }
+
+  /**
+   * Most viewed properties with their conversion to contacts
+   */
+  async getTopProperties(range: Partial<AnalyticsDateRange> = {}, limit: number = 10): Promise<TopPropertyAnalytics[]> {
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.config.maxTopProperties) {
+      throw new VisitValidationError(`Limit must be between 1 and ${this.config.maxTopProperties}`, 'limit');
+    }
+    const resolved = this.resolveRange(range);
+
+    const [properties, contacts] = await Promise.all([
+      this.gateway.getTopProperties(resolved, limit),
+      this.loadContactCounts(resolved),
+    ]);
+
+    return properties.map((property) => ({
+      ...property,
+      ...this.buildConversion(property.views, contacts ? contacts.get(property.propertyId) ?? 0 : null),
+    }));
+  }
+
+  private resolveRange(range: Partial<AnalyticsDateRange>): AnalyticsDateRange {
+    const to = range.to ?? new Date();
+    const from = range.from ?? new Date(to.getTime() - this.config.defaultRangeDays * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new VisitValidationError('Invalid date range', 'from');
+    }
+    if (from >= to) {
+      throw new VisitValidationError('Range start must be before its end', 'from');
+    }
+    if (to.getTime() - from.getTime() > this.config.maxRangeDays * DAY_MS) {
+      throw new VisitValidationError(`Range cannot exceed ${this.config.maxRangeDays} days`, 'from');
+    }
+
+    return { from, to };
+  }
+
+  /**
+   * Contacts are optional: analytics still work when messages-service is down
+   */
+  private async loadContactCounts(range: AnalyticsDateRange): Promise<ContactCounts | null> {
+    if (!this.contactStats) return null;
+
+    try {
+      return await this.contactStats.countContactsByProperty(range);
+    } catch {
+      return null;
+    }
+  }
+
+  private buildConversion(views: number, contacts: number | null): ConversionData {
+    if (contacts === null) {
+      return { contacts: null, conversionRate: null };
+    }
+
+    return {
+      contacts,
+      conversionRate: views > 0 ? Math.round((contacts / views) * 10000) / 100 : 0,
+    };
+  }
+
+  // Charts need a continuous series, so days without views are added as zeros
+  private fillMissingDays(range: AnalyticsDateRange, days: DailyViews[]): DailyViews[] {
+    const byDate = new Map(days.map((day) => [day.date, day]));
+    const series: DailyViews[] = [];
+
+    const cursor = new Date(`${toDay(range.from)}T00:00:00.000Z`);
+    while (cursor < range.to) {
+      const date = toDay(cursor);
+      series.push(byDate.get(date) ?? { date, views: 0, uniqueVisitors: 0 });
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    return series;
+  }
+
+  private validatePropertyId(id: string): void {
+    // UUID validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!id || !uuidRegex.test(id)) {
+      throw new VisitValidationError('Property ID must be a valid UUID', 'propertyId');
+    }
+  }
+}
+
+/**
+ * Factory function for VisitCore
+ */
+export function createVisitCore(
+  gateway: VisitDataGateway,
+  contactStats?: ContactStatsGateway | null,
+  config?: VisitBusinessConfig
+): VisitCore {
+  return new VisitCore(gateway, contactStats ?? null, config);
+}
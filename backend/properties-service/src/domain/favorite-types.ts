@@ -0,0 +1,63 @@
+/**
+ * Favorite Domain Types - Pure business logic types
+ * Independent of any external dependencies (Prisma, database, etc.)
+ *
+ * A favorite is a property saved by a logged-in user. User IDs are the ones
+ * issued by auth-service and forwarded by the API Gateway.
+ */
+
+import { PropertyId, PropertyStatus } from './property-types';
+
+export type FavoriteId = string;
+export type FavoriteUserId = string;
+
+// Minimal view of a favorited property for the user's list
+export interface FavoritePropertySummary {
+  id: PropertyId;
+  title: string;
+  location: string;
+  price: number;
+  status: PropertyStatus;
+  imageUrl: string | null;
+}
+
+export interface FavoriteData {
+  id: FavoriteId;
+  propertyId: PropertyId;
+  userId: FavoriteUserId;
+  createdAt: Date;
+}
+
+export interface FavoriteWithProperty extends FavoriteData {
+  property: FavoritePropertySummary;
+}
+
+// Favorite state of one property as seen by one user
+export interface FavoriteStatus {
+  propertyId: PropertyId;
+  isFavorite: boolean;
+  favoriteCount: number;
+}
+
+// Favorite counts (and the viewer's own favorites) for a page of properties
+export interface FavoriteStats {
+  counts: Map<PropertyId, number>; // Properties without favorites are omitted
+  favoritedIds: Set<PropertyId>; // Empty when there is no viewer
+}
+
+export interface FavoriteListFilterData {
+  limit: number;
+  cursor?: FavoriteId;
+}
+
+export interface FavoritePaginationData {
+  nextCursor: FavoriteId | null;
+  hasMore: boolean;
+  limit: number;
+  totalEstimate?: number;
+}
+
+export interface PaginatedFavoriteData {
+  favorites: FavoriteWithProperty[];
+  pagination: FavoritePaginationData;
+}
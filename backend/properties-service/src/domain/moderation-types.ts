@@ -0,0 +1,146 @@
+/**
+ * Moderation Domain Types - Pure business logic types
+ * Independent of any external dependencies (Prisma, database, etc.)
+ *
+ * Listings created by agents go through review before they are published:
+ * DRAFT → SUBMITTED → APPROVED / REJECTED → PUBLISHED → ARCHIVED.
+ * User IDs are the ones issued by auth-service and forwarded by the API Gateway.
+ */
+
+import { AdminStatus, PropertyCoordinates, PropertyId, PropertyType } from './property-types';
+
+export type ModerationStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'PUBLISHED' | 'ARCHIVED';
+
+export type ModerationAction = 'submit' | 'withdraw' | 'approve' | 'reject' | 'publish' | 'archive' | 'reopen';
+
+export const MODERATION_STATUSES: readonly ModerationStatus[] = [
+  'DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'PUBLISHED', 'ARCHIVED',
+];
+
+export const MODERATION_ACTIONS: readonly ModerationAction[] = [
+  'submit', 'withdraw', 'approve', 'reject', 'publish', 'archive', 'reopen',
+];
+
+// Who is acting on a listing; reviewers are administrators
+export interface ModerationActor {
+  userId: string;
+  isReviewer: boolean;
+}
+
+// The listing fields the submission checklist looks at
+export interface ModerationListingData {
+  id: PropertyId;
+  title: string;
+  location: string;
+  price: number;
+  type: PropertyType | null;
+  description: string | null;
+  area: number | null;
+  coordinates: PropertyCoordinates | null;
+  imageUrl: string | null;
+  imageCount: number;
+}
+
+export interface ModerationRecord {
+  propertyId: PropertyId;
+  status: ModerationStatus;
+  adminStatus: AdminStatus;
+  ownerId: string | null;
+  agentId: string | null;
+  submittedAt: Date | null;
+  submittedBy: string | null;
+  reviewedAt: Date | null;
+  reviewedBy: string | null;
+  rejectionReason: string | null;
+}
+
+export interface ModerationEventData {
+  id: string;
+  propertyId: PropertyId;
+  action: ModerationAction;
+  fromStatus: ModerationStatus;
+  toStatus: ModerationStatus;
+  actorId: string | null;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export interface ChecklistItem {
+  field: string;
+  label: string;
+  passed: boolean;
+}
+
+export interface ModerationChecklist {
+  complete: boolean;
+  items: ChecklistItem[];
+}
+
+// Moderation state of one listing with its history, as shown to agents and reviewers
+export interface ModerationDetails extends ModerationRecord {
+  checklist: ModerationChecklist;
+  history: ModerationEventData[];
+}
+
+// What a transition writes, together with the event that records it
+export interface ModerationTransitionData {
+  action: ModerationAction;
+  fromStatus: ModerationStatus;
+  toStatus: ModerationStatus;
+  adminStatus: AdminStatus;
+  actorId: string;
+  reason: string | null;
+  submittedAt?: Date;
+  submittedBy?: string;
+  reviewedAt?: Date | null;
+  reviewedBy?: string | null;
+  rejectionReason?: string | null;
+  publishedAt?: Date; // Going public starts the listing's "new" window in the change feed
+}
+
+export interface ModerationQueueFilterData {
+  status: ModerationStatus[];
+  agentId?: string;
+  submittedBefore?: Date; // Only listings waiting since before this date
+  sortOrder: 'asc' | 'desc'; // By submission date; asc = oldest first
+  limit: number;
+  cursor?: PropertyId;
+}
+
+export interface ModerationQueueItem extends ModerationRecord {
+  listing: ModerationListingData;
+}
+
+export interface ModerationQueuePaginationData {
+  nextCursor: PropertyId | null;
+  hasMore: boolean;
+  limit: number;
+  totalEstimate?: number;
+}
+
+export interface PaginatedModerationQueue {
+  items: ModerationQueueItem[];
+  pagination: ModerationQueuePaginationData;
+}
+
+// Queue entry as returned by the core, with its age and checklist
+export interface ModerationQueueEntry extends ModerationQueueItem {
+  waitingHours: number | null;
+  checklist: ModerationChecklist;
+}
+
+export interface ModerationQueueResult {
+  items: ModerationQueueEntry[];
+  pagination: ModerationQueuePaginationData;
+  counts: Record<ModerationStatus, number>;
+}
+
+// Message sent to the agent who submitted a listing
+export interface ModerationNotification {
+  recipientId: string;
+  propertyId: PropertyId;
+  propertyTitle: string;
+  action: ModerationAction;
+  status: ModerationStatus;
+  reason: string | null;
+}
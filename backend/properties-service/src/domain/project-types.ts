@@ -0,0 +1,94 @@
+/**
+ * Project Domain Types - Pure business logic types
+ * Independent of any external dependencies (Prisma, database, etc.)
+ *
+ * Projects are the portfolio entries (renovations, constructions, interior
+ * design jobs) shown on the public site and curated by staff.
+ */
+
+import { PropertyId } from './property-types';
+
+export type ProjectId = string;
+
+// Kind of work the project represents
+export type ProjectType = 'renovation' | 'construction' | 'design';
+
+// Project lifecycle
+export type ProjectStatus = 'planned' | 'in_progress' | 'completed' | 'on_hold';
+
+// Minimal view of a property linked to a project
+export interface ProjectPropertySummary {
+  id: PropertyId;
+  title: string;
+  location: string;
+  imageUrl: string | null;
+}
+
+// Core project data - what defines a project in our domain
+export interface ProjectData {
+  id: ProjectId;
+  name: string;
+  type: ProjectType;
+  status: ProjectStatus;
+  description: string | null;
+  imageUrl: string | null;
+  gallery: string[];
+  startDate: Date | null;
+  endDate: Date | null;
+  properties: ProjectPropertySummary[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Project creation data
+export interface ProjectCreateData {
+  name: string;
+  type: ProjectType;
+  status?: ProjectStatus;
+  description?: string;
+  imageUrl?: string;
+  gallery?: string[];
+  startDate?: Date;
+  endDate?: Date;
+  propertyIds?: PropertyId[];
+}
+
+// Project update data - partial updates, null clears optional fields
+export interface ProjectUpdateData {
+  name?: string;
+  type?: ProjectType;
+  status?: ProjectStatus;
+  description?: string | null;
+  imageUrl?: string | null;
+  gallery?: string[];
+  startDate?: Date | null;
+  endDate?: Date | null;
+  propertyIds?: PropertyId[];
+}
+
+// Search and filter criteria
+export interface ProjectFilterData {
+  type?: ProjectType;
+  status?: ProjectStatus;
+  textQuery?: string;
+
+  // Pagination and sorting
+  limit?: number;
+  cursor?: string;
+  sortBy?: 'createdAt' | 'name' | 'startDate' | 'endDate';
+  sortOrder?: 'asc' | 'desc';
+}
+
+// Pagination metadata
+export interface ProjectPaginationData {
+  nextCursor: string | null;
+  hasMore: boolean;
+  limit: number;
+  totalEstimate?: number;
+}
+
+// Paginated result
+export interface PaginatedProjectData {
+  projects: ProjectData[];
+  pagination: ProjectPaginationData;
+}
@@ -12,6 +12,9 @@ export type PropertyArea = number;
 // Core property status - business domain
 export type PropertyStatus = 'for_sale' | 'for_rent' | 'sold';
 
+// Public visibility of a listing (only ACTIVE listings are shown to everyone)
+export type AdminStatus = 'ACTIVE' | 'PENDING' | 'INACTIVE';
+
 // Core property types - real estate domain 
 export type PropertyType = 
   | 'apartamento' 
@@ -28,12 +31,22 @@ export interface PropertyCoordinates {
   longitude: number;
 }
 
+// Map viewport in decimal degrees (west < east, south < north)
+export interface PropertyBoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
 // Core property data - what defines a property in our domain
 export interface PropertyData {
   id: PropertyId;
   title: string;
   location: string;
   price: PropertyPrice;
+  previousPrice: PropertyPrice | null; // Price before the last reduction
+  priceReducedAt: Date | null;
   status: PropertyStatus;
   type: PropertyType | null;
   imageUrl: string | null;
@@ -88,6 +101,35 @@ export interface PropertyUpdateData {
   contactEmail?: string;
 }
 
+// Who changed a property and why (recorded in the price history)
+export interface PropertyChangeContext {
+  changedBy?: string;
+  reason?: string;
+}
+
+// Who a property belongs to (auth-service user IDs)
+export interface PropertyAssignment {
+  ownerId: string | null;
+  agentId: string | null;
+}
+
+// Drafts (adminStatus other than ACTIVE) are only listed for administrators and for their owner or agent
+export interface PropertyVisibility {
+  allDrafts: boolean;
+  userId?: string;
+}
+
+// One price change of a property
+export interface PriceHistoryEntry {
+  id: string;
+  propertyId: PropertyId;
+  oldPrice: PropertyPrice | null;
+  newPrice: PropertyPrice;
+  reason: string | null;
+  changedBy: string | null;
+  changedAt: Date;
+}
+
 // Search and filter criteria
 export interface PropertyFilterData {
   // Status and type
@@ -118,6 +160,10 @@ export interface PropertyFilterData {
   
   // Features
   features?: string[];
+
+  // Price reductions
+  recentlyReduced?: boolean;
+  reducedWithinDays?: number; // Window for recentlyReduced, defaults to 30
   
   // Geospatial search
   nearbySearch?: {
@@ -125,11 +171,17 @@ export interface PropertyFilterData {
     longitude: number;
     radiusKm: number;
   };
+  boundingBox?: PropertyBoundingBox;
+  polygon?: PropertyCoordinates[]; // Outer ring, e.g. a freguesia boundary
+  origin?: PropertyCoordinates; // Reference point for distances in area searches
+  
+  // Draft visibility of the caller (no restriction when omitted)
+  visibility?: PropertyVisibility;
   
   // Pagination and sorting
   limit?: number;
   cursor?: string;
-  sortBy?: 'createdAt' | 'price' | 'area' | 'title';
+  sortBy?: 'createdAt' | 'price' | 'area' | 'title' | 'relevance'; // relevance requires textQuery
   sortOrder?: 'asc' | 'desc';
 }
 
@@ -137,6 +189,15 @@ export interface PropertyFilterData {
 export interface PropertyWithComputedFields extends PropertyData {
   pricePerSqm: number | null;
   propertyAge: number | null;
+  distanceKm?: number; // Only present on geospatial search results
+  relevance?: number; // Only present on text search results
+  highlight?: PropertySearchHighlight;
+}
+
+// Matched terms wrapped in <mark>...</mark>; the rest of the text is HTML-escaped
+export interface PropertySearchHighlight {
+  title: string;
+  description: string | null;
 }
 
 // Statistics
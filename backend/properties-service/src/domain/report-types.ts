@@ -0,0 +1,100 @@
+/**
+ * Report Domain Types - Pure business logic types
+ * Independent of any external dependencies (Prisma, database, etc.)
+ *
+ * The management report combines the listing stock (this service) with
+ * searches and sign-ups from users-service and leads from messages-service.
+ */
+
+import { PropertyType } from './property-types';
+import { AnalyticsDateRange } from './visit-types';
+
+export type ReportGranularity = 'day' | 'week' | 'month';
+
+export const REPORT_GRANULARITIES: ReportGranularity[] = ['day', 'week', 'month'];
+
+export interface ReportQueryData extends AnalyticsDateRange {
+  granularity: ReportGranularity;
+  limit: number; // Maximum regions / locations
+}
+
+// Count for the period starting on `period` (YYYY-MM-DD, UTC; weeks start on Monday)
+export interface PeriodCount {
+  period: string;
+  count: number;
+}
+
+export interface TypeCount {
+  type: PropertyType | null;
+  count: number;
+}
+
+// Database status values, which include rented/under_contract/withdrawn
+export interface StatusCount {
+  status: string;
+  count: number;
+}
+
+export interface DistributionEntry<K> {
+  key: K;
+  count: number;
+  percentage: number;
+}
+
+// Current listing stock (all listings, whatever their moderation state)
+export interface PropertyDistribution {
+  total: number;
+  byType: DistributionEntry<PropertyType | null>[];
+  byStatus: DistributionEntry<string>[];
+}
+
+export interface RegionSearchCount {
+  region: string;
+  searches: number;
+}
+
+// Users and leads come from other services and are null when those are unavailable
+export interface TrendPoint {
+  period: string;
+  properties: number;
+  views: number;
+  users: number | null;
+  leads: number | null;
+}
+
+export interface TrendTotals {
+  properties: number;
+  views: number;
+  users: number | null;
+  leads: number | null;
+}
+
+export interface ReportTrends {
+  granularity: ReportGranularity;
+  series: TrendPoint[];
+  totals: TrendTotals;
+}
+
+// Listings sold or rented within the range, from creation to closing
+export interface DaysOnMarket {
+  closedListings: number;
+  averageDays: number | null;
+}
+
+export interface LocationPricePerSqm {
+  location: string;
+  listings: number;
+  averagePricePerSqm: number;
+}
+
+export interface MarketMetrics {
+  daysOnMarket: DaysOnMarket;
+  pricePerSqm: LocationPricePerSqm[];
+}
+
+export interface MarketReport extends MarketMetrics {
+  range: AnalyticsDateRange;
+  distribution: PropertyDistribution;
+  topRegions: RegionSearchCount[] | null;
+  trends: ReportTrends;
+}
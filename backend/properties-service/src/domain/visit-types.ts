@@ -0,0 +1,72 @@
+/**
+ * Visit Domain Types - Pure business logic types
+ * Independent of any external dependencies (Prisma, database, etc.)
+ *
+ * A visit is one view of a listing page. Visits feed the per-listing
+ * analytics (views per day, unique visitors, conversion to contacts).
+ */
+
+import { PropertyId } from './property-types';
+
+export type VisitId = string;
+
+// What the HTTP layer knows about a visitor
+export interface VisitRecordData {
+  propertyId: PropertyId;
+  visitorId: string | null; // User ID if logged in
+  ipAddress: string;
+  userAgent: string | null;
+}
+
+export interface VisitData extends VisitRecordData {
+  id: VisitId;
+  visitedAt: Date;
+}
+
+// Outcome of a tracking request; bots and repeated views are not stored
+export interface VisitRecordResult {
+  recorded: boolean;
+  reason?: 'bot' | 'duplicate';
+}
+
+// Half-open interval [from, to)
+export interface AnalyticsDateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface DailyViews {
+  date: string; // YYYY-MM-DD (UTC)
+  views: number;
+  uniqueVisitors: number;
+}
+
+export interface ViewTotals {
+  views: number;
+  uniqueVisitors: number;
+}
+
+export interface PropertyViewCount extends ViewTotals {
+  propertyId: PropertyId;
+  title: string;
+}
+
+// Contact messages received per property (from messages-service)
+export type ContactCounts = Map<PropertyId, number>;
+
+// Conversion figures are null when the messages service is unavailable
+export interface ConversionData {
+  contacts: number | null;
+  conversionRate: number | null; // Percentage of views that led to a contact
+}
+
+export interface ViewsSummary extends ViewTotals, ConversionData {
+  range: AnalyticsDateRange;
+  viewsPerDay: DailyViews[];
+}
+
+export interface PropertyAnalytics extends ViewsSummary {
+  propertyId: PropertyId;
+}
+
+export type TopPropertyAnalytics = PropertyViewCount & ConversionData;
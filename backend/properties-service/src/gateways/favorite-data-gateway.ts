@@ -0,0 +1,57 @@
+/**
+ * Favorite Data Gateway - Platform Abstraction Layer
+ *
+ * Isolates the favorites business logic from persistence details,
+ * the same way PropertyDataGateway does for properties.
+ */
+
+import {
+    FavoriteData,
+    FavoriteListFilterData,
+    FavoriteStats,
+    FavoriteUserId,
+    PaginatedFavoriteData
+} from '../domain/favorite-types';
+import { PropertyId } from '../domain/property-types';
+
+/**
+ * Core data access interface for property favorites
+ * Zero dependencies on external libraries or frameworks
+ */
+export interface FavoriteDataGateway {
+  /**
+   * Save a property as favorite; saving it twice keeps the first favorite
+   * @param propertyId Property identifier
+   * @param userId Favoriting user
+   * @returns The (new or existing) favorite
+   */
+  add(propertyId: PropertyId, userId: FavoriteUserId): Promise<FavoriteData>;
+
+  /**
+   * Remove a favorite
+   * @param propertyId Property identifier
+   * @param userId Favoriting user
+   * @returns True if a favorite was removed
+   */
+  remove(propertyId: PropertyId, userId: FavoriteUserId): Promise<boolean>;
+
+  /**
+   * List a user's favorites, most recent first
+   * @param userId Favoriting user
+   * @param filters Pagination criteria
+   */
+  findByUser(userId: FavoriteUserId, filters: FavoriteListFilterData): Promise<PaginatedFavoriteData>;
+
+  /**
+   * Favorite counts for a set of properties
+   * @param propertyIds Property identifiers
+   * @param userId Viewer whose own favorites should be reported (optional)
+   */
+  getStats(propertyIds: PropertyId[], userId?: FavoriteUserId): Promise<FavoriteStats>;
+
+  /**
+   * Check whether a property exists
+   * @param propertyId Property identifier
+   */
+  propertyExists(propertyId: PropertyId): Promise<boolean>;
+}
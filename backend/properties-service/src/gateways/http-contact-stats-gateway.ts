@@ -0,0 +1,54 @@
+/**
+ * HTTP Contact Stats Gateway Implementation
+ *
+ * Reads contact message counts per property from messages-service, which
+ * stores the listing a contact form was sent from in the message context.
+ */
+
+import { AnalyticsDateRange, ContactCounts } from '../domain/visit-types';
+import { ContactStatsGateway } from './visit-data-gateway';
+
+const REQUEST_TIMEOUT_MS = 3000;
+
+interface PropertyContactsResponse {
+  success: boolean;
+  data?: Array<{ propertyId: string; contacts: number }>;
+}
+
+/**
+ * HTTP implementation of ContactStatsGateway
+ */
+export class HttpContactStatsGateway implements ContactStatsGateway {
+  constructor(
+    private readonly messagesServiceUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async countContactsByProperty(range: AnalyticsDateRange): Promise<ContactCounts> {
+    const params = new URLSearchParams({
+      dateFrom: range.from.toISOString(),
+      dateTo: range.to.toISOString(),
+    });
+
+    const response = await fetch(`${this.messagesServiceUrl}/api/v1/messages/stats/properties?${params}`, {
+      headers: { 'X-API-Key': this.apiKey },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Messages service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as PropertyContactsResponse;
+    return new Map((body.data ?? []).map((entry) => [entry.propertyId, entry.contacts]));
+  }
+}
+
+/**
+ * Factory function for HttpContactStatsGateway; the stats endpoints need the shared key
+ */
+export function createHttpContactStatsGateway(messagesServiceUrl: string, apiKey?: string): ContactStatsGateway | null {
+  if (!apiKey) {
+    return null;
+  }
+  return new HttpContactStatsGateway(messagesServiceUrl.replace(/\/+$/, ''), apiKey);
+}
@@ -0,0 +1,56 @@
+/**
+ * HTTP Lead Stats Gateway Implementation
+ *
+ * Reads contact message counts per period from messages-service; every
+ * contact form message is a lead.
+ */
+
+import { PeriodCount, ReportGranularity } from '../domain/report-types';
+import { AnalyticsDateRange } from '../domain/visit-types';
+import { LeadStatsGateway } from './report-data-gateway';
+
+const REQUEST_TIMEOUT_MS = 3000;
+
+interface LeadsResponse {
+  success: boolean;
+  data?: Array<{ period: string; leads: number }>;
+}
+
+/**
+ * HTTP implementation of LeadStatsGateway
+ */
+export class HttpLeadStatsGateway implements LeadStatsGateway {
+  constructor(
+    private readonly messagesServiceUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async countLeadsPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]> {
+    const params = new URLSearchParams({
+      dateFrom: range.from.toISOString(),
+      dateTo: range.to.toISOString(),
+      granularity,
+    });
+
+    const response = await fetch(`${this.messagesServiceUrl}/api/v1/messages/stats/leads?${params}`, {
+      headers: { 'X-API-Key': this.apiKey },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Messages service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as LeadsResponse;
+    return (body.data ?? []).map((entry) => ({ period: entry.period, count: entry.leads }));
+  }
+}
+
+/**
+ * Factory function for HttpLeadStatsGateway; the stats endpoints need the shared key
+ */
+export function createHttpLeadStatsGateway(messagesServiceUrl: string, apiKey?: string): LeadStatsGateway | null {
+  if (!apiKey) {
+    return null;
+  }
+  return new HttpLeadStatsGateway(messagesServiceUrl.replace(/\/+$/, ''), apiKey);
+}
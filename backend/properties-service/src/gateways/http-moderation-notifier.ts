@@ -0,0 +1,76 @@
+/**
+ * HTTP Moderation Notifier Implementation
+ *
+ * Tells agents about review outcomes through the internal notifications
+ * endpoint of users-service (shown in the notification centre).
+ */
+
+import { ModerationAction, ModerationNotification } from '../domain/moderation-types';
+import { ModerationNotifier } from './moderation-data-gateway';
+
+const REQUEST_TIMEOUT_MS = 3000;
+
+const TITLES: Partial<Record<ModerationAction, string>> = {
+  approve: 'Imóvel aprovado',
+  reject: 'Imóvel rejeitado',
+  publish: 'Imóvel publicado',
+};
+
+function buildMessage({ action, propertyTitle, reason }: ModerationNotification): string {
+  switch (action) {
+    case 'approve':
+      return `O imóvel "${propertyTitle}" foi aprovado e aguarda publicação.`;
+    case 'reject':
+      return `O imóvel "${propertyTitle}" foi rejeitado. Motivo: ${reason ?? 'não indicado'}`;
+    case 'publish':
+      return `O imóvel "${propertyTitle}" está publicado.`;
+    default:
+      return `O estado de revisão do imóvel "${propertyTitle}" foi atualizado.`;
+  }
+}
+
+/**
+ * HTTP implementation of ModerationNotifier
+ */
+export class HttpModerationNotifier implements ModerationNotifier {
+  constructor(
+    private readonly usersServiceUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async notify(notification: ModerationNotification): Promise<void> {
+    const response = await fetch(`${this.usersServiceUrl}/internal/v1/notifications`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Internal-API-Key': this.apiKey,
+      },
+      body: JSON.stringify({
+        type: 'LISTING_REVIEW',
+        title: TITLES[notification.action] ?? 'Revisão de imóvel',
+        data: {
+          propertyId: notification.propertyId,
+          action: notification.action,
+          status: notification.status,
+          reason: notification.reason,
+        },
+        recipients: [{ userId: notification.recipientId, message: buildMessage(notification) }],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Users service responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Factory function for HttpModerationNotifier; without a users-service URL and key nothing is sent
+ */
+export function createHttpModerationNotifier(usersServiceUrl?: string, apiKey?: string): ModerationNotifier | null {
+  if (!usersServiceUrl || !apiKey) {
+    return null;
+  }
+  return new HttpModerationNotifier(usersServiceUrl.replace(/\/+$/, ''), apiKey);
+}
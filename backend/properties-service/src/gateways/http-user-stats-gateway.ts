@@ -0,0 +1,66 @@
+/**
+ * HTTP User Stats Gateway Implementation
+ *
+ * Reads search and sign-up aggregates from the internal analytics endpoints
+ * of users-service, which owns the search history and user profiles.
+ */
+
+import { PeriodCount, RegionSearchCount, ReportGranularity } from '../domain/report-types';
+import { AnalyticsDateRange } from '../domain/visit-types';
+import { UserStatsGateway } from './report-data-gateway';
+
+const REQUEST_TIMEOUT_MS = 3000;
+
+interface UsersServiceResponse<T> {
+  success: boolean;
+  data?: T[];
+}
+
+/**
+ * HTTP implementation of UserStatsGateway
+ */
+export class HttpUserStatsGateway implements UserStatsGateway {
+  constructor(
+    private readonly usersServiceUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async getTopSearchedRegions(range: AnalyticsDateRange, limit: number): Promise<RegionSearchCount[]> {
+    return this.get<RegionSearchCount>('/internal/v1/analytics/search-regions', {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      limit: String(limit),
+    });
+  }
+
+  async countNewUsersPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]> {
+    return this.get<PeriodCount>('/internal/v1/analytics/new-users', {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      granularity,
+    });
+  }
+
+  private async get<T>(path: string, query: Record<string, string>): Promise<T[]> {
+    const response = await fetch(`${this.usersServiceUrl}${path}?${new URLSearchParams(query)}`, {
+      headers: { 'X-Internal-API-Key': this.apiKey },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Users service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as UsersServiceResponse<T>;
+    return body.data ?? [];
+  }
+}
+
+/**
+ * Factory function for HttpUserStatsGateway; the internal endpoints need the shared key
+ */
+export function createHttpUserStatsGateway(usersServiceUrl?: string, apiKey?: string): UserStatsGateway | null {
+  if (!usersServiceUrl || !apiKey) {
+    return null;
+  }
+  return new HttpUserStatsGateway(usersServiceUrl.replace(/\/+$/, ''), apiKey);
+}
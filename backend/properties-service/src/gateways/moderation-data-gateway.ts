@@ -0,0 +1,76 @@
+/**
+ * Moderation Data Gateway - Platform Abstraction Layer
+ *
+ * Isolates the listing review workflow from persistence and delivery details,
+ * the same way PropertyDataGateway does for properties.
+ */
+
+import {
+    ModerationEventData,
+    ModerationListingData,
+    ModerationNotification,
+    ModerationQueueFilterData,
+    ModerationRecord,
+    ModerationStatus,
+    ModerationTransitionData,
+    PaginatedModerationQueue
+} from '../domain/moderation-types';
+import { PropertyId } from '../domain/property-types';
+
+/**
+ * Core data access interface for listing moderation
+ * Zero dependencies on external libraries or frameworks
+ */
+export interface ModerationDataGateway {
+  /**
+   * Moderation state of a property
+   * @param propertyId Property identifier
+   * @returns The state, or null if the property does not exist
+   */
+  findRecord(propertyId: PropertyId): Promise<ModerationRecord | null>;
+
+  /**
+   * Listing fields checked before submission
+   * @param propertyId Property identifier
+   * @returns The listing, or null if the property does not exist
+   */
+  findListing(propertyId: PropertyId): Promise<ModerationListingData | null>;
+
+  /**
+   * Moderation events of a property, oldest first
+   * @param propertyId Property identifier
+   */
+  getHistory(propertyId: PropertyId): Promise<ModerationEventData[]>;
+
+  /**
+   * Move a property to a new status and record the event, atomically
+   * @param propertyId Property identifier
+   * @param transition New state and event data
+   * @returns The new state, or null if the property is no longer in transition.fromStatus
+   */
+  applyTransition(propertyId: PropertyId, transition: ModerationTransitionData): Promise<ModerationRecord | null>;
+
+  /**
+   * Listings in the given statuses, ordered by submission date
+   * @param filters Status, agent, age and pagination criteria
+   */
+  findQueue(filters: ModerationQueueFilterData): Promise<PaginatedModerationQueue>;
+
+  /**
+   * Number of listings per status
+   * @param agentId Only count listings assigned to this agent (optional)
+   * @returns Counts per status (statuses without listings are omitted)
+   */
+  countByStatus(agentId?: string): Promise<Partial<Record<ModerationStatus, number>>>;
+}
+
+/**
+ * Delivery of review outcomes to agents (users-service notifications)
+ */
+export interface ModerationNotifier {
+  /**
+   * Notify the agent who submitted a listing
+   * @throws Error if the notification could not be delivered
+   */
+  notify(notification: ModerationNotification): Promise<void>;
+}
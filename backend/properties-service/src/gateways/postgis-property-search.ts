@@ -0,0 +1,191 @@
+/**
+ * PostGIS Property Search
+ *
+ * Spatial queries over the `geoPoint` geography column (kept in sync with
+ * `coordinates` by a database trigger). Prisma has no native support for
+ * geography types, so the spatial part runs as raw SQL that returns ordered
+ * IDs and distances; callers then load the rows through the Prisma models.
+ *
+ * PostGIS lives in the `public` schema while each service connects with its
+ * own search_path, so every PostGIS type and function is schema-qualified.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PropertyBoundingBox, PropertyCoordinates } from '../domain/property-types';
+import { buildAttributeConditions, SqlPropertyFilters } from './sql-property-filters';
+
+export interface SpatialSearchHit {
+  id: string;
+  distanceKm: number;
+}
+
+export interface SpatialSearchPage {
+  hits: SpatialSearchHit[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Keyset cursor - results are always ordered by (distance, id)
+ */
+interface SpatialCursor {
+  d: number;
+  id: string;
+}
+
+export class InvalidSpatialCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidSpatialCursorError';
+  }
+}
+
+export function encodeSpatialCursor(cursor: SpatialCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeSpatialCursor(raw: string): SpatialCursor {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidSpatialCursorError();
+  }
+
+  if (!parsed || typeof parsed.id !== 'string' || typeof parsed.d !== 'number' || !Number.isFinite(parsed.d)) {
+    throw new InvalidSpatialCursorError();
+  }
+  return { d: parsed.d, id: parsed.id };
+}
+
+/**
+ * True when the filters ask for any kind of spatial restriction
+ */
+export function hasSpatialFilter(filters: SqlPropertyFilters): boolean {
+  return !!(filters.nearbySearch || filters.boundingBox || (filters.polygon && filters.polygon.length > 0));
+}
+
+function makePoint(point: PropertyCoordinates): Prisma.Sql {
+  return Prisma.sql`public.ST_SetSRID(public.ST_MakePoint(${point.longitude}, ${point.latitude}), 4326)::public.geography`;
+}
+
+function makeEnvelope(box: PropertyBoundingBox): Prisma.Sql {
+  return Prisma.sql`public.ST_MakeEnvelope(${box.west}, ${box.south}, ${box.east}, ${box.north}, 4326)::public.geography`;
+}
+
+function makePolygonGeometry(ring: PropertyCoordinates[]): Prisma.Sql {
+  // GeoJSON rings must be closed; accept rings with or without the repeated vertex
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  const closed = first.latitude === last.latitude && first.longitude === last.longitude
+    ? ring
+    : [...ring, first];
+
+  const geoJson = JSON.stringify({
+    type: 'Polygon',
+    coordinates: [closed.map((point) => [point.longitude, point.latitude])],
+  });
+
+  return Prisma.sql`public.ST_SetSRID(public.ST_GeomFromGeoJSON(${geoJson}), 4326)`;
+}
+
+/**
+ * Reference point used for distances: the nearby center, an explicit origin,
+ * the viewport center or the polygon centroid - in that order
+ */
+function resolveOrigin(filters: SqlPropertyFilters): Prisma.Sql {
+  if (filters.nearbySearch) return makePoint(filters.nearbySearch);
+  if (filters.origin) return makePoint(filters.origin);
+
+  if (filters.boundingBox) {
+    const { north, south, east, west } = filters.boundingBox;
+    return makePoint({ latitude: (north + south) / 2, longitude: (east + west) / 2 });
+  }
+
+  if (filters.polygon && filters.polygon.length > 0) {
+    return Prisma.sql`public.ST_Centroid(${makePolygonGeometry(filters.polygon)})::public.geography`;
+  }
+
+  throw new Error('Spatial search requires nearbySearch, boundingBox or polygon');
+}
+
+/**
+ * Spatial filters plus the shared attribute filters
+ */
+function buildConditions(filters: SqlPropertyFilters): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [Prisma.sql`p."geoPoint" IS NOT NULL`];
+
+  if (filters.nearbySearch) {
+    const meters = filters.nearbySearch.radiusKm * 1000;
+    conditions.push(Prisma.sql`public.ST_DWithin(p."geoPoint", ${makePoint(filters.nearbySearch)}, ${meters})`);
+  }
+  if (filters.boundingBox) {
+    conditions.push(Prisma.sql`public.ST_Intersects(p."geoPoint", ${makeEnvelope(filters.boundingBox)})`);
+  }
+  if (filters.polygon && filters.polygon.length > 0) {
+    conditions.push(Prisma.sql`public.ST_Covers(${makePolygonGeometry(filters.polygon)}::public.geography, p."geoPoint")`);
+  }
+
+  conditions.push(...buildAttributeConditions(filters));
+
+  return conditions;
+}
+
+/**
+ * Returns one page of property IDs matching a spatial search, nearest first
+ */
+export async function searchPropertiesSpatially(
+  prisma: PrismaClient,
+  filters: SqlPropertyFilters,
+  limit: number
+): Promise<SpatialSearchPage> {
+  const cursor = filters.cursor ? decodeSpatialCursor(filters.cursor) : null;
+  const origin = resolveOrigin(filters);
+
+  const cursorCondition = cursor
+    ? Prisma.sql`WHERE (hit.distance, hit.id) > (${cursor.d}::float8, ${cursor.id})`
+    : Prisma.empty;
+
+  const query = Prisma.sql`
+    SELECT hit.id, hit.distance
+    FROM (
+      SELECT p."id" AS id, public.ST_Distance(p."geoPoint", ${origin}) AS distance
+      FROM "properties" p
+      WHERE ${Prisma.join(buildConditions(filters), ' AND ')}
+    ) hit
+    ${cursorCondition}
+    ORDER BY hit.distance ASC, hit.id ASC
+    LIMIT ${limit + 1}
+  `;
+  const rows = await prisma.$queryRaw<Array<{ id: string; distance: number }>>(query);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    hits: page.map((row) => ({
+      id: row.id,
+      distanceKm: Math.round(Number(row.distance) / 10) / 100, // meters -> km, 2 decimals
+    })),
+    nextCursor: hasMore && last ? encodeSpatialCursor({ d: Number(last.distance), id: last.id }) : null,
+    hasMore,
+  };
+}
+
+/**
+ * Counts every property matching a spatial search
+ */
+export async function countPropertiesSpatially(
+  prisma: PrismaClient,
+  filters: SqlPropertyFilters
+): Promise<number> {
+  const query = Prisma.sql`
+    SELECT COUNT(*) AS count
+    FROM "properties" p
+    WHERE ${Prisma.join(buildConditions(filters), ' AND ')}
+  `;
+  const rows = await prisma.$queryRaw<Array<{ count: bigint }>>(query);
+
+  return Number(rows[0]?.count ?? 0);
+}
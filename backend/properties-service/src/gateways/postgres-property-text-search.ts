@@ -0,0 +1,156 @@
+/**
+ * Postgres Property Text Search
+ *
+ * Full-text search over the generated `searchVector` column (title weighted
+ * A, location B, description C) using the Portuguese + unaccent text search
+ * configuration, so "moradias" matches "moradia" and "ribeirao" matches
+ * "Ribeirão". Returns ordered IDs with relevance and highlighted snippets;
+ * callers then load the rows through the Prisma models.
+ *
+ * Pagination uses the last property ID as cursor, like the regular listing:
+ * the sort key of the cursor row is looked up and used as a keyset.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PropertySearchHighlight } from '../domain/property-types';
+import { buildAttributeConditions, SqlPropertyFilters, TEXT_SEARCH_CONFIG, textSearchQuery } from './sql-property-filters';
+
+export interface TextSearchHit {
+  id: string;
+  relevance: number;
+  highlight: PropertySearchHighlight;
+}
+
+export interface TextSearchPage {
+  hits: TextSearchHit[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Control characters never appear in listings, so they can mark matches safely
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const TITLE_HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS =
+  `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Sort key for a given table alias. Nullable columns are coalesced so the
+ * (key, id) keyset comparison stays total.
+ */
+function sortKey(sortBy: string | undefined, alias: 'p' | 'c', query: Prisma.Sql): Prisma.Sql {
+  const table = Prisma.raw(alias);
+
+  switch (sortBy) {
+    case 'relevance':
+      return Prisma.sql`ts_rank_cd(${table}."searchVector", ${query}, 32)`;
+    case 'price':
+      return Prisma.sql`${table}."price"`;
+    case 'area':
+      return Prisma.sql`COALESCE(${table}."area", 0)`;
+    case 'title':
+      return Prisma.sql`${table}."title"`;
+    default:
+      return Prisma.sql`${table}."createdAt"`;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escapes the headline text and turns the match markers into <mark> tags
+ */
+export function toHighlightHtml(headline: string): string {
+  return escapeHtml(headline)
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+}
+
+/**
+ * Returns one page of property IDs matching `filters.textQuery`
+ *
+ * sortBy 'relevance' orders by rank (best first); other sort fields keep
+ * their usual meaning and only use the text query as a filter.
+ */
+export async function searchPropertiesByText(
+  prisma: PrismaClient,
+  filters: SqlPropertyFilters & { textQuery: string },
+  limit: number
+): Promise<TextSearchPage> {
+  const tsQuery = textSearchQuery(filters.textQuery);
+  const sortBy = filters.sortBy || 'relevance';
+  const descending = sortBy === 'relevance' || (filters.sortOrder || 'desc') === 'desc';
+  const direction = Prisma.raw(descending ? 'DESC' : 'ASC');
+
+  const conditions = buildAttributeConditions(filters);
+  if (filters.cursor) {
+    const comparison = Prisma.raw(descending ? '<' : '>');
+    conditions.push(Prisma.sql`(${sortKey(sortBy, 'p', tsQuery)}, p."id") ${comparison} (
+      SELECT ${sortKey(sortBy, 'c', tsQuery)}, c."id" FROM "properties" c WHERE c."id" = ${filters.cursor}
+    )`);
+  }
+
+  // Headlines are expensive, so they are only computed for the page itself
+  const query = Prisma.sql`
+    SELECT page.id, page.relevance,
+      ts_headline(${TEXT_SEARCH_CONFIG}::regconfig, p."title", ${tsQuery}, ${TITLE_HEADLINE_OPTIONS}) AS "titleHeadline",
+      ts_headline(${TEXT_SEARCH_CONFIG}::regconfig, p."description", ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS}) AS "descriptionHeadline"
+    FROM (
+      SELECT p."id" AS id, ts_rank_cd(p."searchVector", ${tsQuery}, 32) AS relevance,
+        ${sortKey(sortBy, 'p', tsQuery)} AS "sortKey"
+      FROM "properties" p
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY "sortKey" ${direction}, p."id" ${direction}
+      LIMIT ${limit + 1}
+    ) page
+    JOIN "properties" p ON p."id" = page.id
+    ORDER BY page."sortKey" ${direction}, page.id ${direction}
+  `;
+  const rows = await prisma.$queryRaw<Array<{
+    id: string;
+    relevance: number;
+    titleHeadline: string;
+    descriptionHeadline: string | null;
+  }>>(query);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    hits: page.map((row) => ({
+      id: row.id,
+      relevance: Math.round(Number(row.relevance) * 10000) / 10000,
+      highlight: {
+        title: toHighlightHtml(row.titleHeadline),
+        description: row.descriptionHeadline === null ? null : toHighlightHtml(row.descriptionHeadline),
+      },
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+    hasMore,
+  };
+}
+
+/**
+ * Counts every property matching a text search
+ */
+export async function countPropertiesByText(
+  prisma: PrismaClient,
+  filters: SqlPropertyFilters & { textQuery: string }
+): Promise<number> {
+  const query = Prisma.sql`
+    SELECT COUNT(*) AS count
+    FROM "properties" p
+    WHERE ${Prisma.join(buildAttributeConditions(filters), ' AND ')}
+  `;
+  const rows = await prisma.$queryRaw<Array<{ count: bigint }>>(query);
+
+  return Number(rows[0]?.count ?? 0);
+}
@@ -0,0 +1,164 @@
+/**
+ * Prisma Favorite Gateway Implementation
+ *
+ * Implements FavoriteDataGateway using Prisma ORM. Favorites are removed
+ * together with their property by the ON DELETE CASCADE foreign key.
+ */
+
+import { Prisma, PrismaClient, PropertyFavorite } from '@prisma/client';
+import {
+    FavoriteData,
+    FavoriteListFilterData,
+    FavoritePaginationData,
+    FavoriteStats,
+    FavoriteUserId,
+    FavoriteWithProperty,
+    PaginatedFavoriteData
+} from '../domain/favorite-types';
+import { PropertyId, PropertyStatus } from '../domain/property-types';
+import { FavoriteDataGateway } from './favorite-data-gateway';
+
+/**
+ * Favorited properties are always loaded with the same minimal projection
+ */
+const FAVORITE_INCLUDE = {
+  property: {
+    select: { id: true, title: true, location: true, price: true, status: true, imageUrl: true },
+  },
+} satisfies Prisma.PropertyFavoriteInclude;
+
+type FavoriteWithPrismaProperty = Prisma.PropertyFavoriteGetPayload<{ include: typeof FAVORITE_INCLUDE }>;
+
+function transformFromPrisma(favorite: PropertyFavorite): FavoriteData {
+  return {
+    id: favorite.id,
+    propertyId: favorite.propertyId,
+    userId: favorite.userId,
+    createdAt: favorite.createdAt,
+  };
+}
+
+function transformWithProperty(favorite: FavoriteWithPrismaProperty): FavoriteWithProperty {
+  return {
+    ...transformFromPrisma(favorite),
+    property: {
+      id: favorite.property.id,
+      title: favorite.property.title,
+      location: favorite.property.location,
+      price: Number(favorite.property.price),
+      status: favorite.property.status as PropertyStatus,
+      imageUrl: favorite.property.imageUrl,
+    },
+  };
+}
+
+/**
+ * Prisma implementation of FavoriteDataGateway
+ */
+export class PrismaFavoriteGateway implements FavoriteDataGateway {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async add(propertyId: PropertyId, userId: FavoriteUserId): Promise<FavoriteData> {
+    const favorite = await this.prisma.propertyFavorite.upsert({
+      where: { propertyId_userId: { propertyId, userId } },
+      create: { propertyId, userId },
+      update: {},
+    });
+
+    return transformFromPrisma(favorite);
+  }
+
+  async remove(propertyId: PropertyId, userId: FavoriteUserId): Promise<boolean> {
+    const { count } = await this.prisma.propertyFavorite.deleteMany({
+      where: { propertyId, userId },
+    });
+
+    return count > 0;
+  }
+
+  async findByUser(userId: FavoriteUserId, filters: FavoriteListFilterData): Promise<PaginatedFavoriteData> {
+    const limit = filters.limit;
+    const where = { userId };
+
+    // The id tiebreaker keeps cursor pagination stable on equal timestamps
+    const favorites = await this.prisma.propertyFavorite.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      include: FAVORITE_INCLUDE,
+      take: limit + 1, // Fetch one extra to check if there are more results
+      ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+    });
+
+    let nextCursor: string | null = null;
+    let hasMore = false;
+
+    if (favorites.length > limit) {
+      favorites.pop(); // Remove extra item
+      nextCursor = favorites[favorites.length - 1]?.id || null;
+      hasMore = true;
+    }
+
+    // Get total estimate for first page
+    let totalEstimate: number | undefined;
+    if (!filters.cursor) {
+      try {
+        totalEstimate = await this.prisma.propertyFavorite.count({ where });
+      } catch {
+        totalEstimate = undefined;
+      }
+    }
+
+    const pagination: FavoritePaginationData = {
+      nextCursor,
+      hasMore,
+      limit,
+      totalEstimate,
+    };
+
+    return {
+      favorites: favorites.map(transformWithProperty),
+      pagination,
+    };
+  }
+
+  async getStats(propertyIds: PropertyId[], userId?: FavoriteUserId): Promise<FavoriteStats> {
+    if (propertyIds.length === 0) {
+      return { counts: new Map(), favoritedIds: new Set() };
+    }
+
+    const [counts, own] = await Promise.all([
+      this.prisma.propertyFavorite.groupBy({
+        by: ['propertyId'],
+        where: { propertyId: { in: propertyIds } },
+        _count: { _all: true },
+      }),
+      userId
+        ? this.prisma.propertyFavorite.findMany({
+          where: { userId, propertyId: { in: propertyIds } },
+          select: { propertyId: true },
+        })
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      counts: new Map(counts.map((row) => [row.propertyId, row._count._all])),
+      favoritedIds: new Set(own.map((row) => row.propertyId)),
+    };
+  }
+
+  async propertyExists(propertyId: PropertyId): Promise<boolean> {
+    const property = await this.prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { id: true },
+    });
+
+    return property !== null;
+  }
+}
+
+/**
+ * Factory function for PrismaFavoriteGateway
+ */
+export function createPrismaFavoriteGateway(prisma: PrismaClient): FavoriteDataGateway {
+  return new PrismaFavoriteGateway(prisma);
+}
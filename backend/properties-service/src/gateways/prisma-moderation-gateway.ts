@@ -0,0 +1,233 @@
+/**
+ * Prisma Moderation Gateway Implementation
+ *
+ * Implements ModerationDataGateway using Prisma ORM. The moderation state lives
+ * on the property row (so adminStatus stays in step with it) and every transition
+ * is recorded in property_moderation_events.
+ */
+
+import { Prisma, PrismaClient, PropertyModerationEvent } from '@prisma/client';
+import {
+    ModerationAction,
+    ModerationEventData,
+    ModerationListingData,
+    ModerationQueueFilterData,
+    ModerationQueuePaginationData,
+    ModerationRecord,
+    ModerationStatus,
+    ModerationTransitionData,
+    PaginatedModerationQueue
+} from '../domain/moderation-types';
+import { AdminStatus, PropertyCoordinates, PropertyId, PropertyType } from '../domain/property-types';
+import { ModerationDataGateway } from './moderation-data-gateway';
+
+const RECORD_SELECT = {
+  id: true,
+  moderationStatus: true,
+  adminStatus: true,
+  ownerId: true,
+  agentId: true,
+  submittedAt: true,
+  submittedBy: true,
+  reviewedAt: true,
+  reviewedBy: true,
+  rejectionReason: true,
+} satisfies Prisma.PropertySelect;
+
+const LISTING_SELECT = {
+  id: true,
+  title: true,
+  location: true,
+  price: true,
+  type: true,
+  description: true,
+  area: true,
+  coordinates: true,
+  imageUrl: true,
+  _count: { select: { images: true } },
+} satisfies Prisma.PropertySelect;
+
+type PrismaRecord = Prisma.PropertyGetPayload<{ select: typeof RECORD_SELECT }>;
+type PrismaListing = Prisma.PropertyGetPayload<{ select: typeof LISTING_SELECT }>;
+
+function transformRecord(property: PrismaRecord): ModerationRecord {
+  return {
+    propertyId: property.id,
+    status: property.moderationStatus as ModerationStatus,
+    adminStatus: property.adminStatus as AdminStatus,
+    ownerId: property.ownerId,
+    agentId: property.agentId,
+    submittedAt: property.submittedAt,
+    submittedBy: property.submittedBy,
+    reviewedAt: property.reviewedAt,
+    reviewedBy: property.reviewedBy,
+    rejectionReason: property.rejectionReason,
+  };
+}
+
+function parseCoordinates(value: Prisma.JsonValue | null): PropertyCoordinates | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const latitude = Number((value as Prisma.JsonObject).latitude);
+  const longitude = Number((value as Prisma.JsonObject).longitude);
+  return Number.isFinite(latitude) && Number.isFinite(longitude) ? { latitude, longitude } : null;
+}
+
+function transformListing(property: PrismaListing): ModerationListingData {
+  return {
+    id: property.id,
+    title: property.title,
+    location: property.location,
+    price: Number(property.price),
+    type: property.type as PropertyType | null,
+    description: property.description,
+    area: property.area !== null ? Number(property.area) : null,
+    coordinates: parseCoordinates(property.coordinates),
+    imageUrl: property.imageUrl,
+    imageCount: property._count.images,
+  };
+}
+
+function transformEvent(event: PropertyModerationEvent): ModerationEventData {
+  return {
+    id: event.id,
+    propertyId: event.propertyId,
+    action: event.action as ModerationAction,
+    fromStatus: event.fromStatus as ModerationStatus,
+    toStatus: event.toStatus as ModerationStatus,
+    actorId: event.actorId,
+    reason: event.reason,
+    createdAt: event.createdAt,
+  };
+}
+
+/**
+ * Prisma implementation of ModerationDataGateway
+ */
+export class PrismaModerationGateway implements ModerationDataGateway {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findRecord(propertyId: PropertyId): Promise<ModerationRecord | null> {
+    const property = await this.prisma.property.findUnique({
+      where: { id: propertyId },
+      select: RECORD_SELECT,
+    });
+
+    return property ? transformRecord(property) : null;
+  }
+
+  async findListing(propertyId: PropertyId): Promise<ModerationListingData | null> {
+    const property = await this.prisma.property.findUnique({
+      where: { id: propertyId },
+      select: LISTING_SELECT,
+    });
+
+    return property ? transformListing(property) : null;
+  }
+
+  async getHistory(propertyId: PropertyId): Promise<ModerationEventData[]> {
+    const events = await this.prisma.propertyModerationEvent.findMany({
+      where: { propertyId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return events.map(transformEvent);
+  }
+
+  async applyTransition(propertyId: PropertyId, transition: ModerationTransitionData): Promise<ModerationRecord | null> {
+    const { action, fromStatus, toStatus, adminStatus, actorId, reason, ...fields } = transition;
+
+    return this.prisma.$transaction(async (tx) => {
+      // Conditional on the status the decision was based on, so concurrent reviews cannot both apply
+      const { count } = await tx.property.updateMany({
+        where: { id: propertyId, moderationStatus: fromStatus },
+        data: { moderationStatus: toStatus, adminStatus, ...fields },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.propertyModerationEvent.create({
+        data: { propertyId, action, fromStatus, toStatus, actorId, reason },
+      });
+
+      const property = await tx.property.findUniqueOrThrow({
+        where: { id: propertyId },
+        select: RECORD_SELECT,
+      });
+      return transformRecord(property);
+    });
+  }
+
+  async findQueue(filters: ModerationQueueFilterData): Promise<PaginatedModerationQueue> {
+    const limit = filters.limit;
+    const where: Prisma.PropertyWhereInput = {
+      moderationStatus: { in: filters.status },
+      ...(filters.agentId ? { agentId: filters.agentId } : {}),
+      ...(filters.submittedBefore ? { submittedAt: { lte: filters.submittedBefore } } : {}),
+    };
+
+    // Never-submitted drafts go last; the id tiebreaker keeps cursor pagination stable
+    const properties = await this.prisma.property.findMany({
+      where,
+      orderBy: [
+        { submittedAt: { sort: filters.sortOrder, nulls: 'last' } },
+        { id: filters.sortOrder },
+      ],
+      select: { ...RECORD_SELECT, ...LISTING_SELECT },
+      take: limit + 1, // Fetch one extra to check if there are more results
+      ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+    });
+
+    let nextCursor: string | null = null;
+    let hasMore = false;
+
+    if (properties.length > limit) {
+      properties.pop(); // Remove extra item
+      nextCursor = properties[properties.length - 1]?.id || null;
+      hasMore = true;
+    }
+
+    // Get total estimate for first page
+    let totalEstimate: number | undefined;
+    if (!filters.cursor) {
+      try {
+        totalEstimate = await this.prisma.property.count({ where });
+      } catch {
+        totalEstimate = undefined;
+      }
+    }
+
+    const pagination: ModerationQueuePaginationData = {
+      nextCursor,
+      hasMore,
+      limit,
+      totalEstimate,
+    };
+
+    return {
+      items: properties.map((property) => ({
+        ...transformRecord(property),
+        listing: transformListing(property),
+      })),
+      pagination,
+    };
+  }
+
+  async countByStatus(agentId?: string): Promise<Partial<Record<ModerationStatus, number>>> {
+    const rows = await this.prisma.property.groupBy({
+      by: ['moderationStatus'],
+      where: agentId ? { agentId } : undefined,
+      _count: { _all: true },
+    });
+
+    return Object.fromEntries(rows.map((row) => [row.moderationStatus, row._count._all]));
+  }
+}
+
+/**
+ * Factory function for PrismaModerationGateway
+ */
+export function createPrismaModerationGateway(prisma: PrismaClient): ModerationDataGateway {
+  return new PrismaModerationGateway(prisma);
+}
@@ -0,0 +1,254 @@
+/**
+ * Prisma Project Gateway Implementation
+ *
+ * Implements ProjectDataGateway interface using Prisma ORM
+ * All Prisma-specific logic is isolated here
+ */
+
+import { Prisma, PrismaClient, Project } from '@prisma/client';
+import { PropertyId } from '../domain/property-types';
+import {
+    PaginatedProjectData,
+    ProjectCreateData,
+    ProjectData,
+    ProjectFilterData,
+    ProjectId,
+    ProjectPaginationData,
+    ProjectStatus,
+    ProjectType,
+    ProjectUpdateData
+} from '../domain/project-types';
+import { ProjectDataGateway } from './project-data-gateway';
+
+/**
+ * Linked properties are always loaded with the same minimal projection
+ */
+const PROJECT_INCLUDE = {
+  properties: {
+    select: { id: true, title: true, location: true, imageUrl: true },
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.ProjectInclude;
+
+type ProjectWithProperties = Project & {
+  properties: Array<{ id: string; title: string; location: string; imageUrl: string | null }>;
+};
+
+/**
+ * Transforms Prisma Project to Domain ProjectData
+ */
+function transformFromPrisma(project: ProjectWithProperties): ProjectData {
+  return {
+    id: project.id,
+    name: project.name,
+    type: project.type as ProjectType,
+    status: project.status as ProjectStatus,
+    description: project.description,
+    imageUrl: project.imageUrl,
+    gallery: project.gallery ?? [],
+    startDate: project.startDate,
+    endDate: project.endDate,
+    properties: project.properties.map((property) => ({
+      id: property.id,
+      title: property.title,
+      location: property.location,
+      imageUrl: property.imageUrl,
+    })),
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+/**
+ * Transforms Domain ProjectCreateData to Prisma format
+ */
+function transformToPrismaCreate(data: ProjectCreateData): Prisma.ProjectCreateInput {
+  return {
+    name: data.name,
+    type: data.type,
+    status: data.status,
+    description: data.description,
+    imageUrl: data.imageUrl,
+    gallery: data.gallery ?? [],
+    startDate: data.startDate,
+    endDate: data.endDate,
+    ...(data.propertyIds && data.propertyIds.length > 0
+      ? { properties: { connect: data.propertyIds.map((id) => ({ id })) } }
+      : {}),
+  };
+}
+
+/**
+ * Transforms Domain ProjectUpdateData to Prisma format
+ */
+function transformToPrismaUpdate(data: ProjectUpdateData): Prisma.ProjectUpdateInput {
+  const update: Prisma.ProjectUpdateInput = {};
+
+  if (data.name !== undefined) update.name = data.name;
+  if (data.type !== undefined) update.type = data.type;
+  if (data.status !== undefined) update.status = data.status;
+  if (data.description !== undefined) update.description = data.description;
+  if (data.imageUrl !== undefined) update.imageUrl = data.imageUrl;
+  if (data.gallery !== undefined) update.gallery = data.gallery;
+  if (data.startDate !== undefined) update.startDate = data.startDate;
+  if (data.endDate !== undefined) update.endDate = data.endDate;
+  if (data.propertyIds !== undefined) {
+    // Linked properties are replaced as a whole, not merged
+    update.properties = { set: data.propertyIds.map((id) => ({ id })) };
+  }
+
+  return update;
+}
+
+/**
+ * Builds Prisma where clause from domain filters
+ */
+function buildWhereClause(filters: ProjectFilterData): Prisma.ProjectWhereInput {
+  const where: Prisma.ProjectWhereInput = {};
+
+  if (filters.type) where.type = filters.type;
+  if (filters.status) where.status = filters.status;
+
+  if (filters.textQuery) {
+    where.OR = [
+      { name: { contains: filters.textQuery, mode: 'insensitive' } },
+      { description: { contains: filters.textQuery, mode: 'insensitive' } },
+    ];
+  }
+
+  return where;
+}
+
+/**
+ * Builds Prisma orderBy clause from domain sort criteria
+ * The id tiebreaker keeps cursor pagination stable on equal sort keys
+ */
+function buildOrderByClause(
+  sortBy: string = 'createdAt',
+  sortOrder: Prisma.SortOrder = 'desc'
+): Prisma.ProjectOrderByWithRelationInput[] {
+  switch (sortBy) {
+    case 'name':
+      return [{ name: sortOrder }, { id: 'asc' }];
+    case 'startDate':
+      return [{ startDate: { sort: sortOrder, nulls: 'last' } }, { id: 'asc' }];
+    case 'endDate':
+      return [{ endDate: { sort: sortOrder, nulls: 'last' } }, { id: 'asc' }];
+    default:
+      return [{ createdAt: sortOrder }, { id: 'asc' }];
+  }
+}
+
+/**
+ * Prisma implementation of ProjectDataGateway
+ */
+export class PrismaProjectGateway implements ProjectDataGateway {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async create(data: ProjectCreateData): Promise<ProjectData> {
+    const project = await this.prisma.project.create({
+      data: transformToPrismaCreate(data),
+      include: PROJECT_INCLUDE,
+    });
+
+    return transformFromPrisma(project);
+  }
+
+  async findById(id: ProjectId): Promise<ProjectData | null> {
+    const project = await this.prisma.project.findUnique({
+      where: { id },
+      include: PROJECT_INCLUDE,
+    });
+
+    return project ? transformFromPrisma(project) : null;
+  }
+
+  async findMany(filters: ProjectFilterData): Promise<PaginatedProjectData> {
+    const limit = filters.limit || 20;
+    const where = buildWhereClause(filters);
+    const orderBy = buildOrderByClause(filters.sortBy, filters.sortOrder);
+
+    const projects = await this.prisma.project.findMany({
+      where,
+      orderBy,
+      include: PROJECT_INCLUDE,
+      take: limit + 1, // Fetch one extra to check if there are more results
+      ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+    });
+
+    let nextCursor: string | null = null;
+    let hasMore = false;
+
+    if (projects.length > limit) {
+      projects.pop(); // Remove extra item
+      nextCursor = projects[projects.length - 1]?.id || null;
+      hasMore = true;
+    }
+
+    // Get total estimate for first page
+    let totalEstimate: number | undefined;
+    if (!filters.cursor) {
+      try {
+        totalEstimate = await this.prisma.project.count({ where });
+      } catch {
+        totalEstimate = undefined;
+      }
+    }
+
+    const pagination: ProjectPaginationData = {
+      nextCursor,
+      hasMore,
+      limit,
+      totalEstimate,
+    };
+
+    return {
+      projects: projects.map(transformFromPrisma),
+      pagination,
+    };
+  }
+
+  async update(id: ProjectId, data: ProjectUpdateData): Promise<ProjectData> {
+    const project = await this.prisma.project.update({
+      where: { id },
+      data: transformToPrismaUpdate(data),
+      include: PROJECT_INCLUDE,
+    });
+
+    return transformFromPrisma(project);
+  }
+
+  async delete(id: ProjectId): Promise<void> {
+    await this.prisma.project.delete({
+      where: { id },
+    });
+  }
+
+  async findMissingPropertyIds(ids: PropertyId[]): Promise<PropertyId[]> {
+    if (ids.length === 0) return [];
+
+    const existing = await this.prisma.property.findMany({
+      where: { id: { in: ids } },
+      select: { id: true },
+    });
+    const found = new Set(existing.map((property) => property.id));
+
+    return ids.filter((id) => !found.has(id));
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.prisma.$queryRaw`SELECT 1`;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Factory function for the Prisma project gateway
+ */
+export function createPrismaProjectGateway(prisma: PrismaClient): ProjectDataGateway {
+  return new PrismaProjectGateway(prisma);
+}
@@ -9,6 +9,8 @@ import { Prisma, PrismaClient, Property } from '@prisma/client';
 import {
     PaginatedPropertyData,
     PaginationData,
+    PriceHistoryEntry,
+    PropertyChangeContext,
     PropertyCoordinates,
     PropertyCreateData,
     PropertyData,
@@ -20,6 +22,9 @@ import {
     PropertyUpdateData,
     PropertyWithComputedFields
 } from '../domain/property-types';
+import { countPropertiesSpatially, hasSpatialFilter, searchPropertiesSpatially } from './postgis-property-search';
+import { countPropertiesByText, searchPropertiesByText } from './postgres-property-text-search';
+import { findPriceHistory, reducedSince, updatePropertyTrackingPrice } from './property-price-history';
 import { GatewayConfig, PropertyDataGateway, PropertyDataGatewayFactory } from './property-data-gateway';
 
 /**
@@ -50,6 +55,8 @@ function transformFromPrisma(property: Property): PropertyData {
     title: property.title,
     location: property.location,
     price: Number(property.price),
+    previousPrice: property.previousPrice !== null ? Number(property.previousPrice) : null,
+    priceReducedAt: property.priceReducedAt,
     status: property.status as PropertyStatus,
     type: property.type as PropertyType | null,
     imageUrl: property.imageUrl,
@@ -182,14 +189,12 @@ function buildWhereClause(filters: PropertyFilterData): any {
   if (filters.features && filters.features.length > 0) {
     where.features = { hasSome: filters.features };
   }
-  
-  if (filters.textQuery) {
-    where.OR = [
-      { title: { contains: filters.textQuery, mode: 'insensitive' } },
-      { description: { contains: filters.textQuery, mode: 'insensitive' } },
-      { location: { contains: filters.textQuery, mode: 'insensitive' } },
-    ];
+
+  if (filters.recentlyReduced) {
+    where.priceReducedAt = { gte: reducedSince(filters.reducedWithinDays ?? 30) };
   }
+  
+  // textQuery is handled by the full-text search (see postgres-property-text-search)
 
   return where;
 }
@@ -217,25 +222,6 @@ function buildOrderByClause(sortBy: string = 'createdAt', sortOrder: string = 'd
   return orderBy;
 }
 
-/**
- * Calculate distance between two points (Haversine formula)
- */
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Radius of Earth in kilometers
-  const dLat = (lat2 - lat1) * (Math.PI / 180);
-  const dLon = (lon2 - lon1) * (Math.PI / 180);
-  
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) *
-    Math.cos(lat2 * (Math.PI / 180)) *
-    Math.sin(dLon / 2) *
-    Math.sin(dLon / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
 /**
  * Prisma implementation of PropertyDataGateway
  */
@@ -263,9 +249,14 @@ export class PrismaPropertyGateway implements PropertyDataGateway {
     const limit = filters.limit || 20;
     const limitPlusOne = limit + 1; // Fetch one extra to check if there are more results
 
-    // Handle nearby search separately
-    if (filters.nearbySearch) {
-      return this.findNearbyProperties(filters, limit);
+    // Geospatial searches run through PostGIS
+    if (hasSpatialFilter(filters)) {
+      return this.findSpatially(filters, limit);
+    }
+
+    // Text searches run through the full-text index
+    if (filters.textQuery) {
+      return this.findByText({ ...filters, textQuery: filters.textQuery }, limit);
     }
 
     // Regular database query
@@ -316,16 +307,27 @@ export class PrismaPropertyGateway implements PropertyDataGateway {
     };
   }
 
-  async update(id: PropertyId, data: PropertyUpdateData): Promise<PropertyData> {
+  async update(id: PropertyId, data: PropertyUpdateData, context?: PropertyChangeContext): Promise<PropertyData> {
     const prismaData = transformToPrismaUpdate(data);
-    const property = await this.prisma.property.update({
-      where: { id },
-      data: prismaData,
-    });
+    const property = await updatePropertyTrackingPrice(this.prisma, id, prismaData, context);
     
     return transformFromPrisma(property);
   }
 
+  async getPriceHistory(id: PropertyId): Promise<PriceHistoryEntry[]> {
+    const history = await findPriceHistory(this.prisma, id);
+
+    return history.map(entry => ({
+      id: entry.id,
+      propertyId: entry.propertyId,
+      oldPrice: entry.oldPrice !== null ? Number(entry.oldPrice) : null,
+      newPrice: Number(entry.newPrice),
+      reason: entry.reason,
+      changedBy: entry.changedBy,
+      changedAt: entry.changedAt,
+    }));
+  }
+
   async delete(id: PropertyId): Promise<void> {
     await this.prisma.property.delete({
       where: { id },
@@ -333,6 +335,13 @@ export class PrismaPropertyGateway implements PropertyDataGateway {
   }
 
   async count(filters?: PropertyFilterData): Promise<number> {
+    if (filters && hasSpatialFilter(filters)) {
+      return await countPropertiesSpatially(this.prisma, filters);
+    }
+    if (filters?.textQuery) {
+      return await countPropertiesByText(this.prisma, { ...filters, textQuery: filters.textQuery });
+    }
+
     const where = filters ? buildWhereClause(filters) : {};
     return await this.prisma.property.count({ where });
   }
@@ -402,59 +411,87 @@ export class PrismaPropertyGateway implements PropertyDataGateway {
   }
 
   /**
-   * Handle nearby search with distance calculation
+   * Full-text search, by relevance or by the requested sort field
    */
-  private async findNearbyProperties(filters: PropertyFilterData, limit: number): Promise<PaginatedPropertyData> {
-    if (!filters.nearbySearch) {
-      throw new Error('Nearby search parameters are required');
+  private async findByText(
+    filters: PropertyFilterData & { textQuery: string },
+    limit: number
+  ): Promise<PaginatedPropertyData> {
+    const page = await searchPropertiesByText(this.prisma, filters, limit);
+
+    const rows = page.hits.length > 0
+      ? await this.prisma.property.findMany({ where: { id: { in: page.hits.map(hit => hit.id) } } })
+      : [];
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+
+    // Keep the order from the search query
+    const properties = page.hits
+      .filter(hit => rowsById.has(hit.id))
+      .map(hit => ({
+        ...addComputedFields(transformFromPrisma(rowsById.get(hit.id)!)),
+        relevance: hit.relevance,
+        highlight: hit.highlight,
+      }));
+
+    let totalEstimate: number | undefined;
+    if (!filters.cursor && properties.length > 0) {
+      try {
+        totalEstimate = await countPropertiesByText(this.prisma, filters);
+      } catch {
+        totalEstimate = undefined;
+      }
     }
 
-    const { latitude, longitude, radiusKm } = filters.nearbySearch;
-    
-    // Get all properties with coordinates (in production, you might want to add a bounding box query first)
-    const propertiesWithCoords = await this.prisma.property.findMany({
-      where: {
-        coordinates: { not: null },
-        ...buildWhereClause({ ...filters, nearbySearch: undefined }), // Exclude nearbySearch from where clause
-      },
-      take: limit * 3, // Take more to filter by distance
-    });
+    const pagination: PaginationData = {
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+      limit,
+      totalEstimate,
+    };
 
-    // Calculate distances and filter
-    const propertiesWithDistance = propertiesWithCoords
-      .map((property) => {
-        const domainProperty = transformFromPrisma(property);
-        if (!domainProperty.coordinates) return null;
-        
-        const distance = calculateDistance(
-          latitude,
-          longitude,
-          domainProperty.coordinates.latitude,
-          domainProperty.coordinates.longitude
-        );
-        
-        return distance <= radiusKm ? addComputedFields(domainProperty) : null;
-      })
-      .filter(Boolean) as PropertyWithComputedFields[];
-
-    // Sort by distance and apply limit
-    const sortedByDistance = propertiesWithDistance
-      .sort((a, b) => {
-        if (!a.coordinates || !b.coordinates) return 0;
-        const distanceA = calculateDistance(latitude, longitude, a.coordinates.latitude, a.coordinates.longitude);
-        const distanceB = calculateDistance(latitude, longitude, b.coordinates.latitude, b.coordinates.longitude);
-        return distanceA - distanceB;
-      })
-      .slice(0, limit);
+    return {
+      properties,
+      pagination,
+    };
+  }
+
+  /**
+   * Radius, viewport and polygon search, nearest first with keyset pagination
+   */
+  private async findSpatially(filters: PropertyFilterData, limit: number): Promise<PaginatedPropertyData> {
+    const page = await searchPropertiesSpatially(this.prisma, filters, limit);
+
+    const rows = page.hits.length > 0
+      ? await this.prisma.property.findMany({ where: { id: { in: page.hits.map(hit => hit.id) } } })
+      : [];
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+
+    // Keep the distance order from PostGIS
+    const properties = page.hits
+      .filter(hit => rowsById.has(hit.id))
+      .map(hit => ({
+        ...addComputedFields(transformFromPrisma(rowsById.get(hit.id)!)),
+        distanceKm: hit.distanceKm,
+      }));
+
+    let totalEstimate: number | undefined;
+    if (!filters.cursor && properties.length > 0) {
+      try {
+        totalEstimate = await countPropertiesSpatially(this.prisma, filters);
+      } catch {
+        totalEstimate = undefined;
+      }
+    }
 
     const pagination: PaginationData = {
-      nextCursor: null, // Nearby search doesn't support cursor pagination
-      hasMore: propertiesWithDistance.length > limit,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
       limit,
+      totalEstimate,
     };
 
     return {
-      properties: sortedByDistance,
+      properties,
       pagination,
     };
   }
@@ -0,0 +1,124 @@
+/**
+ * Prisma Report Gateway Implementation
+ *
+ * Implements ReportDataGateway using Prisma ORM. Per-period counts and the
+ * market metrics run as raw SQL so bucketing (date_trunc) and averaging
+ * happen in Postgres.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PropertyType } from '../domain/property-types';
+import {
+    DaysOnMarket,
+    LocationPricePerSqm,
+    PeriodCount,
+    ReportGranularity,
+    StatusCount,
+    TypeCount
+} from '../domain/report-types';
+import { AnalyticsDateRange } from '../domain/visit-types';
+import { ReportDataGateway } from './report-data-gateway';
+
+function toPeriodCounts(rows: Array<{ period: string; count: bigint }>): PeriodCount[] {
+  return rows.map((row) => ({ period: row.period, count: Number(row.count) }));
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Prisma implementation of ReportDataGateway
+ */
+export class PrismaReportGateway implements ReportDataGateway {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async countByType(): Promise<TypeCount[]> {
+    const rows = await this.prisma.property.groupBy({
+      by: ['type'],
+      _count: { _all: true },
+    });
+
+    return rows.map((row) => ({ type: row.type as PropertyType | null, count: row._count._all }));
+  }
+
+  async countByStatus(): Promise<StatusCount[]> {
+    const rows = await this.prisma.property.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+
+    return rows.map((row) => ({ status: row.status, count: row._count._all }));
+  }
+
+  async countNewPropertiesPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ period: string; count: bigint }>>(Prisma.sql`
+      SELECT to_char(date_trunc(${granularity}, p."createdAt"), 'YYYY-MM-DD') AS period, COUNT(*) AS count
+      FROM "properties" p
+      WHERE p."createdAt" >= ${range.from} AND p."createdAt" < ${range.to}
+      GROUP BY 1
+      ORDER BY 1
+    `);
+
+    return toPeriodCounts(rows);
+  }
+
+  async countViewsPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ period: string; count: bigint }>>(Prisma.sql`
+      SELECT to_char(date_trunc(${granularity}, v."visitedAt"), 'YYYY-MM-DD') AS period, COUNT(*) AS count
+      FROM "property_visits" v
+      WHERE v."visitedAt" >= ${range.from} AND v."visitedAt" < ${range.to}
+      GROUP BY 1
+      ORDER BY 1
+    `);
+
+    return toPeriodCounts(rows);
+  }
+
+  async getDaysOnMarket(range: AnalyticsDateRange): Promise<DaysOnMarket> {
+    const rows = await this.prisma.$queryRaw<Array<{ closedListings: bigint; averageDays: number | null }>>(Prisma.sql`
+      SELECT COUNT(*) AS "closedListings",
+        AVG(EXTRACT(EPOCH FROM (p."closedAt" - p."createdAt")) / 86400)::float8 AS "averageDays"
+      FROM "properties" p
+      WHERE p."closedAt" >= ${range.from} AND p."closedAt" < ${range.to}
+    `);
+
+    const averageDays = rows[0]?.averageDays ?? null;
+    return {
+      closedListings: Number(rows[0]?.closedListings ?? 0),
+      averageDays: averageDays !== null ? round(averageDays, 1) : null,
+    };
+  }
+
+  async getPricePerSqmByLocation(limit: number): Promise<LocationPricePerSqm[]> {
+    // Locations are free text, so spelling variants that only differ in case/spacing are merged
+    const rows = await this.prisma.$queryRaw<Array<{
+      location: string;
+      listings: bigint;
+      averagePricePerSqm: number;
+    }>>(Prisma.sql`
+      SELECT MIN(trim(p."location")) AS location,
+        COUNT(*) AS listings,
+        AVG(p."price" / p."area")::float8 AS "averagePricePerSqm"
+      FROM "properties" p
+      WHERE p."status" = 'for_sale' AND p."adminStatus" = 'ACTIVE' AND p."area" > 0
+      GROUP BY lower(trim(p."location"))
+      ORDER BY listings DESC, location ASC
+      LIMIT ${limit}
+    `);
+
+    return rows.map((row) => ({
+      location: row.location,
+      listings: Number(row.listings),
+      averagePricePerSqm: round(row.averagePricePerSqm, 2),
+    }));
+  }
+}
+
+/**
+ * Factory function for PrismaReportGateway
+ */
+export function createPrismaReportGateway(prisma: PrismaClient): ReportDataGateway {
+  return new PrismaReportGateway(prisma);
+}
@@ -0,0 +1,151 @@
+/**
+ * Prisma Visit Gateway Implementation
+ *
+ * Implements VisitDataGateway using Prisma ORM. Aggregations run as raw SQL
+ * so grouping by day and counting distinct visitors happen in Postgres.
+ * A visitor is the logged-in user when known, otherwise the IP address.
+ */
+
+import { Prisma, PrismaClient, PropertyVisit } from '@prisma/client';
+import { PropertyId } from '../domain/property-types';
+import {
+    AnalyticsDateRange,
+    DailyViews,
+    PropertyViewCount,
+    VisitData,
+    VisitRecordData,
+    ViewTotals
+} from '../domain/visit-types';
+import { VisitDataGateway } from './visit-data-gateway';
+
+const VISITOR_KEY = Prisma.sql`COALESCE(v."visitorId", host(v."ipAddress"))`;
+
+function transformFromPrisma(visit: PropertyVisit): VisitData {
+  return {
+    id: visit.id,
+    propertyId: visit.propertyId,
+    visitorId: visit.visitorId,
+    ipAddress: visit.ipAddress,
+    userAgent: visit.userAgent,
+    visitedAt: visit.visitedAt,
+  };
+}
+
+function buildRangeConditions(range: AnalyticsDateRange, propertyId?: PropertyId): Prisma.Sql {
+  const conditions = [
+    Prisma.sql`v."visitedAt" >= ${range.from}`,
+    Prisma.sql`v."visitedAt" < ${range.to}`,
+  ];
+  if (propertyId) {
+    conditions.push(Prisma.sql`v."propertyId" = ${propertyId}`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Prisma implementation of VisitDataGateway
+ */
+export class PrismaVisitGateway implements VisitDataGateway {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async create(data: VisitRecordData): Promise<VisitData> {
+    const visit = await this.prisma.propertyVisit.create({
+      data: {
+        propertyId: data.propertyId,
+        visitorId: data.visitorId,
+        ipAddress: data.ipAddress,
+        userAgent: data.userAgent,
+      },
+    });
+
+    return transformFromPrisma(visit);
+  }
+
+  async hasVisitSince(data: VisitRecordData, since: Date): Promise<boolean> {
+    const visitor: Prisma.PropertyVisitWhereInput = data.visitorId
+      ? { visitorId: data.visitorId }
+      : { visitorId: null, ipAddress: data.ipAddress };
+
+    const visit = await this.prisma.propertyVisit.findFirst({
+      where: { propertyId: data.propertyId, visitedAt: { gte: since }, ...visitor },
+      select: { id: true },
+    });
+
+    return visit !== null;
+  }
+
+  async propertyExists(propertyId: PropertyId): Promise<boolean> {
+    const property = await this.prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { id: true },
+    });
+
+    return property !== null;
+  }
+
+  async countViews(range: AnalyticsDateRange, propertyId?: PropertyId): Promise<ViewTotals> {
+    const query = Prisma.sql`
+      SELECT COUNT(*) AS views, COUNT(DISTINCT ${VISITOR_KEY}) AS "uniqueVisitors"
+      FROM "property_visits" v
+      WHERE ${buildRangeConditions(range, propertyId)}
+    `;
+    const rows = await this.prisma.$queryRaw<Array<{ views: bigint; uniqueVisitors: bigint }>>(query);
+
+    return {
+      views: Number(rows[0]?.views ?? 0),
+      uniqueVisitors: Number(rows[0]?.uniqueVisitors ?? 0),
+    };
+  }
+
+  async getViewsPerDay(range: AnalyticsDateRange, propertyId?: PropertyId): Promise<DailyViews[]> {
+    const query = Prisma.sql`
+      SELECT to_char(date_trunc('day', v."visitedAt"), 'YYYY-MM-DD') AS date,
+        COUNT(*) AS views,
+        COUNT(DISTINCT ${VISITOR_KEY}) AS "uniqueVisitors"
+      FROM "property_visits" v
+      WHERE ${buildRangeConditions(range, propertyId)}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+    const rows = await this.prisma.$queryRaw<Array<{ date: string; views: bigint; uniqueVisitors: bigint }>>(query);
+
+    return rows.map((row) => ({
+      date: row.date,
+      views: Number(row.views),
+      uniqueVisitors: Number(row.uniqueVisitors),
+    }));
+  }
+
+  async getTopProperties(range: AnalyticsDateRange, limit: number): Promise<PropertyViewCount[]> {
+    const query = Prisma.sql`
+      SELECT v."propertyId", p."title", COUNT(*) AS views, COUNT(DISTINCT ${VISITOR_KEY}) AS "uniqueVisitors"
+      FROM "property_visits" v
+      JOIN "properties" p ON p."id" = v."propertyId"
+      WHERE ${buildRangeConditions(range)}
+      GROUP BY v."propertyId", p."title"
+      ORDER BY views DESC, v."propertyId" ASC
+      LIMIT ${limit}
+    `;
+    const rows = await this.prisma.$queryRaw<Array<{
+      propertyId: string;
+      title: string;
+      views: bigint;
+      uniqueVisitors: bigint;
+    }>>(query);
+
+    return rows.map((row) => ({
+      propertyId: row.propertyId,
+      title: row.title,
+      views: Number(row.views),
+      uniqueVisitors: Number(row.uniqueVisitors),
+    }));
+  }
+}
+
+/**
+ * Factory function for PrismaVisitGateway
+ */
+export function createPrismaVisitGateway(prisma: PrismaClient): VisitDataGateway {
+  return new PrismaVisitGateway(prisma);
+}
@@ -0,0 +1,72 @@
+/**
+ * Project Data Gateway - Platform Abstraction Layer
+ *
+ * Isolates the project business logic from persistence details,
+ * the same way PropertyDataGateway does for properties.
+ */
+
+import { PropertyId } from '../domain/property-types';
+import {
+    PaginatedProjectData,
+    ProjectCreateData,
+    ProjectData,
+    ProjectFilterData,
+    ProjectId,
+    ProjectUpdateData
+} from '../domain/project-types';
+
+/**
+ * Core data access interface for projects
+ * Zero dependencies on external libraries or frameworks
+ */
+export interface ProjectDataGateway {
+  /**
+   * Create a new project
+   * @param data Project creation data
+   * @returns Created project with generated ID and timestamps
+   */
+  create(data: ProjectCreateData): Promise<ProjectData>;
+
+  /**
+   * Find project by ID
+   * @param id Project identifier
+   * @returns Project data or null if not found
+   */
+  findById(id: ProjectId): Promise<ProjectData | null>;
+
+  /**
+   * Find multiple projects with filters and pagination
+   * @param filters Filter, sort and pagination criteria
+   * @returns Paginated project results
+   */
+  findMany(filters: ProjectFilterData): Promise<PaginatedProjectData>;
+
+  /**
+   * Update existing project
+   * @param id Project identifier
+   * @param data Partial project update data
+   * @returns Updated project data
+   * @throws Error if project not found
+   */
+  update(id: ProjectId, data: ProjectUpdateData): Promise<ProjectData>;
+
+  /**
+   * Delete project
+   * @param id Project identifier
+   * @throws Error if project not found
+   */
+  delete(id: ProjectId): Promise<void>;
+
+  /**
+   * Find which of the given property IDs do not exist
+   * @param ids Property identifiers to check
+   * @returns IDs that have no matching property
+   */
+  findMissingPropertyIds(ids: PropertyId[]): Promise<PropertyId[]>;
+
+  /**
+   * Health check for data layer
+   * @returns true if data layer is accessible and functional
+   */
+  isHealthy(): Promise<boolean>;
+}
@@ -15,6 +15,8 @@
 
 import {
     PaginatedPropertyData,
+    PriceHistoryEntry,
+    PropertyChangeContext,
     PropertyCreateData,
     PropertyData,
     PropertyFilterData,
@@ -50,13 +52,21 @@ export interface PropertyDataGateway {
   findMany(filters: PropertyFilterData): Promise<PaginatedPropertyData>;
 
   /**
-   * Update existing property
+   * Update existing property, recording price changes in the price history
    * @param id Property identifier
    * @param data Partial property update data
+   * @param context Optional author and reason of the change
    * @returns Updated property data
    * @throws Error if property not found
    */
-  update(id: PropertyId, data: PropertyUpdateData): Promise<PropertyData>;
+  update(id: PropertyId, data: PropertyUpdateData, context?: PropertyChangeContext): Promise<PropertyData>;
+
+  /**
+   * Get the price changes of a property
+   * @param id Property identifier
+   * @returns Price history entries, oldest first
+   */
+  getPriceHistory(id: PropertyId): Promise<PriceHistoryEntry[]>;
 
   /**
    * Delete property
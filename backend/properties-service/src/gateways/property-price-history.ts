@@ -0,0 +1,76 @@
+/**
+ * Property Price History
+ *
+ * Price changes are written together with a PriceHistory row in a single
+ * transaction. Reductions are also denormalized on the property
+ * (`previousPrice`, `priceReducedAt`) so the "recently reduced" listing
+ * filter is a plain indexed lookup.
+ */
+
+import { PriceHistory, Prisma, PrismaClient, Property } from '@prisma/client';
+import { PropertyChangeContext } from '../domain/property-types';
+
+/**
+ * Updates a property; when `data.price` differs from the stored price the
+ * change is recorded in the price history
+ * @throws Prisma P2025 if the property does not exist
+ */
+export async function updatePropertyTrackingPrice(
+  prisma: PrismaClient,
+  id: string,
+  data: Record<string, any>,
+  context: PropertyChangeContext = {}
+): Promise<Property> {
+  if (data.price === undefined) {
+    return prisma.property.update({ where: { id }, data });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.property.findUnique({ where: { id }, select: { price: true } });
+    const newPrice = new Prisma.Decimal(data.price);
+
+    if (!current || current.price.equals(newPrice)) {
+      return tx.property.update({ where: { id }, data });
+    }
+
+    const reduced = newPrice.lessThan(current.price);
+    const property = await tx.property.update({
+      where: { id },
+      data: {
+        ...data,
+        // An increase clears the reduction markers
+        previousPrice: reduced ? current.price : null,
+        priceReducedAt: reduced ? new Date() : null,
+      },
+    });
+
+    await tx.priceHistory.create({
+      data: {
+        propertyId: id,
+        oldPrice: current.price,
+        newPrice,
+        reason: context.reason ?? null,
+        changedBy: context.changedBy ?? null,
+      },
+    });
+
+    return property;
+  });
+}
+
+/**
+ * Price changes of a property, oldest first
+ */
+export async function findPriceHistory(prisma: PrismaClient, propertyId: string): Promise<PriceHistory[]> {
+  return prisma.priceHistory.findMany({
+    where: { propertyId },
+    orderBy: { changedAt: 'asc' },
+  });
+}
+
+/**
+ * Lower bound of `priceReducedAt` for the "recently reduced" filter
+ */
+export function reducedSince(days: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,90 @@
+/**
+ * Report Data Gateway - Platform Abstraction Layer
+ *
+ * Isolates the management report aggregations from persistence details and
+ * from the services that own searches, sign-ups and leads.
+ */
+
+import {
+    DaysOnMarket,
+    LocationPricePerSqm,
+    PeriodCount,
+    RegionSearchCount,
+    ReportGranularity,
+    StatusCount,
+    TypeCount
+} from '../domain/report-types';
+import { AnalyticsDateRange } from '../domain/visit-types';
+
+/**
+ * Core data access interface for listing aggregations
+ * Zero dependencies on external libraries or frameworks
+ */
+export interface ReportDataGateway {
+  /**
+   * Count all listings by type
+   */
+  countByType(): Promise<TypeCount[]>;
+
+  /**
+   * Count all listings by status
+   */
+  countByStatus(): Promise<StatusCount[]>;
+
+  /**
+   * Listings created per period; periods without listings are omitted
+   * @param range Date range
+   * @param granularity Period length
+   */
+  countNewPropertiesPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]>;
+
+  /**
+   * Listing views per period; periods without views are omitted
+   * @param range Date range
+   * @param granularity Period length
+   */
+  countViewsPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]>;
+
+  /**
+   * Days from creation to closing for listings sold or rented within the range
+   * @param range Date range (closing date)
+   */
+  getDaysOnMarket(range: AnalyticsDateRange): Promise<DaysOnMarket>;
+
+  /**
+   * Average asking price per m² of published listings for sale, by location
+   * @param limit Maximum number of locations
+   * @returns Locations ordered by number of listings, largest first
+   */
+  getPricePerSqmByLocation(limit: number): Promise<LocationPricePerSqm[]>;
+}
+
+/**
+ * Source of searches and sign-ups (users-service)
+ */
+export interface UserStatsGateway {
+  /**
+   * Most searched locations
+   * @param range Date range
+   * @param limit Maximum number of regions
+   * @throws Error if the source is unavailable
+   */
+  getTopSearchedRegions(range: AnalyticsDateRange, limit: number): Promise<RegionSearchCount[]>;
+
+  /**
+   * New user profiles per period
+   * @throws Error if the source is unavailable
+   */
+  countNewUsersPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]>;
+}
+
+/**
+ * Source of leads (contact messages, messages-service)
+ */
+export interface LeadStatsGateway {
+  /**
+   * Contact messages received per period
+   * @throws Error if the source is unavailable
+   */
+  countLeadsPerPeriod(range: AnalyticsDateRange, granularity: ReportGranularity): Promise<PeriodCount[]>;
+}
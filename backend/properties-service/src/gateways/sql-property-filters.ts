@@ -0,0 +1,72 @@
+/**
+ * SQL Property Filters
+ *
+ * Attribute filters as raw SQL fragments, for the searches that cannot go
+ * through the Prisma query builder (PostGIS and full-text search). Mirrors
+ * buildWhereClause; the properties table is always aliased as `p`.
+ */
+
+import { Prisma } from '@prisma/client';
+import { PropertyFilterData } from '../domain/property-types';
+import { reducedSince } from './property-price-history';
+
+/**
+ * Text search configuration created by the add_property_search_vector
+ * migration: Portuguese stemming on top of unaccent
+ */
+export const TEXT_SEARCH_CONFIG = 'portuguese_unaccent';
+
+/**
+ * Domain filters with status/type widened to strings, so the live API
+ * filters (full Prisma enums) can be passed as well
+ */
+export type SqlPropertyFilters = Omit<PropertyFilterData, 'status' | 'type'> & {
+  status?: string;
+  type?: string;
+};
+
+/**
+ * Parses user input (quotes, OR, -exclusions) into a tsquery
+ */
+export function textSearchQuery(textQuery: string): Prisma.Sql {
+  return Prisma.sql`websearch_to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${textQuery})`;
+}
+
+export function buildAttributeConditions(filters: SqlPropertyFilters): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.status) conditions.push(Prisma.sql`p."status"::text = ${filters.status}`);
+  if (filters.type) conditions.push(Prisma.sql`p."type"::text = ${filters.type}`);
+  if (filters.location) conditions.push(Prisma.sql`p."location" ILIKE ${`%${filters.location}%`}`);
+
+  if (filters.minPrice) conditions.push(Prisma.sql`p."price" >= ${filters.minPrice}`);
+  if (filters.maxPrice) conditions.push(Prisma.sql`p."price" <= ${filters.maxPrice}`);
+  if (filters.minBedrooms) conditions.push(Prisma.sql`p."bedrooms" >= ${filters.minBedrooms}`);
+  if (filters.maxBedrooms) conditions.push(Prisma.sql`p."bedrooms" <= ${filters.maxBedrooms}`);
+  if (filters.minBathrooms) conditions.push(Prisma.sql`p."bathrooms" >= ${filters.minBathrooms}`);
+  if (filters.maxBathrooms) conditions.push(Prisma.sql`p."bathrooms" <= ${filters.maxBathrooms}`);
+  if (filters.minArea) conditions.push(Prisma.sql`p."area" >= ${filters.minArea}`);
+  if (filters.maxArea) conditions.push(Prisma.sql`p."area" <= ${filters.maxArea}`);
+  if (filters.minYearBuilt) conditions.push(Prisma.sql`p."yearBuilt" >= ${filters.minYearBuilt}`);
+  if (filters.maxYearBuilt) conditions.push(Prisma.sql`p."yearBuilt" <= ${filters.maxYearBuilt}`);
+
+  if (filters.features && filters.features.length > 0) {
+    conditions.push(Prisma.sql`p."features" && ${filters.features}::text[]`);
+  }
+
+  if (filters.recentlyReduced) {
+    conditions.push(Prisma.sql`p."priceReducedAt" >= ${reducedSince(filters.reducedWithinDays ?? 30)}`);
+  }
+
+  if (filters.textQuery) {
+    conditions.push(Prisma.sql`p."searchVector" @@ ${textSearchQuery(filters.textQuery)}`);
+  }
+
+  if (filters.visibility && !filters.visibility.allDrafts) {
+    conditions.push(filters.visibility.userId
+      ? Prisma.sql`(p."adminStatus" = 'ACTIVE' OR p."ownerId" = ${filters.visibility.userId} OR p."agentId" = ${filters.visibility.userId})`
+      : Prisma.sql`p."adminStatus" = 'ACTIVE'`);
+  }
+
+  return conditions;
+}
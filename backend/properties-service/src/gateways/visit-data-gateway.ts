@@ -0,0 +1,78 @@
+/**
+ * Visit Data Gateway - Platform Abstraction Layer
+ *
+ * Isolates visit tracking and view aggregation from persistence details,
+ * the same way PropertyDataGateway does for properties.
+ */
+
+import { PropertyId } from '../domain/property-types';
+import {
+    AnalyticsDateRange,
+    ContactCounts,
+    DailyViews,
+    PropertyViewCount,
+    VisitData,
+    VisitRecordData,
+    ViewTotals
+} from '../domain/visit-types';
+
+/**
+ * Core data access interface for property visits
+ * Zero dependencies on external libraries or frameworks
+ */
+export interface VisitDataGateway {
+  /**
+   * Store a visit
+   * @param data Visited property and visitor identity
+   * @returns Stored visit with generated ID and timestamp
+   */
+  create(data: VisitRecordData): Promise<VisitData>;
+
+  /**
+   * Check whether the same visitor already viewed the property
+   * @param data Property and visitor (user ID if known, otherwise IP address)
+   * @param since Start of the deduplication window
+   */
+  hasVisitSince(data: VisitRecordData, since: Date): Promise<boolean>;
+
+  /**
+   * Check whether a property exists
+   * @param propertyId Property identifier
+   */
+  propertyExists(propertyId: PropertyId): Promise<boolean>;
+
+  /**
+   * Count views and unique visitors
+   * @param range Date range
+   * @param propertyId Restrict to one property (all properties if omitted)
+   */
+  countViews(range: AnalyticsDateRange, propertyId?: PropertyId): Promise<ViewTotals>;
+
+  /**
+   * Views and unique visitors per UTC day; days without views are omitted
+   * @param range Date range
+   * @param propertyId Restrict to one property (all properties if omitted)
+   */
+  getViewsPerDay(range: AnalyticsDateRange, propertyId?: PropertyId): Promise<DailyViews[]>;
+
+  /**
+   * Most viewed properties
+   * @param range Date range
+   * @param limit Maximum number of properties
+   * @returns Properties ordered by views, most viewed first
+   */
+  getTopProperties(range: AnalyticsDateRange, limit: number): Promise<PropertyViewCount[]>;
+}
+
+/**
+ * Source of contact messages per property (messages-service)
+ */
+export interface ContactStatsGateway {
+  /**
+   * Count contact messages that reference a property
+   * @param range Date range
+   * @returns Contacts per property ID (properties without contacts are omitted)
+   * @throws Error if the source is unavailable
+   */
+  countContactsByProperty(range: AnalyticsDateRange): Promise<ContactCounts>;
+}
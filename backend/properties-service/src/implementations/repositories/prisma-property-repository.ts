@@ -1,13 +1,28 @@
 import { Prisma } from '@prisma/client';
+import { moderationStatusFor } from '../../core/moderation-core';
+import { countPropertiesSpatially, InvalidSpatialCursorError, searchPropertiesSpatially } from '../../gateways/postgis-property-search';
+import { FavoriteStats } from '../../domain/favorite-types';
+import { PriceHistoryEntry, PropertyAssignment, PropertyChangeContext } from '../../domain/property-types';
+import { countPropertiesByText, searchPropertiesByText } from '../../gateways/postgres-property-text-search';
+import { createPrismaFavoriteGateway } from '../../gateways/prisma-favorite-gateway';
+import { findPriceHistory, reducedSince, updatePropertyTrackingPrice } from '../../gateways/property-price-history';
 import { IPropertyRepository } from '../../interfaces';
-import { PropertyCreateInput, PropertyFilters, PropertyResponse, PropertyUpdateInput } from '../../types/property';
+import { PaginatedResponse, ValidationError } from '../../types/common';
+import {
+    PropertyChangeResponse,
+    PropertyCreateInput,
+    PropertyFilters,
+    PropertyResponse,
+    PropertySpatialFilters,
+    PropertyUpdateInput
+} from '../../types/property';
 import { repositoryLogger } from '../../utils/logger';
-import { calculateDistance, transformPropertyFromDb } from '../../utils/transform';
+import { transformPropertyFromDb } from '../../utils/transform';
 
 export class PrismaPropertyRepository implements IPropertyRepository {
   constructor(private prisma: any) {}
 
-  async create(data: PropertyCreateInput): Promise<PropertyResponse> {
+  async create(data: PropertyCreateInput, assignment?: PropertyAssignment): Promise<PropertyResponse> {
     const startTime = Date.now();
     
     try {
@@ -19,6 +34,9 @@ export class PrismaPropertyRepository implements IPropertyRepository {
           price: new Prisma.Decimal(data.price),
           status: data.status,
           adminStatus: data.adminStatus, 
+          moderationStatus: data.adminStatus ? moderationStatusFor(data.adminStatus) : undefined,
+          // Listings created public (admins, or the ACTIVE default) are published right away
+          publishedAt: (data.adminStatus ?? 'ACTIVE') === 'ACTIVE' ? new Date() : null,
           type: data.type,
           imageUrl: data.imageUrl,
           description: data.description,
@@ -30,6 +48,8 @@ export class PrismaPropertyRepository implements IPropertyRepository {
           features: data.features,
           contactPhone: data.contactPhone,
           contactEmail: data.contactEmail,
+          ownerId: assignment?.ownerId ?? null,
+          agentId: assignment?.agentId ?? null,
         } as any,
       });
       
@@ -68,18 +88,23 @@ export class PrismaPropertyRepository implements IPropertyRepository {
       const where = this.buildWhereClause(filters);
       const orderBy = this.buildOrderByClause(filters.sortBy, filters.sortOrder);
       
-      let properties;
-      
       if (filters.nearbySearch) {
-        properties = await this.findNearby(filters);
-      } else {
-        properties = await this.prisma.property.findMany({
-          where,
-          orderBy,
-          take: filters.limit,
-          ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
-        });
+        // Property IDs are not valid keyset cursors for distance ordering
+        const { cursor, sortBy, sortOrder, ...spatialFilters } = filters;
+        const result = await this.findSpatial(spatialFilters);
+        return result.data;
+      }
+
+      if (filters.q) {
+        return await this.findByText({ ...filters, q: filters.q });
       }
+
+      const properties = await this.prisma.property.findMany({
+        where,
+        orderBy,
+        take: filters.limit,
+        ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+      });
       
       const duration = Date.now() - startTime;
       repositoryLogger.debug({ 
@@ -97,7 +122,7 @@ export class PrismaPropertyRepository implements IPropertyRepository {
     }
   }
 
-  async update(id: string, data: PropertyUpdateInput): Promise<PropertyResponse> {
+  async update(id: string, data: PropertyUpdateInput, context?: PropertyChangeContext): Promise<PropertyResponse> {
     const startTime = Date.now();
     
     try {
@@ -111,7 +136,13 @@ export class PrismaPropertyRepository implements IPropertyRepository {
       if (data.location !== undefined) updateData.location = data.location;
       if (data.price !== undefined) updateData.price = new Prisma.Decimal(data.price);
       if (data.status !== undefined) updateData.status = data.status;
-      if (data.adminStatus !== undefined) updateData.adminStatus = data.adminStatus;
+      if (data.adminStatus !== undefined) {
+        // Direct override by an administrator: PENDING puts the listing back in the review queue
+        updateData.adminStatus = data.adminStatus;
+        updateData.moderationStatus = moderationStatusFor(data.adminStatus, 'SUBMITTED');
+        if (data.adminStatus === 'PENDING') updateData.submittedAt = new Date();
+        if (data.adminStatus === 'ACTIVE' && !(await this.isActive(id))) updateData.publishedAt = new Date();
+      }
       if (data.type !== undefined) updateData.type = data.type;
       if (data.imageUrl !== undefined) updateData.imageUrl = data.imageUrl;
       if (data.description !== undefined) updateData.description = data.description;
@@ -126,10 +157,7 @@ export class PrismaPropertyRepository implements IPropertyRepository {
       
       console.log('🔧 PrismaPropertyRepository.update updateData:', updateData);
       
-      const property = await this.prisma.property.update({
-        where: { id },
-        data: updateData,
-      });
+      const property = await updatePropertyTrackingPrice(this.prisma, id, updateData, context);
       
       console.log('🔧 PrismaPropertyRepository.update result:', { id: property.id, adminStatus: property.adminStatus });
       
@@ -144,6 +172,118 @@ export class PrismaPropertyRepository implements IPropertyRepository {
     }
   }
 
+  private async isActive(id: string): Promise<boolean> {
+    const current = await this.prisma.property.findUnique({ where: { id }, select: { adminStatus: true } });
+    return current?.adminStatus === 'ACTIVE';
+  }
+
+  async findAssignment(id: string): Promise<(PropertyAssignment & { adminStatus: string }) | null> {
+    try {
+      return await this.prisma.property.findUnique({
+        where: { id },
+        select: { ownerId: true, agentId: true, adminStatus: true },
+      });
+    } catch (error) {
+      repositoryLogger.error({ error, operation: 'findAssignment', id }, 'Failed to find property assignment');
+      throw error;
+    }
+  }
+
+  async updateAssignment(id: string, assignment: Partial<PropertyAssignment>): Promise<PropertyAssignment> {
+    try {
+      const property = await this.prisma.property.update({
+        where: { id },
+        data: assignment,
+        select: { ownerId: true, agentId: true },
+      });
+
+      repositoryLogger.debug({ operation: 'updateAssignment', table: 'property', id, assignment }, 'Property assignment updated');
+      return property;
+    } catch (error) {
+      repositoryLogger.error({ error, operation: 'updateAssignment', id }, 'Failed to update property assignment');
+      throw error;
+    }
+  }
+
+  async reassignAgent(fromAgentId: string, toAgentId: string | null): Promise<number> {
+    try {
+      const { count } = await this.prisma.property.updateMany({
+        where: { agentId: fromAgentId },
+        data: { agentId: toAgentId },
+      });
+
+      repositoryLogger.debug({ operation: 'reassignAgent', table: 'property', fromAgentId, toAgentId, count }, 'Properties reassigned');
+      return count;
+    } catch (error) {
+      repositoryLogger.error({ error, operation: 'reassignAgent', fromAgentId }, 'Failed to reassign properties');
+      throw error;
+    }
+  }
+
+  async findPriceHistory(propertyId: string): Promise<PriceHistoryEntry[]> {
+    const startTime = Date.now();
+
+    try {
+      const history = await findPriceHistory(this.prisma, propertyId);
+
+      const duration = Date.now() - startTime;
+      repositoryLogger.debug({ operation: 'findPriceHistory', table: 'price_history', duration, propertyId }, 'Price history found');
+
+      return history.map((entry: any) => ({
+        id: entry.id,
+        propertyId: entry.propertyId,
+        oldPrice: entry.oldPrice !== null ? Number(entry.oldPrice) : null,
+        newPrice: Number(entry.newPrice),
+        reason: entry.reason,
+        changedBy: entry.changedBy,
+        changedAt: entry.changedAt,
+      }));
+    } catch (error) {
+      repositoryLogger.error({ error, operation: 'findPriceHistory', propertyId }, 'Failed to find price history');
+      throw error;
+    }
+  }
+
+  async findFavoriteStats(propertyIds: string[], userId?: string): Promise<FavoriteStats> {
+    try {
+      return await createPrismaFavoriteGateway(this.prisma).getStats(propertyIds, userId);
+    } catch (error) {
+      repositoryLogger.error({ error, operation: 'findFavoriteStats', count: propertyIds.length }, 'Failed to find favorite stats');
+      throw error;
+    }
+  }
+
+  // A listing created in the window counts as new even if it was also reduced
+  async findChanges(range: { since: Date; until: Date }, limit: number, cursor?: string): Promise<PropertyChangeResponse[]> {
+    const startTime = Date.now();
+    const window = { gte: range.since, lt: range.until };
+
+    try {
+      const properties = await this.prisma.property.findMany({
+        where: {
+          adminStatus: 'ACTIVE',
+          // "New" counts from publication: moderated listings are created long before they go public
+          OR: [{ publishedAt: window }, { priceReducedAt: window }],
+        },
+        orderBy: { id: 'asc' },
+        take: limit,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      const duration = Date.now() - startTime;
+      repositoryLogger.debug({ operation: 'findChanges', table: 'property', duration, count: properties.length }, 'Property changes found');
+
+      return properties.map((property: any) => ({
+        ...transformPropertyFromDb(property),
+        changeType: property.publishedAt >= range.since && property.publishedAt < range.until ? 'new' : 'price_drop',
+      }));
+    } catch (error) {
+      repositoryLogger.error({ error, operation: 'findChanges', range }, 'Failed to find property changes');
+      throw error;
+    }
+  }
+
+  // Favorites go with the property (ON DELETE CASCADE)
   async delete(id: string): Promise<void> {
     const startTime = Date.now();
     
@@ -162,6 +302,11 @@ export class PrismaPropertyRepository implements IPropertyRepository {
 
   async count(filters?: Partial<PropertyFilters>): Promise<number> {
     try {
+      if (filters?.q) {
+        const { q, ...rest } = filters;
+        return await countPropertiesByText(this.prisma, { ...rest, textQuery: q });
+      }
+
       const where = this.buildWhereClause(filters || {});
       return await this.prisma.property.count({ where });
     } catch (error) {
@@ -170,37 +315,79 @@ export class PrismaPropertyRepository implements IPropertyRepository {
     }
   }
 
-  async findNearby(filters: PropertyFilters): Promise<PropertyResponse[]> {
-    if (!filters.nearbySearch) {
-      throw new Error('Nearby search requires coordinates');
+  async findSpatial(filters: PropertySpatialFilters): Promise<PaginatedResponse<PropertyResponse>> {
+    const startTime = Date.now();
+    const { q, ...rest } = filters;
+    const domainFilters = { ...rest, textQuery: q };
+
+    try {
+      const page = await searchPropertiesSpatially(this.prisma, domainFilters, filters.limit);
+
+      const rows = page.hits.length > 0
+        ? await this.prisma.property.findMany({ where: { id: { in: page.hits.map(hit => hit.id) } } })
+        : [];
+      const rowsById = new Map<string, any>(rows.map((row: any) => [row.id, row]));
+
+      // Keep the distance order from PostGIS
+      const data = page.hits
+        .filter(hit => rowsById.has(hit.id))
+        .map(hit => ({ ...transformPropertyFromDb(rowsById.get(hit.id)), distanceKm: hit.distanceKm }));
+
+      let totalEstimate: number | undefined;
+      if (!filters.cursor && data.length > 0) {
+        try {
+          totalEstimate = await countPropertiesSpatially(this.prisma, domainFilters);
+        } catch {
+          totalEstimate = undefined;
+        }
+      }
+
+      const duration = Date.now() - startTime;
+      repositoryLogger.debug({ operation: 'findSpatial', table: 'property', duration, count: data.length }, 'Spatial search completed');
+
+      return {
+        data,
+        pagination: {
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
+          limit: filters.limit,
+          totalEstimate,
+        },
+      };
+    } catch (error) {
+      if (error instanceof InvalidSpatialCursorError) {
+        throw new ValidationError(error.message, { field: 'cursor' });
+      }
+      repositoryLogger.error({ error, operation: 'findSpatial', filters }, 'Failed to run spatial search');
+      throw error;
     }
+  }
 
-    const { latitude, longitude, radiusKm } = filters.nearbySearch;
-    
-    // Get all properties with coordinates first
-    const properties = await this.prisma.property.findMany({
-      where: {
-        coordinates: { not: null },
-      },
-      take: filters.limit,
-    });
-
-    // Filter by distance
-    const nearbyProperties = properties
-      .map((property: any) => ({
-        ...property,
-        distance: calculateDistance(
-          latitude,
-          longitude,
-          property.coordinates.latitude,
-          property.coordinates.longitude
-        ),
-      }))
-      .filter((property: any) => property.distance <= radiusKm)
-      .sort((a: any, b: any) => a.distance - b.distance)
-      .slice(0, filters.limit);
-
-    return nearbyProperties.map(transformPropertyFromDb);
+  // Full-text search (Portuguese stemming, accent-insensitive), ordered by relevance or sortBy
+  private async findByText(filters: PropertyFilters & { q: string }): Promise<PropertyResponse[]> {
+    const startTime = Date.now();
+    const { q, ...rest } = filters;
+
+    const page = await searchPropertiesByText(this.prisma, { ...rest, textQuery: q }, filters.limit);
+
+    const rows = page.hits.length > 0
+      ? await this.prisma.property.findMany({ where: { id: { in: page.hits.map(hit => hit.id) } } })
+      : [];
+    const rowsById = new Map<string, any>(rows.map((row: any) => [row.id, row]));
+
+    // Keep the order from the search query
+    const data = page.hits
+      .filter(hit => rowsById.has(hit.id))
+      .map(hit => ({
+        ...transformPropertyFromDb(rowsById.get(hit.id)),
+        relevance: hit.relevance,
+        highlight: hit.highlight,
+      }));
+
+    const duration = Date.now() - startTime;
+    repositoryLogger.debug({ operation: 'findByText', table: 'property', duration, count: data.length }, 'Text search completed');
+
+    return data;
   }
 
   private buildWhereClause(filters: Partial<PropertyFilters>) {
@@ -239,13 +426,18 @@ export class PrismaPropertyRepository implements IPropertyRepository {
     if (filters.features && filters.features.length > 0) {
       where.features = { hasSome: filters.features };
     }
-    if (filters.q) {
+    if (filters.recentlyReduced) {
+      where.priceReducedAt = { gte: reducedSince(filters.reducedWithinDays ?? 30) };
+    }
+    if (filters.visibility && !filters.visibility.allDrafts) {
       where.OR = [
-        { title: { contains: filters.q, mode: 'insensitive' } },
-        { description: { contains: filters.q, mode: 'insensitive' } },
-        { location: { contains: filters.q, mode: 'insensitive' } },
+        { adminStatus: 'ACTIVE' },
+        ...(filters.visibility.userId
+          ? [{ ownerId: filters.visibility.userId }, { agentId: filters.visibility.userId }]
+          : []),
       ];
     }
+    // q is handled by the full-text search (see findByText)
 
     return where;
   }
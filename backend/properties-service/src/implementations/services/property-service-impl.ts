@@ -1,6 +1,17 @@
+import { getModuleSettings } from '../../config/module-settings';
+import { PropertyAssignment, PropertyVisibility } from '../../domain/property-types';
 import { IEventBus, IMediaService, IPropertyRepository } from '../../interfaces';
 import { NotFoundError, PaginatedResponse, ValidationError } from '../../types/common';
-import { PropertyCreateInput, PropertyFilters, PropertyResponse, PropertyUpdateInput } from '../../types/property';
+import {
+    PriceHistoryEntryResponse,
+    PropertyChangeResponse,
+    PropertyChangesQuery,
+    PropertyCreateInput,
+    PropertyFilters,
+    PropertyResponse,
+    PropertySpatialFilters,
+    PropertyUpdateInput
+} from '../../types/property';
 import { serviceLogger } from '../../utils/logger';
 import {
     validateAreaRange,
@@ -18,14 +29,14 @@ export class PropertyServiceImpl {
     private eventBus: IEventBus
   ) {}
 
-  async createProperty(data: PropertyCreateInput): Promise<PropertyResponse> {
+  async createProperty(data: PropertyCreateInput, assignment?: PropertyAssignment): Promise<PropertyResponse> {
     serviceLogger.info({ operation: 'createProperty', data: { title: data.title } }, 'Creating property');
     
     try {
       // Additional business validations
       await this.validateBusinessRules(data);
       
-      const property = await this.propertyRepository.create(data);
+      const property = await this.propertyRepository.create(data, assignment);
       
       // Publish event for other services
       await this.eventBus.publish('property.created', property);
@@ -43,7 +54,7 @@ export class PropertyServiceImpl {
     }
   }
 
-  async getPropertyById(id: string): Promise<PropertyResponse> {
+  async getPropertyById(id: string, viewerId?: string): Promise<PropertyResponse> {
     serviceLogger.debug({ operation: 'getPropertyById', id }, 'Fetching property by ID');
     
     try {
@@ -59,14 +70,15 @@ export class PropertyServiceImpl {
         found: true 
       }, 'Property found');
       
-      return property;
+      const [withFavorites] = await this.withFavorites([property], viewerId);
+      return withFavorites;
     } catch (error) {
       serviceLogger.error({ error, operation: 'getPropertyById', id }, 'Failed to get property by ID');
       throw error;
     }
   }
 
-  async getProperties(filters: PropertyFilters): Promise<PaginatedResponse<PropertyResponse>> {
+  async getProperties(filters: PropertyFilters, viewerId?: string): Promise<PaginatedResponse<PropertyResponse>> {
     serviceLogger.info({ operation: 'getProperties', filters }, 'Fetching properties with filters');
     
     try {
@@ -100,7 +112,7 @@ export class PropertyServiceImpl {
       }
       
       const result: PaginatedResponse<PropertyResponse> = {
-        data: properties,
+        data: await this.withFavorites(properties, viewerId),
         pagination: {
           nextCursor,
           hasMore,
@@ -123,7 +135,7 @@ export class PropertyServiceImpl {
     }
   }
 
-  async updateProperty(id: string, data: PropertyUpdateInput): Promise<PropertyResponse> {
+  async updateProperty(id: string, data: PropertyUpdateInput, changedBy?: string): Promise<PropertyResponse> {
     serviceLogger.info({ operation: 'updateProperty', id, data: { title: data.title } }, 'Updating property');
     
     try {
@@ -138,7 +150,10 @@ export class PropertyServiceImpl {
         await this.validateBusinessRules({ ...existingProperty, ...data } as PropertyCreateInput);
       }
       
-      const updatedProperty = await this.propertyRepository.update(id, data);
+      const updatedProperty = await this.propertyRepository.update(id, data, {
+        changedBy,
+        reason: data.priceChangeReason,
+      });
       
       // Publish event for other services
       await this.eventBus.publish('property.updated', updatedProperty);
@@ -187,6 +202,43 @@ export class PropertyServiceImpl {
     }
   }
 
+  async getPropertyAssignment(id: string): Promise<PropertyAssignment & { adminStatus: string }> {
+    const assignment = await this.propertyRepository.findAssignment(id);
+    if (!assignment) {
+      throw new NotFoundError('Property', id);
+    }
+    return assignment;
+  }
+
+  async assignProperty(id: string, assignment: Partial<PropertyAssignment>): Promise<PropertyAssignment> {
+    serviceLogger.info({ operation: 'assignProperty', id, assignment }, 'Reassigning property');
+
+    try {
+      await this.getPropertyAssignment(id);
+      const updated = await this.propertyRepository.updateAssignment(id, assignment);
+
+      await this.eventBus.publish('property.assigned', { id, ...updated });
+      return updated;
+    } catch (error) {
+      serviceLogger.error({ error, operation: 'assignProperty', id }, 'Failed to reassign property');
+      throw error;
+    }
+  }
+
+  async reassignAgentProperties(fromAgentId: string, toAgentId: string | null): Promise<number> {
+    serviceLogger.info({ operation: 'reassignAgentProperties', fromAgentId, toAgentId }, 'Reassigning agent properties');
+
+    try {
+      const count = await this.propertyRepository.reassignAgent(fromAgentId, toAgentId);
+
+      await this.eventBus.publish('property.agent_reassigned', { fromAgentId, toAgentId, count });
+      return count;
+    } catch (error) {
+      serviceLogger.error({ error, operation: 'reassignAgentProperties', fromAgentId }, 'Failed to reassign agent properties');
+      throw error;
+    }
+  }
+
   async getPropertiesStats(): Promise<any> {
     serviceLogger.info({ operation: 'getPropertiesStats' }, 'Fetching properties statistics');
     
@@ -223,15 +275,16 @@ export class PropertyServiceImpl {
     }
   }
 
-  async searchProperties(query: string, limit: number = 20): Promise<any> {
+  async searchProperties(query: string, limit: number = 20, visibility?: PropertyVisibility): Promise<any> {
     serviceLogger.info({ operation: 'searchProperties', query, limit }, 'Searching properties');
     
     try {
       const properties = await this.propertyRepository.findMany({
         q: query,
         limit,
-        sortBy: 'createdAt',
+        sortBy: 'relevance',
         sortOrder: 'desc',
+        visibility,
       });
       
       const result = {
@@ -254,7 +307,7 @@ export class PropertyServiceImpl {
     }
   }
 
-  async getNearbyProperties(lat: number, lng: number, radius: number = 5, limit: number = 20): Promise<any> {
+  async getNearbyProperties(lat: number, lng: number, radius: number = getModuleSettings().defaultSearchRadius, limit: number = 20, cursor?: string, visibility?: PropertyVisibility): Promise<any> {
     serviceLogger.info({ 
       operation: 'getNearbyProperties', 
       coordinates: { lat, lng }, 
@@ -263,18 +316,21 @@ export class PropertyServiceImpl {
     }, 'Finding nearby properties');
     
     try {
-      const properties = await this.propertyRepository.findNearby({
+      this.validateSearchRadius(radius);
+      
+      const { data, pagination } = await this.propertyRepository.findSpatial({
         nearbySearch: { latitude: lat, longitude: lng, radiusKm: radius },
         limit,
-        sortBy: 'createdAt',
-        sortOrder: 'desc',
+        cursor,
+        visibility,
       });
       
       const result = {
-        data: properties,
+        data,
         location: { latitude: lat, longitude: lng },
         radiusKm: radius,
-        count: properties.length,
+        count: data.length,
+        pagination,
         timestamp: new Date().toISOString(),
       };
       
@@ -295,6 +351,108 @@ export class PropertyServiceImpl {
     }
   }
 
+  async getPropertiesInArea(filters: PropertySpatialFilters): Promise<any> {
+    serviceLogger.info({ 
+      operation: 'getPropertiesInArea', 
+      boundingBox: filters.boundingBox,
+      polygonVertices: filters.polygon?.length,
+      limit: filters.limit 
+    }, 'Finding properties in area');
+    
+    try {
+      const { data, pagination } = await this.propertyRepository.findSpatial(filters);
+      
+      const result = {
+        data,
+        count: data.length,
+        pagination,
+        timestamp: new Date().toISOString(),
+      };
+      
+      serviceLogger.info({ 
+        operation: 'getPropertiesInArea', 
+        count: result.count 
+      }, 'Area search completed successfully');
+      
+      return result;
+    } catch (error) {
+      serviceLogger.error({ error, operation: 'getPropertiesInArea' }, 'Failed to find properties in area');
+      throw error;
+    }
+  }
+
+  async getPriceHistory(id: string): Promise<{ propertyId: string; currentPrice: number; history: PriceHistoryEntryResponse[] }> {
+    serviceLogger.info({ operation: 'getPriceHistory', id }, 'Fetching price history');
+    
+    try {
+      const property = await this.propertyRepository.findById(id);
+      if (!property) {
+        throw new NotFoundError('Property', id);
+      }
+      
+      const entries = await this.propertyRepository.findPriceHistory(id);
+      const history = entries.map(entry => {
+        const change = entry.oldPrice !== null ? entry.newPrice - entry.oldPrice : null;
+        
+        return {
+          id: entry.id,
+          oldPrice: entry.oldPrice,
+          newPrice: entry.newPrice,
+          change,
+          changePercent: change !== null && entry.oldPrice
+            ? Math.round((change / entry.oldPrice) * 10000) / 100
+            : null,
+          reason: entry.reason,
+          changedBy: entry.changedBy,
+          changedAt: entry.changedAt,
+        };
+      });
+      
+      return { propertyId: id, currentPrice: property.price, history };
+    } catch (error) {
+      serviceLogger.error({ error, operation: 'getPriceHistory', id }, 'Failed to get price history');
+      throw error;
+    }
+  }
+
+  async getPropertyChanges(query: PropertyChangesQuery): Promise<PaginatedResponse<PropertyChangeResponse>> {
+    const until = query.until ?? new Date();
+    serviceLogger.info({ operation: 'getPropertyChanges', since: query.since, until }, 'Fetching property changes');
+    
+    try {
+      // Fetch one extra to determine if there are more results
+      const changes = await this.propertyRepository.findChanges({ since: query.since, until }, query.limit + 1, query.cursor);
+      
+      const hasMore = changes.length > query.limit;
+      if (hasMore) {
+        changes.pop();
+      }
+      
+      return {
+        data: changes,
+        pagination: {
+          nextCursor: hasMore ? changes[changes.length - 1].id : null,
+          hasMore,
+          limit: query.limit,
+        },
+      };
+    } catch (error) {
+      serviceLogger.error({ error, operation: 'getPropertyChanges' }, 'Failed to get property changes');
+      throw error;
+    }
+  }
+
+  // Adds favorite counts, and the viewer's own favorites when logged in
+  private async withFavorites(properties: PropertyResponse[], viewerId?: string): Promise<PropertyResponse[]> {
+    const stats = await this.propertyRepository.findFavoriteStats(properties.map(p => p.id), viewerId);
+    
+    return properties.map(property => ({
+      ...property,
+      favoriteCount: stats.counts.get(property.id) ?? 0,
+      ...(viewerId ? { isFavorite: stats.favoritedIds.has(property.id) } : {}),
+    }));
+  }
+
   private async validateBusinessRules(data: PropertyCreateInput): Promise<void> {
     try {
       // Price validation
@@ -361,5 +519,19 @@ export class PropertyServiceImpl {
     if (errors.length > 0) {
       throw new ValidationError('Filter validation failed', errors);
     }
+    
+    if (filters.nearbySearch) {
+      this.validateSearchRadius(filters.nearbySearch.radiusKm);
+    }
+  }
+
+  /**
+   * Search radius limit comes from the runtime module settings (tunable from the admin panel)
+   */
+  private validateSearchRadius(radiusKm: number): void {
+    const { maxSearchRadius } = getModuleSettings();
+    if (radiusKm <= 0 || radiusKm > maxSearchRadius) {
+      throw new ValidationError(`Search radius must be between 0 and ${maxSearchRadius} kilometers`);
+    }
   }
 }
@@ -1,13 +1,29 @@
-import { PropertyCreateInput, PropertyFilters, PropertyResponse, PropertyUpdateInput } from '../types/property';
+import { FavoriteStats } from '../domain/favorite-types';
+import { PriceHistoryEntry, PropertyAssignment, PropertyChangeContext } from '../domain/property-types';
+import { PaginatedResponse } from '../types/common';
+import {
+    PropertyChangeResponse,
+    PropertyCreateInput,
+    PropertyFilters,
+    PropertyResponse,
+    PropertySpatialFilters,
+    PropertyUpdateInput
+} from '../types/property';
 
 export interface IPropertyRepository {
-  create(data: PropertyCreateInput): Promise<PropertyResponse>;
+  create(data: PropertyCreateInput, assignment?: PropertyAssignment): Promise<PropertyResponse>;
   findById(id: string): Promise<PropertyResponse | null>;
   findMany(filters: PropertyFilters): Promise<PropertyResponse[]>;
-  update(id: string, data: PropertyUpdateInput): Promise<PropertyResponse>;
+  update(id: string, data: PropertyUpdateInput, context?: PropertyChangeContext): Promise<PropertyResponse>;
+  findAssignment(id: string): Promise<(PropertyAssignment & { adminStatus: string }) | null>;
+  updateAssignment(id: string, assignment: Partial<PropertyAssignment>): Promise<PropertyAssignment>;
+  reassignAgent(fromAgentId: string, toAgentId: string | null): Promise<number>;
   delete(id: string): Promise<void>;
   count(filters?: Partial<PropertyFilters>): Promise<number>;
-  findNearby(filters: PropertyFilters): Promise<PropertyResponse[]>;
+  findSpatial(filters: PropertySpatialFilters): Promise<PaginatedResponse<PropertyResponse>>;
+  findPriceHistory(propertyId: string): Promise<PriceHistoryEntry[]>;
+  findFavoriteStats(propertyIds: string[], userId?: string): Promise<FavoriteStats>;
+  findChanges(range: { since: Date; until: Date }, limit: number, cursor?: string): Promise<PropertyChangeResponse[]>;
 }
 
 export interface IRepositoryFactory {
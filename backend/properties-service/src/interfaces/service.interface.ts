@@ -1,14 +1,31 @@
-import { PropertyCreateInput, PropertyFilters, PropertyResponse, PropertyUpdateInput } from '../types/property';
+import { PropertyAssignment, PropertyVisibility } from '../domain/property-types';
+import { PaginatedResponse } from '../types/common';
+import {
+    PriceHistoryEntryResponse,
+    PropertyChangeResponse,
+    PropertyChangesQuery,
+    PropertyCreateInput,
+    PropertyFilters,
+    PropertyResponse,
+    PropertySpatialFilters,
+    PropertyUpdateInput
+} from '../types/property';
 
 export interface IPropertyService {
-  createProperty(data: PropertyCreateInput): Promise<PropertyResponse>;
-  getPropertyById(id: string): Promise<PropertyResponse>;
-  getProperties(filters: Partial<PropertyFilters> & { limit: number; sortBy: string; sortOrder: string }): Promise<{ data: PropertyResponse[]; pagination: any }>;
-  updateProperty(id: string, data: PropertyUpdateInput): Promise<PropertyResponse>;
+  createProperty(data: PropertyCreateInput, assignment?: PropertyAssignment): Promise<PropertyResponse>;
+  getPropertyById(id: string, viewerId?: string): Promise<PropertyResponse>;
+  getProperties(filters: Partial<PropertyFilters> & { limit: number; sortBy: string; sortOrder: string }, viewerId?: string): Promise<{ data: PropertyResponse[]; pagination: any }>;
+  updateProperty(id: string, data: PropertyUpdateInput, changedBy?: string): Promise<PropertyResponse>;
   deleteProperty(id: string): Promise<void>;
+  getPropertyAssignment(id: string): Promise<PropertyAssignment & { adminStatus: string }>;
+  assignProperty(id: string, assignment: Partial<PropertyAssignment>): Promise<PropertyAssignment>;
+  reassignAgentProperties(fromAgentId: string, toAgentId: string | null): Promise<number>;
   getPropertiesStats(): Promise<any>;
-  searchProperties(query: string, limit?: number): Promise<any>;
-  getNearbyProperties(lat: number, lng: number, radius?: number, limit?: number): Promise<any>;
+  searchProperties(query: string, limit?: number, visibility?: PropertyVisibility): Promise<any>;
+  getNearbyProperties(lat: number, lng: number, radius?: number, limit?: number, cursor?: string, visibility?: PropertyVisibility): Promise<any>;
+  getPropertiesInArea(filters: PropertySpatialFilters): Promise<any>;
+  getPriceHistory(id: string): Promise<{ propertyId: string; currentPrice: number; history: PriceHistoryEntryResponse[] }>;
+  getPropertyChanges(query: PropertyChangesQuery): Promise<PaginatedResponse<PropertyChangeResponse>>;
 }
 
 export interface IMediaService {
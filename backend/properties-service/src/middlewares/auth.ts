@@ -0,0 +1,96 @@
+import { timingSafeEqual } from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { config } from '../config/index';
+
+// Roles (as issued by auth-service) allowed to manage back-office content
+export const ADMIN_ROLES = ['admin', 'super_admin'];
+
+export interface RequestUser {
+  id: string;
+  email?: string;
+  role: string;
+  // Only forwarded for API keys, which are authorised by permission rather than by role
+  permissions?: string[];
+}
+
+// Reads the caller identity forwarded by the API Gateway
+export function getRequestUser(request: FastifyRequest): RequestUser | null {
+  const id = request.headers['x-user-id'];
+  const role = request.headers['x-user-role'];
+
+  if (typeof id !== 'string' || !id || typeof role !== 'string' || !role) {
+    return null;
+  }
+
+  const email = request.headers['x-user-email'];
+  const permissions = request.headers['x-user-permissions'];
+  return {
+    id,
+    email: typeof email === 'string' ? email : undefined,
+    role: role.toLowerCase(),
+    ...(typeof permissions === 'string' && {
+      permissions: permissions.split(',').map(permission => permission.trim()).filter(Boolean),
+    }),
+  };
+}
+
+export function isAdminRole(role?: string | null): boolean {
+  return !!role && ADMIN_ROLES.includes(role.toLowerCase());
+}
+
+// Only lets authenticated users through
+export async function requireUser(request: FastifyRequest, reply: FastifyReply) {
+  if (!getRequestUser(request)) {
+    return reply.code(401).send({
+      error: 'Authentication required',
+      code: 'UNAUTHORIZED',
+      message: 'This operation requires an authenticated user',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// Only lets administrators through
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+  const user = getRequestUser(request);
+
+  if (!user) {
+    return reply.code(401).send({
+      error: 'Authentication required',
+      code: 'UNAUTHORIZED',
+      message: 'This operation requires an authenticated user',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (!isAdminRole(user.role)) {
+    return reply.code(403).send({
+      error: 'Forbidden',
+      code: 'FORBIDDEN',
+      message: 'This operation is restricted to administrators',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// Backend services authenticate with the shared key; fails closed when INTERNAL_API_KEY is not configured
+export function isInternalRequest(request: FastifyRequest): boolean {
+  const expected = config.INTERNAL_API_KEY;
+  const provided = request.headers['x-internal-api-key'];
+
+  if (!expected || typeof provided !== 'string') {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+// Lets administrators and other backend services through
+export async function requireAdminOrInternal(request: FastifyRequest, reply: FastifyReply) {
+  if (isInternalRequest(request)) {
+    return;
+  }
+  return requireAdmin(request, reply);
+}
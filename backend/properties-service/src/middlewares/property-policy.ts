@@ -0,0 +1,100 @@
+/**
+ * Property access rules:
+ * - administrators can do everything, including (re)assigning owners and agents
+ * - agents create listings (assigned to themselves) and only change or delete the ones assigned to them
+ * - partner API keys with properties.create own the listings they create and, with properties.update
+ *   or properties.delete, only change those (the gateway already checks the permission per method)
+ * - owners and assigned agents can see their drafts; everyone else only sees ACTIVE listings
+ */
+
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { PropertyAssignment, PropertyVisibility } from '../domain/property-types';
+import { ForbiddenError } from '../types/common';
+import { getRequestUser, isAdminRole, RequestUser } from './auth';
+
+export const AGENT_ROLE = 'agent';
+
+export const API_KEY_ROLE = 'api_key';
+
+export function isAgentRole(role?: string | null): boolean {
+  return !!role && role.toLowerCase() === AGENT_ROLE;
+}
+
+function hasApiKeyPermission(user: RequestUser, ...permissions: string[]): boolean {
+  if (user.role !== API_KEY_ROLE) return false;
+  const granted = user.permissions ?? [];
+  return granted.includes('*') || permissions.some(permission => granted.includes(permission));
+}
+
+export function canCreateProperty(user: RequestUser | null): boolean {
+  if (!user) return false;
+  return isAdminRole(user.role) || isAgentRole(user.role) || hasApiKeyPermission(user, 'properties.create');
+}
+
+export function canManageProperty(user: RequestUser | null, assignment: PropertyAssignment): boolean {
+  if (!user) return false;
+  if (isAdminRole(user.role)) return true;
+  if (hasApiKeyPermission(user, 'properties.update', 'properties.delete')) {
+    return assignment.ownerId === user.id;
+  }
+  return isAgentRole(user.role) && assignment.agentId === user.id;
+}
+
+export function canViewProperty(
+  user: RequestUser | null,
+  property: PropertyAssignment & { adminStatus: string }
+): boolean {
+  if (property.adminStatus === 'ACTIVE') return true;
+  if (!user) return false;
+  return isAdminRole(user.role) || property.ownerId === user.id || property.agentId === user.id;
+}
+
+export function getPropertyVisibility(user: RequestUser | null): PropertyVisibility {
+  return { allDrafts: !!user && isAdminRole(user.role), userId: user?.id };
+}
+
+/**
+ * Owner/agent stamped on a new listing. Only administrators may choose them; otherwise the
+ * creator owns the listing and, when an agent, is assigned to it.
+ */
+export function resolveCreateAssignment(user: RequestUser, requested: Partial<PropertyAssignment>): PropertyAssignment {
+  if (isAdminRole(user.role)) {
+    return {
+      ownerId: requested.ownerId ?? user.id,
+      agentId: requested.agentId ?? null,
+    };
+  }
+  return {
+    ownerId: user.id,
+    agentId: isAgentRole(user.role) ? user.id : null,
+  };
+}
+
+export function assertCanManageProperty(user: RequestUser | null, assignment: PropertyAssignment, propertyId: string): void {
+  if (!canManageProperty(user, assignment)) {
+    throw new ForbiddenError('You are not allowed to modify this property', { propertyId });
+  }
+}
+
+// Only lets administrators, agents and API keys allowed to create listings through to the create routes
+export async function requirePropertyCreator(request: FastifyRequest, reply: FastifyReply) {
+  const user = getRequestUser(request);
+
+  if (!user) {
+    return reply.code(401).send({
+      error: 'Authentication required',
+      code: 'UNAUTHORIZED',
+      message: 'This operation requires an authenticated user',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (!canCreateProperty(user)) {
+    return reply.code(403).send({
+      error: 'Forbidden',
+      code: 'FORBIDDEN',
+      message: 'Only agents and administrators can create properties',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -1,9 +1,10 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { searchPropertiesSpatially } from '../gateways/postgis-property-search';
 import { NotFoundError } from '../types/common';
 import { PropertyCreateInput, PropertyFilters, PropertyRepository, PropertyResponse, PropertyUpdateInput } from '../types/property';
 import { repositoryLogger } from '../utils/logger';
-import { calculateDistance, transformPropertyFromDb } from '../utils/transform';
+import { transformPropertyFromDb } from '../utils/transform';
 
 export class PropertyRepositoryImpl implements PropertyRepository {
   async create(data: PropertyCreateInput): Promise<PropertyResponse> {
@@ -329,47 +330,19 @@ export class PropertyRepositoryImpl implements PropertyRepository {
   private async findNearby(filters: PropertyFilters): Promise<any[]> {
     if (!filters.nearbySearch) return [];
     
-    const { latitude, longitude, radiusKm } = filters.nearbySearch;
+    const { q, cursor, ...rest } = filters;
+    const page = await searchPropertiesSpatially(prisma, { ...rest, textQuery: q }, filters.limit);
+    if (page.hits.length === 0) return [];
     
-    // Note: This is a simplified implementation. For production, you'd want to use PostGIS
-    // or similar geospatial database extensions for better performance.
     const properties = await prisma.property.findMany({
-      where: this.buildWhereClause(filters),
+      where: { id: { in: page.hits.map(hit => hit.id) } },
     });
+    const propertiesById = new Map(properties.map((property: any) => [property.id, property]));
     
-    // Filter by distance and sort by proximity
-    const nearby = properties
-      .filter((property: any) => {
-        if (!property.coordinates) return false;
-        
-        const distance = calculateDistance(
-          latitude,
-          longitude,
-          property.coordinates.latitude,
-          property.coordinates.longitude
-        );
-        
-        return distance <= radiusKm;
-      })
-      .sort((a: any, b: any) => {
-        const distanceA = calculateDistance(
-          latitude,
-          longitude,
-          a.coordinates.latitude,
-          a.coordinates.longitude
-        );
-        const distanceB = calculateDistance(
-          latitude,
-          longitude,
-          b.coordinates.latitude,
-          b.coordinates.longitude
-        );
-        
-        return distanceA - distanceB;
-      })
-      .slice(0, filters.limit);
-    
-    return nearby;
+    // Keep the distance order from PostGIS
+    return page.hits
+      .filter(hit => propertiesById.has(hit.id))
+      .map(hit => propertiesById.get(hit.id));
   }
 }
 
@@ -0,0 +1,249 @@
+import { PrismaClient } from '@prisma/client';
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { config } from '../config/index';
+import { PropertyNotFoundError } from '../core/property-core';
+import { createReportCore, ReportValidationError } from '../core/report-core';
+import { createVisitCore, VisitValidationError } from '../core/visit-core';
+import { createHttpContactStatsGateway } from '../gateways/http-contact-stats-gateway';
+import { createHttpLeadStatsGateway } from '../gateways/http-lead-stats-gateway';
+import { createHttpUserStatsGateway } from '../gateways/http-user-stats-gateway';
+import { createPrismaReportGateway } from '../gateways/prisma-report-gateway';
+import { createPrismaVisitGateway } from '../gateways/prisma-visit-gateway';
+import { getRequestUser, requireAdmin } from '../middlewares/auth';
+import { analyticsRangeSchema, reportQuerySchema, topPropertiesQuerySchema } from '../types/analytics';
+import { ValidationError } from '../types/common';
+import { logger } from '../utils/logger';
+import { validateInput } from '../utils/validation';
+
+const API_VERSION = '1.0.0';
+
+function sendError(reply: FastifyReply, error: unknown) {
+  const timestamp = new Date().toISOString();
+
+  if (error instanceof PropertyNotFoundError) {
+    return reply.code(404).send({
+      error: 'Property not found',
+      code: 'PROPERTY_NOT_FOUND',
+      message: error.message,
+      timestamp,
+    });
+  }
+
+  if (error instanceof VisitValidationError || error instanceof ReportValidationError) {
+    return reply.code(400).send({
+      error: 'Validation error',
+      code: 'VALIDATION_ERROR',
+      message: error.message,
+      field: error.field,
+      timestamp,
+    });
+  }
+
+  if (error instanceof ValidationError) {
+    return reply.code(400).send({
+      error: 'Validation error',
+      code: 'VALIDATION_ERROR',
+      message: error.message,
+      details: error.details,
+      timestamp,
+    });
+  }
+
+  logger.error({ error }, 'Unexpected error in analytics routes');
+  return reply.code(500).send({
+    error: 'Internal server error',
+    code: 'INTERNAL_ERROR',
+    message: 'An unexpected error occurred',
+    timestamp,
+  });
+}
+
+export async function analyticsRoutes(fastify: FastifyInstance) {
+  const core = createVisitCore(
+    createPrismaVisitGateway(fastify.prisma as PrismaClient),
+    createHttpContactStatsGateway(config.MESSAGES_SERVICE_URL, config.INTERNAL_API_KEY)
+  );
+  const reportCore = createReportCore(
+    createPrismaReportGateway(fastify.prisma as PrismaClient),
+    createHttpUserStatsGateway(config.USERS_SERVICE_URL, config.INTERNAL_API_KEY),
+    createHttpLeadStatsGateway(config.MESSAGES_SERVICE_URL, config.INTERNAL_API_KEY)
+  );
+
+  // Record a listing view (beacon sent by the property page)
+  fastify.post('/api/v1/properties/:id/views', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userAgent = request.headers['user-agent'];
+
+      const result = await core.recordVisit({
+        propertyId: id,
+        visitorId: getRequestUser(request)?.id ?? null,
+        ipAddress: request.ip,
+        userAgent: userAgent || null,
+      });
+
+      return reply.code(202).send({
+        success: true,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Views across all properties (admin only)
+  fastify.get('/api/v1/property-analytics/views', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const range = validateInput(analyticsRangeSchema, request.query);
+      const summary = await core.getViewsSummary(range);
+
+      return reply.send({
+        success: true,
+        data: summary,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Most viewed properties with conversion to contacts (admin only)
+  fastify.get('/api/v1/property-analytics/top-properties', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const { limit, ...range } = validateInput(topPropertiesQuerySchema, request.query);
+      const properties = await core.getTopProperties(range, limit);
+
+      return reply.send({
+        success: true,
+        data: properties,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Views of a single property (admin only)
+  fastify.get('/api/v1/property-analytics/properties/:id', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const range = validateInput(analyticsRangeSchema, request.query);
+      const analytics = await core.getPropertyAnalytics(id, range);
+
+      return reply.send({
+        success: true,
+        data: analytics,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Management report: distribution, searched regions, trends and market metrics (admin only)
+  fastify.get('/api/v1/property-analytics/report', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const query = validateInput(reportQuerySchema, request.query);
+      const report = await reportCore.getReport(query);
+
+      return reply.send({
+        success: true,
+        data: report,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Current listings by type and status (admin only)
+  fastify.get('/api/v1/property-analytics/distribution', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const distribution = await reportCore.getDistribution();
+
+      return reply.send({
+        success: true,
+        data: distribution,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Most searched regions from the users' search history (admin only)
+  fastify.get('/api/v1/property-analytics/search-regions', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const query = validateInput(reportQuerySchema, request.query);
+      const regions = await reportCore.getTopRegions(query);
+
+      return reply.send({
+        success: true,
+        data: regions,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // New listings, users, views and leads per day/week/month (admin only)
+  fastify.get('/api/v1/property-analytics/trends', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const query = validateInput(reportQuerySchema, request.query);
+      const trends = await reportCore.getTrends(query);
+
+      return reply.send({
+        success: true,
+        data: trends,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Days on market and price per m² by location (admin only)
+  fastify.get('/api/v1/property-analytics/market', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      const query = validateInput(reportQuerySchema, request.query);
+      const market = await reportCore.getMarketMetrics(query);
+
+      return reply.send({
+        success: true,
+        data: market,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+}
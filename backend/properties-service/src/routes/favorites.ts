@@ -0,0 +1,120 @@
+import { PrismaClient } from '@prisma/client';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { createFavoriteCore, FavoriteValidationError } from '../core/favorite-core';
+import { PropertyNotFoundError } from '../core/property-core';
+import { createPrismaFavoriteGateway } from '../gateways/prisma-favorite-gateway';
+import { getRequestUser, requireUser } from '../middlewares/auth';
+import { ValidationError } from '../types/common';
+import { favoriteListQuerySchema } from '../types/favorites';
+import { logger } from '../utils/logger';
+import { validateInput } from '../utils/validation';
+
+const API_VERSION = '1.0.0';
+
+function sendError(reply: FastifyReply, error: unknown) {
+  const timestamp = new Date().toISOString();
+
+  if (error instanceof PropertyNotFoundError) {
+    return reply.code(404).send({
+      error: 'Property not found',
+      code: 'PROPERTY_NOT_FOUND',
+      message: error.message,
+      timestamp,
+    });
+  }
+
+  if (error instanceof FavoriteValidationError) {
+    return reply.code(400).send({
+      error: 'Validation error',
+      code: 'VALIDATION_ERROR',
+      message: error.message,
+      field: error.field,
+      timestamp,
+    });
+  }
+
+  if (error instanceof ValidationError) {
+    return reply.code(400).send({
+      error: 'Validation error',
+      code: 'VALIDATION_ERROR',
+      message: error.message,
+      details: error.details,
+      timestamp,
+    });
+  }
+
+  logger.error({ error }, 'Unexpected error in favorites routes');
+  return reply.code(500).send({
+    error: 'Internal server error',
+    code: 'INTERNAL_ERROR',
+    message: 'An unexpected error occurred',
+    timestamp,
+  });
+}
+
+// requireUser has already rejected anonymous requests
+function getUserId(request: FastifyRequest): string {
+  return getRequestUser(request)!.id;
+}
+
+export async function favoritesRoutes(fastify: FastifyInstance) {
+  const core = createFavoriteCore(createPrismaFavoriteGateway(fastify.prisma as PrismaClient));
+
+  // Favorites of the logged-in user
+  fastify.get('/api/v1/favorites', { preHandler: requireUser }, async (request, reply) => {
+    try {
+      const filters = validateInput(favoriteListQuerySchema, request.query);
+      const result = await core.listFavorites(getUserId(request), filters);
+
+      return reply.send({
+        success: true,
+        data: result.favorites,
+        pagination: result.pagination,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Save a property as favorite
+  fastify.post('/api/v1/properties/:id/favorite', { preHandler: requireUser }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const status = await core.addFavorite(id, getUserId(request));
+
+      return reply.send({
+        success: true,
+        data: status,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Remove a property from favorites
+  fastify.delete('/api/v1/properties/:id/favorite', { preHandler: requireUser }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const status = await core.removeFavorite(id, getUserId(request));
+
+      return reply.send({
+        success: true,
+        data: status,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+}
@@ -1,8 +1,10 @@
 import { PrismaClient } from '@prisma/client';
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { createWriteStream, existsSync, mkdirSync } from 'fs';
 import path from 'path';
 import { z } from 'zod';
+import { getRequestUser, requireUser } from '../middlewares/auth.js';
+import { canManageProperty } from '../middlewares/property-policy.js';
 import { createImageService } from '../services/image.service.js';
 import { storageService } from '../services/storage.service.js';
 import { logger } from '../utils/logger.js';
@@ -51,6 +53,55 @@ export async function imageRoutes(fastify: FastifyInstance) {
   const prisma = fastify.prisma as PrismaClient;
   const imageService = createImageService(prisma);
 
+  // 404 for unknown properties, 403 when the caller may not change this one
+  const authorizePropertyChange = async (request: FastifyRequest, reply: FastifyReply, propertyId: string) => {
+    const assignment = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { ownerId: true, agentId: true },
+    });
+
+    if (!assignment) {
+      return reply.code(404).send({
+        error: 'Not Found',
+        code: 'NOT_FOUND',
+        message: 'Property not found',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    if (!canManageProperty(getRequestUser(request), assignment)) {
+      return reply.code(403).send({
+        error: 'Forbidden',
+        code: 'FORBIDDEN',
+        message: 'You are not allowed to modify this property',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+
+  const requirePropertyManager = async (request: FastifyRequest<{ Params: PropertyParams }>, reply: FastifyReply) => {
+    return authorizePropertyChange(request, reply, request.params.propertyId);
+  };
+
+  // Image routes are authorized against the property the image belongs to
+  const requireImageManager = async (request: FastifyRequest<{ Params: ImageParams }>, reply: FastifyReply) => {
+    const image = await prisma.propertyImage.findUnique({
+      where: { id: request.params.id },
+      select: { propertyId: true },
+    });
+
+    if (!image) {
+      return reply.code(404).send({
+        error: 'Not Found',
+        code: 'NOT_FOUND',
+        message: 'Image not found',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return authorizePropertyChange(request, reply, image.propertyId);
+  };
+
   // Upload image for property
   fastify.post<{
     Params: PropertyParams;
@@ -64,7 +115,7 @@ export async function imageRoutes(fastify: FastifyInstance) {
         required: ['propertyId']
       }
     },
-    preHandler: async (request, reply) => {
+    preHandler: [async (request) => {
       console.log('🆕 Recebida requisição POST para upload de imagem:', {
         propertyId: request.params.propertyId,
         method: request.method,
@@ -74,7 +125,7 @@ export async function imageRoutes(fastify: FastifyInstance) {
           'content-length': request.headers['content-length']
         }
       });
-    }
+    }, requireUser, requirePropertyManager]
   }, async (request, reply) => {
     try {
       const { propertyId } = request.params;
@@ -248,6 +299,10 @@ export async function imageRoutes(fastify: FastifyInstance) {
           url: image.url,
           alt: image.alt,
           order: image.order,
+          width: image.width,
+          height: image.height,
+          dominantColor: image.dominantColor,
+          variants: image.variants,
           propertyId: image.propertyId,
           createdAt: image.createdAt,
         },
@@ -357,7 +412,8 @@ export async function imageRoutes(fastify: FastifyInstance) {
           order: { type: 'number', minimum: 0 }
         }
       }
-    }
+    },
+    preHandler: [requireUser, requireImageManager]
   }, async (request, reply) => {
     try {
       const { id } = request.params;
@@ -402,7 +458,8 @@ export async function imageRoutes(fastify: FastifyInstance) {
         },
         required: ['id']
       }
-    }
+    },
+    preHandler: [requireUser, requireImageManager]
   }, async (request, reply) => {
     try {
       const { id } = request.params;
@@ -461,7 +518,8 @@ export async function imageRoutes(fastify: FastifyInstance) {
         },
         required: ['images']
       }
-    }
+    },
+    preHandler: [requireUser, requirePropertyManager]
   }, async (request, reply) => {
     try {
       const { propertyId } = request.params;
@@ -1,6 +1,10 @@
 import { FastifyInstance } from 'fastify';
+import { analyticsRoutes } from './analytics';
+import { favoritesRoutes } from './favorites';
 import { healthRoutes } from './health';
 import { imageRoutes } from './images.routes';
+import { mediaReferencesRoutes } from './media-references';
+import { moderationRoutes } from './moderation';
 import { projectsRoutes } from './projects';
 import { propertiesRoutes } from './properties';
 import { settingsRoutes } from './settings';
@@ -19,6 +23,14 @@ export async function registerRoutes(fastify: FastifyInstance) {
     await fastify.register(settingsRoutes);
     // Projects routes
     await fastify.register(projectsRoutes);
+    // View tracking and analytics routes
+    await fastify.register(analyticsRoutes);
+    // Favorites routes
+    await fastify.register(favoritesRoutes);
+    // Stored media URLs (orphan reconciliation in the media service)
+    await fastify.register(mediaReferencesRoutes);
+    // Listing review workflow
+    await fastify.register(moderationRoutes);
   });
   
   // Register a catch-all route for API documentation or 404
@@ -60,7 +72,29 @@ export async function registerRoutes(fastify: FastifyInstance) {
           update: 'PUT /api/v1/properties/{id}',
           delete: 'DELETE /api/v1/properties/{id}',
           search: 'GET /api/v1/properties/search?q={query}',
-          nearby: 'GET /api/v1/properties/nearby?lat={lat}&lng={lng}',
+          nearby: 'GET /api/v1/properties/nearby?lat={lat}&lng={lng}&radius={km}&cursor={cursor}',
+          bounds: 'GET /api/v1/properties/bounds?north={lat}&south={lat}&east={lng}&west={lng}',
+          polygon: 'GET /api/v1/properties/polygon?polygon={lat,lng;lat,lng;...}',
+          priceHistory: 'GET /api/v1/properties/{id}/price-history',
+          assignment: 'PATCH /api/v1/properties/{id}/assignment',
+          reassignAgent: 'POST /api/v1/properties/reassign-agent',
+          moderationQueue: 'GET /api/v1/moderation/queue?status={SUBMITTED,APPROVED,...}&agentId={id}&minWaitingHours={h}&sortOrder={asc|desc}',
+          moderation: 'GET /api/v1/properties/{id}/moderation',
+          moderationAction: 'POST /api/v1/properties/{id}/moderation/{submit|withdraw|approve|reject|publish|archive|reopen}',
+          recentlyReduced: 'GET /api/v1/properties?recentlyReduced=true&reducedWithinDays={days}',
+          recordView: 'POST /api/v1/properties/{id}/views',
+          viewAnalytics: 'GET /api/v1/property-analytics/views?from={date}&to={date}',
+          topProperties: 'GET /api/v1/property-analytics/top-properties?limit={n}',
+          propertyAnalytics: 'GET /api/v1/property-analytics/properties/{id}',
+          report: 'GET /api/v1/property-analytics/report?from={date}&to={date}&granularity={day|week|month}&limit={n}',
+          distribution: 'GET /api/v1/property-analytics/distribution',
+          searchRegions: 'GET /api/v1/property-analytics/search-regions?from={date}&to={date}&limit={n}',
+          trends: 'GET /api/v1/property-analytics/trends?from={date}&to={date}&granularity={day|week|month}',
+          market: 'GET /api/v1/property-analytics/market?from={date}&to={date}&limit={n}',
+          addFavorite: 'POST /api/v1/properties/{id}/favorite',
+          removeFavorite: 'DELETE /api/v1/properties/{id}/favorite',
+          myFavorites: 'GET /api/v1/favorites?limit={n}&cursor={cursor}',
+          mediaReferences: 'GET /api/v1/media-references?source={images|properties|projects}&cursor={id}',
           stats: 'GET /api/v1/properties-stats'
         },
         health: {
@@ -0,0 +1,92 @@
+import { PrismaClient } from '@prisma/client';
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { ImageVariants } from '../config/image-variants';
+import { requireAdminOrInternal } from '../middlewares/auth';
+import { logger } from '../utils/logger';
+
+const API_VERSION = '1.0.0';
+
+const mediaReferencesQuerySchema = z.object({
+  source: z.enum(['images', 'properties', 'projects']).default('images'),
+  cursor: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(500),
+});
+
+type MediaReferencesQuery = z.infer<typeof mediaReferencesQuerySchema>;
+
+interface ReferencePage {
+  urls: string[];
+  nextCursor: string | null;
+}
+
+function variantUrls(variants: unknown): string[] {
+  if (!variants || typeof variants !== 'object') return [];
+  return Object.values(variants as ImageVariants).flatMap((variant) => Object.values(variant?.sources ?? {}));
+}
+
+// Records are read in id order so the media service can page through every table with a cursor
+async function loadReferences(prisma: PrismaClient, { source, cursor, limit }: MediaReferencesQuery): Promise<ReferencePage> {
+  const page = {
+    where: cursor ? { id: { gt: cursor } } : undefined,
+    orderBy: { id: 'asc' as const },
+    take: limit,
+  };
+
+  let rows: Array<{ id: string; urls: Array<string | null> }>;
+  if (source === 'images') {
+    const images = await prisma.propertyImage.findMany({ ...page, select: { id: true, url: true, variants: true } });
+    rows = images.map((image) => ({ id: image.id, urls: [image.url, ...variantUrls(image.variants)] }));
+  } else if (source === 'properties') {
+    const properties = await prisma.property.findMany({ ...page, select: { id: true, imageUrl: true } });
+    rows = properties.map((property) => ({ id: property.id, urls: [property.imageUrl] }));
+  } else {
+    const projects = await prisma.project.findMany({ ...page, select: { id: true, imageUrl: true, gallery: true } });
+    rows = projects.map((project) => ({ id: project.id, urls: [project.imageUrl, ...project.gallery] }));
+  }
+
+  return {
+    urls: rows.flatMap((row) => row.urls).filter((url): url is string => !!url),
+    nextCursor: rows.length === limit ? rows[rows.length - 1].id : null,
+  };
+}
+
+export async function mediaReferencesRoutes(fastify: FastifyInstance) {
+  const prisma = fastify.prisma as PrismaClient;
+
+  // Every media URL stored by this service, used by the media service to find orphaned objects
+  fastify.get('/api/v1/media-references', { preHandler: requireAdminOrInternal }, async (request, reply) => {
+    const parsed = mediaReferencesQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Validation error',
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid query parameters',
+        details: parsed.error.flatten().fieldErrors,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    try {
+      const { urls, nextCursor } = await loadReferences(prisma, parsed.data);
+
+      return reply.send({
+        success: true,
+        data: urls,
+        pagination: { nextCursor },
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to load media references');
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+}
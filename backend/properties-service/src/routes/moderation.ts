@@ -0,0 +1,164 @@
+import { PrismaClient } from '@prisma/client';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { config } from '../config/index';
+import {
+    createModerationCore,
+    ModerationForbiddenError,
+    ModerationTransitionError,
+    ModerationValidationError
+} from '../core/moderation-core';
+import { PropertyNotFoundError } from '../core/property-core';
+import { ModerationActor, ModerationStatus } from '../domain/moderation-types';
+import { createHttpModerationNotifier } from '../gateways/http-moderation-notifier';
+import { createPrismaModerationGateway } from '../gateways/prisma-moderation-gateway';
+import { getRequestUser, isAdminRole, requireUser } from '../middlewares/auth';
+import { ValidationError } from '../types/common';
+import {
+    moderationActionBodySchema,
+    moderationActionParamsSchema,
+    moderationQueueQuerySchema
+} from '../types/moderation';
+import { logger } from '../utils/logger';
+import { validateInput } from '../utils/validation';
+
+const API_VERSION = '1.0.0';
+
+function sendError(reply: FastifyReply, error: unknown) {
+  const timestamp = new Date().toISOString();
+
+  if (error instanceof PropertyNotFoundError) {
+    return reply.code(404).send({
+      error: 'Property not found',
+      code: 'PROPERTY_NOT_FOUND',
+      message: error.message,
+      timestamp,
+    });
+  }
+
+  if (error instanceof ModerationForbiddenError) {
+    return reply.code(403).send({
+      error: 'Forbidden',
+      code: 'FORBIDDEN',
+      message: error.message,
+      timestamp,
+    });
+  }
+
+  if (error instanceof ModerationTransitionError) {
+    return reply.code(409).send({
+      error: 'Invalid moderation transition',
+      code: 'INVALID_TRANSITION',
+      message: error.message,
+      status: error.status,
+      timestamp,
+    });
+  }
+
+  if (error instanceof ModerationValidationError) {
+    return reply.code(400).send({
+      error: 'Validation error',
+      code: 'VALIDATION_ERROR',
+      message: error.message,
+      field: error.field,
+      details: error.details,
+      timestamp,
+    });
+  }
+
+  if (error instanceof ValidationError) {
+    return reply.code(400).send({
+      error: 'Validation error',
+      code: 'VALIDATION_ERROR',
+      message: error.message,
+      details: error.details,
+      timestamp,
+    });
+  }
+
+  logger.error({ error }, 'Unexpected error in moderation routes');
+  return reply.code(500).send({
+    error: 'Internal server error',
+    code: 'INTERNAL_ERROR',
+    message: 'An unexpected error occurred',
+    timestamp,
+  });
+}
+
+// requireUser has already rejected anonymous requests; administrators are the reviewers
+function getActor(request: FastifyRequest): ModerationActor {
+  const user = getRequestUser(request)!;
+  return { userId: user.id, isReviewer: isAdminRole(user.role) };
+}
+
+export async function moderationRoutes(fastify: FastifyInstance) {
+  const core = createModerationCore(
+    createPrismaModerationGateway(fastify.prisma as PrismaClient),
+    createHttpModerationNotifier(config.USERS_SERVICE_URL, config.INTERNAL_API_KEY)
+  );
+
+  // Review queue for administrators; agents get their own listings
+  fastify.get('/api/v1/moderation/queue', { preHandler: requireUser }, async (request, reply) => {
+    try {
+      const { status, ...filters } = validateInput(moderationQueueQuerySchema, request.query);
+      const result = await core.getQueue({
+        ...filters,
+        status: status?.split(',').map((value) => value.trim().toUpperCase()).filter(Boolean) as ModerationStatus[] | undefined,
+      }, getActor(request));
+
+      return reply.send({
+        success: true,
+        data: result.items,
+        counts: result.counts,
+        pagination: result.pagination,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Review status, rejection reason, checklist and history of a listing
+  fastify.get('/api/v1/properties/:id/moderation', { preHandler: requireUser }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const details = await core.getDetails(id, getActor(request));
+
+      return reply.send({
+        success: true,
+        data: details,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // submit, withdraw, approve, reject (reason required), publish, archive, reopen
+  fastify.post('/api/v1/properties/:id/moderation/:action', { preHandler: requireUser }, async (request, reply) => {
+    try {
+      const { id, action } = validateInput(moderationActionParamsSchema, request.params);
+      const { reason } = validateInput(moderationActionBodySchema, request.body ?? {});
+      const actor = getActor(request);
+
+      const record = await core.transition(id, action, actor, reason);
+      logger.info({ propertyId: id, action, status: record.status, actorId: actor.userId }, 'Listing moderation updated');
+
+      return reply.send({
+        success: true,
+        data: record,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: API_VERSION
+        }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+}
@@ -5,7 +5,42 @@
  */
 
 import { FastifyInstance } from 'fastify';
+import { SEARCH_RADIUS_CEILING_KM } from '../config/module-settings';
 import { propertyController } from '../controllers/property.controller';
+import { requireAdmin, requireUser } from '../middlewares/auth';
+import { requirePropertyCreator } from '../middlewares/property-policy';
+
+// Shared by the geospatial routes (results are ordered by distance)
+const spatialPaginationSchema = {
+  type: 'object',
+  properties: {
+    nextCursor: { type: ['string', 'null'] },
+    hasMore: { type: 'boolean' },
+    limit: { type: 'integer' },
+    totalEstimate: { type: 'integer' }
+  }
+};
+
+const spatialAreaResponseSchema = {
+  type: 'object',
+  properties: {
+    data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    count: { type: 'integer' },
+    pagination: spatialPaginationSchema,
+    timestamp: { type: 'string' }
+  }
+};
+
+// Attribute filters accepted alongside an area search
+const spatialFilterQueryProperties = {
+  status: { type: 'string', enum: ['for_sale', 'for_rent', 'sold', 'rented', 'under_contract', 'withdrawn'] },
+  type: { type: 'string' },
+  minPrice: { type: 'number', minimum: 0 },
+  maxPrice: { type: 'number', minimum: 0 },
+  minBedrooms: { type: 'integer', minimum: 0 },
+  minArea: { type: 'number', minimum: 0 },
+  maxArea: { type: 'number', minimum: 0 }
+};
 
 export async function propertiesRoutes(fastify: FastifyInstance) {
   console.log('🔧 Registering Properties routes...');
@@ -14,6 +49,7 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
 
   // Create property
   fastify.post('/api/v1/properties', {
+    preHandler: requirePropertyCreator,
     schema: {
       description: 'Create a new property',
       tags: ['Properties'],
@@ -49,7 +85,9 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
           },
           features: { type: 'array', items: { type: 'string' }, maxItems: 20 },
           contactPhone: { type: 'string' },
-          contactEmail: { type: 'string', format: 'email' }
+          contactEmail: { type: 'string', format: 'email' },
+          ownerId: { type: ['string', 'null'] },
+          agentId: { type: ['string', 'null'] }
         }
       },
       response: {
@@ -87,8 +125,10 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
           minYearBuilt: { type: 'integer', minimum: 1800 },
           maxYearBuilt: { type: 'integer', maximum: new Date().getFullYear() },
           features: { type: 'array', items: { type: 'string' } },
+          recentlyReduced: { type: 'boolean' },
+          reducedWithinDays: { type: 'integer', minimum: 1, maximum: 365, default: 30 },
           q: { type: 'string', minLength: 1 },
-          sortBy: { type: 'string', enum: ['createdAt', 'price', 'area', 'title'], default: 'createdAt' },
+          sortBy: { type: 'string', enum: ['createdAt', 'price', 'area', 'title', 'relevance'], default: 'createdAt' },
           sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
           limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
           cursor: { type: 'string', format: 'uuid' }
@@ -120,6 +160,41 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
     }
   }, propertyController.getProperties.bind(propertyController));
 
+  // New listings and price drops in a time window (used by saved search alerts)
+  fastify.get('/api/v1/properties/changes', {
+    schema: {
+      description: 'Get active properties published or reduced in price within a time window',
+      tags: ['Properties'],
+      querystring: {
+        type: 'object',
+        required: ['since'],
+        properties: {
+          since: { type: 'string', format: 'date-time' },
+          until: { type: 'string', format: 'date-time' },
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 100 },
+          cursor: { type: 'string', format: 'uuid' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            pagination: {
+              type: 'object',
+              properties: {
+                nextCursor: { type: 'string', nullable: true },
+                hasMore: { type: 'boolean' },
+                limit: { type: 'integer' }
+              }
+            },
+            timestamp: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, propertyController.getPropertyChanges.bind(propertyController));
+
   // Get property by ID
   fastify.get('/api/v1/properties/:id', {
     schema: {
@@ -152,8 +227,63 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
     }
   }, propertyController.getPropertyById.bind(propertyController));
 
+  // Get price history of a property
+  fastify.get('/api/v1/properties/:id/price-history', {
+    schema: {
+      description: 'Get the price changes of a property, oldest first',
+      tags: ['Properties'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'object',
+              properties: {
+                propertyId: { type: 'string' },
+                currentPrice: { type: 'number' },
+                history: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      oldPrice: { type: ['number', 'null'] },
+                      newPrice: { type: 'number' },
+                      change: { type: ['number', 'null'] },
+                      changePercent: { type: ['number', 'null'] },
+                      reason: { type: ['string', 'null'] },
+                      changedBy: { type: ['string', 'null'] }, // Admins only
+                      changedAt: { type: 'string', format: 'date-time' }
+                    }
+                  }
+                }
+              }
+            },
+            timestamp: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' },
+            timestamp: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, propertyController.getPriceHistory.bind(propertyController));
+
   // Update property
   fastify.put('/api/v1/properties/:id', {
+    preHandler: requireUser,
     schema: {
       description: 'Update a property',
       tags: ['Properties'],
@@ -188,7 +318,8 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
           },
           features: { type: 'array', items: { type: 'string' }, maxItems: 20 },
           contactPhone: { type: 'string' },
-          contactEmail: { type: 'string', format: 'email' }
+          contactEmail: { type: 'string', format: 'email' },
+          priceChangeReason: { type: 'string', maxLength: 100 }
         }
       },
       response: {
@@ -214,6 +345,7 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
 
   // Delete property
   fastify.delete('/api/v1/properties/:id', {
+    preHandler: requireUser,
     schema: {
       description: 'Delete a property',
       tags: ['Properties'],
@@ -317,8 +449,10 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
         properties: {
           lat: { type: 'number', minimum: -90, maximum: 90 },
           lng: { type: 'number', minimum: -180, maximum: 180 },
-          radius: { type: 'number', minimum: 0.1, maximum: 100, default: 5 },
-          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+          // Upper bound is the runtime maxSearchRadius module setting, default comes from defaultSearchRadius
+          radius: { type: 'number', minimum: 0.1, maximum: SEARCH_RADIUS_CEILING_KM },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          cursor: { type: 'string', maxLength: 200 }
         },
         required: ['lat', 'lng']
       },
@@ -336,6 +470,7 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
             },
             radiusKm: { type: 'number' },
             count: { type: 'integer' },
+            pagination: spatialPaginationSchema,
             timestamp: { type: 'string' }
           }
         }
@@ -343,8 +478,58 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
     }
   }, propertyController.getNearbyProperties.bind(propertyController));
 
+  // Find properties inside a map viewport
+  fastify.get('/api/v1/properties/bounds', {
+    schema: {
+      description: 'Find properties inside a bounding box (map viewport), nearest to its center first',
+      tags: ['Properties', 'Geospatial'],
+      querystring: {
+        type: 'object',
+        properties: {
+          north: { type: 'number', minimum: -90, maximum: 90 },
+          south: { type: 'number', minimum: -90, maximum: 90 },
+          east: { type: 'number', minimum: -180, maximum: 180 },
+          west: { type: 'number', minimum: -180, maximum: 180 },
+          lat: { type: 'number', minimum: -90, maximum: 90, description: 'Optional reference point for distances' },
+          lng: { type: 'number', minimum: -180, maximum: 180 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          cursor: { type: 'string', maxLength: 200 },
+          ...spatialFilterQueryProperties
+        },
+        required: ['north', 'south', 'east', 'west']
+      },
+      response: {
+        200: spatialAreaResponseSchema
+      }
+    }
+  }, propertyController.getPropertiesInArea.bind(propertyController));
+
+  // Find properties inside a polygon (e.g. a freguesia boundary)
+  fastify.get('/api/v1/properties/polygon', {
+    schema: {
+      description: 'Find properties inside a polygon given as "lat,lng;lat,lng;..."',
+      tags: ['Properties', 'Geospatial'],
+      querystring: {
+        type: 'object',
+        properties: {
+          polygon: { type: 'string', minLength: 1, maxLength: 20000 },
+          lat: { type: 'number', minimum: -90, maximum: 90, description: 'Optional reference point for distances' },
+          lng: { type: 'number', minimum: -180, maximum: 180 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          cursor: { type: 'string', maxLength: 200 },
+          ...spatialFilterQueryProperties
+        },
+        required: ['polygon']
+      },
+      response: {
+        200: spatialAreaResponseSchema
+      }
+    }
+  }, propertyController.getPropertiesInArea.bind(propertyController));
+
   // Update admin status only
   fastify.patch('/api/v1/properties/:id/admin-status', {
+    preHandler: requireAdmin,
     schema: {
       description: 'Update property admin status',
       tags: ['Properties'],
@@ -398,6 +583,82 @@ export async function propertiesRoutes(fastify: FastifyInstance) {
     }
   }, propertyController.updateAdminStatus.bind(propertyController));
 
+  // Change the owner and/or assigned agent of a property
+  fastify.patch('/api/v1/properties/:id/assignment', {
+    preHandler: requireAdmin,
+    schema: {
+      description: 'Update property owner and assigned agent',
+      tags: ['Properties'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          ownerId: { type: ['string', 'null'] },
+          agentId: { type: ['string', 'null'] }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                ownerId: { type: ['string', 'null'] },
+                agentId: { type: ['string', 'null'] }
+              }
+            },
+            message: { type: 'string' },
+            timestamp: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, propertyController.updateAssignment.bind(propertyController));
+
+  // Move every property of one agent to another agent (or unassign them)
+  fastify.post('/api/v1/properties/reassign-agent', {
+    preHandler: requireAdmin,
+    schema: {
+      description: 'Reassign all properties of an agent',
+      tags: ['Properties'],
+      body: {
+        type: 'object',
+        properties: {
+          fromAgentId: { type: 'string' },
+          toAgentId: { type: ['string', 'null'] }
+        },
+        required: ['fromAgentId', 'toAgentId']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                fromAgentId: { type: 'string' },
+                toAgentId: { type: ['string', 'null'] },
+                count: { type: 'integer' }
+              }
+            },
+            message: { type: 'string' },
+            timestamp: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, propertyController.reassignAgentProperties.bind(propertyController));
+
   console.log('✅ Properties routes registered successfully');
 }
 
@@ -1,6 +1,7 @@
 import { buildApp } from './app';
 import { connectDatabase } from './config/database';
 import { config } from './config/index';
+import { startModuleSettingsSync } from './config/module-settings';
 import { logger } from './utils/logger';
 
 async function startServer() {
@@ -17,6 +18,9 @@ async function startServer() {
     // Build and configure app
     const app = await buildApp();
     
+    // Register module settings schema and load runtime limits (falls back to defaults)
+    await startModuleSettingsSync();
+    
     // Start server
     console.log('🔧 DEBUG: About to start server with config:', {
       port: config.PORT,
@@ -1,6 +1,6 @@
-import { PrismaClient, PropertyImage } from '@prisma/client';
+import { Prisma, PrismaClient, PropertyImage } from '@prisma/client';
 import { logger } from '../utils/logger';
-import { storageService } from './storage.service';
+import { storageService, type UploadedImage } from './storage.service';
 
 export interface CreateImageData {
   propertyId: string;
@@ -73,7 +73,7 @@ export class ImageService {
 
       // Upload image to storage
       console.log('🔄 Image Service: Calling storage service...');
-      let uploadedImage: any;
+      let uploadedImage: UploadedImage;
       try {
         console.log('🔄 Image Service: Storage service parameters:', {
           hasFileStream: !!fileStream,
@@ -86,20 +86,13 @@ export class ImageService {
         uploadedImage = await storageService.uploadPropertyImage(
           fileStream,
           originalName,
-          mimeType,
-          {
-            quality: 85,
-            maxWidth: 1920,
-            maxHeight: 1080,
-            generateThumbnail: true,
-            thumbnailWidth: 300,
-            thumbnailHeight: 200,
-          }
+          mimeType
         );
         console.log('✅ Image Service: Storage upload completed:', {
           url: uploadedImage.url,
           size: uploadedImage.size,
-          dimensions: `${uploadedImage.width}x${uploadedImage.height}`
+          dimensions: `${uploadedImage.width}x${uploadedImage.height}`,
+          variants: Object.keys(uploadedImage.variants)
         });
       } catch (uploadError) {
         console.error('❌ Image Service: Storage upload failed:', {
@@ -129,6 +122,10 @@ export class ImageService {
           url: uploadedImage.url,
           alt: alt || `${property?.title || 'Property'} - Image ${imageCount + 1}`,
           order: finalOrder,
+          width: uploadedImage.width ?? null,
+          height: uploadedImage.height ?? null,
+          dominantColor: uploadedImage.dominantColor ?? null,
+          variants: uploadedImage.variants as unknown as Prisma.InputJsonValue,
         }
       });
 
@@ -248,19 +245,13 @@ export class ImageService {
         throw new Error(`Image with ID ${imageId} not found`);
       }
 
-      // Extract filename from URL
-      const filename = image.url.split('/').pop();
-      if (!filename) {
-        throw new Error('Invalid image URL format');
-      }
-
       // Delete from database first
       await this.prisma.propertyImage.delete({
         where: { id: imageId }
       });
 
       // Delete physical files
-      await storageService.deletePropertyImage(imageId, filename);
+      await storageService.deletePropertyImage(imageId, image.url);
 
       // If this was the main image, update property to use next available image
       if (image.property && image.property.imageUrl === image.url) {
@@ -278,7 +269,7 @@ export class ImageService {
       logger.info({
         imageId,
         propertyId: image.propertyId,
-        filename,
+        url: image.url,
       }, 'Property image deleted');
 
     } catch (error) {
@@ -1,44 +1,60 @@
-import fs, { constants, createWriteStream, existsSync, mkdirSync, unlinkSync } from 'fs';
+import fs, { existsSync, mkdirSync, unlinkSync } from 'fs';
 import path from 'path';
 import sharp from 'sharp';
-import { pipeline } from 'stream/promises';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  FALLBACK_VARIANT_NAME,
+  IMAGE_VARIANT_FORMAT_OPTIONS,
+  IMAGE_VARIANT_FORMATS,
+  IMAGE_VARIANTS,
+  type ImageVariant,
+  type ImageVariantDefinition,
+  type ImageVariantFormat,
+  type ImageVariants,
+} from '../config/image-variants';
 import { config } from '../config/index';
+import { getModuleSettings } from '../config/module-settings';
 import { logger } from '../utils/logger';
+import { watermarkService, type Watermark } from './watermark.service';
 
 export interface ImageUploadOptions {
-  quality?: number;
-  maxWidth?: number;
-  maxHeight?: number;
-  generateThumbnail?: boolean;
-  thumbnailWidth?: number;
-  thumbnailHeight?: number;
+  variants?: ImageVariantDefinition[];
+  formats?: ImageVariantFormat[];
 }
 
 export interface UploadedImage {
   id: string;
   originalName: string;
-  filename: string;
-  path: string;
-  url: string;
+  path: string; // directory holding every variant of the image
+  url: string; // JPEG of the fallback variant
   size: number;
   mimeType: string;
   width?: number;
   height?: number;
-  thumbnail?: {
-    filename: string;
-    path: string;
-    url: string;
-  };
+  dominantColor?: string;
+  variants: ImageVariants;
 }
 
+// Upper bound for encoding every variant/format of one image
+const PROCESSING_TIMEOUT_MS = 60000;
+
+// Archived originals keep their input format, re-encoded at high quality without metadata
+const ORIGINAL_FORMATS: Record<string, { extension: string; encode: (pipeline: sharp.Sharp) => sharp.Sharp }> = {
+  'image/jpeg': { extension: '.jpg', encode: (pipeline) => pipeline.jpeg({ quality: 95, mozjpeg: true }) },
+  'image/png': { extension: '.png', encode: (pipeline) => pipeline.png() },
+  'image/webp': { extension: '.webp', encode: (pipeline) => pipeline.webp({ quality: 95 }) },
+  'image/avif': { extension: '.avif', encode: (pipeline) => pipeline.avif({ quality: 90 }) },
+};
+
 export class StorageService {
   private readonly uploadsDir: string;
+  private readonly originalsDir: string;
   private readonly baseUrl: string;
 
   constructor() {
     // Use absolute path within container for uploads directory
     this.uploadsDir = path.resolve('/app/uploads');
+    this.originalsDir = path.resolve(config.IMAGE_ORIGINALS_DIR);
     // Use configuration-based BASE_URL with proper fallbacks
     this.baseUrl = config.BASE_URL || process.env.API_URL || '';
     // In production behind nginx, prefer relative / absolute host from request via gateway.
@@ -60,6 +76,7 @@ export class StorageService {
       path.join(this.uploadsDir, 'properties'),
       path.join(this.uploadsDir, 'properties', 'images'),
       path.join(this.uploadsDir, 'properties', 'thumbnails'),
+      this.originalsDir,
     ];
 
     dirs.forEach(dir => {
@@ -84,7 +101,7 @@ export class StorageService {
     });
   }
 
-    async uploadPropertyImage(
+  async uploadPropertyImage(
     fileStream: NodeJS.ReadableStream,
     originalName: string,
     mimeType: string,
@@ -92,282 +109,91 @@ export class StorageService {
   ): Promise<UploadedImage> {
     console.log('🔄 Storage: Starting image upload:', { originalName, mimeType });
 
-    const {
-      quality = 85,
-      maxWidth = 1920,
-      maxHeight = 1080,
-      generateThumbnail = true,
-      thumbnailWidth = 300,
-      thumbnailHeight = 200,
-    } = options;
+    const { variants = IMAGE_VARIANTS, formats = IMAGE_VARIANT_FORMATS } = options;
+    this.validateFileExtension(originalName);
 
     const fileId = uuidv4();
-    const fileExtension = this.getFileExtension(originalName);
-    const filename = `${fileId}${fileExtension}`;
-    const imagePath = path.join(this.uploadsDir, 'properties', 'images', filename);
+    const imageDir = path.join(this.uploadsDir, 'properties', 'images', fileId);
+    const originalDir = path.join(this.originalsDir, fileId);
 
-    console.log('📁 Storage: File paths:', { fileId, filename, imagePath });
-
-    // Declare variables for cleanup
-    let writeStream: any = null;
-    let thumbnailFilename = '';
-    let thumbnailWriteStream: any = null;
+    console.log('📁 Storage: Variants directory:', { fileId, imageDir });
 
     try {
-      // Process and save the main image
-      console.log('🔄 Storage: Processing image with Sharp...');
-      
-      // Create a more robust Sharp transformer
-      const transformer = sharp({
-        failOnError: false, // Don't fail on minor errors
-        limitInputPixels: 268402689, // ~16K x 16K limit
-        sequentialRead: true, // Better for streams
-        density: 72 // Standard web density
-      })
-      .rotate() // Auto-rotate based on EXIF
-      .resize(maxWidth, maxHeight, {
-        fit: 'inside',
-        withoutEnlargement: true,
-        kernel: sharp.kernel.lanczos3 // Better quality resizing
-      })
-      .jpeg({ 
-        quality,
-        progressive: true, // Progressive JPEG for better loading
-        mozjpeg: true // Better compression
-      });
-
-      console.log('💾 Storage: Writing image to disk...');
+      // Every variant is encoded from the same buffered source (bounded by the multipart fileSize limit)
+      const input = await this.readFileStream(fileStream);
 
-      // Check if we can write to the directory
-      try {
-        const fsPromises = fs.promises;
-        await fsPromises.access(path.dirname(imagePath), constants.W_OK);
-        console.log('✅ Storage: Write permission confirmed for:', path.dirname(imagePath));
-      } catch (accessError) {
-        console.warn('⚠️ Storage: Write permission check failed:', {
-          path: path.dirname(imagePath),
-          error: accessError instanceof Error ? accessError.message : 'Unknown error',
-          code: (accessError as any)?.code
-        });
-
-        // Try to create parent directories again
-        console.log('🔄 Storage: Attempting to recreate directories...');
-        this.ensureUploadsDirectory();
-
-        // Try permission check again after directory creation
-        try {
-          const fsPromises = fs.promises;
-          await fsPromises.access(path.dirname(imagePath), constants.W_OK);
-          console.log('✅ Storage: Write permission confirmed after directory recreation');
-        } catch (retryError) {
-          console.error('❌ Storage: Still no write permission after directory recreation:', retryError);
-        }
+      const detected = this.validateImageBuffer(input);
+      if (!detected.valid) {
+        throw new Error(`Unsupported or corrupted image format: ${originalName}. Please use JPEG, PNG, WebP or AVIF files.`);
       }
 
-      writeStream = createWriteStream(imagePath);
-      console.log('📂 Storage: Write stream created for:', imagePath);
+      await fs.promises.mkdir(imageDir, { recursive: true });
+      await fs.promises.mkdir(originalDir, { recursive: true });
 
-      // Ensure fileStream is readable and has data
-      const nodeStream = fileStream as any; // Cast to Node.js stream for TypeScript
-      if (!fileStream || nodeStream.destroyed || !nodeStream.readable) {
-        console.error('❌ Storage: Invalid file stream detected');
-        throw new Error('Invalid file stream - stream is not readable or was destroyed');
-      }
-
-      // Additional validation for file stream content
-      if (nodeStream.readableLength === 0 && !nodeStream.readableFlowing) {
-        console.error('❌ Storage: File stream appears to be empty');
-        throw new Error('File stream is empty - no data to process');
-      }
-
-      // Log stream status
-      console.log('📊 Storage: File stream status:', {
-        readable: nodeStream.readable,
-        destroyed: nodeStream.destroyed,
-        readableHighWaterMark: nodeStream.readableHighWaterMark,
-        readableLength: nodeStream.readableLength,
-        isPaused: nodeStream.isPaused ? nodeStream.isPaused() : 'unknown'
-      });
-
-      // Resume stream if it's paused
-      if (nodeStream.isPaused && nodeStream.isPaused()) {
-        console.log('🔄 Storage: Resuming paused file stream');
-        nodeStream.resume();
-      }
-
-      // Create a promise that resolves when the pipeline completes or times out
-      console.log('🔄 Storage: Creating processing pipeline...');
-      const pipelinePromise = pipeline(
-        fileStream,
-        transformer,
-        writeStream
-      );
+      // Resolved before the processing timeout starts (bounded by its own request timeouts)
+      const watermark = await watermarkService.getWatermark();
 
-      console.log('🔄 Storage: Pipeline created, waiting for completion...');
+      const source = sharp(input, {
+        failOnError: false, // Don't fail on minor errors
+        limitInputPixels: 268402689, // ~16K x 16K limit
+      }).rotate(); // Auto-rotate based on EXIF
 
-      // Add timeout to prevent infinite loops
+      let timeoutId: NodeJS.Timeout | undefined;
       const timeoutPromise = new Promise<never>((_, reject) => {
-        const timeoutId = setTimeout(() => {
-          console.error('💥 Storage: Image processing timeout reached - 60 seconds');
-          reject(new Error('Image processing timeout after 60 seconds'));
-        }, 60000); // 60 segundos para processamento de imagem
-
-        // Clear timeout if pipeline completes first
-        pipelinePromise.finally(() => {
-          console.log('🕐 Storage: Clearing timeout as pipeline completed');
-          clearTimeout(timeoutId);
-        });
+        timeoutId = setTimeout(() => {
+          reject(new Error(`Image processing timeout after ${PROCESSING_TIMEOUT_MS / 1000} seconds`));
+        }, PROCESSING_TIMEOUT_MS);
       });
 
-      try {
-        console.log('🚀 Storage: Starting pipeline execution...');
-        await Promise.race([pipelinePromise, timeoutPromise]);
-        console.log('✅ Storage: Pipeline completed successfully');
-
-        // Verify file was actually written
-        const stats = await import('fs/promises').then(fs => fs.stat(imagePath));
-        console.log('📊 Storage: File written verification:', {
-          path: imagePath,
-          size: stats.size,
-          exists: true
-        });
-
-      } catch (pipelineError) {
-        console.error('💥 Storage: Pipeline failed:', pipelineError);
-
-        // Log detailed error information
-        const nodeStreamForError = fileStream as any; // Cast to Node.js stream for TypeScript
-        const errorMessage = pipelineError instanceof Error ? pipelineError.message : 'Unknown pipeline error';
-        
-        console.error('💥 Storage: Pipeline error details:', {
-          error: errorMessage,
-          stack: pipelineError instanceof Error ? pipelineError.stack : undefined,
-          writeStreamDestroyed: writeStream?.destroyed,
-          fileStreamDestroyed: nodeStreamForError?.destroyed,
-          imagePath: imagePath,
-          transformerStatus: transformer ? 'created' : 'null',
-          writeStreamStatus: writeStream ? (writeStream.destroyed ? 'destroyed' : 'active') : 'null',
-          mimeType,
-          originalName
-        });
-
-        // Provide more specific error messages
-        if (errorMessage.includes('Input buffer contains unsupported image format')) {
-          console.error('🔍 Storage: Image format issue detected - this might be a corrupted file or unsupported format');
-          throw new Error(`Unsupported or corrupted image format: ${originalName}. Please use JPEG, PNG, or WebP files.`);
-        }
-        
-        if (errorMessage.includes('Input file contains unsupported image format')) {
-          throw new Error(`Invalid image file: ${originalName}. File may be corrupted or not a valid image.`);
-        }
-
-        // Force close streams on error
-        if (writeStream && !writeStream.destroyed) {
-          writeStream.destroy();
-          console.log('🧹 Storage: Write stream destroyed after error');
-        }
-
-        // Check if partial file exists and clean it up
-        try {
-          const fsPromises = fs.promises;
-          await fsPromises.access(imagePath);
-          await fsPromises.unlink(imagePath);
-          console.log('🧹 Storage: Cleaned up partial file:', imagePath);
-        } catch (cleanupError) {
-          // Ignore if file doesn't exist
-        }
+      const [generated, dominantColor] = await Promise.race([
+        Promise.all([
+          this.generateVariants(source, fileId, imageDir, variants, formats, watermark),
+          this.getDominantColor(source),
+          this.archiveOriginal(source, originalDir, detected.detectedType!),
+        ]),
+        timeoutPromise,
+      ]).finally(() => clearTimeout(timeoutId));
 
-        throw pipelineError;
-      }
-
-      console.log('✅ Storage: Image written successfully');
-
-      // Get image metadata
-      console.log('📊 Storage: Getting image metadata...');
-      const metadata = await sharp(imagePath).metadata();
-      const stats = await import('fs/promises').then(fs => fs.stat(imagePath));
+      const fallback = generated[this.getFallbackVariantName(variants)]!;
+      const fallbackUrl = fallback.sources.jpeg!;
+      const stats = await fs.promises.stat(this.getFilePath(fallbackUrl));
 
       const result: UploadedImage = {
         id: fileId,
         originalName,
-        filename,
-        path: imagePath,
-        url: this.baseUrl ? `${this.baseUrl}/uploads/properties/images/${filename}` : `/uploads/properties/images/${filename}`,
+        path: imageDir,
+        url: fallbackUrl,
         size: stats.size,
         mimeType: 'image/jpeg',
-        width: metadata.width,
-        height: metadata.height,
+        width: fallback.width,
+        height: fallback.height,
+        dominantColor,
+        variants: generated,
       };
 
-      console.log('📊 Storage: Image metadata:', {
-        size: result.size,
+      console.log('🎉 Storage: Image variants generated:', {
+        variants: Object.keys(generated),
+        formats,
+        watermarked: !!watermark,
         dimensions: `${result.width}x${result.height}`,
         url: result.url
       });
 
-      // Generate thumbnail if requested
-      if (generateThumbnail) {
-        console.log('🖼️ Storage: Generating thumbnail...');
-        thumbnailFilename = `thumb_${filename}`;
-        const thumbnailPath = path.join(this.uploadsDir, 'properties', 'thumbnails', thumbnailFilename);
-
-        await sharp(imagePath)
-          .resize(thumbnailWidth, thumbnailHeight, { 
-            fit: 'cover',
-            position: 'center'
-          })
-          .jpeg({ quality: 75 })
-          .toFile(thumbnailPath);
-
-        result.thumbnail = {
-          filename: thumbnailFilename,
-          path: thumbnailPath,
-          url: this.baseUrl ? `${this.baseUrl}/uploads/properties/thumbnails/${thumbnailFilename}` : `/uploads/properties/thumbnails/${thumbnailFilename}`,
-        };
-
-        console.log('✅ Storage: Thumbnail generated');
-      }
-
-      console.log('🎉 Storage: Image upload completed successfully');
       return result;
 
     } catch (error) {
       console.error('💥 Storage: Upload failed:', error);
 
-      // Clean up on error - close streams and remove files
+      // Clean up on error - close the input stream and remove any variant already written
       try {
-        // Close write streams if still open
-        if (writeStream && !writeStream.destroyed) {
-          writeStream.destroy();
-          console.log('🧹 Storage: Closed main image write stream');
-        }
-
-        if (thumbnailWriteStream && !thumbnailWriteStream.destroyed) {
-          thumbnailWriteStream.destroy();
-          console.log('🧹 Storage: Closed thumbnail write stream');
-        }
-
-        // Close fileStream if still open
         const nodeStreamForCleanup = fileStream as any; // Cast to Node.js stream for TypeScript
         if (fileStream && !nodeStreamForCleanup.destroyed) {
           nodeStreamForCleanup.destroy();
           console.log('🧹 Storage: Closed input file stream');
         }
 
-        // Remove partially written files
-        if (existsSync(imagePath)) {
-          unlinkSync(imagePath);
-          console.log('🧹 Storage: Cleaned up failed image file');
-        }
-
-        // Remove thumbnail if it was partially created
-        if (generateThumbnail && thumbnailFilename) {
-          const thumbnailPath = path.join(this.uploadsDir, 'properties', 'thumbnails', thumbnailFilename);
-          if (existsSync(thumbnailPath)) {
-            unlinkSync(thumbnailPath);
-            console.log('🧹 Storage: Cleaned up failed thumbnail file');
-          }
-        }
+        await fs.promises.rm(imageDir, { recursive: true, force: true });
+        await fs.promises.rm(originalDir, { recursive: true, force: true });
       } catch (cleanupError) {
         console.error('⚠️ Storage: Error during cleanup:', cleanupError);
       }
@@ -377,6 +203,9 @@ export class StorageService {
         if (error.message.includes('timeout')) {
           throw new Error('Image processing timed out. The file may be too large or corrupted.');
         }
+        if (error.message.includes('unsupported image format')) {
+          throw new Error(`Invalid image file: ${originalName}. File may be corrupted or not a valid image.`);
+        }
         throw new Error(`Failed to upload image: ${error.message}`);
       }
 
@@ -384,8 +213,141 @@ export class StorageService {
     }
   }
 
-  async deletePropertyImage(imageId: string, filename: string): Promise<void> {
+  /**
+   * Encode each named variant in every configured format (files: images/<fileId>/<variant>.<ext>).
+   * Each variant is resized once to raw pixels and encoded from those, so no EXIF/GPS/XMP metadata
+   * from the camera can reach the published files; the watermark, if any, is composited at that size.
+   */
+  private async generateVariants(
+    source: sharp.Sharp,
+    fileId: string,
+    imageDir: string,
+    variants: ImageVariantDefinition[],
+    formats: ImageVariantFormat[],
+    watermark: Watermark | null
+  ): Promise<ImageVariants> {
+    const generated: ImageVariants = {};
+
+    for (const variant of variants) {
+      const { data, info } = await source.clone()
+        .resize(variant.width, variant.height, {
+          fit: variant.fit,
+          withoutEnlargement: true,
+          kernel: sharp.kernel.lanczos3 // Better quality resizing
+        })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      let resized = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+      if (watermark) {
+        resized = await watermarkService.apply(resized, info.width, info.height, watermark);
+      }
+
+      const entry: ImageVariant = { width: info.width, height: info.height, sources: {} };
+      for (const format of formats) {
+        const filename = `${variant.name}${IMAGE_VARIANT_FORMAT_OPTIONS[format].extension}`;
+        await this.encode(resized.clone(), format).toFile(path.join(imageDir, filename));
+        entry.sources[format] = this.getPublicUrl(`properties/images/${fileId}/${filename}`);
+      }
+
+      generated[variant.name] = entry;
+    }
+
+    return generated;
+  }
+
+  private encode(pipeline: sharp.Sharp, format: ImageVariantFormat): sharp.Sharp {
+    const { quality } = IMAGE_VARIANT_FORMAT_OPTIONS[format];
+
+    switch (format) {
+      case 'avif':
+        return pipeline.avif({ quality, effort: 4 });
+      case 'webp':
+        return pipeline.webp({ quality });
+      default:
+        return pipeline.jpeg({
+          quality,
+          progressive: true, // Progressive JPEG for better loading
+          mozjpeg: true // Better compression
+        });
+    }
+  }
+
+  /**
+   * Full-resolution copy without watermark (originals/<fileId>/original.<ext>), not publicly served.
+   * Metadata is stripped here too; only the EXIF orientation is applied beforehand.
+   */
+  private async archiveOriginal(source: sharp.Sharp, originalDir: string, mimeType: string): Promise<void> {
+    const { extension, encode } = ORIGINAL_FORMATS[mimeType] ?? ORIGINAL_FORMATS['image/jpeg']!;
+    await encode(source.clone()).toFile(path.join(originalDir, `original${extension}`));
+  }
+
+  private async getDominantColor(source: sharp.Sharp): Promise<string | undefined> {
     try {
+      const { dominant } = await source.clone().stats();
+      return `#${[dominant.r, dominant.g, dominant.b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+    } catch (error) {
+      logger.debug({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Could not compute dominant color');
+      return undefined;
+    }
+  }
+
+  private getFallbackVariantName(variants: ImageVariantDefinition[]): string {
+    if (variants.some((variant) => variant.name === FALLBACK_VARIANT_NAME)) {
+      return FALLBACK_VARIANT_NAME;
+    }
+    return variants.reduce((largest, variant) =>
+      variant.width * variant.height > largest.width * largest.height ? variant : largest
+    ).name;
+  }
+
+  private async readFileStream(fileStream: NodeJS.ReadableStream): Promise<Buffer> {
+    const nodeStream = fileStream as any; // Cast to Node.js stream for TypeScript
+    if (!fileStream || nodeStream.destroyed || !nodeStream.readable) {
+      console.error('❌ Storage: Invalid file stream detected');
+      throw new Error('Invalid file stream - stream is not readable or was destroyed');
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of fileStream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+
+    const buffer = Buffer.concat(chunks);
+    if (buffer.length === 0) {
+      console.error('❌ Storage: File stream appears to be empty');
+      throw new Error('File stream is empty - no data to process');
+    }
+
+    return buffer;
+  }
+
+  private getPublicUrl(relativePath: string): string {
+    return this.baseUrl ? `${this.baseUrl}/uploads/${relativePath}` : `/uploads/${relativePath}`;
+  }
+
+  private getFilePath(url: string): string {
+    const relativePath = url.slice(url.indexOf('/uploads/') + '/uploads/'.length);
+    return path.join(this.uploadsDir, relativePath);
+  }
+
+  async deletePropertyImage(imageId: string, imageUrl: string): Promise<void> {
+    try {
+      // Variant uploads live in images/<fileId>/
+      const variantsMatch = /\/uploads\/properties\/images\/([0-9a-f-]{36})\//.exec(imageUrl);
+      if (variantsMatch) {
+        await fs.promises.rm(path.join(this.uploadsDir, 'properties', 'images', variantsMatch[1]!), { recursive: true, force: true });
+        await fs.promises.rm(path.join(this.originalsDir, variantsMatch[1]!), { recursive: true, force: true });
+        logger.info({ imageId, fileId: variantsMatch[1] }, 'Image variants deleted');
+        return;
+      }
+
+      // Older uploads are a single JPEG plus a thumb_ copy
+      const filename = imageUrl.split('/').pop();
+      if (!filename) {
+        throw new Error('Invalid image URL format');
+      }
+
       const imagePath = path.join(this.uploadsDir, 'properties', 'images', filename);
       const thumbnailFilename = `thumb_${filename}`;
       const thumbnailPath = path.join(this.uploadsDir, 'properties', 'thumbnails', thumbnailFilename);
@@ -406,23 +368,21 @@ export class StorageService {
       logger.error({
         error: error instanceof Error ? error.message : 'Unknown error',
         imageId,
-        filename,
+        imageUrl,
       }, 'Failed to delete image files');
 
       throw new Error(`Failed to delete image files: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private getFileExtension(filename: string): string {
+  private validateFileExtension(filename: string): void {
     const ext = path.extname(filename).toLowerCase();
-    
-    // Always save as .jpg for consistency and compression
-    const supportedExtensions = ['.jpg', '.jpeg', '.png', '.webp'];
-    if (supportedExtensions.includes(ext)) {
-      return '.jpg';
+
+    // Output formats come from IMAGE_VARIANT_FORMATS, whatever the input format
+    const supportedExtensions = ['.jpg', '.jpeg', '.png', '.webp', '.avif'];
+    if (!supportedExtensions.includes(ext)) {
+      throw new Error(`Unsupported file extension: ${ext}`);
     }
-    
-    throw new Error(`Unsupported file extension: ${ext}`);
   }
 
   getImageUrl(filename: string, thumbnail = false): string {
@@ -437,7 +397,8 @@ export class StorageService {
       'image/jpeg',
       'image/jpg', 
       'image/png',
-      'image/webp'
+      'image/webp',
+      'image/avif'
     ];
 
     if (!allowedMimeTypes.includes(mimeType)) {
@@ -447,8 +408,8 @@ export class StorageService {
       };
     }
 
-    // Check file size (20MB limit)
-    const maxSize = 20 * 1024 * 1024; // 20MB
+    // Check file size (maxImageSizeMb module setting, tunable from the admin panel)
+    const maxSize = getModuleSettings().maxImageSizeMb * 1024 * 1024;
     if (fileSize > maxSize) {
       return {
         valid: false,
@@ -495,6 +456,12 @@ export class StorageService {
       return { valid: true, detectedType: 'image/webp' };
     }
 
+    // AVIF: ISO BMFF box "ftyp" with an avif/avis brand
+    if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp' &&
+        ['avif', 'avis'].includes(buffer.toString('ascii', 8, 12))) {
+      return { valid: true, detectedType: 'image/avif' };
+    }
+
     return { valid: false, error: 'Unrecognized image format based on file header' };
   }
 }
@@ -0,0 +1,129 @@
+import sharp from 'sharp';
+import { config } from '../config/index';
+import { getModuleSettings, type WatermarkPosition } from '../config/module-settings';
+import { logger } from '../utils/logger';
+
+// The logo URL is re-read from settings-service (and the image re-downloaded when it changes) at most this often
+const LOGO_CACHE_TTL_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 5 * 1024 * 1024;
+
+// Logo box relative to the photo, and the margin around it relative to the logo
+const WATERMARK_SIZE_RATIO = 0.2;
+const WATERMARK_MARGIN_RATIO = 0.15;
+const MIN_WATERMARK_PX = 16;
+
+const GRAVITY: Record<WatermarkPosition, string> = {
+  'top-left': 'northwest',
+  'top-right': 'northeast',
+  'bottom-left': 'southwest',
+  'bottom-right': 'southeast',
+  center: 'centre',
+};
+
+export interface Watermark {
+  logo: Buffer;
+  position: WatermarkPosition;
+  opacity: number;
+}
+
+export class WatermarkService {
+  private cached: { logoUrl: string | null; logo: Buffer | null; loadedAt: number } | null = null;
+
+  /**
+   * Watermark to apply to new uploads, or null when disabled in the module settings or no logo is available.
+   * Never throws: uploads go through unbranded if settings-service or the logo cannot be reached.
+   */
+  async getWatermark(): Promise<Watermark | null> {
+    const { watermarkEnabled, watermarkPosition, watermarkOpacity } = getModuleSettings();
+    if (!watermarkEnabled) {
+      return null;
+    }
+
+    const logo = await this.getLogo();
+    return logo ? { logo, position: watermarkPosition, opacity: watermarkOpacity } : null;
+  }
+
+  /**
+   * Composite the watermark onto a photo already resized to `width` x `height`
+   */
+  async apply(image: sharp.Sharp, width: number, height: number, watermark: Watermark): Promise<sharp.Sharp> {
+    const boxWidth = Math.round(width * WATERMARK_SIZE_RATIO);
+    const boxHeight = Math.round(height * WATERMARK_SIZE_RATIO);
+    if (boxWidth < MIN_WATERMARK_PX || boxHeight < MIN_WATERMARK_PX) {
+      return image;
+    }
+
+    const margin = Math.round(Math.min(boxWidth, boxHeight) * WATERMARK_MARGIN_RATIO);
+    const overlay = await sharp(watermark.logo)
+      .resize(boxWidth, boxHeight, { fit: 'inside' })
+      .ensureAlpha()
+      // Scale the logo's own alpha channel by the configured opacity
+      .composite([{
+        input: Buffer.from([255, 255, 255, Math.round(watermark.opacity * 255)]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in',
+      }])
+      .png()
+      .toBuffer();
+
+    const padded = await sharp(overlay)
+      .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+
+    return image.composite([{ input: padded, gravity: GRAVITY[watermark.position] }]);
+  }
+
+  private async getLogo(): Promise<Buffer | null> {
+    if (this.cached && Date.now() - this.cached.loadedAt < LOGO_CACHE_TTL_MS) {
+      return this.cached.logo;
+    }
+
+    try {
+      const logoUrl = await this.fetchLogoUrl();
+      const logo = logoUrl === this.cached?.logoUrl && this.cached.logo
+        ? this.cached.logo
+        : logoUrl ? await this.downloadLogo(logoUrl) : null;
+
+      this.cached = { logoUrl, logo, loadedAt: Date.now() };
+      return logo;
+    } catch (error) {
+      logger.warn({
+        error: error instanceof Error ? error.message : String(error),
+      }, 'Watermark logo unavailable, uploading without watermark');
+      return this.cached?.logo ?? null;
+    }
+  }
+
+  private async fetchLogoUrl(): Promise<string | null> {
+    const response = await fetch(`${config.SETTINGS_SERVICE_URL.replace(/\/+$/, '')}/api/v1/settings`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Settings service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as { data?: { logoUrl?: string | null } };
+    return body.data?.logoUrl || null;
+  }
+
+  private async downloadLogo(logoUrl: string): Promise<Buffer> {
+    const response = await fetch(logoUrl, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Logo download responded with ${response.status}`);
+    }
+
+    const logo = Buffer.from(await response.arrayBuffer());
+    if (logo.length > MAX_LOGO_BYTES) {
+      throw new Error(`Logo is larger than ${MAX_LOGO_BYTES / (1024 * 1024)}MB`);
+    }
+
+    // Fails early on anything sharp cannot decode (e.g. an HTML error page)
+    await sharp(logo).metadata();
+    return logo;
+  }
+}
+
+export const watermarkService = new WatermarkService();
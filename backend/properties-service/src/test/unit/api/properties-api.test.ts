@@ -174,7 +174,18 @@ describe('PropertiesAPI', () => {
 
       expect(response.success).toBe(true);
       expect(response.data).toEqual(updatedProperty);
-      expect(mockCore.updateProperty).toHaveBeenCalledWith('test-id-123', updateData);
+      expect(mockCore.updateProperty).toHaveBeenCalledWith('test-id-123', updateData, undefined);
+    });
+
+    it('should pass the change context to the core', async () => {
+      const updateData: PropertyUpdateData = { price: 240000 };
+      const context = { changedBy: 'user-1', reason: 'Price review' };
+
+      mockCore.updateProperty.mockResolvedValue({ ...mockPropertyData, price: 240000 });
+
+      await api.updateProperty('test-id-123', updateData, context);
+
+      expect(mockCore.updateProperty).toHaveBeenCalledWith('test-id-123', updateData, context);
     });
   });
 
@@ -0,0 +1,176 @@
+/**
+ * FavoriteCore Unit Tests
+ *
+ * Testing favorite rules in isolation
+ * NO DATABASE - just an in-memory gateway
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FavoriteCore, FavoriteValidationError } from '../../../core/favorite-core';
+import { PropertyNotFoundError } from '../../../core/property-core';
+import {
+    FavoriteData,
+    FavoriteListFilterData,
+    FavoriteStats,
+    PaginatedFavoriteData
+} from '../../../domain/favorite-types';
+import { FavoriteDataGateway } from '../../../gateways/favorite-data-gateway';
+
+const PROPERTY_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_PROPERTY_ID = '33333333-3333-4333-8333-333333333333';
+const UNKNOWN_PROPERTY_ID = '22222222-2222-4222-8222-222222222222';
+
+// In-memory gateway implementation for testing
+class InMemoryFavoriteGateway implements FavoriteDataGateway {
+  favorites: FavoriteData[] = [];
+  private knownPropertyIds = new Set([PROPERTY_ID, OTHER_PROPERTY_ID]);
+  private nextId = 1;
+
+  async add(propertyId: string, userId: string): Promise<FavoriteData> {
+    const existing = this.favorites.find(f => f.propertyId === propertyId && f.userId === userId);
+    if (existing) return existing;
+
+    const favorite = {
+      id: `00000000-0000-4000-8000-${String(this.nextId++).padStart(12, '0')}`,
+      propertyId,
+      userId,
+      createdAt: new Date(Date.now() + this.nextId),
+    };
+    this.favorites.push(favorite);
+    return favorite;
+  }
+
+  async remove(propertyId: string, userId: string): Promise<boolean> {
+    const before = this.favorites.length;
+    this.favorites = this.favorites.filter(f => !(f.propertyId === propertyId && f.userId === userId));
+    return this.favorites.length < before;
+  }
+
+  async findByUser(userId: string, filters: FavoriteListFilterData): Promise<PaginatedFavoriteData> {
+    const own = this.favorites
+      .filter(f => f.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const start = filters.cursor ? own.findIndex(f => f.id === filters.cursor) + 1 : 0;
+    const page = own.slice(start, start + filters.limit);
+    const hasMore = start + filters.limit < own.length;
+
+    return {
+      favorites: page.map(f => ({
+        ...f,
+        property: { id: f.propertyId, title: 'Apartamento', location: 'Porto', price: 250000, status: 'for_sale', imageUrl: null },
+      })),
+      pagination: {
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+        hasMore,
+        limit: filters.limit,
+        totalEstimate: filters.cursor ? undefined : own.length,
+      },
+    };
+  }
+
+  async getStats(propertyIds: string[], userId?: string): Promise<FavoriteStats> {
+    const counts = new Map<string, number>();
+    const favoritedIds = new Set<string>();
+
+    for (const favorite of this.favorites.filter(f => propertyIds.includes(f.propertyId))) {
+      counts.set(favorite.propertyId, (counts.get(favorite.propertyId) ?? 0) + 1);
+      if (favorite.userId === userId) favoritedIds.add(favorite.propertyId);
+    }
+
+    return { counts, favoritedIds };
+  }
+
+  async propertyExists(propertyId: string): Promise<boolean> {
+    return this.knownPropertyIds.has(propertyId);
+  }
+}
+
+describe('FavoriteCore', () => {
+  let gateway: InMemoryFavoriteGateway;
+  let core: FavoriteCore;
+
+  beforeEach(() => {
+    gateway = new InMemoryFavoriteGateway();
+    core = new FavoriteCore(gateway);
+  });
+
+  describe('addFavorite', () => {
+    it('should save a favorite and report the new count', async () => {
+      await core.addFavorite(PROPERTY_ID, 'user-1');
+      const status = await core.addFavorite(PROPERTY_ID, 'user-2');
+
+      expect(status).toEqual({ propertyId: PROPERTY_ID, isFavorite: true, favoriteCount: 2 });
+    });
+
+    it('should be idempotent', async () => {
+      await core.addFavorite(PROPERTY_ID, 'user-1');
+      const status = await core.addFavorite(PROPERTY_ID, 'user-1');
+
+      expect(status.favoriteCount).toBe(1);
+      expect(gateway.favorites).toHaveLength(1);
+    });
+
+    it('should reject unknown properties', async () => {
+      await expect(core.addFavorite(UNKNOWN_PROPERTY_ID, 'user-1'))
+        .rejects
+        .toThrow(PropertyNotFoundError);
+    });
+
+    it('should reject invalid property IDs and missing users', async () => {
+      await expect(core.addFavorite('not-a-uuid', 'user-1'))
+        .rejects
+        .toThrow(FavoriteValidationError);
+      await expect(core.addFavorite(PROPERTY_ID, ' '))
+        .rejects
+        .toThrow(FavoriteValidationError);
+    });
+  });
+
+  describe('removeFavorite', () => {
+    it('should remove only the caller\'s favorite', async () => {
+      await core.addFavorite(PROPERTY_ID, 'user-1');
+      await core.addFavorite(PROPERTY_ID, 'user-2');
+
+      const status = await core.removeFavorite(PROPERTY_ID, 'user-1');
+
+      expect(status).toEqual({ propertyId: PROPERTY_ID, isFavorite: false, favoriteCount: 1 });
+    });
+
+    it('should succeed when the property was not a favorite', async () => {
+      const status = await core.removeFavorite(PROPERTY_ID, 'user-1');
+
+      expect(status).toEqual({ propertyId: PROPERTY_ID, isFavorite: false, favoriteCount: 0 });
+    });
+  });
+
+  describe('listFavorites', () => {
+    it('should list the user\'s favorites, most recent first', async () => {
+      await core.addFavorite(PROPERTY_ID, 'user-1');
+      await core.addFavorite(OTHER_PROPERTY_ID, 'user-1');
+      await core.addFavorite(PROPERTY_ID, 'user-2');
+
+      const result = await core.listFavorites('user-1');
+
+      expect(result.favorites.map(f => f.propertyId)).toEqual([OTHER_PROPERTY_ID, PROPERTY_ID]);
+      expect(result.pagination).toMatchObject({ hasMore: false, limit: 20, totalEstimate: 2 });
+    });
+
+    it('should paginate with a cursor', async () => {
+      await core.addFavorite(PROPERTY_ID, 'user-1');
+      await core.addFavorite(OTHER_PROPERTY_ID, 'user-1');
+
+      const first = await core.listFavorites('user-1', { limit: 1 });
+      const second = await core.listFavorites('user-1', { limit: 1, cursor: first.pagination.nextCursor! });
+
+      expect(first.pagination.hasMore).toBe(true);
+      expect(second.favorites.map(f => f.propertyId)).toEqual([PROPERTY_ID]);
+      expect(second.pagination.hasMore).toBe(false);
+    });
+
+    it('should reject out of range limits', async () => {
+      await expect(core.listFavorites('user-1', { limit: 101 }))
+        .rejects
+        .toThrow(FavoriteValidationError);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * ModerationCore Unit Tests
+ *
+ * Testing the listing review workflow in isolation
+ * NO DATABASE - just an in-memory gateway
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+    adminStatusFor,
+    ModerationCore,
+    ModerationForbiddenError,
+    ModerationTransitionError,
+    ModerationValidationError
+} from '../../../core/moderation-core';
+import { PropertyNotFoundError } from '../../../core/property-core';
+import {
+    ModerationEventData,
+    ModerationListingData,
+    ModerationNotification,
+    ModerationQueueFilterData,
+    ModerationRecord,
+    ModerationStatus,
+    ModerationTransitionData,
+    PaginatedModerationQueue
+} from '../../../domain/moderation-types';
+import { ModerationDataGateway, ModerationNotifier } from '../../../gateways/moderation-data-gateway';
+
+const PROPERTY_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_PROPERTY_ID = '33333333-3333-4333-8333-333333333333';
+const UNKNOWN_PROPERTY_ID = '22222222-2222-4222-8222-222222222222';
+
+const ADMIN = { userId: 'admin-1', isReviewer: true };
+const AGENT = { userId: 'agent-1', isReviewer: false };
+const OTHER_AGENT = { userId: 'agent-2', isReviewer: false };
+
+function completeListing(id: string): ModerationListingData {
+  return {
+    id,
+    title: 'Apartamento T2 com vista rio',
+    location: 'Porto, Ribeira',
+    price: 250000,
+    type: 'apartamento',
+    description: 'Apartamento renovado, luminoso, com varanda e vista para o rio Douro.',
+    area: 85,
+    coordinates: { latitude: 41.14, longitude: -8.61 },
+    imageUrl: null,
+    imageCount: 3,
+  };
+}
+
+function draftRecord(propertyId: string, agentId: string): ModerationRecord {
+  return {
+    propertyId,
+    status: 'DRAFT',
+    adminStatus: 'PENDING',
+    ownerId: agentId,
+    agentId,
+    submittedAt: null,
+    submittedBy: null,
+    reviewedAt: null,
+    reviewedBy: null,
+    rejectionReason: null,
+  };
+}
+
+// In-memory gateway implementation for testing
+class InMemoryModerationGateway implements ModerationDataGateway {
+  records = new Map<string, ModerationRecord>();
+  listings = new Map<string, ModerationListingData>();
+  events: ModerationEventData[] = [];
+
+  async findRecord(propertyId: string): Promise<ModerationRecord | null> {
+    const record = this.records.get(propertyId);
+    return record ? { ...record } : null;
+  }
+
+  async findListing(propertyId: string): Promise<ModerationListingData | null> {
+    return this.listings.get(propertyId) ?? null;
+  }
+
+  async getHistory(propertyId: string): Promise<ModerationEventData[]> {
+    return this.events.filter(e => e.propertyId === propertyId);
+  }
+
+  async applyTransition(propertyId: string, transition: ModerationTransitionData): Promise<ModerationRecord | null> {
+    const record = this.records.get(propertyId);
+    if (!record || record.status !== transition.fromStatus) return null;
+
+    const { action, fromStatus, toStatus, adminStatus, actorId, reason, ...fields } = transition;
+    const updated = { ...record, ...fields, status: toStatus, adminStatus };
+    this.records.set(propertyId, updated);
+    this.events.push({
+      id: String(this.events.length + 1),
+      propertyId,
+      action,
+      fromStatus,
+      toStatus,
+      actorId,
+      reason,
+      createdAt: new Date(),
+    });
+    return { ...updated };
+  }
+
+  async findQueue(filters: ModerationQueueFilterData): Promise<PaginatedModerationQueue> {
+    const direction = filters.sortOrder === 'asc' ? 1 : -1;
+    const items = Array.from(this.records.values())
+      .filter(r => filters.status.includes(r.status))
+      .filter(r => !filters.agentId || r.agentId === filters.agentId)
+      .filter(r => !filters.submittedBefore || (r.submittedAt !== null && r.submittedAt <= filters.submittedBefore))
+      .sort((a, b) => direction * ((a.submittedAt?.getTime() ?? 0) - (b.submittedAt?.getTime() ?? 0)))
+      .slice(0, filters.limit);
+
+    return {
+      items: items.map(r => ({ ...r, listing: this.listings.get(r.propertyId)! })),
+      pagination: { nextCursor: null, hasMore: false, limit: filters.limit },
+    };
+  }
+
+  async countByStatus(agentId?: string): Promise<Partial<Record<ModerationStatus, number>>> {
+    const counts: Partial<Record<ModerationStatus, number>> = {};
+    for (const record of this.records.values()) {
+      if (agentId && record.agentId !== agentId) continue;
+      counts[record.status] = (counts[record.status] ?? 0) + 1;
+    }
+    return counts;
+  }
+}
+
+class RecordingNotifier implements ModerationNotifier {
+  sent: ModerationNotification[] = [];
+  failing = false;
+
+  async notify(notification: ModerationNotification): Promise<void> {
+    if (this.failing) throw new Error('users-service unavailable');
+    this.sent.push(notification);
+  }
+}
+
+describe('ModerationCore', () => {
+  let gateway: InMemoryModerationGateway;
+  let notifier: RecordingNotifier;
+  let core: ModerationCore;
+
+  beforeEach(() => {
+    gateway = new InMemoryModerationGateway();
+    notifier = new RecordingNotifier();
+    core = new ModerationCore(gateway, notifier);
+
+    gateway.records.set(PROPERTY_ID, draftRecord(PROPERTY_ID, AGENT.userId));
+    gateway.listings.set(PROPERTY_ID, completeListing(PROPERTY_ID));
+    gateway.records.set(OTHER_PROPERTY_ID, draftRecord(OTHER_PROPERTY_ID, OTHER_AGENT.userId));
+    gateway.listings.set(OTHER_PROPERTY_ID, completeListing(OTHER_PROPERTY_ID));
+  });
+
+  describe('getChecklist', () => {
+    it('should pass a complete listing', () => {
+      expect(core.getChecklist(completeListing(PROPERTY_ID)).complete).toBe(true);
+    });
+
+    it('should report the missing fields', () => {
+      const checklist = core.getChecklist({
+        ...completeListing(PROPERTY_ID),
+        description: 'Curta',
+        coordinates: null,
+        imageCount: 0,
+      });
+
+      expect(checklist.complete).toBe(false);
+      expect(checklist.items.filter(i => !i.passed).map(i => i.field)).toEqual(['description', 'coordinates', 'images']);
+    });
+
+    it('should count the cover image as a photo', () => {
+      const checklist = core.getChecklist({ ...completeListing(PROPERTY_ID), imageCount: 0, imageUrl: 'https://cdn/x.jpg' });
+
+      expect(checklist.complete).toBe(true);
+    });
+  });
+
+  describe('transition', () => {
+    it('should take a listing from draft to published', async () => {
+      const submitted = await core.transition(PROPERTY_ID, 'submit', AGENT, null, new Date('2026-10-01T10:00:00Z'));
+      expect(submitted).toMatchObject({ status: 'SUBMITTED', adminStatus: 'PENDING', submittedBy: AGENT.userId });
+
+      const approved = await core.transition(PROPERTY_ID, 'approve', ADMIN);
+      expect(approved).toMatchObject({ status: 'APPROVED', reviewedBy: ADMIN.userId });
+
+      const published = await core.transition(PROPERTY_ID, 'publish', ADMIN);
+      expect(published).toMatchObject({ status: 'PUBLISHED', adminStatus: 'ACTIVE' });
+
+      expect(gateway.events.map(e => e.action)).toEqual(['submit', 'approve', 'publish']);
+    });
+
+    it('should stamp the publication date only when the listing goes public', async () => {
+      const publishedAt = new Date('2026-10-05T09:00:00Z');
+      await core.transition(PROPERTY_ID, 'submit', AGENT);
+      await core.transition(PROPERTY_ID, 'approve', ADMIN);
+
+      expect(gateway.records.get(PROPERTY_ID)).not.toHaveProperty('publishedAt');
+
+      await core.transition(PROPERTY_ID, 'publish', ADMIN, null, publishedAt);
+
+      expect(gateway.records.get(PROPERTY_ID)).toMatchObject({ adminStatus: 'ACTIVE', publishedAt });
+    });
+
+    it('should require a reason to reject and keep it for the agent', async () => {
+      await core.transition(PROPERTY_ID, 'submit', AGENT);
+
+      await expect(core.transition(PROPERTY_ID, 'reject', ADMIN, '  '))
+        .rejects
+        .toThrow(ModerationValidationError);
+
+      const rejected = await core.transition(PROPERTY_ID, 'reject', ADMIN, 'Fotografias com marca de água de outra agência');
+      expect(rejected).toMatchObject({
+        status: 'REJECTED',
+        rejectionReason: 'Fotografias com marca de água de outra agência',
+      });
+    });
+
+    it('should clear the rejection when the listing is resubmitted', async () => {
+      await core.transition(PROPERTY_ID, 'submit', AGENT);
+      await core.transition(PROPERTY_ID, 'reject', ADMIN, 'Preço em falta');
+
+      const resubmitted = await core.transition(PROPERTY_ID, 'submit', AGENT);
+
+      expect(resubmitted).toMatchObject({ status: 'SUBMITTED', rejectionReason: null, reviewedBy: null });
+    });
+
+    it('should not submit incomplete listings', async () => {
+      gateway.listings.set(PROPERTY_ID, { ...completeListing(PROPERTY_ID), type: null });
+
+      const error = await core.transition(PROPERTY_ID, 'submit', AGENT).catch(e => e);
+
+      expect(error).toBeInstanceOf(ModerationValidationError);
+      expect(error.details).toEqual([expect.objectContaining({ field: 'type', passed: false })]);
+      expect(gateway.records.get(PROPERTY_ID)!.status).toBe('DRAFT');
+    });
+
+    it('should reject actions that do not apply to the current status', async () => {
+      await expect(core.transition(PROPERTY_ID, 'publish', ADMIN))
+        .rejects
+        .toThrow(ModerationTransitionError);
+    });
+
+    it('should keep review actions for reviewers', async () => {
+      await core.transition(PROPERTY_ID, 'submit', AGENT);
+
+      await expect(core.transition(PROPERTY_ID, 'approve', AGENT))
+        .rejects
+        .toThrow(ModerationForbiddenError);
+    });
+
+    it('should only let agents act on their own listings', async () => {
+      await expect(core.transition(PROPERTY_ID, 'submit', OTHER_AGENT))
+        .rejects
+        .toThrow(ModerationForbiddenError);
+    });
+
+    it('should reject unknown properties and invalid IDs', async () => {
+      await expect(core.transition(UNKNOWN_PROPERTY_ID, 'submit', ADMIN))
+        .rejects
+        .toThrow(PropertyNotFoundError);
+      await expect(core.transition('not-a-uuid', 'submit', ADMIN))
+        .rejects
+        .toThrow(ModerationValidationError);
+    });
+
+    it('should notify the submitting agent of review outcomes', async () => {
+      await core.transition(PROPERTY_ID, 'submit', AGENT);
+      await core.transition(PROPERTY_ID, 'reject', ADMIN, 'Descrição incompleta');
+
+      expect(notifier.sent).toEqual([{
+        recipientId: AGENT.userId,
+        propertyId: PROPERTY_ID,
+        propertyTitle: 'Apartamento T2 com vista rio',
+        action: 'reject',
+        status: 'REJECTED',
+        reason: 'Descrição incompleta',
+      }]);
+    });
+
+    it('should not undo the review when the notification fails', async () => {
+      notifier.failing = true;
+      await core.transition(PROPERTY_ID, 'submit', AGENT);
+
+      const approved = await core.transition(PROPERTY_ID, 'approve', ADMIN);
+
+      expect(approved.status).toBe('APPROVED');
+    });
+  });
+
+  describe('getDetails', () => {
+    it('should include the checklist and history', async () => {
+      await core.transition(PROPERTY_ID, 'submit', AGENT);
+
+      const details = await core.getDetails(PROPERTY_ID, AGENT);
+
+      expect(details.status).toBe('SUBMITTED');
+      expect(details.checklist.complete).toBe(true);
+      expect(details.history).toHaveLength(1);
+    });
+
+    it('should hide the review from other agents', async () => {
+      await expect(core.getDetails(PROPERTY_ID, OTHER_AGENT))
+        .rejects
+        .toThrow(ModerationForbiddenError);
+    });
+  });
+
+  describe('getQueue', () => {
+    it('should list submitted listings, oldest first, with their waiting time', async () => {
+      const now = new Date('2026-10-03T10:00:00Z');
+      await core.transition(OTHER_PROPERTY_ID, 'submit', OTHER_AGENT, null, new Date('2026-10-02T10:00:00Z'));
+      await core.transition(PROPERTY_ID, 'submit', AGENT, null, new Date('2026-10-01T10:00:00Z'));
+
+      const result = await core.getQueue({}, ADMIN, now);
+
+      expect(result.items.map(i => i.propertyId)).toEqual([PROPERTY_ID, OTHER_PROPERTY_ID]);
+      expect(result.items.map(i => i.waitingHours)).toEqual([48, 24]);
+      expect(result.counts).toMatchObject({ SUBMITTED: 2, DRAFT: 0 });
+    });
+
+    it('should filter by minimum waiting time', async () => {
+      const now = new Date('2026-10-03T10:00:00Z');
+      await core.transition(OTHER_PROPERTY_ID, 'submit', OTHER_AGENT, null, new Date('2026-10-03T08:00:00Z'));
+      await core.transition(PROPERTY_ID, 'submit', AGENT, null, new Date('2026-10-01T10:00:00Z'));
+
+      const result = await core.getQueue({ minWaitingHours: 24 }, ADMIN, now);
+
+      expect(result.items.map(i => i.propertyId)).toEqual([PROPERTY_ID]);
+    });
+
+    it('should scope agents to their own listings', async () => {
+      const result = await core.getQueue({ status: ['DRAFT'], agentId: OTHER_AGENT.userId }, AGENT);
+
+      expect(result.items.map(i => i.propertyId)).toEqual([PROPERTY_ID]);
+      expect(result.counts.DRAFT).toBe(1);
+    });
+
+    it('should reject unknown statuses and out of range limits', async () => {
+      await expect(core.getQueue({ status: ['PENDING' as ModerationStatus] }, ADMIN))
+        .rejects
+        .toThrow(ModerationValidationError);
+      await expect(core.getQueue({ limit: 101 }, ADMIN))
+        .rejects
+        .toThrow(ModerationValidationError);
+    });
+  });
+
+  describe('adminStatusFor', () => {
+    it('should only make published listings public', () => {
+      expect(adminStatusFor('PUBLISHED')).toBe('ACTIVE');
+      expect(adminStatusFor('ARCHIVED')).toBe('INACTIVE');
+      expect(adminStatusFor('APPROVED')).toBe('PENDING');
+    });
+  });
+});
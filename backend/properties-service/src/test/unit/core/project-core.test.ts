@@ -0,0 +1,242 @@
+/**
+ * ProjectCore Unit Tests
+ *
+ * Testing portfolio project business logic in isolation
+ * NO DATABASE, NO NETWORK - just an in-memory gateway
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_PROJECT_CONFIG, ProjectCore, ProjectNotFoundError, ProjectValidationError } from '../../../core/project-core';
+import {
+    PaginatedProjectData,
+    ProjectCreateData,
+    ProjectData,
+    ProjectFilterData,
+    ProjectUpdateData
+} from '../../../domain/project-types';
+import { ProjectDataGateway } from '../../../gateways/project-data-gateway';
+
+const PROPERTY_ID = '11111111-1111-4111-8111-111111111111';
+const UNKNOWN_PROPERTY_ID = '22222222-2222-4222-8222-222222222222';
+
+// In-memory gateway implementation for testing
+class InMemoryProjectGateway implements ProjectDataGateway {
+  private projects: Map<string, ProjectData> = new Map();
+  private knownPropertyIds = new Set([PROPERTY_ID]);
+  private idCounter = 1;
+
+  private linkProperties(ids?: string[]) {
+    return (ids || []).map(id => ({ id, title: `Property ${id}`, location: 'Lisboa', imageUrl: null }));
+  }
+
+  async create(data: ProjectCreateData): Promise<ProjectData> {
+    const id = `00000000-0000-4000-8000-${String(this.idCounter++).padStart(12, '0')}`;
+    const now = new Date();
+
+    const project: ProjectData = {
+      id,
+      name: data.name,
+      type: data.type,
+      status: data.status || 'planned',
+      description: data.description ?? null,
+      imageUrl: data.imageUrl ?? null,
+      gallery: data.gallery || [],
+      startDate: data.startDate ?? null,
+      endDate: data.endDate ?? null,
+      properties: this.linkProperties(data.propertyIds),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async findById(id: string): Promise<ProjectData | null> {
+    return this.projects.get(id) || null;
+  }
+
+  async findMany(filters: ProjectFilterData): Promise<PaginatedProjectData> {
+    let filtered = Array.from(this.projects.values());
+
+    if (filters.type) filtered = filtered.filter(p => p.type === filters.type);
+    if (filters.status) filtered = filtered.filter(p => p.status === filters.status);
+
+    const limit = filters.limit || 20;
+    return {
+      projects: filtered.slice(0, limit),
+      pagination: {
+        nextCursor: null,
+        hasMore: filtered.length > limit,
+        limit,
+        totalEstimate: filtered.length,
+      },
+    };
+  }
+
+  async update(id: string, data: ProjectUpdateData): Promise<ProjectData> {
+    const existing = this.projects.get(id);
+    if (!existing) {
+      throw new Error('Project not found');
+    }
+
+    const { propertyIds, ...fields } = data;
+    const updated: ProjectData = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+      properties: propertyIds ? this.linkProperties(propertyIds) : existing.properties,
+      updatedAt: new Date(),
+    } as ProjectData;
+
+    this.projects.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.projects.has(id)) {
+      throw new Error('Project not found');
+    }
+    this.projects.delete(id);
+  }
+
+  async findMissingPropertyIds(ids: string[]): Promise<string[]> {
+    return ids.filter(id => !this.knownPropertyIds.has(id));
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return true;
+  }
+}
+
+describe('ProjectCore', () => {
+  let gateway: InMemoryProjectGateway;
+  let core: ProjectCore;
+
+  const validProjectData: ProjectCreateData = {
+    name: 'Reabilitação Casa Ribeira',
+    type: 'renovation',
+    description: 'Recuperação integral de moradia tradicional',
+    gallery: ['https://cdn.example.com/1.jpg'],
+    startDate: new Date('2024-01-10'),
+    endDate: new Date('2024-06-30'),
+  };
+
+  beforeEach(() => {
+    gateway = new InMemoryProjectGateway();
+    core = new ProjectCore(gateway, DEFAULT_PROJECT_CONFIG);
+  });
+
+  describe('createProject', () => {
+    it('should create a valid project with default status', async () => {
+      const result = await core.createProject(validProjectData);
+
+      expect(result.id).toBeDefined();
+      expect(result.name).toBe(validProjectData.name);
+      expect(result.status).toBe('planned');
+      expect(result.gallery).toHaveLength(1);
+    });
+
+    it('should reject an empty name', async () => {
+      await expect(core.createProject({ ...validProjectData, name: '   ' }))
+        .rejects
+        .toThrow(ProjectValidationError);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      await expect(core.createProject({
+        ...validProjectData,
+        startDate: new Date('2024-06-30'),
+        endDate: new Date('2024-01-10'),
+      }))
+        .rejects
+        .toThrow(ProjectValidationError);
+    });
+
+    it('should reject too many gallery images', async () => {
+      const gallery = Array.from(
+        { length: DEFAULT_PROJECT_CONFIG.maxGalleryImages + 1 },
+        (_, i) => `https://cdn.example.com/${i}.jpg`
+      );
+
+      await expect(core.createProject({ ...validProjectData, gallery }))
+        .rejects
+        .toThrow(ProjectValidationError);
+    });
+
+    it('should link existing properties', async () => {
+      const result = await core.createProject({ ...validProjectData, propertyIds: [PROPERTY_ID, PROPERTY_ID] });
+
+      expect(result.properties).toHaveLength(1);
+      expect(result.properties[0].id).toBe(PROPERTY_ID);
+    });
+
+    it('should reject unknown linked properties', async () => {
+      await expect(core.createProject({ ...validProjectData, propertyIds: [UNKNOWN_PROPERTY_ID] }))
+        .rejects
+        .toThrow(/not found/);
+    });
+  });
+
+  describe('getProject', () => {
+    it('should validate project ID format', async () => {
+      await expect(core.getProject('not-a-uuid'))
+        .rejects
+        .toThrow(ProjectValidationError);
+    });
+
+    it('should throw ProjectNotFoundError for a missing project', async () => {
+      await expect(core.getProject('99999999-9999-4999-8999-999999999999'))
+        .rejects
+        .toThrow(ProjectNotFoundError);
+    });
+  });
+
+  describe('listProjects', () => {
+    it('should filter by type and clamp the limit', async () => {
+      await core.createProject(validProjectData);
+      await core.createProject({ ...validProjectData, name: 'Edifício Central', type: 'construction' });
+
+      const result = await core.listProjects({ type: 'construction', limit: 500 });
+
+      expect(result.projects).toHaveLength(1);
+      expect(result.projects[0].type).toBe('construction');
+      expect(result.pagination.limit).toBe(100);
+    });
+  });
+
+  describe('updateProject', () => {
+    it('should update fields and keep the rest', async () => {
+      const created = await core.createProject(validProjectData);
+
+      const updated = await core.updateProject(created.id, { status: 'completed' });
+
+      expect(updated.status).toBe('completed');
+      expect(updated.name).toBe(validProjectData.name);
+    });
+
+    it('should validate the date range against stored dates', async () => {
+      const created = await core.createProject(validProjectData);
+
+      await expect(core.updateProject(created.id, { endDate: new Date('2023-12-31') }))
+        .rejects
+        .toThrow(ProjectValidationError);
+    });
+
+    it('should throw ProjectNotFoundError for a missing project', async () => {
+      await expect(core.updateProject('99999999-9999-4999-8999-999999999999', { name: 'Novo nome' }))
+        .rejects
+        .toThrow(ProjectNotFoundError);
+    });
+  });
+
+  describe('deleteProject', () => {
+    it('should delete and return the project', async () => {
+      const created = await core.createProject(validProjectData);
+
+      const deleted = await core.deleteProject(created.id);
+
+      expect(deleted.id).toBe(created.id);
+      await expect(core.getProject(created.id)).rejects.toThrow(ProjectNotFoundError);
+    });
+  });
+});
@@ -11,6 +11,7 @@ import { beforeEach, describe, expect, it } from 'vitest';
 import { DEFAULT_BUSINESS_CONFIG, PropertyCore, PropertyNotFoundError, PropertyValidationError } from '../../../core/property-core';
 import {
     PaginatedPropertyData,
+    PriceHistoryEntry,
     PropertyCreateData,
     PropertyData,
     PropertyFilterData,
@@ -118,6 +119,10 @@ class InMemoryPropertyGateway implements PropertyDataGateway {
     return updated;
   }
 
+  async getPriceHistory(id: string): Promise<PriceHistoryEntry[]> {
+    return [];
+  }
+
   async delete(id: string): Promise<void> {
     if (!this.properties.has(id)) {
       throw new Error('Property not found');
@@ -9,6 +9,8 @@ import { beforeEach, describe, expect, it } from 'vitest';
 import { DEFAULT_BUSINESS_CONFIG, PropertyCore, PropertyNotFoundError, PropertyValidationError } from '../../../core/property-core';
 import {
     PaginatedPropertyData,
+    PriceHistoryEntry,
+    PropertyChangeContext,
     PropertyCreateData,
     PropertyData,
     PropertyFilterData,
@@ -20,6 +22,7 @@ import { PropertyDataGateway } from '../../../gateways/property-data-gateway';
 // Mock gateway implementation for testing
 class MockPropertyDataGateway implements PropertyDataGateway {
   private properties: Map<string, PropertyData> = new Map();
+  private priceHistory: PriceHistoryEntry[] = [];
   private idCounter = 1;
 
   async create(data: PropertyCreateData): Promise<PropertyData> {
@@ -82,7 +85,7 @@ class MockPropertyDataGateway implements PropertyDataGateway {
     };
   }
 
-  async update(id: string, data: PropertyUpdateData): Promise<PropertyData> {
+  async update(id: string, data: PropertyUpdateData, context?: PropertyChangeContext): Promise<PropertyData> {
     const existing = this.properties.get(id);
     if (!existing) {
       throw new Error('Property not found');
@@ -94,10 +97,26 @@ class MockPropertyDataGateway implements PropertyDataGateway {
       updatedAt: new Date(),
     };
 
+    if (data.price !== undefined && data.price !== existing.price) {
+      this.priceHistory.push({
+        id: `history-${this.priceHistory.length + 1}`,
+        propertyId: id,
+        oldPrice: existing.price,
+        newPrice: data.price,
+        reason: context?.reason ?? null,
+        changedBy: context?.changedBy ?? null,
+        changedAt: new Date(),
+      });
+    }
+
     this.properties.set(id, updated);
     return updated;
   }
 
+  async getPriceHistory(id: string): Promise<PriceHistoryEntry[]> {
+    return this.priceHistory.filter(entry => entry.propertyId === id);
+  }
+
   async delete(id: string): Promise<void> {
     if (!this.properties.has(id)) {
       throw new Error('Property not found');
@@ -137,6 +156,7 @@ class MockPropertyDataGateway implements PropertyDataGateway {
   // Test helper methods
   clear() {
     this.properties.clear();
+    this.priceHistory = [];
     this.idCounter = 1;
   }
 
@@ -307,6 +327,32 @@ describe('PropertyCore', () => {
         maxPrice: 300000 // min > max
       })).rejects.toThrow(PropertyValidationError);
     });
+
+    it('should reject an inverted bounding box', async () => {
+      await expect(core.searchProperties({
+        boundingBox: { north: 38.70, south: 38.80, east: -9.10, west: -9.20 }
+      })).rejects.toThrow(PropertyValidationError);
+    });
+
+    it('should reject a polygon with fewer than 3 distinct vertices', async () => {
+      await expect(core.searchProperties({
+        polygon: [
+          { latitude: 38.70, longitude: -9.20 },
+          { latitude: 38.80, longitude: -9.10 },
+          { latitude: 38.70, longitude: -9.20 },
+        ]
+      })).rejects.toThrow(PropertyValidationError);
+    });
+
+    it('should reject polygon vertices outside valid coordinates', async () => {
+      await expect(core.searchProperties({
+        polygon: [
+          { latitude: 38.70, longitude: -9.20 },
+          { latitude: 95.00, longitude: -9.10 },
+          { latitude: 38.80, longitude: -9.30 },
+        ]
+      })).rejects.toThrow(PropertyValidationError);
+    });
   });
 
   describe('updateProperty', () => {
@@ -339,6 +385,54 @@ describe('PropertyCore', () => {
     });
   });
 
+  describe('getPriceHistory', () => {
+    const propertyId = '11111111-1111-4111-8111-111111111111';
+
+    beforeEach(() => {
+      const now = new Date();
+      gateway.addProperty({
+        id: propertyId,
+        ...validPropertyData,
+        imageUrl: null,
+        coordinates: null,
+        features: [],
+        contactPhone: null,
+        contactEmail: null,
+        previousPrice: null,
+        priceReducedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      } as PropertyData);
+    });
+
+    it('should record price changes with author and reason', async () => {
+      await core.updateProperty(propertyId, { price: 240000 }, { changedBy: 'agent-1', reason: 'Negotiation' });
+      await core.updateProperty(propertyId, { title: 'Renamed listing' });
+
+      const history = await core.getPriceHistory(propertyId);
+
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({
+        oldPrice: 250000,
+        newPrice: 240000,
+        reason: 'Negotiation',
+        changedBy: 'agent-1',
+      });
+    });
+
+    it('should throw PropertyNotFoundError for non-existing property', async () => {
+      await expect(core.getPriceHistory('22222222-2222-4222-8222-222222222222'))
+        .rejects
+        .toThrow(PropertyNotFoundError);
+    });
+
+    it('should reject an out of range reduction window', async () => {
+      await expect(core.searchProperties({ recentlyReduced: true, reducedWithinDays: 0 }))
+        .rejects
+        .toThrow(PropertyValidationError);
+    });
+  });
+
   describe('deleteProperty', () => {
     it('should delete existing property', async () => {
       const created = await core.createProperty(validPropertyData);
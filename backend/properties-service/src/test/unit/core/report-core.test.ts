@@ -0,0 +1,234 @@
+/**
+ * ReportCore Unit Tests
+ *
+ * Testing the management report (distribution, trends, market metrics) in isolation
+ * NO DATABASE, NO NETWORK - just in-memory gateways
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_REPORT_CONFIG, periodStart, ReportCore, ReportValidationError } from '../../../core/report-core';
+import {
+    DaysOnMarket,
+    LocationPricePerSqm,
+    PeriodCount,
+    RegionSearchCount,
+    StatusCount,
+    TypeCount
+} from '../../../domain/report-types';
+import { AnalyticsDateRange } from '../../../domain/visit-types';
+import { LeadStatsGateway, ReportDataGateway, UserStatsGateway } from '../../../gateways/report-data-gateway';
+
+const RANGE = {
+  from: new Date('2026-01-15T00:00:00.000Z'),
+  to: new Date('2026-04-01T00:00:00.000Z'),
+};
+
+// In-memory gateway implementation for testing
+class InMemoryReportGateway implements ReportDataGateway {
+  types: TypeCount[] = [
+    { type: 'apartamento', count: 6 },
+    { type: 'moradia', count: 3 },
+    { type: null, count: 1 },
+  ];
+  statuses: StatusCount[] = [
+    { status: 'for_sale', count: 7 },
+    { status: 'sold', count: 3 },
+    { status: 'withdrawn', count: 0 },
+  ];
+  newProperties: PeriodCount[] = [
+    { period: '2026-01-01', count: 2 },
+    { period: '2026-03-01', count: 5 },
+  ];
+  views: PeriodCount[] = [{ period: '2026-02-01', count: 40 }];
+  requestedRanges: AnalyticsDateRange[] = [];
+
+  async countByType(): Promise<TypeCount[]> {
+    return this.types;
+  }
+
+  async countByStatus(): Promise<StatusCount[]> {
+    return this.statuses;
+  }
+
+  async countNewPropertiesPerPeriod(range: AnalyticsDateRange): Promise<PeriodCount[]> {
+    this.requestedRanges.push(range);
+    return this.newProperties;
+  }
+
+  async countViewsPerPeriod(): Promise<PeriodCount[]> {
+    return this.views;
+  }
+
+  async getDaysOnMarket(): Promise<DaysOnMarket> {
+    return { closedListings: 3, averageDays: 42.5 };
+  }
+
+  async getPricePerSqmByLocation(limit: number): Promise<LocationPricePerSqm[]> {
+    return [
+      { location: 'Lisboa', listings: 4, averagePricePerSqm: 5200 },
+      { location: 'Porto', listings: 2, averagePricePerSqm: 3100 },
+    ].slice(0, limit);
+  }
+}
+
+class StaticUserStats implements UserStatsGateway {
+  constructor(private readonly failure: Error | null = null) {}
+
+  async getTopSearchedRegions(_range: AnalyticsDateRange, limit: number): Promise<RegionSearchCount[]> {
+    if (this.failure) throw this.failure;
+    return [{ region: 'Lisboa', searches: 120 }, { region: 'Porto', searches: 80 }].slice(0, limit);
+  }
+
+  async countNewUsersPerPeriod(): Promise<PeriodCount[]> {
+    if (this.failure) throw this.failure;
+    return [{ period: '2026-02-01', count: 9 }];
+  }
+}
+
+class StaticLeadStats implements LeadStatsGateway {
+  constructor(private readonly failure: Error | null = null) {}
+
+  async countLeadsPerPeriod(): Promise<PeriodCount[]> {
+    if (this.failure) throw this.failure;
+    return [{ period: '2026-01-01', count: 1 }, { period: '2026-03-01', count: 4 }];
+  }
+}
+
+describe('ReportCore', () => {
+  let gateway: InMemoryReportGateway;
+  let core: ReportCore;
+
+  beforeEach(() => {
+    gateway = new InMemoryReportGateway();
+    core = new ReportCore(gateway, new StaticUserStats(), new StaticLeadStats(), DEFAULT_REPORT_CONFIG);
+  });
+
+  describe('periodStart', () => {
+    it('should truncate to UTC day, Monday-based week and month', () => {
+      const date = new Date('2026-03-19T17:45:00.000Z'); // Thursday
+
+      expect(periodStart(date, 'day').toISOString()).toBe('2026-03-19T00:00:00.000Z');
+      expect(periodStart(date, 'week').toISOString()).toBe('2026-03-16T00:00:00.000Z');
+      expect(periodStart(date, 'month').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+      expect(periodStart(new Date('2026-03-22T10:00:00.000Z'), 'week').toISOString()).toBe('2026-03-16T00:00:00.000Z');
+    });
+  });
+
+  describe('getDistribution', () => {
+    it('should compute percentages over all listings and drop empty buckets', async () => {
+      const distribution = await core.getDistribution();
+
+      expect(distribution.total).toBe(10);
+      expect(distribution.byType).toEqual([
+        { key: 'apartamento', count: 6, percentage: 60 },
+        { key: 'moradia', count: 3, percentage: 30 },
+        { key: null, count: 1, percentage: 10 },
+      ]);
+      expect(distribution.byStatus.map(entry => entry.key)).toEqual(['for_sale', 'sold']);
+    });
+
+    it('should report zero percentages when there are no listings', async () => {
+      gateway.types = [];
+      gateway.statuses = [];
+
+      const distribution = await core.getDistribution();
+
+      expect(distribution).toEqual({ total: 0, byType: [], byStatus: [] });
+    });
+  });
+
+  describe('getTrends', () => {
+    it('should return a continuous series with every source merged', async () => {
+      const trends = await core.getTrends({ ...RANGE, granularity: 'month' });
+
+      expect(trends.series).toEqual([
+        { period: '2026-01-01', properties: 2, views: 0, users: 0, leads: 1 },
+        { period: '2026-02-01', properties: 0, views: 40, users: 9, leads: 0 },
+        { period: '2026-03-01', properties: 5, views: 0, users: 0, leads: 4 },
+      ]);
+      expect(trends.totals).toEqual({ properties: 7, views: 40, users: 9, leads: 5 });
+    });
+
+    it('should report users and leads as unavailable when their services fail', async () => {
+      core = new ReportCore(gateway, new StaticUserStats(new Error('down')), new StaticLeadStats(new Error('down')));
+
+      const trends = await core.getTrends({ ...RANGE, granularity: 'month' });
+
+      expect(trends.series.every(point => point.users === null && point.leads === null)).toBe(true);
+      expect(trends.totals.users).toBeNull();
+      expect(trends.totals.leads).toBeNull();
+      expect(trends.totals.properties).toBe(7);
+    });
+
+    it('should list weekly periods starting on Mondays', async () => {
+      const trends = await core.getTrends({
+        from: new Date('2026-03-04T00:00:00.000Z'),
+        to: new Date('2026-03-20T00:00:00.000Z'),
+        granularity: 'week',
+      });
+
+      expect(trends.series.map(point => point.period)).toEqual(['2026-03-02', '2026-03-09', '2026-03-16']);
+    });
+
+    it('should default to the last year by month', async () => {
+      const trends = await core.getTrends();
+      const [range] = gateway.requestedRanges;
+
+      expect(trends.granularity).toBe('month');
+      expect(range.to.getTime() - range.from.getTime()).toBe(DEFAULT_REPORT_CONFIG.defaultRangeDays * 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('getTopRegions', () => {
+    it('should return the most searched regions up to the limit', async () => {
+      const regions = await core.getTopRegions({ ...RANGE, limit: 1 });
+
+      expect(regions).toEqual([{ region: 'Lisboa', searches: 120 }]);
+    });
+
+    it('should return null without a users service', async () => {
+      core = new ReportCore(gateway);
+
+      expect(await core.getTopRegions(RANGE)).toBeNull();
+    });
+  });
+
+  describe('getReport', () => {
+    it('should combine every section for the requested range', async () => {
+      const report = await core.getReport({ ...RANGE, limit: 5 });
+
+      expect(report.range).toEqual(RANGE);
+      expect(report.distribution.total).toBe(10);
+      expect(report.topRegions).toHaveLength(2);
+      expect(report.trends.series).toHaveLength(3);
+      expect(report.daysOnMarket).toEqual({ closedListings: 3, averageDays: 42.5 });
+      expect(report.pricePerSqm[0]).toEqual({ location: 'Lisboa', listings: 4, averagePricePerSqm: 5200 });
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject inverted ranges', async () => {
+      await expect(core.getReport({ from: RANGE.to, to: RANGE.from })).rejects.toThrow(ReportValidationError);
+    });
+
+    it('should reject ranges longer than the maximum', async () => {
+      await expect(core.getReport({
+        from: new Date('2015-01-01T00:00:00.000Z'),
+        to: new Date('2026-01-01T00:00:00.000Z'),
+      })).rejects.toThrow('Range cannot exceed');
+    });
+
+    it('should reject daily series with too many periods', async () => {
+      await expect(core.getTrends({
+        from: new Date('2024-01-01T00:00:00.000Z'),
+        to: new Date('2026-01-01T00:00:00.000Z'),
+        granularity: 'day',
+      })).rejects.toMatchObject({ field: 'granularity' });
+    });
+
+    it('should reject unknown granularities and out of range limits', async () => {
+      await expect(core.getTrends({ ...RANGE, granularity: 'year' as any })).rejects.toMatchObject({ field: 'granularity' });
+      await expect(core.getMarketMetrics({ ...RANGE, limit: 0 })).rejects.toMatchObject({ field: 'limit' });
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * VisitCore Unit Tests
+ *
+ * Testing visit deduplication, bot filtering and view analytics in isolation
+ * NO DATABASE, NO NETWORK - just in-memory gateways
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PropertyNotFoundError } from '../../../core/property-core';
+import { DEFAULT_VISIT_CONFIG, isBotUserAgent, VisitCore, VisitValidationError } from '../../../core/visit-core';
+import {
+    AnalyticsDateRange,
+    ContactCounts,
+    DailyViews,
+    PropertyViewCount,
+    VisitData,
+    VisitRecordData,
+    ViewTotals
+} from '../../../domain/visit-types';
+import { ContactStatsGateway, VisitDataGateway } from '../../../gateways/visit-data-gateway';
+
+const PROPERTY_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_PROPERTY_ID = '33333333-3333-4333-8333-333333333333';
+const UNKNOWN_PROPERTY_ID = '22222222-2222-4222-8222-222222222222';
+const BROWSER = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Safari/605.1.15';
+
+// In-memory gateway implementation for testing
+class InMemoryVisitGateway implements VisitDataGateway {
+  visits: VisitData[] = [];
+  private knownPropertyIds = new Set([PROPERTY_ID, OTHER_PROPERTY_ID]);
+
+  async create(data: VisitRecordData): Promise<VisitData> {
+    const visit = { id: `visit-${this.visits.length + 1}`, ...data, visitedAt: new Date() };
+    this.visits.push(visit);
+    return visit;
+  }
+
+  async hasVisitSince(data: VisitRecordData, since: Date): Promise<boolean> {
+    return this.visits.some(visit =>
+      visit.propertyId === data.propertyId &&
+      visit.visitedAt >= since &&
+      (data.visitorId ? visit.visitorId === data.visitorId : visit.ipAddress === data.ipAddress)
+    );
+  }
+
+  async propertyExists(propertyId: string): Promise<boolean> {
+    return this.knownPropertyIds.has(propertyId);
+  }
+
+  private inRange(range: AnalyticsDateRange, propertyId?: string) {
+    return this.visits.filter(visit =>
+      visit.visitedAt >= range.from && visit.visitedAt < range.to &&
+      (!propertyId || visit.propertyId === propertyId)
+    );
+  }
+
+  private totals(visits: VisitData[]): ViewTotals {
+    return {
+      views: visits.length,
+      uniqueVisitors: new Set(visits.map(visit => visit.visitorId ?? visit.ipAddress)).size,
+    };
+  }
+
+  async countViews(range: AnalyticsDateRange, propertyId?: string): Promise<ViewTotals> {
+    return this.totals(this.inRange(range, propertyId));
+  }
+
+  async getViewsPerDay(range: AnalyticsDateRange, propertyId?: string): Promise<DailyViews[]> {
+    const byDay = new Map<string, VisitData[]>();
+    for (const visit of this.inRange(range, propertyId)) {
+      const day = visit.visitedAt.toISOString().slice(0, 10);
+      byDay.set(day, [...(byDay.get(day) ?? []), visit]);
+    }
+    return Array.from(byDay.entries()).sort().map(([date, visits]) => ({ date, ...this.totals(visits) }));
+  }
+
+  async getTopProperties(range: AnalyticsDateRange, limit: number): Promise<PropertyViewCount[]> {
+    const ids = Array.from(new Set(this.inRange(range).map(visit => visit.propertyId)));
+    return ids
+      .map(propertyId => ({ propertyId, title: `Property ${propertyId}`, ...this.totals(this.inRange(range, propertyId)) }))
+      .sort((a, b) => b.views - a.views)
+      .slice(0, limit);
+  }
+}
+
+class StaticContactStats implements ContactStatsGateway {
+  constructor(private readonly counts: ContactCounts | Error) {}
+
+  async countContactsByProperty(): Promise<ContactCounts> {
+    if (this.counts instanceof Error) throw this.counts;
+    return this.counts;
+  }
+}
+
+describe('VisitCore', () => {
+  let gateway: InMemoryVisitGateway;
+  let core: VisitCore;
+
+  const visit = (overrides: Partial<VisitRecordData> = {}): VisitRecordData => ({
+    propertyId: PROPERTY_ID,
+    visitorId: null,
+    ipAddress: '203.0.113.10',
+    userAgent: BROWSER,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    gateway = new InMemoryVisitGateway();
+    core = new VisitCore(gateway, new StaticContactStats(new Map([[PROPERTY_ID, 1]])), DEFAULT_VISIT_CONFIG);
+  });
+
+  describe('isBotUserAgent', () => {
+    it('should flag crawlers, scripts and missing user agents', () => {
+      expect(isBotUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe(true);
+      expect(isBotUserAgent('facebookexternalhit/1.1')).toBe(true);
+      expect(isBotUserAgent('curl/8.4.0')).toBe(true);
+      expect(isBotUserAgent(null)).toBe(true);
+      expect(isBotUserAgent(BROWSER)).toBe(false);
+    });
+  });
+
+  describe('recordVisit', () => {
+    it('should record the first view of a visitor', async () => {
+      const result = await core.recordVisit(visit());
+
+      expect(result).toEqual({ recorded: true });
+      expect(gateway.visits).toHaveLength(1);
+    });
+
+    it('should skip repeated views within the deduplication window', async () => {
+      await core.recordVisit(visit());
+      const result = await core.recordVisit(visit());
+
+      expect(result).toEqual({ recorded: false, reason: 'duplicate' });
+      expect(gateway.visits).toHaveLength(1);
+    });
+
+    it('should count a new visit once the window has passed', async () => {
+      await core.recordVisit(visit());
+      const later = new Date(Date.now() + (DEFAULT_VISIT_CONFIG.dedupeWindowMinutes + 1) * 60 * 1000);
+
+      const result = await core.recordVisit(visit(), later);
+
+      expect(result.recorded).toBe(true);
+    });
+
+    it('should deduplicate logged-in users by user ID rather than IP', async () => {
+      await core.recordVisit(visit({ visitorId: 'user-1' }));
+      const sameUserOtherNetwork = await core.recordVisit(visit({ visitorId: 'user-1', ipAddress: '198.51.100.7' }));
+      const otherUserSameNetwork = await core.recordVisit(visit({ visitorId: 'user-2' }));
+
+      expect(sameUserOtherNetwork.recorded).toBe(false);
+      expect(otherUserSameNetwork.recorded).toBe(true);
+    });
+
+    it('should not store bot views', async () => {
+      const result = await core.recordVisit(visit({ userAgent: 'Mozilla/5.0 (compatible; bingbot/2.0)' }));
+
+      expect(result).toEqual({ recorded: false, reason: 'bot' });
+      expect(gateway.visits).toHaveLength(0);
+    });
+
+    it('should reject unknown properties', async () => {
+      await expect(core.recordVisit(visit({ propertyId: UNKNOWN_PROPERTY_ID })))
+        .rejects
+        .toThrow(PropertyNotFoundError);
+    });
+  });
+
+  describe('analytics', () => {
+    const to = new Date(Date.now() + 60 * 1000);
+    const from = new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    beforeEach(async () => {
+      await core.recordVisit(visit());
+      await core.recordVisit(visit({ ipAddress: '198.51.100.7' }));
+      await core.recordVisit(visit({ propertyId: OTHER_PROPERTY_ID }));
+    });
+
+    it('should return a continuous daily series with totals and conversion', async () => {
+      const summary = await core.getViewsSummary({ from, to });
+
+      expect(summary.views).toBe(3);
+      expect(summary.uniqueVisitors).toBe(2);
+      expect(summary.viewsPerDay).toHaveLength(8);
+      expect(summary.viewsPerDay.reduce((sum, day) => sum + day.views, 0)).toBe(3);
+      expect(summary.contacts).toBe(1);
+      expect(summary.conversionRate).toBe(33.33);
+    });
+
+    it('should rank properties by views', async () => {
+      const top = await core.getTopProperties({ from, to }, 5);
+
+      expect(top.map(property => property.propertyId)).toEqual([PROPERTY_ID, OTHER_PROPERTY_ID]);
+      expect(top[0]).toMatchObject({ views: 2, contacts: 1, conversionRate: 50 });
+      expect(top[1]).toMatchObject({ views: 1, contacts: 0, conversionRate: 0 });
+    });
+
+    it('should leave conversion empty when contact stats are unavailable', async () => {
+      core = new VisitCore(gateway, new StaticContactStats(new Error('messages service down')));
+
+      const analytics = await core.getPropertyAnalytics(PROPERTY_ID, { from, to });
+
+      expect(analytics.views).toBe(2);
+      expect(analytics.contacts).toBeNull();
+      expect(analytics.conversionRate).toBeNull();
+    });
+
+    it('should reject inverted and oversized ranges', async () => {
+      const now = new Date();
+
+      await expect(core.getViewsSummary({ from: now, to: new Date(now.getTime() - 1000) }))
+        .rejects
+        .toThrow(VisitValidationError);
+      await expect(core.getViewsSummary({ from: new Date('2020-01-01'), to: now }))
+        .rejects
+        .toThrow(VisitValidationError);
+    });
+  });
+});
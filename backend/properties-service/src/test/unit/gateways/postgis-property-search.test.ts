@@ -0,0 +1,130 @@
+/**
+ * PostGIS Property Search Unit Tests
+ *
+ * Checks cursor handling and the generated SQL - NO DATABASE
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import {
+    decodeSpatialCursor,
+    encodeSpatialCursor,
+    hasSpatialFilter,
+    InvalidSpatialCursorError,
+    searchPropertiesSpatially
+} from '../../../gateways/postgis-property-search';
+
+const LISBON = { latitude: 38.7223, longitude: -9.1393 };
+
+function createPrismaStub(rows: Array<{ id: string; distance: number }>) {
+  const queryRaw = vi.fn().mockResolvedValue(rows);
+  return { prisma: { $queryRaw: queryRaw } as unknown as PrismaClient, queryRaw };
+}
+
+function sqlOf(queryRaw: ReturnType<typeof vi.fn>): { text: string; values: unknown[] } {
+  const [query] = queryRaw.mock.calls[0] as [Prisma.Sql];
+  return { text: query.sql, values: query.values };
+}
+
+describe('postgis-property-search', () => {
+  describe('cursor', () => {
+    it('should round-trip an encoded cursor', () => {
+      const cursor = { d: 1523.75, id: '11111111-1111-4111-8111-111111111111' };
+
+      expect(decodeSpatialCursor(encodeSpatialCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeSpatialCursor('not-a-cursor')).toThrow(InvalidSpatialCursorError);
+      expect(() => decodeSpatialCursor(Buffer.from('{"id":"x"}').toString('base64url')))
+        .toThrow(InvalidSpatialCursorError);
+    });
+  });
+
+  describe('hasSpatialFilter', () => {
+    it('should detect radius, viewport and polygon searches', () => {
+      expect(hasSpatialFilter({ nearbySearch: { ...LISBON, radiusKm: 5 } })).toBe(true);
+      expect(hasSpatialFilter({ boundingBox: { north: 39, south: 38, east: -9, west: -10 } })).toBe(true);
+      expect(hasSpatialFilter({ polygon: [LISBON, LISBON, LISBON] })).toBe(true);
+      expect(hasSpatialFilter({ textQuery: 'T2' })).toBe(false);
+    });
+  });
+
+  describe('searchPropertiesSpatially', () => {
+    it('should run a radius query in meters and return distances in km', async () => {
+      const { prisma, queryRaw } = createPrismaStub([
+        { id: 'a', distance: 120.4 },
+        { id: 'b', distance: 1999.9 },
+      ]);
+
+      const page = await searchPropertiesSpatially(prisma, { nearbySearch: { ...LISBON, radiusKm: 2 } }, 10);
+      const { text, values } = sqlOf(queryRaw);
+
+      expect(text).toContain('public.ST_DWithin');
+      expect(text).toContain('ORDER BY hit.distance ASC, hit.id ASC');
+      expect(values).toContain(2000);
+      expect(page.hits).toEqual([
+        { id: 'a', distanceKm: 0.12 },
+        { id: 'b', distanceKm: 2 },
+      ]);
+      expect(page.hasMore).toBe(false);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should return a cursor pointing at the last row of the page', async () => {
+      const { prisma } = createPrismaStub([
+        { id: 'a', distance: 10 },
+        { id: 'b', distance: 20 },
+        { id: 'c', distance: 30 },
+      ]);
+
+      const page = await searchPropertiesSpatially(prisma, { nearbySearch: { ...LISBON, radiusKm: 5 } }, 2);
+
+      expect(page.hits.map(hit => hit.id)).toEqual(['a', 'b']);
+      expect(page.hasMore).toBe(true);
+      expect(decodeSpatialCursor(page.nextCursor!)).toEqual({ d: 20, id: 'b' });
+    });
+
+    it('should continue after the cursor position', async () => {
+      const { prisma, queryRaw } = createPrismaStub([]);
+      const cursor = encodeSpatialCursor({ d: 20, id: 'b' });
+
+      await searchPropertiesSpatially(prisma, { nearbySearch: { ...LISBON, radiusKm: 5 }, cursor }, 2);
+      const { text, values } = sqlOf(queryRaw);
+
+      expect(text).toContain('(hit.distance, hit.id) >');
+      expect(values).toEqual(expect.arrayContaining([20, 'b']));
+    });
+
+    it('should close polygon rings and filter with ST_Covers', async () => {
+      const { prisma, queryRaw } = createPrismaStub([]);
+
+      await searchPropertiesSpatially(prisma, {
+        polygon: [
+          { latitude: 38.70, longitude: -9.20 },
+          { latitude: 38.80, longitude: -9.20 },
+          { latitude: 38.80, longitude: -9.10 },
+        ],
+      }, 20);
+      const { text, values } = sqlOf(queryRaw);
+      const geoJson = values.find(value => typeof value === 'string' && value.includes('Polygon')) as string;
+
+      expect(text).toContain('public.ST_Covers');
+      expect(text).toContain('public.ST_Centroid');
+      expect(JSON.parse(geoJson).coordinates[0]).toHaveLength(4);
+    });
+
+    it('should filter a viewport with an envelope', async () => {
+      const { prisma, queryRaw } = createPrismaStub([]);
+
+      await searchPropertiesSpatially(prisma, {
+        boundingBox: { north: 38.80, south: 38.70, east: -9.10, west: -9.20 },
+        status: 'for_sale',
+      }, 20);
+      const { text, values } = sqlOf(queryRaw);
+
+      expect(text).toContain('public.ST_MakeEnvelope');
+      expect(values).toContain('for_sale');
+    });
+  });
+});
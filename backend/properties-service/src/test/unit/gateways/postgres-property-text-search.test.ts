@@ -0,0 +1,86 @@
+/**
+ * Postgres Property Text Search Unit Tests
+ *
+ * Checks ranking SQL, keyset pagination and snippet escaping - NO DATABASE
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { searchPropertiesByText, toHighlightHtml } from '../../../gateways/postgres-property-text-search';
+
+type Row = { id: string; relevance: number; titleHeadline: string; descriptionHeadline: string | null };
+
+function createPrismaStub(rows: Row[]) {
+  const queryRaw = vi.fn().mockResolvedValue(rows);
+  return { prisma: { $queryRaw: queryRaw } as unknown as PrismaClient, queryRaw };
+}
+
+function sqlOf(queryRaw: ReturnType<typeof vi.fn>): { text: string; values: unknown[] } {
+  const [query] = queryRaw.mock.calls[0] as [Prisma.Sql];
+  return { text: query.sql, values: query.values };
+}
+
+describe('postgres-property-text-search', () => {
+  describe('toHighlightHtml', () => {
+    it('should wrap matches in <mark> and escape the listing text', () => {
+      const headline = 'Moradia <T3> em \u0002Ribeirão\u0003 & arredores';
+
+      expect(toHighlightHtml(headline)).toBe('Moradia &lt;T3&gt; em <mark>Ribeirão</mark> &amp; arredores');
+    });
+  });
+
+  describe('searchPropertiesByText', () => {
+    it('should use the Portuguese unaccent configuration and rank by relevance', async () => {
+      const { prisma, queryRaw } = createPrismaStub([]);
+
+      await searchPropertiesByText(prisma, { textQuery: 'moradias ribeirao', sortBy: 'relevance' }, 10);
+      const { text, values } = sqlOf(queryRaw);
+
+      expect(text).toContain('websearch_to_tsquery');
+      expect(text).toContain('p."searchVector" @@');
+      expect(text).toContain('ts_rank_cd');
+      expect(text).toContain('ts_headline');
+      expect(text).toMatch(/ORDER BY "sortKey" DESC, p."id" DESC/);
+      expect(values).toEqual(expect.arrayContaining(['portuguese_unaccent', 'moradias ribeirao', 11]));
+    });
+
+    it('should keep the requested sort field when not sorting by relevance', async () => {
+      const { prisma, queryRaw } = createPrismaStub([]);
+
+      await searchPropertiesByText(prisma, { textQuery: 'T2', sortBy: 'price', sortOrder: 'asc' }, 10);
+      const { text } = sqlOf(queryRaw);
+
+      expect(text).toContain('p."price" AS "sortKey"');
+      expect(text).toMatch(/ORDER BY "sortKey" ASC, p."id" ASC/);
+    });
+
+    it('should continue after the cursor property', async () => {
+      const { prisma, queryRaw } = createPrismaStub([]);
+      const cursor = '11111111-1111-4111-8111-111111111111';
+
+      await searchPropertiesByText(prisma, { textQuery: 'loft', sortBy: 'relevance', cursor }, 10);
+      const { text, values } = sqlOf(queryRaw);
+
+      expect(text).toMatch(/, p."id"\) < \(/);
+      expect(text).toContain('WHERE c."id" =');
+      expect(values).toContain(cursor);
+    });
+
+    it('should return relevance, highlights and the next cursor', async () => {
+      const { prisma } = createPrismaStub([
+        { id: 'a', relevance: 0.612345, titleHeadline: '\u0002Loft\u0003 no centro', descriptionHeadline: null },
+        { id: 'b', relevance: 0.4, titleHeadline: 'Apartamento', descriptionHeadline: 'Estilo \u0002loft\u0003' },
+        { id: 'c', relevance: 0.1, titleHeadline: 'Casa', descriptionHeadline: null },
+      ]);
+
+      const page = await searchPropertiesByText(prisma, { textQuery: 'loft' }, 2);
+
+      expect(page.hits).toEqual([
+        { id: 'a', relevance: 0.6123, highlight: { title: '<mark>Loft</mark> no centro', description: null } },
+        { id: 'b', relevance: 0.4, highlight: { title: 'Apartamento', description: 'Estilo <mark>loft</mark>' } },
+      ]);
+      expect(page.hasMore).toBe(true);
+      expect(page.nextCursor).toBe('b');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Property Price History Unit Tests
+ *
+ * Checks history rows and reduction markers written on price changes - NO DATABASE
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { reducedSince, updatePropertyTrackingPrice } from '../../../gateways/property-price-history';
+
+const PROPERTY_ID = '11111111-1111-4111-8111-111111111111';
+
+function createPrismaStub(currentPrice: number) {
+  const tx = {
+    property: {
+      findUnique: vi.fn().mockResolvedValue({ price: new Prisma.Decimal(currentPrice) }),
+      update: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: PROPERTY_ID, ...data })),
+    },
+    priceHistory: { create: vi.fn().mockResolvedValue({}) },
+  };
+  const prisma = {
+    ...tx,
+    $transaction: vi.fn().mockImplementation((run: (client: typeof tx) => unknown) => run(tx)),
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, tx };
+}
+
+describe('property-price-history', () => {
+  describe('updatePropertyTrackingPrice', () => {
+    it('should record a reduction and mark the property as reduced', async () => {
+      const { prisma, tx } = createPrismaStub(300000);
+
+      await updatePropertyTrackingPrice(prisma, PROPERTY_ID, { price: 275000 }, { changedBy: 'agent-1', reason: 'Negotiation' });
+
+      const { data } = tx.property.update.mock.calls[0][0];
+      expect(Number(data.previousPrice)).toBe(300000);
+      expect(data.priceReducedAt).toBeInstanceOf(Date);
+      expect(tx.priceHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ propertyId: PROPERTY_ID, reason: 'Negotiation', changedBy: 'agent-1' }),
+      });
+    });
+
+    it('should clear the reduction markers on a price increase', async () => {
+      const { prisma, tx } = createPrismaStub(300000);
+
+      await updatePropertyTrackingPrice(prisma, PROPERTY_ID, { price: 320000 });
+
+      const { data } = tx.property.update.mock.calls[0][0];
+      expect(data.previousPrice).toBeNull();
+      expect(data.priceReducedAt).toBeNull();
+      expect(tx.priceHistory.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not write history when the price is unchanged', async () => {
+      const { prisma, tx } = createPrismaStub(300000);
+
+      await updatePropertyTrackingPrice(prisma, PROPERTY_ID, { price: 300000, title: 'Renamed' });
+
+      expect(tx.priceHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip the transaction when the price is not updated', async () => {
+      const { prisma, tx } = createPrismaStub(300000);
+
+      await updatePropertyTrackingPrice(prisma, PROPERTY_ID, { title: 'Renamed' });
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(tx.property.update).toHaveBeenCalledWith({ where: { id: PROPERTY_ID }, data: { title: 'Renamed' } });
+    });
+  });
+
+  describe('reducedSince', () => {
+    it('should go back the given number of days', () => {
+      const now = new Date('2026-10-19T12:00:00Z');
+
+      expect(reducedSince(30, now).toISOString()).toBe('2026-09-19T12:00:00.000Z');
+    });
+  });
+});
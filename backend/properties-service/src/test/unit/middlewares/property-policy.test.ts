@@ -0,0 +1,173 @@
+/**
+ * Property Policy Unit Tests
+ *
+ * Who may change, see and create listings, and the draft visibility
+ * filters built from it - NO DATABASE
+ */
+
+import { Prisma } from '@prisma/client';
+import { FastifyRequest } from 'fastify';
+import { describe, expect, it, vi } from 'vitest';
+import { buildAttributeConditions } from '../../../gateways/sql-property-filters';
+import { PrismaPropertyRepository } from '../../../implementations/repositories/prisma-property-repository';
+import { getRequestUser, RequestUser } from '../../../middlewares/auth';
+import {
+    canCreateProperty,
+    canManageProperty,
+    canViewProperty,
+    getPropertyVisibility,
+    resolveCreateAssignment
+} from '../../../middlewares/property-policy';
+
+const ADMIN: RequestUser = { id: 'admin-1', role: 'admin' };
+const SUPER_ADMIN: RequestUser = { id: 'super-1', role: 'super_admin' };
+const AGENT: RequestUser = { id: 'agent-1', role: 'agent' };
+const OTHER_AGENT: RequestUser = { id: 'agent-2', role: 'agent' };
+const OWNER: RequestUser = { id: 'owner-1', role: 'user' };
+const PARTNER_KEY: RequestUser = {
+  id: 'api-key-key-1',
+  role: 'api_key',
+  permissions: ['properties.read', 'properties.create', 'properties.update'],
+};
+const READ_ONLY_KEY: RequestUser = { id: 'api-key-key-2', role: 'api_key', permissions: ['properties.read'] };
+
+const ASSIGNMENT = { ownerId: OWNER.id, agentId: AGENT.id };
+
+async function whereFor(user: RequestUser | null): Promise<any> {
+  const count = vi.fn().mockResolvedValue(0);
+  const repository = new PrismaPropertyRepository({ property: { count } });
+
+  await repository.count({ visibility: getPropertyVisibility(user) });
+  return count.mock.calls[0][0].where;
+}
+
+function sqlFor(user: RequestUser | null): Prisma.Sql | undefined {
+  const [condition] = buildAttributeConditions({ visibility: getPropertyVisibility(user) });
+  return condition;
+}
+
+describe('property-policy', () => {
+  describe('canCreateProperty', () => {
+    it('should let administrators, agents and API keys with properties.create create listings', () => {
+      for (const user of [ADMIN, AGENT, PARTNER_KEY]) {
+        expect(canCreateProperty(user)).toBe(true);
+      }
+    });
+
+    it('should not let other users or API keys without properties.create create listings', () => {
+      expect(canCreateProperty(OWNER)).toBe(false);
+      expect(canCreateProperty(READ_ONLY_KEY)).toBe(false);
+      expect(canCreateProperty(null)).toBe(false);
+    });
+
+    it('should not grant API key permissions to user roles', () => {
+      expect(canCreateProperty({ ...OWNER, permissions: ['properties.create'] })).toBe(false);
+    });
+  });
+
+  describe('canManageProperty', () => {
+    it('should let administrators manage any property', () => {
+      expect(canManageProperty(ADMIN, ASSIGNMENT)).toBe(true);
+      expect(canManageProperty(SUPER_ADMIN, { ownerId: null, agentId: null })).toBe(true);
+    });
+
+    it('should let agents manage only the properties assigned to them', () => {
+      expect(canManageProperty(AGENT, ASSIGNMENT)).toBe(true);
+      expect(canManageProperty(OTHER_AGENT, ASSIGNMENT)).toBe(false);
+    });
+
+    it('should let API keys manage only the listings they own', () => {
+      const listing = resolveCreateAssignment(PARTNER_KEY, {});
+
+      expect(canManageProperty(PARTNER_KEY, listing)).toBe(true);
+      expect(canManageProperty(PARTNER_KEY, ASSIGNMENT)).toBe(false);
+      expect(canManageProperty(READ_ONLY_KEY, { ownerId: READ_ONLY_KEY.id, agentId: null })).toBe(false);
+    });
+
+    it('should not let owners or anonymous callers manage properties', () => {
+      expect(canManageProperty(OWNER, ASSIGNMENT)).toBe(false);
+      expect(canManageProperty(null, ASSIGNMENT)).toBe(false);
+    });
+  });
+
+  describe('canViewProperty', () => {
+    const draft = { ...ASSIGNMENT, adminStatus: 'PENDING' };
+
+    it('should show active properties to everyone', () => {
+      expect(canViewProperty(null, { ...ASSIGNMENT, adminStatus: 'ACTIVE' })).toBe(true);
+    });
+
+    it('should show drafts to administrators, the owner and the assigned agent', () => {
+      expect(canViewProperty(ADMIN, draft)).toBe(true);
+      expect(canViewProperty(OWNER, draft)).toBe(true);
+      expect(canViewProperty(AGENT, draft)).toBe(true);
+    });
+
+    it('should hide drafts from other users and anonymous callers', () => {
+      expect(canViewProperty(OTHER_AGENT, draft)).toBe(false);
+      expect(canViewProperty(null, draft)).toBe(false);
+    });
+  });
+
+  describe('getRequestUser', () => {
+    it('should read the API key permissions forwarded by the gateway', () => {
+      const request = {
+        headers: {
+          'x-user-id': PARTNER_KEY.id,
+          'x-user-role': 'api_key',
+          'x-user-permissions': 'properties.read, properties.create,properties.update',
+        },
+      } as unknown as FastifyRequest;
+
+      expect(getRequestUser(request)).toEqual({ ...PARTNER_KEY, email: undefined });
+    });
+  });
+
+  describe('resolveCreateAssignment', () => {
+    it('should stamp agents as owner and agent of their listings', () => {
+      expect(resolveCreateAssignment(AGENT, { ownerId: 'someone', agentId: OTHER_AGENT.id })).toEqual({
+        ownerId: AGENT.id,
+        agentId: AGENT.id,
+      });
+    });
+
+    it('should let administrators choose the owner and agent', () => {
+      expect(resolveCreateAssignment(ADMIN, { ownerId: OWNER.id, agentId: AGENT.id })).toEqual(ASSIGNMENT);
+    });
+
+    it('should default the owner to the administrator and leave the agent unassigned', () => {
+      expect(resolveCreateAssignment(ADMIN, {})).toEqual({ ownerId: ADMIN.id, agentId: null });
+    });
+
+    it('should not assign an agent to listings created by other roles', () => {
+      expect(resolveCreateAssignment(OWNER, { agentId: AGENT.id })).toEqual({ ownerId: OWNER.id, agentId: null });
+    });
+  });
+
+  describe('draft visibility', () => {
+    it('should not restrict administrators', async () => {
+      expect(await whereFor(ADMIN)).not.toHaveProperty('OR');
+      expect(sqlFor(ADMIN)).toBeUndefined();
+    });
+
+    it('should add the caller\'s own drafts for owners and agents', async () => {
+      for (const user of [OWNER, AGENT]) {
+        expect(await whereFor(user)).toMatchObject({
+          OR: [{ adminStatus: 'ACTIVE' }, { ownerId: user.id }, { agentId: user.id }],
+        });
+
+        const condition = sqlFor(user)!;
+        expect(condition.sql).toBe('(p."adminStatus" = \'ACTIVE\' OR p."ownerId" = ? OR p."agentId" = ?)');
+        expect(condition.values).toEqual([user.id, user.id]);
+      }
+    });
+
+    it('should only list active properties for anonymous callers', async () => {
+      expect(await whereFor(null)).toMatchObject({ OR: [{ adminStatus: 'ACTIVE' }] });
+
+      const condition = sqlFor(null)!;
+      expect(condition.sql).toBe('p."adminStatus" = \'ACTIVE\'');
+      expect(condition.values).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Property Change Feed Unit Tests
+ *
+ * Which public listings count as new or reduced in a window - NO DATABASE
+ */
+
+import { Prisma } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { PrismaPropertyRepository } from '../../implementations/repositories/prisma-property-repository';
+
+const RANGE = { since: new Date('2026-10-18T00:00:00Z'), until: new Date('2026-10-19T00:00:00Z') };
+
+function row(id: string, dates: { createdAt: string; publishedAt: string; priceReducedAt?: string }) {
+  return {
+    id,
+    title: 'Apartamento T2',
+    location: 'Porto',
+    price: new Prisma.Decimal(250000),
+    status: 'for_sale',
+    adminStatus: 'ACTIVE',
+    features: [],
+    createdAt: new Date(dates.createdAt),
+    updatedAt: new Date(dates.publishedAt),
+    publishedAt: new Date(dates.publishedAt),
+    priceReducedAt: dates.priceReducedAt ? new Date(dates.priceReducedAt) : null,
+  };
+}
+
+describe('PrismaPropertyRepository.findChanges', () => {
+  it('should select new listings by publication date, not creation date', async () => {
+    const findMany = vi.fn().mockResolvedValue([]);
+    const repository = new PrismaPropertyRepository({ property: { findMany } });
+
+    await repository.findChanges(RANGE, 50);
+
+    const window = { gte: RANGE.since, lt: RANGE.until };
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      adminStatus: 'ACTIVE',
+      OR: [{ publishedAt: window }, { priceReducedAt: window }],
+    });
+  });
+
+  it('should report a moderated listing as new when it is published in the window', async () => {
+    const findMany = vi.fn().mockResolvedValue([
+      // Drafted weeks earlier, published by an admin yesterday
+      row('moderated', { createdAt: '2026-09-20T10:00:00Z', publishedAt: '2026-10-18T09:30:00Z' }),
+      // Published long ago, reduced yesterday
+      row('reduced', { createdAt: '2026-09-01T10:00:00Z', publishedAt: '2026-09-02T10:00:00Z', priceReducedAt: '2026-10-18T15:00:00Z' }),
+    ]);
+    const repository = new PrismaPropertyRepository({ property: { findMany } });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const changes = await repository.findChanges(RANGE, 50);
+
+    expect(changes.map(change => [change.id, change.changeType])).toEqual([
+      ['moderated', 'new'],
+      ['reduced', 'price_drop'],
+    ]);
+  });
+});
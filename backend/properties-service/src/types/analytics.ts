@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { REPORT_GRANULARITIES, ReportGranularity } from '../domain/report-types';
+
+// Date range shared by the view analytics endpoints (defaults to the last 30 days)
+export const analyticsRangeSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const topPropertiesQuerySchema = analyticsRangeSchema.extend({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Management report: defaults to the last 12 months by month
+export const reportQuerySchema = analyticsRangeSchema.extend({
+  granularity: z.enum(REPORT_GRANULARITIES as [ReportGranularity, ...ReportGranularity[]]).default('month'),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// TypeScript types
+export type AnalyticsRangeQuery = z.infer<typeof analyticsRangeSchema>;
+export type TopPropertiesQuery = z.infer<typeof topPropertiesQuerySchema>;
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
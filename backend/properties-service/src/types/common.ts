@@ -63,6 +63,13 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class ForbiddenError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 403, 'FORBIDDEN', details);
+    this.name = 'ForbiddenError';
+  }
+}
+
 export class ConflictError extends AppError {
   constructor(message: string, details?: unknown) {
     super(message, 409, 'CONFLICT', details);
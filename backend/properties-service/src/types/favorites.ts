@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const favoriteListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().uuid().optional(),
+});
+
+// TypeScript types
+export type FavoriteListQuery = z.infer<typeof favoriteListQuerySchema>;
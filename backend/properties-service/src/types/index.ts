@@ -1,2 +1,5 @@
+export * from './analytics';
 export * from './common';
+export * from './favorites';
 export * from './property';
+export * from './project';
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { MODERATION_ACTIONS, ModerationAction } from '../domain/moderation-types';
+
+// status is a comma-separated list (e.g. SUBMITTED,APPROVED), checked by the moderation core; defaults to SUBMITTED
+export const moderationQueueQuerySchema = z.object({
+  status: z.string().trim().max(100).optional(),
+  agentId: z.string().trim().min(1).max(100).optional(),
+  minWaitingHours: z.coerce.number().min(0).max(24 * 365).optional(),
+  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().uuid().optional(),
+});
+
+export const moderationActionParamsSchema = z.object({
+  id: z.string().uuid(),
+  action: z.enum(MODERATION_ACTIONS as [ModerationAction, ...ModerationAction[]]),
+});
+
+export const moderationActionBodySchema = z.object({
+  reason: z.string().trim().max(2000).optional(),
+});
+
+// TypeScript types
+export type ModerationQueueQuery = z.infer<typeof moderationQueueQuerySchema>;
+export type ModerationActionParams = z.infer<typeof moderationActionParamsSchema>;
+export type ModerationActionBody = z.infer<typeof moderationActionBodySchema>;
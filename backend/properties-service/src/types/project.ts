@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { urlSchema } from './common';
+
+// Enums validation
+export const ProjectTypeSchema = z.enum(['renovation', 'construction', 'design']);
+export const ProjectStatusSchema = z.enum(['planned', 'in_progress', 'completed', 'on_hold']);
+
+// Project creation schema
+export const projectCreateSchema = z.object({
+  name: z
+    .string()
+    .min(3, 'Name must be at least 3 characters')
+    .max(200, 'Name must not exceed 200 characters')
+    .trim(),
+
+  type: ProjectTypeSchema,
+
+  status: ProjectStatusSchema.optional(),
+
+  description: z
+    .string()
+    .max(5000, 'Description must not exceed 5000 characters')
+    .trim()
+    .optional(),
+
+  imageUrl: urlSchema.optional(),
+
+  gallery: z.array(urlSchema).max(30).optional(),
+
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+
+  propertyIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+// Project update schema (all fields optional, nullable ones can be cleared)
+export const projectUpdateSchema = z.object({
+  name: z
+    .string()
+    .min(3, 'Name must be at least 3 characters')
+    .max(200, 'Name must not exceed 200 characters')
+    .trim()
+    .optional(),
+
+  type: ProjectTypeSchema.optional(),
+
+  status: ProjectStatusSchema.optional(),
+
+  description: z
+    .string()
+    .max(5000, 'Description must not exceed 5000 characters')
+    .trim()
+    .nullable()
+    .optional(),
+
+  imageUrl: urlSchema.nullable().optional(),
+
+  gallery: z.array(urlSchema).max(30).optional(),
+
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+
+  propertyIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+// Project filters schema
+export const projectFiltersSchema = z.object({
+  type: ProjectTypeSchema.optional(),
+  status: ProjectStatusSchema.optional(),
+  q: z.string().optional(),
+
+  // Sorting
+  sortBy: z.enum(['createdAt', 'name', 'startDate', 'endDate']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+
+  // Pagination
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  cursor: z.string().uuid().optional(),
+});
+
+// TypeScript types
+export type ProjectCreateInput = z.infer<typeof projectCreateSchema>;
+export type ProjectUpdateInput = z.infer<typeof projectUpdateSchema>;
+export type ProjectFilters = z.infer<typeof projectFiltersSchema>;
@@ -1,6 +1,7 @@
 import { PropertyStatus, PropertyType } from '@prisma/client';
 import { z } from 'zod';
 import { config } from '../config/index';
+import { PropertyVisibility } from '../domain/property-types';
 import { paginationSchema, positiveNumberSchema, urlSchema } from './common';
 
 // Enums validation
@@ -59,6 +60,10 @@ export const propertyCreateSchema = z.object({
   // Contact info
   contactPhone: z.string().optional(),
   contactEmail: z.string().email().optional(),
+
+  // Assignment (auth-service user IDs), only honoured for administrators
+  ownerId: z.string().trim().min(1).max(100).nullable().optional(),
+  agentId: z.string().trim().min(1).max(100).nullable().optional(),
 });
 
 // Property update schema (all fields optional)
@@ -115,6 +120,9 @@ export const propertyUpdateSchema = z.object({
   // Contact info
   contactPhone: z.string().optional(),
   contactEmail: z.string().email().optional(),
+
+  // Recorded in the price history when the price changes (not stored on the property)
+  priceChangeReason: z.string().max(100).trim().optional(),
 });
 
 // Property filters schema
@@ -149,25 +157,87 @@ export const propertyFiltersSchema = z.object({
   // Features
   features: z.array(z.string()).optional(),
   
+  // Price reductions
+  recentlyReduced: z.boolean().optional(),
+  reducedWithinDays: z.coerce.number().int().min(1).max(365).optional(), // Defaults to 30
+  
   // Geospatial search
   nearbySearch: z.object({
     latitude: z.number().min(-90).max(90),
     longitude: z.number().min(-180).max(180),
-    radiusKm: z.number().positive().max(100).default(5)
+    radiusKm: z.number().positive().max(500).default(5) // Service enforces the maxSearchRadius module setting
   }).optional(),
   
   // Sorting
-  sortBy: z.enum(['createdAt', 'price', 'area', 'title']).default('createdAt'),
+  sortBy: z.enum(['createdAt', 'price', 'area', 'title', 'relevance']).default('createdAt'), // relevance requires q
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
   
 }).merge(paginationSchema);
 
+const geoPointSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180)
+});
+
+// Map viewport in decimal degrees
+export const boundingBoxSchema = z.object({
+  north: z.coerce.number().min(-90).max(90),
+  south: z.coerce.number().min(-90).max(90),
+  east: z.coerce.number().min(-180).max(180),
+  west: z.coerce.number().min(-180).max(180)
+}).refine(box => box.south < box.north && box.west < box.east, {
+  message: 'Bounding box must have south < north and west < east'
+});
+
+// Geospatial search filters (radius, viewport or polygon).
+// Results are ordered by distance and paginated with an opaque keyset cursor.
+export const propertySpatialFiltersSchema = propertyFiltersSchema
+  .omit({ cursor: true, sortBy: true, sortOrder: true })
+  .extend({
+    cursor: z.string().max(200).optional(),
+    boundingBox: boundingBoxSchema.optional(),
+    polygon: z.array(geoPointSchema).min(3, 'Polygon must have at least 3 vertices').max(500).optional(),
+    origin: geoPointSchema.optional(),
+  })
+  .refine(filters => !!(filters.nearbySearch || filters.boundingBox || filters.polygon), {
+    message: 'A nearby, bounding box or polygon search is required'
+  });
+
+// Listings published or reduced in price within [since, until), for alert matching.
+// Only active listings are returned; pages are ordered by ID for a stable cursor.
+export const propertyChangesQuerySchema = z.object({
+  since: z.coerce.date(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100),
+  cursor: z.string().uuid().optional(),
+}).refine(query => !query.until || query.since < query.until, {
+  message: 'since must be before until'
+});
+
+// Owner/agent reassignment by an administrator (null clears the assignment)
+export const propertyAssignmentSchema = z.object({
+  ownerId: z.string().trim().min(1).max(100).nullable().optional(),
+  agentId: z.string().trim().min(1).max(100).nullable().optional(),
+}).refine(assignment => assignment.ownerId !== undefined || assignment.agentId !== undefined, {
+  message: 'ownerId or agentId is required'
+});
+
+// Moves every property of one agent to another (e.g. when an agent leaves)
+export const agentReassignmentSchema = z.object({
+  fromAgentId: z.string().trim().min(1).max(100),
+  toAgentId: z.string().trim().min(1).max(100).nullable(),
+}).refine(body => body.fromAgentId !== body.toAgentId, {
+  message: 'fromAgentId and toAgentId must differ'
+});
+
 // Property response schema
 export const propertyResponseSchema = z.object({
   id: z.string().uuid(),
   title: z.string(),
   location: z.string(),
   price: z.number(),
+  previousPrice: z.number().nullable(), // Price before the last reduction
+  priceReducedAt: z.date().nullable(),
   status: PropertyStatusSchema,
   adminStatus: AdminStatusSchema,
   type: PropertyTypeSchema.nullable(),
@@ -190,13 +260,40 @@ export const propertyResponseSchema = z.object({
   // Computed fields
   pricePerSqm: z.number().nullable(),
   propertyAge: z.number().int().nullable(),
+  distanceKm: z.number().optional(), // Only on geospatial search results
+  relevance: z.number().optional(), // Only on text search results
+  highlight: z.object({
+    title: z.string(),
+    description: z.string().nullable()
+  }).optional(),
+  favoriteCount: z.number().int().optional(),
+  isFavorite: z.boolean().optional(), // Only when the caller is logged in
+});
+
+// Price history entry response schema
+export const priceHistoryEntrySchema = z.object({
+  id: z.string().uuid(),
+  oldPrice: z.number().nullable(),
+  newPrice: z.number(),
+  change: z.number().nullable(),
+  changePercent: z.number().nullable(),
+  reason: z.string().nullable(),
+  changedBy: z.string().nullable().optional(), // Only shown to admins
+  changedAt: z.date(),
 });
 
 // TypeScript types
 export type PropertyCreateInput = z.infer<typeof propertyCreateSchema>;
 export type PropertyUpdateInput = z.infer<typeof propertyUpdateSchema>;
-export type PropertyFilters = z.infer<typeof propertyFiltersSchema>;
+export type PropertyFilters = z.infer<typeof propertyFiltersSchema> & { visibility?: PropertyVisibility };
 export type PropertyResponse = z.infer<typeof propertyResponseSchema>;
+export type PropertySpatialFilters = z.infer<typeof propertySpatialFiltersSchema> & { visibility?: PropertyVisibility };
+export type PriceHistoryEntryResponse = z.infer<typeof priceHistoryEntrySchema>;
+export type PropertyChangesQuery = z.infer<typeof propertyChangesQuerySchema>;
+export type PropertyAssignmentInput = z.infer<typeof propertyAssignmentSchema>;
+export type AgentReassignmentInput = z.infer<typeof agentReassignmentSchema>;
+export type PropertyChangeType = 'new' | 'price_drop';
+export type PropertyChangeResponse = PropertyResponse & { changeType: PropertyChangeType };
 
 // Repository types
 export interface PropertyRepository {
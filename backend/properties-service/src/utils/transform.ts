@@ -43,6 +43,8 @@ export function transformPropertyFromDb(property: PropertyWithAdminStatus): Prop
     title: property.title,
     location: property.location,
     price: Number(property.price),
+    previousPrice: property.previousPrice ? Number(property.previousPrice) : null,
+    priceReducedAt: property.priceReducedAt || null,
     status: property.status,
     adminStatus: property.adminStatus || 'ACTIVE',
     type: property.type,
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "settings"."module_settings_schemas" (
+    "id" TEXT NOT NULL,
+    "moduleName" TEXT NOT NULL,
+    "service" TEXT NOT NULL,
+    "version" TEXT NOT NULL DEFAULT '1',
+    "description" TEXT,
+    "schema" JSONB NOT NULL,
+    "defaults" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "module_settings_schemas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "module_settings_schemas_moduleName_key" ON "settings"."module_settings_schemas"("moduleName");
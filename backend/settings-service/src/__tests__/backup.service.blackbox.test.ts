@@ -0,0 +1,269 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BackupStorage } from '@/interfaces/backup-storage.interface';
+import { BackupService } from '@/services/backup.service';
+import { ModuleSettings, SettingsHistory, SystemSettings } from '@/types/settings';
+import { gunzipSync, gzipSync } from 'zlib';
+
+/**
+ * Testes Black Box para o serviço de backups
+ * Verifica conteúdo dos backups, cadeia incremental, checksums, versão do formato e retenção
+ */
+describe('Backup Service Black Box Tests', () => {
+  let backupService: BackupService;
+  let files: Map<string, Buffer>;
+  let currentSettings: SystemSettings;
+  let moduleSettings: ModuleSettings[];
+  let history: SettingsHistory[];
+  let settingsUpdates: Array<{ data: any; changeReason?: string }>;
+
+  const storage: BackupStorage = {
+    name: 'memory',
+    write: async (key, data) => { files.set(key, data); },
+    read: async (key) => {
+      const data = files.get(key);
+      if (!data) throw new Error(`not found: ${key}`);
+      return data;
+    },
+    exists: async (key) => files.has(key),
+    delete: async (key) => { files.delete(key); },
+    list: async () => [...files.keys()],
+  };
+
+  const matches = (value: Date, filter?: { gt?: Date }) => !filter?.gt || value > filter.gt;
+
+  beforeEach(() => {
+    files = new Map();
+    settingsUpdates = [];
+
+    currentSettings = {
+      id: 'singleton',
+      brandName: 'Ribeira Azul',
+      primaryColor: '#2563eb',
+      secondaryColor: '#1f2937',
+      accentColor: '#f59e0b',
+      backgroundColor: '#ffffff',
+      textColor: '#1f2937',
+      contactEmail: 'contato@ribeirazul.com',
+      contactPhone: '+55 11 99999-9999',
+      contactAddress: 'São Paulo, SP',
+      maintenanceMode: false,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    };
+
+    moduleSettings = [{
+      id: 'm1',
+      moduleName: 'properties',
+      settingsKey: 'pageSize',
+      settingsValue: 20,
+      isActive: true,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    }];
+
+    history = [{
+      id: 'h1',
+      settingsId: 'singleton',
+      fieldName: 'primaryColor',
+      oldValue: '#000000',
+      newValue: '#2563eb',
+      changedBy: 'admin-1',
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    }];
+
+    const repositories = {
+      settings: {
+        getCurrentSettings: async () => currentSettings,
+        updateSettings: async (data: any, _updatedBy?: string, changeReason?: string) => {
+          settingsUpdates.push({ data, ...(changeReason && { changeReason }) });
+          currentSettings = { ...currentSettings, ...data };
+          return currentSettings;
+        },
+      },
+      moduleSettings: {
+        findMany: async (options: any) => {
+          const data = moduleSettings.filter(item => matches(item.updatedAt, options.filters?.updatedAt));
+          return { data, total: data.length, page: 1, limit: options.limit, totalPages: 1 };
+        },
+        findByModuleAndKey: async (moduleName: string, settingsKey: string) =>
+          moduleSettings.find(item => item.moduleName === moduleName && item.settingsKey === settingsKey) || null,
+        update: async (id: string, data: any) => {
+          const item = moduleSettings.find(module => module.id === id)!;
+          Object.assign(item, data);
+          return item;
+        },
+        create: async (data: any) => {
+          const item = { id: `m${moduleSettings.length + 1}`, isActive: true, createdAt: new Date(), updatedAt: new Date(), ...data };
+          moduleSettings.push(item);
+          return item;
+        },
+      },
+      history: {
+        findMany: async (options: any) => {
+          const data = history.filter(item => matches(item.createdAt, options.filters?.createdAt));
+          return { data, total: data.length, page: 1, limit: options.limit, totalPages: 1 };
+        },
+        findById: async (id: string) => history.find(item => item.id === id) || null,
+        create: async (data: any) => {
+          history.push(data);
+          return data;
+        },
+      },
+    };
+
+    backupService = new BackupService({
+      scheduleEnabled: false,
+      fullIntervalHours: 24,
+      incrementalIntervalHours: 0,
+      retentionDays: 30,
+      retentionMinFull: 1,
+    });
+    backupService.dependencies = {
+      database: {
+        ...repositories,
+        transaction: async (callback: any) => callback(repositories),
+      } as any,
+      observability: {
+        info: () => {},
+        warn: () => {},
+        error: () => {},
+        incrementCounter: () => {},
+        startTrace: () => 'trace-id',
+        endTrace: () => {},
+      } as any,
+      storage,
+    };
+  });
+
+  const readArchive = (name: string) => JSON.parse(gunzipSync(files.get(name)!).toString('utf-8'));
+
+  describe('createBackup', () => {
+    it('should include module settings and history in a full backup', async () => {
+      const result = await backupService.createBackup({ type: 'full' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.counts).toEqual({ settings: 1, moduleSettings: 1, history: 1 });
+      expect(result.data?.checksum).toMatch(/^[a-f0-9]{64}$/);
+
+      const archive = readArchive(result.data!.name);
+      expect(archive.schemaVersion).toBe(2);
+      expect(archive.data.moduleSettings[0].settingsKey).toBe('pageSize');
+      expect(archive.data.history[0].id).toBe('h1');
+    });
+
+    it('should capture only changes since the previous backup in an incremental', async () => {
+      const full = await backupService.createBackup({ type: 'full' });
+      const since = new Date(Date.now() + 1000);
+
+      history.push({ id: 'h2', settingsId: 'singleton', fieldName: 'brandName', oldValue: 'Ribeira Azul', newValue: 'RA', createdAt: since });
+      moduleSettings[0]!.updatedAt = since;
+
+      const incremental = await backupService.createBackup({ type: 'incremental' });
+
+      expect(incremental.data?.type).toBe('incremental');
+      expect(incremental.data?.baseBackupId).toBe(full.data?.id);
+      expect(incremental.data?.counts).toEqual({ settings: 0, moduleSettings: 1, history: 1 });
+    });
+
+    it('should fall back to a full backup when there is no base', async () => {
+      const result = await backupService.createBackup({ type: 'incremental' });
+
+      expect(result.data?.type).toBe('full');
+      expect(result.data?.baseBackupId).toBeUndefined();
+    });
+
+    it('should record every backup in the manifest', async () => {
+      await backupService.createBackup({ type: 'settings', description: 'antes da migração' });
+
+      const manifest = JSON.parse(files.get('manifest.json')!.toString('utf-8'));
+      expect(manifest.backups).toHaveLength(1);
+      expect(manifest.backups[0].description).toBe('antes da migração');
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should restore settings, module settings and missing history', async () => {
+      const backup = await backupService.createBackup({ type: 'full' });
+
+      currentSettings = { ...currentSettings, brandName: 'Outro' };
+      moduleSettings[0]!.settingsValue = 50;
+      history = [];
+
+      const result = await backupService.restoreBackup({ backupId: backup.data!.id, confirmRestore: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.settings.brandName).toBe('Ribeira Azul');
+      expect(moduleSettings[0]!.settingsValue).toBe(20);
+      expect(history.map(entry => entry.id)).toEqual(['h1']);
+      expect(settingsUpdates[0]!.data.id).toBeUndefined();
+      expect(settingsUpdates[0]!.changeReason).toBe(`Backup restore ${backup.data!.id}`);
+    });
+
+    it('should reject a backup whose checksum does not match', async () => {
+      const backup = await backupService.createBackup({ type: 'full' });
+      files.set(backup.data!.name, gzipSync(Buffer.from('{}')));
+
+      const result = await backupService.restoreBackup({ backupId: backup.data!.id, confirmRestore: true });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Checksum inválido');
+      expect(settingsUpdates).toHaveLength(0);
+    });
+
+    it('should reject a newer schema version before applying anything', async () => {
+      files.set('backup_full_2026-01-01T00-00-00-000Z_future.json.gz', gzipSync(Buffer.from(JSON.stringify({
+        schemaVersion: 99,
+        id: 'future',
+        type: 'full',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        data: {},
+      }))));
+
+      const result = await backupService.restoreBackup({ backupId: 'future', confirmRestore: true });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Versão de backup não suportada');
+      expect(settingsUpdates).toHaveLength(0);
+    });
+
+    it('should restore legacy backups that only contain settings', async () => {
+      files.set('backup_full_2025-12-01T00-00-00-000Z.json.gz', gzipSync(Buffer.from(JSON.stringify({
+        version: '1.0.0',
+        createdAt: '2025-12-01T00:00:00.000Z',
+        settings: { ...currentSettings, brandName: 'Antigo' },
+      }))));
+
+      const list = await backupService.listBackups();
+      const legacy = list.data!.find(item => item.schemaVersion === 1)!;
+      const result = await backupService.restoreBackup({ backupId: legacy.id, confirmRestore: true });
+
+      expect(legacy.type).toBe('settings');
+      expect(result.success).toBe(true);
+      expect(result.data?.settings.brandName).toBe('Antigo');
+    });
+  });
+
+  describe('applyRetention', () => {
+    it('should delete expired backups but keep the newest full backup and its dependants', async () => {
+      const old = await backupService.createBackup({ type: 'full' });
+      const base = await backupService.createBackup({ type: 'full' });
+      const incremental = await backupService.createBackup({ type: 'incremental' });
+
+      // Envelhece os backups completos para fora do período de retenção
+      const manifest = JSON.parse(files.get('manifest.json')!.toString('utf-8'));
+      manifest.backups.forEach((item: any, index: number) => {
+        if (item.type === 'full') {
+          item.createdAt = new Date(Date.UTC(2020, 0, 3 - index)).toISOString();
+        }
+      });
+      files.set('manifest.json', Buffer.from(JSON.stringify(manifest)));
+
+      const result = await backupService.applyRetention();
+
+      expect(result.data?.deleted).toEqual([old.data!.id]);
+      expect(files.has(old.data!.name)).toBe(false);
+      expect(files.has(base.data!.name)).toBe(true);
+      expect(files.has(incremental.data!.name)).toBe(true);
+    });
+  });
+});
@@ -83,6 +83,12 @@ describe('Integration Tests', () => {
           deleteModuleSettings: async () => {},
           validateModuleSettings: async () => ({ valid: true, errors: [] }),
         } as any,
+        moduleSchemas: {
+          findAll: async () => [],
+          findByModule: async () => null,
+          upsert: async () => ({} as any),
+          delete: async () => {},
+        } as any,
         history: {
           findById: async () => null,
           create: async () => ({} as any),
@@ -359,6 +365,7 @@ describe('Integration Tests', () => {
       const response = await app.inject({
         method: 'PUT',
         url: '/api/v1/module-settings/auth',
+        headers: { 'x-user-role': 'admin' },
         payload: updateData,
       });
 
@@ -381,6 +388,123 @@ describe('Integration Tests', () => {
     });
   });
 
+  describe('Module Settings Authorization', () => {
+    it('should reject value writes, resets and deletions without an admin role', async () => {
+      for (const request of [
+        { method: 'PUT' as const, url: '/api/v1/module-settings/auth', payload: { maxLoginAttempts: 3 } },
+        { method: 'POST' as const, url: '/api/v1/module-settings', payload: { moduleName: 'auth', settingsKey: 'maxLoginAttempts', settingsValue: { value: 3 } } },
+        { method: 'PUT' as const, url: '/api/v1/module-settings/setting/setting-1', payload: { isActive: false } },
+        { method: 'DELETE' as const, url: '/api/v1/module-settings/setting/setting-1' },
+        { method: 'DELETE' as const, url: '/api/v1/module-settings/module/auth' },
+      ]) {
+        for (const headers of [{}, { 'x-user-role': 'user' }]) {
+          const response = await app.inject({ ...request, headers });
+
+          expect(response.statusCode).toBe(403);
+          expect(JSON.parse(response.body).code).toBe('FORBIDDEN');
+        }
+      }
+    });
+
+    it('should reject schema registration without the internal API key', async () => {
+      for (const headers of [{}, { 'x-user-role': 'admin' }, { 'x-internal-api-key': 'wrong-key' }]) {
+        const response = await app.inject({
+          method: 'PUT',
+          url: '/api/v1/module-settings/schemas/gateway',
+          headers,
+          payload: { service: 'api-gateway', schema: { type: 'object' }, defaults: {} },
+        });
+
+        expect(response.statusCode).toBe(401);
+        expect(JSON.parse(response.body).code).toBe('UNAUTHORIZED');
+      }
+    });
+
+    it('should let services register their schema with the internal API key', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v1/module-settings/schemas/gateway',
+        headers: { 'x-internal-api-key': 'test-internal-key' },
+        payload: { service: 'api-gateway', schema: { type: 'object' }, defaults: {} },
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
+
+  describe('Settings History Authorization', () => {
+    it('should reject history cleanup without an admin role', async () => {
+      for (const headers of [{}, { 'x-user-role': 'user' }]) {
+        const response = await app.inject({
+          method: 'DELETE',
+          url: '/api/v1/settings/history',
+          headers,
+        });
+
+        expect(response.statusCode).toBe(403);
+        expect(JSON.parse(response.body).code).toBe('FORBIDDEN');
+      }
+    });
+
+    it('should reject reverts without an admin role', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/settings/history/revert',
+        headers: { 'x-user-role': 'agent' },
+        payload: { at: new Date().toISOString() },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should allow history cleanup to admins', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/settings/history',
+        headers: { 'x-user-role': 'super_admin' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.deletedCount).toBe(0);
+    });
+  });
+
+  describe('Backup Authorization', () => {
+    it('should reject restores and deletions without an admin role', async () => {
+      for (const request of [
+        { method: 'POST' as const, url: '/api/v1/backup/restore', payload: { backupId: 'backup-1', confirmRestore: true } },
+        { method: 'DELETE' as const, url: '/api/v1/backup/backup-1' },
+        { method: 'POST' as const, url: '/api/v1/backup/retention' },
+      ]) {
+        const response = await app.inject({ ...request, headers: { 'x-user-role': 'user' } });
+
+        expect(response.statusCode).toBe(403);
+        expect(JSON.parse(response.body).code).toBe('FORBIDDEN');
+      }
+    });
+
+    it('should reject listing, downloading and reading the schedule without an admin role', async () => {
+      for (const url of ['/api/v1/backup', '/api/v1/backup/backup-1/download', '/api/v1/backup/schedule']) {
+        for (const headers of [{}, { 'x-user-role': 'user' }]) {
+          const response = await app.inject({ method: 'GET', url, headers });
+
+          expect(response.statusCode).toBe(403);
+          expect(JSON.parse(response.body).code).toBe('FORBIDDEN');
+        }
+      }
+    });
+
+    it('should let admins reach the backup handlers', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/backup/missing-backup',
+        headers: { 'x-user-role': 'admin' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
   describe('Error Handling Integration', () => {
     it('should handle invalid JSON in request body', async () => {
       const response = await app.inject({
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ZodSettingsValidator } from '@/implementations/zod-settings-validator';
+import { ModuleSettingsService } from '@/services/module-settings.service';
+import { ModuleSettingsSchema, RegisterModuleSchemaRequest } from '@/types/settings';
+
+/**
+ * Testes Black Box para o registo de schemas de configurações de módulo
+ * Verifica valores por omissão, validação contra o schema registado e ETag das configurações efetivas
+ */
+describe('Module Settings Service Black Box Tests', () => {
+  let moduleSettingsService: ModuleSettingsService;
+  let stored: Record<string, Record<string, any>>;
+  let registry: Map<string, ModuleSettingsSchema>;
+  let cache: Map<string, Record<string, any>>;
+
+  const propertiesSchema: RegisterModuleSchemaRequest = {
+    service: 'properties-service',
+    version: '1',
+    schema: {
+      type: 'object',
+      properties: {
+        maxSearchRadius: { type: 'number', minimum: 1, maximum: 500 },
+        maxImageSizeMb: { type: 'integer', minimum: 1, maximum: 50 },
+      },
+      additionalProperties: false,
+    },
+    defaults: { maxSearchRadius: 100, maxImageSizeMb: 20 },
+  };
+
+  beforeEach(() => {
+    stored = {};
+    registry = new Map();
+    cache = new Map();
+
+    moduleSettingsService = new ModuleSettingsService({
+      database: {
+        moduleSettings: {
+          getModuleSettings: async (moduleName: string) => ({ ...(stored[moduleName] || {}) }),
+          updateModuleSettings: async (moduleName: string, settings: Record<string, any>) => {
+            stored[moduleName] = { ...(stored[moduleName] || {}), ...settings };
+          },
+        },
+        moduleSchemas: {
+          findAll: async () => [...registry.values()],
+          findByModule: async (moduleName: string) => registry.get(moduleName) || null,
+          upsert: async (moduleName: string, data: RegisterModuleSchemaRequest) => {
+            const registration = {
+              id: `schema-${moduleName}`,
+              moduleName,
+              service: data.service,
+              version: data.version || '1',
+              schema: data.schema,
+              defaults: data.defaults,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            };
+            registry.set(moduleName, registration);
+            return registration;
+          },
+        },
+      } as any,
+      cache: {
+        getModuleSettings: async (moduleName: string) => cache.get(moduleName) || null,
+        setModuleSettings: async (moduleName: string, settings: Record<string, any>) => {
+          cache.set(moduleName, settings);
+        },
+        invalidateModuleSettings: async (moduleName: string) => {
+          cache.delete(moduleName);
+        },
+      } as any,
+      observability: {
+        info: () => {},
+        warn: () => {},
+        error: () => {},
+        startTrace: () => 'trace-id',
+        endTrace: () => {},
+        recordCacheHit: () => {},
+        recordCacheMiss: () => {},
+        recordModuleSettingsUpdate: () => {},
+      } as any,
+      validator: new ZodSettingsValidator(),
+    });
+  });
+
+  describe('registerModuleSchema', () => {
+    it('should reject defaults that do not match the schema', async () => {
+      const result = await moduleSettingsService.registerModuleSchema('properties', {
+        ...propertiesSchema,
+        defaults: { maxSearchRadius: 1000 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Dados inválidos');
+      expect(result.message).toContain('maxSearchRadius');
+      expect(registry.size).toBe(0);
+    });
+
+    it('should expose the defaults as effective settings', async () => {
+      await moduleSettingsService.registerModuleSchema('properties', propertiesSchema);
+      stored.properties = { maxSearchRadius: 50 };
+
+      const result = await moduleSettingsService.getModuleSettings('properties');
+
+      expect(result.data).toEqual({ maxSearchRadius: 50, maxImageSizeMb: 20 });
+    });
+  });
+
+  describe('updateModuleSettings', () => {
+    beforeEach(async () => {
+      await moduleSettingsService.registerModuleSchema('properties', propertiesSchema);
+    });
+
+    it('should validate changes against the registered schema', async () => {
+      const outOfRange = await moduleSettingsService.updateModuleSettings('properties', { maxSearchRadius: 0 });
+      const unknownKey = await moduleSettingsService.updateModuleSettings('properties', { searchRadius: 10 });
+
+      expect(outOfRange.success).toBe(false);
+      expect(outOfRange.message).toContain('maxSearchRadius');
+      expect(unknownKey.success).toBe(false);
+      expect(unknownKey.message).toContain('searchRadius');
+      expect(stored.properties).toBeUndefined();
+    });
+
+    it('should ignore stale keys that the schema no longer declares', async () => {
+      stored.properties = { maxPropertiesPerPage: 30 };
+
+      const result = await moduleSettingsService.updateModuleSettings('properties', { maxSearchRadius: 150 });
+
+      expect(result.success).toBe(true);
+      expect(stored.properties).toEqual({ maxPropertiesPerPage: 30, maxSearchRadius: 150 });
+    });
+
+    it('should change the ETag so polling services reload', async () => {
+      const before = await moduleSettingsService.getResolvedModuleSettings('properties');
+      await moduleSettingsService.updateModuleSettings('properties', { maxImageSizeMb: 10 });
+      const after = await moduleSettingsService.getResolvedModuleSettings('properties');
+
+      expect(after.data?.settings.maxImageSizeMb).toBe(10);
+      expect(after.data?.etag).not.toBe(before.data?.etag);
+    });
+  });
+
+  it('should keep the built-in validation for modules without a registered schema', async () => {
+    const result = await moduleSettingsService.updateModuleSettings('auth', { maxLoginAttempts: 50 });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('maxLoginAttempts');
+  });
+});
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { SettingsHistoryService } from '@/services/settings-history.service';
+import { RequestContext, SettingsHistory, SystemSettings, UpdateSettingsRequest } from '@/types/settings';
+
+/**
+ * Testes Black Box para o histórico de configurações
+ * Verifica reconstrução de versões, comparação e reversão a partir das entradas do histórico
+ */
+describe('Settings History Service Black Box Tests', () => {
+  let historyService: SettingsHistoryService;
+  let currentSettings: SystemSettings;
+  let history: SettingsHistory[];
+  let updates: Array<{ data: UpdateSettingsRequest; context?: RequestContext; changeReason?: string }>;
+
+  const entry = (id: string, fieldName: string, oldValue: string | undefined, newValue: string, createdAt: string): SettingsHistory => ({
+    id,
+    settingsId: 'singleton',
+    fieldName,
+    oldValue,
+    newValue,
+    changedBy: 'admin-1',
+    changeReason: 'API Update',
+    createdAt: new Date(createdAt),
+  });
+
+  beforeEach(() => {
+    currentSettings = {
+      id: 'singleton',
+      brandName: 'Ribeira Azul',
+      primaryColor: '#ff0000',
+      secondaryColor: '#000000',
+      accentColor: '#f59e0b',
+      backgroundColor: '#ffffff',
+      textColor: '#1f2937',
+      contactEmail: 'contato@ribeirazul.com',
+      contactPhone: '+55 11 99999-9999',
+      contactAddress: 'São Paulo, SP',
+      socialLinks: { facebook: 'https://facebook.com/novo' },
+      maintenanceMode: false,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-03-01T00:00:00Z'),
+    };
+
+    history = [
+      entry('h1', 'primaryColor', '#2563eb', '#00ff00', '2026-02-01T10:00:00Z'),
+      entry('h2', 'secondaryColor', '#1f2937', '#000000', '2026-02-01T10:00:00Z'),
+      entry('h3', 'primaryColor', '#00ff00', '#ff0000', '2026-03-01T10:00:00Z'),
+      entry('h4', 'socialLinks', '[object Object]', '{"facebook":"https://facebook.com/novo"}', '2026-03-01T10:00:00Z'),
+    ];
+
+    updates = [];
+
+    const inRange = (createdAt: Date, range: { gt?: Date; lte?: Date }) =>
+      (!range.gt || createdAt > range.gt) && (!range.lte || createdAt <= range.lte);
+
+    historyService = new SettingsHistoryService({
+      database: {
+        settings: {
+          getCurrentSettings: async () => currentSettings,
+        },
+        history: {
+          findById: async (id: string) => history.find(item => item.id === id) || null,
+          findMany: async (options: any) => {
+            const range = options.filters?.createdAt || {};
+            const data = history
+              .filter(item => inRange(item.createdAt, range))
+              .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+            return { data, total: data.length, page: 1, limit: options.limit, totalPages: 1 };
+          },
+        },
+      } as any,
+      observability: {
+        info: () => {},
+        warn: () => {},
+        error: () => {},
+        startTrace: () => 'trace-id',
+        endTrace: () => {},
+      } as any,
+      settingsService: {
+        updateSettings: async (data: UpdateSettingsRequest, context?: RequestContext, changeReason?: string) => {
+          updates.push({ data, context, changeReason });
+          return { success: true, data: { ...currentSettings, ...data } };
+        },
+      } as any,
+    });
+  });
+
+  describe('getSettingsAt', () => {
+    it('should rebuild settings as they were at a point in time', async () => {
+      const result = await historyService.getSettingsAt(new Date('2026-02-15T00:00:00Z'));
+
+      expect(result.success).toBe(true);
+      expect(result.data?.settings.primaryColor).toBe('#00ff00');
+      expect(result.data?.settings.secondaryColor).toBe('#000000');
+      expect(result.data?.settings.brandName).toBe('Ribeira Azul');
+    });
+
+    it('should report legacy values that cannot be recovered', async () => {
+      const result = await historyService.getSettingsAt(new Date('2026-02-15T00:00:00Z'));
+
+      expect(result.data?.unknownFields).toEqual(['socialLinks']);
+      expect(result.data?.settings.socialLinks).toBeUndefined();
+    });
+  });
+
+  describe('getHistoryDiff', () => {
+    it('should return net changes between two points in time', async () => {
+      const result = await historyService.getHistoryDiff(
+        new Date('2026-01-15T00:00:00Z'),
+        new Date('2026-03-15T00:00:00Z')
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.entries).toHaveLength(4);
+      expect(result.data?.changes).toContainEqual({ field: 'primaryColor', from: '#2563eb', to: '#ff0000' });
+      expect(result.data?.changes).toContainEqual({ field: 'secondaryColor', from: '#1f2937', to: '#000000' });
+    });
+
+    it('should reject an inverted interval', async () => {
+      const result = await historyService.getHistoryDiff(
+        new Date('2026-03-15T00:00:00Z'),
+        new Date('2026-01-15T00:00:00Z')
+      );
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('revertTo', () => {
+    it('should apply historical values through the settings service', async () => {
+      const context: RequestContext = { userId: 'admin-2', userAgent: 'test', timestamp: new Date() };
+
+      const result = await historyService.revertTo({ historyId: 'h1' }, context, 'Cores erradas');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.changedFields).toEqual(['primaryColor']);
+      expect(result.data?.skippedFields).toEqual(['socialLinks']);
+      expect(updates).toHaveLength(1);
+      expect(updates[0]!.data).toEqual({ primaryColor: '#00ff00' });
+      expect(updates[0]!.context?.userId).toBe('admin-2');
+      expect(updates[0]!.changeReason).toBe('Revert to 2026-02-01T10:00:00.000Z: Cores erradas');
+    });
+
+    it('should not update when settings already match the version', async () => {
+      const result = await historyService.revertTo({ at: new Date('2026-03-15T00:00:00Z') });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.changedFields).toEqual([]);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should fail for an unknown history entry', async () => {
+      const result = await historyService.revertTo({ historyId: 'missing' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Entrada de histórico não encontrada');
+    });
+  });
+});
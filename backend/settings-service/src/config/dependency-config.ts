@@ -1,13 +1,17 @@
+import { BackupStorage } from '@/interfaces/backup-storage.interface';
 import { CacheManager } from '@/interfaces/cache.interface';
 import { DatabaseConnection } from '@/interfaces/database.interface';
 import { ObservabilityManager } from '@/interfaces/observability.interface';
 import { SettingsValidator } from '@/interfaces/validator.interface';
 
 import { ConsoleObservabilityManager } from '@/implementations/console-observability';
+import { LocalBackupStorage } from '@/implementations/local-backup-storage';
 import { MemoryCache } from '@/implementations/memory-cache';
 import { PrismaDatabase } from '@/implementations/prisma-database';
+import { S3BackupStorage } from '@/implementations/s3-backup-storage';
 import { ZodSettingsValidator } from '@/implementations/zod-settings-validator';
 
+import { join } from 'path';
 import { config } from './system-config';
 
 /**
@@ -22,6 +26,7 @@ export class DependencyConfig {
   private _cache?: CacheManager;
   private _observability?: ObservabilityManager;
   private _validator?: SettingsValidator;
+  private _backupStorage?: BackupStorage;
 
   private constructor() {}
 
@@ -101,6 +106,29 @@ export class DependencyConfig {
     return this._validator;
   }
 
+  /**
+   * Obtém o destino dos backups (pasta local ou armazenamento S3)
+   */
+  get backupStorage(): BackupStorage {
+    if (!this._backupStorage) {
+      if (config.config.BACKUP_DESTINATION === 's3') {
+        if (!config.config.BACKUP_S3_BUCKET) {
+          throw new Error('BACKUP_S3_BUCKET é obrigatório quando BACKUP_DESTINATION=s3');
+        }
+
+        this._backupStorage = new S3BackupStorage({
+          bucket: config.config.BACKUP_S3_BUCKET,
+          prefix: config.config.BACKUP_S3_PREFIX,
+        });
+      } else {
+        this._backupStorage = new LocalBackupStorage(
+          config.config.BACKUP_DIR || join(process.cwd(), 'backups')
+        );
+      }
+    }
+    return this._backupStorage;
+  }
+
   /**
    * Reinicializa todas as dependências (útil para testes)
    */
@@ -109,6 +137,7 @@ export class DependencyConfig {
     this._cache = null as any;
     this._observability = null as any;
     this._validator = null as any;
+    this._backupStorage = null as any;
   }
 
   /**
@@ -119,11 +148,13 @@ export class DependencyConfig {
     cache?: CacheManager;
     observability?: ObservabilityManager;
     validator?: SettingsValidator;
+    backupStorage?: BackupStorage;
   }): void {
     if (options.database) this._database = options.database;
     if (options.cache) this._cache = options.cache;
     if (options.observability) this._observability = options.observability;
     if (options.validator) this._validator = options.validator;
+    if (options.backupStorage) this._backupStorage = options.backupStorage;
   }
 
   /**
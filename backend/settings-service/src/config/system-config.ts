@@ -55,6 +55,18 @@ const configSchema = z.object({
   AUTH_SERVICE_URL: z.string().url().optional(),
   PROPERTIES_SERVICE_URL: z.string().url().optional(),
   MEDIA_SERVICE_URL: z.string().url().optional(),
+  INTERNAL_API_KEY: z.string().optional(), // Chave partilhada dos outros serviços (registo de schemas de módulo)
+
+  // Backups
+  BACKUP_DESTINATION: z.enum(['local', 's3']).default('local'),
+  BACKUP_DIR: z.string().optional(),
+  BACKUP_S3_BUCKET: z.string().optional(),
+  BACKUP_S3_PREFIX: z.string().default('settings-backups/'),
+  BACKUP_SCHEDULE_ENABLED: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  BACKUP_FULL_INTERVAL_HOURS: z.coerce.number().min(1).default(24),
+  BACKUP_INCREMENTAL_INTERVAL_HOURS: z.coerce.number().min(0).default(0), // 0 = desativado
+  BACKUP_RETENTION_DAYS: z.coerce.number().min(1).default(30),
+  BACKUP_RETENTION_MIN_FULL: z.coerce.number().min(1).default(3),
 
   // Development/Debug
   DEBUG_ENABLED: z.coerce.boolean().default(false),
@@ -146,6 +158,16 @@ class ConfigService {
         AUTH_SERVICE_URL: process.env.AUTH_SERVICE_URL,
         PROPERTIES_SERVICE_URL: process.env.PROPERTIES_SERVICE_URL,
         MEDIA_SERVICE_URL: process.env.MEDIA_SERVICE_URL,
+        INTERNAL_API_KEY: process.env.INTERNAL_API_KEY,
+        BACKUP_DESTINATION: process.env.BACKUP_DESTINATION,
+        BACKUP_DIR: process.env.BACKUP_DIR,
+        BACKUP_S3_BUCKET: process.env.BACKUP_S3_BUCKET,
+        BACKUP_S3_PREFIX: process.env.BACKUP_S3_PREFIX,
+        BACKUP_SCHEDULE_ENABLED: process.env.BACKUP_SCHEDULE_ENABLED,
+        BACKUP_FULL_INTERVAL_HOURS: process.env.BACKUP_FULL_INTERVAL_HOURS,
+        BACKUP_INCREMENTAL_INTERVAL_HOURS: process.env.BACKUP_INCREMENTAL_INTERVAL_HOURS,
+        BACKUP_RETENTION_DAYS: process.env.BACKUP_RETENTION_DAYS,
+        BACKUP_RETENTION_MIN_FULL: process.env.BACKUP_RETENTION_MIN_FULL,
         DEBUG_ENABLED: process.env.DEBUG_ENABLED,
         SEED_DEFAULT_SETTINGS: process.env.SEED_DEFAULT_SETTINGS,
       };
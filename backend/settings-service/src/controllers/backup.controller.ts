@@ -1,4 +1,5 @@
 import { dependencyConfig } from '@/config/dependency-config';
+import { config } from '@/config/system-config';
 import { BackupRequest, BackupService, RestoreRequest } from '@/services/backup.service';
 import { ERROR_CODES, HTTP_STATUS } from '@/types/common';
 import { FastifyReply, FastifyRequest } from 'fastify';
@@ -17,16 +18,38 @@ export class BackupController {
   private backupService: BackupService;
 
   constructor() {
-    this.backupService = new BackupService();
+    this.backupService = new BackupService({
+      scheduleEnabled: config.config.BACKUP_SCHEDULE_ENABLED,
+      fullIntervalHours: config.config.BACKUP_FULL_INTERVAL_HOURS,
+      incrementalIntervalHours: config.config.BACKUP_INCREMENTAL_INTERVAL_HOURS,
+      retentionDays: config.config.BACKUP_RETENTION_DAYS,
+      retentionMinFull: config.config.BACKUP_RETENTION_MIN_FULL,
+    });
     this.backupService.dependencies = {
       database: dependencyConfig.database,
       observability: dependencyConfig.observability,
+      storage: dependencyConfig.backupStorage,
+      cache: dependencyConfig.cache,
     };
   }
 
+  /**
+   * Inicia os backups agendados
+   */
+  startScheduler(): void {
+    this.backupService.startScheduler();
+  }
+
+  /**
+   * Para os backups agendados
+   */
+  stopScheduler(): void {
+    this.backupService.stopScheduler();
+  }
+
   private createRequestContext(request: FastifyRequest) {
     return {
-      userId: (request as any).user?.id,
+      userId: (request as any).user?.id || (request.headers['x-user-id'] as string | undefined),
       ip: request.ip,
       userAgent: request.headers['user-agent'] || '',
       timestamp: new Date(),
@@ -126,10 +149,11 @@ export class BackupController {
       const result = await this.backupService.restoreBackup(restoreRequest, context);
       
       if (!result.success) {
-        return reply.status(HTTP_STATUS.BAD_REQUEST).send({
+        const notFound = result.error?.includes('não encontrado');
+        return reply.status(notFound ? HTTP_STATUS.NOT_FOUND : HTTP_STATUS.BAD_REQUEST).send({
           success: false,
           error: result.error,
-          code: ERROR_CODES.VALIDATION_ERROR,
+          code: notFound ? ERROR_CODES.NOT_FOUND : ERROR_CODES.VALIDATION_ERROR,
         });
       }
 
@@ -165,10 +189,11 @@ export class BackupController {
       const result = await this.backupService.deleteBackup(backupId, context);
       
       if (!result.success) {
-        return reply.status(HTTP_STATUS.NOT_FOUND).send({
+        const notFound = result.error?.includes('não encontrado');
+        return reply.status(notFound ? HTTP_STATUS.NOT_FOUND : HTTP_STATUS.CONFLICT).send({
           success: false,
           error: result.error,
-          code: ERROR_CODES.NOT_FOUND,
+          code: notFound ? ERROR_CODES.NOT_FOUND : ERROR_CODES.CONFLICT,
         });
       }
 
@@ -225,4 +250,73 @@ export class BackupController {
       });
     }
   }
+
+  /**
+   * GET /backup/schedule - Política de agendamento e retenção
+   */
+  async getSchedule(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const result = await this.backupService.getSchedule();
+      
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getSchedule', { error });
+      
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * POST /backup/retention - Aplica a política de retenção
+   */
+  async applyRetention(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const result = await this.backupService.applyRetention();
+      
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        message: result.message,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller applyRetention', { error });
+      
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
 }
@@ -1,7 +1,7 @@
 import { dependencyConfig } from '@/config/dependency-config';
 import { ModuleSettingsService } from '@/services/module-settings.service';
 import { ERROR_CODES, HTTP_STATUS } from '@/types/common';
-import { CreateModuleSettingsRequest, ModuleSettingsResponse, RequestContext, SearchOptions, UpdateModuleSettingsRequest } from '@/types/settings';
+import { CreateModuleSettingsRequest, ModuleSettingsResponse, RegisterModuleSchemaRequest, RequestContext, SearchOptions, UpdateModuleSettingsRequest } from '@/types/settings';
 import { FastifyReply, FastifyRequest } from 'fastify';
 
 /**
@@ -22,15 +22,15 @@ export class ModuleSettingsController {
 
   /**
    * GET /module-settings/:moduleName - Obtém configurações de um módulo
+   * Responde 304 quando o If-None-Match corresponde ao ETag atual (polling dos serviços)
    */
   async getModuleSettings(request: FastifyRequest, reply: FastifyReply): Promise<void> {
-    const context = this.createRequestContext(request);
     const { moduleName } = request.params as { moduleName: string };
     
     try {
-      const result = await this.moduleSettingsService.getModuleSettings(moduleName);
+      const result = await this.moduleSettingsService.getResolvedModuleSettings(moduleName);
       
-      if (!result.success) {
+      if (!result.success || !result.data) {
         return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
           success: false,
           error: result.error,
@@ -38,13 +38,21 @@ export class ModuleSettingsController {
         });
       }
 
+      reply.header('ETag', result.data.etag);
+      reply.header('Cache-Control', 'no-cache');
+
+      if (request.headers['if-none-match'] === result.data.etag) {
+        return reply.status(HTTP_STATUS.NOT_MODIFIED).send();
+      }
+
       return reply.status(HTTP_STATUS.OK).send({
         success: true,
-        data: result.data,
+        data: result.data.settings,
         meta: {
           timestamp: new Date().toISOString(),
           version: '1.0.0',
           module: moduleName,
+          etag: result.data.etag,
         },
       });
     } catch (error) {
@@ -395,6 +403,121 @@ export class ModuleSettingsController {
     }
   }
 
+  /**
+   * GET /module-settings/schemas - Lista os schemas registados pelos serviços
+   */
+  async listModuleSchemas(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const result = await this.moduleSettingsService.listModuleSchemas();
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+          total: result.data!.length,
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller listModuleSchemas', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * GET /module-settings/schemas/:moduleName - Obtém o schema registado para um módulo
+   */
+  async getModuleSchema(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { moduleName } = request.params as { moduleName: string };
+
+    try {
+      const result = await this.moduleSettingsService.getModuleSchema(moduleName);
+
+      if (!result.success) {
+        const notFound = result.error?.includes('não encontrado');
+
+        return reply.status(notFound ? HTTP_STATUS.NOT_FOUND : HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: notFound ? ERROR_CODES.NOT_FOUND : ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getModuleSchema', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * PUT /module-settings/schemas/:moduleName - Regista o schema e os valores por omissão de um módulo
+   */
+  async registerModuleSchema(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const context = this.createRequestContext(request);
+    const { moduleName } = request.params as { moduleName: string };
+    const registration = request.body as RegisterModuleSchemaRequest;
+
+    try {
+      const result = await this.moduleSettingsService.registerModuleSchema(moduleName, registration, context);
+
+      if (!result.success) {
+        const invalid = result.error?.includes('inválidos');
+
+        return reply.status(invalid ? HTTP_STATUS.BAD_REQUEST : HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          message: result.message,
+          code: invalid ? ERROR_CODES.VALIDATION_ERROR : ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        message: result.message,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller registerModuleSchema', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
   /**
    * Cria contexto da requisição
    */
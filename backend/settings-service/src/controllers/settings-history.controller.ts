@@ -0,0 +1,471 @@
+import { dependencyConfig } from '@/config/dependency-config';
+import { SettingsHistoryService } from '@/services/settings-history.service';
+import { SettingsService } from '@/services/settings.service';
+import { ERROR_CODES, HTTP_STATUS } from '@/types/common';
+import { RequestContext, RevertSettingsRequest, SearchOptions } from '@/types/settings';
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+interface HistoryQuery {
+  field?: string;
+  changedBy?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Controller do histórico de configurações
+ * Gerencia as rotas /settings/history (consulta, comparação e reversão de versões)
+ */
+export class SettingsHistoryController {
+  private historyService: SettingsHistoryService;
+
+  constructor() {
+    this.historyService = new SettingsHistoryService({
+      database: dependencyConfig.database,
+      observability: dependencyConfig.observability,
+      settingsService: new SettingsService({
+        database: dependencyConfig.database,
+        cache: dependencyConfig.cache,
+        observability: dependencyConfig.observability,
+        validator: dependencyConfig.validator,
+      }),
+    });
+  }
+
+  /**
+   * GET /settings/history - Lista alterações (filtros por campo, utilizador e período)
+   */
+  async getHistory(request: FastifyRequest<{ Querystring: HistoryQuery }>, reply: FastifyReply): Promise<void> {
+    const query = request.query;
+    const from = this.parseDate(query.from);
+    const to = this.parseDate(query.to);
+
+    if (from === null || to === null) {
+      return this.sendInvalidDate(reply);
+    }
+
+    const options: SearchOptions = {
+      page: query.page || 1,
+      limit: query.limit || 20,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      filters: {
+        ...(query.field && { fieldName: query.field }),
+        ...(query.changedBy && { changedBy: query.changedBy }),
+      },
+    };
+
+    try {
+      const result = from || to
+        ? await this.historyService.getHistoryByPeriod(from || new Date(0), to || new Date(), options)
+        : await this.historyService.getSettingsHistory(options);
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data!.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+          total: result.data!.total,
+          page: result.data!.page,
+          limit: result.data!.limit,
+          totalPages: result.data!.totalPages,
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getHistory', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * GET /settings/history/field/:fieldName - Histórico de um campo
+   */
+  async getFieldHistory(
+    request: FastifyRequest<{ Params: { fieldName: string }; Querystring: HistoryQuery }>,
+    reply: FastifyReply
+  ): Promise<void> {
+    const { fieldName } = request.params;
+
+    try {
+      const result = await this.historyService.getFieldHistory(fieldName, {
+        page: request.query.page || 1,
+        limit: request.query.limit || 20,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      });
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data!.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+          total: result.data!.total,
+          page: result.data!.page,
+          limit: result.data!.limit,
+          totalPages: result.data!.totalPages,
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getFieldHistory', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * GET /settings/history/stats - Estatísticas do histórico
+   */
+  async getHistoryStats(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const result = await this.historyService.getHistoryStats();
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getHistoryStats', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * GET /settings/history/export - Exporta o histórico (JSON ou CSV)
+   */
+  async exportHistory(
+    request: FastifyRequest<{ Querystring: HistoryQuery & { format?: 'json' | 'csv' } }>,
+    reply: FastifyReply
+  ): Promise<void> {
+    const query = request.query;
+    const from = this.parseDate(query.from);
+    const to = this.parseDate(query.to);
+
+    if (from === null || to === null) {
+      return this.sendInvalidDate(reply);
+    }
+
+    try {
+      const result = await this.historyService.exportHistory({
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        filters: {
+          settingsId: 'singleton',
+          ...(query.field && { fieldName: query.field }),
+          ...(query.changedBy && { changedBy: query.changedBy }),
+          ...((from || to) && {
+            createdAt: {
+              ...(from && { gte: from }),
+              ...(to && { lte: to }),
+            },
+          }),
+        },
+      });
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      const date = new Date().toISOString().substring(0, 10);
+
+      if (query.format === 'csv') {
+        reply.header('Content-Type', 'text/csv; charset=utf-8');
+        reply.header('Content-Disposition', `attachment; filename="settings_history_${date}.csv"`);
+
+        return reply.status(HTTP_STATUS.OK).send(this.historyService.formatHistoryCsv(result.data!));
+      }
+
+      reply.header('Content-Disposition', `attachment; filename="settings_history_${date}.json"`);
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+          total: result.data!.length,
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller exportHistory', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * GET /settings/history/snapshot - Configurações tal como estavam num instante
+   */
+  async getSnapshot(request: FastifyRequest<{ Querystring: { at: string } }>, reply: FastifyReply): Promise<void> {
+    const at = this.parseDate(request.query.at);
+
+    if (!at) {
+      return this.sendInvalidDate(reply);
+    }
+
+    try {
+      const result = await this.historyService.getSettingsAt(at);
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getSnapshot', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * GET /settings/history/diff - Diferenças entre dois instantes
+   */
+  async getDiff(request: FastifyRequest<{ Querystring: { from: string; to?: string } }>, reply: FastifyReply): Promise<void> {
+    const from = this.parseDate(request.query.from);
+    const to = this.parseDate(request.query.to);
+
+    if (!from || to === null) {
+      return this.sendInvalidDate(reply);
+    }
+
+    try {
+      const result = await this.historyService.getHistoryDiff(from, to || new Date());
+
+      if (!result.success) {
+        const statusCode = result.error?.includes('inválido')
+          ? HTTP_STATUS.BAD_REQUEST
+          : HTTP_STATUS.INTERNAL_SERVER_ERROR;
+
+        const errorCode = result.error?.includes('inválido')
+          ? ERROR_CODES.VALIDATION_ERROR
+          : ERROR_CODES.INTERNAL_ERROR;
+
+        return reply.status(statusCode).send({
+          success: false,
+          error: result.error,
+          message: result.message,
+          code: errorCode,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getDiff', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * POST /settings/history/revert - Reverte para uma versão anterior
+   */
+  async revert(request: FastifyRequest<{ Body: RevertSettingsRequest }>, reply: FastifyReply): Promise<void> {
+    const context = this.createRequestContext(request);
+    const { at: rawAt, historyId, reason } = request.body;
+    const at = this.parseDate(rawAt);
+
+    if (at === null || (!at && !historyId)) {
+      return reply.status(HTTP_STATUS.BAD_REQUEST).send({
+        success: false,
+        error: 'Indique um instante válido (at) ou uma entrada do histórico (historyId)',
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+
+    try {
+      const result = await this.historyService.revertTo({ at, historyId }, context, reason);
+
+      if (!result.success) {
+        if (result.error?.includes('não encontrada')) {
+          return reply.status(HTTP_STATUS.NOT_FOUND).send({
+            success: false,
+            error: result.error,
+            code: ERROR_CODES.NOT_FOUND,
+          });
+        }
+
+        const statusCode = result.error?.includes('inválidos')
+          ? HTTP_STATUS.BAD_REQUEST
+          : HTTP_STATUS.INTERNAL_SERVER_ERROR;
+
+        const errorCode = result.error?.includes('inválidos')
+          ? ERROR_CODES.VALIDATION_ERROR
+          : ERROR_CODES.INTERNAL_ERROR;
+
+        return reply.status(statusCode).send({
+          success: false,
+          error: result.error,
+          message: result.message,
+          code: errorCode,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        message: result.message,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller revert', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * DELETE /settings/history - Remove entradas antigas
+   */
+  async cleanupHistory(request: FastifyRequest<{ Querystring: { olderThanDays?: number } }>, reply: FastifyReply): Promise<void> {
+    try {
+      const result = await this.historyService.cleanupOldHistory(request.query.olderThanDays);
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: { deletedCount: result.data },
+        message: result.message,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller cleanupHistory', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
+  /**
+   * Converte uma data da query; undefined quando ausente, null quando inválida
+   */
+  private parseDate(value?: string): Date | undefined | null {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private sendInvalidDate(reply: FastifyReply) {
+    return reply.status(HTTP_STATUS.BAD_REQUEST).send({
+      success: false,
+      error: 'Data inválida',
+      code: ERROR_CODES.VALIDATION_ERROR,
+    });
+  }
+
+  /**
+   * Cria contexto da requisição
+   * O utilizador autenticado chega nos headers injetados pelo API Gateway
+   */
+  private createRequestContext(request: FastifyRequest): RequestContext {
+    return {
+      userId: (request as any).user?.id || (request.headers['x-user-id'] as string | undefined),
+      userRole: (request as any).user?.role || (request.headers['x-user-role'] as string | undefined),
+      ip: request.ip,
+      userAgent: request.headers['user-agent'] || 'unknown',
+      timestamp: new Date(),
+    };
+  }
+}
@@ -302,6 +302,40 @@ export class SettingsController {
     }
   }
 
+  /**
+   * GET /settings/maintenance - Estado de manutenção (público)
+   */
+  async getMaintenanceStatus(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const result = await this.settingsService.getMaintenanceStatus();
+
+      if (!result.success) {
+        return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+          success: false,
+          error: result.error,
+          code: ERROR_CODES.INTERNAL_ERROR,
+        });
+      }
+
+      return reply.status(HTTP_STATUS.OK).send({
+        success: true,
+        data: result.data,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0',
+        },
+      });
+    } catch (error) {
+      dependencyConfig.observability.error('Erro no controller getMaintenanceStatus', { error });
+
+      return reply.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send({
+        success: false,
+        error: 'Erro interno do servidor',
+        code: ERROR_CODES.INTERNAL_ERROR,
+      });
+    }
+  }
+
   /**
    * GET /settings/stats - Obtém estatísticas do serviço
    */
@@ -338,11 +372,12 @@ export class SettingsController {
 
   /**
    * Cria contexto da requisição
+   * O utilizador autenticado chega nos headers injetados pelo API Gateway
    */
   private createRequestContext(request: FastifyRequest): RequestContext {
     return {
-      userId: (request as any).user?.id,
-      userRole: (request as any).user?.role,
+      userId: (request as any).user?.id || (request.headers['x-user-id'] as string | undefined),
+      userRole: (request as any).user?.role || (request.headers['x-user-role'] as string | undefined),
       ip: request.ip,
       userAgent: request.headers['user-agent'] || 'unknown',
       timestamp: new Date(),
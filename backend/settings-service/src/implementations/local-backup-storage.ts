@@ -0,0 +1,51 @@
+import { BackupStorage } from '@/interfaces/backup-storage.interface';
+import { existsSync, mkdirSync } from 'fs';
+import { readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+
+/**
+ * Destino de backups numa pasta local
+ */
+export class LocalBackupStorage implements BackupStorage {
+  readonly name = 'local';
+
+  constructor(private directory: string) {
+    if (!existsSync(this.directory)) {
+      mkdirSync(this.directory, { recursive: true });
+    }
+  }
+
+  async write(key: string, data: Buffer): Promise<void> {
+    // Escrita atómica: um ficheiro incompleto nunca fica com o nome final
+    const target = this.resolve(key);
+    const temporary = `${target}.tmp`;
+    await writeFile(temporary, data);
+    await rename(temporary, target);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return readFile(this.resolve(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return existsSync(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    if (existsSync(this.resolve(key))) {
+      await unlink(this.resolve(key));
+    }
+  }
+
+  async list(): Promise<string[]> {
+    const files = await readdir(this.directory);
+    return files.filter(file => !file.endsWith('.tmp'));
+  }
+
+  /**
+   * Impede chaves fora da pasta de backups
+   */
+  private resolve(key: string): string {
+    return join(this.directory, basename(key));
+  }
+}
@@ -1,5 +1,5 @@
-import { DatabaseConnection, DatabaseTransaction, ModuleSettingsRepositoryInterface, SettingsHistoryRepositoryInterface, SettingsRepositoryInterface } from '@/interfaces/database.interface';
-import { CreateModuleSettingsRequest, ModuleSettings, PaginatedResult, SearchOptions, SettingsHistory, SystemSettings, UpdateModuleSettingsRequest, UpdateSettingsRequest } from '@/types/settings';
+import { DatabaseConnection, DatabaseTransaction, ModuleSettingsRepositoryInterface, ModuleSettingsSchemaRepositoryInterface, SettingsHistoryRepositoryInterface, SettingsRepositoryInterface } from '@/interfaces/database.interface';
+import { CreateModuleSettingsRequest, ModuleSettings, ModuleSettingsSchema, PaginatedResult, SearchOptions, SettingsHistory, SystemSettings, RegisterModuleSchemaRequest, UpdateModuleSettingsRequest, UpdateSettingsRequest, serializeHistoryValue } from '@/types/settings';
 import { PrismaClient } from '@prisma/client';
 
 interface DatabaseConfig {
@@ -10,6 +10,9 @@ interface DatabaseConfig {
   enableLogging: boolean;
 }
 
+// Metadados que não fazem parte do histórico (ex.: restauração de backups completos)
+const UNTRACKED_HISTORY_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'updatedBy']);
+
 /**
  * Implementação do banco de dados usando Prisma
  */
@@ -63,6 +66,10 @@ export class PrismaDatabase implements DatabaseConnection {
     return new PrismaModuleSettingsRepository(this.prisma);
   }
 
+  get moduleSchemas(): ModuleSettingsSchemaRepositoryInterface {
+    return new PrismaModuleSettingsSchemaRepository(this.prisma);
+  }
+
   get history(): SettingsHistoryRepositoryInterface {
     return new PrismaSettingsHistoryRepository(this.prisma);
   }
@@ -82,6 +89,10 @@ class PrismaTransaction implements DatabaseTransaction {
     return new PrismaModuleSettingsRepository(this.prismaTx);
   }
 
+  get moduleSchemas(): ModuleSettingsSchemaRepositoryInterface {
+    return new PrismaModuleSettingsSchemaRepository(this.prismaTx);
+  }
+
   get history(): SettingsHistoryRepositoryInterface {
     return new PrismaSettingsHistoryRepository(this.prismaTx);
   }
@@ -147,28 +158,38 @@ class PrismaSettingsRepository implements SettingsRepositoryInterface {
     return settings;
   }
 
-  async updateSettings(data: UpdateSettingsRequest, updatedBy?: string): Promise<SystemSettings> {
+  async updateSettings(data: UpdateSettingsRequest, updatedBy?: string, changeReason?: string): Promise<SystemSettings> {
     const existingSettings = await this.getCurrentSettings();
+    const changedAt = new Date();
     
     const updatedSettings = await this.update('singleton', {
       ...existingSettings,
       ...data,
       ...(updatedBy && { updatedBy }),
-      updatedAt: new Date(),
+      updatedAt: changedAt,
     });
 
     // Registrar histórico da alteração
+    // Todas as entradas da mesma atualização partilham o instante, formando uma versão
     if (this.prisma.settingsHistory) {
       for (const [key, value] of Object.entries(data)) {
-        if (existingSettings[key as keyof SystemSettings] !== value) {
+        if (value === undefined || UNTRACKED_HISTORY_FIELDS.has(key)) {
+          continue;
+        }
+
+        const oldValue = serializeHistoryValue(existingSettings[key as keyof SystemSettings]);
+        const newValue = serializeHistoryValue(value);
+
+        if (oldValue !== newValue) {
           await this.prisma.settingsHistory.create({
             data: {
               settingsId: 'singleton',
               fieldName: key,
-              oldValue: String(existingSettings[key as keyof SystemSettings] || ''),
-              newValue: String(value || ''),
+              oldValue,
+              newValue,
               changedBy: updatedBy,
-              changeReason: 'API Update',
+              changeReason: changeReason || 'API Update',
+              createdAt: changedAt,
             },
           });
         }
@@ -256,6 +277,7 @@ class PrismaSettingsRepository implements SettingsRepositoryInterface {
       seoDescription: prismaSettings.seoDescription,
       seoKeywords: prismaSettings.seoKeywords,
       maintenanceMode: prismaSettings.maintenanceMode,
+      maintenanceMessage: prismaSettings.maintenanceMessage,
       createdAt: prismaSettings.createdAt,
       updatedAt: prismaSettings.updatedAt,
       updatedBy: prismaSettings.updatedBy,
@@ -283,6 +305,7 @@ class PrismaSettingsRepository implements SettingsRepositoryInterface {
       seoDescription: settings.seoDescription,
       seoKeywords: settings.seoKeywords,
       maintenanceMode: settings.maintenanceMode,
+      maintenanceMessage: settings.maintenanceMessage,
       updatedBy: settings.updatedBy,
     };
   }
@@ -463,6 +486,67 @@ class PrismaModuleSettingsRepository implements ModuleSettingsRepositoryInterfac
   }
 }
 
+/**
+ * Implementação do registo de schemas de configurações de módulo
+ */
+class PrismaModuleSettingsSchemaRepository implements ModuleSettingsSchemaRepositoryInterface {
+  constructor(private prisma: PrismaClient | any) {}
+
+  async findAll(): Promise<ModuleSettingsSchema[]> {
+    const schemas = await this.prisma.moduleSettingsSchema.findMany({
+      orderBy: { moduleName: 'asc' },
+    });
+
+    return schemas.map((s: any) => this.mapToModuleSettingsSchema(s));
+  }
+
+  async findByModule(moduleName: string): Promise<ModuleSettingsSchema | null> {
+    const schema = await this.prisma.moduleSettingsSchema.findUnique({
+      where: { moduleName },
+    });
+
+    return schema ? this.mapToModuleSettingsSchema(schema) : null;
+  }
+
+  async upsert(moduleName: string, data: RegisterModuleSchemaRequest): Promise<ModuleSettingsSchema> {
+    const values = {
+      service: data.service,
+      version: data.version || '1',
+      description: data.description ?? null,
+      schema: data.schema,
+      defaults: data.defaults,
+    };
+
+    const schema = await this.prisma.moduleSettingsSchema.upsert({
+      where: { moduleName },
+      create: { moduleName, ...values },
+      update: values,
+    });
+
+    return this.mapToModuleSettingsSchema(schema);
+  }
+
+  async delete(moduleName: string): Promise<void> {
+    await this.prisma.moduleSettingsSchema.deleteMany({
+      where: { moduleName },
+    });
+  }
+
+  private mapToModuleSettingsSchema(prismaSchema: any): ModuleSettingsSchema {
+    return {
+      id: prismaSchema.id,
+      moduleName: prismaSchema.moduleName,
+      service: prismaSchema.service,
+      version: prismaSchema.version,
+      description: prismaSchema.description,
+      schema: prismaSchema.schema,
+      defaults: prismaSchema.defaults,
+      createdAt: prismaSchema.createdAt,
+      updatedAt: prismaSchema.updatedAt,
+    };
+  }
+}
+
 /**
  * Implementação do repositório de histórico
  */
@@ -480,12 +564,14 @@ class PrismaSettingsHistoryRepository implements SettingsHistoryRepositoryInterf
   async create(data: Partial<SettingsHistory>): Promise<SettingsHistory> {
     const history = await this.prisma.settingsHistory.create({
       data: {
+        ...(data.id && { id: data.id }),
         settingsId: data.settingsId || 'singleton',
         fieldName: data.fieldName!,
         oldValue: data.oldValue,
         newValue: data.newValue,
         changedBy: data.changedBy,
         changeReason: data.changeReason,
+        ...(data.createdAt && { createdAt: data.createdAt }),
       },
     });
 
@@ -0,0 +1,106 @@
+import { BackupStorage } from '@/interfaces/backup-storage.interface';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+
+interface S3BackupStorageConfig {
+  bucket: string;
+  prefix: string;
+}
+
+/**
+ * Destino de backups num armazenamento compatível com S3 (AWS, MinIO, ...)
+ * Usa as mesmas variáveis S3_* do media-service para o cliente
+ */
+export class S3BackupStorage implements BackupStorage {
+  readonly name = 's3';
+  private client: S3Client;
+
+  constructor(private config: S3BackupStorageConfig) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT, // MinIO or custom
+      forcePathStyle: !!process.env.S3_FORCE_PATH_STYLE,
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY ? {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      } : undefined,
+    } as any);
+  }
+
+  async write(key: string, data: Buffer, contentType = 'application/octet-stream'): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key),
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key),
+    }));
+
+    if (!response.Body) {
+      throw new Error(`Objeto vazio: ${key}`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(key),
+      }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+
+  async list(): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: this.config.prefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents || []) {
+        if (object.Key) {
+          keys.push(object.Key.substring(this.config.prefix.length));
+        }
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  private objectKey(key: string): string {
+    return `${this.config.prefix}${key}`;
+  }
+}
@@ -1,5 +1,7 @@
 import { SettingsValidator } from '@/interfaces/validator.interface';
 import { UpdateSettingsRequest } from '@/types/settings';
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
 import { z } from 'zod';
 
 /**
@@ -11,6 +13,10 @@ export class ZodSettingsValidator implements SettingsValidator {
   private phoneSchema = z.string().regex(/^\+?[\d\s\-\(\)]+$/, 'Telefone inválido');
   private urlSchema = z.string().url('URL inválida');
 
+  private ajv = addFormats(new Ajv({ allErrors: true, strict: false }));
+  // Validadores compilados por schema serializado (o Ajv guarda cada objeto de schema compilado)
+  private compiledSchemas = new Map<string, ValidateFunction>();
+
   private systemSettingsSchema = z.object({
     brandName: z.string().min(2, 'Nome da marca deve ter pelo menos 2 caracteres').max(100, 'Nome da marca muito longo').optional(),
     logoUrl: this.urlSchema.optional(),
@@ -155,21 +161,43 @@ export class ZodSettingsValidator implements SettingsValidator {
     return this.urlSchema.safeParse(url).success;
   }
 
+  /**
+   * Valida dados contra um JSON Schema (usado pelos schemas registados pelos serviços)
+   */
   async validateJsonSchema(data: any, schema: any): Promise<{ valid: boolean; errors: string[] }> {
+    if (!this.ajv.validateSchema(schema)) {
+      return {
+        valid: false,
+        errors: (this.ajv.errors || []).map(err => `schema${err.instancePath}: ${err.message}`),
+      };
+    }
+
     try {
-      const zodSchema = z.object(schema);
-      zodSchema.parse(data);
-      return { valid: true, errors: [] };
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return {
-          valid: false,
-          errors: error.errors.map(err => `${err.path.join('.')}: ${err.message}`),
-        };
+      const cacheKey = JSON.stringify(schema);
+      let validate = this.compiledSchemas.get(cacheKey);
+      if (!validate) {
+        validate = this.ajv.compile(schema);
+        this.compiledSchemas.set(cacheKey, validate);
       }
+
+      if (validate(data)) {
+        return { valid: true, errors: [] };
+      }
+
       return {
         valid: false,
-        errors: ['Erro desconhecido na validação'],
+        errors: (validate.errors || []).map(err => {
+          const path = err.instancePath.replace(/^\//, '').replace(/\//g, '.');
+          const field = err.keyword === 'additionalProperties'
+            ? (err.params as { additionalProperty: string }).additionalProperty
+            : path;
+          return `${field || 'root'}: ${err.message}`;
+        }),
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [error instanceof Error ? error.message : 'Erro desconhecido na validação'],
       };
     }
   }
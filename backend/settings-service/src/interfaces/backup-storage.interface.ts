@@ -0,0 +1,15 @@
+/**
+ * Interface para o destino dos backups
+ * Permite guardar backups numa pasta local ou num armazenamento compatível com S3
+ */
+export interface BackupStorage {
+  // Identificação do destino (ex: "local", "s3")
+  readonly name: string;
+
+  // Operações sobre ficheiros, endereçados por chave relativa ao destino
+  write(key: string, data: Buffer, contentType?: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(): Promise<string[]>;
+}
@@ -1,4 +1,4 @@
-import { CreateModuleSettingsRequest, ModuleSettings, PaginatedResult, SearchOptions, SettingsHistory, SystemSettings, UpdateModuleSettingsRequest, UpdateSettingsRequest } from '@/types/settings';
+import { CreateModuleSettingsRequest, ModuleSettings, ModuleSettingsSchema, PaginatedResult, SearchOptions, SettingsHistory, SystemSettings, RegisterModuleSchemaRequest, UpdateModuleSettingsRequest, UpdateSettingsRequest } from '@/types/settings';
 
 /**
  * Interface para abstração de banco de dados
@@ -18,6 +18,9 @@ export interface DatabaseConnection {
   // Module settings operations
   moduleSettings: ModuleSettingsRepositoryInterface;
 
+  // Module settings schema registry
+  moduleSchemas: ModuleSettingsSchemaRepositoryInterface;
+
   // History operations
   history: SettingsHistoryRepositoryInterface;
 }
@@ -28,6 +31,7 @@ export interface DatabaseConnection {
 export interface DatabaseTransaction {
   settings: SettingsRepositoryInterface;
   moduleSettings: ModuleSettingsRepositoryInterface;
+  moduleSchemas: ModuleSettingsSchemaRepositoryInterface;
   history: SettingsHistoryRepositoryInterface;
 }
 
@@ -43,7 +47,7 @@ export interface SettingsRepositoryInterface {
 
   // Operações específicas
   getCurrentSettings(): Promise<SystemSettings>;
-  updateSettings(data: UpdateSettingsRequest, updatedBy?: string): Promise<SystemSettings>;
+  updateSettings(data: UpdateSettingsRequest, updatedBy?: string, changeReason?: string): Promise<SystemSettings>;
   resetToDefaults(updatedBy?: string): Promise<SystemSettings>;
   
   // Validações
@@ -78,6 +82,16 @@ export interface ModuleSettingsRepositoryInterface {
   validateModuleSettings(moduleName: string, settings: Record<string, any>): Promise<{ valid: boolean; errors: string[] }>;
 }
 
+/**
+ * Interface para o registo de schemas de configurações de módulo
+ */
+export interface ModuleSettingsSchemaRepositoryInterface {
+  findAll(): Promise<ModuleSettingsSchema[]>;
+  findByModule(moduleName: string): Promise<ModuleSettingsSchema | null>;
+  upsert(moduleName: string, data: RegisterModuleSchemaRequest): Promise<ModuleSettingsSchema>;
+  delete(moduleName: string): Promise<void>;
+}
+
 /**
  * Interface para repositório de histórico
  */
@@ -1,4 +1,6 @@
 import { dependencyConfig } from '@/config/dependency-config';
+import { config } from '@/config/system-config';
+import { timingSafeEqual } from 'crypto';
 import { FastifyReply, FastifyRequest } from 'fastify';
 
 /**
@@ -68,8 +70,15 @@ export async function rateLimitMiddleware(
   // TODO: Implementar rate limiting real com cache
 }
 
+// Rotas disponíveis durante a manutenção (os outros serviços continuam a ler/registar as configurações de módulo)
+const MAINTENANCE_EXEMPT_PATHS = ['/health', '/api/v1/health', '/api/v1/settings/maintenance', '/api/v1/module-settings'];
+
+// Perfis (header x-user-role do API Gateway) com acesso administrativo, que continuam a operar durante a manutenção
+const ADMIN_ROLES = ['admin', 'super_admin'];
+
 /**
  * Middleware de validação de manutenção
+ * Administradores continuam a ter acesso, caso contrário não seria possível desativar a manutenção
  */
 export async function maintenanceMiddleware(
   request: FastifyRequest,
@@ -81,7 +90,10 @@ export async function maintenanceMiddleware(
   try {
     const isMaintenanceMode = await dependencyConfig.database.settings.isMaintenanceMode();
     
-    if (isMaintenanceMode && !request.url.startsWith('/health')) {
+    const isExempt = MAINTENANCE_EXEMPT_PATHS.some(path => request.url.startsWith(path));
+    const isAdmin = ADMIN_ROLES.includes(request.headers['x-user-role'] as string);
+
+    if (isMaintenanceMode && !isExempt && !isAdmin) {
       observability.warn('Requisição bloqueada - modo de manutenção', {
         url: request.url,
         method: request.method,
@@ -102,6 +114,68 @@ export async function maintenanceMiddleware(
   }
 }
 
+/**
+ * Middleware de autorização para rotas administrativas (histórico, backups, valores das configurações de módulo)
+ * Registado como hook preHandler no contexto das rotas administrativas, depois dos hooks globais
+ */
+export async function requireAdminRole(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const { observability } = dependencyConfig;
+
+  if (ADMIN_ROLES.includes(request.headers['x-user-role'] as string)) {
+    return;
+  }
+
+  observability.warn('Requisição bloqueada - perfil sem permissão', {
+    url: request.url,
+    method: request.method,
+    role: request.headers['x-user-role'],
+  });
+
+  return reply.status(403).send({
+    success: false,
+    error: 'Acesso negado',
+    code: 'FORBIDDEN',
+    message: 'Esta operação requer perfil de administrador',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Middleware de autorização para rotas chamadas pelos outros serviços (registo de schemas de módulo)
+ * Exige a chave partilhada no header x-internal-api-key; sem INTERNAL_API_KEY configurada recusa sempre
+ */
+export async function requireInternalApiKey(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const expected = config.config.INTERNAL_API_KEY;
+  const provided = request.headers['x-internal-api-key'];
+
+  if (expected && typeof provided === 'string') {
+    const expectedBuffer = Buffer.from(expected);
+    const providedBuffer = Buffer.from(provided);
+    if (expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer)) {
+      return;
+    }
+  }
+
+  dependencyConfig.observability.warn('Requisição bloqueada - chave interna inválida', {
+    url: request.url,
+    method: request.method,
+  });
+
+  return reply.status(401).send({
+    success: false,
+    error: 'Não autorizado',
+    code: 'UNAUTHORIZED',
+    message: 'Esta operação requer a chave interna de API',
+    timestamp: new Date().toISOString(),
+  });
+}
+
 /**
  * Middleware de CORS personalizado
  */
@@ -1,6 +1,35 @@
 import { BackupController } from '@/controllers/backup.controller';
+import { requireAdminRole } from '@/middlewares/request-context.middleware';
 import { FastifyInstance } from 'fastify';
 
+const backupItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    size: { type: 'string' },
+    sizeBytes: { type: 'number' },
+    createdAt: { type: 'string' },
+    type: { type: 'string' },
+    description: { type: 'string' },
+    createdBy: { type: 'string' },
+    checksum: { type: 'string', description: 'SHA-256 do ficheiro comprimido' },
+    schemaVersion: { type: 'number' },
+    baseBackupId: { type: 'string', description: 'Backup de que um incremental depende' },
+    since: { type: 'string' },
+    counts: {
+      type: 'object',
+      properties: {
+        settings: { type: 'number' },
+        moduleSettings: { type: 'number' },
+        history: { type: 'number' }
+      }
+    },
+    scheduled: { type: 'boolean' },
+    destination: { type: 'string' }
+  }
+};
+
 /**
  * Rotas de backup e restauração
  * POST/GET/DELETE /backup
@@ -8,266 +37,349 @@ import { FastifyInstance } from 'fastify';
 export async function backupRoutes(fastify: FastifyInstance) {
   const backupController = new BackupController();
 
-  // POST /backup - Cria um novo backup
-  fastify.post('/backup', {
-    schema: {
-      description: 'Cria um novo backup das configurações',
-      tags: ['Backup'],
-      body: {
-        type: 'object',
-        required: ['type'],
-        properties: {
-          type: {
-            type: 'string',
-            enum: ['full', 'incremental', 'settings'],
-            description: 'Tipo de backup a ser criado'
+  // Backups agendados acompanham o ciclo de vida do servidor
+  fastify.addHook('onReady', async () => backupController.startScheduler());
+  fastify.addHook('onClose', async () => backupController.stopScheduler());
+
+  // Os backups contêm todas as configurações: todas as rotas são apenas para administradores (hook limitado a este contexto)
+  await fastify.register(async (adminRoutes) => {
+    adminRoutes.addHook('preHandler', requireAdminRole);
+
+    // GET /backup - Lista todos os backups
+    adminRoutes.get('/backup', {
+      schema: {
+        description: 'Lista todos os backups disponíveis',
+        tags: ['Backup'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'array',
+                items: backupItemSchema
+              },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string' },
+                  version: { type: 'string' }
+                }
+              }
+            }
           },
-          description: {
-            type: 'string',
-            description: 'Descrição opcional do backup'
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
           }
         }
-      },
-      response: {
-        201: {
+      }
+    }, backupController.listBackups.bind(backupController));
+
+    // GET /backup/:backupId/download - Download de um backup
+    adminRoutes.get('/backup/:backupId/download', {
+      schema: {
+        description: 'Faz download de um backup específico',
+        tags: ['Backup'],
+        params: {
           type: 'object',
+          required: ['backupId'],
           properties: {
-            success: { type: 'boolean' },
-            data: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                name: { type: 'string' },
-                size: { type: 'string' },
-                createdAt: { type: 'string' },
-                type: { type: 'string' },
-                description: { type: 'string' }
-              }
-            },
-            message: { type: 'string' },
-            meta: {
-              type: 'object',
-              properties: {
-                timestamp: { type: 'string' },
-                version: { type: 'string' }
-              }
+            backupId: {
+              type: 'string',
+              description: 'ID do backup a ser baixado'
             }
           }
         },
-        500: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
+        response: {
+          200: {
+            type: 'string',
+            format: 'binary',
+            description: 'Arquivo de backup comprimido'
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
           }
         }
       }
-    }
-  }, backupController.createBackup.bind(backupController));
+    }, backupController.downloadBackup.bind(backupController));
 
-  // GET /backup - Lista todos os backups
-  fastify.get('/backup', {
-    schema: {
-      description: 'Lista todos os backups disponíveis',
-      tags: ['Backup'],
-      response: {
-        200: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            data: {
-              type: 'array',
-              items: {
+    // GET /backup/schedule - Política de agendamento e retenção
+    adminRoutes.get('/backup/schedule', {
+      schema: {
+        description: 'Obtém a política de agendamento e retenção dos backups e as próximas execuções',
+        tags: ['Backup'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
                 type: 'object',
                 properties: {
-                  id: { type: 'string' },
-                  name: { type: 'string' },
-                  size: { type: 'string' },
-                  createdAt: { type: 'string' },
-                  type: { type: 'string' },
-                  description: { type: 'string' }
+                  scheduleEnabled: { type: 'boolean' },
+                  fullIntervalHours: { type: 'number' },
+                  incrementalIntervalHours: { type: 'number' },
+                  retentionDays: { type: 'number' },
+                  retentionMinFull: { type: 'number' },
+                  destination: { type: 'string' },
+                  nextFullBackup: { type: 'string' },
+                  nextIncrementalBackup: { type: 'string' },
+                  lastBackup: backupItemSchema
+                }
+              },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string' },
+                  version: { type: 'string' }
                 }
-              }
-            },
-            meta: {
-              type: 'object',
-              properties: {
-                timestamp: { type: 'string' },
-                version: { type: 'string' }
               }
             }
-          }
-        },
-        500: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
           }
         }
       }
-    }
-  }, backupController.listBackups.bind(backupController));
+    }, backupController.getSchedule.bind(backupController));
 
-  // POST /backup/restore - Restaura um backup
-  fastify.post('/backup/restore', {
-    schema: {
-      description: 'Restaura configurações de um backup',
-      tags: ['Backup'],
-      body: {
-        type: 'object',
-        required: ['backupId', 'confirmRestore'],
-        properties: {
-          backupId: {
-            type: 'string',
-            description: 'ID do backup a ser restaurado'
-          },
-          confirmRestore: {
-            type: 'boolean',
-            description: 'Confirmação de que deseja restaurar (deve ser true)'
-          }
-        }
-      },
-      response: {
-        200: {
+    // POST /backup - Cria um novo backup
+    adminRoutes.post('/backup', {
+      schema: {
+        description: 'Cria um novo backup (full: configurações, módulos e histórico; incremental: alterações desde o último backup; settings: apenas configurações)',
+        tags: ['Backup'],
+        body: {
           type: 'object',
+          required: ['type'],
           properties: {
-            success: { type: 'boolean' },
-            data: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                brandName: { type: 'string' },
-                primaryColor: { type: 'string' },
-                secondaryColor: { type: 'string' },
-                contactEmail: { type: 'string' },
-                contactPhone: { type: 'string' },
-                contactAddress: { type: 'string' },
-                maintenanceMode: { type: 'boolean' },
-                createdAt: { type: 'string' },
-                updatedAt: { type: 'string' }
-              }
+            type: {
+              type: 'string',
+              enum: ['full', 'incremental', 'settings'],
+              description: 'Tipo de backup a ser criado'
             },
-            message: { type: 'string' },
-            meta: {
-              type: 'object',
-              properties: {
-                timestamp: { type: 'string' },
-                version: { type: 'string' }
-              }
+            description: {
+              type: 'string',
+              description: 'Descrição opcional do backup'
             }
           }
         },
-        400: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
-          }
-        },
-        500: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: backupItemSchema,
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string' },
+                  version: { type: 'string' }
+                }
+              }
+            }
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
           }
         }
       }
-    }
-  }, backupController.restoreBackup.bind(backupController));
+    }, backupController.createBackup.bind(backupController));
 
-  // DELETE /backup/:backupId - Remove um backup
-  fastify.delete('/backup/:backupId', {
-    schema: {
-      description: 'Remove um backup específico',
-      tags: ['Backup'],
-      params: {
-        type: 'object',
-        required: ['backupId'],
-        properties: {
-          backupId: {
-            type: 'string',
-            description: 'ID do backup a ser removido'
-          }
-        }
-      },
-      response: {
-        200: {
+    // POST /backup/restore - Restaura um backup
+    adminRoutes.post('/backup/restore', {
+      schema: {
+        description: 'Restaura um backup (incluindo a cadeia de incrementais), validando checksum e versão do formato',
+        tags: ['Backup'],
+        body: {
           type: 'object',
+          required: ['backupId', 'confirmRestore'],
           properties: {
-            success: { type: 'boolean' },
-            message: { type: 'string' },
-            meta: {
-              type: 'object',
-              properties: {
-                timestamp: { type: 'string' },
-                version: { type: 'string' }
-              }
+            backupId: {
+              type: 'string',
+              description: 'ID do backup a ser restaurado'
+            },
+            confirmRestore: {
+              type: 'boolean',
+              description: 'Confirmação de que deseja restaurar (deve ser true)'
             }
           }
         },
-        404: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
-          }
-        },
-        500: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  settings: { type: 'object', additionalProperties: true },
+                  restoredBackups: { type: 'array', items: { type: 'string' } },
+                  moduleSettings: { type: 'number' },
+                  history: { type: 'number' }
+                }
+              },
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string' },
+                  version: { type: 'string' }
+                }
+              }
+            }
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
+          },
+          400: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
           }
         }
       }
-    }
-  }, backupController.deleteBackup.bind(backupController));
+    }, backupController.restoreBackup.bind(backupController));
 
-  // GET /backup/:backupId/download - Download de um backup
-  fastify.get('/backup/:backupId/download', {
-    schema: {
-      description: 'Faz download de um backup específico',
-      tags: ['Backup'],
-      params: {
-        type: 'object',
-        required: ['backupId'],
-        properties: {
-          backupId: {
-            type: 'string',
-            description: 'ID do backup a ser baixado'
-          }
-        }
-      },
-      response: {
-        200: {
-          type: 'string',
-          format: 'binary',
-          description: 'Arquivo de backup comprimido'
-        },
-        404: {
+    // DELETE /backup/:backupId - Remove um backup
+    adminRoutes.delete('/backup/:backupId', {
+      schema: {
+        description: 'Remove um backup específico',
+        tags: ['Backup'],
+        params: {
           type: 'object',
+          required: ['backupId'],
           properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
+            backupId: {
+              type: 'string',
+              description: 'ID do backup a ser removido'
+            }
           }
         },
-        500: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' }
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string' },
+                  version: { type: 'string' }
+                }
+              }
+            }
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
+          },
+          409: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
+          }
+        }
+      }
+    }, backupController.deleteBackup.bind(backupController));
+
+    // POST /backup/retention - Aplica a política de retenção
+    adminRoutes.post('/backup/retention', {
+      schema: {
+        description: 'Remove os backups expirados segundo a política de retenção',
+        tags: ['Backup'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  deleted: { type: 'array', items: { type: 'string' } },
+                  kept: { type: 'number' }
+                }
+              },
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string' },
+                  version: { type: 'string' }
+                }
+              }
+            }
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            }
           }
         }
       }
-    }
-  }, backupController.downloadBackup.bind(backupController));
+    }, backupController.applyRetention.bind(backupController));
+  });
 }
@@ -2,6 +2,7 @@ import { FastifyInstance } from 'fastify';
 import { backupRoutes } from './backup.routes';
 import { healthRoutes } from './health.routes';
 import { moduleSettingsRoutes } from './module-settings.routes';
+import { settingsHistoryRoutes } from './settings-history.routes';
 import { settingsRoutes } from './settings.routes';
 
 /**
@@ -10,6 +11,9 @@ import { settingsRoutes } from './settings.routes';
 export async function registerRoutes(fastify: FastifyInstance) {
   // Registrar rotas principais de configurações
   await fastify.register(settingsRoutes, { prefix: '/api/v1' });
+
+  // Registrar rotas de histórico e reversão de configurações
+  await fastify.register(settingsHistoryRoutes, { prefix: '/api/v1' });
   
   // Registrar rotas de health check
   await fastify.register(healthRoutes, { prefix: '/api/v1' });
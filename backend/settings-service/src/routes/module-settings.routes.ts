@@ -1,4 +1,5 @@
 import { ModuleSettingsController } from '@/controllers/module-settings.controller';
+import { requireAdminRole, requireInternalApiKey } from '@/middlewares/request-context.middleware';
 import { FastifyInstance } from 'fastify';
 
 /**
@@ -8,50 +9,61 @@ import { FastifyInstance } from 'fastify';
 export async function moduleSettingsRoutes(fastify: FastifyInstance) {
   const moduleSettingsController = new ModuleSettingsController();
 
-  // GET /module-settings/:moduleName - Obtém configurações de um módulo
-  fastify.get('/module-settings/:moduleName', {
+  const moduleSchemaSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      moduleName: { type: 'string' },
+      service: { type: 'string' },
+      version: { type: 'string' },
+      description: { type: ['string', 'null'] },
+      schema: { type: 'object', additionalProperties: true },
+      defaults: { type: 'object', additionalProperties: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  const errorSchema = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      error: { type: 'string' },
+      message: { type: 'string' },
+      code: { type: 'string' },
+    },
+  };
+
+  // GET /module-settings/schemas - Lista os schemas registados pelos serviços
+  fastify.get('/module-settings/schemas', {
     schema: {
-      description: 'Obtém todas as configurações de um módulo específico',
+      description: 'Lista os schemas de configurações registados pelos serviços (usados para gerar os formulários do painel)',
       tags: ['Module Settings'],
-      params: {
-        type: 'object',
-        properties: {
-          moduleName: { type: 'string' },
-        },
-        required: ['moduleName'],
-      },
       response: {
         200: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: { type: 'object' },
+            data: { type: 'array', items: moduleSchemaSchema },
             meta: {
               type: 'object',
               properties: {
                 timestamp: { type: 'string', format: 'date-time' },
                 version: { type: 'string' },
-                module: { type: 'string' },
+                total: { type: 'number' },
               },
             },
           },
         },
-        500: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' },
-          },
-        },
+        500: errorSchema,
       },
     },
-  }, moduleSettingsController.getModuleSettings.bind(moduleSettingsController));
+  }, moduleSettingsController.listModuleSchemas.bind(moduleSettingsController));
 
-  // PUT /module-settings/:moduleName - Atualiza configurações de um módulo
-  fastify.put('/module-settings/:moduleName', {
+  // GET /module-settings/schemas/:moduleName - Obtém o schema registado para um módulo
+  fastify.get('/module-settings/schemas/:moduleName', {
     schema: {
-      description: 'Atualiza configurações de um módulo específico',
+      description: 'Obtém o schema de configurações registado para um módulo',
       tags: ['Module Settings'],
       params: {
         type: 'object',
@@ -60,205 +72,335 @@ export async function moduleSettingsRoutes(fastify: FastifyInstance) {
         },
         required: ['moduleName'],
       },
-      body: {
-        type: 'object',
-        additionalProperties: true,
-      },
       response: {
         200: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            message: { type: 'string' },
+            data: moduleSchemaSchema,
             meta: {
               type: 'object',
               properties: {
                 timestamp: { type: 'string', format: 'date-time' },
                 version: { type: 'string' },
-                module: { type: 'string' },
               },
             },
           },
         },
-        400: {
+        404: errorSchema,
+      },
+    },
+  }, moduleSettingsController.getModuleSchema.bind(moduleSettingsController));
+
+  // O registo de schemas é feito pelos serviços no arranque: exige a chave interna (hook limitado a este contexto)
+  await fastify.register(async (serviceRoutes) => {
+    serviceRoutes.addHook('preHandler', requireInternalApiKey);
+
+    // PUT /module-settings/schemas/:moduleName - Regista o schema e os valores por omissão de um módulo
+    serviceRoutes.put('/module-settings/schemas/:moduleName', {
+      schema: {
+        description: 'Regista (ou atualiza) o JSON Schema e os valores por omissão das configurações de um módulo. Chamado pelos serviços no arranque',
+        tags: ['Module Settings'],
+        params: {
           type: 'object',
           properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            message: { type: 'string' },
-            code: { type: 'string' },
+            moduleName: { type: 'string' },
+          },
+          required: ['moduleName'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            service: { type: 'string', minLength: 1 },
+            version: { type: 'string' },
+            description: { type: 'string' },
+            schema: { type: 'object', additionalProperties: true },
+            defaults: { type: 'object', additionalProperties: true },
           },
+          required: ['service', 'schema', 'defaults'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: moduleSchemaSchema,
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string', format: 'date-time' },
+                  version: { type: 'string' },
+                },
+              },
+            },
+          },
+          400: errorSchema,
         },
       },
-    },
-  }, moduleSettingsController.updateModuleSettings.bind(moduleSettingsController));
+    }, moduleSettingsController.registerModuleSchema.bind(moduleSettingsController));
+  });
 
-  // POST /module-settings - Cria nova configuração de módulo
-  fastify.post('/module-settings', {
+  // GET /module-settings/:moduleName - Obtém configurações de um módulo
+  fastify.get('/module-settings/:moduleName', {
     schema: {
-      description: 'Cria uma nova configuração de módulo',
+      description: 'Obtém as configurações efetivas de um módulo (valores por omissão do schema registado + valores guardados). Suporta If-None-Match/ETag para polling',
       tags: ['Module Settings'],
-      body: {
+      params: {
         type: 'object',
         properties: {
           moduleName: { type: 'string' },
-          settingsKey: { type: 'string' },
-          settingsValue: { type: 'object' },
-          description: { type: 'string' },
         },
-        required: ['moduleName', 'settingsKey', 'settingsValue'],
+        required: ['moduleName'],
       },
       response: {
-        201: {
+        200: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: { type: 'object' },
-            message: { type: 'string' },
+            data: { type: 'object', additionalProperties: true },
             meta: {
               type: 'object',
               properties: {
                 timestamp: { type: 'string', format: 'date-time' },
                 version: { type: 'string' },
+                module: { type: 'string' },
+                etag: { type: 'string' },
               },
             },
           },
         },
-        400: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            message: { type: 'string' },
-            code: { type: 'string' },
-          },
+        304: {
+          type: 'null',
         },
-        409: {
+        500: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
             error: { type: 'string' },
-            message: { type: 'string' },
             code: { type: 'string' },
           },
         },
       },
     },
-  }, moduleSettingsController.createModuleSetting.bind(moduleSettingsController));
+  }, moduleSettingsController.getModuleSettings.bind(moduleSettingsController));
 
-  // PUT /module-settings/setting/:id - Atualiza configuração específica de módulo
-  fastify.put('/module-settings/setting/:id', {
-    schema: {
-      description: 'Atualiza uma configuração específica de módulo',
-      tags: ['Module Settings'],
-      params: {
-        type: 'object',
-        properties: {
-          id: { type: 'string' },
+  // Alterar ou remover valores de configuração: apenas administradores (hook limitado a este contexto)
+  await fastify.register(async (adminRoutes) => {
+    adminRoutes.addHook('preHandler', requireAdminRole);
+
+    // PUT /module-settings/:moduleName - Atualiza configurações de um módulo
+    adminRoutes.put('/module-settings/:moduleName', {
+      schema: {
+        description: 'Atualiza configurações de um módulo específico, validadas contra o schema registado pelo serviço',
+        tags: ['Module Settings'],
+        params: {
+          type: 'object',
+          properties: {
+            moduleName: { type: 'string' },
+          },
+          required: ['moduleName'],
         },
-        required: ['id'],
-      },
-      body: {
-        type: 'object',
-        properties: {
-          settingsValue: { type: 'object' },
-          description: { type: 'string' },
-          isActive: { type: 'boolean' },
+        body: {
+          type: 'object',
+          additionalProperties: true,
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string', format: 'date-time' },
+                  version: { type: 'string' },
+                  module: { type: 'string' },
+                },
+              },
+            },
+          },
+          400: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              message: { type: 'string' },
+              code: { type: 'string' },
+            },
+          },
         },
       },
-      response: {
-        200: {
+    }, moduleSettingsController.updateModuleSettings.bind(moduleSettingsController));
+
+    // POST /module-settings - Cria nova configuração de módulo
+    adminRoutes.post('/module-settings', {
+      schema: {
+        description: 'Cria uma nova configuração de módulo',
+        tags: ['Module Settings'],
+        body: {
           type: 'object',
           properties: {
-            success: { type: 'boolean' },
-            data: { type: 'object' },
-            message: { type: 'string' },
-            meta: {
-              type: 'object',
-              properties: {
-                timestamp: { type: 'string', format: 'date-time' },
-                version: { type: 'string' },
+            moduleName: { type: 'string' },
+            settingsKey: { type: 'string' },
+            settingsValue: { type: 'object' },
+            description: { type: 'string' },
+          },
+          required: ['moduleName', 'settingsKey', 'settingsValue'],
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'object' },
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string', format: 'date-time' },
+                  version: { type: 'string' },
+                },
               },
             },
           },
+          400: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              message: { type: 'string' },
+              code: { type: 'string' },
+            },
+          },
+          409: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              message: { type: 'string' },
+              code: { type: 'string' },
+            },
+          },
         },
-        400: {
+      },
+    }, moduleSettingsController.createModuleSetting.bind(moduleSettingsController));
+
+    // PUT /module-settings/setting/:id - Atualiza configuração específica de módulo
+    adminRoutes.put('/module-settings/setting/:id', {
+      schema: {
+        description: 'Atualiza uma configuração específica de módulo',
+        tags: ['Module Settings'],
+        params: {
           type: 'object',
           properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            message: { type: 'string' },
-            code: { type: 'string' },
+            id: { type: 'string' },
           },
+          required: ['id'],
         },
-        404: {
+        body: {
           type: 'object',
           properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            message: { type: 'string' },
-            code: { type: 'string' },
+            settingsValue: { type: 'object' },
+            description: { type: 'string' },
+            isActive: { type: 'boolean' },
           },
         },
-      },
-    },
-  }, moduleSettingsController.updateModuleSetting.bind(moduleSettingsController));
-
-  // DELETE /module-settings/setting/:id - Remove configuração específica de módulo
-  fastify.delete('/module-settings/setting/:id', {
-    schema: {
-      description: 'Remove uma configuração específica de módulo',
-      tags: ['Module Settings'],
-      params: {
-        type: 'object',
-        properties: {
-          id: { type: 'string' },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'object' },
+              message: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'string', format: 'date-time' },
+                  version: { type: 'string' },
+                },
+              },
+            },
+          },
+          400: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              message: { type: 'string' },
+              code: { type: 'string' },
+            },
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              message: { type: 'string' },
+              code: { type: 'string' },
+            },
+          },
         },
-        required: ['id'],
       },
-      response: {
-        204: {
-          type: 'null',
-        },
-        404: {
+    }, moduleSettingsController.updateModuleSetting.bind(moduleSettingsController));
+
+    // DELETE /module-settings/setting/:id - Remove configuração específica de módulo
+    adminRoutes.delete('/module-settings/setting/:id', {
+      schema: {
+        description: 'Remove uma configuração específica de módulo',
+        tags: ['Module Settings'],
+        params: {
           type: 'object',
           properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' },
+            id: { type: 'string' },
           },
+          required: ['id'],
         },
-      },
-    },
-  }, moduleSettingsController.deleteModuleSetting.bind(moduleSettingsController));
-
-  // DELETE /module-settings/module/:moduleName - Remove todas as configurações de um módulo
-  fastify.delete('/module-settings/module/:moduleName', {
-    schema: {
-      description: 'Remove todas as configurações de um módulo específico',
-      tags: ['Module Settings'],
-      params: {
-        type: 'object',
-        properties: {
-          moduleName: { type: 'string' },
+        response: {
+          204: {
+            type: 'null',
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' },
+            },
+          },
         },
-        required: ['moduleName'],
       },
-      response: {
-        204: {
-          type: 'null',
-        },
-        500: {
+    }, moduleSettingsController.deleteModuleSetting.bind(moduleSettingsController));
+
+    // DELETE /module-settings/module/:moduleName - Remove todas as configurações de um módulo
+    adminRoutes.delete('/module-settings/module/:moduleName', {
+      schema: {
+        description: 'Remove todas as configurações de um módulo específico',
+        tags: ['Module Settings'],
+        params: {
           type: 'object',
           properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' },
-            code: { type: 'string' },
+            moduleName: { type: 'string' },
+          },
+          required: ['moduleName'],
+        },
+        response: {
+          204: {
+            type: 'null',
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              code: { type: 'string' },
+            },
           },
         },
       },
-    },
-  }, moduleSettingsController.deleteModuleSettings.bind(moduleSettingsController));
+    }, moduleSettingsController.deleteModuleSettings.bind(moduleSettingsController));
+  });
 
   // GET /module-settings - Lista configurações de módulo com paginação
   fastify.get('/module-settings', {
@@ -326,7 +468,7 @@ export async function moduleSettingsRoutes(fastify: FastifyInstance) {
               properties: {
                 module: { type: 'string' },
                 key: { type: 'string' },
-                value: { type: 'object' },
+                value: {},
               },
             },
             meta: {
@@ -0,0 +1,311 @@
+import { SettingsHistoryController } from '@/controllers/settings-history.controller';
+import { requireAdminRole } from '@/middlewares/request-context.middleware';
+import { FastifyInstance } from 'fastify';
+
+const historyEntrySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    settingsId: { type: 'string' },
+    fieldName: { type: 'string' },
+    oldValue: { type: ['string', 'null'] },
+    newValue: { type: ['string', 'null'] },
+    changedBy: { type: ['string', 'null'] },
+    changeReason: { type: ['string', 'null'] },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const historyQuerySchema = {
+  type: 'object',
+  properties: {
+    field: { type: 'string' },
+    changedBy: { type: 'string' },
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    page: { type: 'number', minimum: 1 },
+    limit: { type: 'number', minimum: 1, maximum: 100 },
+  },
+};
+
+const paginatedHistorySchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: { type: 'array', items: historyEntrySchema },
+    meta: {
+      type: 'object',
+      properties: {
+        timestamp: { type: 'string', format: 'date-time' },
+        version: { type: 'string' },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+      },
+    },
+  },
+};
+
+const metaSchema = {
+  type: 'object',
+  properties: {
+    timestamp: { type: 'string', format: 'date-time' },
+    version: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    message: { type: 'string' },
+    code: { type: 'string' },
+  },
+};
+
+/**
+ * Rotas do histórico de configurações
+ * GET/POST/DELETE /settings/history
+ */
+export async function settingsHistoryRoutes(fastify: FastifyInstance) {
+  const historyController = new SettingsHistoryController();
+
+  // GET /settings/history - Lista alterações
+  fastify.get('/settings/history', {
+    schema: {
+      description: 'Lista as alterações às configurações, da mais recente para a mais antiga',
+      tags: ['Settings History'],
+      querystring: historyQuerySchema,
+      response: {
+        200: paginatedHistorySchema,
+        400: errorSchema,
+        500: errorSchema,
+      },
+    },
+  }, historyController.getHistory.bind(historyController));
+
+  // GET /settings/history/field/:fieldName - Histórico de um campo
+  fastify.get('/settings/history/field/:fieldName', {
+    schema: {
+      description: 'Lista as alterações de um campo específico',
+      tags: ['Settings History'],
+      params: {
+        type: 'object',
+        properties: {
+          fieldName: { type: 'string' },
+        },
+        required: ['fieldName'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100 },
+        },
+      },
+      response: {
+        200: paginatedHistorySchema,
+        500: errorSchema,
+      },
+    },
+  }, historyController.getFieldHistory.bind(historyController));
+
+  // GET /settings/history/stats - Estatísticas do histórico
+  fastify.get('/settings/history/stats', {
+    schema: {
+      description: 'Obtém estatísticas das alterações por campo, utilizador e mês',
+      tags: ['Settings History'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                totalChanges: { type: 'number' },
+                changesByField: { type: 'object', additionalProperties: { type: 'number' } },
+                changesByUser: { type: 'object', additionalProperties: { type: 'number' } },
+                changesByMonth: { type: 'object', additionalProperties: { type: 'number' } },
+                lastChange: { type: 'string', format: 'date-time' },
+              },
+            },
+            meta: metaSchema,
+          },
+        },
+        500: errorSchema,
+      },
+    },
+  }, historyController.getHistoryStats.bind(historyController));
+
+  // GET /settings/history/export - Exporta o histórico
+  fastify.get('/settings/history/export', {
+    schema: {
+      description: 'Exporta o histórico em JSON ou CSV',
+      tags: ['Settings History'],
+      querystring: {
+        type: 'object',
+        properties: {
+          ...historyQuerySchema.properties,
+          format: { type: 'string', enum: ['json', 'csv'], default: 'json' },
+        },
+      },
+    },
+  }, historyController.exportHistory.bind(historyController));
+
+  // GET /settings/history/snapshot - Configurações num instante
+  fastify.get('/settings/history/snapshot', {
+    schema: {
+      description: 'Reconstrói as configurações tal como estavam num instante',
+      tags: ['Settings History'],
+      querystring: {
+        type: 'object',
+        properties: {
+          at: { type: 'string', format: 'date-time' },
+        },
+        required: ['at'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                at: { type: 'string', format: 'date-time' },
+                settings: { type: 'object', additionalProperties: true },
+                unknownFields: { type: 'array', items: { type: 'string' } },
+              },
+            },
+            meta: metaSchema,
+          },
+        },
+        400: errorSchema,
+        500: errorSchema,
+      },
+    },
+  }, historyController.getSnapshot.bind(historyController));
+
+  // GET /settings/history/diff - Diferenças entre dois instantes
+  fastify.get('/settings/history/diff', {
+    schema: {
+      description: 'Compara as configurações entre dois instantes (por omissão, até agora)',
+      tags: ['Settings History'],
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date-time' },
+          to: { type: 'string', format: 'date-time' },
+        },
+        required: ['from'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                from: { type: 'string', format: 'date-time' },
+                to: { type: 'string', format: 'date-time' },
+                changes: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      field: { type: 'string' },
+                      from: {},
+                      to: {},
+                    },
+                  },
+                },
+                entries: { type: 'array', items: historyEntrySchema },
+              },
+            },
+            meta: metaSchema,
+          },
+        },
+        400: errorSchema,
+        500: errorSchema,
+      },
+    },
+  }, historyController.getDiff.bind(historyController));
+
+  // Reverter e limpar o histórico alteram dados: apenas administradores (hook limitado a este contexto)
+  await fastify.register(async (adminRoutes) => {
+    adminRoutes.addHook('preHandler', requireAdminRole);
+
+    // POST /settings/history/revert - Reverte para uma versão anterior
+    adminRoutes.post('/settings/history/revert', {
+      schema: {
+        description: 'Reverte as configurações para o estado num instante ou logo após uma entrada do histórico',
+        tags: ['Settings History'],
+        body: {
+          type: 'object',
+          properties: {
+            at: { type: 'string', format: 'date-time' },
+            historyId: { type: 'string' },
+            reason: { type: 'string', maxLength: 200 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  settings: { type: 'object', additionalProperties: true },
+                  revertedTo: { type: 'string', format: 'date-time' },
+                  changedFields: { type: 'array', items: { type: 'string' } },
+                  skippedFields: { type: 'array', items: { type: 'string' } },
+                },
+              },
+              message: { type: 'string' },
+              meta: metaSchema,
+            },
+          },
+          400: errorSchema,
+          404: errorSchema,
+          500: errorSchema,
+        },
+      },
+    }, historyController.revert.bind(historyController));
+
+    // DELETE /settings/history - Remove entradas antigas
+    adminRoutes.delete('/settings/history', {
+      schema: {
+        description: 'Remove entradas do histórico mais antigas que o número de dias indicado',
+        tags: ['Settings History'],
+        querystring: {
+          type: 'object',
+          properties: {
+            olderThanDays: { type: 'number', minimum: 30, default: 365 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  deletedCount: { type: 'number' },
+                },
+              },
+              message: { type: 'string' },
+              meta: metaSchema,
+            },
+          },
+          500: errorSchema,
+        },
+      },
+    }, historyController.cleanupHistory.bind(historyController));
+  });
+}
@@ -28,7 +28,10 @@ export async function settingsRoutes(fastify: FastifyInstance) {
                 contactEmail: { type: 'string' },
                 contactPhone: { type: 'string' },
                 contactAddress: { type: 'string' },
+                logoUrl: { type: ['string', 'null'] },
+                faviconUrl: { type: ['string', 'null'] },
                 maintenanceMode: { type: 'boolean' },
+                maintenanceMessage: { type: 'string' },
                 createdAt: { type: 'string', format: 'date-time' },
                 updatedAt: { type: 'string', format: 'date-time' },
               },
@@ -315,6 +318,45 @@ export async function settingsRoutes(fastify: FastifyInstance) {
     },
   }, settingsController.validateSettings.bind(settingsController));
 
+  // GET /settings/maintenance - Estado de manutenção
+  fastify.get('/settings/maintenance', {
+    schema: {
+      description: 'Obtém o estado de manutenção (consultado pelo API Gateway e pelo frontend)',
+      tags: ['Settings'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                maintenanceMode: { type: 'boolean' },
+                maintenanceMessage: { type: ['string', 'null'] },
+                updatedAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            meta: {
+              type: 'object',
+              properties: {
+                timestamp: { type: 'string', format: 'date-time' },
+                version: { type: 'string' },
+              },
+            },
+          },
+        },
+        500: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            code: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, settingsController.getMaintenanceStatus.bind(settingsController));
+
   // GET /settings/stats - Obtém estatísticas do serviço
   fastify.get('/settings/stats', {
     schema: {
@@ -1,28 +1,60 @@
-import { DatabaseConnection } from '@/interfaces/database.interface';
+import { BackupStorage } from '@/interfaces/backup-storage.interface';
+import { CacheManager } from '@/interfaces/cache.interface';
+import { DatabaseConnection, DatabaseTransaction } from '@/interfaces/database.interface';
 import { ObservabilityManager } from '@/interfaces/observability.interface';
 import { OperationResult } from '@/types/common';
-import { RequestContext, SystemSettings } from '@/types/settings';
-import { createReadStream, createWriteStream, existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import { pipeline } from 'stream';
+import { ModuleSettings, RequestContext, SettingsHistory, SystemSettings } from '@/types/settings';
+import { createHash } from 'crypto';
 import { promisify } from 'util';
 import { v4 as uuidv4 } from 'uuid';
-import { createGunzip, createGzip } from 'zlib';
+import { gunzip, gzip } from 'zlib';
+import { z } from 'zod';
 
-const pipelineAsync = promisify(pipeline);
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Versão atual do formato dos ficheiros de backup
+// 1 = formato antigo (apenas configurações), 2 = configurações, módulos e histórico
+export const BACKUP_SCHEMA_VERSION = 2;
+
+const MANIFEST_KEY = 'manifest.json';
+const BACKUP_FILE_PATTERN = /^backup_(full|incremental|settings)_.+\.json\.gz$/;
+const PAGE_SIZE = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Campos geridos pela base de dados, nunca repostos a partir de um backup
+const SETTINGS_METADATA_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'updatedBy']);
+
+export type BackupType = 'full' | 'incremental' | 'settings';
+
+export interface BackupCounts {
+  settings: number;
+  moduleSettings: number;
+  history: number;
+}
 
 export interface BackupItem {
   id: string;
   name: string;
   size: string;
+  sizeBytes: number;
   createdAt: string;
-  type: 'full' | 'incremental' | 'settings';
+  type: BackupType;
   description?: string | undefined;
+  createdBy?: string | undefined;
+  checksum: string;
+  schemaVersion: number;
+  baseBackupId?: string | undefined;
+  since?: string | undefined;
+  counts: BackupCounts;
+  scheduled: boolean;
+  destination: string;
 }
 
 export interface BackupRequest {
-  type: 'full' | 'incremental' | 'settings';
+  type: BackupType;
   description?: string | undefined;
+  scheduled?: boolean | undefined;
 }
 
 export interface RestoreRequest {
@@ -30,28 +62,105 @@ export interface RestoreRequest {
   confirmRestore: boolean;
 }
 
+export interface RestoreResult {
+  settings: SystemSettings;
+  restoredBackups: string[];
+  moduleSettings: number;
+  history: number;
+}
+
+export interface BackupPolicy {
+  scheduleEnabled: boolean;
+  fullIntervalHours: number;
+  incrementalIntervalHours: number;
+  retentionDays: number;
+  retentionMinFull: number;
+}
+
+export interface BackupSchedule extends BackupPolicy {
+  destination: string;
+  nextFullBackup?: string | undefined;
+  nextIncrementalBackup?: string | undefined;
+  lastBackup?: BackupItem | undefined;
+}
+
+export interface RetentionResult {
+  deleted: string[];
+  kept: number;
+}
+
+export const DEFAULT_BACKUP_POLICY: BackupPolicy = {
+  scheduleEnabled: false,
+  fullIntervalHours: 24,
+  incrementalIntervalHours: 0,
+  retentionDays: 30,
+  retentionMinFull: 3,
+};
+
+interface BackupManifest {
+  updatedAt: string;
+  backups: BackupItem[];
+}
+
+// Estrutura do ficheiro de backup (schemaVersion 2)
+const backupArchiveSchema = z.object({
+  schemaVersion: z.literal(BACKUP_SCHEMA_VERSION),
+  id: z.string(),
+  type: z.enum(['full', 'incremental', 'settings']),
+  createdAt: z.string(),
+  baseBackupId: z.string().optional(),
+  since: z.string().optional(),
+  data: z.object({
+    settings: z.record(z.any()).nullable(),
+    moduleSettings: z.array(z.object({
+      moduleName: z.string(),
+      settingsKey: z.string(),
+      settingsValue: z.any(),
+      description: z.string().nullable().optional(),
+      isActive: z.boolean().optional(),
+    })),
+    history: z.array(z.object({
+      id: z.string(),
+      settingsId: z.string(),
+      fieldName: z.string(),
+      oldValue: z.string().nullable().optional(),
+      newValue: z.string().nullable().optional(),
+      changedBy: z.string().nullable().optional(),
+      changeReason: z.string().nullable().optional(),
+      createdAt: z.string(),
+    })),
+  }),
+});
+
+// Formato antigo: apenas a linha de configurações
+const legacyArchiveSchema = z.object({
+  settings: z.record(z.any()),
+});
+
+type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
 export class BackupService {
   private _database?: DatabaseConnection;
   private _observability?: ObservabilityManager;
-  private backupDir: string;
+  private _storage?: BackupStorage;
+  private _cache?: CacheManager | undefined;
+  private manifestQueue: Promise<unknown> = Promise.resolve();
+  private timers: NodeJS.Timeout[] = [];
+  private nextRuns: { full?: Date; incremental?: Date } = {};
+  private scheduledRunning = false;
 
-  constructor() {
-    this.backupDir = process.env.BACKUP_DIR || join(process.cwd(), 'backups');
-    this.ensureBackupDirectory();
-  }
-
-  private ensureBackupDirectory(): void {
-    if (!existsSync(this.backupDir)) {
-      mkdirSync(this.backupDir, { recursive: true });
-    }
-  }
+  constructor(private policy: BackupPolicy = DEFAULT_BACKUP_POLICY) {}
 
   set dependencies(deps: {
     database: DatabaseConnection;
     observability: ObservabilityManager;
+    storage: BackupStorage;
+    cache?: CacheManager | undefined;
   }) {
     this._database = deps.database;
     this._observability = deps.observability;
+    this._storage = deps.storage;
+    this._cache = deps.cache;
   }
 
   private get database(): DatabaseConnection {
@@ -68,67 +177,96 @@ export class BackupService {
     return this._observability;
   }
 
+  private get storage(): BackupStorage {
+    if (!this._storage) {
+      throw new Error('Storage dependency not set');
+    }
+    return this._storage;
+  }
+
   /**
-   * Cria um backup das configurações
+   * Cria um backup
+   * - full: configurações, configurações de módulo e histórico completo
+   * - incremental: alterações desde o último backup completo ou incremental
+   * - settings: apenas a linha de configurações
    */
   async createBackup(
     request: BackupRequest,
     context?: RequestContext
   ): Promise<OperationResult<BackupItem>> {
     const traceId = this.observability.startTrace('create_backup');
-    
+
     try {
-      const backupId = uuidv4();
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `backup_${request.type}_${timestamp}.json.gz`;
-      const filepath = join(this.backupDir, filename);
-
-      // Obter configurações atuais
-      const settings = await this.database.settings.getCurrentSettings();
-      
-      // Preparar dados do backup
-      const backupData = {
-        id: backupId,
-        type: request.type,
-        description: request.description,
-        createdAt: new Date().toISOString(),
-        version: '1.0.0',
-        settings: settings,
-        metadata: {
-          createdBy: context?.userId,
-          service: 'settings-service',
-          environment: process.env.NODE_ENV || 'development',
+      const item = await this.withManifest(async (manifest) => {
+        let type = request.type;
+        let base: BackupItem | undefined;
+
+        if (type === 'incremental') {
+          base = manifest.backups.find(backup => backup.type !== 'settings');
+          // Sem base não há incremental possível: cria-se um backup completo
+          if (!base) {
+            type = 'full';
+          }
         }
-      };
 
-      // Criar arquivo comprimido
-      const writeStream = createWriteStream(filepath);
-      const gzipStream = createGzip();
-      
-      await pipelineAsync(
-        JSON.stringify(backupData, null, 2),
-        gzipStream,
-        writeStream
-      );
-
-      // Obter tamanho do arquivo
-      const stats = require('fs').statSync(filepath);
-      const sizeInMB = (stats.size / (1024 * 1024)).toFixed(2);
-
-      const backupItem: BackupItem = {
-        id: backupId,
-        name: filename,
-        size: `${sizeInMB} MB`,
-        createdAt: new Date().toISOString(),
-        type: request.type,
-        description: request.description,
-      };
+        const id = uuidv4();
+        const createdAt = new Date();
+        const since = base ? new Date(base.createdAt) : undefined;
+
+        const archive: BackupArchive = {
+          schemaVersion: BACKUP_SCHEMA_VERSION,
+          id,
+          type,
+          createdAt: createdAt.toISOString(),
+          ...(base && { baseBackupId: base.id, since: base.createdAt }),
+          data: await this.collectData(type, since),
+        };
 
-      this.observability.incrementCounter('backup_created', { type: request.type });
+        const payload = await gzipAsync(Buffer.from(JSON.stringify({
+          ...archive,
+          description: request.description,
+          createdBy: context?.userId,
+          metadata: {
+            service: 'settings-service',
+            environment: process.env.NODE_ENV || 'development',
+          },
+        })));
+
+        const name = `backup_${type}_${createdAt.toISOString().replace(/[:.]/g, '-')}_${id}.json.gz`;
+        await this.storage.write(name, payload, 'application/gzip');
+
+        const backupItem: BackupItem = {
+          id,
+          name,
+          size: this.formatSize(payload.length),
+          sizeBytes: payload.length,
+          createdAt: archive.createdAt,
+          type,
+          description: request.description,
+          createdBy: context?.userId,
+          checksum: this.checksum(payload),
+          schemaVersion: BACKUP_SCHEMA_VERSION,
+          baseBackupId: archive.baseBackupId,
+          since: archive.since,
+          counts: {
+            settings: archive.data.settings ? 1 : 0,
+            moduleSettings: archive.data.moduleSettings.length,
+            history: archive.data.history.length,
+          },
+          scheduled: !!request.scheduled,
+          destination: this.storage.name,
+        };
+
+        manifest.backups.unshift(backupItem);
+        return backupItem;
+      });
+
+      this.observability.incrementCounter('backup_created', { type: item.type, scheduled: String(item.scheduled) });
       this.observability.info('Backup criado com sucesso', {
-        backupId,
-        type: request.type,
-        size: sizeInMB,
+        backupId: item.id,
+        type: item.type,
+        size: item.sizeBytes,
+        destination: item.destination,
         userId: context?.userId,
       });
 
@@ -136,13 +274,15 @@ export class BackupService {
 
       return {
         success: true,
-        data: backupItem,
-        message: 'Backup criado com sucesso',
+        data: item,
+        message: item.type === request.type
+          ? 'Backup criado com sucesso'
+          : 'Nenhum backup de base encontrado: foi criado um backup completo',
       };
     } catch (error) {
       this.observability.error('Erro ao criar backup', { error, traceId });
       this.observability.endTrace(traceId);
-      
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Erro desconhecido',
@@ -151,47 +291,24 @@ export class BackupService {
   }
 
   /**
-   * Lista todos os backups disponíveis
+   * Lista todos os backups disponíveis, do mais recente para o mais antigo
    */
   async listBackups(): Promise<OperationResult<BackupItem[]>> {
     const traceId = this.observability.startTrace('list_backups');
-    
+
     try {
-      const fs = require('fs');
-      const files = fs.readdirSync(this.backupDir)
-        .filter((file: string) => file.endsWith('.json.gz'))
-        .map((file: string) => {
-          const filepath = join(this.backupDir, file);
-          const stats = fs.statSync(filepath);
-          const sizeInMB = (stats.size / (1024 * 1024)).toFixed(2);
-          
-          // Extrair informações do nome do arquivo
-          const match = file.match(/backup_(full|incremental|settings)_(.+)\.json\.gz/);
-          const type = match ? match[1] as 'full' | 'incremental' | 'settings' : 'full';
-          const timestamp = match ? match[2] : 'unknown';
-          
-          return {
-            id: file.replace('.json.gz', ''),
-            name: file,
-            size: `${sizeInMB} MB`,
-            createdAt: timestamp ? timestamp.replace(/-/g, ':').replace(/T/, ' ').substring(0, 19) : 'unknown',
-            type,
-          } as BackupItem;
-        })
-        .sort((a: BackupItem, b: BackupItem) => 
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
+      const backups = await this.withManifest(async manifest => [...manifest.backups]);
 
       this.observability.endTrace(traceId);
 
       return {
         success: true,
-        data: files,
+        data: backups,
       };
     } catch (error) {
       this.observability.error('Erro ao listar backups', { error, traceId });
       this.observability.endTrace(traceId);
-      
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Erro desconhecido',
@@ -200,68 +317,98 @@ export class BackupService {
   }
 
   /**
-   * Restaura configurações de um backup
+   * Restaura um backup
+   * Toda a cadeia (backup completo + incrementais) é lida, verificada por checksum
+   * e validada quanto à versão do formato antes de qualquer alteração ser aplicada
    */
   async restoreBackup(
     request: RestoreRequest,
     context?: RequestContext
-  ): Promise<OperationResult<SystemSettings>> {
+  ): Promise<OperationResult<RestoreResult>> {
     const traceId = this.observability.startTrace('restore_backup');
-    
+
     try {
       if (!request.confirmRestore) {
+        this.observability.endTrace(traceId);
         return {
           success: false,
           error: 'Confirmação de restauração é obrigatória',
         };
       }
 
-      // Encontrar arquivo de backup
-      const files = require('fs').readdirSync(this.backupDir);
-      const backupFile = files.find((file: string) => file.includes(request.backupId));
-      
-      if (!backupFile) {
+      const backups = await this.withManifest(async manifest => [...manifest.backups]);
+      const target = backups.find(backup => backup.id === request.backupId);
+
+      if (!target) {
+        this.observability.endTrace(traceId);
         return {
           success: false,
           error: 'Arquivo de backup não encontrado',
         };
       }
 
-      const filepath = join(this.backupDir, backupFile);
-      
-      // Ler e descomprimir arquivo
-      const readStream = createReadStream(filepath);
-      const gunzipStream = createGunzip();
-      
-      let backupData = '';
-      gunzipStream.on('data', (chunk) => {
-        backupData += chunk.toString();
-      });
+      // Resolver a cadeia até ao backup completo, do mais antigo para o mais recente
+      const chain: BackupItem[] = [target];
+      while (chain[0]!.baseBackupId) {
+        const base = backups.find(backup => backup.id === chain[0]!.baseBackupId);
+        if (!base) {
+          this.observability.endTrace(traceId);
+          return {
+            success: false,
+            error: `Cadeia de backups incompleta: backup base ${chain[0]!.baseBackupId} não encontrado`,
+          };
+        }
+        chain.unshift(base);
+      }
 
-      await new Promise((resolve, reject) => {
-        gunzipStream.on('end', resolve);
-        gunzipStream.on('error', reject);
-        readStream.pipe(gunzipStream);
-      });
+      const archives: BackupArchive[] = [];
+      for (const item of chain) {
+        const archive = await this.readArchive(item);
+        if (typeof archive === 'string') {
+          this.observability.endTrace(traceId);
+          return {
+            success: false,
+            error: archive,
+          };
+        }
+        archives.push(archive);
+      }
+
+      const result = await this.database.transaction(async (tx) => {
+        let moduleSettings = 0;
+        let history = 0;
+        let settings: Record<string, any> | null = null;
+
+        for (const archive of archives) {
+          settings = archive.data.settings ?? settings;
+          moduleSettings += await this.restoreModuleSettings(tx, archive);
+          history += await this.restoreHistory(tx, archive);
+        }
+
+        const restoredSettings = settings
+          ? await tx.settings.updateSettings(
+            this.restorableSettings(settings),
+            context?.userId,
+            `Backup restore ${request.backupId}`
+          )
+          : await tx.settings.getCurrentSettings();
 
-      const parsedData = JSON.parse(backupData);
-      
-      if (!parsedData.settings) {
         return {
-          success: false,
-          error: 'Arquivo de backup inválido',
+          settings: restoredSettings,
+          restoredBackups: chain.map(item => item.id),
+          moduleSettings,
+          history,
         };
-      }
+      });
 
-      // Restaurar configurações
-      const restoredSettings = await this.database.settings.updateSettings(
-        parsedData.settings,
-        context?.userId
-      );
+      await this.invalidateCache(archives);
 
-      this.observability.incrementCounter('backup_restored', { backupId: request.backupId });
+      this.observability.incrementCounter('backup_restored', { type: target.type });
       this.observability.info('Backup restaurado com sucesso', {
         backupId: request.backupId,
+        chain: result.restoredBackups,
+        moduleSettings: result.moduleSettings,
+        history: result.history,
         userId: context?.userId,
       });
 
@@ -269,13 +416,13 @@ export class BackupService {
 
       return {
         success: true,
-        data: restoredSettings,
-        message: 'Configurações restauradas com sucesso',
+        data: result,
+        message: 'Backup restaurado com sucesso',
       };
     } catch (error) {
       this.observability.error('Erro ao restaurar backup', { error, traceId });
       this.observability.endTrace(traceId);
-      
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Erro desconhecido',
@@ -285,27 +432,38 @@ export class BackupService {
 
   /**
    * Remove um backup
+   * Um backup que serve de base a outros não pode ser removido
    */
   async deleteBackup(
     backupId: string,
     context?: RequestContext
   ): Promise<OperationResult<void>> {
     const traceId = this.observability.startTrace('delete_backup');
-    
+
     try {
-      const files = require('fs').readdirSync(this.backupDir);
-      const backupFile = files.find((file: string) => file.includes(backupId));
-      
-      if (!backupFile) {
+      const error = await this.withManifest(async (manifest) => {
+        const item = manifest.backups.find(backup => backup.id === backupId);
+        if (!item) {
+          return 'Arquivo de backup não encontrado';
+        }
+
+        if (manifest.backups.some(backup => backup.baseBackupId === backupId)) {
+          return 'Backup é base de backups incrementais e não pode ser removido';
+        }
+
+        await this.storage.delete(item.name);
+        manifest.backups = manifest.backups.filter(backup => backup.id !== backupId);
+        return undefined;
+      });
+
+      if (error) {
+        this.observability.endTrace(traceId);
         return {
           success: false,
-          error: 'Arquivo de backup não encontrado',
+          error,
         };
       }
 
-      const filepath = join(this.backupDir, backupFile);
-      require('fs').unlinkSync(filepath);
-
       this.observability.incrementCounter('backup_deleted', { backupId });
       this.observability.info('Backup removido com sucesso', {
         backupId,
@@ -321,7 +479,7 @@ export class BackupService {
     } catch (error) {
       this.observability.error('Erro ao remover backup', { error, traceId });
       this.observability.endTrace(traceId);
-      
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Erro desconhecido',
@@ -334,20 +492,20 @@ export class BackupService {
    */
   async downloadBackup(backupId: string): Promise<OperationResult<Buffer>> {
     const traceId = this.observability.startTrace('download_backup');
-    
+
     try {
-      const files = require('fs').readdirSync(this.backupDir);
-      const backupFile = files.find((file: string) => file.includes(backupId));
-      
-      if (!backupFile) {
+      const backups = await this.withManifest(async manifest => [...manifest.backups]);
+      const item = backups.find(backup => backup.id === backupId);
+
+      if (!item) {
+        this.observability.endTrace(traceId);
         return {
           success: false,
           error: 'Arquivo de backup não encontrado',
         };
       }
 
-      const filepath = join(this.backupDir, backupFile);
-      const fileBuffer = require('fs').readFileSync(filepath);
+      const fileBuffer = await this.storage.read(item.name);
 
       this.observability.endTrace(traceId);
 
@@ -358,11 +516,454 @@ export class BackupService {
     } catch (error) {
       this.observability.error('Erro ao fazer download do backup', { error, traceId });
       this.observability.endTrace(traceId);
-      
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
+  /**
+   * Aplica a política de retenção
+   * Mantém os backups dentro do período de retenção, os N backups completos mais recentes
+   * e todos os backups de que um backup mantido depende
+   */
+  async applyRetention(): Promise<OperationResult<RetentionResult>> {
+    const traceId = this.observability.startTrace('apply_backup_retention');
+
+    try {
+      const result = await this.withManifest(async (manifest) => {
+        const cutoff = Date.now() - this.policy.retentionDays * 24 * HOUR_MS;
+        const kept = new Set<string>();
+
+        for (const backup of manifest.backups) {
+          if (new Date(backup.createdAt).getTime() >= cutoff) {
+            kept.add(backup.id);
+          }
+        }
+
+        manifest.backups
+          .filter(backup => backup.type === 'full')
+          .slice(0, this.policy.retentionMinFull)
+          .forEach(backup => kept.add(backup.id));
+
+        for (const id of [...kept]) {
+          let current = manifest.backups.find(backup => backup.id === id);
+          while (current?.baseBackupId && !kept.has(current.baseBackupId)) {
+            kept.add(current.baseBackupId);
+            const baseId: string = current.baseBackupId;
+            current = manifest.backups.find(backup => backup.id === baseId);
+          }
+        }
+
+        const expired = manifest.backups.filter(backup => !kept.has(backup.id));
+        for (const backup of expired) {
+          await this.storage.delete(backup.name);
+        }
+
+        manifest.backups = manifest.backups.filter(backup => kept.has(backup.id));
+
+        return {
+          deleted: expired.map(backup => backup.id),
+          kept: manifest.backups.length,
+        };
+      });
+
+      if (result.deleted.length > 0) {
+        this.observability.info('Backups expirados removidos', {
+          deleted: result.deleted,
+          kept: result.kept,
+        });
+      }
+
+      this.observability.endTrace(traceId);
+
+      return {
+        success: true,
+        data: result,
+        message: `${result.deleted.length} backup(s) removido(s) pela política de retenção`,
+      };
+    } catch (error) {
+      this.observability.error('Erro ao aplicar política de retenção', { error, traceId });
+      this.observability.endTrace(traceId);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
+  /**
+   * Obtém a política de agendamento e as próximas execuções
+   */
+  async getSchedule(): Promise<OperationResult<BackupSchedule>> {
+    try {
+      const backups = await this.withManifest(async manifest => [...manifest.backups]);
+
+      return {
+        success: true,
+        data: {
+          ...this.policy,
+          destination: this.storage.name,
+          nextFullBackup: this.nextRuns.full?.toISOString(),
+          nextIncrementalBackup: this.nextRuns.incremental?.toISOString(),
+          lastBackup: backups[0],
+        },
+      };
+    } catch (error) {
+      this.observability.error('Erro ao obter agendamento de backups', { error });
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Erro desconhecido',
       };
     }
   }
+
+  /**
+   * Inicia os backups agendados (se ativos na política)
+   */
+  startScheduler(): void {
+    if (!this.policy.scheduleEnabled || this.timers.length > 0) {
+      return;
+    }
+
+    this.schedule('full', this.policy.fullIntervalHours);
+
+    if (this.policy.incrementalIntervalHours > 0) {
+      this.schedule('incremental', this.policy.incrementalIntervalHours);
+    }
+
+    this.observability.info('Backups agendados iniciados', {
+      fullIntervalHours: this.policy.fullIntervalHours,
+      incrementalIntervalHours: this.policy.incrementalIntervalHours,
+      destination: this.storage.name,
+    });
+  }
+
+  /**
+   * Para os backups agendados
+   */
+  stopScheduler(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.nextRuns = {};
+  }
+
+  private schedule(type: 'full' | 'incremental', intervalHours: number): void {
+    const interval = intervalHours * HOUR_MS;
+    this.nextRuns[type] = new Date(Date.now() + interval);
+
+    const timer = setInterval(() => {
+      this.nextRuns[type] = new Date(Date.now() + interval);
+      void this.runScheduledBackup(type);
+    }, interval);
+
+    // Não impede o processo de terminar
+    timer.unref();
+    this.timers.push(timer);
+  }
+
+  private async runScheduledBackup(type: 'full' | 'incremental'): Promise<void> {
+    if (this.scheduledRunning) {
+      this.observability.warn('Backup agendado ignorado: execução anterior ainda em curso', { type });
+      return;
+    }
+
+    this.scheduledRunning = true;
+    try {
+      const result = await this.createBackup({ type, description: 'Backup agendado', scheduled: true });
+      if (result.success) {
+        await this.applyRetention();
+      }
+    } finally {
+      this.scheduledRunning = false;
+    }
+  }
+
+  /**
+   * Recolhe os dados a guardar no backup
+   */
+  private async collectData(type: BackupType, since?: Date): Promise<BackupArchive['data']> {
+    const settings = await this.database.settings.getCurrentSettings();
+
+    if (type === 'settings') {
+      return { settings: settings as Record<string, any>, moduleSettings: [], history: [] };
+    }
+
+    const moduleFilters = since ? { updatedAt: { gt: since } } : undefined;
+    const historyFilters = since ? { createdAt: { gt: since } } : undefined;
+
+    const moduleSettings = await this.fetchAll<ModuleSettings>(page =>
+      this.database.moduleSettings.findMany({ page, limit: PAGE_SIZE, sortBy: 'createdAt', sortOrder: 'asc', ...(moduleFilters && { filters: moduleFilters }) })
+    );
+    const history = await this.fetchAll<SettingsHistory>(page =>
+      this.database.history.findMany({ page, limit: PAGE_SIZE, sortBy: 'createdAt', sortOrder: 'asc', ...(historyFilters && { filters: historyFilters }) })
+    );
+
+    const settingsChanged = !since || new Date(settings.updatedAt).getTime() > since.getTime();
+
+    return {
+      settings: settingsChanged ? settings as Record<string, any> : null,
+      moduleSettings: moduleSettings.map(module => ({
+        moduleName: module.moduleName,
+        settingsKey: module.settingsKey,
+        settingsValue: module.settingsValue,
+        description: module.description ?? null,
+        isActive: module.isActive,
+      })),
+      history: history.map(entry => ({
+        id: entry.id,
+        settingsId: entry.settingsId,
+        fieldName: entry.fieldName,
+        oldValue: entry.oldValue ?? null,
+        newValue: entry.newValue ?? null,
+        changedBy: entry.changedBy ?? null,
+        changeReason: entry.changeReason ?? null,
+        createdAt: new Date(entry.createdAt).toISOString(),
+      })),
+    };
+  }
+
+  private async fetchAll<T>(
+    fetchPage: (page: number) => Promise<{ data: T[]; totalPages: number }>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await fetchPage(page);
+      items.push(...result.data);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return items;
+  }
+
+  /**
+   * Lê um ficheiro de backup, verificando checksum e versão do formato
+   * Devolve a mensagem de erro quando o ficheiro não pode ser restaurado
+   */
+  private async readArchive(item: BackupItem): Promise<BackupArchive | string> {
+    if (!(await this.storage.exists(item.name))) {
+      return `Arquivo de backup não encontrado: ${item.name}`;
+    }
+
+    const payload = await this.storage.read(item.name);
+    if (this.checksum(payload) !== item.checksum) {
+      return `Checksum inválido para o backup ${item.id}: o ficheiro foi alterado ou está corrompido`;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse((await gunzipAsync(payload)).toString('utf-8'));
+    } catch {
+      return `Arquivo de backup inválido: ${item.id}`;
+    }
+
+    const schemaVersion = typeof parsed?.schemaVersion === 'number' ? parsed.schemaVersion : 1;
+
+    if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+      return `Versão de backup não suportada: ${schemaVersion} (máximo suportado: ${BACKUP_SCHEMA_VERSION})`;
+    }
+
+    if (schemaVersion === 1) {
+      const legacy = legacyArchiveSchema.safeParse(parsed);
+      if (!legacy.success) {
+        return `Arquivo de backup inválido: ${item.id}`;
+      }
+
+      return {
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        id: item.id,
+        type: 'settings',
+        createdAt: item.createdAt,
+        data: { settings: legacy.data.settings, moduleSettings: [], history: [] },
+      };
+    }
+
+    const archive = backupArchiveSchema.safeParse(parsed);
+    if (!archive.success) {
+      return `Arquivo de backup inválido: ${item.id} (${archive.error.errors.map(e => e.path.join('.')).join(', ')})`;
+    }
+
+    return archive.data;
+  }
+
+  private restorableSettings(settings: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(settings).filter(([key, value]) => value !== undefined && !SETTINGS_METADATA_FIELDS.has(key))
+    );
+  }
+
+  private async restoreModuleSettings(tx: DatabaseTransaction, archive: BackupArchive): Promise<number> {
+    for (const module of archive.data.moduleSettings) {
+      const existing = await tx.moduleSettings.findByModuleAndKey(module.moduleName, module.settingsKey);
+
+      if (existing) {
+        await tx.moduleSettings.update(existing.id, {
+          settingsValue: module.settingsValue,
+          ...(module.description && { description: module.description }),
+          ...(module.isActive !== undefined && { isActive: module.isActive }),
+        });
+      } else {
+        const created = await tx.moduleSettings.create({
+          moduleName: module.moduleName,
+          settingsKey: module.settingsKey,
+          settingsValue: module.settingsValue,
+          ...(module.description && { description: module.description }),
+        });
+
+        if (module.isActive === false) {
+          await tx.moduleSettings.update(created.id, { isActive: false });
+        }
+      }
+    }
+
+    return archive.data.moduleSettings.length;
+  }
+
+  /**
+   * Repõe entradas de histórico em falta, preservando o id e o instante originais
+   */
+  private async restoreHistory(tx: DatabaseTransaction, archive: BackupArchive): Promise<number> {
+    let restored = 0;
+
+    for (const entry of archive.data.history) {
+      if (await tx.history.findById(entry.id)) {
+        continue;
+      }
+
+      await tx.history.create({
+        id: entry.id,
+        settingsId: entry.settingsId,
+        fieldName: entry.fieldName,
+        ...(entry.oldValue != null && { oldValue: entry.oldValue }),
+        ...(entry.newValue != null && { newValue: entry.newValue }),
+        ...(entry.changedBy != null && { changedBy: entry.changedBy }),
+        ...(entry.changeReason != null && { changeReason: entry.changeReason }),
+        createdAt: new Date(entry.createdAt),
+      });
+      restored++;
+    }
+
+    return restored;
+  }
+
+  private async invalidateCache(archives: BackupArchive[]): Promise<void> {
+    if (!this._cache) {
+      return;
+    }
+
+    await this._cache.invalidateSettings();
+
+    const modules = new Set(archives.flatMap(archive => archive.data.moduleSettings.map(module => module.moduleName)));
+    for (const moduleName of modules) {
+      await this._cache.invalidateModuleSettings(moduleName);
+    }
+  }
+
+  /**
+   * Executa uma operação sobre o manifesto, em série com as restantes
+   * O manifesto é sincronizado com o destino: ficheiros antigos sem entrada são importados
+   * e entradas cujo ficheiro desapareceu são descartadas
+   */
+  private withManifest<T>(operation: (manifest: BackupManifest) => Promise<T>): Promise<T> {
+    const run = this.manifestQueue.then(async () => {
+      const manifest = await this.loadManifest();
+      const snapshot = JSON.stringify(manifest.backups);
+
+      const result = await operation(manifest);
+
+      if (JSON.stringify(manifest.backups) !== snapshot) {
+        manifest.backups.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        manifest.updatedAt = new Date().toISOString();
+        await this.storage.write(MANIFEST_KEY, Buffer.from(JSON.stringify(manifest, null, 2)), 'application/json');
+      }
+
+      return result;
+    });
+
+    this.manifestQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async loadManifest(): Promise<BackupManifest> {
+    const manifest: BackupManifest = (await this.storage.exists(MANIFEST_KEY))
+      ? JSON.parse((await this.storage.read(MANIFEST_KEY)).toString('utf-8'))
+      : { updatedAt: new Date().toISOString(), backups: [] };
+
+    const files = new Set((await this.storage.list()).filter(key => BACKUP_FILE_PATTERN.test(key)));
+    const known = new Set(manifest.backups.map(backup => backup.name));
+    const reconciled = manifest.backups.filter(backup => files.has(backup.name));
+    let changed = reconciled.length !== manifest.backups.length;
+
+    for (const name of files) {
+      if (!known.has(name)) {
+        reconciled.push(await this.importLegacyBackup(name));
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      manifest.backups = reconciled.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      manifest.updatedAt = new Date().toISOString();
+      await this.storage.write(MANIFEST_KEY, Buffer.from(JSON.stringify(manifest, null, 2)), 'application/json');
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Regista no manifesto um ficheiro criado antes da existência do manifesto
+   */
+  private async importLegacyBackup(name: string): Promise<BackupItem> {
+    const payload = await this.storage.read(name);
+    let parsed: any = {};
+    try {
+      parsed = JSON.parse((await gunzipAsync(payload)).toString('utf-8'));
+    } catch {
+      // Ficheiro ilegível: fica listado, mas a restauração será recusada
+    }
+
+    const type = (name.match(BACKUP_FILE_PATTERN)?.[1] || 'settings') as BackupType;
+    const schemaVersion = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 1;
+
+    return {
+      id: schemaVersion === 1 ? name.replace('.json.gz', '') : parsed.id,
+      name,
+      size: this.formatSize(payload.length),
+      sizeBytes: payload.length,
+      createdAt: parsed.createdAt || new Date(0).toISOString(),
+      type: schemaVersion === 1 ? 'settings' : type,
+      description: parsed.description,
+      createdBy: parsed.createdBy ?? parsed.metadata?.createdBy,
+      checksum: this.checksum(payload),
+      schemaVersion,
+      baseBackupId: parsed.baseBackupId,
+      since: parsed.since,
+      counts: {
+        settings: parsed.data?.settings || parsed.settings ? 1 : 0,
+        moduleSettings: parsed.data?.moduleSettings?.length || 0,
+        history: parsed.data?.history?.length || 0,
+      },
+      scheduled: false,
+      destination: this.storage.name,
+    };
+  }
+
+  private checksum(payload: Buffer): string {
+    return createHash('sha256').update(payload).digest('hex');
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(2)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  }
 }
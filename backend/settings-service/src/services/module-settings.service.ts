@@ -1,5 +1,24 @@
 import { CacheManager, DatabaseConnection, ObservabilityManager, SettingsValidator } from '@/interfaces/database.interface';
-import { CreateModuleSettingsRequest, ModuleSettings, OperationResult, PaginatedResult, RequestContext, SearchOptions, UpdateModuleSettingsRequest } from '@/types/settings';
+import { CreateModuleSettingsRequest, ModuleSettings, ModuleSettingsSchema, OperationResult, PaginatedResult, RegisterModuleSchemaRequest, RequestContext, ResolvedModuleSettings, SearchOptions, UpdateModuleSettingsRequest } from '@/types/settings';
+import { createHash } from 'crypto';
+
+/**
+ * ETag das configurações efetivas de um módulo (independente da ordem das chaves).
+ * Os serviços fazem polling com If-None-Match para recarregar apenas quando algo muda.
+ */
+export function computeModuleSettingsETag(settings: Record<string, any>): string {
+  return `"${createHash('sha1').update(stableStringify(settings)).digest('hex')}"`;
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
 
 /**
  * Serviço de configurações de módulo
@@ -71,8 +90,12 @@ export class ModuleSettingsService {
 
       this.observability.recordCacheMiss(`module:${moduleName}`);
       
-      // Obter do banco de dados
-      settings = await this.database.moduleSettings.getModuleSettings(moduleName);
+      // Obter do banco de dados, completando com os valores por omissão do schema registado
+      const [stored, registration] = await Promise.all([
+        this.database.moduleSettings.getModuleSettings(moduleName),
+        this.database.moduleSchemas.findByModule(moduleName),
+      ]);
+      settings = { ...(registration?.defaults || {}), ...stored };
       
       // Armazenar no cache
       await this.cache.setModuleSettings(moduleName, settings);
@@ -94,6 +117,28 @@ export class ModuleSettingsService {
     }
   }
 
+  /**
+   * Obtém as configurações efetivas de um módulo acompanhadas do respetivo ETag
+   */
+  async getResolvedModuleSettings(moduleName: string): Promise<OperationResult<ResolvedModuleSettings>> {
+    const result = await this.getModuleSettings(moduleName);
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error || 'Configurações do módulo não encontradas',
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        settings: result.data,
+        etag: computeModuleSettingsETag(result.data),
+      },
+    };
+  }
+
   /**
    * Atualiza configurações de um módulo
    */
@@ -106,7 +151,7 @@ export class ModuleSettingsService {
     
     try {
       // Validar configurações do módulo
-      const validation = await this.validator.validateModuleSettings(moduleName, settings);
+      const validation = await this.validateModuleChanges(moduleName, settings);
       if (!validation.valid) {
         this.observability.warn('Validação de configurações de módulo falhou', { 
           moduleName, 
@@ -128,11 +173,8 @@ export class ModuleSettingsService {
         context?.userId
       );
 
-      // Invalidar cache
+      // Invalidar cache (a próxima leitura junta valores guardados e valores por omissão)
       await this.cache.invalidateModuleSettings(moduleName);
-      
-      // Armazenar nova versão no cache
-      await this.cache.setModuleSettings(moduleName, settings);
 
       // Registrar métricas
       this.observability.recordModuleSettingsUpdate(moduleName, context?.userId);
@@ -195,7 +237,7 @@ export class ModuleSettingsService {
       }
 
       // Validar configuração específica
-      const validation = await this.validator.validateModuleSettings(
+      const validation = await this.validateModuleChanges(
         data.moduleName,
         { [data.settingsKey]: data.settingsValue }
       );
@@ -275,7 +317,7 @@ export class ModuleSettingsService {
 
       // Validar se os dados estão sendo atualizados
       if (data.settingsValue !== undefined) {
-        const validation = await this.validator.validateModuleSettings(
+        const validation = await this.validateModuleChanges(
           existing.moduleName,
           { [existing.settingsKey]: data.settingsValue }
         );
@@ -447,6 +489,126 @@ export class ModuleSettingsService {
     }
   }
 
+  /**
+   * Regista (ou atualiza) o schema e os valores por omissão das configurações de um módulo
+   */
+  async registerModuleSchema(
+    moduleName: string,
+    data: RegisterModuleSchemaRequest,
+    context?: RequestContext
+  ): Promise<OperationResult<ModuleSettingsSchema>> {
+    const traceId = this.observability.startTrace('register_module_schema');
+
+    try {
+      if (!data.schema || data.schema.type !== 'object') {
+        this.observability.endTrace(traceId);
+
+        return {
+          success: false,
+          error: 'Dados inválidos',
+          message: 'O schema deve descrever um objeto (type: "object")',
+        };
+      }
+
+      // Os valores por omissão têm de respeitar o próprio schema
+      const validation = await this.validator.validateJsonSchema(data.defaults || {}, data.schema);
+      if (!validation.valid) {
+        this.observability.warn('Schema de módulo rejeitado', {
+          moduleName,
+          service: data.service,
+          errors: validation.errors,
+        });
+        this.observability.endTrace(traceId);
+
+        return {
+          success: false,
+          error: 'Dados inválidos',
+          message: validation.errors.join(', '),
+        };
+      }
+
+      const registration = await this.database.moduleSchemas.upsert(moduleName, {
+        ...data,
+        defaults: data.defaults || {},
+      });
+
+      // Os valores por omissão fazem parte das configurações efetivas
+      await this.cache.invalidateModuleSettings(moduleName);
+
+      this.observability.info('Schema de configurações de módulo registado', {
+        moduleName,
+        service: data.service,
+        version: registration.version,
+        userId: context?.userId,
+      });
+
+      this.observability.endTrace(traceId);
+
+      return {
+        success: true,
+        data: registration,
+        message: 'Schema de módulo registado com sucesso',
+      };
+    } catch (error) {
+      this.observability.error('Erro ao registar schema de módulo', { error, moduleName, traceId });
+      this.observability.endTrace(traceId);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
+  /**
+   * Lista os schemas registados (usados pelo painel para gerar os formulários)
+   */
+  async listModuleSchemas(): Promise<OperationResult<ModuleSettingsSchema[]>> {
+    try {
+      const schemas = await this.database.moduleSchemas.findAll();
+
+      return {
+        success: true,
+        data: schemas,
+      };
+    } catch (error) {
+      this.observability.error('Erro ao listar schemas de módulo', { error });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
+  /**
+   * Obtém o schema registado para um módulo
+   */
+  async getModuleSchema(moduleName: string): Promise<OperationResult<ModuleSettingsSchema>> {
+    try {
+      const schema = await this.database.moduleSchemas.findByModule(moduleName);
+
+      if (!schema) {
+        return {
+          success: false,
+          error: 'Schema não encontrado',
+        };
+      }
+
+      return {
+        success: true,
+        data: schema,
+      };
+    } catch (error) {
+      this.observability.error('Erro ao obter schema de módulo', { error, moduleName });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
   /**
    * Obtém uma configuração específica de módulo
    */
@@ -472,4 +634,31 @@ export class ModuleSettingsService {
       };
     }
   }
+
+  /**
+   * Valida alterações contra o schema registado pelo serviço dono do módulo.
+   * Módulos sem schema registado continuam a usar os schemas embutidos no validador.
+   */
+  private async validateModuleChanges(
+    moduleName: string,
+    changes: Record<string, any>
+  ): Promise<{ valid: boolean; errors: string[] }> {
+    const registration = await this.database.moduleSchemas.findByModule(moduleName);
+
+    if (!registration) {
+      return this.validator.validateModuleSettings(moduleName, changes);
+    }
+
+    // Valida o objeto completo resultante, ignorando chaves antigas que o schema já não declara
+    const current = await this.database.moduleSettings.getModuleSettings(moduleName);
+    const declared = registration.schema.properties as Record<string, unknown> | undefined;
+    const base = declared
+      ? Object.fromEntries(Object.entries(current).filter(([key]) => key in declared))
+      : current;
+
+    return this.validator.validateJsonSchema(
+      { ...registration.defaults, ...base, ...changes },
+      registration.schema
+    );
+  }
 }
@@ -1,5 +1,31 @@
 import { DatabaseConnection, ObservabilityManager } from '@/interfaces/database.interface';
-import { OperationResult, PaginatedResult, SearchOptions, SettingsHistory } from '@/types/settings';
+import { SettingsService } from '@/services/settings.service';
+import {
+  OperationResult,
+  PaginatedResult,
+  RequestContext,
+  RevertSettingsResult,
+  SearchOptions,
+  SettingsFieldChange,
+  SettingsHistory,
+  SettingsHistoryDiff,
+  SettingsSnapshot,
+  SystemSettings,
+  UpdateSettingsRequest,
+  serializeHistoryValue,
+} from '@/types/settings';
+
+// Campos guardados em JSON no histórico
+const JSON_FIELDS = new Set(['socialLinks', 'businessHours', 'businessConfig']);
+
+// Campos booleanos (entradas antigas guardavam false como string vazia)
+const BOOLEAN_FIELDS = new Set(['maintenanceMode']);
+
+// Metadados que não se revertem
+const METADATA_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'updatedBy']);
+
+// Limite de entradas lidas para reconstruir versões e exportar
+const MAX_HISTORY_ENTRIES = 10000;
 
 /**
  * Serviço de histórico de configurações
@@ -8,11 +34,13 @@ import { OperationResult, PaginatedResult, SearchOptions, SettingsHistory } from
 export class SettingsHistoryService {
   private _database?: DatabaseConnection;
   private _observability?: ObservabilityManager;
+  private _settingsService?: SettingsService;
 
   constructor(
     private dependencyConfig: {
       database: DatabaseConnection;
       observability: ObservabilityManager;
+      settingsService: SettingsService;
     }
   ) {}
 
@@ -31,6 +59,13 @@ export class SettingsHistoryService {
     return this._observability;
   }
 
+  private get settingsService(): SettingsService {
+    if (!this._settingsService) {
+      this._settingsService = this.dependencyConfig.settingsService;
+    }
+    return this._settingsService;
+  }
+
   /**
    * Obtém histórico de alterações das configurações principais
    */
@@ -187,35 +222,27 @@ export class SettingsHistoryService {
     changesByField: Record<string, number>;
     changesByUser: Record<string, number>;
     changesByMonth: Record<string, number>;
-    lastChange?: Date;
+    lastChange?: Date | undefined;
   }>> {
     const traceId = this.observability.startTrace('get_history_stats');
     
     try {
       // Obter todas as alterações (limitado para performance)
       const allHistory = await this.database.history.findMany({
-        limit: 10000, // Limite para evitar sobrecarga
+        limit: MAX_HISTORY_ENTRIES, // Limite para evitar sobrecarga
         sortBy: 'createdAt',
         sortOrder: 'desc',
       });
 
-      if (!allHistory.data || allHistory.data.length === 0) {
-        this.observability.endTrace(traceId);
-        return {
-          success: false,
-          error: 'Erro ao obter histórico',
-        };
-      }
-
-      const history = allHistory.data;
+      const history = allHistory.data || [];
       
-      // Calcular estatísticas
+      // Calcular estatísticas (histórico vazio devolve contadores a zero)
       const stats = {
-        totalChanges: history.length,
+        totalChanges: allHistory.total,
         changesByField: {} as Record<string, number>,
         changesByUser: {} as Record<string, number>,
         changesByMonth: {} as Record<string, number>,
-        lastChange: history.length > 0 ? history[0]!.createdAt : new Date(),
+        lastChange: history.length > 0 ? history[0]!.createdAt : undefined,
       };
 
       for (const entry of history) {
@@ -293,18 +320,10 @@ export class SettingsHistoryService {
     try {
       const searchOptions: SearchOptions = {
         ...options,
-        limit: 10000, // Limite para exportação
+        limit: MAX_HISTORY_ENTRIES, // Limite para exportação
       };
 
       const result = await this.database.history.findMany(searchOptions);
-      
-      if (!result.data || result.data.length === 0) {
-        this.observability.endTrace(traceId);
-        return {
-          success: false,
-          error: 'Erro ao obter dados para exportação',
-        };
-      }
 
       this.observability.info('Histórico exportado com sucesso', {
         recordCount: result.data.length,
@@ -371,4 +390,315 @@ export class SettingsHistoryService {
       data: result.data.data,
     };
   }
+
+  /**
+   * Reconstrói as configurações tal como estavam num instante
+   */
+  async getSettingsAt(at: Date): Promise<OperationResult<SettingsSnapshot>> {
+    const traceId = this.observability.startTrace('get_settings_at');
+    
+    try {
+      const snapshot = await this.buildSnapshot(at);
+
+      this.observability.endTrace(traceId);
+      
+      return {
+        success: true,
+        data: snapshot,
+      };
+    } catch (error) {
+      this.observability.error('Erro ao reconstruir configurações', { error, at, traceId });
+      this.observability.endTrace(traceId);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
+  /**
+   * Obtém as diferenças entre dois instantes
+   * Inclui apenas os campos cujo valor final difere do inicial, e as entradas do intervalo
+   */
+  async getHistoryDiff(from: Date, to: Date): Promise<OperationResult<SettingsHistoryDiff>> {
+    const traceId = this.observability.startTrace('get_history_diff');
+    
+    try {
+      if (from.getTime() > to.getTime()) {
+        this.observability.endTrace(traceId);
+        return {
+          success: false,
+          error: 'Intervalo inválido',
+          message: 'A data inicial deve ser anterior à data final',
+        };
+      }
+
+      const entries = await this.findEntriesAfter(from, to);
+      const fields = new Map<string, { first: SettingsHistory; last: SettingsHistory }>();
+
+      for (const entry of entries) {
+        const field = fields.get(entry.fieldName);
+        if (field) {
+          field.last = entry;
+        } else {
+          fields.set(entry.fieldName, { first: entry, last: entry });
+        }
+      }
+
+      const changes: SettingsFieldChange[] = [];
+      for (const [field, { first, last }] of fields) {
+        if (first.oldValue === last.newValue) {
+          continue;
+        }
+
+        changes.push({
+          field,
+          from: this.displayValue(field, first.oldValue),
+          to: this.displayValue(field, last.newValue),
+        });
+      }
+
+      this.observability.endTrace(traceId);
+      
+      return {
+        success: true,
+        data: {
+          from,
+          to,
+          changes,
+          entries,
+        },
+      };
+    } catch (error) {
+      this.observability.error('Erro ao comparar versões das configurações', { error, from, to, traceId });
+      this.observability.endTrace(traceId);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
+  /**
+   * Reverte as configurações para o estado num instante (ou logo após uma entrada do histórico)
+   * Os valores são aplicados pelo SettingsService, ficando a própria reversão registada no histórico
+   */
+  async revertTo(
+    target: { at?: Date | undefined; historyId?: string | undefined },
+    context?: RequestContext,
+    reason?: string
+  ): Promise<OperationResult<RevertSettingsResult>> {
+    const traceId = this.observability.startTrace('revert_settings');
+    
+    try {
+      let at = target.at;
+
+      if (target.historyId) {
+        const entry = await this.database.history.findById(target.historyId);
+        if (!entry) {
+          this.observability.endTrace(traceId);
+          return {
+            success: false,
+            error: 'Entrada de histórico não encontrada',
+          };
+        }
+        at = entry.createdAt;
+      }
+
+      if (!at) {
+        this.observability.endTrace(traceId);
+        return {
+          success: false,
+          error: 'Versão a reverter não indicada',
+        };
+      }
+
+      const [snapshot, current] = await Promise.all([
+        this.buildSnapshot(at),
+        this.database.settings.getCurrentSettings(),
+      ]);
+
+      const data: Record<string, unknown> = {};
+      const skippedFields = [...snapshot.unknownFields];
+
+      for (const [field, value] of Object.entries(snapshot.settings)) {
+        const currentValue = current[field as keyof SystemSettings];
+        if (serializeHistoryValue(value) === serializeHistoryValue(currentValue)) {
+          continue;
+        }
+
+        // A validação não permite limpar campos, pelo que valores vazios não são repostos
+        if (value === null || value === undefined) {
+          skippedFields.push(field);
+          continue;
+        }
+
+        data[field] = value;
+      }
+
+      const changedFields = Object.keys(data);
+
+      if (changedFields.length === 0) {
+        this.observability.endTrace(traceId);
+        return {
+          success: true,
+          data: { settings: current, revertedTo: at, changedFields, skippedFields },
+          message: 'As configurações já correspondem à versão selecionada',
+        };
+      }
+
+      const changeReason = `Revert to ${at.toISOString()}${reason ? `: ${reason}` : ''}`;
+      const result = await this.settingsService.updateSettings(
+        data as UpdateSettingsRequest,
+        context,
+        changeReason
+      );
+
+      if (!result.success) {
+        this.observability.endTrace(traceId);
+        return {
+          success: false,
+          error: result.error || 'Erro ao reverter configurações',
+          ...(result.message && { message: result.message }),
+        };
+      }
+
+      this.observability.info('Configurações revertidas com sucesso', {
+        revertedTo: at,
+        changedFields,
+        skippedFields,
+        userId: context?.userId,
+      });
+      
+      this.observability.endTrace(traceId);
+      
+      return {
+        success: true,
+        data: { settings: result.data!, revertedTo: at, changedFields, skippedFields },
+        message: 'Configurações revertidas com sucesso',
+      };
+    } catch (error) {
+      this.observability.error('Erro ao reverter configurações', { error, target, traceId });
+      this.observability.endTrace(traceId);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+
+  /**
+   * Converte entradas do histórico para CSV
+   */
+  formatHistoryCsv(entries: SettingsHistory[]): string {
+    const columns = ['id', 'fieldName', 'oldValue', 'newValue', 'changedBy', 'changeReason', 'createdAt'] as const;
+    const escape = (value: unknown): string => {
+      const text = value instanceof Date ? value.toISOString() : String(value ?? '');
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = entries.map(entry => columns.map(column => escape(entry[column])).join(','));
+    return [columns.join(','), ...lines].join('\n');
+  }
+
+  /**
+   * Parte das configurações atuais e desfaz as alterações posteriores ao instante
+   */
+  private async buildSnapshot(at: Date): Promise<SettingsSnapshot> {
+    const [current, laterEntries] = await Promise.all([
+      this.database.settings.getCurrentSettings(),
+      this.findEntriesAfter(at),
+    ]);
+
+    const settings: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(current)) {
+      if (!METADATA_FIELDS.has(field)) {
+        settings[field] = value;
+      }
+    }
+
+    const unknownFields: string[] = [];
+    const restored = new Set<string>();
+
+    // A primeira alteração após o instante guarda o valor que vigorava nesse instante
+    for (const entry of laterEntries) {
+      if (restored.has(entry.fieldName) || METADATA_FIELDS.has(entry.fieldName)) {
+        continue;
+      }
+      restored.add(entry.fieldName);
+
+      const decoded = this.decodeValue(entry.fieldName, entry.oldValue);
+      if (decoded.recoverable) {
+        settings[entry.fieldName] = decoded.value;
+      } else {
+        delete settings[entry.fieldName];
+        unknownFields.push(entry.fieldName);
+      }
+    }
+
+    return {
+      at,
+      settings: settings as Partial<SystemSettings>,
+      unknownFields,
+    };
+  }
+
+  /**
+   * Entradas posteriores a um instante (até outro, se indicado), da mais antiga para a mais recente
+   */
+  private async findEntriesAfter(after: Date, until?: Date): Promise<SettingsHistory[]> {
+    const result = await this.database.history.findMany({
+      limit: MAX_HISTORY_ENTRIES,
+      sortBy: 'createdAt',
+      sortOrder: 'asc',
+      filters: {
+        settingsId: 'singleton',
+        createdAt: {
+          gt: after,
+          ...(until && { lte: until }),
+        },
+      },
+    });
+
+    return result.data;
+  }
+
+  /**
+   * Converte o valor guardado no histórico para o tipo do campo
+   * Entradas antigas de objetos foram guardadas como "[object Object]" e não são recuperáveis
+   */
+  private decodeValue(fieldName: string, raw: string | null | undefined): { value: unknown; recoverable: boolean } {
+    if (raw === null || raw === undefined) {
+      return { value: null, recoverable: true };
+    }
+
+    if (BOOLEAN_FIELDS.has(fieldName)) {
+      return { value: raw === 'true', recoverable: true };
+    }
+
+    if (JSON_FIELDS.has(fieldName)) {
+      if (raw === '') {
+        return { value: null, recoverable: true };
+      }
+
+      try {
+        return { value: JSON.parse(raw), recoverable: true };
+      } catch {
+        return { value: undefined, recoverable: false };
+      }
+    }
+
+    return { value: raw === '' ? null : raw, recoverable: true };
+  }
+
+  /**
+   * Valor para apresentação: o valor decodificado, ou o texto original se não for recuperável
+   */
+  private displayValue(fieldName: string, raw: string | null | undefined): unknown {
+    const decoded = this.decodeValue(fieldName, raw);
+    return decoded.recoverable ? decoded.value : raw;
+  }
 }
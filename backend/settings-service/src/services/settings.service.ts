@@ -1,5 +1,5 @@
 import { CacheManager, DatabaseConnection, ObservabilityManager, SettingsValidator } from '@/interfaces/database.interface';
-import { OperationResult, RequestContext, SystemSettings, UpdateSettingsRequest } from '@/types/settings';
+import { MaintenanceStatus, OperationResult, RequestContext, SystemSettings, UpdateSettingsRequest } from '@/types/settings';
 
 /**
  * Serviço principal de configurações
@@ -98,10 +98,12 @@ export class SettingsService {
 
   /**
    * Atualiza as configurações do sistema
+   * O motivo fica registado no histórico de cada campo alterado
    */
   async updateSettings(
     data: UpdateSettingsRequest,
-    context?: RequestContext
+    context?: RequestContext,
+    changeReason?: string
   ): Promise<OperationResult<SystemSettings>> {
     const traceId = this.observability.startTrace('update_settings');
     
@@ -122,7 +124,8 @@ export class SettingsService {
       // Atualizar no banco de dados
       const updatedSettings = await this.database.settings.updateSettings(
         data,
-        context?.userId
+        context?.userId,
+        changeReason
       );
 
       // Invalidar cache
@@ -209,6 +212,29 @@ export class SettingsService {
     }
   }
 
+  /**
+   * Obtém o estado de manutenção (consultado pelo API Gateway)
+   */
+  async getMaintenanceStatus(): Promise<OperationResult<MaintenanceStatus>> {
+    const result = await this.getCurrentSettings();
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error || 'Configurações não encontradas',
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        maintenanceMode: result.data.maintenanceMode,
+        maintenanceMessage: result.data.maintenanceMessage || null,
+        updatedAt: result.data.updatedAt,
+      },
+    };
+  }
+
   /**
    * Valida configurações sem salvá-las
    */
@@ -92,6 +92,60 @@ export interface SettingsHistory {
   createdAt: Date;
 }
 
+// Estado de manutenção exposto ao API Gateway e ao frontend
+export interface MaintenanceStatus {
+  maintenanceMode: boolean;
+  maintenanceMessage: string | null;
+  updatedAt: Date;
+}
+
+// Estado das configurações num instante do histórico
+export interface SettingsSnapshot {
+  at: Date;
+  settings: Partial<SystemSettings>;
+  // Campos cujo valor nesse instante não pode ser reconstruído (entradas antigas sem serialização)
+  unknownFields: string[];
+}
+
+// Diferença entre dois instantes do histórico
+export interface SettingsFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SettingsHistoryDiff {
+  from: Date;
+  to: Date;
+  changes: SettingsFieldChange[];
+  entries: SettingsHistory[];
+}
+
+// Reversão para uma versão anterior
+export interface RevertSettingsRequest {
+  at?: string;
+  historyId?: string;
+  reason?: string;
+}
+
+export interface RevertSettingsResult {
+  settings: SystemSettings;
+  revertedTo: Date;
+  changedFields: string[];
+  skippedFields: string[];
+}
+
+/**
+ * Serializa um valor de configuração para o histórico
+ * Strings são guardadas tal como estão; restantes tipos em JSON
+ */
+export function serializeHistoryValue(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
 // Configurações de módulo
 export interface ModuleSettings {
   id: string;
@@ -105,6 +159,26 @@ export interface ModuleSettings {
   updatedBy?: string;
 }
 
+// Schema registado por um serviço para as configurações do seu módulo
+export interface ModuleSettingsSchema {
+  id: string;
+  moduleName: string;
+  service: string;
+  version: string;
+  description?: string;
+  schema: Record<string, any>;
+  defaults: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Configurações efetivas de um módulo (valores por omissão + valores guardados)
+export interface ResolvedModuleSettings {
+  settings: Record<string, any>;
+  etag: string;
+  schemaVersion?: string;
+}
+
 // DTOs para requisições
 export interface UpdateSettingsRequest {
   brandName?: string;
@@ -141,6 +215,14 @@ export interface UpdateModuleSettingsRequest {
   isActive?: boolean;
 }
 
+export interface RegisterModuleSchemaRequest {
+  service: string;
+  version?: string;
+  description?: string;
+  schema: Record<string, any>;
+  defaults: Record<string, any>;
+}
+
 // Respostas da API
 export interface SettingsResponse {
   success: boolean;
@@ -6,6 +6,9 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     setupFiles: ['./src/__tests__/setup.ts'],
+    env: {
+      INTERNAL_API_KEY: 'test-internal-key',
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],
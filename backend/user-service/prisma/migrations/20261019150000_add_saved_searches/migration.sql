@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "public"."AlertFrequency" AS ENUM ('INSTANT', 'DAILY');
+
+-- CreateEnum
+CREATE TYPE "public"."AlertMatchType" AS ENUM ('NEW_LISTING', 'PRICE_DROP');
+
+-- CreateTable
+CREATE TABLE "public"."saved_searches" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT,
+    "location" TEXT,
+    "propertyType" TEXT,
+    "status" TEXT,
+    "minPrice" DECIMAL(65,30),
+    "maxPrice" DECIMAL(65,30),
+    "minBedrooms" INTEGER,
+    "maxBedrooms" INTEGER,
+    "minBathrooms" INTEGER,
+    "minArea" DECIMAL(65,30),
+    "maxArea" DECIMAL(65,30),
+    "notifyNewListings" BOOLEAN NOT NULL DEFAULT true,
+    "notifyPriceDrops" BOOLEAN NOT NULL DEFAULT true,
+    "frequency" "public"."AlertFrequency" NOT NULL DEFAULT 'DAILY',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."saved_search_matches" (
+    "id" TEXT NOT NULL,
+    "savedSearchId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "propertyTitle" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "matchType" "public"."AlertMatchType" NOT NULL,
+    "price" DECIMAL(65,30) NOT NULL,
+    "previousPrice" DECIMAL(65,30),
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "saved_search_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."alert_matcher_state" (
+    "id" TEXT NOT NULL,
+    "watermark" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_matcher_state_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_userId_idx" ON "public"."saved_searches"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "saved_search_matches_savedSearchId_propertyId_matchType_price_key" ON "public"."saved_search_matches"("savedSearchId", "propertyId", "matchType", "price");
+
+-- CreateIndex
+CREATE INDEX "saved_search_matches_savedSearchId_notifiedAt_idx" ON "public"."saved_search_matches"("savedSearchId", "notifiedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."saved_searches" ADD CONSTRAINT "saved_searches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."saved_search_matches" ADD CONSTRAINT "saved_search_matches_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "public"."saved_searches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,272 @@
+import type { CreateSavedSearchMatchData, SavedSearchWithOwner } from '@/interfaces/database.interface';
+import type { EmailMessage, PropertyChange } from '@/interfaces/external-services.interface';
+import { matchesSavedSearch, SavedSearchAlertsService } from '@/services/saved-search-alerts.service';
+import type { SavedSearch, SavedSearchMatch } from '@/types/user';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Alertas das pesquisas guardadas - SEM BASE DE DADOS
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+function savedSearch(overrides: Partial<SavedSearch> = {}): SavedSearch {
+  return {
+    id: 'search-1',
+    userId: 'user-1',
+    name: 'T2 em Lisboa',
+    notifyNewListings: true,
+    notifyPriceDrops: true,
+    frequency: 'INSTANT',
+    isActive: true,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  } as SavedSearch;
+}
+
+function propertyChange(overrides: Partial<PropertyChange> = {}): PropertyChange {
+  return {
+    id: 'property-1',
+    title: 'Apartamento T2 renovado',
+    location: 'São João do Estoril, Cascais',
+    description: 'Vista mar, próximo da praia',
+    price: 350000,
+    previousPrice: null,
+    status: 'for_sale',
+    type: 'apartment',
+    bedrooms: 2,
+    bathrooms: 1,
+    area: 85,
+    imageUrl: null,
+    changeType: 'new',
+    ...overrides,
+  };
+}
+
+describe('matchesSavedSearch', () => {
+  it('should match searches without criteria', () => {
+    expect(matchesSavedSearch(savedSearch(), propertyChange())).toBe(true);
+  });
+
+  it('should apply inclusive minimum and maximum ranges', () => {
+    const search = savedSearch({ minPrice: 300000, maxPrice: 350000, minBedrooms: 2, maxBedrooms: 3, minArea: 80 });
+
+    expect(matchesSavedSearch(search, propertyChange())).toBe(true);
+    expect(matchesSavedSearch(search, propertyChange({ price: 350001 }))).toBe(false);
+    expect(matchesSavedSearch(search, propertyChange({ price: 299999 }))).toBe(false);
+    expect(matchesSavedSearch(search, propertyChange({ bedrooms: 4 }))).toBe(false);
+    expect(matchesSavedSearch(search, propertyChange({ area: 79 }))).toBe(false);
+  });
+
+  it('should accept Prisma Decimal bounds', () => {
+    const search = savedSearch({ maxPrice: { toString: () => '400000', valueOf: () => 400000 } as unknown as number });
+
+    expect(matchesSavedSearch(search, propertyChange())).toBe(true);
+    expect(matchesSavedSearch(search, propertyChange({ price: 450000 }))).toBe(false);
+  });
+
+  it('should not match unknown values against a range', () => {
+    expect(matchesSavedSearch(savedSearch({ minBathrooms: 1 }), propertyChange({ bathrooms: null }))).toBe(false);
+    expect(matchesSavedSearch(savedSearch({ maxArea: 100 }), propertyChange({ area: null }))).toBe(false);
+  });
+
+  it('should filter on status and property type', () => {
+    expect(matchesSavedSearch(savedSearch({ status: 'for_rent' }), propertyChange())).toBe(false);
+    expect(matchesSavedSearch(savedSearch({ propertyType: 'house' }), propertyChange())).toBe(false);
+    expect(matchesSavedSearch(savedSearch({ status: 'for_sale', propertyType: 'apartment' }), propertyChange())).toBe(true);
+  });
+
+  it('should match the location ignoring accents and case', () => {
+    expect(matchesSavedSearch(savedSearch({ location: 'sao joao' }), propertyChange())).toBe(true);
+    expect(matchesSavedSearch(savedSearch({ location: 'CASCAIS' }), propertyChange())).toBe(true);
+    expect(matchesSavedSearch(savedSearch({ location: 'Sintra' }), propertyChange())).toBe(false);
+  });
+
+  it('should require every query word in the title, description or location', () => {
+    expect(matchesSavedSearch(savedSearch({ query: 'renovado praia' }), propertyChange())).toBe(true);
+    expect(matchesSavedSearch(savedSearch({ query: 'Próximo   ESTORIL' }), propertyChange())).toBe(true);
+    expect(matchesSavedSearch(savedSearch({ query: 'renovado piscina' }), propertyChange())).toBe(false);
+    expect(matchesSavedSearch(savedSearch({ query: 'praia' }), propertyChange({ description: null }))).toBe(false);
+  });
+});
+
+/**
+ * Base de dados em memória com a mesma semântica dos repositórios:
+ * createMany ignora correspondências já registadas (pesquisa, propriedade, tipo)
+ */
+function createDatabase(searches: SavedSearchWithOwner[]) {
+  const state = { watermark: new Date('2026-10-01T00:00:00Z'), lockedUntil: null as Date | null };
+  const matches: SavedSearchMatch[] = [];
+  const notifications: Array<{ userId: string; type: string; title: string }> = [];
+
+  const database = {
+    alertMatcherState: {
+      acquire: vi.fn(async (_id: string, lockedUntil: Date) => {
+        if (state.lockedUntil) return null;
+        state.lockedUntil = lockedUntil;
+        return { id: 'saved-search-alerts', watermark: state.watermark };
+      }),
+      release: vi.fn(async (_id: string, watermark?: Date) => {
+        state.lockedUntil = null;
+        if (watermark) state.watermark = watermark;
+      }),
+    },
+    savedSearches: {
+      findActiveWithAlerts: vi.fn(async () => searches),
+      markNotified: vi.fn(async (id: string, notifiedAt: Date) => {
+        const search = searches.find((candidate) => candidate.id === id);
+        if (search) search.lastNotifiedAt = notifiedAt;
+      }),
+    },
+    savedSearchMatches: {
+      createMany: vi.fn(async (data: CreateSavedSearchMatchData[]) => {
+        let created = 0;
+        for (const match of data) {
+          const exists = matches.some((existing) => existing.savedSearchId === match.savedSearchId
+            && existing.propertyId === match.propertyId
+            && existing.matchType === match.matchType);
+          if (exists) continue;
+          matches.push({ ...match, id: `match-${matches.length + 1}`, createdAt: new Date() } as SavedSearchMatch);
+          created++;
+        }
+        return created;
+      }),
+      findPending: vi.fn(async (savedSearchId: string) => (
+        matches.filter((match) => match.savedSearchId === savedSearchId && !match.notifiedAt)
+      )),
+      markNotified: vi.fn(async (ids: string[], notifiedAt: Date) => {
+        for (const match of matches) {
+          if (ids.includes(match.id)) match.notifiedAt = notifiedAt;
+        }
+      }),
+    },
+    notifications: {
+      create: vi.fn(async (data: { userId: string; type: string; title: string }) => {
+        notifications.push(data);
+        return data;
+      }),
+    },
+    transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(database)),
+  };
+
+  return { database, state, matches, notifications };
+}
+
+function owner(search: SavedSearch): SavedSearchWithOwner {
+  return {
+    ...search,
+    user: { id: search.userId, email: 'ana@example.com', firstName: 'Ana', preferences: null },
+  } as unknown as SavedSearchWithOwner;
+}
+
+describe('SavedSearchAlertsService', () => {
+  const options = { intervalMs: HOUR, digestIntervalMs: 24 * HOUR, siteUrl: 'https://www.neodras.com' };
+  let changes: PropertyChange[];
+  let propertyFeed: { getChanges: ReturnType<typeof vi.fn> };
+  let emailSender: { send: ReturnType<typeof vi.fn> };
+  let sentEmails: EmailMessage[];
+
+  beforeEach(() => {
+    changes = [
+      propertyChange(),
+      propertyChange({ id: 'property-2', title: 'Moradia V4', type: 'house', price: 900000 }),
+    ];
+    propertyFeed = { getChanges: vi.fn(async () => ({ data: changes, nextCursor: null, hasMore: false })) };
+    sentEmails = [];
+    emailSender = { send: vi.fn(async (email: EmailMessage) => { sentEmails.push(email); }) };
+  });
+
+  function createService(database: ReturnType<typeof createDatabase>['database']) {
+    return new SavedSearchAlertsService(database as any, propertyFeed, emailSender, options);
+  }
+
+  it('should notify instant searches of matching listings and advance the watermark', async () => {
+    const { database, state, notifications } = createDatabase([owner(savedSearch({ propertyType: 'apartment' }))]);
+    const now = new Date('2026-10-01T01:00:00Z');
+
+    const result = await createService(database).run(now);
+
+    expect(result).toEqual({ skipped: false, changes: 2, matches: 1, notifiedSearches: 1 });
+    expect(notifications).toEqual([expect.objectContaining({ type: 'NEW_PROPERTY', title: 'Novo imóvel: Apartamento T2 renovado' })]);
+    expect(sentEmails).toHaveLength(1);
+    expect(sentEmails[0]!.to).toBe('ana@example.com');
+    expect(sentEmails[0]!.html).toContain('https://www.neodras.com/property/property-1');
+    expect(state.watermark).toEqual(now);
+  });
+
+  it('should read every page of changes since the watermark', async () => {
+    propertyFeed.getChanges
+      .mockResolvedValueOnce({ data: [changes[0]], nextCursor: 'page-2', hasMore: true })
+      .mockResolvedValueOnce({ data: [changes[1]], nextCursor: null, hasMore: false });
+    const { database } = createDatabase([owner(savedSearch())]);
+    const now = new Date('2026-10-01T01:00:00Z');
+
+    const result = await createService(database).run(now);
+
+    expect(result.matches).toBe(2);
+    expect(propertyFeed.getChanges).toHaveBeenNthCalledWith(1, new Date('2026-10-01T00:00:00Z'), now, undefined);
+    expect(propertyFeed.getChanges).toHaveBeenNthCalledWith(2, new Date('2026-10-01T00:00:00Z'), now, 'page-2');
+  });
+
+  it('should keep the watermark when a run fails and not alert twice when it is repeated', async () => {
+    const { database, state, matches, notifications } = createDatabase([owner(savedSearch())]);
+    const service = createService(database);
+    // The alerts go out, but the run fails before moving the watermark
+    database.alertMatcherState.release.mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(service.run(new Date('2026-10-01T01:00:00Z'))).rejects.toThrow('Connection lost');
+    expect(state.watermark).toEqual(new Date('2026-10-01T00:00:00Z'));
+    expect(notifications).toHaveLength(2);
+    expect(sentEmails).toHaveLength(1);
+
+    // The same changes are read again, but they are already recorded and notified
+    const retry = await service.run(new Date('2026-10-01T02:00:00Z'));
+
+    expect(retry).toMatchObject({ skipped: false, changes: 2, matches: 0, notifiedSearches: 0 });
+    expect(matches).toHaveLength(2);
+    expect(notifications).toHaveLength(2);
+    expect(sentEmails).toHaveLength(1);
+    expect(state.watermark).toEqual(new Date('2026-10-01T02:00:00Z'));
+  });
+
+  it('should deliver matches left pending by a failed delivery exactly once', async () => {
+    const { database, notifications } = createDatabase([owner(savedSearch())]);
+    const service = createService(database);
+    database.transaction.mockRejectedValueOnce(new Error('Deadlock'));
+
+    const failed = await service.run(new Date('2026-10-01T01:00:00Z'));
+    expect(failed).toMatchObject({ matches: 2, notifiedSearches: 0 });
+    expect(notifications).toHaveLength(0);
+
+    changes = [];
+    const retry = await service.run(new Date('2026-10-01T02:00:00Z'));
+
+    expect(retry).toMatchObject({ matches: 0, notifiedSearches: 1 });
+    expect(notifications).toHaveLength(2);
+    expect(sentEmails).toHaveLength(1);
+  });
+
+  it('should hold daily searches until the digest is due', async () => {
+    const search = owner(savedSearch({ frequency: 'DAILY', lastNotifiedAt: new Date('2026-09-30T12:00:00Z') }));
+    const { database, notifications } = createDatabase([search]);
+    const service = createService(database);
+
+    expect((await service.run(new Date('2026-10-01T01:00:00Z'))).notifiedSearches).toBe(0);
+
+    changes = [];
+    expect((await service.run(new Date('2026-10-01T12:00:00Z'))).notifiedSearches).toBe(1);
+    expect(notifications).toEqual([expect.objectContaining({ type: 'PROPERTY_ALERT', title: 'Resumo diário: T2 em Lisboa' })]);
+    expect(sentEmails[0]!.subject).toBe('Resumo diário da pesquisa "T2 em Lisboa"');
+  });
+
+  it('should skip the run while another instance holds the lock', async () => {
+    const { database, state } = createDatabase([owner(savedSearch())]);
+    state.lockedUntil = new Date('2026-10-01T01:10:00Z');
+
+    const result = await createService(database).run(new Date('2026-10-01T01:00:00Z'));
+
+    expect(result.skipped).toBe(true);
+    expect(propertyFeed.getChanges).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,9 @@
 import { PrismaClient } from '@prisma/client';
 import Fastify from 'fastify';
 import { config } from './config';
+import { dependencyConfig } from './config/dependency-config';
 import { errorHandler, notFoundHandler } from './middlewares/error-handler';
+import { SavedSearchAlertsService, scheduleSavedSearchAlerts } from './services/saved-search-alerts.service';
 import { httpLogger, logger, logHelpers } from './utils/logger';
 import { createRequestContext } from './utils/request-context';
 
@@ -139,6 +141,7 @@ export async function createApp() {
           { name: 'Property Interests', description: 'Property interest tracking endpoints' },
           { name: 'Saved Properties', description: 'Saved properties management endpoints' },
           { name: 'Search History', description: 'Search history endpoints' },
+          { name: 'Saved Searches', description: 'Saved searches and property alerts endpoints' },
           { name: 'Notifications', description: 'User notifications endpoints' },
           { name: 'Health', description: 'Health check endpoints' },
         ],
@@ -231,6 +234,22 @@ export async function createApp() {
   const { registerRoutes } = await import('./routes');
   await registerRoutes(app);
 
+  // Saved search alerts (new listings and price drops)
+  if (config.savedSearchAlerts.enabled && !config.isTest) {
+    const alertsService = new SavedSearchAlertsService(
+      dependencyConfig.database,
+      dependencyConfig.propertyFeed,
+      dependencyConfig.emailSender,
+      {
+        intervalMs: config.savedSearchAlerts.intervalMs,
+        digestIntervalMs: config.savedSearchAlerts.digestIntervalMs,
+        siteUrl: config.PUBLIC_SITE_URL,
+      }
+    );
+    const stopAlerts = scheduleSavedSearchAlerts(alertsService, config.savedSearchAlerts.intervalMs);
+    app.addHook('onClose', async () => stopAlerts());
+  }
+
   // Add request context hook globally
   app.addHook('onRequest', async (request, reply) => {
     request.requestContext = createRequestContext(request);
@@ -1,8 +1,11 @@
 import { CacheManager } from '@/interfaces/cache.interface';
 import { DatabaseConnection } from '@/interfaces/database.interface';
+import { EmailSender, PropertyFeed } from '@/interfaces/external-services.interface';
 import { ObservabilityManager } from '@/interfaces/observability.interface';
 
 import { ConsoleObservabilityManager } from '@/implementations/console-observability';
+import { HttpEmailSender } from '@/implementations/http-email-sender';
+import { HttpPropertyFeed } from '@/implementations/http-property-feed';
 import { MemoryCache } from '@/implementations/memory-cache';
 import { PrismaDatabase } from '@/implementations/prisma-database';
 
@@ -19,6 +22,8 @@ export class DependencyConfig {
   private _database?: DatabaseConnection;
   private _cache?: CacheManager;
   private _observability?: ObservabilityManager;
+  private _propertyFeed?: PropertyFeed;
+  private _emailSender?: EmailSender;
 
   private constructor() {}
 
@@ -82,6 +87,33 @@ export class DependencyConfig {
     return this._observability;
   }
 
+  /**
+   * Obtém o feed de alterações de propriedades
+   */
+  get propertyFeed(): PropertyFeed {
+    if (!this._propertyFeed) {
+      this._propertyFeed = new HttpPropertyFeed({
+        baseUrl: config.PROPERTIES_SERVICE_URL,
+        timeoutMs: config.EXTERNAL_REQUEST_TIMEOUT,
+      });
+    }
+    return this._propertyFeed;
+  }
+
+  /**
+   * Obtém o serviço de envio de emails
+   */
+  get emailSender(): EmailSender {
+    if (!this._emailSender) {
+      this._emailSender = new HttpEmailSender({
+        baseUrl: config.MESSAGES_SERVICE_URL,
+        apiKey: config.INTERNAL_API_KEY,
+        timeoutMs: config.EXTERNAL_REQUEST_TIMEOUT,
+      });
+    }
+    return this._emailSender;
+  }
+
   /**
    * Reinicializa todas as dependências (útil para testes)
    */
@@ -89,6 +121,8 @@ export class DependencyConfig {
     this._database = undefined as any;
     this._cache = undefined as any;
     this._observability = undefined as any;
+    this._propertyFeed = undefined as any;
+    this._emailSender = undefined as any;
   }
 
   /**
@@ -98,10 +132,14 @@ export class DependencyConfig {
     database?: DatabaseConnection;
     cache?: CacheManager;
     observability?: ObservabilityManager;
+    propertyFeed?: PropertyFeed;
+    emailSender?: EmailSender;
   }): void {
     if (options.database) this._database = options.database;
     if (options.cache) this._cache = options.cache;
     if (options.observability) this._observability = options.observability;
+    if (options.propertyFeed) this._propertyFeed = options.propertyFeed;
+    if (options.emailSender) this._emailSender = options.emailSender;
   }
 }
 
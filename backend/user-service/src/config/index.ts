@@ -105,6 +105,18 @@ export const config = {
   // External services
   PROPERTIES_SERVICE_URL: process.env.PROPERTIES_SERVICE_URL || 'http://properties:8082',
   AUTH_SERVICE_URL: process.env.AUTH_SERVICE_URL || 'http://auth:8084',
+  MESSAGES_SERVICE_URL: process.env.MESSAGES_SERVICE_URL || 'http://messages:8090',
+  INTERNAL_API_KEY: process.env.INTERNAL_API_KEY || '', // Chave partilhada para chamadas entre serviços
+  EXTERNAL_REQUEST_TIMEOUT: parseInt(process.env.EXTERNAL_REQUEST_TIMEOUT || '10000', 10),
+  PUBLIC_SITE_URL: process.env.PUBLIC_SITE_URL || process.env.API_URL || 'http://localhost:3001',
+  
+  // Saved search alerts
+  savedSearchAlerts: {
+    enabled: process.env.SAVED_SEARCH_ALERTS_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.SAVED_SEARCH_ALERT_INTERVAL_MS || '300000', 10), // 5 minutes
+    digestIntervalMs: parseInt(process.env.SAVED_SEARCH_DIGEST_INTERVAL_MS || '86400000', 10), // 24 hours
+    maxSavedSearchesPerUser: parseInt(process.env.MAX_SAVED_SEARCHES_PER_USER || '20', 10),
+  },
   
   // User service specific
   MAX_PROFILES_PER_PAGE: parseInt(process.env.MAX_PROFILES_PER_PAGE || '50', 10),
@@ -0,0 +1,182 @@
+import { timingSafeEqual } from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import { dependencyConfig } from '../config/dependency-config.js';
+import { config } from '../config/index.js';
+import { createNotificationsSchema, lookupUsersSchema, newUsersQuerySchema, searchRegionsQuerySchema } from '../types/internal.js';
+
+/**
+ * Rotas internas falham fechadas quando não existe chave configurada
+ */
+export function isInternalRequest(request: FastifyRequest): boolean {
+  const expected = config.INTERNAL_API_KEY;
+  const provided = request.headers['x-internal-api-key'];
+
+  if (!expected || typeof provided !== 'string') {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+function sendValidationError(reply: FastifyReply, error: ZodError) {
+  return reply.status(400).send({
+    success: false,
+    error: 'Dados inválidos',
+    code: 'VALIDATION_ERROR',
+    details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+  });
+}
+
+function sendInternalError(reply: FastifyReply) {
+  return reply.status(500).send({
+    success: false,
+    error: 'Erro interno do servidor',
+    code: 'INTERNAL_ERROR'
+  });
+}
+
+/**
+ * Endpoints usados por outros serviços (ex.: comunicações enviadas pelo auth-service)
+ */
+export class InternalController {
+  /**
+   * Perfis por ID, com as opções de contacto de cada utilizador
+   */
+  async lookupUsers(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { ids } = lookupUsersSchema.parse(request.body);
+
+      const profiles = await dependencyConfig.database.userProfiles.findMany({
+        where: { id: { in: ids } },
+      });
+
+      return reply.send({
+        success: true,
+        data: profiles.map(profile => ({
+          id: profile.id,
+          email: profile.email,
+          firstName: profile.firstName,
+          lastName: profile.lastName,
+          isActive: profile.isActive,
+          allowMarketing: profile.allowMarketing,
+          allowNotifications: profile.allowNotifications,
+        }))
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(reply, error);
+      }
+      console.error('Erro ao obter perfis:', error);
+      return sendInternalError(reply);
+    }
+  }
+
+  /**
+   * Cria uma notificação por destinatário e devolve o estado de cada um
+   * Os IDs do auth-service nem sempre coincidem com os perfis, por isso tenta também o email
+   */
+  async createNotifications(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { type, title, data, recipients } = createNotificationsSchema.parse(request.body);
+      const database = dependencyConfig.database;
+
+      const emails = recipients.map(recipient => recipient.email).filter((email): email is string => !!email);
+      const profiles = await database.userProfiles.findMany({
+        where: {
+          OR: [
+            { id: { in: recipients.map(recipient => recipient.userId) } },
+            ...(emails.length > 0 ? [{ email: { in: emails } }] : []),
+          ],
+        },
+      });
+      const byId = new Map(profiles.map(profile => [profile.id, profile]));
+      const byEmail = new Map(profiles.map(profile => [profile.email.toLowerCase(), profile]));
+
+      const results = [];
+      for (const recipient of recipients) {
+        const profile = byId.get(recipient.userId)
+          ?? (recipient.email ? byEmail.get(recipient.email.toLowerCase()) : undefined);
+
+        if (!profile) {
+          results.push({ userId: recipient.userId, status: 'failed', error: 'Perfil de utilizador não encontrado' });
+          continue;
+        }
+
+        if (!profile.allowNotifications) {
+          results.push({ userId: recipient.userId, status: 'skipped', error: 'Notificações desativadas pelo utilizador' });
+          continue;
+        }
+
+        try {
+          const notification = await database.notifications.create({
+            userId: profile.id,
+            type,
+            title,
+            message: recipient.message,
+            ...(data ? { data } : {}),
+          });
+          results.push({ userId: recipient.userId, status: 'sent', notificationId: notification.id });
+        } catch (error) {
+          console.error('Erro ao criar notificação:', error);
+          results.push({ userId: recipient.userId, status: 'failed', error: 'Erro ao criar notificação' });
+        }
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: results
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(reply, error);
+      }
+      console.error('Erro ao criar notificações:', error);
+      return sendInternalError(reply);
+    }
+  }
+
+  /**
+   * Regiões mais pesquisadas no histórico de pesquisas
+   */
+  async getSearchRegions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { from, to, limit } = searchRegionsQuerySchema.parse(request.query);
+      const regions = await dependencyConfig.database.searchHistory.getTopLocations(from, to, limit);
+
+      return reply.send({
+        success: true,
+        data: regions
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(reply, error);
+      }
+      console.error('Erro ao obter regiões pesquisadas:', error);
+      return sendInternalError(reply);
+    }
+  }
+
+  /**
+   * Novos perfis por dia, semana ou mês
+   */
+  async getNewUsers(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { from, to, granularity } = newUsersQuerySchema.parse(request.query);
+      const counts = await dependencyConfig.database.userProfiles.countCreatedPerPeriod(from, to, granularity);
+
+      return reply.send({
+        success: true,
+        data: counts
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(reply, error);
+      }
+      console.error('Erro ao obter novos utilizadores:', error);
+      return sendInternalError(reply);
+    }
+  }
+}
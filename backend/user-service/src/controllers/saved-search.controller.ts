@@ -0,0 +1,205 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import { dependencyConfig } from '../config/dependency-config.js';
+import { config } from '../config/index.js';
+import { createSavedSearchSchema, hasValidRanges, rangeMessage, updateSavedSearchSchema } from '../types/saved-search.js';
+
+/**
+ * Perfil do utilizador autenticado (headers definidos pelo API Gateway)
+ * Os IDs do auth-service nem sempre coincidem com os perfis, por isso tenta também o email
+ */
+async function findCurrentProfile(request: FastifyRequest) {
+  const userId = (request as any).user?.id || request.headers['x-user-id'];
+  const userEmail = (request as any).user?.email || request.headers['x-user-email'];
+
+  if (!userId) {
+    return undefined;
+  }
+
+  let profile = await dependencyConfig.database.userProfiles.findById(String(userId));
+  if (!profile && userEmail) {
+    profile = await dependencyConfig.database.userProfiles.findByEmail(String(userEmail));
+  }
+  return profile ?? null;
+}
+
+// Com exactOptionalPropertyTypes, os campos omitidos não são enviados ao repositório
+function definedFields<T extends object>(data: T) {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+function sendProfileError(reply: FastifyReply, profile: undefined | null) {
+  if (profile === undefined) {
+    return reply.status(401).send({
+      success: false,
+      error: 'Utilizador não autenticado',
+      code: 'UNAUTHORIZED'
+    });
+  }
+  return reply.status(404).send({
+    success: false,
+    error: 'Perfil de utilizador não encontrado',
+    code: 'PROFILE_NOT_FOUND'
+  });
+}
+
+function sendValidationError(reply: FastifyReply, error: ZodError) {
+  return reply.status(400).send({
+    success: false,
+    error: 'Dados da pesquisa inválidos',
+    code: 'VALIDATION_ERROR',
+    details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+  });
+}
+
+function sendInternalError(reply: FastifyReply) {
+  return reply.status(500).send({
+    success: false,
+    error: 'Erro interno do servidor',
+    code: 'INTERNAL_ERROR'
+  });
+}
+
+export class SavedSearchController {
+  async listSavedSearches(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const profile = await findCurrentProfile(request);
+      if (!profile) {
+        return sendProfileError(reply, profile);
+      }
+
+      const savedSearches = await dependencyConfig.database.savedSearches.findByUserId(profile.id);
+
+      return reply.send({
+        success: true,
+        data: savedSearches,
+        message: 'Pesquisas guardadas obtidas com sucesso'
+      });
+    } catch (error) {
+      console.error('Erro ao obter pesquisas guardadas:', error);
+      return sendInternalError(reply);
+    }
+  }
+
+  async createSavedSearch(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const profile = await findCurrentProfile(request);
+      if (!profile) {
+        return sendProfileError(reply, profile);
+      }
+
+      const data = createSavedSearchSchema.parse(request.body);
+
+      const count = await dependencyConfig.database.savedSearches.countByUserId(profile.id);
+      if (count >= config.savedSearchAlerts.maxSavedSearchesPerUser) {
+        return reply.status(409).send({
+          success: false,
+          error: `Limite de ${config.savedSearchAlerts.maxSavedSearchesPerUser} pesquisas guardadas atingido`,
+          code: 'SAVED_SEARCH_LIMIT_REACHED'
+        });
+      }
+
+      const savedSearch = await dependencyConfig.database.savedSearches.create({
+        ...definedFields(data),
+        name: data.name,
+        userId: profile.id,
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: savedSearch,
+        message: 'Pesquisa guardada com sucesso'
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(reply, error);
+      }
+      console.error('Erro ao guardar pesquisa:', error);
+      return sendInternalError(reply);
+    }
+  }
+
+  async updateSavedSearch(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const profile = await findCurrentProfile(request);
+      if (!profile) {
+        return sendProfileError(reply, profile);
+      }
+
+      const { savedSearchId } = request.params as { savedSearchId: string };
+      const data = updateSavedSearchSchema.parse(request.body);
+
+      const existing = await dependencyConfig.database.savedSearches.findById(savedSearchId);
+      if (!existing || existing.userId !== profile.id) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Pesquisa guardada não encontrada',
+          code: 'SAVED_SEARCH_NOT_FOUND'
+        });
+      }
+
+      // Os intervalos são validados com os valores já guardados
+      const merged = { ...existing, ...data };
+      if (!hasValidRanges({
+        minPrice: merged.minPrice == null ? null : Number(merged.minPrice),
+        maxPrice: merged.maxPrice == null ? null : Number(merged.maxPrice),
+        minBedrooms: merged.minBedrooms,
+        maxBedrooms: merged.maxBedrooms,
+        minArea: merged.minArea == null ? null : Number(merged.minArea),
+        maxArea: merged.maxArea == null ? null : Number(merged.maxArea),
+      })) {
+        return reply.status(400).send({
+          success: false,
+          error: rangeMessage.message,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const savedSearch = await dependencyConfig.database.savedSearches.update(savedSearchId, definedFields(data));
+
+      return reply.send({
+        success: true,
+        data: savedSearch,
+        message: 'Pesquisa guardada atualizada com sucesso'
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return sendValidationError(reply, error);
+      }
+      console.error('Erro ao atualizar pesquisa guardada:', error);
+      return sendInternalError(reply);
+    }
+  }
+
+  async deleteSavedSearch(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const profile = await findCurrentProfile(request);
+      if (!profile) {
+        return sendProfileError(reply, profile);
+      }
+
+      const { savedSearchId } = request.params as { savedSearchId: string };
+
+      const existing = await dependencyConfig.database.savedSearches.findById(savedSearchId);
+      if (!existing || existing.userId !== profile.id) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Pesquisa guardada não encontrada',
+          code: 'SAVED_SEARCH_NOT_FOUND'
+        });
+      }
+
+      await dependencyConfig.database.savedSearches.delete(savedSearchId);
+
+      return reply.send({
+        success: true,
+        message: 'Pesquisa guardada eliminada com sucesso'
+      });
+    } catch (error) {
+      console.error('Erro ao eliminar pesquisa guardada:', error);
+      return sendInternalError(reply);
+    }
+  }
+}
@@ -313,23 +313,18 @@ export class UserProfileController {
 
   async getUserStatistics(request: FastifyRequest, reply: FastifyReply) {
     try {
-      // Simplified implementation that doesn't rely on complex where clauses
-      const allUsers = await dependencyConfig.database.userProfiles.findMany({
-        skip: 0,
-        take: 1000,
-        orderBy: { createdAt: 'desc' }
-      });
-      
-      // Calculate statistics in memory to avoid Prisma where clause issues
-      const total = allUsers.length;
-      const active = allUsers.filter(u => u.isActive).length;
-      const inactive = allUsers.filter(u => !u.isActive).length;
-      const verified = allUsers.filter(u => u.isEmailVerified).length;
-      const unverified = allUsers.filter(u => !u.isEmailVerified).length;
-      
-      // Get recent logins (last 30 days)
+      const { userProfiles } = dependencyConfig.database;
+
+      // Counted in the database: the dashboard needs the platform-wide figures, not the first page of profiles
       const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-      const recentLogins = allUsers.filter(u => u.updatedAt > thirtyDaysAgo).length;
+      const [total, active, verified, recentLogins] = await Promise.all([
+        userProfiles.count(),
+        userProfiles.count({ isActive: true }),
+        userProfiles.count({ isEmailVerified: true }),
+        userProfiles.count({ updatedAt: { gt: thirtyDaysAgo } }),
+      ]);
+      const inactive = total - active;
+      const unverified = total - verified;
       
       return reply.status(200).send({
         success: true,
@@ -702,122 +697,6 @@ export class PropertyInterestController {
   }
 }
 
-export class SavedPropertyController {
-  async getUserSavedProperties(request: FastifyRequest, reply: FastifyReply) {
-    try {
-      const userId = (request as any).user?.id || (request as any).params?.userId;
-      
-      if (!userId) {
-        return reply.status(400).send({
-          success: false,
-          error: 'User ID é obrigatório',
-          code: 'MISSING_USER_ID'
-        });
-      }
-
-      const savedProperties = await dependencyConfig.database.savedProperties.findByUserId(userId);
-      
-      return reply.send({
-        success: true,
-        data: savedProperties,
-        message: 'Propriedades guardadas obtidas com sucesso'
-      });
-    } catch (error) {
-      console.error('Erro ao obter propriedades guardadas:', error);
-      return reply.status(500).send({
-        success: false,
-        error: 'Erro interno do servidor',
-        code: 'INTERNAL_ERROR'
-      });
-    }
-  }
-
-  async saveProperty(request: FastifyRequest, reply: FastifyReply) {
-    try {
-      const userId = (request as any).user?.id;
-      const { propertyId, notes } = (request as any).body;
-      
-      if (!userId) {
-        return reply.status(400).send({
-          success: false,
-          error: 'User ID é obrigatório',
-          code: 'MISSING_USER_ID'
-        });
-      }
-
-      if (!propertyId) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Property ID é obrigatório',
-          code: 'MISSING_PROPERTY_ID'
-        });
-      }
-
-      const savedProperties = await dependencyConfig.database.savedProperties.create({
-        userId,
-        propertyId,
-        notes: notes || config.defaults.savedPropertyNotes
-      });
-      
-      return reply.status(201).send({
-        success: true,
-        data: savedProperties,
-        message: 'Propriedade guardada com sucesso'
-      });
-    } catch (error) {
-      console.error('Erro ao guardar propriedade:', error);
-      return reply.status(500).send({
-        success: false,
-        error: 'Erro interno do servidor',
-        code: 'INTERNAL_ERROR'
-      });
-    }
-  }
-
-  async removeSavedProperty(request: FastifyRequest, reply: FastifyReply) {
-    try {
-      const userId = (request as any).user?.id;
-      const { propertyId } = (request as any).params;
-      
-      if (!userId) {
-        return reply.status(400).send({
-          success: false,
-          error: 'User ID é obrigatório',
-          code: 'MISSING_USER_ID'
-        });
-      }
-
-      if (!propertyId) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Property ID é obrigatório',
-          code: 'MISSING_PROPERTY_ID'
-        });
-      }
-
-      // Primeiro encontrar a propriedade guardada pelo userId e propertyId
-      const savedProperties = await dependencyConfig.database.savedProperties.findByUserId(userId);
-      const savedProperty = savedProperties.find(sp => sp.propertyId === propertyId);
-      
-      if (savedProperty) {
-        await dependencyConfig.database.savedProperties.delete(savedProperty.id);
-      }
-      
-      return reply.send({
-        success: true,
-        message: 'Propriedade removida das guardadas com sucesso'
-      });
-    } catch (error) {
-      console.error('Erro ao remover propriedade guardada:', error);
-      return reply.status(500).send({
-        success: false,
-        error: 'Erro interno do servidor',
-        code: 'INTERNAL_ERROR'
-      });
-    }
-  }
-}
-
 export class SearchHistoryController {
   async getUserSearchHistory(request: FastifyRequest, reply: FastifyReply) {
     try {
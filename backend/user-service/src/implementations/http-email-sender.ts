@@ -0,0 +1,28 @@
+import { EmailMessage, EmailSender } from '@/interfaces/external-services.interface';
+
+/**
+ * Envio de emails via messages-service (rota interna, autenticada por chave)
+ */
+export class HttpEmailSender implements EmailSender {
+  constructor(private config: { baseUrl: string; apiKey: string; timeoutMs: number }) {}
+
+  async send(email: EmailMessage): Promise<void> {
+    if (!this.config.apiKey) {
+      throw new Error('INTERNAL_API_KEY is not configured');
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/internal/v1/emails`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey,
+      },
+      body: JSON.stringify(email),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Messages service responded with ${response.status}`);
+    }
+  }
+}
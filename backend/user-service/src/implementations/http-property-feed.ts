@@ -0,0 +1,41 @@
+import {
+  PropertyChangesPage,
+  PropertyFeed,
+} from '@/interfaces/external-services.interface';
+
+/**
+ * Feed de alterações de propriedades via HTTP (properties-service)
+ */
+export class HttpPropertyFeed implements PropertyFeed {
+  constructor(private config: { baseUrl: string; timeoutMs: number; pageSize?: number }) {}
+
+  async getChanges(since: Date, until: Date, cursor?: string): Promise<PropertyChangesPage> {
+    const params = new URLSearchParams({
+      since: since.toISOString(),
+      until: until.toISOString(),
+      limit: String(this.config.pageSize ?? 100),
+    });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/api/v1/properties/changes?${params}`, {
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Properties service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as {
+      data: PropertyChangesPage['data'];
+      pagination: { nextCursor?: string | null; hasMore: boolean };
+    };
+
+    return {
+      data: body.data,
+      nextCursor: body.pagination.nextCursor ?? null,
+      hasMore: body.pagination.hasMore,
+    };
+  }
+}
@@ -7,6 +7,9 @@ import {
   PropertyInterestRepositoryInterface,
   SavedPropertyRepositoryInterface,
   SearchHistoryRepositoryInterface,
+  SavedSearchRepositoryInterface,
+  SavedSearchMatchRepositoryInterface,
+  AlertMatcherStateRepositoryInterface,
   NotificationRepositoryInterface,
   CreateUserProfileData,
   UpdateUserProfileData,
@@ -17,9 +20,13 @@ import {
   CreateSavedPropertyData,
   UpdateSavedPropertyData,
   CreateSearchHistoryData,
+  CreateSavedSearchData,
+  UpdateSavedSearchData,
+  CreateSavedSearchMatchData,
   CreateNotificationData,
   UpdateNotificationData,
   FindManyOptions,
+  StatsGranularity,
 } from '@/interfaces/database.interface';
 
 /**
@@ -80,6 +87,18 @@ export class PrismaDatabase implements DatabaseConnection {
     return new PrismaSearchHistoryRepository(this.prisma);
   }
 
+  get savedSearches(): SavedSearchRepositoryInterface {
+    return new PrismaSavedSearchRepository(this.prisma);
+  }
+
+  get savedSearchMatches(): SavedSearchMatchRepositoryInterface {
+    return new PrismaSavedSearchMatchRepository(this.prisma);
+  }
+
+  get alertMatcherState(): AlertMatcherStateRepositoryInterface {
+    return new PrismaAlertMatcherStateRepository(this.prisma);
+  }
+
   get notifications(): NotificationRepositoryInterface {
     return new PrismaNotificationRepository(this.prisma);
   }
@@ -111,6 +130,18 @@ class PrismaDatabaseTransaction implements DatabaseTransaction {
     return new PrismaSearchHistoryRepository(this.tx);
   }
 
+  get savedSearches(): SavedSearchRepositoryInterface {
+    return new PrismaSavedSearchRepository(this.tx);
+  }
+
+  get savedSearchMatches(): SavedSearchMatchRepositoryInterface {
+    return new PrismaSavedSearchMatchRepository(this.tx);
+  }
+
+  get alertMatcherState(): AlertMatcherStateRepositoryInterface {
+    return new PrismaAlertMatcherStateRepository(this.tx);
+  }
+
   get notifications(): NotificationRepositoryInterface {
     return new PrismaNotificationRepository(this.tx);
   }
@@ -208,6 +239,17 @@ class PrismaUserProfileRepository implements UserProfileRepositoryInterface {
     });
   }
 
+  async countCreatedPerPeriod(from: Date, to: Date, granularity: StatsGranularity) {
+    const rows: Array<{ period: string; count: bigint }> = await this.prisma.$queryRaw`
+      SELECT to_char(date_trunc(${granularity}, "createdAt"), 'YYYY-MM-DD') AS period, COUNT(*) AS count
+      FROM "user_profiles"
+      WHERE "createdAt" >= ${from} AND "createdAt" < ${to}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+    return rows.map(row => ({ period: row.period, count: Number(row.count) }));
+  }
+
   async count(where?: any) {
     return this.prisma.userProfile.count({
       where,
@@ -449,6 +491,161 @@ class PrismaSearchHistoryRepository implements SearchHistoryRepositoryInterface
       distinct: ['query'],
     });
   }
+
+  // Localizações escritas de forma diferente (maiúsculas, espaços) contam como a mesma região
+  async getTopLocations(from: Date, to: Date, limit: number) {
+    const rows: Array<{ region: string; searches: bigint }> = await this.prisma.$queryRaw`
+      SELECT MIN(trim("location")) AS region, COUNT(*) AS searches
+      FROM "search_history"
+      WHERE "location" IS NOT NULL AND trim("location") <> ''
+        AND "createdAt" >= ${from} AND "createdAt" < ${to}
+      GROUP BY lower(trim("location"))
+      ORDER BY searches DESC, region ASC
+      LIMIT ${limit}
+    `;
+    return rows.map(row => ({ region: row.region, searches: Number(row.searches) }));
+  }
+}
+
+/**
+ * Implementação do repositório de pesquisas guardadas
+ */
+class PrismaSavedSearchRepository implements SavedSearchRepositoryInterface {
+  constructor(private prisma: PrismaClient | any) {}
+
+  async findById(id: string) {
+    return this.prisma.savedSearch.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByUserId(userId: string, options?: FindManyOptions) {
+    return this.prisma.savedSearch.findMany({
+      where: { userId },
+      skip: options?.skip,
+      take: options?.take,
+      orderBy: options?.orderBy ?? { createdAt: 'desc' },
+    });
+  }
+
+  async countByUserId(userId: string) {
+    return this.prisma.savedSearch.count({
+      where: { userId },
+    });
+  }
+
+  async create(data: CreateSavedSearchData) {
+    return this.prisma.savedSearch.create({
+      data,
+    });
+  }
+
+  async update(id: string, data: UpdateSavedSearchData) {
+    return this.prisma.savedSearch.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string) {
+    await this.prisma.savedSearch.delete({
+      where: { id },
+    });
+  }
+
+  async findActiveWithAlerts() {
+    return this.prisma.savedSearch.findMany({
+      where: {
+        isActive: true,
+        OR: [{ notifyNewListings: true }, { notifyPriceDrops: true }],
+        user: { isActive: true, allowNotifications: true },
+      },
+      include: {
+        user: { include: { preferences: true } },
+      },
+    });
+  }
+
+  async markNotified(id: string, notifiedAt: Date) {
+    await this.prisma.savedSearch.update({
+      where: { id },
+      data: { lastNotifiedAt: notifiedAt },
+    });
+  }
+}
+
+/**
+ * Implementação do repositório de correspondências de pesquisas guardadas
+ */
+class PrismaSavedSearchMatchRepository implements SavedSearchMatchRepositoryInterface {
+  constructor(private prisma: PrismaClient | any) {}
+
+  async createMany(data: CreateSavedSearchMatchData[]) {
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.savedSearchMatch.createMany({
+      data,
+      skipDuplicates: true,
+    });
+    return result.count;
+  }
+
+  async findPending(savedSearchId: string) {
+    return this.prisma.savedSearchMatch.findMany({
+      where: { savedSearchId, notifiedAt: null },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async markNotified(ids: string[], notifiedAt: Date) {
+    await this.prisma.savedSearchMatch.updateMany({
+      where: { id: { in: ids } },
+      data: { notifiedAt },
+    });
+  }
+}
+
+/**
+ * Implementação do estado do processo de alertas
+ */
+class PrismaAlertMatcherStateRepository implements AlertMatcherStateRepositoryInterface {
+  constructor(private prisma: PrismaClient | any) {}
+
+  async acquire(id: string, lockedUntil: Date, initialWatermark: Date) {
+    await this.prisma.alertMatcherState.createMany({
+      data: [{ id, watermark: initialWatermark }],
+      skipDuplicates: true,
+    });
+
+    // Só uma instância consegue atualizar o lock enquanto não expirar
+    const { count } = await this.prisma.alertMatcherState.updateMany({
+      where: {
+        id,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+      },
+      data: { lockedUntil },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.prisma.alertMatcherState.findUnique({
+      where: { id },
+    });
+  }
+
+  async release(id: string, watermark?: Date) {
+    await this.prisma.alertMatcherState.update({
+      where: { id },
+      data: {
+        lockedUntil: null,
+        ...(watermark ? { watermark } : {}),
+      },
+    });
+  }
 }
 
 /**
@@ -4,7 +4,11 @@ import {
   PropertyInterest, 
   SavedProperty, 
   SearchHistory, 
+  SavedSearch,
+  SavedSearchMatch,
   Notification,
+  AlertFrequency,
+  AlertMatchType,
   Gender,
   ContactMethod,
   ProfileVisibility,
@@ -35,6 +39,9 @@ export interface DatabaseConnection {
   propertyInterests: PropertyInterestRepositoryInterface;
   savedProperties: SavedPropertyRepositoryInterface;
   searchHistory: SearchHistoryRepositoryInterface;
+  savedSearches: SavedSearchRepositoryInterface;
+  savedSearchMatches: SavedSearchMatchRepositoryInterface;
+  alertMatcherState: AlertMatcherStateRepositoryInterface;
   notifications: NotificationRepositoryInterface;
 }
 
@@ -47,6 +54,9 @@ export interface DatabaseTransaction {
   propertyInterests: PropertyInterestRepositoryInterface;
   savedProperties: SavedPropertyRepositoryInterface;
   searchHistory: SearchHistoryRepositoryInterface;
+  savedSearches: SavedSearchRepositoryInterface;
+  savedSearchMatches: SavedSearchMatchRepositoryInterface;
+  alertMatcherState: AlertMatcherStateRepositoryInterface;
   notifications: NotificationRepositoryInterface;
 }
 
@@ -65,6 +75,7 @@ export interface UserProfileRepositoryInterface {
   verifyEmail(id: string): Promise<void>;
   verifyPhone(id: string): Promise<void>;
   updateLastActivity(id: string): Promise<void>;
+  countCreatedPerPeriod(from: Date, to: Date, granularity: StatsGranularity): Promise<PeriodCount[]>; // Períodos sem registos são omitidos
 }
 
 /**
@@ -115,6 +126,39 @@ export interface SearchHistoryRepositoryInterface {
   delete(id: string): Promise<void>;
   deleteOldEntries(olderThan: Date): Promise<number>;
   getPopularSearches(limit?: number): Promise<SearchHistory[]>;
+  getTopLocations(from: Date, to: Date, limit: number): Promise<LocationSearchCount[]>;
+}
+
+/**
+ * Interface para repositório de pesquisas guardadas
+ */
+export interface SavedSearchRepositoryInterface {
+  findById(id: string): Promise<SavedSearch | null>;
+  findByUserId(userId: string, options?: FindManyOptions): Promise<SavedSearch[]>;
+  countByUserId(userId: string): Promise<number>;
+  create(data: CreateSavedSearchData): Promise<SavedSearch>;
+  update(id: string, data: UpdateSavedSearchData): Promise<SavedSearch>;
+  delete(id: string): Promise<void>;
+  findActiveWithAlerts(): Promise<SavedSearchWithOwner[]>;
+  markNotified(id: string, notifiedAt: Date): Promise<void>;
+}
+
+/**
+ * Interface para repositório de correspondências de pesquisas guardadas
+ */
+export interface SavedSearchMatchRepositoryInterface {
+  createMany(data: CreateSavedSearchMatchData[]): Promise<number>; // Ignora correspondências já registadas
+  findPending(savedSearchId: string): Promise<SavedSearchMatch[]>;
+  markNotified(ids: string[], notifiedAt: Date): Promise<void>;
+}
+
+/**
+ * Interface para o estado do processo de alertas (linha única)
+ * O lock evita que duas instâncias do serviço processem a mesma janela
+ */
+export interface AlertMatcherStateRepositoryInterface {
+  acquire(id: string, lockedUntil: Date, initialWatermark: Date): Promise<AlertMatcherState | null>;
+  release(id: string, watermark?: Date): Promise<void>;
 }
 
 /**
@@ -284,6 +328,51 @@ export interface CreateSearchHistoryData {
   searchTime?: number;
 }
 
+export interface CreateSavedSearchData {
+  userId: string;
+  name: string;
+  query?: string;
+  location?: string;
+  propertyType?: string;
+  status?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  minArea?: number;
+  maxArea?: number;
+  notifyNewListings?: boolean;
+  notifyPriceDrops?: boolean;
+  frequency?: AlertFrequency;
+  isActive?: boolean;
+}
+
+// null remove um critério de pesquisa
+export type UpdateSavedSearchData = {
+  [K in keyof Omit<CreateSavedSearchData, 'userId'>]?: CreateSavedSearchData[K] | null;
+};
+
+export interface SavedSearchWithOwner extends SavedSearch {
+  user: UserProfile & { preferences: UserPreferences | null };
+}
+
+export interface CreateSavedSearchMatchData {
+  savedSearchId: string;
+  propertyId: string;
+  propertyTitle: string;
+  location: string;
+  matchType: AlertMatchType;
+  price: number;
+  previousPrice?: number | undefined;
+}
+
+export interface AlertMatcherState {
+  id: string;
+  watermark: Date;
+  lockedUntil?: Date | null;
+}
+
 export interface CreateNotificationData {
   userId: string;
   type: NotificationType;
@@ -301,3 +390,16 @@ export interface UpdateNotificationData {
   sentAt?: Date;
   deliveredAt?: Date;
 }
+
+// Estatísticas para os relatórios da administração (properties-service)
+export type StatsGranularity = 'day' | 'week' | 'month';
+
+export interface PeriodCount {
+  period: string; // Início do período (YYYY-MM-DD, UTC)
+  count: number;
+}
+
+export interface LocationSearchCount {
+  region: string;
+  searches: number;
+}
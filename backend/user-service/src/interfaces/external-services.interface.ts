@@ -0,0 +1,50 @@
+/**
+ * Interfaces para os serviços externos usados pelos alertas de pesquisas guardadas
+ * Permitem trocar o transporte (HTTP, fila, etc.) sem afetar o código de negócio
+ */
+
+/**
+ * Propriedade publicada ou com redução de preço, tal como devolvida pelo properties-service
+ */
+export interface PropertyChange {
+  id: string;
+  title: string;
+  location: string;
+  description: string | null;
+  price: number;
+  previousPrice: number | null;
+  status: string;
+  type: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  area: number | null;
+  imageUrl: string | null;
+  changeType: 'new' | 'price_drop';
+}
+
+export interface PropertyChangesPage {
+  data: PropertyChange[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Interface para o feed de alterações de propriedades
+ */
+export interface PropertyFeed {
+  getChanges(since: Date, until: Date, cursor?: string): Promise<PropertyChangesPage>;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+/**
+ * Interface para envio de emails
+ */
+export interface EmailSender {
+  send(email: EmailMessage): Promise<void>;
+}
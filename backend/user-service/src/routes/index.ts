@@ -1,4 +1,6 @@
 import { FastifyInstance } from 'fastify';
+import { internalRoutes } from './internal.routes.js';
+import { savedSearchRoutes } from './saved-search.routes.js';
 import { userRoutes } from './user.routes.js';
 
 export async function registerRoutes(fastify: FastifyInstance) {
@@ -6,6 +8,8 @@ export async function registerRoutes(fastify: FastifyInstance) {
   
   // Registrar rotas do user service
   await fastify.register(userRoutes);
+  await fastify.register(savedSearchRoutes);
+  await fastify.register(internalRoutes);
   
   console.log('✅ Todas as rotas do User Service registradas com sucesso');
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { FastifyInstance } from 'fastify';
+import { InternalController, isInternalRequest } from '../controllers/internal.controller.js';
+
+export async function internalRoutes(fastify: FastifyInstance) {
+  const internalController = new InternalController();
+
+  // Chamadas entre serviços (não expostas pelo API Gateway)
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (!isInternalRequest(request)) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Chave interna inválida',
+        code: 'FORBIDDEN'
+      });
+    }
+  });
+
+  fastify.post('/internal/v1/users/lookup', internalController.lookupUsers.bind(internalController));
+  fastify.post('/internal/v1/notifications', internalController.createNotifications.bind(internalController));
+  fastify.get('/internal/v1/analytics/search-regions', internalController.getSearchRegions.bind(internalController));
+  fastify.get('/internal/v1/analytics/new-users', internalController.getNewUsers.bind(internalController));
+}
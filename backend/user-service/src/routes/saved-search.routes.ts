@@ -0,0 +1,12 @@
+import { FastifyInstance } from 'fastify';
+import { SavedSearchController } from '../controllers/saved-search.controller.js';
+
+export async function savedSearchRoutes(fastify: FastifyInstance) {
+  const savedSearchController = new SavedSearchController();
+
+  // Saved Searches Routes (alertas de novos imóveis e reduções de preço)
+  fastify.get('/api/v1/saved-searches', savedSearchController.listSavedSearches.bind(savedSearchController));
+  fastify.post('/api/v1/saved-searches', savedSearchController.createSavedSearch.bind(savedSearchController));
+  fastify.put('/api/v1/saved-searches/:savedSearchId', savedSearchController.updateSavedSearch.bind(savedSearchController));
+  fastify.delete('/api/v1/saved-searches/:savedSearchId', savedSearchController.deleteSavedSearch.bind(savedSearchController));
+}
@@ -2,7 +2,6 @@ import { FastifyInstance } from 'fastify';
 import {
     NotificationController,
     PropertyInterestController,
-    SavedPropertyController,
     SearchHistoryController,
     UserPreferencesController,
     UserProfileController
@@ -16,7 +15,6 @@ export async function userRoutes(fastify: FastifyInstance) {
   const userProfileController = new UserProfileController();
   const userPreferencesController = new UserPreferencesController();
   const propertyInterestController = new PropertyInterestController();
-  const savedPropertyController = new SavedPropertyController();
   const searchHistoryController = new SearchHistoryController();
   const notificationController = new NotificationController();
 
@@ -38,12 +36,6 @@ export async function userRoutes(fastify: FastifyInstance) {
   fastify.post('/api/v1/property-interests', propertyInterestController.addPropertyInterest.bind(propertyInterestController));
   fastify.get('/api/v1/property-interests/:userId', propertyInterestController.getUserPropertyInterests.bind(propertyInterestController));
 
-  // Saved Properties Routes
-  fastify.get('/api/v1/saved-properties/me', savedPropertyController.getUserSavedProperties.bind(savedPropertyController));
-  fastify.post('/api/v1/saved-properties', savedPropertyController.saveProperty.bind(savedPropertyController));
-  fastify.delete('/api/v1/saved-properties/:propertyId', savedPropertyController.removeSavedProperty.bind(savedPropertyController));
-  fastify.get('/api/v1/saved-properties/:userId', savedPropertyController.getUserSavedProperties.bind(savedPropertyController));
-
   // Search History Routes
   fastify.get('/api/v1/search-history/me', searchHistoryController.getUserSearchHistory.bind(searchHistoryController));
   fastify.post('/api/v1/search-history', searchHistoryController.addSearchHistory.bind(searchHistoryController));
@@ -0,0 +1,310 @@
+import {
+  CreateSavedSearchMatchData,
+  DatabaseConnection,
+  SavedSearchWithOwner,
+} from '@/interfaces/database.interface';
+import { EmailSender, PropertyChange, PropertyFeed } from '@/interfaces/external-services.interface';
+import { SavedSearch, SavedSearchMatch } from '@/types/user';
+import { logger } from '@/utils/logger';
+
+const STATE_ID = 'saved-search-alerts';
+const LOCK_TTL_MS = 10 * 60 * 1000;
+const MAX_EMAIL_ITEMS = 10;
+
+export interface SavedSearchAlertsOptions {
+  intervalMs: number;
+  digestIntervalMs: number;
+  siteUrl: string;
+}
+
+export interface SavedSearchAlertsRunResult {
+  skipped: boolean;
+  changes: number;
+  matches: number;
+  notifiedSearches: number;
+}
+
+const priceFormatter = new Intl.NumberFormat('pt-PT', {
+  style: 'currency',
+  currency: 'EUR',
+  maximumFractionDigits: 0,
+});
+
+function normalizeText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function inRange(value: number | null, min?: unknown, max?: unknown): boolean {
+  if (min == null && max == null) return true;
+  if (value == null) return false;
+  if (min != null && value < Number(min)) return false;
+  if (max != null && value > Number(max)) return false;
+  return true;
+}
+
+/**
+ * Verifica se uma propriedade satisfaz os critérios de uma pesquisa guardada
+ * Os valores Decimal do Prisma são convertidos com Number()
+ */
+export function matchesSavedSearch(search: SavedSearch, property: PropertyChange): boolean {
+  if (search.status && property.status !== search.status) return false;
+  if (search.propertyType && property.type !== search.propertyType) return false;
+  if (!inRange(property.price, search.minPrice, search.maxPrice)) return false;
+  if (!inRange(property.bedrooms, search.minBedrooms, search.maxBedrooms)) return false;
+  if (!inRange(property.bathrooms, search.minBathrooms, undefined)) return false;
+  if (!inRange(property.area, search.minArea, search.maxArea)) return false;
+
+  if (search.location && !normalizeText(property.location).includes(normalizeText(search.location))) {
+    return false;
+  }
+
+  if (search.query) {
+    const haystack = normalizeText([property.title, property.description, property.location].filter(Boolean).join(' '));
+    const words = normalizeText(search.query).split(/\s+/).filter(Boolean);
+    if (!words.every((word) => haystack.includes(word))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Processo de alertas das pesquisas guardadas
+ *
+ * Cada execução lê as propriedades novas e com redução de preço desde a última
+ * execução, regista as correspondências e entrega as que estão pendentes:
+ * de imediato (INSTANT) ou num resumo a cada 24 horas (DAILY).
+ * As correspondências ficam registadas antes de avançar o ponto de leitura,
+ * por isso uma execução falhada é repetida sem alertas duplicados.
+ */
+export class SavedSearchAlertsService {
+  private running = false;
+
+  constructor(
+    private database: DatabaseConnection,
+    private propertyFeed: PropertyFeed,
+    private emailSender: EmailSender,
+    private options: SavedSearchAlertsOptions
+  ) {}
+
+  async run(now: Date = new Date()): Promise<SavedSearchAlertsRunResult> {
+    const result: SavedSearchAlertsRunResult = { skipped: true, changes: 0, matches: 0, notifiedSearches: 0 };
+
+    // Evita execuções sobrepostas nesta instância; o lock na base de dados cobre as restantes
+    if (this.running) {
+      return result;
+    }
+    this.running = true;
+
+    try {
+      const state = await this.database.alertMatcherState.acquire(
+        STATE_ID,
+        new Date(now.getTime() + LOCK_TTL_MS),
+        new Date(now.getTime() - this.options.intervalMs)
+      );
+      if (!state) {
+        return result;
+      }
+
+      try {
+        const changes = await this.fetchChanges(state.watermark, now);
+        const searches = await this.database.savedSearches.findActiveWithAlerts();
+
+        result.skipped = false;
+        result.changes = changes.length;
+        result.matches = await this.recordMatches(searches, changes);
+        result.notifiedSearches = await this.deliverPending(searches, now);
+
+        await this.database.alertMatcherState.release(STATE_ID, now);
+      } catch (error) {
+        await this.database.alertMatcherState.release(STATE_ID);
+        throw error;
+      }
+
+      if (result.changes > 0 || result.notifiedSearches > 0) {
+        logger.info(result, '🔔 Saved search alerts processed');
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async fetchChanges(since: Date, until: Date): Promise<PropertyChange[]> {
+    const changes: PropertyChange[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.propertyFeed.getChanges(since, until, cursor);
+      changes.push(...page.data);
+      cursor = page.hasMore && page.nextCursor ? page.nextCursor : undefined;
+    } while (cursor);
+
+    return changes;
+  }
+
+  private async recordMatches(searches: SavedSearchWithOwner[], changes: PropertyChange[]): Promise<number> {
+    if (changes.length === 0) {
+      return 0;
+    }
+
+    const matches: CreateSavedSearchMatchData[] = [];
+
+    for (const search of searches) {
+      const preferences = search.user.preferences;
+      const wantsNew = search.notifyNewListings && (preferences?.newPropertyAlerts ?? true);
+      const wantsDrops = search.notifyPriceDrops && (preferences?.priceDropAlerts ?? true);
+
+      for (const property of changes) {
+        const isNew = property.changeType === 'new';
+        if ((isNew && !wantsNew) || (!isNew && !wantsDrops)) continue;
+        if (!matchesSavedSearch(search, property)) continue;
+
+        matches.push({
+          savedSearchId: search.id,
+          propertyId: property.id,
+          propertyTitle: property.title,
+          location: property.location,
+          matchType: isNew ? 'NEW_LISTING' : 'PRICE_DROP',
+          price: property.price,
+          previousPrice: isNew ? undefined : property.previousPrice ?? undefined,
+        });
+      }
+    }
+
+    return this.database.savedSearchMatches.createMany(matches);
+  }
+
+  private async deliverPending(searches: SavedSearchWithOwner[], now: Date): Promise<number> {
+    let notified = 0;
+
+    for (const search of searches) {
+      if (search.frequency === 'DAILY' && !this.isDigestDue(search, now)) continue;
+
+      try {
+        const pending = await this.database.savedSearchMatches.findPending(search.id);
+        if (pending.length === 0) continue;
+
+        await this.notify(search, pending, now);
+        notified++;
+      } catch (error) {
+        // Uma pesquisa com erro não deve bloquear as restantes
+        logger.error({ err: error, savedSearchId: search.id }, '❌ Failed to deliver saved search alert');
+      }
+    }
+
+    return notified;
+  }
+
+  private isDigestDue(search: SavedSearch, now: Date): boolean {
+    return !search.lastNotifiedAt
+      || now.getTime() - new Date(search.lastNotifiedAt).getTime() >= this.options.digestIntervalMs;
+  }
+
+  private async notify(search: SavedSearchWithOwner, matches: SavedSearchMatch[], now: Date): Promise<void> {
+    await this.database.transaction(async (tx) => {
+      if (search.frequency === 'INSTANT') {
+        for (const match of matches) {
+          const isNew = match.matchType === 'NEW_LISTING';
+          await tx.notifications.create({
+            userId: search.userId,
+            type: isNew ? 'NEW_PROPERTY' : 'PRICE_DROP',
+            title: isNew ? `Novo imóvel: ${match.propertyTitle}` : `Preço reduzido: ${match.propertyTitle}`,
+            message: `${match.location} · ${this.describePrice(match)}`,
+            data: { savedSearchId: search.id, propertyId: match.propertyId, matchType: match.matchType },
+          });
+        }
+      } else {
+        await tx.notifications.create({
+          userId: search.userId,
+          type: 'PROPERTY_ALERT',
+          title: `Resumo diário: ${search.name}`,
+          message: `${matches.length} ${matches.length === 1 ? 'imóvel corresponde' : 'imóveis correspondem'} à sua pesquisa`,
+          data: { savedSearchId: search.id, propertyIds: matches.map((match) => match.propertyId) },
+        });
+      }
+
+      await tx.savedSearchMatches.markNotified(matches.map((match) => match.id), now);
+      await tx.savedSearches.markNotified(search.id, now);
+    });
+
+    if (search.user.preferences?.emailNotifications ?? true) {
+      try {
+        await this.emailSender.send(this.buildEmail(search, matches));
+      } catch (error) {
+        // As notificações na aplicação já foram criadas; o email não é repetido
+        logger.warn({ err: error, savedSearchId: search.id }, '⚠️ Failed to send saved search alert email');
+      }
+    }
+  }
+
+  private describePrice(match: SavedSearchMatch): string {
+    const price = priceFormatter.format(Number(match.price));
+    if (match.matchType === 'PRICE_DROP' && match.previousPrice != null) {
+      return `${price} (antes ${priceFormatter.format(Number(match.previousPrice))})`;
+    }
+    return price;
+  }
+
+  private buildEmail(search: SavedSearchWithOwner, matches: SavedSearchMatch[]) {
+    const shown = matches.slice(0, MAX_EMAIL_ITEMS);
+    const remaining = matches.length - shown.length;
+    const subject = search.frequency === 'DAILY'
+      ? `Resumo diário da pesquisa "${search.name}"`
+      : `Novidades na pesquisa "${search.name}"`;
+
+    const items = shown.map((match) => ({
+      label: match.matchType === 'NEW_LISTING' ? 'Novo' : 'Preço reduzido',
+      url: `${this.options.siteUrl}/property/${match.propertyId}`,
+      match,
+    }));
+
+    const html = `
+      <p>Olá ${escapeHtml(search.user.firstName)},</p>
+      <p>Há novidades na sua pesquisa guardada <strong>${escapeHtml(search.name)}</strong>:</p>
+      <ul>
+        ${items.map(({ label, url, match }) => `
+        <li>
+          <a href="${escapeHtml(url)}">${escapeHtml(match.propertyTitle)}</a>
+          (${label}) – ${escapeHtml(match.location)} – ${escapeHtml(this.describePrice(match))}
+        </li>`).join('')}
+      </ul>
+      ${remaining > 0 ? `<p>E mais ${remaining} ${remaining === 1 ? 'imóvel' : 'imóveis'}.</p>` : ''}
+      <p>Pode alterar a frequência destes alertas nas suas pesquisas guardadas.</p>
+    `;
+
+    const text = [
+      `Olá ${search.user.firstName},`,
+      `Há novidades na sua pesquisa guardada "${search.name}":`,
+      ...items.map(({ label, url, match }) =>
+        `- ${match.propertyTitle} (${label}) – ${match.location} – ${this.describePrice(match)}: ${url}`),
+      ...(remaining > 0 ? [`E mais ${remaining} ${remaining === 1 ? 'imóvel' : 'imóveis'}.`] : []),
+    ].join('\n');
+
+    return { to: search.user.email, subject, html, text };
+  }
+}
+
+/**
+ * Agenda as execuções periódicas do processo de alertas
+ * Devolve a função que pára o agendamento
+ */
+export function scheduleSavedSearchAlerts(service: SavedSearchAlertsService, intervalMs: number): () => void {
+  const tick = () => {
+    service.run().catch((error) => {
+      logger.error({ err: error }, '❌ Saved search alerts run failed');
+    });
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+/**
+ * Validação dos pedidos internos (chamadas entre serviços)
+ */
+const MAX_RECIPIENTS = 1000;
+
+export const lookupUsersSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_RECIPIENTS),
+});
+
+// Tipos usados pelas comunicações da administração e pela revisão de imóveis (properties-service)
+export const createNotificationsSchema = z.object({
+  type: z.enum(['SYSTEM_ANNOUNCEMENT', 'MARKET_UPDATE', 'REMINDER', 'WELCOME', 'LISTING_REVIEW']).default('SYSTEM_ANNOUNCEMENT'),
+  title: z.string().trim().min(1).max(200),
+  data: z.record(z.any()).optional(),
+  recipients: z.array(z.object({
+    userId: z.string().min(1),
+    email: z.string().email().optional(),
+    message: z.string().min(1).max(5000),
+  })).min(1).max(MAX_RECIPIENTS),
+});
+
+// Estatísticas pedidas pelos relatórios da administração (properties-service)
+const MAX_RANGE_DAYS = 5 * 366;
+
+const analyticsRangeSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine(range => range.from < range.to, { message: 'from deve ser anterior a to', path: ['from'] })
+  .refine(range => range.to.getTime() - range.from.getTime() <= MAX_RANGE_DAYS * 24 * 60 * 60 * 1000, {
+    message: `O intervalo não pode exceder ${MAX_RANGE_DAYS} dias`,
+    path: ['from'],
+  });
+
+export const searchRegionsQuerySchema = analyticsRangeSchema.and(z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+}));
+
+export const newUsersQuerySchema = analyticsRangeSchema.and(z.object({
+  granularity: z.enum(['day', 'week', 'month']).default('month'),
+}));
+
+export type CreateNotificationsInput = z.infer<typeof createNotificationsSchema>;
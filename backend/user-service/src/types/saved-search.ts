@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+/**
+ * Validação das pesquisas guardadas
+ * Os tipos e estados são os mesmos usados nos filtros do properties-service
+ */
+const propertyTypes = ['apartamento', 'moradia', 'loft', 'penthouse', 'estudio', 'escritorio', 'terreno'] as const;
+const propertyStatuses = ['for_sale', 'for_rent', 'sold', 'rented', 'under_contract', 'withdrawn'] as const;
+
+// Critérios de pesquisa; null remove o critério numa atualização
+const criteriaFields = {
+  query: z.string().trim().min(1).max(200),
+  location: z.string().trim().min(1).max(200),
+  propertyType: z.enum(propertyTypes),
+  status: z.enum(propertyStatuses),
+  minPrice: z.number().nonnegative(),
+  maxPrice: z.number().nonnegative(),
+  minBedrooms: z.number().int().min(0).max(20),
+  maxBedrooms: z.number().int().min(0).max(20),
+  minBathrooms: z.number().int().min(0).max(20),
+  minArea: z.number().nonnegative(),
+  maxArea: z.number().nonnegative(),
+};
+
+const alertFields = {
+  notifyNewListings: z.boolean(),
+  notifyPriceDrops: z.boolean(),
+  frequency: z.enum(['INSTANT', 'DAILY']),
+  isActive: z.boolean(),
+};
+
+type RangeField = 'minPrice' | 'maxPrice' | 'minBedrooms' | 'maxBedrooms' | 'minArea' | 'maxArea';
+
+export function hasValidRanges(data: { [K in RangeField]?: number | null | undefined }): boolean {
+  const ranges: Array<[number | null | undefined, number | null | undefined]> = [
+    [data.minPrice, data.maxPrice],
+    [data.minBedrooms, data.maxBedrooms],
+    [data.minArea, data.maxArea],
+  ];
+  return ranges.every(([min, max]) => min == null || max == null || min <= max);
+}
+
+export const rangeMessage = { message: 'Os valores mínimos não podem ser superiores aos máximos' };
+
+export const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  ...criteriaFields,
+  ...alertFields,
+})
+  .partial()
+  .required({ name: true })
+  .strict()
+  .refine(hasValidRanges, rangeMessage);
+
+export const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  ...Object.fromEntries(
+    Object.entries(criteriaFields).map(([key, schema]) => [key, schema.nullable()])
+  ) as { [K in keyof typeof criteriaFields]: z.ZodNullable<(typeof criteriaFields)[K]> },
+  ...alertFields,
+})
+  .partial()
+  .strict()
+  .refine(hasValidRanges, rangeMessage);
+
+export type CreateSavedSearchInput = z.infer<typeof createSavedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof updateSavedSearchSchema>;
@@ -1,4 +1,6 @@
 import {
+    AlertFrequency,
+    AlertMatchType,
     ContactMethod,
     DeliveryMethod,
     Gender,
@@ -14,6 +16,8 @@ import {
 
 // Re-export enums for easier access
 export {
+    AlertFrequency,
+    AlertMatchType,
     ContactMethod, DeliveryMethod, Gender, InterestType, NotificationType, Priority, ProfileVisibility,
     PropertyType, SortBy, UserRole,
     ViewMode
@@ -133,6 +137,46 @@ export interface SearchHistory {
   createdAt: Date;
 }
 
+// Saved Search
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  user?: UserProfile;
+  name: string;
+  query?: string;
+  location?: string;
+  propertyType?: string;
+  status?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  minArea?: number;
+  maxArea?: number;
+  notifyNewListings: boolean;
+  notifyPriceDrops: boolean;
+  frequency: AlertFrequency;
+  isActive: boolean;
+  lastNotifiedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Saved Search Match
+export interface SavedSearchMatch {
+  id: string;
+  savedSearchId: string;
+  propertyId: string;
+  propertyTitle: string;
+  location: string;
+  matchType: AlertMatchType;
+  price: number;
+  previousPrice?: number;
+  notifiedAt?: Date;
+  createdAt: Date;
+}
+
 // Notification
 export interface Notification {
   id: string;
@@ -8,24 +8,45 @@ interface UserStatistics {
   inactive: number;
   verified: number;
   unverified: number;
-  withTwoFactor: number;
   recentLogins: number;
 }
 
 interface PropertyStatistics {
   total: number;
-  active: number;
-  pending: number;
-  inactive: number;
-  totalValue: number;
+  byStatus: {
+    forSale: number;
+    forRent: number;
+    sold: number;
+  };
   averagePrice: number;
-  monthlyViews: number;
+  medianPrice: number;
+}
+
+interface ModerationStatistics {
+  pendingReview: number;
+  awaitingPublication: number;
+  rejected: number;
+}
+
+interface ViewStatistics {
+  days: number;
+  views: number;
+  uniqueVisitors: number;
+  contacts: number | null;
+  conversionRate: number | null;
 }
 
-interface DashboardStats {
-  users: UserStatistics;
-  properties: PropertyStatistics;
-  pendingApprovals: number;
+// Each section is marked unavailable by the gateway when its service fails
+export type DashboardSection<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'unavailable'; data: null; reason: string };
+
+export interface DashboardStats {
+  users: DashboardSection<UserStatistics>;
+  properties: DashboardSection<PropertyStatistics>;
+  moderation: DashboardSection<ModerationStatistics>;
+  views: DashboardSection<ViewStatistics>;
+  generatedAt: string;
 }
 
 interface User {
@@ -42,63 +63,20 @@ interface User {
   updatedAt: string;
 }
 
-// Dashboard Statistics
+// Dashboard Statistics (composed by the API gateway)
 export function useDashboardStats() {
   return useQuery<DashboardStats>({
     queryKey: ['dashboard-stats'],
     queryFn: async () => {
       try {
-        // Fetch user statistics from auth service
-        const userStatsResponse = await api.get('/api/v1/users/statistics');
-        const userStats = userStatsResponse.data?.data || {
-          total: 0,
-          active: 0,
-          inactive: 0,
-          verified: 0,
-          unverified: 0,
-          withTwoFactor: 0,
-          recentLogins: 0,
-        };
-
-        // Fetch property statistics from properties service
-        let propertyStats = {
-          total: 0,
-          active: 0,
-          pending: 0,
-          inactive: 0,
-          totalValue: 0,
-          averagePrice: 0,
-          monthlyViews: 0,
-        };
-
-        try {
-          const propertyStatsResponse = await api.get('/api/v1/properties-stats');
-          propertyStats = propertyStatsResponse.data?.data || propertyStats;
-        } catch (error) {
-          console.warn('Property stats not available:', error);
-        }
-
-        // Buscar aprovações pendentes do user-service
-        let pendingApprovals = 0;
-        try {
-          const approvalsResponse = await api.get('/api/v1/admin/pending-approvals');
-          pendingApprovals = approvalsResponse.data?.data?.count || 0;
-        } catch (error) {
-          console.warn('Erro ao buscar aprovações pendentes:', error);
-          // Manter 0 como fallback
-        }
-
-        return {
-          users: userStats,
-          properties: propertyStats,
-          pendingApprovals,
-        };
+        const { data } = await api.get('/api/v1/dashboard/stats');
+        return data.data;
       } catch (error) {
         console.error('Error fetching dashboard stats:', error);
         throw error; // Re-throw para que o React Query trate o erro
       }
     },
-    staleTime: 1000 * 60 * 5, // 5 minutes
+    staleTime: 1000 * 60, // 1 minute
     retry: 1,
   });
 }
@@ -167,23 +145,207 @@ export function useDeleteUser() {
   });
 }
 
-// Analytics data
-export function useAnalyticsData() {
-  return useQuery({
-    queryKey: ['analytics'],
+// Listing view analytics (last `days` days)
+function analyticsRange(days: number) {
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+export function useViewAnalytics(days = 30) {
+  return useQuery<ViewsSummary>({
+    queryKey: ['view-analytics', days],
     queryFn: async () => {
-      try {
-        // TODO: Implementar endpoints reais de analytics
-        // Por enquanto retorna dados vazios
-        return {
-          propertyTypes: [],
-          topRegions: [],
-          monthlyStats: []
-        };
-      } catch (error) {
-        console.error('Error fetching analytics data:', error);
-        throw error;
-      }
+      const { data } = await api.get('/api/v1/property-analytics/views', { params: analyticsRange(days) });
+      return data?.data;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    retry: 1,
+  });
+}
+
+export function useTopViewedProperties(days = 30, limit = 10) {
+  return useQuery<TopPropertyAnalytics[]>({
+    queryKey: ['top-viewed-properties', days, limit],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/property-analytics/top-properties', {
+        params: { ...analyticsRange(days), limit },
+      });
+      return data?.data ?? [];
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    retry: 1,
+  });
+}
+
+// Listing moderation (review queue)
+export type ModerationStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'PUBLISHED' | 'ARCHIVED';
+export type ModerationAction = 'submit' | 'withdraw' | 'approve' | 'reject' | 'publish' | 'archive' | 'reopen';
+
+export interface ModerationChecklistItem {
+  field: string;
+  label: string;
+  passed: boolean;
+}
+
+export interface ModerationQueueItem {
+  propertyId: string;
+  status: ModerationStatus;
+  adminStatus: 'ACTIVE' | 'PENDING' | 'INACTIVE';
+  ownerId: string | null;
+  agentId: string | null;
+  submittedAt: string | null;
+  submittedBy: string | null;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  rejectionReason: string | null;
+  waitingHours: number | null;
+  listing: {
+    id: string;
+    title: string;
+    location: string;
+    price: number;
+    type: string | null;
+    imageUrl: string | null;
+    imageCount: number;
+  };
+  checklist: {
+    complete: boolean;
+    items: ModerationChecklistItem[];
+  };
+}
+
+export interface ModerationQueueFilters {
+  status?: ModerationStatus[];
+  agentId?: string;
+  minWaitingHours?: number;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ModerationQueuePage {
+  success: boolean;
+  data: ModerationQueueItem[];
+  counts: Record<ModerationStatus, number>;
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+    limit: number;
+    totalEstimate?: number;
+  };
+}
+
+export function useModerationQueue(filters: ModerationQueueFilters = {}) {
+  return useQuery<ModerationQueuePage>({
+    queryKey: ['moderation-queue', filters],
+    queryFn: async () => {
+      const { status, ...params } = filters;
+      const { data } = await api.get('/api/v1/moderation/queue', {
+        params: { ...params, status: status?.join(',') },
+      });
+      return data;
+    },
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+export function useModerationAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ propertyId, action, reason }: { propertyId: string; action: ModerationAction; reason?: string }) => {
+      const { data } = await api.post(`/api/v1/properties/${propertyId}/moderation/${action}`, reason ? { reason } : {});
+      return data.data as ModerationQueueItem;
+    },
+    onSuccess: (_, { propertyId }) => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+      queryClient.invalidateQueries({ queryKey: ['property', propertyId] });
+    },
+  });
+}
+
+// Contact conversations (messages service)
+export type ConversationStatus = 'OPEN' | 'ANSWERED';
+
+export interface ConversationMessage {
+  id: string;
+  fromName: string;
+  fromEmail: string;
+  phone?: string | null;
+  body: string;
+  direction: 'INBOUND' | 'OUTBOUND';
+  status: 'RECEIVED' | 'QUEUED' | 'SENT' | 'FAILED';
+  error?: string | null;
+  authorId?: string | null;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  subject: string;
+  contactName: string;
+  contactEmail: string;
+  status: ConversationStatus;
+  lastMessageAt: string;
+  createdAt: string;
+}
+
+export interface ConversationSummary extends Conversation {
+  messageCount: number;
+  lastMessage: Pick<ConversationMessage, 'id' | 'fromName' | 'body' | 'direction' | 'status' | 'createdAt'> | null;
+}
+
+export interface ConversationDetail extends Conversation {
+  messages: ConversationMessage[];
+}
+
+export function useConversations(params: { status?: ConversationStatus; contactEmail?: string; page?: number; limit?: number } = {}) {
+  return useQuery<{ data: ConversationSummary[]; pagination: { page: number; limit: number; total: number; totalPages: number } }>({
+    queryKey: ['conversations', params],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/conversations', { params });
+      return data;
+    },
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+export function useConversation(id: string | null) {
+  return useQuery<ConversationDetail>({
+    queryKey: ['conversation', id],
+    queryFn: async () => {
+      const { data } = await api.get(`/api/v1/conversations/${id}`);
+      return data.data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useReplyToConversation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ conversationId, body }: { conversationId: string; body: string }) => {
+      const { data } = await api.post(`/api/v1/conversations/${conversationId}/reply`, { body });
+      return data.data as ConversationMessage;
+    },
+    // A failed delivery is still stored, so the thread is refreshed either way
+    onSettled: (_, __, { conversationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      queryClient.invalidateQueries({ queryKey: ['conversation', conversationId] });
+    },
+  });
+}
+
+// Management report (distribution, searched regions, trends, market metrics)
+export function useAnalyticsData(days = 365, granularity: ReportGranularity = 'month') {
+  return useQuery<MarketReport>({
+    queryKey: ['analytics', days, granularity],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/property-analytics/report', {
+        params: { ...analyticsRange(days), granularity },
+      });
+      return data?.data;
     },
     staleTime: 1000 * 60 * 10, // 10 minutes
   });
@@ -191,11 +353,15 @@ export function useAnalyticsData() {
 
 import type {
   CreateModuleSettingRequest,
+  MarketReport,
   ModuleSettingsList,
+  ReportGranularity,
   SettingsOperationResult,
   SystemSettings,
+  TopPropertyAnalytics,
   UpdateModuleSettingRequest,
-  UpdateSystemSettingsRequest
+  UpdateSystemSettingsRequest,
+  ViewsSummary
 } from '@/types';
 
 // System Settings
@@ -291,14 +457,141 @@ export function useSettingsStats() {
   });
 }
 
+// Settings History
+export interface SettingsHistoryEntry {
+  id: string;
+  settingsId: string;
+  fieldName: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedBy: string | null;
+  changeReason: string | null;
+  createdAt: string;
+}
+
+export interface SettingsHistoryFilters {
+  field?: string;
+  changedBy?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface SettingsHistoryPage {
+  success: boolean;
+  data: SettingsHistoryEntry[];
+  meta: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface SettingsHistoryDiff {
+  from: string;
+  to: string;
+  changes: Array<{ field: string; from: unknown; to: unknown }>;
+  entries: SettingsHistoryEntry[];
+}
+
+export interface RevertSettingsRequest {
+  at?: string;
+  historyId?: string;
+  reason?: string;
+}
+
+export interface RevertSettingsResult {
+  settings: SystemSettings;
+  revertedTo: string;
+  changedFields: string[];
+  skippedFields: string[];
+}
+
+export function useSettingsHistory(filters: SettingsHistoryFilters = {}) {
+  return useQuery<SettingsHistoryPage>({
+    queryKey: ['settings-history', filters],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/settings/history', { params: filters });
+      return data;
+    },
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+export function useSettingsHistoryDiff(from?: string, to?: string) {
+  return useQuery<SettingsOperationResult<SettingsHistoryDiff>>({
+    queryKey: ['settings-history-diff', from, to],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/settings/history/diff', { params: { from, to } });
+      return data;
+    },
+    enabled: !!from,
+  });
+}
+
+export function useRevertSettings() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (request: RevertSettingsRequest) => {
+      const { data } = await api.post('/api/v1/settings/history/revert', request);
+      return data as SettingsOperationResult<RevertSettingsResult>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['system-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings-history'] });
+      queryClient.invalidateQueries({ queryKey: ['settings-history-diff'] });
+    },
+  });
+}
+
+export function useExportSettingsHistory() {
+  return useMutation({
+    mutationFn: async (filters: Omit<SettingsHistoryFilters, 'page' | 'limit'> = {}) => {
+      const response = await api.get('/api/v1/settings/history/export', {
+        params: { ...filters, format: 'csv' },
+        responseType: 'blob',
+      });
+      return response.data as Blob;
+    },
+  });
+}
+
 // Backup & Restore APIs
 export interface BackupItem {
   id: string;
   name: string;
   size: string;
+  sizeBytes: number;
   createdAt: string;
   type: 'full' | 'incremental' | 'settings';
   description?: string;
+  createdBy?: string;
+  checksum: string;
+  schemaVersion: number;
+  baseBackupId?: string;
+  since?: string;
+  counts: {
+    settings: number;
+    moduleSettings: number;
+    history: number;
+  };
+  scheduled: boolean;
+  destination: string;
+}
+
+export interface BackupSchedule {
+  scheduleEnabled: boolean;
+  fullIntervalHours: number;
+  incrementalIntervalHours: number;
+  retentionDays: number;
+  retentionMinFull: number;
+  destination: string;
+  nextFullBackup?: string;
+  nextIncrementalBackup?: string;
+  lastBackup?: BackupItem;
 }
 
 export interface CreateBackupRequest {
@@ -322,16 +615,43 @@ export function useBackups() {
   });
 }
 
+export function useBackupSchedule() {
+  return useQuery<BackupSchedule>({
+    queryKey: ['backup-schedule'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/backup/schedule');
+      return data.data;
+    },
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+export function useApplyBackupRetention() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data } = await api.post('/api/v1/backup/retention');
+      return data as { success: boolean; data?: { deleted: string[]; kept: number }; message?: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['backups'] });
+      queryClient.invalidateQueries({ queryKey: ['backup-schedule'] });
+    },
+  });
+}
+
 export function useCreateBackup() {
   const queryClient = useQueryClient();
   
   return useMutation({
     mutationFn: async (request: CreateBackupRequest) => {
       const { data } = await api.post('/api/v1/backup', request);
-      return data;
+      return data as { success: boolean; data?: BackupItem; message?: string };
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['backups'] });
+      queryClient.invalidateQueries({ queryKey: ['backup-schedule'] });
     },
   });
 }
@@ -347,6 +667,8 @@ export function useRestoreBackup() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['backups'] });
       queryClient.invalidateQueries({ queryKey: ['system-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['module-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['settings-history'] });
     },
   });
 }
@@ -411,6 +733,40 @@ export function useValidateSEO() {
 }
 
 // Module Settings
+// JSON Schema registado por cada serviço para as suas chaves de módulo
+export interface ModuleSettingsSchemaProperty {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  title?: string;
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+  enum?: Array<string | number>;
+  properties?: Record<string, ModuleSettingsSchemaProperty>;
+  required?: string[];
+}
+
+export interface ModuleSettingsSchema {
+  id: string;
+  moduleName: string;
+  service: string;
+  version: string;
+  description?: string | null;
+  schema: ModuleSettingsSchemaProperty;
+  defaults: Record<string, any>;
+  updatedAt: string;
+}
+
+export function useModuleSchemas() {
+  return useQuery<ModuleSettingsSchema[]>({
+    queryKey: ['module-schemas'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/module-settings/schemas');
+      return data.data || [];
+    },
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
 export function useModuleSettings(moduleName: string) {
   return useQuery<SettingsOperationResult<any>>({
     queryKey: ['module-settings', moduleName],
@@ -428,7 +784,7 @@ export function useUpdateModuleSettings() {
   return useMutation({
     mutationFn: async ({ moduleName, settings }: { moduleName: string; settings: Record<string, any> }) => {
       const { data } = await api.put(`/api/v1/module-settings/${moduleName}`, settings);
-      return data;
+      return data as SettingsOperationResult<Record<string, any>>;
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['module-settings', variables.moduleName] });
@@ -533,8 +889,13 @@ interface CommunicationData {
 }
 
 interface CommunicationResult {
+  campaignId: string;
   message: string;
+  status: 'sending' | 'completed' | 'partial' | 'failed';
+  recipientCount: number;
   sentCount: number;
+  failedCount: number;
+  skippedCount: number;
   errors?: string[];
 }
 
@@ -563,8 +924,10 @@ interface ImportUserData {
 }
 
 interface ImportResult {
+  jobId: string;
   imported: number;
   failed: number;
+  skipped: number;
   errors?: string[];
 }
 
@@ -582,6 +945,105 @@ export function useBulkImportUsers() {
   });
 }
 
+// Bulk import jobs (CSV/XLSX processed in the background by the auth service)
+export interface UserImportOptions {
+  dryRun: boolean;
+  upsert: boolean;
+  sendInvitations: boolean;
+  defaultRole?: string;
+  roleMapping?: Record<string, string>;
+}
+
+export interface UserImportJob {
+  id: string;
+  fileName: string;
+  fileType: string;
+  dryRun: boolean;
+  upsert: boolean;
+  sendInvitations: boolean;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  invitedCount: number;
+  error?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+}
+
+export interface UserImportRow {
+  id: string;
+  rowNumber: number;
+  email: string | null;
+  status: 'pending' | 'valid' | 'created' | 'updated' | 'skipped' | 'failed';
+  action: 'create' | 'update' | 'skip' | null;
+  message: string | null;
+  invited: boolean;
+}
+
+export function useCreateUserImportJob() {
+  return useMutation<UserImportJob, Error, { file: File; options: UserImportOptions }>({
+    mutationFn: async ({ file, options }) => {
+      // Options must precede the file in the multipart body
+      const formData = new FormData();
+      formData.append('dryRun', String(options.dryRun));
+      formData.append('upsert', String(options.upsert));
+      formData.append('sendInvitations', String(options.sendInvitations));
+      if (options.defaultRole) formData.append('defaultRole', options.defaultRole);
+      if (options.roleMapping) formData.append('roleMapping', JSON.stringify(options.roleMapping));
+      formData.append('file', file);
+
+      const { data } = await api.post('/api/v1/users/import-jobs', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return data.data;
+    },
+  });
+}
+
+export function useUserImportJob(jobId: string | null) {
+  return useQuery<UserImportJob>({
+    queryKey: ['user-import-job', jobId],
+    queryFn: async () => {
+      const { data } = await api.get(`/api/v1/users/import-jobs/${jobId}`);
+      return data.data;
+    },
+    enabled: !!jobId,
+    // Poll while the job is running
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : 1000;
+    },
+  });
+}
+
+export function useUserImportRows(jobId: string | null, status?: UserImportRow['status']) {
+  return useQuery<UserImportRow[]>({
+    queryKey: ['user-import-rows', jobId, status],
+    queryFn: async () => {
+      const { data } = await api.get(`/api/v1/users/import-jobs/${jobId}/rows`, {
+        params: status ? { status } : undefined
+      });
+      return data.data;
+    },
+    enabled: !!jobId,
+  });
+}
+
+export function useDownloadUserImportReport() {
+  return useMutation<Blob, Error, string>({
+    mutationFn: async (jobId: string) => {
+      const response = await api.get(`/api/v1/users/import-jobs/${jobId}/report`, {
+        responseType: 'blob'
+      });
+      return response.data;
+    },
+  });
+}
+
 // Audit API
 interface AuditLog {
   id: string;
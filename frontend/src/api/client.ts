@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { type AxiosResponse } from 'axios';
 
 // Use relative URLs in production to leverage nginx proxy
 // This avoids CORS issues and uses the same origin
@@ -79,6 +79,14 @@ export const api = axios.create({
   validateStatus: (status) => status >= 200 && status < 500, // Considera 4xx como resposta, não como erro
 });
 
+// Evento emitido quando o API Gateway responde 503 por modo de manutenção
+export const MAINTENANCE_EVENT = 'rz:maintenance';
+
+export interface MaintenanceEventDetail {
+  message: string;
+  retryAfter?: number;
+}
+
 // Interceptor de requisição para adicionar token de autorização e logs
 api.interceptors.request.use((config) => {
   const token = getAccessToken();
@@ -275,6 +283,18 @@ api.interceptors.response.use(
       }
     }
     
+    // Plataforma em manutenção: avisa a aplicação para mostrar a página de manutenção
+    if (status === 503 && error.response?.data?.error?.code === 'MAINTENANCE_MODE') {
+      const detail: MaintenanceEventDetail = {
+        message: error.response.data.error.message,
+        retryAfter: error.response.data.meta?.retryAfter ?? (Number(error.response.headers?.['retry-after']) || undefined),
+      };
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent<MaintenanceEventDetail>(MAINTENANCE_EVENT, { detail }));
+      }
+      return Promise.reject(new Error(detail.message));
+    }
+
     // Para outros erros, retorna mensagem apropriada
     let errorMessage = 'Ocorreu um erro inesperado';
     
@@ -298,6 +318,13 @@ api.interceptors.response.use(
   }
 );
 
+// 4xx replies resolve (see validateStatus); reject them with the response attached like axios does
+function rejectAuthError(response: AxiosResponse, fallback: string): never {
+  const error: any = new Error(response.data?.error?.message || fallback);
+  error.response = response;
+  throw error;
+}
+
 export interface LoginResponse {
   success?: boolean;
   data?: {
@@ -338,6 +365,11 @@ export async function loginRequest(params: {
     });
     
     console.log('[Auth] Login response:', response.data);
+
+    // Invalid credentials, unverified email (error.details.reason), lockouts...
+    if (response.status >= 400) {
+      rejectAuthError(response, 'Falha na autenticação. Verifique suas credenciais.');
+    }
     
     // Se a resposta for bem-sucedida mas não tiver dados, lança um erro
     if (!response.data) {
@@ -369,6 +401,30 @@ export async function loginRequest(params: {
   }
 }
 
+export async function forgotPasswordRequest(email: string) {
+  const response = await api.post('/api/v1/auth/forgot-password', { email });
+  if (response.status >= 400) rejectAuthError(response, 'Não foi possível enviar o email de recuperação');
+  return response.data;
+}
+
+export async function resetPasswordRequest(params: { token: string; password: string; confirmPassword: string }) {
+  const response = await api.post('/api/v1/auth/reset-password', params);
+  if (response.status >= 400) rejectAuthError(response, 'Não foi possível redefinir a senha');
+  return response.data;
+}
+
+export async function verifyEmailRequest(token: string) {
+  const response = await api.post('/api/v1/auth/verify-email', { token });
+  if (response.status >= 400) rejectAuthError(response, 'Não foi possível verificar o email');
+  return response.data;
+}
+
+export async function resendVerificationRequest(email: string) {
+  const response = await api.post('/api/v1/auth/resend-verification', { email });
+  if (response.status >= 400) rejectAuthError(response, 'Não foi possível reenviar o email de verificação');
+  return response.data;
+}
+
 export async function complete2FA(params: { tempToken: string; code: string }) {
   const { data } = await api.post('/api/v1/auth/2fa/complete', params);
   return data;
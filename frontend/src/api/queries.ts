@@ -1,4 +1,4 @@
-import type { Project, PropertiesListResponse, Property, SystemSettings } from '@/types';
+import type { Favorite, FavoriteStatus, Project, PropertiesListResponse, Property, PropertyImage, SystemSettings } from '@/types';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from './client';
 
@@ -14,6 +14,24 @@ export function useSettings() {
   });
 }
 
+export interface MaintenanceStatus {
+  maintenanceMode: boolean;
+  maintenanceMessage: string | null;
+  updatedAt: string;
+}
+
+export function useMaintenanceStatus(refetchInterval: number | false = false) {
+  return useQuery<MaintenanceStatus>({
+    queryKey: ['maintenance-status'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/settings/maintenance');
+      return data.data;
+    },
+    staleTime: 1000 * 30, // 30 s
+    refetchInterval,
+  });
+}
+
 export function useProperties(params?: Partial<{
   q: string;
   status: string;
@@ -131,7 +149,7 @@ export function useProjects() {
     queryKey: ['projects'],
     queryFn: async () => {
       const { data } = await api.get('/api/v1/projects');
-      return data;
+      return data?.data ?? [];
     },
     enabled: false, // Desabilitar chamada automática
   });
@@ -433,7 +451,7 @@ export async function reorderImages(propertyId: string, images: { id: string; or
 }
 
 export function usePropertyImages(propertyId: string) {
-  return useQuery<{ id: string; propertyId: string; url: string; alt: string | null; order: number; createdAt: string }[]>({
+  return useQuery<PropertyImage[]>({
     queryKey: ['property-images', propertyId],
     enabled: !!propertyId,
     queryFn: async () => {
@@ -456,6 +474,45 @@ export function useProperty(propertyId: string) {
   });
 }
 
+// Listing view beacon; the backend ignores bots and repeated views
+export async function recordPropertyView(propertyId: string) {
+  try {
+    await api.post(`/api/v1/properties/${propertyId}/views`);
+  } catch (error) {
+    console.warn('Failed to record property view:', error);
+  }
+}
+
+export function useFavorites(enabled: boolean = true) {
+  return useQuery<Favorite[]>({
+    queryKey: ['favorites'],
+    enabled,
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/favorites', { params: { limit: 100 } });
+      return data?.data ?? [];
+    },
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+export function useToggleFavorite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ propertyId, favorite }: { propertyId: string; favorite: boolean }) => {
+      const url = `/api/v1/properties/${propertyId}/favorite`;
+      const { data } = favorite ? await api.post(url) : await api.delete(url);
+      return data.data as FavoriteStatus;
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData<Property>(['property', status.propertyId], (property) =>
+        property ? { ...property, isFavorite: status.isFavorite, favoriteCount: status.favoriteCount } : property
+      );
+      queryClient.invalidateQueries({ queryKey: ['favorites'] });
+    },
+  });
+}
+
 export function useUpdatePropertyAdminStatus() {
   const queryClient = useQueryClient();
   
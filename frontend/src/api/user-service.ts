@@ -72,17 +72,6 @@ export interface PropertyInterest {
   updatedAt: string;
 }
 
-export interface SavedProperty {
-  id: string;
-  userId: string;
-  propertyId: string;
-  folder?: string;
-  tags?: string[];
-  notes?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
 export interface SearchHistory {
   id: string;
   userId: string;
@@ -100,7 +89,7 @@ export interface SearchHistory {
 export interface Notification {
   id: string;
   userId: string;
-  type: 'PROPERTY_ALERT' | 'PRICE_DROP' | 'NEW_MATCH' | 'SYSTEM' | 'MARKETING';
+  type: 'PROPERTY_ALERT' | 'PRICE_DROP' | 'NEW_PROPERTY' | 'NEW_MATCH' | 'SYSTEM' | 'MARKETING' | 'LISTING_REVIEW';
   title: string;
   message: string;
   isRead: boolean;
@@ -110,6 +99,43 @@ export interface Notification {
   updatedAt: string;
 }
 
+export type AlertFrequency = 'INSTANT' | 'DAILY';
+
+export interface SavedSearchCriteria {
+  query?: string | null;
+  location?: string | null;
+  propertyType?: string | null;
+  status?: string | null;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  minBedrooms?: number | null;
+  maxBedrooms?: number | null;
+  minBathrooms?: number | null;
+  minArea?: number | null;
+  maxArea?: number | null;
+}
+
+export interface SavedSearch extends SavedSearchCriteria {
+  id: string;
+  userId: string;
+  name: string;
+  notifyNewListings: boolean;
+  notifyPriceDrops: boolean;
+  frequency: AlertFrequency;
+  isActive: boolean;
+  lastNotifiedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedSearchInput = SavedSearchCriteria & {
+  name: string;
+  notifyNewListings?: boolean;
+  notifyPriceDrops?: boolean;
+  frequency?: AlertFrequency;
+  isActive?: boolean;
+};
+
 // User Profile APIs
 export function useUserProfile(userId?: string) {
   return useQuery<UserProfile>({
@@ -197,12 +223,12 @@ export function useAddPropertyInterest() {
   });
 }
 
-// Saved Properties APIs
-export function useUserSavedProperties(userId?: string) {
-  return useQuery<SavedProperty[]>({
-    queryKey: ['saved-properties', userId],
+// Search History APIs
+export function useUserSearchHistory(userId?: string) {
+  return useQuery<SearchHistory[]>({
+    queryKey: ['search-history', userId],
     queryFn: async () => {
-      const endpoint = userId ? `/api/v1/saved-properties/${userId}` : '/api/v1/saved-properties/me';
+      const endpoint = userId ? `/api/v1/search-history/${userId}` : '/api/v1/search-history/me';
       const { data } = await api.get(endpoint);
       return data.data || [];
     },
@@ -211,63 +237,73 @@ export function useUserSavedProperties(userId?: string) {
   });
 }
 
-export function useSaveProperty() {
+export function useAddSearchHistory() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ propertyId, notes }: { propertyId: string; notes?: string }) => {
-      const { data } = await api.post('/api/v1/saved-properties', {
-        propertyId,
-        notes: notes || ''
+    mutationFn: async ({ searchQuery, resultsCount }: { searchQuery: string; resultsCount?: number }) => {
+      const { data } = await api.post('/api/v1/search-history', {
+        searchQuery,
+        resultsCount: resultsCount || 0
       });
       return data.data;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['saved-properties'] });
+      queryClient.invalidateQueries({ queryKey: ['search-history'] });
     },
   });
 }
 
-export function useRemoveSavedProperty() {
+// Saved Searches APIs (alertas de novos imóveis e reduções de preço)
+export function useSavedSearches(enabled = true) {
+  return useQuery<SavedSearch[]>({
+    queryKey: ['saved-searches'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/v1/saved-searches');
+      return data.data || [];
+    },
+    enabled,
+    staleTime: 1000 * 60 * 2, // 2 minutos
+  });
+}
+
+export function useCreateSavedSearch() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (propertyId: string) => {
-      await api.delete(`/api/v1/saved-properties/${propertyId}`);
+    mutationFn: async (input: SavedSearchInput) => {
+      const { data } = await api.post('/api/v1/saved-searches', input);
+      return data.data as SavedSearch;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['saved-properties'] });
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
     },
   });
 }
 
-// Search History APIs
-export function useUserSearchHistory(userId?: string) {
-  return useQuery<SearchHistory[]>({
-    queryKey: ['search-history', userId],
-    queryFn: async () => {
-      const endpoint = userId ? `/api/v1/search-history/${userId}` : '/api/v1/search-history/me';
-      const { data } = await api.get(endpoint);
-      return data.data || [];
+export function useUpdateSavedSearch() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<SavedSearchInput> & { id: string }) => {
+      const { data } = await api.put(`/api/v1/saved-searches/${id}`, input);
+      return data.data as SavedSearch;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
     },
-    enabled: !!userId || true,
-    staleTime: 1000 * 60 * 2, // 2 minutos
   });
 }
 
-export function useAddSearchHistory() {
+export function useDeleteSavedSearch() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ searchQuery, resultsCount }: { searchQuery: string; resultsCount?: number }) => {
-      const { data } = await api.post('/api/v1/search-history', {
-        searchQuery,
-        resultsCount: resultsCount || 0
-      });
-      return data.data;
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/v1/saved-searches/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['search-history'] });
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
     },
   });
 }
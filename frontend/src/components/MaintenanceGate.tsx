@@ -0,0 +1,47 @@
+import { MAINTENANCE_EVENT, type MaintenanceEventDetail } from '@/api/client';
+import { useMaintenanceStatus } from '@/api/queries';
+import Maintenance from '@/pages/Maintenance';
+import { AlertTriangle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+
+/**
+ * Mostra a página de manutenção quando o API Gateway recusa pedidos (503 MAINTENANCE_MODE).
+ * O login continua acessível para que administradores possam entrar e desativar a manutenção;
+ * no painel, quem passa o bloqueio vê um aviso de que a manutenção está ativa.
+ */
+export default function MaintenanceGate({ children }: { children: React.ReactNode }) {
+  const location = useLocation();
+  const [blocked, setBlocked] = useState<MaintenanceEventDetail | null>(null);
+  const isAdminArea = location.pathname.startsWith('/admin');
+  const { data: status } = useMaintenanceStatus();
+
+  useEffect(() => {
+    const onMaintenance = (event: Event) => {
+      setBlocked((event as CustomEvent<MaintenanceEventDetail>).detail);
+    };
+    window.addEventListener(MAINTENANCE_EVENT, onMaintenance);
+    return () => window.removeEventListener(MAINTENANCE_EVENT, onMaintenance);
+  }, []);
+
+  // Cada navegação volta a tentar: o próximo pedido recusado volta a bloquear
+  useEffect(() => {
+    setBlocked(null);
+  }, [location.pathname]);
+
+  if (blocked && location.pathname !== '/login') {
+    return <Maintenance message={blocked.message} retryAfter={blocked.retryAfter} />;
+  }
+
+  return (
+    <>
+      {isAdminArea && status?.maintenanceMode && (
+        <div className="bg-amber-500 text-white text-sm px-4 py-2 flex items-center justify-center gap-2">
+          <AlertTriangle size={16} />
+          <span>Modo de manutenção ativo: os visitantes estão a ver a página de manutenção.</span>
+        </div>
+      )}
+      {children}
+    </>
+  );
+}
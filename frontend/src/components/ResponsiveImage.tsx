@@ -0,0 +1,56 @@
+import type { ImageVariant, ImageVariantFormat, PropertyImage } from '@/types';
+import React from 'react';
+
+// Formatos por ordem de preferência; o browser usa o primeiro que suporta
+const SOURCE_FORMATS: Array<{ format: Exclude<ImageVariantFormat, 'jpeg'>; type: string }> = [
+  { format: 'avif', type: 'image/avif' },
+  { format: 'webp', type: 'image/webp' },
+];
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  image: Pick<PropertyImage, 'url' | 'width' | 'height' | 'dominantColor' | 'variants'>;
+  sizes: string; // ex.: "(min-width: 1024px) 33vw, 50vw"
+  variantNames?: string[]; // limita as variantes, ex.: sem os recortes thumb/card quando a imagem é mostrada inteira
+}
+
+const buildSrcSet = (variants: ImageVariant[], format: ImageVariantFormat) =>
+  variants
+    .filter((variant) => variant.sources[format])
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.sources[format]} ${variant.width}w`)
+    .join(', ');
+
+/**
+ * Imagem com `srcset` AVIF/WebP e fallback JPEG a partir das variantes geradas no upload.
+ * Imagens antigas, sem variantes, usam apenas o `url`. A cor dominante serve de placeholder.
+ */
+export default function ResponsiveImage({ image, sizes, variantNames, style, loading = 'lazy', ...imgProps }: ResponsiveImageProps) {
+  const placeholderStyle = image.dominantColor ? { backgroundColor: image.dominantColor, ...style } : style;
+  const variants = Object.entries(image.variants ?? {})
+    .filter(([name]) => !variantNames || variantNames.includes(name))
+    .map(([, variant]) => variant);
+
+  if (variants.length === 0) {
+    return <img src={image.url} loading={loading} style={placeholderStyle} {...imgProps} />;
+  }
+
+  return (
+    <picture className="contents">
+      {SOURCE_FORMATS.map(({ format, type }) => {
+        const srcSet = buildSrcSet(variants, format);
+        return srcSet ? <source key={format} type={type} srcSet={srcSet} sizes={sizes} /> : null;
+      })}
+      <img
+        src={image.url}
+        srcSet={buildSrcSet(variants, 'jpeg')}
+        sizes={sizes}
+        width={image.width ?? undefined}
+        height={image.height ?? undefined}
+        loading={loading}
+        decoding="async"
+        style={placeholderStyle}
+        {...imgProps}
+      />
+    </picture>
+  );
+}
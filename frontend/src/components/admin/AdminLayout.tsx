@@ -6,6 +6,7 @@ import {
   Building,
   Building2,
   LogOut,
+  MessageSquare,
   Settings,
   Users
 } from 'lucide-react';
@@ -50,7 +51,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
   const navigate = useNavigate();
   const { user, logout } = useAuth();
   const { data: dashboardData } = useDashboardStats();
-  const pendingApprovals = dashboardData?.pendingApprovals || 0;
+  const pendingApprovals = dashboardData?.moderation.status === 'ok' ? dashboardData.moderation.data.pendingReview : 0;
 
 
   const handleLogout = async () => {
@@ -79,6 +80,8 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
         return 'Configurações';
       case '/admin/approvals':
         return 'Aprovações';
+      case '/admin/messages':
+        return 'Mensagens';
       default:
         return 'Administração';
     }
@@ -107,6 +110,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
           <MenuItem icon={BarChart3} label="Análises" path="/admin/analytics" />
           <MenuItem icon={Settings} label="Configurações" path="/admin/settings" />
           <MenuItem icon={Bell} label="Aprovações" path="/admin/approvals" count={pendingApprovals} />
+          <MenuItem icon={MessageSquare} label="Mensagens" path="/admin/messages" />
         </nav>
       </div>
 
@@ -1,6 +1,15 @@
-import { useBackups, useCreateBackup, useDeleteBackup, useDownloadBackup, useRestoreBackup } from '@/api/admin-queries';
+import {
+  useApplyBackupRetention,
+  useBackupSchedule,
+  useBackups,
+  useCreateBackup,
+  useDeleteBackup,
+  useDownloadBackup,
+  useRestoreBackup,
+  type BackupItem,
+} from '@/api/admin-queries';
 import { Toast } from '@/components/Toast';
-import { AlertCircle, Clock, Database, Download, RefreshCw, Upload } from 'lucide-react';
+import { AlertCircle, CalendarClock, Clock, Database, Download, RefreshCw, ShieldCheck, Trash2, Upload } from 'lucide-react';
 import React, { useState } from 'react';
 
 interface BackupSettingsProps {
@@ -21,34 +30,44 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
   const { mutateAsync: restoreBackup, isPending: isRestoringBackup } = useRestoreBackup();
   const { mutateAsync: deleteBackup, isPending: isDeletingBackup } = useDeleteBackup();
   const { mutateAsync: downloadBackup, isPending: isDownloadingBackup } = useDownloadBackup();
+  const { data: schedule } = useBackupSchedule();
+  const { mutateAsync: applyRetention, isPending: isApplyingRetention } = useApplyBackupRetention();
 
   const handleBackup = async (type: 'full' | 'incremental' | 'settings') => {
     try {
-      await createBackup({
+      const result = await createBackup({
         type,
-        description: `Backup ${type} criado em ${new Date().toLocaleDateString('pt-PT')}`
+        description: `${getBackupTypeLabel(type)} criado em ${new Date().toLocaleDateString('pt-PT')}`
       });
-      setToast(`Backup ${type} criado com sucesso!`);
+      setToast(result.message || 'Backup criado com sucesso!');
       refetchBackups();
-    } catch (error) {
-      setToast('Erro ao criar backup');
+    } catch (error: any) {
+      setToast(error?.response?.data?.error || 'Erro ao criar backup');
     }
   };
 
-  const handleRestore = async (backupId: string) => {
-    if (!confirm('Tem certeza que deseja restaurar este backup? Esta ação irá substituir todas as configurações atuais.')) {
+  const handleRestore = async (backup: BackupItem) => {
+    const message = backup.type === 'incremental'
+      ? 'Restaurar este backup incremental? Será aplicada toda a cadeia, desde o backup completo de base.'
+      : 'Tem certeza que deseja restaurar este backup?';
+    if (!confirm(`${message} As configurações atuais e as configurações de módulo incluídas no backup serão substituídas.`)) {
       return;
     }
 
     try {
-      await restoreBackup({
-        backupId,
+      const result = await restoreBackup({
+        backupId: backup.id,
         confirmRestore: true
       });
-      setToast('Backup restaurado com sucesso!');
+      const restored = result.data;
+      setToast(
+        restored
+          ? `Backup restaurado: ${restored.moduleSettings} configurações de módulo, ${restored.history} entradas de histórico repostas`
+          : 'Backup restaurado com sucesso!'
+      );
       refetchBackups();
-    } catch (error) {
-      setToast('Erro ao restaurar backup');
+    } catch (error: any) {
+      setToast(error?.response?.data?.error || 'Erro ao restaurar backup');
     }
   };
 
@@ -58,12 +77,26 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
         await deleteBackup(backupId);
         setToast('Backup eliminado com sucesso!');
         refetchBackups();
-      } catch (error) {
-        setToast('Erro ao eliminar backup');
+      } catch (error: any) {
+        setToast(error?.response?.data?.error || 'Erro ao eliminar backup');
       }
     }
   };
 
+  const handleApplyRetention = async () => {
+    if (!confirm(`Eliminar os backups com mais de ${schedule?.retentionDays ?? 30} dias, mantendo os backups completos mais recentes?`)) {
+      return;
+    }
+
+    try {
+      const result = await applyRetention();
+      setToast(result.message || 'Política de retenção aplicada');
+      refetchBackups();
+    } catch (error) {
+      setToast('Erro ao aplicar política de retenção');
+    }
+  };
+
   const handleDownloadBackup = async (backupId: string, filename: string) => {
     try {
       const blob = await downloadBackup(backupId);
@@ -94,6 +127,39 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
     }
   };
 
+  const formatDate = (date?: string) => (date ? new Date(date).toLocaleString('pt-PT') : '—');
+
+  const getBackupDetails = (backup: BackupItem) => {
+    const parts = [
+      getBackupTypeLabel(backup.type),
+      backup.size,
+      formatDate(backup.createdAt),
+    ];
+    if (backup.counts.moduleSettings > 0) {
+      parts.push(`${backup.counts.moduleSettings} módulos`);
+    }
+    if (backup.counts.history > 0) {
+      parts.push(`${backup.counts.history} entradas de histórico`);
+    }
+    return parts.join(' • ');
+  };
+
+  const renderBackupBadges = (backup: BackupItem) => (
+    <div className="flex items-center space-x-2 mt-1">
+      {backup.scheduled && (
+        <span className="px-2 py-0.5 text-xs rounded-full bg-indigo-100 text-indigo-700">Agendado</span>
+      )}
+      {backup.schemaVersion < 2 && (
+        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-600">Formato antigo</span>
+      )}
+      <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">{backup.destination}</span>
+      <span className="flex items-center space-x-1 text-xs text-gray-400" title={`SHA-256: ${backup.checksum}`}>
+        <ShieldCheck size={12} />
+        <span className="font-mono">{backup.checksum.substring(0, 12)}</span>
+      </span>
+    </div>
+  );
+
   const getBackupTypeLabel = (type: string) => {
     switch (type) {
       case 'full':
@@ -125,7 +191,7 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
               </div>
               <div>
                 <h3 className="text-lg font-semibold text-gray-900">Backup & Restauração</h3>
-                <p className="text-sm text-gray-500">Gerencie backups e restaurações do sistema</p>
+                <p className="text-sm text-gray-500">Backups das configurações do sistema, dos módulos e do histórico de alterações</p>
               </div>
             </div>
           </div>
@@ -164,7 +230,8 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
                   <div>
                     <h4 className="text-sm font-medium text-blue-800">Criar Novo Backup</h4>
                     <p className="text-sm text-blue-700 mt-1">
-                      Crie um backup completo do sistema incluindo dados e configurações
+                      Os backups abrangem apenas o serviço de configurações. Utilizadores, imóveis e ficheiros
+                      multimédia têm os seus próprios mecanismos de cópia de segurança.
                     </p>
                   </div>
                 </div>
@@ -180,11 +247,11 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
                     <Database size={24} className="text-blue-600" />
                     <div>
                       <h5 className="font-medium text-gray-900">Backup Completo</h5>
-                      <p className="text-sm text-gray-500">Todos os dados</p>
+                      <p className="text-sm text-gray-500">Configurações, módulos e histórico</p>
                     </div>
                   </div>
                   <p className="text-xs text-gray-600">
-                    Inclui utilizadores, propriedades, configurações e ficheiros
+                    Configurações gerais, configurações de todos os módulos e histórico de alterações
                   </p>
                 </button>
 
@@ -201,7 +268,7 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
                     </div>
                   </div>
                   <p className="text-xs text-gray-600">
-                    Apenas dados modificados desde o último backup
+                    Alterações desde o último backup completo ou incremental (sem base, é criado um completo)
                   </p>
                 </button>
 
@@ -214,15 +281,57 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
                     <Database size={24} className="text-purple-600" />
                     <div>
                       <h5 className="font-medium text-gray-900">Apenas Configurações</h5>
-                      <p className="text-sm text-gray-500">Settings only</p>
+                      <p className="text-sm text-gray-500">Configurações gerais</p>
                     </div>
                   </div>
                   <p className="text-xs text-gray-600">
-                    Apenas configurações do sistema
+                    Marca, contactos, SEO e restantes configurações gerais
                   </p>
                 </button>
               </div>
 
+              {schedule && (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start space-x-3">
+                      <CalendarClock size={20} className="text-gray-600 mt-0.5" />
+                      <div className="text-sm text-gray-700 space-y-1">
+                        <h4 className="font-medium text-gray-900">Agendamento e retenção</h4>
+                        {schedule.scheduleEnabled ? (
+                          <>
+                            <p>
+                              Backup completo a cada {schedule.fullIntervalHours}h
+                              {schedule.incrementalIntervalHours > 0 && `, incremental a cada ${schedule.incrementalIntervalHours}h`}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Próximo completo: {formatDate(schedule.nextFullBackup)}
+                              {schedule.nextIncrementalBackup && ` • Próximo incremental: ${formatDate(schedule.nextIncrementalBackup)}`}
+                            </p>
+                          </>
+                        ) : (
+                          <p>Backups agendados desativados</p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Retenção de {schedule.retentionDays} dias, mantendo sempre os {schedule.retentionMinFull} backups
+                          completos mais recentes • Destino: {schedule.destination}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Último backup: {schedule.lastBackup ? formatDate(schedule.lastBackup.createdAt) : 'nenhum'}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={handleApplyRetention}
+                      disabled={isApplyingRetention}
+                      className="px-3 py-1 text-gray-600 border border-gray-300 rounded hover:bg-white transition-colors text-sm flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      <Trash2 size={14} />
+                      <span>{isApplyingRetention ? 'Aplicando...' : 'Aplicar retenção'}</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {isCreatingBackup && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <div className="flex items-center space-x-3">
@@ -243,7 +352,9 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
                   <div>
                     <h4 className="text-sm font-medium text-yellow-800">Atenção</h4>
                     <p className="text-sm text-yellow-700 mt-1">
-                      A restauração irá substituir todos os dados atuais. Certifique-se de fazer um backup antes de proceder.
+                      A restauração substitui as configurações atuais e as configurações de módulo incluídas no backup.
+                      O ficheiro é verificado (checksum e versão do formato) antes de qualquer alteração.
+                      Certifique-se de fazer um backup antes de proceder.
                     </p>
                   </div>
                 </div>
@@ -262,15 +373,14 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
                         <div className="flex items-center space-x-3">
                           {getBackupTypeIcon(backup.type)}
                           <div>
-                            <div className="text-sm font-medium text-gray-900">{backup.name}</div>
-                            <div className="text-xs text-gray-500">
-                              {getBackupTypeLabel(backup.type)} • {backup.size} • {backup.createdAt}
-                            </div>
+                            <div className="text-sm font-medium text-gray-900">{backup.description || backup.name}</div>
+                            <div className="text-xs text-gray-500">{getBackupDetails(backup)}</div>
+                            {renderBackupBadges(backup)}
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
                           <button
-                            onClick={() => handleRestore(backup.id)}
+                            onClick={() => handleRestore(backup)}
                             disabled={isRestoringBackup}
                             className="px-3 py-1 text-orange-600 border border-orange-200 rounded hover:bg-orange-50 transition-colors text-sm disabled:opacity-50"
                           >
@@ -312,10 +422,9 @@ export const BackupSettings: React.FC<BackupSettingsProps> = () => {
                         <div className="flex items-center space-x-3">
                           {getBackupTypeIcon(backup.type)}
                           <div>
-                            <div className="text-sm font-medium text-gray-900">{backup.name}</div>
-                            <div className="text-xs text-gray-500">
-                              {getBackupTypeLabel(backup.type)} • {backup.size} • {backup.createdAt}
-                            </div>
+                            <div className="text-sm font-medium text-gray-900">{backup.description || backup.name}</div>
+                            <div className="text-xs text-gray-500">{getBackupDetails(backup)}</div>
+                            {renderBackupBadges(backup)}
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
@@ -0,0 +1,291 @@
+import {
+  useModuleSchemas,
+  useModuleSettings,
+  useUpdateModuleSettings,
+  type ModuleSettingsSchema,
+  type ModuleSettingsSchemaProperty,
+} from '@/api/admin-queries';
+import { Toast } from '@/components/Toast';
+import { Boxes, RefreshCw, RotateCcw, Save } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Validação local para feedback imediato; o settings-service valida sempre contra o schema registado
+const validateValue = (schema: ModuleSettingsSchemaProperty, value: any, path: string, errors: Record<string, string>) => {
+  if (schema.type === 'object' && schema.properties) {
+    for (const [key, child] of Object.entries(schema.properties)) {
+      validateValue(child, value?.[key], path ? `${path}.${key}` : key, errors);
+    }
+    return;
+  }
+
+  if (schema.type === 'number' || schema.type === 'integer') {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      errors[path] = 'Valor numérico obrigatório';
+    } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+      errors[path] = 'Deve ser um número inteiro';
+    } else if (schema.minimum !== undefined && value < schema.minimum) {
+      errors[path] = `Mínimo: ${schema.minimum}`;
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      errors[path] = `Máximo: ${schema.maximum}`;
+    }
+  }
+};
+
+interface SchemaFieldProps {
+  name: string;
+  path: string;
+  schema: ModuleSettingsSchemaProperty;
+  value: any;
+  errors: Record<string, string>;
+  onChange: (value: any) => void;
+}
+
+const SchemaField: React.FC<SchemaFieldProps> = ({ name, path, schema, value, errors, onChange }) => {
+  const label = schema.title || name;
+  const error = errors[path];
+
+  if (schema.type === 'object' && schema.properties) {
+    return (
+      <fieldset className="border border-gray-100 rounded-lg p-4 md:col-span-2">
+        <legend className="px-2 text-sm font-semibold text-gray-800">{label}</legend>
+        {schema.description && <p className="text-xs text-gray-500 mb-3">{schema.description}</p>}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {Object.entries(schema.properties).map(([key, child]) => (
+            <SchemaField
+              key={key}
+              name={key}
+              path={`${path}.${key}`}
+              schema={child}
+              value={value?.[key]}
+              errors={errors}
+              onChange={(childValue) => onChange({ ...(value || {}), [key]: childValue })}
+            />
+          ))}
+        </div>
+      </fieldset>
+    );
+  }
+
+  if (schema.type === 'boolean') {
+    return (
+      <label className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => onChange(e.target.checked)}
+          className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-700">{label}</span>
+          {schema.description && <span className="block text-xs text-gray-500">{schema.description}</span>}
+        </span>
+      </label>
+    );
+  }
+
+  let input: React.ReactNode;
+  if (schema.enum) {
+    input = (
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+        {schema.enum.map((option) => (
+          <option key={String(option)} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (schema.type === 'number' || schema.type === 'integer') {
+    input = (
+      <input
+        type="number"
+        value={value ?? ''}
+        min={schema.minimum}
+        max={schema.maximum}
+        step={schema.type === 'integer' ? 1 : 'any'}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className={inputClassName}
+      />
+    );
+  } else {
+    input = (
+      <input type="text" value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={inputClassName} />
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      {input}
+      {error ? (
+        <p className="text-xs text-red-600 mt-1">{error}</p>
+      ) : (
+        schema.description && <p className="text-xs text-gray-500 mt-1">{schema.description}</p>
+      )}
+    </div>
+  );
+};
+
+const ModuleSettingsForm: React.FC<{ registration: ModuleSettingsSchema; onToast: (message: string) => void }> = ({
+  registration,
+  onToast,
+}) => {
+  const { data: settingsResponse, isLoading, refetch } = useModuleSettings(registration.moduleName);
+  const { mutateAsync: updateModuleSettings, isPending: isSaving } = useUpdateModuleSettings();
+  const [values, setValues] = useState<Record<string, any>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({ ...registration.defaults, ...(settingsResponse?.data || {}) });
+    setErrors({});
+  }, [registration, settingsResponse]);
+
+  const properties = registration.schema.properties || {};
+
+  const save = async (next: Record<string, any>) => {
+    const validationErrors: Record<string, string> = {};
+    validateValue(registration.schema, next, '', validationErrors);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      onToast('Corrija os campos assinalados antes de guardar');
+      return;
+    }
+
+    try {
+      const result = await updateModuleSettings({ moduleName: registration.moduleName, settings: next });
+      if (!result.success) {
+        onToast(result.message || result.error || 'Erro ao guardar configurações do módulo');
+        return;
+      }
+      onToast('Configurações guardadas. Os serviços aplicam-nas automaticamente em poucos segundos.');
+    } catch (error: any) {
+      onToast(error?.response?.data?.message || 'Erro ao guardar configurações do módulo');
+    }
+  };
+
+  const handleResetDefaults = () => {
+    if (confirm(`Repor os valores por omissão do módulo "${registration.moduleName}"?`)) {
+      setValues({ ...registration.defaults });
+      void save({ ...registration.defaults });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="p-6 text-sm text-gray-500">A carregar configurações...</div>;
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800">{registration.moduleName}</h4>
+          {registration.description && <p className="text-sm text-gray-500">{registration.description}</p>}
+          <p className="text-xs text-gray-400 mt-1">
+            Registado por {registration.service} · schema v{registration.version} ·{' '}
+            {new Date(registration.updatedAt).toLocaleString('pt-PT')}
+          </p>
+        </div>
+        <button
+          onClick={() => refetch()}
+          className="p-2 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100"
+          title="Recarregar"
+        >
+          <RefreshCw size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {Object.entries(properties).map(([key, schema]) => (
+          <SchemaField
+            key={key}
+            name={key}
+            path={key}
+            schema={schema}
+            value={values[key]}
+            errors={errors}
+            onChange={(value) => setValues((current) => ({ ...current, [key]: value }))}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
+        <button
+          onClick={handleResetDefaults}
+          disabled={isSaving}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center space-x-2"
+        >
+          <RotateCcw size={16} />
+          <span>Repor valores por omissão</span>
+        </button>
+        <button
+          onClick={() => save(values)}
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+        >
+          <Save size={16} />
+          <span>{isSaving ? 'Guardando...' : 'Guardar'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Formulários gerados a partir dos schemas que cada serviço regista no settings-service.
+ * As alterações são aplicadas pelos serviços sem reinício (polling com ETag).
+ */
+export const ModuleSettings: React.FC = () => {
+  const [toast, setToast] = useState<string | null>(null);
+  const { data: schemas = [], isLoading } = useModuleSchemas();
+  const [selectedModule, setSelectedModule] = useState<string | null>(null);
+
+  const selected = schemas.find((schema) => schema.moduleName === selectedModule) || schemas[0];
+
+  return (
+    <>
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-100 flex items-center space-x-3">
+          <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+            <Boxes size={20} className="text-blue-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">Configurações de Módulos</h3>
+            <p className="text-sm text-gray-500">Limites e parâmetros de cada serviço, aplicados sem novo deploy</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="p-6 text-sm text-gray-500">A carregar módulos...</div>
+        ) : schemas.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">
+            Nenhum serviço registou ainda um schema de configurações. Os serviços registam-se automaticamente ao arrancar.
+          </div>
+        ) : (
+          <>
+            <div className="px-6 pt-4 flex flex-wrap gap-2">
+              {schemas.map((schema) => (
+                <button
+                  key={schema.moduleName}
+                  onClick={() => setSelectedModule(schema.moduleName)}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+                    selected?.moduleName === schema.moduleName
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {schema.moduleName}
+                </button>
+              ))}
+            </div>
+            {selected && <ModuleSettingsForm key={selected.moduleName} registration={selected} onToast={setToast} />}
+          </>
+        )}
+      </div>
+
+      <Toast text={toast ?? ''} show={!!toast} onClose={() => setToast(null)} />
+    </>
+  );
+};
+
+export default ModuleSettings;
@@ -0,0 +1,307 @@
+import {
+  useExportSettingsHistory,
+  useRevertSettings,
+  useSettingsHistory,
+  useSettingsHistoryDiff,
+  type SettingsHistoryEntry,
+} from '@/api/admin-queries';
+import { Toast } from '@/components/Toast';
+import { ChevronLeft, ChevronRight, Download, GitCompare, History, RefreshCw, RotateCcw, X } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+
+const FIELD_LABELS: Record<string, string> = {
+  brandName: 'Nome da marca',
+  logoUrl: 'Logótipo',
+  faviconUrl: 'Favicon',
+  primaryColor: 'Cor primária',
+  secondaryColor: 'Cor secundária',
+  accentColor: 'Cor de destaque',
+  backgroundColor: 'Cor de fundo',
+  textColor: 'Cor do texto',
+  contactEmail: 'Email de contacto',
+  contactPhone: 'Telefone de contacto',
+  contactAddress: 'Morada',
+  socialLinks: 'Redes sociais',
+  businessHours: 'Horário de funcionamento',
+  businessConfig: 'Configurações de negócio',
+  seoTitle: 'Título SEO',
+  seoDescription: 'Descrição SEO',
+  seoKeywords: 'Palavras-chave SEO',
+  maintenanceMode: 'Modo de manutenção',
+};
+
+const PAGE_SIZE = 20;
+
+// Entradas da mesma atualização partilham o instante e formam uma versão
+interface SettingsVersion {
+  createdAt: string;
+  changedBy: string | null;
+  changeReason: string | null;
+  entries: SettingsHistoryEntry[];
+}
+
+const fieldLabel = (field: string) => FIELD_LABELS[field] || field;
+
+const formatDate = (date: string) => new Date(date).toLocaleString('pt-PT');
+
+const HistoryValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null || value === undefined || value === '') {
+    return <span className="italic text-gray-400">vazio</span>;
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  const isColor = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(text);
+
+  return (
+    <span className="inline-flex items-center space-x-1 max-w-xs" title={text}>
+      {isColor && <span className="w-3 h-3 rounded border border-gray-300" style={{ backgroundColor: text }} />}
+      <span className="font-mono text-xs text-gray-700 truncate">{text}</span>
+    </span>
+  );
+};
+
+export const SettingsHistory: React.FC = () => {
+  const [toast, setToast] = useState<string | null>(null);
+  const [field, setField] = useState('');
+  const [page, setPage] = useState(1);
+  const [diffFrom, setDiffFrom] = useState<string | undefined>();
+
+  const filters = { page, limit: PAGE_SIZE, ...(field && { field }) };
+  const { data: historyResponse, isLoading, refetch } = useSettingsHistory(filters);
+  const { data: diffResponse, isLoading: isLoadingDiff } = useSettingsHistoryDiff(diffFrom);
+  const { mutateAsync: revertSettings, isPending: isReverting } = useRevertSettings();
+  const { mutateAsync: exportHistory, isPending: isExporting } = useExportSettingsHistory();
+
+  const totalPages = historyResponse?.meta?.totalPages || 1;
+  const diff = diffResponse?.success ? diffResponse.data : undefined;
+
+  const versions = useMemo(() => {
+    const groups: SettingsVersion[] = [];
+    for (const entry of historyResponse?.data || []) {
+      const last = groups[groups.length - 1];
+      if (last && last.createdAt === entry.createdAt && last.changedBy === entry.changedBy) {
+        last.entries.push(entry);
+      } else {
+        groups.push({
+          createdAt: entry.createdAt,
+          changedBy: entry.changedBy,
+          changeReason: entry.changeReason,
+          entries: [entry],
+        });
+      }
+    }
+    return groups;
+  }, [historyResponse]);
+
+  const handleRevert = async (version: SettingsVersion) => {
+    const reason = prompt(
+      `Reverter as configurações para o estado de ${formatDate(version.createdAt)}?\nIndique o motivo (opcional):`
+    );
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      const result = await revertSettings({
+        historyId: version.entries[0]!.id,
+        ...(reason.trim() && { reason: reason.trim() }),
+      });
+      const skipped = result.data?.skippedFields || [];
+      setToast(
+        skipped.length > 0
+          ? `Configurações revertidas. Campos não repostos: ${skipped.map(fieldLabel).join(', ')}`
+          : result.message || 'Configurações revertidas com sucesso!'
+      );
+    } catch (error) {
+      setToast('Erro ao reverter configurações');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = await exportHistory(field ? { field } : {});
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `settings_history_${new Date().toISOString().substring(0, 10)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      setToast('Erro ao exportar histórico');
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+                <History size={20} className="text-indigo-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Histórico de Alterações</h3>
+                <p className="text-sm text-gray-500">Quem alterou o quê, e reversão para versões anteriores</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={field}
+                onChange={(e) => {
+                  setField(e.target.value);
+                  setPage(1);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Todos os campos</option>
+                {Object.entries(FIELD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => refetch()}
+                className="px-3 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+              >
+                <RefreshCw size={16} />
+                <span>Atualizar</span>
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={isExporting}
+                className="px-3 py-2 text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Download size={16} />
+                <span>{isExporting ? 'Exportando...' : 'Exportar CSV'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Diff */}
+        {diffFrom && (
+          <div className="p-6 border-b border-gray-100 bg-indigo-50/50">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-md font-medium text-gray-900">
+                Diferenças desde {formatDate(diffFrom)} até agora
+              </h4>
+              <button
+                onClick={() => setDiffFrom(undefined)}
+                className="p-1 text-gray-500 hover:text-gray-700"
+                aria-label="Fechar comparação"
+              >
+                <X size={16} />
+              </button>
+            </div>
+            {isLoadingDiff ? (
+              <p className="text-sm text-gray-500">Calculando diferenças...</p>
+            ) : diff && diff.changes.length > 0 ? (
+              <div className="space-y-2">
+                {diff.changes.map((change) => (
+                  <div key={change.field} className="flex items-center space-x-3 text-sm">
+                    <span className="w-48 font-medium text-gray-700">{fieldLabel(change.field)}</span>
+                    <HistoryValue value={change.from} />
+                    <span className="text-gray-400">→</span>
+                    <HistoryValue value={change.to} />
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500 pt-2">
+                  {diff.entries.length} alteraç{diff.entries.length === 1 ? 'ão' : 'ões'} no intervalo
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Sem diferenças neste intervalo</p>
+            )}
+          </div>
+        )}
+
+        {/* Versions */}
+        <div className="p-6">
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+              <p className="text-gray-500 mt-2">Carregando histórico...</p>
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <History size={32} className="mx-auto mb-2 text-gray-400" />
+              <p>Nenhuma alteração registada</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {versions.map((version) => (
+                <div key={`${version.createdAt}-${version.entries[0]!.id}`} className="bg-gray-50 rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{formatDate(version.createdAt)}</div>
+                      <div className="text-xs text-gray-500">
+                        {version.changedBy ? `Por ${version.changedBy}` : 'Utilizador desconhecido'}
+                        {version.changeReason && ` • ${version.changeReason}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setDiffFrom(version.createdAt)}
+                        className="px-3 py-1 text-indigo-600 border border-indigo-200 rounded hover:bg-indigo-50 transition-colors text-sm flex items-center space-x-1"
+                      >
+                        <GitCompare size={14} />
+                        <span>Comparar com atual</span>
+                      </button>
+                      <button
+                        onClick={() => handleRevert(version)}
+                        disabled={isReverting}
+                        className="px-3 py-1 text-orange-600 border border-orange-200 rounded hover:bg-orange-50 transition-colors text-sm flex items-center space-x-1 disabled:opacity-50"
+                      >
+                        <RotateCcw size={14} />
+                        <span>{isReverting ? 'Revertendo...' : 'Reverter para esta versão'}</span>
+                      </button>
+                    </div>
+                  </div>
+                  <div className="mt-3 space-y-1">
+                    {version.entries.map((entry) => (
+                      <div key={entry.id} className="flex items-center space-x-3 text-sm">
+                        <span className="w-48 text-gray-700">{fieldLabel(entry.fieldName)}</span>
+                        <HistoryValue value={entry.oldValue} />
+                        <span className="text-gray-400">→</span>
+                        <HistoryValue value={entry.newValue} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+                className="px-3 py-1 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 transition-colors text-sm flex items-center space-x-1 disabled:opacity-50"
+              >
+                <ChevronLeft size={14} />
+                <span>Anterior</span>
+              </button>
+              <span className="text-sm text-gray-500">Página {page} de {totalPages}</span>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+                className="px-3 py-1 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 transition-colors text-sm flex items-center space-x-1 disabled:opacity-50"
+              >
+                <span>Seguinte</span>
+                <ChevronRight size={14} />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Toast text={toast ?? ''} show={!!toast} onClose={() => setToast(null)} />
+    </>
+  );
+};
+
+export default SettingsHistory;
@@ -481,7 +481,8 @@ export const SystemSettings: React.FC<SystemSettingsProps> = ({
                   <div>
                     <h4 className="text-sm font-medium text-yellow-800">Modo de Manutenção</h4>
                     <p className="text-sm text-yellow-700 mt-1">
-                      Ative o modo de manutenção para realizar atualizações
+                      Enquanto ativo, o API Gateway responde 503 aos visitantes e mostra a página de manutenção.
+                      Administradores e IPs autorizados continuam com acesso.
                     </p>
                   </div>
                 </div>
@@ -1,5 +1,7 @@
 export { default as BackupSettings } from './BackupSettings';
 export { default as BrandSettings } from './BrandSettings';
+export { default as ModuleSettings } from './ModuleSettings';
 export { default as SEOSettings } from './SEOSettings';
+export { default as SettingsHistory } from './SettingsHistory';
 export { default as SystemSettings } from './SystemSettings';
 
@@ -25,12 +25,27 @@ interface CommunicationData {
 }
 
 const EMAIL_TEMPLATES = [
-  { id: 'welcome', name: 'Boas-vindas', subject: 'Bem-vindo ao Portal Imobiliário', content: 'Olá {name}, bem-vindo ao nosso portal!' },
-  { id: 'password_reset', name: 'Reset de Password', subject: 'Reset da sua palavra-passe', content: 'Clique no link para redefinir a sua palavra-passe.' },
-  { id: 'account_activation', name: 'Ativação de Conta', subject: 'Ative a sua conta', content: 'Clique no link para ativar a sua conta.' },
+  { id: 'welcome', name: 'Boas-vindas', subject: 'Bem-vindo ao Portal Imobiliário', content: 'Olá {name}, bem-vindo ao nosso portal!\n\nPode consultar os imóveis disponíveis em {siteUrl}.' },
+  { id: 'announcement', name: 'Anúncio', subject: 'Novidades do Portal Imobiliário', content: 'Olá {firstName},\n\nTemos novidades para partilhar consigo em {siteUrl}.\n\nCumprimentos,\nEquipa Ribeira Azul' },
+  { id: 'market_update', name: 'Atualização de mercado', subject: 'Atualização do mercado imobiliário', content: 'Olá {firstName},\n\nPreparámos um resumo das novidades do mercado para si em {siteUrl}.' },
+  { id: 'password_reset', name: 'Reset de Password', subject: 'Reset da sua palavra-passe', content: 'Olá {name},\n\nPara redefinir a sua palavra-passe aceda a {siteUrl} e escolha "Esqueci-me da palavra-passe" na página de entrada.' },
+  { id: 'account_activation', name: 'Ativação de Conta', subject: 'Ative a sua conta', content: 'Olá {name},\n\nA sua conta ({email}) ainda não está ativa. Entre em {siteUrl} para concluir a ativação.' },
   { id: 'custom', name: 'Personalizado', subject: '', content: '' }
 ];
 
+// Valores de exemplo para a pré-visualização (o envio substitui-os pelos dados de cada utilizador)
+const PREVIEW_PLACEHOLDERS: Record<string, string> = {
+  name: 'João Silva',
+  firstName: 'João',
+  lastName: 'Silva',
+  email: 'joao.silva@exemplo.pt',
+  siteUrl: window.location.origin,
+  date: new Date().toLocaleDateString('pt-PT')
+};
+
+const renderPreview = (text: string) =>
+  text.replace(/\{(\w+)\}/g, (match, key: string) => PREVIEW_PLACEHOLDERS[key] ?? match);
+
 export const UserCommunication: React.FC<UserCommunicationProps> = ({ users, onClose, onSend }) => {
   const [formData, setFormData] = useState<CommunicationData>({
     type: 'email',
@@ -175,7 +190,7 @@ export const UserCommunication: React.FC<UserCommunicationProps> = ({ users, onC
               placeholder="Digite a sua mensagem..."
             />
             <p className="text-xs text-gray-500 mt-1">
-              Use {'{name}'} para personalizar com o nome do utilizador
+              Use {'{name}'}, {'{firstName}'}, {'{lastName}'}, {'{email}'}, {'{siteUrl}'} ou {'{date}'} para personalizar a mensagem
             </p>
           </div>
 
@@ -184,9 +199,9 @@ export const UserCommunication: React.FC<UserCommunicationProps> = ({ users, onC
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Pré-visualização</label>
               <div className="p-4 bg-gray-50 rounded-lg border">
-                <div className="text-sm font-medium text-gray-900 mb-2">{formData.subject}</div>
+                <div className="text-sm font-medium text-gray-900 mb-2">{renderPreview(formData.subject)}</div>
                 <div className="text-sm text-gray-700 whitespace-pre-wrap">
-                  {formData.message.replace('{name}', 'João Silva')}
+                  {renderPreview(formData.message)}
                 </div>
               </div>
             </div>
@@ -1,139 +1,105 @@
+import {
+  useCreateUserImportJob,
+  useDownloadUserImportReport,
+  useUserImportJob,
+  useUserImportRows,
+  type UserImportJob,
+  type UserImportOptions
+} from '@/api/admin-queries';
 import Modal from '@/components/Modal';
 import { Toast } from '@/components/Toast';
 import { AlertCircle, CheckCircle, Download, FileText, Upload, X } from 'lucide-react';
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 
 interface UserImportProps {
   onClose: () => void;
-  onImport: (users: ImportUserData[]) => Promise<void>;
-}
-
-interface ImportUserData {
-  email: string;
-  firstName: string;
-  lastName: string;
-  phone?: string;
-  role: string;
-  isActive: boolean;
-  isVerified: boolean;
-}
-
-interface ImportResult {
-  success: boolean;
-  data?: ImportUserData[];
-  errors?: string[];
+  onComplete?: (job: UserImportJob) => void;
 }
 
 const CSV_TEMPLATE = `email,firstName,lastName,phone,role,isActive,isVerified
 joao.silva@exemplo.com,João,Silva,+351 123 456 789,client,true,false
-maria.santos@exemplo.com,Maria,Santos,+351 987 654 321,agent,true,true`;
+maria.santos@exemplo.com,"Maria José","Santos, Costa",+351 987 654 321,agent,true,true`;
+
+const ROLE_OPTIONS = [
+  { value: 'client', label: 'Cliente' },
+  { value: 'agent', label: 'Agente' },
+  { value: 'admin', label: 'Administrador' }
+];
 
-export const UserImport: React.FC<UserImportProps> = ({ onClose, onImport }) => {
+const ACCEPTED_EXTENSIONS = ['.csv', '.xlsx'];
+
+export const UserImport: React.FC<UserImportProps> = ({ onClose, onComplete }) => {
   const [file, setFile] = useState<File | null>(null);
-  const [importResult, setImportResult] = useState<ImportResult | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [options, setOptions] = useState<UserImportOptions>({
+    dryRun: true,
+    upsert: false,
+    sendInvitations: true,
+    defaultRole: 'client'
+  });
+  const [jobId, setJobId] = useState<string | null>(null);
   const [toast, setToast] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const notifiedJobRef = useRef<string | null>(null);
+
+  const { mutateAsync: createImportJob, isPending: isUploading } = useCreateUserImportJob();
+  const { mutateAsync: downloadReport, isPending: isDownloading } = useDownloadUserImportReport();
+  const { data: job } = useUserImportJob(jobId);
+  const isFinished = job?.status === 'completed' || job?.status === 'failed';
+  const { data: failedRows } = useUserImportRows(isFinished ? jobId : null, 'failed');
+
+  useEffect(() => {
+    if (job && isFinished && !job.dryRun && notifiedJobRef.current !== job.id) {
+      notifiedJobRef.current = job.id;
+      onComplete?.(job);
+    }
+  }, [job, isFinished, onComplete]);
+
+  const resetJob = () => {
+    setJobId(null);
+    notifiedJobRef.current = null;
+  };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (selectedFile) {
-      if (selectedFile.type !== 'text/csv' && !selectedFile.name.endsWith('.csv')) {
-        setToast('Por favor, selecione um ficheiro CSV válido');
+      const name = selectedFile.name.toLowerCase();
+      if (!ACCEPTED_EXTENSIONS.some(extension => name.endsWith(extension))) {
+        setToast('Por favor, selecione um ficheiro CSV ou XLSX válido');
         return;
       }
       setFile(selectedFile);
-      setImportResult(null);
-    }
-  };
-
-  const parseCSV = (csvText: string): ImportResult => {
-    const lines = csvText.split('\n').filter(line => line.trim());
-    if (lines.length < 2) {
-      return { success: false, errors: ['Ficheiro CSV deve ter pelo menos um cabeçalho e uma linha de dados'] };
-    }
-
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const requiredHeaders = ['email', 'firstname', 'lastname', 'role'];
-    
-    const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
-    if (missingHeaders.length > 0) {
-      return { 
-        success: false, 
-        errors: [`Cabeçalhos obrigatórios em falta: ${missingHeaders.join(', ')}`] 
-      };
-    }
-
-    const users: ImportUserData[] = [];
-    const errors: string[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-      if (values.length !== headers.length) {
-        errors.push(`Linha ${i + 1}: Número de colunas incorreto`);
-        continue;
-      }
-
-      const user: any = {};
-      headers.forEach((header, index) => {
-        user[header] = values[index];
-      });
-
-      // Validações
-      if (!user.email || !user.email.includes('@')) {
-        errors.push(`Linha ${i + 1}: Email inválido`);
-        continue;
-      }
-
-      if (!user.firstname || !user.lastname) {
-        errors.push(`Linha ${i + 1}: Nome e apelido são obrigatórios`);
-        continue;
-      }
-
-      const validRoles = ['client', 'agent', 'admin', 'super_admin'];
-      if (!validRoles.includes(user.role?.toLowerCase())) {
-        errors.push(`Linha ${i + 1}: Role inválido. Use: ${validRoles.join(', ')}`);
-        continue;
-      }
-
-      users.push({
-        email: user.email,
-        firstName: user.firstname,
-        lastName: user.lastname,
-        phone: user.phone || '',
-        role: user.role.toLowerCase(),
-        isActive: user.isactive?.toLowerCase() === 'true' || true,
-        isVerified: user.isverified?.toLowerCase() === 'true' || false
-      });
+      resetJob();
     }
-
-    return { success: true, data: users, errors: errors.length > 0 ? errors : undefined };
   };
 
-  const handleProcessFile = async () => {
+  const startImport = async (dryRun: boolean) => {
     if (!file) return;
 
-    setIsProcessing(true);
     try {
-      const text = await file.text();
-      const result = parseCSV(text);
-      setImportResult(result);
-    } catch (error) {
-      setToast('Erro ao processar o ficheiro');
-    } finally {
-      setIsProcessing(false);
+      const created = await createImportJob({ file, options: { ...options, dryRun } });
+      notifiedJobRef.current = null;
+      setJobId(created.id);
+    } catch (error: any) {
+      setToast(error?.response?.data?.error?.message || 'Erro ao processar o ficheiro');
     }
   };
 
-  const handleImport = async () => {
-    if (!importResult?.data) return;
+  const handleDownloadReport = async () => {
+    if (!job) return;
 
     try {
-      await onImport(importResult.data);
-      setToast(`${importResult.data.length} utilizadores importados com sucesso`);
-      setTimeout(() => onClose(), 1500);
+      const blob = await downloadReport(job.id);
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', `relatorio_importacao_${job.id}.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
     } catch (error) {
-      setToast('Erro ao importar utilizadores');
+      setToast('Erro ao descarregar o relatório');
     }
   };
 
@@ -149,6 +115,9 @@ export const UserImport: React.FC<UserImportProps> = ({ onClose, onImport }) =>
     document.body.removeChild(link);
   };
 
+  const progress = job && job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+  const isRunning = !!jobId && !isFinished;
+
   return (
     <>
       <Modal open={true} title="Importar Utilizadores" onClose={onClose}>
@@ -160,10 +129,11 @@ export const UserImport: React.FC<UserImportProps> = ({ onClose, onImport }) =>
               <div>
                 <h3 className="text-sm font-medium text-blue-800">Instruções de Importação</h3>
                 <ul className="text-sm text-blue-700 mt-2 space-y-1">
-                  <li>• Use um ficheiro CSV com os cabeçalhos corretos</li>
-                  <li>• Campos obrigatórios: email, firstName, lastName, role</li>
-                  <li>• Roles válidos: client, agent, admin, super_admin</li>
-                  <li>• Campos opcionais: phone, isActive, isVerified</li>
+                  <li>• Use um ficheiro CSV ou Excel (XLSX) com os cabeçalhos corretos</li>
+                  <li>• Campos obrigatórios: email, firstName, lastName</li>
+                  <li>• Campos opcionais: phone, role, isActive, isVerified</li>
+                  <li>• Linhas sem role usam o perfil por omissão</li>
+                  <li>• Os novos utilizadores recebem um convite para definir a palavra-passe</li>
                 </ul>
               </div>
             </div>
@@ -189,12 +159,12 @@ export const UserImport: React.FC<UserImportProps> = ({ onClose, onImport }) =>
 
           {/* Upload File */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Selecionar Ficheiro CSV</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Selecionar Ficheiro CSV ou XLSX</label>
             <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv"
+                accept={ACCEPTED_EXTENSIONS.join(',')}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -208,10 +178,11 @@ export const UserImport: React.FC<UserImportProps> = ({ onClose, onImport }) =>
                   <button
                     onClick={() => {
                       setFile(null);
-                      setImportResult(null);
+                      resetJob();
                       if (fileInputRef.current) fileInputRef.current.value = '';
                     }}
-                    className="text-red-600 hover:text-red-800"
+                    disabled={isRunning}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
                   >
                     <X size={16} />
                   </button>
@@ -225,64 +196,120 @@ export const UserImport: React.FC<UserImportProps> = ({ onClose, onImport }) =>
                   >
                     Clique para selecionar um ficheiro
                   </button>
-                  <p className="text-xs text-gray-500 mt-1">ou arraste o ficheiro para aqui</p>
                 </div>
               )}
             </div>
           </div>
 
-          {/* Process Button */}
-          {file && !importResult && (
-            <button
-              onClick={handleProcessFile}
-              disabled={isProcessing}
-              className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {isProcessing ? 'Processando...' : 'Processar Ficheiro'}
-            </button>
+          {/* Opções */}
+          {file && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Perfil por omissão</label>
+                <select
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  value={options.defaultRole}
+                  disabled={isRunning}
+                  onChange={(e) => {
+                    setOptions(prev => ({ ...prev, defaultRole: e.target.value }));
+                    resetJob();
+                  }}
+                >
+                  {ROLE_OPTIONS.map(role => (
+                    <option key={role.value} value={role.value}>{role.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={options.upsert}
+                    disabled={isRunning}
+                    onChange={(e) => {
+                      setOptions(prev => ({ ...prev, upsert: e.target.checked }));
+                      resetJob();
+                    }}
+                  />
+                  <span>Atualizar utilizadores existentes (mesmo email)</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={options.sendInvitations}
+                    disabled={isRunning}
+                    onChange={(e) => setOptions(prev => ({ ...prev, sendInvitations: e.target.checked }))}
+                  />
+                  <span>Enviar convite por email aos novos utilizadores</span>
+                </label>
+              </div>
+            </div>
           )}
 
-          {/* Results */}
-          {importResult && (
+          {/* Progresso */}
+          {job && !isFinished && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-700 mb-1">
+                <span>{job.dryRun ? 'A validar...' : 'A importar...'}</span>
+                <span>{job.processedRows} / {job.totalRows}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+              </div>
+            </div>
+          )}
+
+          {/* Resultados */}
+          {job && isFinished && (
             <div className="space-y-4">
-              {importResult.success ? (
-                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                  <div className="flex items-center space-x-3">
-                    <CheckCircle size={20} className="text-green-600" />
-                    <div>
-                      <div className="text-sm font-medium text-green-800">
-                        {importResult.data?.length} utilizadores prontos para importar
-                      </div>
-                      <div className="text-xs text-green-700 mt-1">
-                        Clique em "Importar" para adicionar ao sistema
-                      </div>
+              {job.status === 'failed' ? (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <div className="flex items-start space-x-3">
+                    <X size={20} className="text-red-600 mt-0.5" />
+                    <div className="text-sm text-red-800">
+                      A importação foi interrompida{job.error ? `: ${job.error}` : ''}
                     </div>
                   </div>
                 </div>
               ) : (
-                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                   <div className="flex items-start space-x-3">
-                    <X size={20} className="text-red-600 mt-0.5" />
+                    <CheckCircle size={20} className="text-green-600 mt-0.5" />
                     <div>
-                      <div className="text-sm font-medium text-red-800">Erros encontrados:</div>
-                      <ul className="text-xs text-red-700 mt-1 space-y-1">
-                        {importResult.errors?.map((error, index) => (
-                          <li key={index}>• {error}</li>
-                        ))}
+                      <div className="text-sm font-medium text-green-800">
+                        {job.dryRun ? 'Validação concluída (nenhum utilizador foi alterado)' : 'Importação concluída'}
+                      </div>
+                      <ul className="text-xs text-green-700 mt-1 space-y-1">
+                        <li>• {job.createdCount} {job.dryRun ? 'a criar' : 'criados'}</li>
+                        <li>• {job.updatedCount} {job.dryRun ? 'a atualizar' : 'atualizados'}</li>
+                        <li>• {job.skippedCount} ignorados (já existentes)</li>
+                        <li>• {job.failedCount} com erros</li>
+                        {!job.dryRun && job.sendInvitations && <li>• {job.invitedCount} convites enviados</li>}
                       </ul>
                     </div>
                   </div>
                 </div>
               )}
 
-              {importResult.errors && importResult.errors.length > 0 && (
-                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                  <div className="text-sm text-yellow-800">
-                    <strong>Atenção:</strong> Alguns utilizadores têm erros e não serão importados.
-                    Corrija os erros no ficheiro CSV e tente novamente.
-                  </div>
+              {failedRows && failedRows.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 max-h-48 overflow-y-auto">
+                  <div className="text-sm font-medium text-yellow-800 mb-1">Linhas com erros:</div>
+                  <ul className="text-xs text-yellow-800 space-y-1">
+                    {failedRows.map(row => (
+                      <li key={row.id}>• Linha {row.rowNumber}{row.email ? ` (${row.email})` : ''}: {row.message}</li>
+                    ))}
+                  </ul>
                 </div>
               )}
+
+              <button
+                onClick={handleDownloadReport}
+                disabled={isDownloading}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Download size={16} />
+                <span>Descarregar relatório</span>
+              </button>
             </div>
           )}
 
@@ -292,15 +319,27 @@ export const UserImport: React.FC<UserImportProps> = ({ onClose, onImport }) =>
               onClick={onClose}
               className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
             >
-              Cancelar
+              {job && isFinished && !job.dryRun ? 'Fechar' : 'Cancelar'}
             </button>
-            {importResult?.success && importResult.data && (
-              <button
-                onClick={handleImport}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Importar {importResult.data.length} Utilizadores
-              </button>
+            {file && !isRunning && !(job && isFinished && !job.dryRun) && (
+              <>
+                {!(job && isFinished && job.dryRun) && (
+                  <button
+                    onClick={() => startImport(true)}
+                    disabled={isUploading}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isUploading ? 'A enviar...' : 'Validar Ficheiro'}
+                  </button>
+                )}
+                <button
+                  onClick={() => startImport(false)}
+                  disabled={isUploading}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Importar Utilizadores
+                </button>
+              </>
             )}
           </div>
         </div>
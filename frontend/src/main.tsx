@@ -1,3 +1,4 @@
+import MaintenanceGate from '@/components/MaintenanceGate';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { AuthProvider } from '@/context/AuthContext';
 import { lazy, Suspense } from 'react';
@@ -14,11 +15,14 @@ import './index.css';
 // Lazy load non-critical pages
 const PropertyDetails = lazy(() => import('@/pages/PropertyDetails'));
 const NotFound = lazy(() => import('@/pages/NotFound'));
+const ResetPassword = lazy(() => import('@/pages/ResetPassword'));
+const VerifyEmail = lazy(() => import('@/pages/VerifyEmail'));
 
 // Lazy load all admin pages
 const Analytics = lazy(() => import('@/pages/admin/Analytics'));
 const Approvals = lazy(() => import('@/pages/admin/Approvals'));
 const Dashboard = lazy(() => import('@/pages/admin/Dashboard'));
+const Messages = lazy(() => import('@/pages/admin/Messages'));
 const PropertiesList = lazy(() => import('@/pages/admin/PropertiesList'));
 const PropertiesManagement = lazy(() => import('@/pages/admin/PropertiesManagement'));
 const PropertyImages = lazy(() => import('@/pages/admin/PropertyImages'));
@@ -47,9 +51,11 @@ import Loading from '@/components/Loading';
 function AppWrapper({ children }: { children: React.ReactNode }) {
   return (
     <AuthProvider>
-      <Suspense fallback={<Loading fullScreen />}>
-        {children}
-      </Suspense>
+      <MaintenanceGate>
+        <Suspense fallback={<Loading fullScreen />}>
+          {children}
+        </Suspense>
+      </MaintenanceGate>
     </AuthProvider>
   );
 }
@@ -71,6 +77,22 @@ const router = createBrowserRouter([
       </AppWrapper>
     ) 
   },
+  {
+    path: '/reset-password',
+    element: (
+      <AppWrapper>
+        <ResetPassword />
+      </AppWrapper>
+    )
+  },
+  {
+    path: '/verify-email',
+    element: (
+      <AppWrapper>
+        <VerifyEmail />
+      </AppWrapper>
+    )
+  },
   { 
     path: '/property/:id', 
     element: (
@@ -158,6 +180,16 @@ const router = createBrowserRouter([
       </AppWrapper>
     )
   },
+  {
+    path: '/admin/messages',
+    element: (
+      <AppWrapper>
+        <ProtectedRoute>
+          <Messages />
+        </ProtectedRoute>
+      </AppWrapper>
+    )
+  },
   // Legacy route for backward compatibility
   {
     path: '/admin/properties-old',
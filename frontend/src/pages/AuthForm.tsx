@@ -1,3 +1,4 @@
+import { resendVerificationRequest } from '@/api/client';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
@@ -5,6 +6,7 @@ import { PasswordStrength } from '@/components/ui/PasswordStrength';
 import { useAuth } from '@/context/AuthContext';
 import { Eye, EyeOff, Lock, Mail, Phone, User, UserCheck } from 'lucide-react';
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 
 type AuthMode = 'login' | 'register';
 
@@ -15,6 +17,9 @@ export default function AuthForm() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  // Email of a login refused until the address is verified
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [resending, setResending] = useState(false);
 
   // Login form state
   const [loginData, setLoginData] = useState({
@@ -40,13 +45,35 @@ export default function AuthForm() {
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setSuccess(null);
+    setUnverifiedEmail(null);
     try {
       await login(loginData.email, loginData.password, loginData.rememberMe);
     } catch (e: any) {
+      if (e?.response?.data?.error?.details?.reason === 'email_not_verified') {
+        setUnverifiedEmail(loginData.email);
+        setError('Confirme o seu email antes de entrar. Verifique a caixa de entrada.');
+        return;
+      }
       setError(e?.response?.data?.error?.message ?? 'Falha no login');
     }
   };
 
+  const handleResendVerification = async () => {
+    if (!unverifiedEmail) return;
+    setResending(true);
+    try {
+      await resendVerificationRequest(unverifiedEmail);
+      setError(null);
+      setUnverifiedEmail(null);
+      setSuccess('Se a conta ainda não estiver verificada, vai receber um novo email de verificação.');
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message ?? 'Não foi possível reenviar o email de verificação');
+    } finally {
+      setResending(false);
+    }
+  };
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -102,6 +129,7 @@ export default function AuthForm() {
     setTwoFactorCode('');
     setError(null);
     setSuccess(null);
+    setUnverifiedEmail(null);
   };
 
   const switchMode = (newMode: AuthMode) => {
@@ -177,6 +205,19 @@ export default function AuthForm() {
         {error && (
           <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">
             {error}
+            {unverifiedEmail && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                loading={resending}
+                onClick={handleResendVerification}
+                className="mt-3"
+                fullWidth
+              >
+                Reenviar email de verificação
+              </Button>
+            )}
           </div>
         )}
 
@@ -229,12 +270,12 @@ export default function AuthForm() {
                 />
                 Lembrar sessão
               </label>
-              <button
-                type="button"
+              <Link
+                to="/reset-password"
                 className="text-sm text-blue-600 hover:text-blue-700"
               >
                 Esqueceu a senha?
-              </button>
+              </Link>
             </div>
 
             <Button
@@ -145,6 +145,7 @@ function LeadForm() {
   const [done, setDone] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [propertyDetails, setPropertyDetails] = useState<string>('');
+  const [propertyId, setPropertyId] = useState<string | null>(null);
 
   // Check for property details in URL parameters
   useEffect(() => {
@@ -153,6 +154,8 @@ function LeadForm() {
     if (propertyParam) {
       setPropertyDetails(decodeURIComponent(propertyParam));
     }
+    // Links the message to the listing for the conversion analytics
+    setPropertyId(urlParams.get('propertyId'));
   }, []);
 
   const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -171,6 +174,7 @@ function LeadForm() {
         body: formData.get('message') as string,
         context: {
           source: 'website_contact_form',
+          ...(propertyId ? { propertyId } : {}),
           timestamp: new Date().toISOString(),
           userAgent: navigator.userAgent,
           url: window.location.href
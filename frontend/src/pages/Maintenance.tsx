@@ -0,0 +1,48 @@
+import { useMaintenanceStatus } from '@/api/queries';
+import { Wrench } from 'lucide-react';
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+
+interface MaintenanceProps {
+  message?: string | undefined;
+  retryAfter?: number | undefined;
+}
+
+const formatRetryAfter = (seconds: number) => {
+  if (seconds < 3600) {
+    return `${Math.max(1, Math.round(seconds / 60))} minutos`;
+  }
+  return `${Math.round(seconds / 3600)} hora(s)`;
+};
+
+export default function Maintenance({ message, retryAfter }: MaintenanceProps) {
+  // Verifica periodicamente se a manutenção terminou
+  const { data: status } = useMaintenanceStatus(60 * 1000);
+
+  useEffect(() => {
+    if (status && !status.maintenanceMode) {
+      window.location.reload();
+    }
+  }, [status]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 text-center bg-slate-50">
+      <div className="max-w-lg">
+        <div className="w-16 h-16 mx-auto mb-6 rounded-full bg-amber-100 flex items-center justify-center">
+          <Wrench size={32} className="text-amber-600" />
+        </div>
+        <h1 className="text-3xl font-bold mb-3">Estamos em manutenção</h1>
+        <p className="text-slate-600 mb-2">
+          {status?.maintenanceMessage || message || 'A plataforma está temporariamente indisponível para manutenção programada.'}
+        </p>
+        {retryAfter && (
+          <p className="text-sm text-slate-500 mb-6">Tente novamente dentro de cerca de {formatRetryAfter(retryAfter)}.</p>
+        )}
+        <div className="flex gap-3 justify-center mt-6">
+          <button onClick={() => window.location.reload()} className="btn btn-primary">Tentar novamente</button>
+          <Link to="/login" className="btn btn-outline">Acesso de administrador</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
-import { useProperty, usePropertyImages } from '@/api/queries';
-import { ArrowLeft, Calendar, ChevronLeft, ChevronRight, Eye, MapPin, X } from 'lucide-react';
-import { useState } from 'react';
-import { Link, useParams } from 'react-router-dom';
+import { recordPropertyView, useProperty, usePropertyImages, useToggleFavorite } from '@/api/queries';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { useAuth } from '@/context/AuthContext';
+import { ArrowLeft, Calendar, ChevronLeft, ChevronRight, Eye, Heart, MapPin, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 
 export default function PropertyDetails() {
   const { id } = useParams<{ id: string }>();
@@ -9,11 +11,28 @@ export default function PropertyDetails() {
   
   const { data: property, isLoading: propertyLoading, error: propertyError } = useProperty(id || '');
   const { data: images = [], isLoading: imagesLoading } = usePropertyImages(id || '');
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const toggleFavorite = useToggleFavorite();
+
+  useEffect(() => {
+    if (id) recordPropertyView(id);
+  }, [id]);
 
   const openImageModal = (index: number) => {
     setSelectedImageIndex(index);
   };
 
+  const handleFavoriteClick = () => {
+    if (!property) return;
+    // Favorites belong to an account, so visitors are asked to log in first
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    toggleFavorite.mutate({ propertyId: property.id, favorite: !property.isFavorite });
+  };
+
   const closeImageModal = () => {
     setSelectedImageIndex(null);
   };
@@ -109,8 +128,9 @@ export default function PropertyDetails() {
                        className="aspect-square overflow-hidden rounded-lg cursor-pointer group relative"
                        onClick={() => openImageModal(index)}
                      >
-                       <img 
-                         src={image.url} 
+                       <ResponsiveImage
+                         image={image}
+                         sizes="(min-width: 1024px) 33vw, 50vw"
                          alt={image.alt || `${property.title} - Imagem ${index + 1}`}
                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                        />
@@ -144,14 +164,30 @@ export default function PropertyDetails() {
                     <span className="text-sm">{property.location}</span>
                   </div>
                 </div>
-                                 <span className={`px-3 py-1 rounded-full text-xs font-medium ${
-                   property.status === 'for_sale' ? 'bg-green-100 text-green-700' :
-                   property.status === 'for_rent' ? 'bg-blue-100 text-blue-700' :
-                   'bg-gray-100 text-gray-700'
-                 }`}>
-                   {property.status === 'for_sale' ? 'À venda' : 
-                    property.status === 'for_rent' ? 'Para arrendar' : 'Vendido'}
-                 </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleFavoriteClick}
+                    disabled={toggleFavorite.isPending}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 ${
+                      property.isFavorite
+                        ? 'border-red-200 bg-red-50 text-red-600 hover:bg-red-100'
+                        : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                    aria-pressed={!!property.isFavorite}
+                    title={property.isFavorite ? 'Remover dos favoritos' : 'Adicionar aos favoritos'}
+                  >
+                    <Heart size={14} className={property.isFavorite ? 'fill-current' : ''} />
+                    <span>{property.favoriteCount ?? 0}</span>
+                  </button>
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                    property.status === 'for_sale' ? 'bg-green-100 text-green-700' :
+                    property.status === 'for_rent' ? 'bg-blue-100 text-blue-700' :
+                    'bg-gray-100 text-gray-700'
+                  }`}>
+                    {property.status === 'for_sale' ? 'À venda' : 
+                     property.status === 'for_rent' ? 'Para arrendar' : 'Vendido'}
+                  </span>
+                </div>
               </div>
 
               <div className="text-3xl font-bold text-green-600 mb-4">
@@ -216,7 +252,7 @@ Estado: ${property.status === 'for_sale' ? 'À venda' : property.status === 'for
 Gostaria de agendar uma visita para esta propriedade.`.trim();
 
                     // Navigate to contact form with property details
-                    const contactUrl = `/?property=${encodeURIComponent(propertyDetails)}#contato`;
+                    const contactUrl = `/?property=${encodeURIComponent(propertyDetails)}&propertyId=${property.id}#contato`;
                     window.location.href = contactUrl;
                   }}
                   className="w-full bg-sky-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-sky-700 transition-colors"
@@ -258,11 +294,16 @@ Gostaria de agendar uma visita para esta propriedade.`.trim();
                </button>
              )}
              
-             <img
-               src={images[selectedImageIndex]?.url}
-               alt={images[selectedImageIndex]?.alt || `${property.title} - Imagem ${selectedImageIndex + 1}`}
-               className="max-w-full max-h-full object-contain"
-             />
+             {images[selectedImageIndex] && (
+               <ResponsiveImage
+                 image={images[selectedImageIndex]}
+                 sizes="100vw"
+                 variantNames={['detail', 'full']}
+                 loading="eager"
+                 alt={images[selectedImageIndex].alt || `${property.title} - Imagem ${selectedImageIndex + 1}`}
+                 className="max-w-full max-h-full object-contain"
+               />
+             )}
              
              <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 text-white text-center">
                <p className="text-sm opacity-75">
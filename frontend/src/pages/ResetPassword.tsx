@@ -0,0 +1,158 @@
+import { forgotPasswordRequest, resetPasswordRequest } from '@/api/client';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { PasswordStrength } from '@/components/ui/PasswordStrength';
+import { Eye, EyeOff, KeyRound, Lock, Mail } from 'lucide-react';
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+/**
+ * Target of the reset and invitation emails (?token=...&invite=1);
+ * without a token it asks for the email to send a new link to
+ */
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const isInvite = searchParams.get('invite') === '1';
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      await forgotPasswordRequest(email);
+      // Same message whether or not the account exists
+      setSuccess('Se existir uma conta com este email, vai receber um link para redefinir a senha.');
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message ?? 'Não foi possível enviar o email de recuperação');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError('As senhas não coincidem');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await resetPasswordRequest({ token: token!, password, confirmPassword });
+      setSuccess(isInvite
+        ? 'Senha definida com sucesso. Já pode entrar na sua conta.'
+        : 'Senha redefinida com sucesso. Entre novamente com a nova senha.');
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message ?? 'Não foi possível redefinir a senha');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const title = token ? (isInvite ? 'Definir Senha' : 'Redefinir Senha') : 'Recuperar Senha';
+  const subtitle = token
+    ? 'Escolha a nova senha da sua conta'
+    : 'Indique o email da sua conta para receber um link de recuperação';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4">
+      <Card variant="elevated" className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <KeyRound className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+          <p className="text-gray-600 mt-2">{subtitle}</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-4 p-3 rounded-lg bg-green-50 border border-green-200 text-green-700 text-sm">
+            {success}
+          </div>
+        )}
+
+        {!success && (token ? (
+          <form onSubmit={handleReset} className="space-y-4">
+            <Input
+              label="Nova Senha"
+              type={showPassword ? 'text' : 'password'}
+              placeholder="Mínimo 8 caracteres"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              leftIcon={<Lock className="w-4 h-4" />}
+              rightIcon={
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="hover:text-gray-600"
+                >
+                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+              }
+              fullWidth
+              required
+            />
+
+            {password && <PasswordStrength password={password} />}
+
+            <Input
+              label="Confirmar Senha"
+              type={showPassword ? 'text' : 'password'}
+              placeholder="Digite a senha novamente"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              leftIcon={<Lock className="w-4 h-4" />}
+              fullWidth
+              required
+            />
+
+            <Button type="submit" loading={loading} fullWidth size="lg">
+              {loading ? 'A guardar...' : 'Guardar Senha'}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleRequest} className="space-y-4">
+            <Input
+              label="E-mail"
+              type="email"
+              placeholder="seu@email.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              leftIcon={<Mail className="w-4 h-4" />}
+              fullWidth
+              required
+            />
+
+            <Button type="submit" loading={loading} fullWidth size="lg">
+              {loading ? 'A enviar...' : 'Enviar Link'}
+            </Button>
+          </form>
+        ))}
+
+        <div className="mt-6 text-center">
+          <Link to="/login" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            Voltar ao login
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+}
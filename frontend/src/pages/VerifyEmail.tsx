@@ -0,0 +1,114 @@
+import { resendVerificationRequest, verifyEmailRequest } from '@/api/client';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import Loading from '@/components/Loading';
+import { Mail, MailCheck } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+/**
+ * Target of the verification email (?token=...); offers a new link when
+ * the token is missing, used or expired
+ */
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'O link de verificação está incompleto.');
+  const [email, setEmail] = useState('');
+  const [resending, setResending] = useState(false);
+  const [resent, setResent] = useState(false);
+  // Tokens are single-use: StrictMode runs effects twice in development
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    verifyEmailRequest(token)
+      .then(() => setStatus('verified'))
+      .catch((e: any) => {
+        setStatus('failed');
+        setError(e?.response?.data?.error?.message ?? 'Não foi possível verificar o email');
+      });
+  }, [token]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setResending(true);
+    try {
+      await resendVerificationRequest(email);
+      setResent(true);
+      setError(null);
+    } catch (e: any) {
+      setError(e?.response?.data?.error?.message ?? 'Não foi possível reenviar o email de verificação');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  if (status === 'verifying') {
+    return <Loading fullScreen />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4">
+      <Card variant="elevated" className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <MailCheck className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {status === 'verified' ? 'Email Verificado' : 'Verificar Email'}
+          </h1>
+          <p className="text-gray-600 mt-2">
+            {status === 'verified'
+              ? 'A sua conta está ativa. Já pode entrar.'
+              : 'Peça um novo link de verificação para o email da sua conta'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {resent && (
+          <div className="mb-4 p-3 rounded-lg bg-green-50 border border-green-200 text-green-700 text-sm">
+            Se a conta ainda não estiver verificada, vai receber um novo email de verificação.
+          </div>
+        )}
+
+        {status === 'failed' && !resent && (
+          <form onSubmit={handleResend} className="space-y-4">
+            <Input
+              label="E-mail"
+              type="email"
+              placeholder="seu@email.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              leftIcon={<Mail className="w-4 h-4" />}
+              fullWidth
+              required
+            />
+
+            <Button type="submit" loading={resending} fullWidth size="lg">
+              {resending ? 'A enviar...' : 'Reenviar email de verificação'}
+            </Button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link to="/login" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            {status === 'verified' ? 'Entrar' : 'Voltar ao login'}
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+}
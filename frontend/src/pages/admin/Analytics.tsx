@@ -1,10 +1,63 @@
-import { useAnalyticsData } from '@/api/admin-queries';
+import { useAnalyticsData, useTopViewedProperties, useViewAnalytics } from '@/api/admin-queries';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { ListSkeleton } from '@/components/Skeleton';
-import { MapPin } from 'lucide-react';
+import type { ReportGranularity } from '@/types';
+import { Eye, MapPin } from 'lucide-react';
+import { useState } from 'react';
+
+const TYPE_LABELS: Record<string, string> = {
+  apartamento: 'Apartamento',
+  moradia: 'Moradia',
+  loft: 'Loft',
+  penthouse: 'Penthouse',
+  estudio: 'Estúdio',
+  escritorio: 'Escritório',
+  terreno: 'Terreno',
+  loja: 'Loja',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  for_sale: 'À venda',
+  for_rent: 'Para arrendar',
+  sold: 'Vendido',
+  rented: 'Arrendado',
+  under_contract: 'Em negociação',
+  withdrawn: 'Retirado',
+};
+
+const TYPE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-orange-500', 'bg-pink-500', 'bg-teal-500', 'bg-yellow-500', 'bg-gray-500'];
+
+const RANGE_OPTIONS = [
+  { days: 90, label: 'Últimos 3 meses' },
+  { days: 180, label: 'Últimos 6 meses' },
+  { days: 365, label: 'Últimos 12 meses' },
+];
+
+const GRANULARITY_OPTIONS: Array<{ value: ReportGranularity; label: string }> = [
+  { value: 'day', label: 'Por dia' },
+  { value: 'week', label: 'Por semana' },
+  { value: 'month', label: 'Por mês' },
+];
+
+function formatMetric(value: number | null | undefined) {
+  return value != null ? value.toLocaleString() : '—';
+}
+
+function formatPeriod(period: string, granularity: ReportGranularity) {
+  const date = new Date(`${period}T00:00:00Z`);
+  return granularity === 'month'
+    ? date.toLocaleDateString('pt-PT', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : date.toLocaleDateString('pt-PT', { timeZone: 'UTC' });
+}
 
 export default function Analytics() {
-  const { data: analyticsData, isLoading, error } = useAnalyticsData();
+  const [days, setDays] = useState(365);
+  const [granularity, setGranularity] = useState<ReportGranularity>('month');
+  const { data: report, isLoading, error } = useAnalyticsData(days, granularity);
+  const { data: viewAnalytics, isLoading: viewsLoading, error: viewsError } = useViewAnalytics(30);
+  const { data: topProperties = [], isLoading: topLoading } = useTopViewedProperties(30, 10);
+
+  const maxDailyViews = Math.max(0, ...(viewAnalytics?.viewsPerDay ?? []).map((day) => day.views));
 
   if (isLoading) {
     return (
@@ -31,16 +84,37 @@ export default function Analytics() {
     );
   }
 
-  const { propertyTypes, topRegions, monthlyStats } = analyticsData || {
-    propertyTypes: [] as Array<{ name: string; percentage: number; color: string }>,
-    topRegions: [] as Array<{ name: string; searches: number }>,
-    monthlyStats: [] as Array<{ month: string; properties: number; users: number; views: number }>
-  };
+  const propertyTypes = report?.distribution.byType ?? [];
+  const propertyStatuses = report?.distribution.byStatus ?? [];
+  const topRegions = report?.topRegions;
+  const trends = report?.trends;
 
   return (
     <AdminLayout>
       <div className="space-y-6">
-        <h2 className="text-2xl font-bold text-gray-800">Análises e Relatórios</h2>
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <h2 className="text-2xl font-bold text-gray-800">Análises e Relatórios</h2>
+          <div className="flex gap-3">
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={granularity}
+              onChange={(e) => setGranularity(e.target.value as ReportGranularity)}
+              className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white"
+            >
+              {GRANULARITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
         
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Property Types Chart */}
@@ -48,114 +122,224 @@ export default function Analytics() {
             <h3 className="text-lg font-semibold text-gray-800 mb-4">Propriedades por Tipo</h3>
             <div className="space-y-4">
               {propertyTypes.map((type, index) => (
-                <div key={index}>
+                <div key={type.key ?? 'none'}>
                   <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-medium text-gray-700">{type.name}</span>
-                    <span className="font-semibold text-gray-800">{type.percentage}%</span>
+                    <span className="text-sm font-medium text-gray-700">
+                      {type.key ? TYPE_LABELS[type.key] ?? type.key : 'Sem tipo'}
+                    </span>
+                    <span className="font-semibold text-gray-800">{type.percentage}% ({type.count})</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div 
-                      className={`${type.color} h-2 rounded-full transition-all duration-300`}
+                      className={`${TYPE_COLORS[index % TYPE_COLORS.length]} h-2 rounded-full transition-all duration-300`}
                       style={{width: `${type.percentage}%`}}
                     ></div>
                   </div>
                 </div>
               ))}
             </div>
+            {propertyStatuses.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-6">
+                {propertyStatuses.map((status) => (
+                  <span key={status.key} className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {STATUS_LABELS[status.key] ?? status.key}: {status.count} ({status.percentage}%)
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Top Regions */}
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
             <h3 className="text-lg font-semibold text-gray-800 mb-4">Regiões Mais Procuradas</h3>
+            {topRegions == null ? (
+              <p className="text-sm text-gray-500">Pesquisas indisponíveis (serviço de utilizadores).</p>
+            ) : topRegions.length === 0 ? (
+              <p className="text-sm text-gray-500">Ainda não há pesquisas neste período.</p>
+            ) : (
             <div className="space-y-4">
               {topRegions.map((region, index) => (
-                <div key={index} className="flex items-center justify-between">
+                <div key={region.region} className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
                     <div className="flex items-center justify-center w-8 h-8 bg-blue-100 rounded-full text-blue-600 font-semibold text-sm">
                       {index + 1}
                     </div>
                     <div className="flex items-center space-x-2">
                       <MapPin size={16} className="text-gray-500" />
-                      <span className="font-medium text-gray-800">{region.name}</span>
+                      <span className="font-medium text-gray-800">{region.region}</span>
                     </div>
                   </div>
                   <span className="font-semibold text-gray-600">{region.searches.toLocaleString()} pesquisas</span>
                 </div>
               ))}
             </div>
+            )}
           </div>
         </div>
 
-        {/* Monthly Trends */}
+        {/* Trends */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">Tendências Mensais</h3>
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Tendências</h3>
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-gray-50 border-b border-gray-100">
                 <tr>
-                  <th className="text-left p-4 font-semibold text-gray-700">Mês</th>
+                  <th className="text-left p-4 font-semibold text-gray-700">Período</th>
                   <th className="text-left p-4 font-semibold text-gray-700">Propriedades Adicionadas</th>
                   <th className="text-left p-4 font-semibold text-gray-700">Novos Utilizadores</th>
                   <th className="text-left p-4 font-semibold text-gray-700">Visualizações</th>
+                  <th className="text-left p-4 font-semibold text-gray-700">Contactos</th>
                 </tr>
               </thead>
               <tbody>
-                {monthlyStats.map((stat, index) => (
-                  <tr key={index} className="border-b border-gray-100 hover:bg-gray-50">
-                    <td className="p-4 font-medium text-gray-800">{stat.month}</td>
-                    <td className="p-4 text-gray-600">{stat.properties}</td>
-                    <td className="p-4 text-gray-600">{stat.users}</td>
-                    <td className="p-4 text-gray-600">{stat.views.toLocaleString()}</td>
+                {(trends?.series ?? []).map((point) => (
+                  <tr key={point.period} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="p-4 font-medium text-gray-800">{formatPeriod(point.period, trends!.granularity)}</td>
+                    <td className="p-4 text-gray-600">{point.properties}</td>
+                    <td className="p-4 text-gray-600">{formatMetric(point.users)}</td>
+                    <td className="p-4 text-gray-600">{point.views.toLocaleString()}</td>
+                    <td className="p-4 text-gray-600">{formatMetric(point.leads)}</td>
                   </tr>
                 ))}
               </tbody>
+              {trends && (
+                <tfoot className="bg-gray-50 border-t border-gray-100">
+                  <tr>
+                    <td className="p-4 font-semibold text-gray-800">Total</td>
+                    <td className="p-4 font-semibold text-gray-700">{trends.totals.properties}</td>
+                    <td className="p-4 font-semibold text-gray-700">{formatMetric(trends.totals.users)}</td>
+                    <td className="p-4 font-semibold text-gray-700">{trends.totals.views.toLocaleString()}</td>
+                    <td className="p-4 font-semibold text-gray-700">{formatMetric(trends.totals.leads)}</td>
+                  </tr>
+                </tfoot>
+              )}
             </table>
           </div>
         </div>
 
-        {/* Performance Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Days on Market */}
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <h4 className="text-sm font-semibold text-gray-600 mb-2">Taxa de Conversão</h4>
-            <div className="text-2xl font-bold text-gray-800 mb-1">3.2%</div>
-            <div className="text-sm text-green-600">+0.5% vs mês anterior</div>
+            <h4 className="text-sm font-semibold text-gray-600 mb-2">Tempo Médio no Mercado</h4>
+            <div className="text-2xl font-bold text-gray-800 mb-1">
+              {report?.daysOnMarket.averageDays != null ? `${report.daysOnMarket.averageDays} dias` : '—'}
+            </div>
+            <div className="text-sm text-gray-500">
+              {report?.daysOnMarket.closedListings ?? 0} imóveis vendidos ou arrendados no período
+            </div>
+          </div>
+
+          {/* Price per m² */}
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 lg:col-span-2">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Preço por m² (imóveis à venda)</h3>
+            {(report?.pricePerSqm ?? []).length === 0 ? (
+              <p className="text-sm text-gray-500">Sem imóveis à venda com área indicada.</p>
+            ) : (
+              <div className="space-y-3">
+                {report!.pricePerSqm.map((entry) => (
+                  <div key={entry.location} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <MapPin size={16} className="text-gray-500 shrink-0" />
+                      <span className="font-medium text-gray-800 truncate">{entry.location}</span>
+                    </div>
+                    <div className="text-right shrink-0 ml-4">
+                      <div className="font-semibold text-gray-600">
+                        {entry.averagePricePerSqm.toLocaleString('pt-PT', { maximumFractionDigits: 0 })} €/m²
+                      </div>
+                      <div className="text-xs text-gray-500">{entry.listings} imóveis</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
-          
+        </div>
+
+        {/* View Metrics */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <h4 className="text-sm font-semibold text-gray-600 mb-2">Tempo Médio no Site</h4>
-            <div className="text-2xl font-bold text-gray-800 mb-1">4:32</div>
-            <div className="text-sm text-green-600">+12s vs mês anterior</div>
+            <h4 className="text-sm font-semibold text-gray-600 mb-2">Visualizações</h4>
+            <div className="text-2xl font-bold text-gray-800 mb-1">{formatMetric(viewAnalytics?.views)}</div>
+            <div className="text-sm text-gray-500">Últimos 30 dias</div>
           </div>
-          
+
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <h4 className="text-sm font-semibold text-gray-600 mb-2">Taxa de Rejeição</h4>
-            <div className="text-2xl font-bold text-gray-800 mb-1">42.1%</div>
-            <div className="text-sm text-red-600">+2.3% vs mês anterior</div>
+            <h4 className="text-sm font-semibold text-gray-600 mb-2">Visitantes Únicos</h4>
+            <div className="text-2xl font-bold text-gray-800 mb-1">{formatMetric(viewAnalytics?.uniqueVisitors)}</div>
+            <div className="text-sm text-gray-500">Últimos 30 dias</div>
           </div>
-        </div>
 
-        {/* Recent Activity Summary */}
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">Resumo de Atividade (Últimos 30 dias)</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            <div className="text-center">
-              <div className="text-3xl font-bold text-blue-600 mb-2">156</div>
-              <div className="text-sm text-gray-600">Propriedades Visualizadas</div>
-            </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-green-600 mb-2">23</div>
-              <div className="text-sm text-gray-600">Contactos Recebidos</div>
-            </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-purple-600 mb-2">8</div>
-              <div className="text-sm text-gray-600">Propriedades Vendidas</div>
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+            <h4 className="text-sm font-semibold text-gray-600 mb-2">Taxa de Conversão</h4>
+            <div className="text-2xl font-bold text-gray-800 mb-1">
+              {viewAnalytics?.conversionRate != null ? `${viewAnalytics.conversionRate}%` : '—'}
             </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-orange-600 mb-2">12</div>
-              <div className="text-sm text-gray-600">Novos Agentes</div>
+            <div className="text-sm text-gray-500">
+              {viewAnalytics?.contacts != null ? `${viewAnalytics.contacts} contactos recebidos` : 'Contactos indisponíveis'}
             </div>
           </div>
         </div>
+
+        {viewsError && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-xl">
+            <p className="text-yellow-800 text-sm">Não foi possível carregar as visualizações das propriedades.</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Daily Views */}
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Visualizações por Dia (Últimos 30 dias)</h3>
+            {viewsLoading ? (
+              <ListSkeleton rows={4} />
+            ) : (
+              <div className="flex items-end gap-1 h-40">
+                {(viewAnalytics?.viewsPerDay ?? []).map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex-1 bg-blue-500 rounded-t hover:bg-blue-600 transition-colors"
+                    style={{ height: `${maxDailyViews > 0 ? Math.max((day.views / maxDailyViews) * 100, 2) : 2}%` }}
+                    title={`${day.date}: ${day.views} visualizações, ${day.uniqueVisitors} visitantes únicos`}
+                  ></div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Top Viewed Properties */}
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Propriedades Mais Vistas</h3>
+            {topLoading ? (
+              <ListSkeleton rows={5} />
+            ) : topProperties.length === 0 ? (
+              <p className="text-sm text-gray-500">Ainda não há visualizações registadas.</p>
+            ) : (
+              <div className="space-y-3">
+                {topProperties.map((property, index) => (
+                  <div key={property.propertyId} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <div className="flex items-center justify-center w-8 h-8 bg-blue-100 rounded-full text-blue-600 font-semibold text-sm shrink-0">
+                        {index + 1}
+                      </div>
+                      <div className="flex items-center space-x-2 min-w-0">
+                        <Eye size={16} className="text-gray-500 shrink-0" />
+                        <span className="font-medium text-gray-800 truncate">{property.title}</span>
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0 ml-4">
+                      <div className="font-semibold text-gray-600">{property.views.toLocaleString()} visualizações</div>
+                      <div className="text-xs text-gray-500">
+                        {property.contacts != null
+                          ? `${property.contacts} contactos · ${property.conversionRate}%`
+                          : `${property.uniqueVisitors.toLocaleString()} visitantes únicos`}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
       </div>
     </AdminLayout>
   );
@@ -1,67 +1,60 @@
+import {
+    ModerationAction,
+    ModerationQueueItem,
+    ModerationStatus,
+    useModerationAction,
+    useModerationQueue
+} from '@/api/admin-queries';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { Toast } from '@/components/Toast';
 import {
     AlertCircle,
+    ArrowDownUp,
     CheckCircle,
     Clock,
     Eye,
+    Send,
     XCircle
 } from 'lucide-react';
 import React, { useState } from 'react';
 
-interface PendingItem {
-  id: string;
-  type: 'property' | 'user' | 'report';
-  title: string;
-  description: string;
-  submittedBy: string;
-  submittedAt: string;
-  priority: 'low' | 'medium' | 'high';
-}
+const STATUS_TABS: { key: ModerationStatus; label: string }[] = [
+  { key: 'SUBMITTED', label: 'Submetidos' },
+  { key: 'APPROVED', label: 'Aprovados' },
+  { key: 'REJECTED', label: 'Rejeitados' },
+  { key: 'DRAFT', label: 'Rascunhos' },
+];
 
-interface ApprovalRowProps {
-  item: PendingItem;
-  onApprove: (id: string) => void;
-  onReject: (id: string) => void;
-  onView: (id: string) => void;
-}
+const ACTION_MESSAGES: Partial<Record<ModerationAction, string>> = {
+  approve: 'aprovado',
+  reject: 'rejeitado',
+  publish: 'publicado',
+};
 
-const ApprovalRow: React.FC<ApprovalRowProps> = ({ item, onApprove, onReject, onView }) => {
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'property': return 'bg-blue-100 text-blue-700';
-      case 'user': return 'bg-green-100 text-green-700';
-      case 'report': return 'bg-orange-100 text-orange-700';
-      default: return 'bg-gray-100 text-gray-700';
-    }
-  };
+const formatWaiting = (hours: number | null) => {
+  if (hours === null) return '—';
+  if (hours < 1) return 'há menos de 1 hora';
+  if (hours < 24) return `há ${Math.floor(hours)} horas`;
+  const days = Math.floor(hours / 24);
+  return days === 1 ? 'há 1 dia' : `há ${days} dias`;
+};
 
-  const getTypeLabel = (type: string) => {
-    switch (type) {
-      case 'property': return 'Propriedade';
-      case 'user': return 'Utilizador';
-      case 'report': return 'Relatório';
-      default: return 'Outro';
-    }
-  };
+const getWaitingColor = (hours: number | null) => {
+  if (hours === null) return 'bg-gray-100 text-gray-700';
+  if (hours >= 72) return 'bg-red-100 text-red-700';
+  if (hours >= 24) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-green-100 text-green-700';
+};
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'high': return 'bg-red-100 text-red-700';
-      case 'medium': return 'bg-yellow-100 text-yellow-700';
-      case 'low': return 'bg-green-100 text-green-700';
-      default: return 'bg-gray-100 text-gray-700';
-    }
-  };
+interface ApprovalRowProps {
+  item: ModerationQueueItem;
+  busy: boolean;
+  onAction: (item: ModerationQueueItem, action: ModerationAction) => void;
+  onReject: (item: ModerationQueueItem) => void;
+}
 
-  const getPriorityLabel = (priority: string) => {
-    switch (priority) {
-      case 'high': return 'Alta';
-      case 'medium': return 'Média';
-      case 'low': return 'Baixa';
-      default: return 'Normal';
-    }
-  };
+const ApprovalRow: React.FC<ApprovalRowProps> = ({ item, busy, onAction, onReject }) => {
+  const missing = item.checklist.items.filter(check => !check.passed);
 
   return (
     <tr className="border-b border-gray-100 hover:bg-gray-50">
@@ -69,48 +62,82 @@ const ApprovalRow: React.FC<ApprovalRowProps> = ({ item, onApprove, onReject, on
         <div className="flex items-center space-x-3">
           <Clock size={16} className="text-gray-400" />
           <div>
-            <div className="font-medium text-gray-800">{item.title}</div>
-            <div className="text-sm text-gray-500">{item.description}</div>
+            <div className="font-medium text-gray-800">{item.listing.title}</div>
+            <div className="text-sm text-gray-500">
+              {item.listing.location} · {item.listing.price.toLocaleString('pt-PT')} €
+            </div>
+            {item.rejectionReason && (
+              <div className="text-xs text-red-600 mt-1">Motivo: {item.rejectionReason}</div>
+            )}
           </div>
         </div>
       </td>
       <td className="p-4">
-        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getTypeColor(item.type)}`}>
-          {getTypeLabel(item.type)}
-        </span>
+        {item.checklist.complete ? (
+          <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
+            Completo
+          </span>
+        ) : (
+          <span
+            className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-700"
+            title={missing.map(check => check.label).join(', ')}
+          >
+            Em falta: {missing.length}
+          </span>
+        )}
       </td>
       <td className="p-4">
-        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(item.priority)}`}>
-          {getPriorityLabel(item.priority)}
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getWaitingColor(item.waitingHours)}`}>
+          {formatWaiting(item.waitingHours)}
         </span>
       </td>
       <td className="p-4 text-sm text-gray-600">
-        <div>{item.submittedBy}</div>
-        <div className="text-xs text-gray-500">{item.submittedAt}</div>
+        <div>{item.submittedBy ?? item.agentId ?? '—'}</div>
+        <div className="text-xs text-gray-500">
+          {item.submittedAt ? new Date(item.submittedAt).toLocaleString('pt-PT') : 'Não submetido'}
+        </div>
       </td>
       <td className="p-4">
         <div className="flex space-x-2">
-          <button 
+          <a
             className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
-            onClick={() => onView(item.id)}
+            href={`/property/${item.propertyId}`}
+            target="_blank"
+            rel="noreferrer"
             title="Visualizar"
           >
             <Eye size={16} />
-          </button>
-          <button 
-            className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
-            onClick={() => onApprove(item.id)}
-            title="Aprovar"
-          >
-            <CheckCircle size={16} />
-          </button>
-          <button 
-            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
-            onClick={() => onReject(item.id)}
-            title="Rejeitar"
-          >
-            <XCircle size={16} />
-          </button>
+          </a>
+          {item.status === 'SUBMITTED' && (
+            <button
+              className="p-2 text-green-600 hover:bg-green-50 rounded-lg disabled:opacity-50"
+              onClick={() => onAction(item, 'approve')}
+              disabled={busy}
+              title="Aprovar"
+            >
+              <CheckCircle size={16} />
+            </button>
+          )}
+          {item.status === 'APPROVED' && (
+            <button
+              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+              onClick={() => onAction(item, 'publish')}
+              disabled={busy}
+              title="Publicar"
+            >
+              <Send size={16} />
+            </button>
+          )}
+          {(item.status === 'SUBMITTED' || item.status === 'APPROVED') && (
+            <button
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+              onClick={() => onReject(item)}
+              disabled={busy}
+              title="Rejeitar"
+            >
+              <XCircle size={16} />
+            </button>
+          )}
         </div>
       </td>
     </tr>
@@ -119,83 +146,34 @@ const ApprovalRow: React.FC<ApprovalRowProps> = ({ item, onApprove, onReject, on
 
 export default function Approvals() {
   const [toast, setToast] = useState<string | null>(null);
-  const [filter, setFilter] = useState<'all' | 'property' | 'user' | 'report'>('all');
+  const [status, setStatus] = useState<ModerationStatus>('SUBMITTED');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [rejecting, setRejecting] = useState<ModerationQueueItem | null>(null);
+  const [reason, setReason] = useState('');
 
-  // Dados simulados - TODO: Substituir por dados reais da API
-  const pendingItems: PendingItem[] = [
-    {
-      id: '1',
-      type: 'property',
-      title: 'Apartamento T3 em Lisboa',
-      description: 'Propriedade no centro da cidade, 3 quartos, 2 casas de banho',
-      submittedBy: 'João Silva',
-      submittedAt: 'há 2 horas',
-      priority: 'high'
-    },
-    {
-      id: '2',
-      type: 'user',
-      title: 'Novo Agente: Maria Santos',
-      description: 'Pedido de registo como agente imobiliário',
-      submittedBy: 'Maria Santos',
-      submittedAt: 'há 4 horas',
-      priority: 'medium'
-    },
-    {
-      id: '3',
-      type: 'property',
-      title: 'Moradia V4 no Porto',
-      description: 'Casa com jardim, 4 quartos, garagem para 2 carros',
-      submittedBy: 'Pedro Costa',
-      submittedAt: 'há 6 horas',
-      priority: 'medium'
-    },
-    {
-      id: '4',
-      type: 'report',
-      title: 'Relatório de Problema',
-      description: 'Utilizador reportou problema com propriedade ID #123',
-      submittedBy: 'Ana Ferreira',
-      submittedAt: 'há 1 dia',
-      priority: 'low'
-    },
-    {
-      id: '5',
-      type: 'property',
-      title: 'Loja Comercial no Centro',
-      description: 'Espaço comercial de 100m², ideal para restauração',
-      submittedBy: 'Carlos Oliveira',
-      submittedAt: 'há 1 dia',
-      priority: 'low'
-    }
-  ];
+  const { data, isLoading, error } = useModerationQueue({ status: [status], sortOrder, limit: 50 });
+  const moderationAction = useModerationAction();
 
-  const filteredItems = filter === 'all' 
-    ? pendingItems 
-    : pendingItems.filter(item => item.type === filter);
+  const items = data?.data ?? [];
+  const pendingCount = data?.counts.SUBMITTED ?? 0;
 
-  const handleApprove = (id: string) => {
-    const item = pendingItems.find(i => i.id === id);
-    setToast(`${item?.title} aprovado com sucesso!`);
-    // TODO: Implementar aprovação real
-  };
-
-  const handleReject = (id: string) => {
-    const item = pendingItems.find(i => i.id === id);
-    if (!confirm(`Rejeitar: ${item?.title}?`)) return;
-    setToast(`${item?.title} rejeitado.`);
-    // TODO: Implementar rejeição real
-  };
-
-  const handleView = (id: string) => {
-    const item = pendingItems.find(i => i.id === id);
-    setToast(`Visualizar: ${item?.title}`);
-    // TODO: Implementar modal de visualização
+  const runAction = async (item: ModerationQueueItem, action: ModerationAction, actionReason?: string) => {
+    try {
+      await moderationAction.mutateAsync({ propertyId: item.propertyId, action, reason: actionReason });
+      setToast(`${item.listing.title} ${ACTION_MESSAGES[action] ?? 'atualizado'} com sucesso!`);
+      return true;
+    } catch (err: any) {
+      setToast(err?.response?.data?.message ?? 'Não foi possível atualizar o imóvel');
+      return false;
+    }
   };
 
-  const getFilterCount = (type: 'all' | 'property' | 'user' | 'report') => {
-    if (type === 'all') return pendingItems.length;
-    return pendingItems.filter(item => item.type === type).length;
+  const handleReject = async () => {
+    if (!rejecting || !reason.trim()) return;
+    if (await runAction(rejecting, 'reject', reason.trim())) {
+      setRejecting(null);
+      setReason('');
+    }
   };
 
   return (
@@ -206,39 +184,75 @@ export default function Approvals() {
           <div className="flex items-center space-x-2">
             <AlertCircle className="text-orange-500" size={20} />
             <span className="text-orange-600 font-medium">
-              {pendingItems.length} itens aguardando aprovação
+              {pendingCount} imóveis aguardando revisão
             </span>
           </div>
         </div>
 
         {/* Filter Tabs */}
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-          <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
-            {[
-              { key: 'all' as const, label: 'Todos' },
-              { key: 'property' as const, label: 'Propriedades' },
-              { key: 'user' as const, label: 'Utilizadores' },
-              { key: 'report' as const, label: 'Relatórios' }
-            ].map(({ key, label }) => (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-center gap-4">
+          <div className="flex flex-1 space-x-1 bg-gray-100 p-1 rounded-lg">
+            {STATUS_TABS.map(({ key, label }) => (
               <button
                 key={key}
-                onClick={() => setFilter(key)}
+                onClick={() => setStatus(key)}
                 className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                  filter === key
+                  status === key
                     ? 'bg-white text-blue-600 shadow-sm'
                     : 'text-gray-600 hover:text-gray-800'
                 }`}
               >
-                {label} ({getFilterCount(key)})
+                {label} ({data?.counts[key] ?? 0})
               </button>
             ))}
           </div>
+          <button
+            onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+            className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50"
+          >
+            <ArrowDownUp size={16} />
+            <span>{sortOrder === 'asc' ? 'Mais antigos primeiro' : 'Mais recentes primeiro'}</span>
+          </button>
         </div>
 
+        {/* Rejection Reason */}
+        {rejecting && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-red-100 space-y-3">
+            <h3 className="text-lg font-semibold text-gray-800">Rejeitar: {rejecting.listing.title}</h3>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              placeholder="Indique ao agente o que deve corrigir"
+              className="w-full border border-gray-200 rounded-lg p-3 text-sm"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={handleReject}
+                disabled={!reason.trim() || moderationAction.isPending}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                Rejeitar
+              </button>
+              <button
+                onClick={() => { setRejecting(null); setReason(''); }}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Approvals Table */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100">
           <div className="overflow-x-auto">
-            {filteredItems.length === 0 ? (
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-600">A carregar...</div>
+            ) : error ? (
+              <div className="p-8 text-center text-red-600">Erro ao carregar a fila de revisão</div>
+            ) : items.length === 0 ? (
               <div className="p-8 text-center text-gray-600">
                 <AlertCircle size={48} className="mx-auto text-gray-400 mb-4" />
                 <div className="text-lg font-medium mb-2">Nenhuma aprovação pendente</div>
@@ -248,21 +262,21 @@ export default function Approvals() {
               <table className="w-full">
                 <thead className="bg-gray-50 border-b border-gray-100">
                   <tr>
-                    <th className="text-left p-4 font-semibold text-gray-700">Item</th>
-                    <th className="text-left p-4 font-semibold text-gray-700">Tipo</th>
-                    <th className="text-left p-4 font-semibold text-gray-700">Prioridade</th>
+                    <th className="text-left p-4 font-semibold text-gray-700">Imóvel</th>
+                    <th className="text-left p-4 font-semibold text-gray-700">Campos obrigatórios</th>
+                    <th className="text-left p-4 font-semibold text-gray-700">Em espera</th>
                     <th className="text-left p-4 font-semibold text-gray-700">Submetido</th>
                     <th className="text-left p-4 font-semibold text-gray-700">Ações</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredItems.map(item => (
+                  {items.map(item => (
                     <ApprovalRow
-                      key={item.id}
+                      key={item.propertyId}
                       item={item}
-                      onApprove={handleApprove}
-                      onReject={handleReject}
-                      onView={handleView}
+                      busy={moderationAction.isPending}
+                      onAction={runAction}
+                      onReject={setRejecting}
                     />
                   ))}
                 </tbody>
@@ -270,22 +284,6 @@ export default function Approvals() {
             )}
           </div>
         </div>
-
-        {/* Quick Actions */}
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">Ações Rápidas</h3>
-          <div className="flex flex-wrap gap-3">
-            <button className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
-              Aprovar Todas as Propriedades
-            </button>
-            <button className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
-              Aprovar Todos os Utilizadores
-            </button>
-            <button className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors">
-              Marcar Relatórios como Lidos
-            </button>
-          </div>
-        </div>
       </div>
 
       <Toast text={toast ?? ''} show={!!toast} onClose={() => setToast(null)} />
@@ -1,4 +1,4 @@
-import { useDashboardStats } from '@/api/admin-queries';
+import { useDashboardStats, type DashboardSection } from '@/api/admin-queries';
 import AdminLayout from '@/components/admin/AdminLayout';
 import StatCard from '@/components/admin/StatCard';
 import { ListSkeleton } from '@/components/Skeleton';
@@ -9,6 +9,13 @@ import {
   Users
 } from 'lucide-react';
 
+const UNAVAILABLE = 'Indisponível';
+
+// A failing service shows as unavailable instead of a misleading zero
+function sectionValue<T>(section: DashboardSection<T> | undefined, pick: (data: T) => number): string {
+  return section?.status === 'ok' ? pick(section.data).toLocaleString() : UNAVAILABLE;
+}
+
 export default function Dashboard() {
   const { data: dashboardData, isLoading, error } = useDashboardStats();
 
@@ -34,11 +41,15 @@ export default function Dashboard() {
   }
 
   const stats = {
-    totalProperties: dashboardData?.properties.total || 0,
-    activeUsers: dashboardData?.users.active || 0,
-    monthlyViews: dashboardData?.properties.monthlyViews || 0,
-    pendingApprovals: dashboardData?.pendingApprovals || 0
+    totalProperties: sectionValue(dashboardData?.properties, (data) => data.total),
+    activeUsers: sectionValue(dashboardData?.users, (data) => data.active),
+    monthlyViews: sectionValue(dashboardData?.views, (data) => data.views),
+    pendingApprovals: sectionValue(dashboardData?.moderation, (data) => data.pendingReview)
   };
+  const unavailableSections = dashboardData
+    ? [dashboardData.users, dashboardData.properties, dashboardData.moderation, dashboardData.views]
+        .filter((section) => section.status === 'unavailable').length
+    : 0;
 
   // TODO: Implementar APIs para dados recentes
   const recentProperties: any[] = [];
@@ -47,27 +58,32 @@ export default function Dashboard() {
   return (
     <AdminLayout>
       <div className="space-y-6">
+        {unavailableSections > 0 && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-xl">
+            <p className="text-yellow-800 text-sm">
+              Alguns serviços não responderam; os valores marcados como {UNAVAILABLE} serão atualizados quando estiverem disponíveis.
+            </p>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <StatCard 
             icon={Building} 
             title="Total de Propriedades" 
-            value={stats.totalProperties.toLocaleString()} 
-            change={12}
+            value={stats.totalProperties} 
             color="bg-blue-500"
           />
           <StatCard 
             icon={Users} 
             title="Utilizadores Ativos" 
-            value={stats.activeUsers.toLocaleString()} 
-            change={8}
+            value={stats.activeUsers} 
             color="bg-green-500"
           />
           <StatCard 
             icon={Eye} 
-            title="Visualizações/Mês" 
-            value={stats.monthlyViews.toLocaleString()} 
-            change={-3}
+            title="Visualizações (30 dias)" 
+            value={stats.monthlyViews} 
             color="bg-purple-500"
           />
           <StatCard 
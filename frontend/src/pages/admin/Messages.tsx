@@ -0,0 +1,205 @@
+import {
+    ConversationMessage,
+    ConversationStatus,
+    useConversation,
+    useConversations,
+    useReplyToConversation
+} from '@/api/admin-queries';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { Toast } from '@/components/Toast';
+import { AlertCircle, Mail, MessageSquare, Search, Send } from 'lucide-react';
+import React, { useState } from 'react';
+
+const STATUS_TABS: { key: ConversationStatus | undefined; label: string }[] = [
+  { key: 'OPEN', label: 'Por responder' },
+  { key: 'ANSWERED', label: 'Respondidas' },
+  { key: undefined, label: 'Todas' },
+];
+
+const formatDate = (value: string) => new Date(value).toLocaleString('pt-PT');
+
+const MessageBubble: React.FC<{ message: ConversationMessage }> = ({ message }) => {
+  const outbound = message.direction === 'OUTBOUND';
+
+  return (
+    <div className={`flex ${outbound ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[80%] rounded-xl p-4 ${outbound ? 'bg-blue-50 border border-blue-100' : 'bg-gray-50 border border-gray-100'}`}>
+        <div className="flex items-center justify-between gap-4 mb-2 text-xs text-gray-500">
+          <span className="font-medium text-gray-700">{outbound ? 'Ribeira Azul' : message.fromName}</span>
+          <span>{formatDate(message.createdAt)}</span>
+        </div>
+        <p className="text-sm text-gray-800 whitespace-pre-wrap">{message.body}</p>
+        {message.status === 'FAILED' && (
+          <p className="mt-2 text-xs text-red-600">Não entregue{message.error ? `: ${message.error}` : ''}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default function Messages() {
+  const [toast, setToast] = useState<string | null>(null);
+  const [status, setStatus] = useState<ConversationStatus | undefined>('OPEN');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+
+  const { data, isLoading, error } = useConversations({
+    status,
+    contactEmail: search.trim() || undefined,
+    limit: 50,
+  });
+  const { data: conversation, isLoading: loadingConversation } = useConversation(selectedId);
+  const replyToConversation = useReplyToConversation();
+
+  const conversations = data?.data ?? [];
+
+  const handleReply = async () => {
+    if (!selectedId || !reply.trim()) return;
+
+    try {
+      await replyToConversation.mutateAsync({ conversationId: selectedId, body: reply.trim() });
+      setReply('');
+      setToast('Resposta enviada com sucesso!');
+    } catch (err: any) {
+      setToast(err?.response?.data?.message ?? 'Não foi possível enviar a resposta');
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-800">Mensagens</h2>
+          {data && (
+            <span className="text-sm text-gray-600">{data.pagination.total} conversas</span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Conversation List */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 flex flex-col">
+            <div className="p-4 border-b border-gray-100 space-y-3">
+              <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+                {STATUS_TABS.map(({ key, label }) => (
+                  <button
+                    key={label}
+                    onClick={() => setStatus(key)}
+                    className={`flex-1 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                      status === key
+                        ? 'bg-white text-blue-600 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="relative">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Procurar por email"
+                  className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-600">A carregar...</div>
+            ) : error ? (
+              <div className="p-8 text-center text-red-600">Erro ao carregar as conversas</div>
+            ) : conversations.length === 0 ? (
+              <div className="p-8 text-center text-gray-600">
+                <MessageSquare size={40} className="mx-auto text-gray-400 mb-3" />
+                <div className="text-sm">Nenhuma conversa encontrada</div>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100 overflow-y-auto max-h-[70vh]">
+                {conversations.map(item => (
+                  <li key={item.id}>
+                    <button
+                      onClick={() => setSelectedId(item.id)}
+                      className={`w-full text-left p-4 hover:bg-gray-50 ${selectedId === item.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-800 truncate">{item.contactName}</span>
+                        {item.status === 'OPEN' && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700">
+                            Por responder
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">{item.contactEmail}</div>
+                      {item.lastMessage && (
+                        <div className="text-sm text-gray-600 truncate mt-1">{item.lastMessage.body}</div>
+                      )}
+                      <div className="text-xs text-gray-400 mt-1">
+                        {formatDate(item.lastMessageAt)} · {item.messageCount} mensagens
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Conversation Thread */}
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-100 flex flex-col">
+            {!selectedId ? (
+              <div className="p-12 text-center text-gray-600">
+                <Mail size={48} className="mx-auto text-gray-400 mb-4" />
+                <div className="text-sm">Selecione uma conversa para ver as mensagens</div>
+              </div>
+            ) : loadingConversation || !conversation ? (
+              <div className="p-8 text-center text-gray-600">A carregar...</div>
+            ) : (
+              <>
+                <div className="p-6 border-b border-gray-100">
+                  <h3 className="text-lg font-semibold text-gray-800">{conversation.subject}</h3>
+                  <p className="text-sm text-gray-500">
+                    {conversation.contactName} · {conversation.contactEmail}
+                  </p>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto max-h-[55vh]">
+                  {conversation.messages.map(message => (
+                    <MessageBubble key={message.id} message={message} />
+                  ))}
+                </div>
+
+                <div className="p-6 border-t border-gray-100 space-y-3">
+                  <textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    rows={4}
+                    maxLength={10000}
+                    placeholder={`Responder a ${conversation.contactEmail}`}
+                    className="w-full border border-gray-200 rounded-lg p-3 text-sm"
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center text-xs text-gray-500">
+                      <AlertCircle size={14} className="mr-1" />
+                      A resposta é enviada por email e as respostas do contacto aparecem nesta conversa.
+                    </span>
+                    <button
+                      onClick={handleReply}
+                      disabled={!reply.trim() || replyToConversation.isPending}
+                      className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      <Send size={16} />
+                      <span>{replyToConversation.isPending ? 'A enviar...' : 'Enviar'}</span>
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Toast text={toast ?? ''} show={!!toast} onClose={() => setToast(null)} />
+    </AdminLayout>
+  );
+}
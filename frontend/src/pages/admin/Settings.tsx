@@ -1,10 +1,10 @@
 import { useResetSystemSettings, useSystemSettings, useUpdateSystemSettings } from '@/api/admin-queries';
 import AdminLayout from '@/components/admin/AdminLayout';
-import { BackupSettings, BrandSettings, SEOSettings, SystemSettings } from '@/components/admin/settings';
+import { BackupSettings, BrandSettings, ModuleSettings, SEOSettings, SettingsHistory, SystemSettings } from '@/components/admin/settings';
 import { ListSkeleton } from '@/components/Skeleton';
 import { Toast } from '@/components/Toast';
 import type { UpdateSystemSettingsRequest } from '@/types';
-import { Database, Palette, RotateCcw, Save, Search, Server } from 'lucide-react';
+import { Boxes, Database, History, Palette, RotateCcw, Save, Search, Server } from 'lucide-react';
 import React, { useState } from 'react';
 
 interface SettingsFormData extends UpdateSystemSettingsRequest {
@@ -32,7 +32,7 @@ interface SettingsFormData extends UpdateSystemSettingsRequest {
 
 export default function Settings() {
   const [toast, setToast] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'brand' | 'seo' | 'system' | 'backup'>('brand');
+  const [activeTab, setActiveTab] = useState<'brand' | 'seo' | 'system' | 'modules' | 'backup' | 'history'>('brand');
   
   const { data: systemSettingsResponse, isLoading } = useSystemSettings();
   const { mutateAsync: updateSettings, isPending: isUpdating } = useUpdateSystemSettings();
@@ -160,7 +160,9 @@ export default function Settings() {
     { id: 'brand', label: 'Marca & Visual', icon: Palette },
     { id: 'seo', label: 'SEO & Otimização', icon: Search },
     { id: 'system', label: 'Sistema', icon: Server },
+    { id: 'modules', label: 'Módulos', icon: Boxes },
     { id: 'backup', label: 'Backup & Restauração', icon: Database },
+    { id: 'history', label: 'Histórico', icon: History },
   ];
 
   if (isLoading) {
@@ -312,6 +314,8 @@ export default function Settings() {
             />
           )}
 
+          {activeTab === 'modules' && <ModuleSettings />}
+
           {activeTab === 'backup' && (
             <BackupSettings
               onBackup={handleBackup}
@@ -321,6 +325,8 @@ export default function Settings() {
               isRestoring={false}
             />
           )}
+
+          {activeTab === 'history' && <SettingsHistory />}
         </div>
 
         {/* System Information */}
@@ -1,9 +1,10 @@
-import { useBulkImportUsers, useCreateUser, useDeleteUser, useRoles, useSendCommunication, useUpdateUser, useUsers } from '@/api/admin-queries';
+import { useCreateUser, useDeleteUser, useRoles, useSendCommunication, useUpdateUser, useUsers } from '@/api/admin-queries';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { UserAudit, UserCommunication, UserImport, UserPermissions } from '@/components/admin/users';
 import Modal from '@/components/Modal';
 import { ListSkeleton } from '@/components/Skeleton';
 import { Toast } from '@/components/Toast';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   Activity,
   CheckCircle,
@@ -421,7 +422,7 @@ export default function UsersManagement() {
   const { mutateAsync: createUser, isPending: isCreating } = useCreateUser();
   const { mutateAsync: updateUser, isPending: isUpdating } = useUpdateUser();
   const { mutateAsync: sendCommunication } = useSendCommunication();
-  const { mutateAsync: bulkImportUsers } = useBulkImportUsers();
+  const queryClient = useQueryClient();
 
   const users = usersData?.data || [];
   const totalUsers = usersData?.pagination?.total || users.length;
@@ -1200,7 +1201,13 @@ export default function UsersManagement() {
           onSend={async (data) => {
             try {
               const result = await sendCommunication(data);
-              setToast(`Comunicação enviada para ${result.sentCount} utilizadores`);
+              if (result.status === 'sending') {
+                setToast(`Envio em curso para ${result.recipientCount} utilizadores`);
+              } else if (result.failedCount > 0) {
+                setToast(`Comunicação enviada para ${result.sentCount} utilizadores (${result.failedCount} falharam)`);
+              } else {
+                setToast(`Comunicação enviada para ${result.sentCount} utilizadores`);
+              }
             } catch (error) {
               setToast('Erro ao enviar comunicação');
             }
@@ -1212,16 +1219,10 @@ export default function UsersManagement() {
       {isImportModalOpen && (
         <UserImport
           onClose={() => setIsImportModalOpen(false)}
-          onImport={async (users) => {
-            try {
-              const result = await bulkImportUsers({ users });
-              setToast(`${result.imported} utilizadores importados com sucesso`);
-              if (result.errors && result.errors.length > 0) {
-                setToast(`${result.imported} importados, ${result.failed} falharam`);
-              }
-            } catch (error) {
-              setToast('Erro ao importar utilizadores');
-            }
+          onComplete={(job) => {
+            queryClient.invalidateQueries({ queryKey: ['users'] });
+            queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+            setToast(`${job.createdCount} criados, ${job.updatedCount} atualizados, ${job.failedCount} com erros`);
           }}
         />
       )}
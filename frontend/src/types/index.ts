@@ -11,10 +11,46 @@ export type Property = {
   bedrooms?: number | null;
   bathrooms?: number | null;
   area?: number | null;
+  favoriteCount?: number;
+  isFavorite?: boolean; // Only set for logged-in users
   createdAt: string;
   updatedAt: string;
 };
 
+export type ImageVariantFormat = 'avif' | 'webp' | 'jpeg';
+
+export type ImageVariant = {
+  width: number;
+  height: number;
+  sources: Partial<Record<ImageVariantFormat, string>>;
+};
+
+export type PropertyImage = {
+  id: string;
+  propertyId: string;
+  url: string; // JPEG fallback
+  alt: string | null;
+  order: number;
+  width?: number | null;
+  height?: number | null;
+  dominantColor?: string | null;
+  variants?: Record<string, ImageVariant> | null; // thumb, card, detail, full (absent on older uploads)
+  createdAt: string;
+};
+
+export type FavoriteStatus = {
+  propertyId: string;
+  isFavorite: boolean;
+  favoriteCount: number;
+};
+
+export type Favorite = {
+  id: string;
+  propertyId: string;
+  createdAt: string;
+  property: Pick<Property, 'id' | 'title' | 'location' | 'price' | 'status' | 'imageUrl'>;
+};
+
 export type PropertiesPagination = {
   nextCursor: string | null;
   hasMore: boolean;
@@ -31,12 +67,76 @@ export type Project = {
   id: string;
   name: string;
   type: 'renovation' | 'construction' | 'design';
+  status: 'planned' | 'in_progress' | 'completed' | 'on_hold';
   imageUrl?: string | null;
   description?: string | null;
+  gallery: string[];
+  startDate?: string | null;
+  endDate?: string | null;
+  properties: Array<{ id: string; title: string; location: string; imageUrl?: string | null }>;
   createdAt: string;
   updatedAt: string;
 };
 
+export type DailyViews = {
+  date: string; // YYYY-MM-DD (UTC)
+  views: number;
+  uniqueVisitors: number;
+};
+
+// contacts/conversionRate are null when the messages service is unavailable
+export type ViewsSummary = {
+  range: { from: string; to: string };
+  views: number;
+  uniqueVisitors: number;
+  viewsPerDay: DailyViews[];
+  contacts: number | null;
+  conversionRate: number | null;
+};
+
+export type TopPropertyAnalytics = {
+  propertyId: string;
+  title: string;
+  views: number;
+  uniqueVisitors: number;
+  contacts: number | null;
+  conversionRate: number | null;
+};
+
+export type ReportGranularity = 'day' | 'week' | 'month';
+
+export type DistributionEntry<K = string> = {
+  key: K;
+  count: number;
+  percentage: number;
+};
+
+// users/leads (and topRegions) are null when the users or messages service is unavailable
+export type TrendPoint = {
+  period: string; // Period start, YYYY-MM-DD (UTC)
+  properties: number;
+  views: number;
+  users: number | null;
+  leads: number | null;
+};
+
+export type MarketReport = {
+  range: { from: string; to: string };
+  distribution: {
+    total: number;
+    byType: DistributionEntry<string | null>[];
+    byStatus: DistributionEntry[];
+  };
+  topRegions: Array<{ region: string; searches: number }> | null;
+  trends: {
+    granularity: ReportGranularity;
+    series: TrendPoint[];
+    totals: { properties: number; views: number; users: number | null; leads: number | null };
+  };
+  daysOnMarket: { closedListings: number; averageDays: number | null };
+  pricePerSqm: Array<{ location: string; listings: number; averagePricePerSqm: number }>;
+};
+
 export type Lead = {
   id: string;
   name: string;
@@ -0,0 +1,39 @@
+-- Backfill: copy the saved properties of the removed user-service API into the favorites
+-- of properties-service, keyed on the auth-service user ID
+-- Execute once after deploying the favorites API (properties-service migrations applied):
+--   docker exec -i <postgres-container> psql -U <user> -d <database> < scripts/backfill-property-favorites.sql
+-- Safe to run again: favorites that already exist are kept as they are
+
+BEGIN;
+
+-- Profiles reuse the auth user ID when they were created from it, otherwise they match by email
+CREATE TEMP TABLE saved_property_owners ON COMMIT DROP AS
+SELECT
+  sp."propertyId",
+  sp."createdAt",
+  COALESCE(by_id.id, by_email.id) AS "authUserId"
+FROM users.saved_properties sp
+JOIN users.user_profiles up ON up.id = sp."userId"
+LEFT JOIN auth.users by_id ON by_id.id = up.id
+LEFT JOIN auth.users by_email ON lower(by_email.email) = lower(up.email);
+
+INSERT INTO properties.property_favorites ("id", "propertyId", "userId", "createdAt")
+SELECT DISTINCT ON (o."authUserId", o."propertyId")
+  gen_random_uuid()::text,
+  o."propertyId",
+  o."authUserId",
+  o."createdAt"
+FROM saved_property_owners o
+JOIN properties.properties p ON p.id = o."propertyId"
+WHERE o."authUserId" IS NOT NULL
+ORDER BY o."authUserId", o."propertyId", o."createdAt"
+ON CONFLICT ("propertyId", "userId") DO NOTHING;
+
+-- Saved properties that could not be copied (no auth user or the property no longer exists)
+SELECT
+  COUNT(*) FILTER (WHERE o."authUserId" IS NULL) AS without_auth_user,
+  COUNT(*) FILTER (WHERE o."authUserId" IS NOT NULL AND p.id IS NULL) AS missing_property
+FROM saved_property_owners o
+LEFT JOIN properties.properties p ON p.id = o."propertyId";
+
+COMMIT;
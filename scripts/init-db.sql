@@ -27,6 +27,8 @@ ALTER ROLE postgres SET search_path TO public, auth, properties, settings, users
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 CREATE EXTENSION IF NOT EXISTS "pg_trgm"; -- For text search
+CREATE EXTENSION IF NOT EXISTS "postgis"; -- For geospatial property search
+CREATE EXTENSION IF NOT EXISTS "unaccent"; -- For accent-insensitive full-text search
 
 -- Create shared types that can be used across schemas
 DO $$ 